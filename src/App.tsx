@@ -5,7 +5,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
 import { CallProvider } from "@/contexts/CallContext";
-import { IncomingCallModal, ActiveCallWindow } from "@/components/calls";
+import { PresenceProvider } from "@/contexts/PresenceContext";
+import { IncomingCallModal, ActiveCallWindow, CallRecordingDialog } from "@/components/calls";
 import Layout from "@/components/Layout";
 import Home from "@/pages/Home";
 import Auth from "@/pages/Auth";
@@ -28,7 +29,10 @@ import HashtagAnalytics from "@/pages/HashtagAnalytics";
 import Editor from "@/pages/Editor";
 import EditPreview from "@/pages/EditPreview";
 import EditorPublish from "@/pages/EditorPublish";
+import EditorProjects from "@/pages/EditorProjects";
 import ReelViewer from "@/pages/ReelViewer";
+import GoLive from "@/pages/GoLive";
+import LiveViewer from "@/pages/LiveViewer";
 
 const queryClient = new QueryClient();
 
@@ -36,44 +40,50 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <BrowserRouter>
       <AuthProvider>
-        <CallProvider>
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            {/* Global call UI components */}
-            <IncomingCallModal />
-            <ActiveCallWindow />
-            <Routes>
-              <Route path="/auth" element={<Auth />} />
-              {/* Fullscreen reel viewer - outside Layout for true fullscreen */}
-              <Route path="/reels/:id" element={<ReelViewer />} />
-              <Route path="/" element={<Layout />}>
-                <Route index element={<Home />} />
-                <Route path="profile" element={<Profile />} />
-                <Route path="profile/:username" element={<ProfilePage />} />
-                <Route path="post/:id" element={<PostPage />} />
-                <Route path="messages" element={<Messages />} />
-                <Route path="messages/:conversationId" element={<ConversationPage />} />
-                <Route path="search" element={<Search />} />
-                <Route path="groups" element={<Groups />} />
-                <Route path="pages" element={<Pages />} />
-                <Route path="settings" element={<Settings />} />
-                <Route path="saved" element={<Saved />} />
-                <Route path="mentions" element={<Mentions />} />
-                <Route path="hashtag/:tag" element={<Hashtag />} />
-                <Route path="hashtag/:tag/analytics" element={<HashtagAnalytics />} />
-                <Route path="hashtags/following" element={<FollowedHashtags />} />
-                <Route path="explore/hashtags" element={<HashtagExplorer />} />
-                <Route path="edit-preview" element={<EditPreview />} />
-                <Route path="editor" element={<Editor />} />
-                <Route path="editor/:projectId" element={<Editor />} />
-                <Route path="editor/publish" element={<EditorPublish />} />
-              </Route>
-              <Route path="/404" element={<NotFound />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </TooltipProvider>
-        </CallProvider>
+        <PresenceProvider>
+          <CallProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              {/* Global call UI components */}
+              <IncomingCallModal />
+              <ActiveCallWindow />
+              <CallRecordingDialog />
+              <Routes>
+                <Route path="/auth" element={<Auth />} />
+                {/* Fullscreen reel viewer - outside Layout for true fullscreen */}
+                <Route path="/reels/:id" element={<ReelViewer />} />
+                <Route path="/live/new" element={<GoLive />} />
+                <Route path="/live/:id" element={<LiveViewer />} />
+                <Route path="/" element={<Layout />}>
+                  <Route index element={<Home />} />
+                  <Route path="profile" element={<Profile />} />
+                  <Route path="profile/:username" element={<ProfilePage />} />
+                  <Route path="post/:id" element={<PostPage />} />
+                  <Route path="messages" element={<Messages />} />
+                  <Route path="messages/:conversationId" element={<ConversationPage />} />
+                  <Route path="search" element={<Search />} />
+                  <Route path="groups" element={<Groups />} />
+                  <Route path="pages" element={<Pages />} />
+                  <Route path="settings" element={<Settings />} />
+                  <Route path="saved" element={<Saved />} />
+                  <Route path="mentions" element={<Mentions />} />
+                  <Route path="hashtag/:tag" element={<Hashtag />} />
+                  <Route path="hashtag/:tag/analytics" element={<HashtagAnalytics />} />
+                  <Route path="hashtags/following" element={<FollowedHashtags />} />
+                  <Route path="explore/hashtags" element={<HashtagExplorer />} />
+                  <Route path="edit-preview" element={<EditPreview />} />
+                  <Route path="editor" element={<Editor />} />
+                  <Route path="editor/projects" element={<EditorProjects />} />
+                  <Route path="editor/:projectId" element={<Editor />} />
+                  <Route path="editor/publish" element={<EditorPublish />} />
+                </Route>
+                <Route path="/404" element={<NotFound />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </TooltipProvider>
+          </CallProvider>
+        </PresenceProvider>
       </AuthProvider>
     </BrowserRouter>
   </QueryClientProvider>
@@ -0,0 +1,113 @@
+// Audio mix unit tests - per-track gain for multi-track audio
+// Tests: roles, fades, envelopes, ducking ranges and ramps, sampled gain curves
+
+import { describe, it, expect } from 'vitest';
+import {
+  getAudioTrackRole,
+  getDuckGainAt,
+  getDuckingRanges,
+  getEnvelopeGainAt,
+  getFadeGainAt,
+  getTrackGainAt,
+  sampleTrackGain,
+  upsertEnvelopePoint,
+} from '@/lib/audioMix';
+import { AudioDucking, AudioTrack } from '@/types/editor';
+
+const makeTrack = (overrides: Partial<AudioTrack> = {}): AudioTrack => ({
+  id: 'music',
+  type: 'audio',
+  url: 'https://example.com/music.mp3',
+  sourceType: 'direct',
+  title: 'Music',
+  startAt: 0,
+  endAt: 10,
+  duration: 10,
+  volume: 80,
+  muted: false,
+  ...overrides,
+});
+
+const ducking: AudioDucking = { enabled: true, amount: 0.5, attack: 1, release: 2 };
+
+describe('Audio mix', () => {
+  describe('getAudioTrackRole', () => {
+    it('should treat recordings as voiceover unless a role is set', () => {
+      expect(getAudioTrackRole(makeTrack())).toBe('music');
+      expect(getAudioTrackRole(makeTrack({ sourceType: 'recorded' }))).toBe('voiceover');
+      expect(getAudioTrackRole(makeTrack({ sourceType: 'recorded', role: 'sfx' }))).toBe('sfx');
+    });
+  });
+
+  describe('fades', () => {
+    it('should ramp in and out at the track edges', () => {
+      const track = makeTrack({ startAt: 2, endAt: 12, fadeIn: 2, fadeOut: 4 });
+      expect(getFadeGainAt(track, 1)).toBe(0);
+      expect(getFadeGainAt(track, 3)).toBe(0.5);
+      expect(getFadeGainAt(track, 6)).toBe(1);
+      expect(getFadeGainAt(track, 11)).toBe(0.25);
+      expect(getFadeGainAt(track, 13)).toBe(0);
+    });
+  });
+
+  describe('envelopes', () => {
+    it('should interpolate between points and hold at the ends', () => {
+      const points = [{ time: 4, gain: 0.2 }, { time: 2, gain: 1 }];
+      expect(getEnvelopeGainAt(undefined, 3)).toBe(1);
+      expect(getEnvelopeGainAt(points, 0)).toBe(1);
+      expect(getEnvelopeGainAt(points, 3)).toBeCloseTo(0.6);
+      expect(getEnvelopeGainAt(points, 8)).toBe(0.2);
+    });
+
+    it('should replace a point at the same time and keep points sorted', () => {
+      const points = upsertEnvelopePoint([{ time: 5, gain: 1 }, { time: 1, gain: 0.5 }], { time: 5.02, gain: 1.4 });
+      expect(points).toEqual([{ time: 1, gain: 0.5 }, { time: 5.02, gain: 1 }]);
+    });
+  });
+
+  describe('ducking', () => {
+    it('should merge overlapping voiceover tracks and ignore muted ones', () => {
+      const ranges = getDuckingRanges([
+        makeTrack(),
+        makeTrack({ id: 'v1', role: 'voiceover', startAt: 2, endAt: 5 }),
+        makeTrack({ id: 'v2', sourceType: 'recorded', startAt: 4, endAt: 7 }),
+        makeTrack({ id: 'v3', role: 'voiceover', startAt: 8, endAt: 9, muted: true }),
+      ]);
+      expect(ranges).toEqual([{ start: 2, end: 7 }]);
+    });
+
+    it('should duck ahead of the voice and release after it', () => {
+      const ranges = [{ start: 4, end: 6 }];
+      expect(getDuckGainAt(ranges, 2, ducking)).toBe(1);
+      expect(getDuckGainAt(ranges, 3.5, ducking)).toBe(0.75);
+      expect(getDuckGainAt(ranges, 5, ducking)).toBe(0.5);
+      expect(getDuckGainAt(ranges, 7, ducking)).toBe(0.75);
+      expect(getDuckGainAt(ranges, 9, ducking)).toBe(1);
+      expect(getDuckGainAt(ranges, 5, { ...ducking, enabled: false })).toBe(1);
+    });
+
+    it('should only duck music tracks', () => {
+      const ranges = [{ start: 0, end: 10 }];
+      expect(getTrackGainAt(makeTrack(), 5, ranges, ducking)).toBe(0.5);
+      expect(getTrackGainAt(makeTrack({ role: 'sfx' }), 5, ranges, ducking)).toBe(1);
+      expect(getTrackGainAt(makeTrack({ role: 'voiceover' }), 5, ranges, ducking)).toBe(1);
+    });
+  });
+
+  describe('getTrackGainAt', () => {
+    it('should combine fade, envelope and ducking', () => {
+      const track = makeTrack({ fadeIn: 4, volumeEnvelope: [{ time: 0, gain: 0.5 }] });
+      expect(getTrackGainAt(track, 2, [{ start: 0, end: 10 }], ducking)).toBeCloseTo(0.5 * 0.5 * 0.5);
+      expect(getTrackGainAt(track, 11)).toBe(0);
+    });
+  });
+
+  describe('sampleTrackGain', () => {
+    it('should sample evenly across the range', () => {
+      const curve = sampleTrackGain(makeTrack({ fadeIn: 2 }), 0, 2, 2);
+      expect(curve.length).toBe(5);
+      expect(curve[2]).toBeCloseTo(0.5);
+      expect(curve[4]).toBeCloseTo(1);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+// Beat detection unit tests - onsets, tempo and timeline beat markers
+// Tests: onset envelope, onset picking, tempo from a click track, timeline mapping, snapping
+
+import { describe, it, expect } from 'vitest';
+import {
+  collectTimelineBeats,
+  computeOnsetEnvelope,
+  detectBeats,
+  detectOnsets,
+  getTimelineBeats,
+  snapToBeat,
+} from '@/lib/beats';
+import { AudioAnalysis, AudioTrack } from '@/types/editor';
+
+const SAMPLE_RATE = 22050;
+
+// Short decaying noise bursts at each click time
+const makeClickTrack = (clicks: number[], duration: number): Float32Array => {
+  const samples = new Float32Array(Math.ceil(duration * SAMPLE_RATE));
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+  for (const click of clicks) {
+    const from = Math.round(click * SAMPLE_RATE);
+    for (let i = 0; i < 800 && from + i < samples.length; i++) {
+      samples[from + i] = noise() * Math.exp(-i / 200);
+    }
+  }
+  return samples;
+};
+
+const makeTrack = (overrides: Partial<AudioTrack> = {}): AudioTrack => ({
+  id: 'music',
+  type: 'audio',
+  url: 'https://example.com/music.mp3',
+  sourceType: 'direct',
+  title: 'Music',
+  startAt: 2,
+  endAt: 6,
+  duration: 10,
+  volume: 80,
+  muted: false,
+  ...overrides,
+});
+
+const makeAnalysis = (beats: number[]): AudioAnalysis => ({
+  duration: 10,
+  peakRate: 50,
+  peaks: [],
+  beats,
+  bpm: null,
+});
+
+describe('Beats', () => {
+  describe('onsets', () => {
+    it('should find each click', () => {
+      const clicks = [0.5, 1.3, 2.1, 3.4];
+      const onsets = detectOnsets(computeOnsetEnvelope(makeClickTrack(clicks, 4), SAMPLE_RATE));
+      expect(onsets.length).toBe(clicks.length);
+      onsets.forEach((onset, i) => expect(Math.abs(onset - clicks[i])).toBeLessThan(0.05));
+    });
+
+    it('should find nothing in silence', () => {
+      expect(detectOnsets(computeOnsetEnvelope(new Float32Array(SAMPLE_RATE), SAMPLE_RATE))).toEqual([]);
+    });
+  });
+
+  describe('detectBeats', () => {
+    it('should find the tempo and beats of a steady click track', () => {
+      const clicks = Array.from({ length: 16 }, (_, i) => 0.25 + i * 0.5);
+      const { beats, bpm } = detectBeats(makeClickTrack(clicks, 8.25), SAMPLE_RATE);
+
+      expect(bpm).not.toBeNull();
+      expect(Math.abs((bpm ?? 0) - 120)).toBeLessThan(3);
+      expect(beats.length).toBeGreaterThanOrEqual(15);
+      for (const beat of beats) {
+        const nearest = clicks.reduce((best, click) => Math.abs(click - beat) < Math.abs(best - beat) ? click : best);
+        expect(Math.abs(nearest - beat)).toBeLessThan(0.05);
+      }
+    });
+
+    it('should fall back to onsets without a steady tempo', () => {
+      const { beats, bpm } = detectBeats(makeClickTrack([0.3, 1.1], 1.5), SAMPLE_RATE);
+      expect(bpm).toBeNull();
+      expect(beats.length).toBe(2);
+    });
+  });
+
+  describe('timeline beats', () => {
+    it('should shift by startAt, scale by speed and trim to the clip', () => {
+      expect(getTimelineBeats(makeTrack(), [0, 1, 3.5, 5])).toEqual([2, 3, 5.5]);
+      expect(getTimelineBeats(makeTrack({ effects: { speed: 2 } as AudioTrack['effects'] }), [1, 4, 9])).toEqual([2.5, 4]);
+    });
+
+    it('should merge unmuted analysed tracks in order', () => {
+      const tracks = [
+        makeTrack(),
+        makeTrack({ id: 'sfx', startAt: 0, endAt: 10 }),
+        makeTrack({ id: 'muted', startAt: 0, endAt: 10, muted: true }),
+        makeTrack({ id: 'pending' }),
+      ];
+      const analyses = {
+        music: makeAnalysis([0, 1]),
+        sfx: makeAnalysis([2.5]),
+        muted: makeAnalysis([4]),
+      };
+      expect(collectTimelineBeats(tracks, analyses)).toEqual([2, 2.5, 3]);
+    });
+
+    it('should snap to the nearest beat within tolerance', () => {
+      const beats = [1, 2, 3];
+      expect(snapToBeat(2.1, beats, 0.15)).toBe(2);
+      expect(snapToBeat(2.4, beats, 0.15)).toBe(2.4);
+      expect(snapToBeat(3.1, beats, 0.15)).toBe(3);
+      expect(snapToBeat(1, [], 0.15)).toBe(1);
+    });
+  });
+});
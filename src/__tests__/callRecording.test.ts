@@ -0,0 +1,69 @@
+// Call recording unit tests - container choice, file naming and side-by-side layout
+// Tests: mime type fallbacks, download names, letterboxing, composite halves
+
+import { describe, it, expect } from 'vitest';
+import { fitContain, getRecordingFileName, getSideBySideLayout, pickRecordingMimeType } from '@/lib/callRecording';
+
+describe('Call recording', () => {
+  describe('pickRecordingMimeType', () => {
+    it('should prefer vp9 webm for video calls', () => {
+      expect(pickRecordingMimeType(true, () => true)).toBe('video/webm;codecs=vp9,opus');
+    });
+
+    it('should fall back to mp4 when webm is unsupported', () => {
+      const safari = (type: string) => type.includes('mp4');
+      expect(pickRecordingMimeType(true, safari)).toBe('video/mp4');
+      expect(pickRecordingMimeType(false, safari)).toBe('audio/mp4');
+    });
+
+    it('should only offer audio containers for voice calls', () => {
+      expect(pickRecordingMimeType(false, () => true)).toBe('audio/webm;codecs=opus');
+    });
+
+    it('should return null when nothing can be recorded', () => {
+      expect(pickRecordingMimeType(true, () => false)).toBeNull();
+    });
+  });
+
+  describe('getRecordingFileName', () => {
+    const startedAt = new Date(2026, 2, 24, 14, 5);
+
+    it('should slug the other person and stamp the start time', () => {
+      expect(getRecordingFileName('Alice Smith', startedAt, 'video/webm;codecs=vp9,opus'))
+        .toBe('call-with-alice-smith-2026-03-24-1405.webm');
+    });
+
+    it('should use the mp4 extension for mp4 recordings', () => {
+      expect(getRecordingFileName('bob', startedAt, 'audio/mp4')).toBe('call-with-bob-2026-03-24-1405.mp4');
+    });
+
+    it('should fall back when the name has no usable characters', () => {
+      expect(getRecordingFileName('🙂', startedAt, 'audio/webm')).toBe('call-with-call-2026-03-24-1405.webm');
+    });
+  });
+
+  describe('layout', () => {
+    it('should letterbox a wide video into a tall box', () => {
+      const rect = fitContain({ width: 1280, height: 720 }, { x: 0, y: 0, width: 640, height: 720 });
+      expect(rect).toEqual({ x: 0, y: 180, width: 640, height: 360 });
+    });
+
+    it('should fill the box when the video has no size yet', () => {
+      const box = { x: 640, y: 0, width: 640, height: 720 };
+      expect(fitContain({ width: 0, height: 0 }, box)).toEqual(box);
+    });
+
+    it('should put the local video left and the remote video right', () => {
+      const layout = getSideBySideLayout(
+        { width: 720, height: 1280 },
+        { width: 1280, height: 720 },
+        { width: 1280, height: 720 }
+      );
+
+      expect(layout.local.x + layout.local.width).toBeLessThanOrEqual(640);
+      expect(layout.local.height).toBe(720);
+      expect(layout.remote.x).toBe(640);
+      expect(layout.remote.width).toBe(640);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+// Captions unit tests - transcript to caption layers
+// Tests: line splitting, word timing fallback, safe area placement, presets, transcript sync, karaoke
+
+import { describe, it, expect } from 'vitest';
+import {
+  CAPTION_SAFE_AREA,
+  generateCaptionLayers,
+  getCaptionPosition,
+  getKaraokeWordIndex,
+  getSegmentWords,
+  hasKaraokeWords,
+  splitSegmentIntoLines,
+  syncCaptionLayers,
+} from '@/lib/captions';
+import { Transcript, TranscriptSegment, defaultEditorSettings, defaultTextStyle } from '@/types/editor';
+
+const timedSegment = (id: string, text: string, start: number, wordDuration = 0.5): TranscriptSegment => {
+  const words = text.split(' ').map((word, i) => ({
+    text: word,
+    start: start + i * wordDuration,
+    end: start + (i + 1) * wordDuration,
+  }));
+  return { id, text, start, end: words[words.length - 1].end, words };
+};
+
+const makeTranscript = (segments: TranscriptSegment[]): Transcript => ({
+  id: 'tr-1',
+  audioTrackId: 'audio-1',
+  status: 'completed',
+  segments,
+});
+
+let nextId = 0;
+const createId = () => `cap-${++nextId}`;
+const settings = { resolution: defaultEditorSettings.resolution };
+
+describe('Captions', () => {
+  describe('splitSegmentIntoLines', () => {
+    it('should break lines at the character limit', () => {
+      const segment = timedSegment('s1', 'one two three four five six seven eight', 0, 0.2);
+      const lines = splitSegmentIntoLines(segment, { maxCharsPerLine: 14, maxLineDuration: 10 });
+
+      expect(lines.map(l => l.text)).toEqual(['one two three', 'four five six', 'seven eight']);
+      lines.forEach(line => expect(line.text.length).toBeLessThanOrEqual(14));
+    });
+
+    it('should break lines at the duration limit', () => {
+      const segment = timedSegment('s1', 'a b c d e f', 0, 1);
+      const lines = splitSegmentIntoLines(segment, { maxCharsPerLine: 100, maxLineDuration: 2 });
+
+      expect(lines.map(l => l.text)).toEqual(['a b', 'c d', 'e f']);
+      expect(lines[1]).toMatchObject({ start: 2, end: 4 });
+    });
+
+    it('should close a line after sentence punctuation', () => {
+      const segment = timedSegment('s1', 'Hello there friend. How are you', 0, 0.3);
+      const lines = splitSegmentIntoLines(segment, { maxCharsPerLine: 30, maxLineDuration: 10 });
+
+      expect(lines.map(l => l.text)).toEqual(['Hello there friend.', 'How are you']);
+    });
+
+    it('should keep lines back to back without gaps', () => {
+      const segment: TranscriptSegment = {
+        id: 's1',
+        text: 'one two',
+        start: 0,
+        end: 3,
+        words: [
+          { text: 'one', start: 0, end: 0.5 },
+          { text: 'two', start: 2, end: 2.5 },
+        ],
+      };
+      const lines = splitSegmentIntoLines(segment, { maxCharsPerLine: 3, maxLineDuration: 10 });
+
+      expect(lines[0].end).toBe(2);
+      expect(lines[1].end).toBe(3);
+    });
+  });
+
+  describe('getSegmentWords', () => {
+    it('should spread untimed words by character count', () => {
+      const words = getSegmentWords({ id: 's1', text: 'ab abcd ab', start: 1, end: 5 });
+
+      expect(words.map(w => w.text)).toEqual(['ab', 'abcd', 'ab']);
+      expect(words[0]).toMatchObject({ start: 1, end: 2 });
+      expect(words[1]).toMatchObject({ start: 2, end: 4 });
+      expect(words[2].end).toBe(5);
+    });
+
+    it('should ignore stale word timings after a text edit', () => {
+      const segment = { ...timedSegment('s1', 'one two', 0), text: 'one two three' };
+      expect(getSegmentWords(segment).map(w => w.text)).toEqual(['one', 'two', 'three']);
+    });
+  });
+
+  describe('getCaptionPosition', () => {
+    it('should keep captions above the bottom safe inset', () => {
+      const { resolution } = defaultEditorSettings;
+      const position = getCaptionPosition(resolution, { ...defaultTextStyle, fontSize: 18 });
+      const maxY = ((resolution.height - CAPTION_SAFE_AREA.bottom) / resolution.height) * 100;
+
+      expect(position.y).toBeLessThan(maxY);
+      expect(position.y).toBeGreaterThan((CAPTION_SAFE_AREA.top / resolution.height) * 100);
+      expect(position.x).toBeLessThan(50); // right inset is wider than the left one
+    });
+  });
+
+  describe('generateCaptionLayers', () => {
+    it('should create linked layers with the chosen preset', () => {
+      const transcript = makeTranscript([
+        timedSegment('s2', 'second part', 4),
+        timedSegment('s1', 'first part here', 0),
+      ]);
+      const layers = generateCaptionLayers(transcript, settings, { presetId: 'karaoke' }, createId);
+
+      expect(layers.map(l => l.content)).toEqual(['first part here', 'second part']);
+      expect(layers[0].caption).toMatchObject({ transcriptId: 'tr-1', segmentId: 's1', lineIndex: 0 });
+      expect(layers[0].caption?.words).toHaveLength(3);
+      expect(layers[0].animation?.type).toBe('karaoke');
+      expect(layers[0].style.fontWeight).toBe(800);
+    });
+
+    it('should fall back to the first preset for unknown ids', () => {
+      const transcript = makeTranscript([timedSegment('s1', 'hi', 0)]);
+      const [layer] = generateCaptionLayers(transcript, settings, { presetId: 'missing' }, createId);
+
+      expect(layer.style.backgroundColor).toBe('rgba(0,0,0,0.75)');
+    });
+  });
+
+  describe('syncCaptionLayers', () => {
+    const transcript = makeTranscript([
+      timedSegment('s1', 'first part here', 0),
+      timedSegment('s2', 'second part', 4),
+    ]);
+
+    it('should return the same array when nothing changed', () => {
+      const layers = generateCaptionLayers(transcript, settings, {}, createId);
+      expect(syncCaptionLayers(layers, transcript)).toBe(layers);
+    });
+
+    it('should regenerate edited segments and keep their styling', () => {
+      const layers = generateCaptionLayers(transcript, settings, {}, createId);
+      layers[0] = { ...layers[0], style: { ...layers[0].style, color: '#ff0000' }, position: { x: 20, y: 30 } };
+
+      const edited = makeTranscript([
+        { ...transcript.segments[0], text: 'first bit changed', words: undefined },
+        transcript.segments[1],
+      ]);
+      const synced = syncCaptionLayers(layers, edited, undefined, createId);
+
+      expect(synced.map(l => l.content)).toEqual(['first bit changed', 'second part']);
+      expect(synced[0].style.color).toBe('#ff0000');
+      expect(synced[0].position).toEqual({ x: 20, y: 30 });
+      expect(synced[1]).toBe(layers[1]);
+    });
+
+    it('should re-split edited segments with the line limits they were generated with', () => {
+      const layers = generateCaptionLayers(transcript, settings, { maxCharsPerLine: 10 }, createId);
+      const edited = makeTranscript([
+        { ...transcript.segments[0], text: 'first part was changed', words: undefined },
+        transcript.segments[1],
+      ]);
+
+      const synced = syncCaptionLayers(layers, edited, undefined, createId);
+
+      expect(synced.filter(l => l.caption?.segmentId === 's1').map(l => l.content))
+        .toEqual(['first part', 'was', 'changed']);
+      expect(synced[0].caption?.limits).toEqual({ maxCharsPerLine: 10, maxLineDuration: 3 });
+    });
+
+    it('should drop captions of deleted segments and leave other layers alone', () => {
+      const other = { ...generateCaptionLayers(transcript, settings, {}, createId)[0], id: 'plain', caption: undefined };
+      const layers = [other, ...generateCaptionLayers(transcript, settings, {}, createId)];
+
+      const synced = syncCaptionLayers(layers, makeTranscript([transcript.segments[1]]));
+
+      expect(synced.map(l => l.id)).toEqual(['plain', layers[2].id]);
+    });
+  });
+
+  describe('karaoke', () => {
+    it('should track the spoken word', () => {
+      const transcript = makeTranscript([timedSegment('s1', 'one two three', 10)]);
+      const [layer] = generateCaptionLayers(transcript, settings, { presetId: 'karaoke' }, createId);
+
+      expect(hasKaraokeWords(layer)).toBe(true);
+      expect(getKaraokeWordIndex(layer, 9.9)).toBe(-1);
+      expect(getKaraokeWordIndex(layer, 10)).toBe(0);
+      expect(getKaraokeWordIndex(layer, 10.7)).toBe(1);
+      expect(getKaraokeWordIndex(layer, 20)).toBe(2);
+    });
+
+    it('should disable the highlight once text no longer matches the words', () => {
+      const transcript = makeTranscript([timedSegment('s1', 'one two three', 0)]);
+      const [layer] = generateCaptionLayers(transcript, settings, { presetId: 'karaoke' }, createId);
+
+      expect(hasKaraokeWords({ ...layer, content: 'one two' })).toBe(false);
+    });
+  });
+});
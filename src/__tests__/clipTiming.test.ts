@@ -0,0 +1,109 @@
+// Clip timing unit tests - timeline/source mapping with speed and speed ramps
+// Tests: timeline length, constant speed, ramps (round trip), split halves
+
+import { describe, it, expect } from 'vitest';
+import {
+  getClipSpeedLabel,
+  getClipLocalTime,
+  getMeanSpeed,
+  getSourceTime,
+  getSpeedAt,
+  getTimelineDuration,
+  sourceOffsetToTimeline,
+  splitVideoClip,
+  timelineToSourceOffset,
+} from '@/lib/clipTiming';
+import { SpeedPoint, VideoLayer } from '@/types/editor';
+
+const makeClip = (overrides: Partial<VideoLayer> = {}): VideoLayer => ({
+  id: 'a',
+  type: 'video',
+  src: 'https://example.com/a.mp4',
+  fileName: 'a.mp4',
+  start: 0,
+  end: 10,
+  duration: 10,
+  volume: 1,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+  ...overrides,
+});
+
+const ramp: SpeedPoint[] = [{ position: 0, speed: 1 }, { position: 1, speed: 3 }];
+
+describe('Clip timing', () => {
+  describe('constant speed', () => {
+    it('should keep normal clips one to one', () => {
+      const clip = makeClip();
+      expect(getTimelineDuration(clip)).toBe(10);
+      expect(getSourceTime(clip, 4)).toBe(4);
+      expect(getClipSpeedLabel(clip)).toBeNull();
+    });
+
+    it('should shorten a sped up clip and map into the source', () => {
+      const clip = makeClip({ speed: 2, sourceStart: 3 });
+      expect(getTimelineDuration(clip)).toBe(5);
+      expect(getSourceTime(clip, 1.5)).toBe(6);
+      expect(getClipLocalTime(clip, 6)).toBe(1.5);
+      expect(getClipSpeedLabel(clip)).toBe('2x');
+    });
+
+    it('should clamp speeds to the supported range', () => {
+      expect(getMeanSpeed(makeClip({ speed: 50 }))).toBe(10);
+      expect(getMeanSpeed(makeClip({ speed: 0 }))).toBe(1);
+    });
+  });
+
+  describe('speed ramps', () => {
+    it('should use the average speed for the timeline length', () => {
+      const clip = makeClip({ speedCurve: ramp });
+      expect(getMeanSpeed(clip)).toBe(2);
+      expect(getTimelineDuration(clip)).toBe(5);
+    });
+
+    it('should play slowly at the start of a ramp up', () => {
+      const clip = makeClip({ speedCurve: ramp });
+      // Halfway along the timeline less than half the source has played
+      expect(timelineToSourceOffset(clip, 2.5)).toBeCloseTo(3.75);
+      expect(getSpeedAt(clip, 2.5)).toBe(2);
+      expect(timelineToSourceOffset(clip, 5)).toBeCloseTo(10);
+    });
+
+    it('should round trip between timeline and source', () => {
+      const clip = makeClip({ speedCurve: [{ position: 0, speed: 3 }, { position: 0.5, speed: 0.5 }, { position: 1, speed: 2 }] });
+      [0, 0.4, 1.3, 2.9, getTimelineDuration(clip)].forEach(time => {
+        expect(sourceOffsetToTimeline(clip, timelineToSourceOffset(clip, time))).toBeCloseTo(time, 6);
+      });
+    });
+
+    it('should extend a ramp that does not cover the whole clip', () => {
+      const clip = makeClip({ speedCurve: [{ position: 0.5, speed: 2 }] });
+      expect(getMeanSpeed(clip)).toBe(2);
+    });
+  });
+
+  describe('splitVideoClip', () => {
+    it('should continue the source in the second half', () => {
+      const clip = makeClip({ speed: 2, sourceStart: 1, transition: { type: 'crossfade', duration: 0.5 } });
+      const [first, second] = splitVideoClip(clip, 2, 'b')!;
+      expect([first.start, first.end, first.duration]).toEqual([0, 2, 4]);
+      expect(first.transition).toBeUndefined();
+      expect([second.id, second.start, second.sourceStart, second.duration]).toEqual(['b', 2, 5, 6]);
+      expect(second.transition).toEqual(clip.transition);
+    });
+
+    it('should keep a ramped clip playing the same frames after a split', () => {
+      const clip = makeClip({ speedCurve: ramp });
+      const [first, second] = splitVideoClip(clip, 2, 'b')!;
+      expect(getTimelineDuration(first)).toBeCloseTo(2);
+      expect(getTimelineDuration(second)).toBeCloseTo(3);
+      expect(getSourceTime(second, 1)).toBeCloseTo(getSourceTime(clip, 3));
+    });
+
+    it('should refuse to split at the very edge of a clip', () => {
+      expect(splitVideoClip(makeClip(), 0.05, 'b')).toBeNull();
+      expect(splitVideoClip(makeClip(), 9.95, 'b')).toBeNull();
+    });
+  });
+});
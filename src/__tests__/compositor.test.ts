@@ -0,0 +1,103 @@
+// Compositor unit tests - overlay geometry, timing, blend modes and chroma keying
+// Tests: hex parsing, key params, keyed pixels and spill, PiP rect, source time, trims, composite operations
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyOverlayTiming,
+  getChromaKeyParams,
+  getCompositeOperation,
+  getOverlayRect,
+  getOverlaySourceTime,
+  hexToRgb,
+  keyPixel,
+} from '@/lib/compositor';
+import { defaultChromaKey } from '@/types/editor';
+
+const greenKey = getChromaKeyParams({ ...defaultChromaKey, enabled: true });
+
+describe('Compositor', () => {
+  describe('chroma key', () => {
+    it('should parse long and short hex colours', () => {
+      expect(hexToRgb('#00ff00')).toEqual([0, 1, 0]);
+      expect(hexToRgb('#f00')).toEqual([1, 0, 0]);
+      expect(hexToRgb('not a colour')).toEqual([0, 1, 0]);
+    });
+
+    it('should make the key colour transparent', () => {
+      expect(keyPixel(0, 1, 0, greenKey)[3]).toBe(0);
+      // A darker, slightly off green screen is still keyed
+      expect(keyPixel(0.1, 0.7, 0.15, greenKey)[3]).toBe(0);
+    });
+
+    it('should keep colours far from the key opaque and unchanged', () => {
+      const [r, g, b, a] = keyPixel(0.9, 0.6, 0.5, greenKey);
+      expect(a).toBe(1);
+      expect(r).toBeCloseTo(0.9);
+      expect(g).toBeCloseTo(0.6);
+      expect(b).toBeCloseTo(0.5);
+    });
+
+    it('should key more colours as tolerance rises', () => {
+      const loose = getChromaKeyParams({ ...defaultChromaKey, enabled: true, tolerance: 1 });
+      const tight = getChromaKeyParams({ ...defaultChromaKey, enabled: true, tolerance: 0 });
+      const teal = [0.2, 0.6, 0.5] as const;
+      expect(keyPixel(...teal, loose)[3]).toBeLessThan(keyPixel(...teal, tight)[3]);
+    });
+
+    it('should pull green fringes towards grey with spill suppression', () => {
+      const fringe = [0.45, 0.65, 0.45] as const;
+      const suppressed = keyPixel(...fringe, getChromaKeyParams({ ...defaultChromaKey, enabled: true, tolerance: 0, spill: 1 }));
+      const untouched = keyPixel(...fringe, getChromaKeyParams({ ...defaultChromaKey, enabled: true, tolerance: 0, spill: 0 }));
+      expect(untouched[1]).toBeCloseTo(0.65);
+      expect(suppressed[1] - suppressed[0]).toBeLessThan(untouched[1] - untouched[0]);
+    });
+  });
+
+  describe('layout', () => {
+    it('should contain the video in the canvas and scale it about its center', () => {
+      // 16:9 source on a 9:16 canvas is width-bound
+      const rect = getOverlayRect({ position: { x: 75, y: 25 }, scale: 0.5 }, 1920, 1080, 1080, 1920);
+      expect(rect.x).toBe(810);
+      expect(rect.y).toBe(480);
+      expect(rect.width).toBeCloseTo(540);
+      expect(rect.height).toBeCloseTo(303.75);
+    });
+
+    it('should have no size until the video dimensions are known', () => {
+      const rect = getOverlayRect({ position: { x: 50, y: 50 }, scale: 1 }, 0, 0, 1080, 1920);
+      expect(rect.width).toBe(0);
+      expect(rect.height).toBe(0);
+    });
+
+    it('should map blend modes to canvas composite operations', () => {
+      expect(getCompositeOperation('normal')).toBe('source-over');
+      expect(getCompositeOperation(undefined)).toBe('source-over');
+      expect(getCompositeOperation('screen')).toBe('screen');
+    });
+  });
+
+  describe('timing', () => {
+    const layer = { start: 4, end: 10, duration: 8, sourceStart: 1 };
+
+    it('should play the source from its in-point at the layer start', () => {
+      expect(getOverlaySourceTime(layer, 4)).toBe(1);
+      expect(getOverlaySourceTime(layer, 6.5)).toBe(3.5);
+      expect(getOverlaySourceTime({ start: 2 }, 1)).toBe(0);
+    });
+
+    it('should move the in-point when the left edge is trimmed', () => {
+      expect(applyOverlayTiming(layer, { start: 5 })).toEqual({ start: 5, sourceStart: 2 });
+      // Trimming out past the first frame stops at it
+      expect(applyOverlayTiming(layer, { start: 1 })).toEqual({ start: 3, sourceStart: 0 });
+    });
+
+    it('should keep a moved clip and its in-point together', () => {
+      expect(applyOverlayTiming(layer, { start: 6, end: 12 })).toEqual({ start: 6, end: 12 });
+    });
+
+    it('should not let the end run past the source media', () => {
+      expect(applyOverlayTiming(layer, { end: 20 })).toEqual({ end: 11 });
+      expect(applyOverlayTiming(layer, { opacity: 0.5 } as never)).toEqual({ opacity: 0.5 });
+    });
+  });
+});
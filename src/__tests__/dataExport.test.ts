@@ -0,0 +1,315 @@
+// Data export unit tests - export-user-data archive builder
+// Tests: ZIP layout and CRC, media paths, storage URLs, stale jobs, HTML escaping/linking, encrypted messages, job runner progress, failures and lost races
+
+import { describe, it, expect } from 'vitest';
+import {
+  EXPORT_CATEGORIES,
+  ExportCategory,
+  ExportDataSource,
+  ExportJob,
+  ExportJobStore,
+  ExportRecord,
+  DateRange,
+  canTransition,
+  crc32,
+  createZip,
+  escapeHtml,
+  getMediaPath,
+  isStaleJob,
+  prepareRecords,
+  renderCategoryHtml,
+  runExportJob,
+} from '../../supabase/functions/export-user-data/archive';
+import { parseStorageObjectUrl } from '../../supabase/functions/_shared/storage';
+
+const makeJob = (overrides: Partial<ExportJob> = {}): ExportJob => ({
+  id: 'job-1',
+  user_id: 'user-1',
+  status: 'queued',
+  categories: ['profile', 'posts'],
+  date_from: null,
+  date_to: null,
+  progress: 0,
+  current_step: null,
+  file_path: null,
+  file_size: null,
+  error: null,
+  started_at: null,
+  completed_at: null,
+  expires_at: null,
+  created_at: '2026-03-24T10:00:00.000Z',
+  ...overrides,
+});
+
+// In-memory stand-in for the data_export_jobs table that records every progress value it passes through
+const createStore = (job: ExportJob) => {
+  const rows = new Map([[job.id, job]]);
+  const progress: number[] = [];
+  const store: ExportJobStore = {
+    async get(id) {
+      return rows.get(id) ?? null;
+    },
+    async update(id, patch) {
+      const next = { ...rows.get(id)!, ...patch };
+      rows.set(id, next);
+      if (patch.progress !== undefined) progress.push(patch.progress);
+      return next;
+    },
+    async transition(id, from, patch) {
+      if (rows.get(id)?.status !== from) return null;
+      return store.update(id, patch);
+    },
+  };
+  return { store, progress, rows };
+};
+
+const createSource = (data: Partial<Record<ExportCategory, ExportRecord[]>>, media: Record<string, Uint8Array> = {}) => {
+  const saved: { path: string; data: Uint8Array }[] = [];
+  const removed: string[] = [];
+  const notified: string[] = [];
+  const ranges: Partial<Record<ExportCategory, DateRange>> = {};
+  const source: ExportDataSource = {
+    async fetchCategory(category, _userId, range) {
+      ranges[category] = range;
+      return data[category] ?? [];
+    },
+    async fetchMedia(url) {
+      return media[url] ?? null;
+    },
+    async saveArchive(path, archive) {
+      saved.push({ path, data: archive });
+    },
+    async removeArchive(path) {
+      removed.push(path);
+    },
+    async notify(userId) {
+      notified.push(userId);
+    },
+  };
+  return { source, saved, removed, notified, ranges };
+};
+
+// Read file names and contents back out of a stored ZIP via the central directory
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const endOffset = zip.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = zip.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+
+    files.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return files;
+};
+
+const text = (data: Uint8Array | undefined) => new TextDecoder().decode(data);
+
+describe('Data export', () => {
+  describe('status transitions', () => {
+    it('should only allow processing from queued and retrying failed jobs', () => {
+      expect(canTransition('queued', 'processing')).toBe(true);
+      expect(canTransition('processing', 'completed')).toBe(true);
+      expect(canTransition('failed', 'queued')).toBe(true);
+      expect(canTransition('completed', 'processing')).toBe(false);
+    });
+  });
+
+  describe('stale jobs', () => {
+    const now = new Date('2026-03-24T12:00:00.000Z');
+
+    it('should treat unfinished jobs without updates for 15 minutes as stale', () => {
+      expect(isStaleJob(makeJob({ status: 'processing', updated_at: '2026-03-24T11:40:00.000Z' }), now)).toBe(true);
+      expect(isStaleJob(makeJob({ status: 'processing', updated_at: '2026-03-24T11:50:00.000Z' }), now)).toBe(false);
+      expect(isStaleJob(makeJob({ status: 'queued', created_at: '2026-03-24T10:00:00.000Z' }), now)).toBe(true);
+    });
+
+    it('should never treat finished jobs as stale', () => {
+      expect(isStaleJob(makeJob({ status: 'completed' }), now)).toBe(false);
+      expect(isStaleJob(makeJob({ status: 'failed' }), now)).toBe(false);
+    });
+  });
+
+  describe('ZIP writer', () => {
+    it('should compute the standard CRC-32 check value', () => {
+      expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('should write readable stored entries with UTF-8 names', () => {
+      const encoder = new TextEncoder();
+      const zip = createZip([
+        { path: 'index.html', data: encoder.encode('<h1>Hi</h1>') },
+        { path: 'json/café.json', data: encoder.encode('[]') },
+        { path: 'empty.txt', data: new Uint8Array() },
+      ]);
+
+      const files = readZip(zip);
+      expect([...files.keys()]).toEqual(['index.html', 'json/café.json', 'empty.txt']);
+      expect(text(files.get('index.html'))).toBe('<h1>Hi</h1>');
+      expect(files.get('empty.txt')!.length).toBe(0);
+    });
+  });
+
+  describe('records and HTML', () => {
+    it('should number media paths and strip unsafe characters', () => {
+      expect(getMediaPath('https://cdn.example.com/a/my%20photo.jpg?token=1', 0)).toBe('media/0001-my_photo.jpg');
+      expect(getMediaPath('not a url', 11)).toBe('media/0012-file');
+    });
+
+    it('should only accept public objects in the project storage', () => {
+      const project = 'https://abc.supabase.co';
+      expect(parseStorageObjectUrl(`${project}/storage/v1/object/public/chat_media/user-1/a%20b.png`, project))
+        .toEqual({ bucket: 'chat_media', path: 'user-1/a b.png' });
+      expect(parseStorageObjectUrl('https://cdn.example.com/storage/v1/object/public/chat_media/a.png', project)).toBeNull();
+      expect(parseStorageObjectUrl('http://169.254.169.254/latest/meta-data', project)).toBeNull();
+      expect(parseStorageObjectUrl(`${project}/storage/v1/object/sign/data_exports/user-1/job.zip`, project)).toBeNull();
+      expect(parseStorageObjectUrl(`${project}/storage/v1/object/public/chat_media/a/%2E%2E%2Fx.zip`, project)).toBeNull();
+    });
+
+    it('should escape HTML special characters', () => {
+      expect(escapeHtml(`<script>"x" & 'y'</script>`)).not.toMatch(/[<>"']/);
+    });
+
+    it('should link media to its copy inside the archive', () => {
+      const posts = EXPORT_CATEGORIES.find(c => c.id === 'posts')!;
+      const html = renderCategoryHtml(
+        posts,
+        [{ content: '<b>hello</b>', media_url: 'https://cdn.example.com/p.jpg' }],
+        new Map([['https://cdn.example.com/p.jpg', 'media/0001-p.jpg']])
+      );
+
+      expect(html).toContain('../media/0001-p.jpg');
+      expect(html).toContain('&lt;b&gt;hello&lt;/b&gt;');
+      expect(html).not.toContain('<b>hello</b>');
+    });
+
+    it('should replace encrypted message bodies and drop their envelopes', () => {
+      const [encrypted, plain] = prepareRecords('messages', [
+        { id: 'm1', content: 'ciphertext', is_encrypted: true, e2e_envelope: { v: 1 } },
+        { id: 'm2', content: 'hello', is_encrypted: false },
+      ]);
+
+      expect(encrypted.content).toMatch(/encrypted/i);
+      expect(encrypted).not.toHaveProperty('e2e_envelope');
+      expect(plain.content).toBe('hello');
+    });
+  });
+
+  describe('job runner', () => {
+    const now = () => new Date('2026-03-24T12:00:00.000Z');
+
+    it('should build the archive, track progress and notify the user', async () => {
+      const { store, progress } = createStore(makeJob());
+      const { source, saved, notified } = createSource(
+        {
+          profile: [{ id: 'user-1', username: 'ada', profile_pic: 'https://cdn.example.com/ada.png' }],
+          posts: [{ id: 'p1', content: 'First post', media_url: 'https://cdn.example.com/gone.jpg' }],
+        },
+        { 'https://cdn.example.com/ada.png': new Uint8Array([1, 2, 3]) }
+      );
+
+      const job = await runExportJob(store, source, 'job-1', { now });
+
+      expect(job.status).toBe('completed');
+      expect(job.progress).toBe(100);
+      expect(job.file_path).toBe('user-1/job-1.zip');
+      expect(job.expires_at).toBe('2026-03-31T12:00:00.000Z');
+      expect(progress).toEqual([...progress].sort((a, b) => a - b));
+      expect(notified).toEqual(['user-1']);
+
+      const files = readZip(saved[0].data);
+      expect(job.file_size).toBe(saved[0].data.length);
+      expect(files.has('index.html')).toBe(true);
+      expect(JSON.parse(text(files.get('json/posts.json')))[0].content).toBe('First post');
+      expect(files.get('media/0001-ada.png')).toEqual(new Uint8Array([1, 2, 3]));
+      expect(text(files.get('html/profile.html'))).toContain('../media/0001-ada.png');
+      expect(JSON.parse(text(files.get('skipped_media.json')))).toEqual([
+        { url: 'https://cdn.example.com/gone.jpg', reason: 'unavailable' },
+      ]);
+    });
+
+    it('should apply the date range only to dated categories', async () => {
+      const range = { date_from: '2026-01-01T00:00:00.000Z', date_to: '2026-02-01T00:00:00.000Z' };
+      const { store } = createStore(makeJob({ ...range, categories: ['profile', 'ad_preferences', 'posts'] }));
+      const { source, ranges } = createSource({});
+
+      await runExportJob(store, source, 'job-1', { now });
+
+      expect(ranges.profile).toEqual({ from: null, to: null });
+      expect(ranges.ad_preferences).toEqual({ from: null, to: null });
+      expect(ranges.posts).toEqual({ from: range.date_from, to: range.date_to });
+    });
+
+    it('should skip media beyond the size budget', async () => {
+      const { store } = createStore(makeJob({ categories: ['stories'] }));
+      const { source, saved } = createSource(
+        { stories: [{ media_url: 'https://cdn.example.com/a.mp4' }, { media_url: 'https://cdn.example.com/b.mp4' }] },
+        {
+          'https://cdn.example.com/a.mp4': new Uint8Array(8),
+          'https://cdn.example.com/b.mp4': new Uint8Array(8),
+        }
+      );
+
+      await runExportJob(store, source, 'job-1', { now, maxMediaBytes: 10 });
+
+      const skipped = JSON.parse(text(readZip(saved[0].data).get('skipped_media.json')));
+      expect(skipped).toEqual([{ url: 'https://cdn.example.com/b.mp4', reason: 'size limit reached' }]);
+    });
+
+    it('should mark the job failed when a category cannot be read', async () => {
+      const { store } = createStore(makeJob());
+      const { source, saved, notified } = createSource({});
+      source.fetchCategory = async () => {
+        throw new Error('permission denied for table posts');
+      };
+
+      const job = await runExportJob(store, source, 'job-1', { now });
+
+      expect(job.status).toBe('failed');
+      expect(job.error).toBe('permission denied for table posts');
+      expect(saved).toHaveLength(0);
+      expect(notified).toHaveLength(0);
+    });
+
+    it('should leave a completed job untouched', async () => {
+      const { store } = createStore(makeJob({ status: 'completed', progress: 100 }));
+      const { source, saved } = createSource({});
+
+      const job = await runExportJob(store, source, 'job-1', { now });
+
+      expect(job.status).toBe('completed');
+      expect(saved).toHaveLength(0);
+    });
+
+    it('should keep a job failed as stale mid-run failed and discard its archive', async () => {
+      const { store, rows } = createStore(makeJob());
+      const { source, saved, removed, notified } = createSource({ profile: [{ id: 'user-1' }] });
+      source.saveArchive = async (path, archive) => {
+        saved.push({ path, data: archive });
+        rows.set('job-1', { ...rows.get('job-1')!, status: 'failed', error: 'The export stopped responding' });
+      };
+
+      const job = await runExportJob(store, source, 'job-1', { now });
+
+      expect(job.status).toBe('failed');
+      expect(job.file_path).toBeNull();
+      expect(removed).toEqual(['user-1/job-1.zip']);
+      expect(notified).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// E2EE unit tests - per-device envelopes for direct messages
+// Tests: multi-device round trip, device binding, tampering, fingerprints, safety numbers
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  DeviceKeyPair,
+  computeSafetyNumber,
+  decryptEnvelope,
+  encryptForDevices,
+  exportPublicKeyHex,
+  generateDeviceKeyPair,
+  getKeyFingerprint,
+  isE2EEnvelope,
+} from '@/lib/e2ee';
+
+interface TestDevice {
+  deviceId: string;
+  keys: DeviceKeyPair;
+  publicKeyHex: string;
+}
+
+const makeDevice = async (deviceId: string): Promise<TestDevice> => {
+  const keys = await generateDeviceKeyPair();
+  return { deviceId, keys, publicKeyHex: await exportPublicKeyHex(keys.publicKey) };
+};
+
+const asSender = (device: TestDevice) => ({
+  deviceId: device.deviceId,
+  privateKey: device.keys.privateKey,
+  publicKeyHex: device.publicKeyHex,
+});
+
+const asRecipient = (device: TestDevice) => ({ deviceId: device.deviceId, publicKeyHex: device.publicKeyHex });
+
+const asReader = (device: TestDevice) => ({ deviceId: device.deviceId, privateKey: device.keys.privateKey });
+
+describe('E2EE', () => {
+  let alicePhone: TestDevice;
+  let aliceLaptop: TestDevice;
+  let bobPhone: TestDevice;
+  let eve: TestDevice;
+
+  beforeAll(async () => {
+    [alicePhone, aliceLaptop, bobPhone, eve] = await Promise.all([
+      makeDevice('alice-phone'),
+      makeDevice('alice-laptop'),
+      makeDevice('bob-phone'),
+      makeDevice('eve'),
+    ]);
+  });
+
+  describe('envelopes', () => {
+    it('should decrypt on every recipient device, including the sender', async () => {
+      const envelope = await encryptForDevices(
+        'See you at 8 🎉',
+        asSender(alicePhone),
+        [alicePhone, aliceLaptop, bobPhone].map(asRecipient)
+      );
+
+      expect(isE2EEnvelope(envelope)).toBe(true);
+      expect(Object.keys(envelope.keys).sort()).toEqual(['alice-laptop', 'alice-phone', 'bob-phone']);
+      expect(envelope.ciphertext).not.toContain('See you');
+
+      for (const device of [alicePhone, aliceLaptop, bobPhone]) {
+        await expect(decryptEnvelope(envelope, asReader(device), alicePhone.publicKeyHex)).resolves.toBe('See you at 8 🎉');
+      }
+    });
+
+    it('should not be readable by devices it was not encrypted for', async () => {
+      const envelope = await encryptForDevices('secret', asSender(alicePhone), [asRecipient(bobPhone)]);
+
+      await expect(decryptEnvelope(envelope, asReader(eve), alicePhone.publicKeyHex))
+        .rejects.toThrow('not encrypted for this device');
+
+      // Claiming Bob's slot does not help without Bob's private key
+      await expect(decryptEnvelope(envelope, { ...asReader(eve), deviceId: 'bob-phone' }, alicePhone.publicKeyHex))
+        .rejects.toThrow();
+    });
+
+    it('should reject a forged sender key', async () => {
+      const envelope = await encryptForDevices('hello', asSender(alicePhone), [asRecipient(bobPhone)]);
+
+      await expect(decryptEnvelope(envelope, asReader(bobPhone), eve.publicKeyHex)).rejects.toThrow();
+    });
+
+    it('should detect tampered ciphertext', async () => {
+      const envelope = await encryptForDevices('pay 10', asSender(alicePhone), [asRecipient(bobPhone)]);
+      const bytes = Uint8Array.from(atob(envelope.ciphertext), c => c.charCodeAt(0));
+      bytes[0] ^= 1;
+      const tampered = { ...envelope, ciphertext: btoa(String.fromCharCode(...bytes)) };
+
+      await expect(decryptEnvelope(tampered, asReader(bobPhone), alicePhone.publicKeyHex)).rejects.toThrow();
+    });
+
+    it('should use a fresh content key and salt per message', async () => {
+      const first = await encryptForDevices('same', asSender(alicePhone), [asRecipient(bobPhone)]);
+      const second = await encryptForDevices('same', asSender(alicePhone), [asRecipient(bobPhone)]);
+
+      expect(first.ciphertext).not.toBe(second.ciphertext);
+      expect(first.salt).not.toBe(second.salt);
+    });
+
+    it('should refuse to encrypt without recipients', async () => {
+      await expect(encryptForDevices('hi', asSender(alicePhone), [])).rejects.toThrow('No recipient devices');
+    });
+  });
+
+  describe('verification', () => {
+    it('should format key fingerprints as two rows of 14 bytes', async () => {
+      const fingerprint = await getKeyFingerprint(bobPhone.publicKeyHex);
+      const rows = fingerprint.split('\n');
+
+      expect(rows).toHaveLength(2);
+      rows.forEach(row => expect(row).toMatch(/^([0-9A-F]{2} ){13}[0-9A-F]{2}$/));
+      expect(await getKeyFingerprint(bobPhone.publicKeyHex)).toBe(fingerprint);
+    });
+
+    it('should compute the same safety number on both sides', async () => {
+      const alice = { userId: 'alice', publicKeysHex: [alicePhone.publicKeyHex, aliceLaptop.publicKeyHex] };
+      const bob = { userId: 'bob', publicKeysHex: [bobPhone.publicKeyHex] };
+
+      const fromAlice = await computeSafetyNumber([alice, bob]);
+      const fromBob = await computeSafetyNumber([bob, { ...alice, publicKeysHex: [...alice.publicKeysHex].reverse() }]);
+
+      expect(fromAlice).toMatch(/^(\d{5} ){11}\d{5}$/);
+      expect(fromBob).toBe(fromAlice);
+    });
+
+    it('should change the safety number when a device is added or removed', async () => {
+      const bob = { userId: 'bob', publicKeysHex: [bobPhone.publicKeyHex] };
+      const base = await computeSafetyNumber([{ userId: 'alice', publicKeysHex: [alicePhone.publicKeyHex] }, bob]);
+      const added = await computeSafetyNumber([
+        { userId: 'alice', publicKeysHex: [alicePhone.publicKeyHex, aliceLaptop.publicKeyHex] },
+        bob,
+      ]);
+      const removed = await computeSafetyNumber([{ userId: 'alice', publicKeysHex: [] }, bob]);
+
+      expect(added).not.toBe(base);
+      expect(removed).not.toBe(base);
+    });
+  });
+});
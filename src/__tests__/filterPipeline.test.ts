@@ -0,0 +1,116 @@
+// Filter pipeline unit tests - the colour maths shared by the preview and export shaders
+// Tests: neutral filter, CSS-compatible adjustments, temperature, hue, tone zones, LUT mix, vignette, grain
+
+import { describe, it, expect } from 'vitest';
+import {
+  getFilterParams,
+  getGrainSeed,
+  getHueRotateMatrix,
+  getTemperatureGains,
+  getVignetteFactor,
+  gradePixel,
+  grainNoise,
+  kelvinToRgb,
+} from '@/lib/filterPipeline';
+import { parseCubeLut } from '@/lib/lut';
+import { VideoFilter, defaultVideoFilter } from '@/types/editor';
+
+const grade = (filter: Partial<VideoFilter>, rgb: [number, number, number]) =>
+  gradePixel(...rgb, getFilterParams({ ...defaultVideoFilter, ...filter }));
+
+const luma = ([r, g, b]: number[]) => r * 0.2126 + g * 0.7152 + b * 0.0722;
+
+describe('Filter pipeline', () => {
+  describe('adjustments', () => {
+    it('should leave pixels untouched with the default filter', () => {
+      const [r, g, b] = grade({}, [0.2, 0.5, 0.9]);
+      expect(r).toBeCloseTo(0.2);
+      expect(g).toBeCloseTo(0.5);
+      expect(b).toBeCloseTo(0.9);
+    });
+
+    it('should match CSS brightness, contrast and saturate', () => {
+      expect(grade({ brightness: 150 }, [0.4, 0.4, 0.4])[0]).toBeCloseTo(0.6);
+      expect(grade({ contrast: 200 }, [0.75, 0.25, 0.5])).toEqual([1, 0, 0.5]);
+      const grey = grade({ saturation: 0 }, [0.9, 0.3, 0.1]);
+      expect(grey[0]).toBeCloseTo(grey[2]);
+      expect(grey[0]).toBeCloseTo(luma([0.9, 0.3, 0.1]));
+    });
+
+    it('should rotate hue without changing greys', () => {
+      const identity = getHueRotateMatrix(0);
+      expect(identity.map(v => Number(v.toFixed(6)))).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+      const [r, g, b] = grade({ hueRotate: 120 }, [0.5, 0.5, 0.5]);
+      expect(r).toBeCloseTo(0.5);
+      expect(g).toBeCloseTo(0.5);
+      expect(b).toBeCloseTo(0.5);
+    });
+
+    it('should lift shadows more than highlights and the reverse', () => {
+      const dark = grade({ shadows: 100 }, [0.1, 0.1, 0.1])[0] - 0.1;
+      const light = grade({ shadows: 100 }, [0.9, 0.9, 0.9])[0] - 0.9;
+      expect(dark).toBeGreaterThan(light);
+      // Pulling highlights down recovers whites and barely touches black
+      expect(grade({ highlights: -100 }, [1, 1, 1])[0]).toBeCloseTo(0.75);
+      expect(grade({ highlights: -100 }, [0, 0, 0])[0]).toBe(0);
+    });
+  });
+
+  describe('temperature', () => {
+    it('should treat 6500K as white', () => {
+      const [r, g, b] = kelvinToRgb(6500);
+      expect(r).toBe(1);
+      expect(g).toBeGreaterThan(0.99);
+      expect(b).toBeGreaterThan(0.97);
+      expect(getTemperatureGains(0)).toEqual([1, 1, 1]);
+    });
+
+    it('should warm and cool without changing brightness', () => {
+      const warm = getTemperatureGains(60);
+      const cool = getTemperatureGains(-60);
+      expect(warm[0]).toBeGreaterThan(warm[2]);
+      expect(cool[2]).toBeGreaterThan(cool[0]);
+      expect(luma(warm)).toBeCloseTo(1);
+      expect(luma(cool)).toBeCloseTo(1);
+    });
+  });
+
+  describe('LUT', () => {
+    const invert = parseCubeLut('LUT_3D_SIZE 2\n1 1 1\n0 1 1\n1 0 1\n0 0 1\n1 1 0\n0 1 0\n1 0 0\n0 0 0');
+
+    it('should apply the table at full intensity', () => {
+      const params = getFilterParams({ ...defaultVideoFilter, lut: { name: 'Invert', url: 'invert.cube', intensity: 100 } });
+      const [r, g, b] = gradePixel(0.2, 0.6, 1, params, invert);
+      expect(r).toBeCloseTo(0.8);
+      expect(g).toBeCloseTo(0.4);
+      expect(b).toBeCloseTo(0);
+    });
+
+    it('should blend with the ungraded colour by intensity', () => {
+      const params = getFilterParams({ ...defaultVideoFilter, lut: { name: 'Invert', url: 'invert.cube', intensity: 50 } });
+      expect(gradePixel(0, 0, 0, params, invert)[0]).toBeCloseTo(0.5);
+    });
+
+    it('should ignore a loaded table when the filter has no LUT', () => {
+      expect(getFilterParams(defaultVideoFilter).lutIntensity).toBe(0);
+      expect(gradePixel(0.2, 0.2, 0.2, getFilterParams(defaultVideoFilter), invert)[0]).toBeCloseTo(0.2);
+    });
+  });
+
+  describe('vignette and grain', () => {
+    it('should darken the corners but not the center', () => {
+      expect(getVignetteFactor(0.5, 0.5, 9 / 16, 1)).toBe(1);
+      expect(getVignetteFactor(0, 0, 9 / 16, 0.6)).toBeCloseTo(0.4);
+      expect(getVignetteFactor(0, 0, 9 / 16, 0)).toBe(1);
+    });
+
+    it('should give the same grain for the same frame', () => {
+      const noise = grainNoise(12, 40, getGrainSeed(1.01));
+      expect(noise).toBeGreaterThanOrEqual(0);
+      expect(noise).toBeLessThan(1);
+      expect(grainNoise(12, 40, getGrainSeed(1.02))).toBe(noise);
+      expect(grainNoise(12, 40, getGrainSeed(2))).not.toBe(noise);
+      expect(grainNoise(13, 40, getGrainSeed(1.01))).not.toBe(noise);
+    });
+  });
+});
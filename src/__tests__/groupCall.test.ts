@@ -0,0 +1,74 @@
+// Group call unit tests - mesh rules and active-speaker detection
+// Tests: offer ownership, grid layout, speaker smoothing, hold time, switching and removal
+
+import { describe, it, expect } from 'vitest';
+import { ActiveSpeakerDetector, getGridColumns, shouldInitiateOffer } from '@/lib/groupCall';
+
+describe('Group calls', () => {
+  describe('mesh', () => {
+    it('should give exactly one side of every pair the offer', () => {
+      const ids = ['b7', 'a1', 'c3', '9f'];
+      ids.forEach(a => {
+        ids.filter(b => b !== a).forEach(b => {
+          expect(shouldInitiateOffer(a, b)).not.toBe(shouldInitiateOffer(b, a));
+        });
+      });
+    });
+
+    it('should lay out tiles in up to three columns', () => {
+      expect(getGridColumns(1)).toBe(1);
+      expect(getGridColumns(2)).toBe(2);
+      expect(getGridColumns(4)).toBe(2);
+      expect(getGridColumns(5)).toBe(3);
+      expect(getGridColumns(8)).toBe(3);
+    });
+  });
+
+  describe('active speaker', () => {
+    it('should ignore levels below the speaking threshold', () => {
+      const detector = new ActiveSpeakerDetector({ smoothing: 0 });
+      expect(detector.update({ alice: 0.01, bob: 0.02 }, 0)).toBeNull();
+    });
+
+    it('should pick the loudest participant', () => {
+      const detector = new ActiveSpeakerDetector({ smoothing: 0 });
+      expect(detector.update({ alice: 0.2, bob: 0.5 }, 0)).toBe('bob');
+    });
+
+    it('should smooth out a single loud sample', () => {
+      const detector = new ActiveSpeakerDetector({ smoothing: 0.9, threshold: 0.05 });
+      expect(detector.update({ alice: 0.3 }, 0)).toBeNull();
+    });
+
+    it('should hold the highlight before switching', () => {
+      const detector = new ActiveSpeakerDetector({ smoothing: 0, holdMs: 1000 });
+      detector.update({ alice: 0.5, bob: 0 }, 0);
+
+      expect(detector.update({ alice: 0, bob: 0.6 }, 500)).toBe('alice');
+      expect(detector.update({ alice: 0, bob: 0.6 }, 1200)).toBe('bob');
+    });
+
+    it('should not switch to someone only slightly louder', () => {
+      const detector = new ActiveSpeakerDetector({ smoothing: 0, holdMs: 0, switchRatio: 1.5 });
+      detector.update({ alice: 0.4, bob: 0 }, 0);
+
+      expect(detector.update({ alice: 0.4, bob: 0.5 }, 100)).toBe('alice');
+      expect(detector.update({ alice: 0.4, bob: 0.7 }, 200)).toBe('bob');
+    });
+
+    it('should keep the last speaker through silence', () => {
+      const detector = new ActiveSpeakerDetector({ smoothing: 0 });
+      detector.update({ alice: 0.5 }, 0);
+      expect(detector.update({ alice: 0 }, 5000)).toBe('alice');
+    });
+
+    it('should clear the speaker when they leave', () => {
+      const detector = new ActiveSpeakerDetector({ smoothing: 0 });
+      detector.update({ alice: 0.5, bob: 0.3 }, 0);
+      detector.remove('alice');
+
+      expect(detector.getActiveSpeaker()).toBeNull();
+      expect(detector.update({ bob: 0.3 }, 100)).toBe('bob');
+    });
+  });
+});
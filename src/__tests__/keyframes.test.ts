@@ -0,0 +1,141 @@
+// Keyframe unit tests - interpolation, easing and keyframe edits
+// Tests: easing curves, per-property interpolation, lane operations, keyed transform edits
+
+import { describe, it, expect } from 'vitest';
+import {
+  addKeyframesAt,
+  applyEasing,
+  applyKeyframedUpdate,
+  getAnimatedLayer,
+  getKeyframeTimes,
+  getLayerTransform,
+  interpolateKeyframes,
+  KeyframedLayer,
+  moveKeyframesAt,
+  removeKeyframesAt,
+  setKeyframe,
+  setKeyframeEasingAt,
+} from '@/lib/keyframes';
+import { Keyframe, KeyframeEasing, LayerKeyframes } from '@/types/editor';
+
+const kf = (time: number, value: number, easing: KeyframeEasing = 'linear'): Keyframe => ({
+  id: `kf-${time}`,
+  time,
+  value,
+  easing,
+});
+
+const makeLayer = (keyframes?: LayerKeyframes): KeyframedLayer => ({
+  start: 2,
+  end: 6,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+  keyframes,
+});
+
+describe('Keyframes', () => {
+  describe('applyEasing', () => {
+    it('should keep the endpoints for every curve', () => {
+      (['linear', 'ease-in', 'ease-out', 'ease-in-out'] as const).forEach(easing => {
+        expect(applyEasing(easing, 0)).toBe(0);
+        expect(applyEasing(easing, 1)).toBe(1);
+      });
+    });
+
+    it('should shape the middle of the curve', () => {
+      expect(applyEasing('linear', 0.5)).toBe(0.5);
+      expect(applyEasing('ease-in', 0.5)).toBeLessThan(0.5);
+      expect(applyEasing('ease-out', 0.5)).toBeGreaterThan(0.5);
+      expect(applyEasing('hold', 0.99)).toBe(0);
+    });
+  });
+
+  describe('interpolateKeyframes', () => {
+    it('should return null without keyframes', () => {
+      expect(interpolateKeyframes(undefined, 1)).toBeNull();
+      expect(interpolateKeyframes([], 1)).toBeNull();
+    });
+
+    it('should interpolate between keyframes regardless of stored order', () => {
+      expect(interpolateKeyframes([kf(2, 100), kf(0, 0)], 1)).toBe(50);
+    });
+
+    it('should hold the first and last values outside the keyed range', () => {
+      const frames = [kf(1, 10), kf(3, 30)];
+      expect(interpolateKeyframes(frames, 0)).toBe(10);
+      expect(interpolateKeyframes(frames, 5)).toBe(30);
+    });
+
+    it('should use the easing of the keyframe the segment starts from', () => {
+      expect(interpolateKeyframes([kf(0, 0, 'hold'), kf(2, 100)], 1.9)).toBe(0);
+      expect(interpolateKeyframes([kf(0, 0, 'ease-in'), kf(2, 100)], 1)).toBe(25);
+    });
+  });
+
+  describe('getLayerTransform', () => {
+    it('should fall back to static values for unkeyed properties', () => {
+      const transform = getLayerTransform(makeLayer({ x: [kf(0, 0), kf(2, 100)] }), 3);
+      expect(transform).toEqual({ position: { x: 50, y: 50 }, scale: 1, rotation: 0, opacity: 1 });
+    });
+
+    it('should evaluate keyframes relative to the layer start', () => {
+      const layer = makeLayer({ opacity: [kf(0, 0), kf(1, 1)], rotation: [kf(0, 0), kf(4, 90)] });
+      const transform = getLayerTransform(layer, 2.5);
+      expect(transform.opacity).toBe(0.5);
+      expect(transform.rotation).toBeCloseTo(11.25);
+    });
+
+    it('should return the same layer when nothing is keyed', () => {
+      const layer = makeLayer();
+      expect(getAnimatedLayer(layer, 3)).toEqual({ layer, opacity: 1 });
+      expect(getAnimatedLayer(layer, 3).layer).toBe(layer);
+    });
+  });
+
+  describe('keyframe edits', () => {
+    it('should replace a keyframe at the same time and keep the list sorted', () => {
+      let keyframes = setKeyframe(undefined, 'x', 2, 80);
+      keyframes = setKeyframe(keyframes, 'x', 0, 20);
+      keyframes = setKeyframe(keyframes, 'x', 2.01, 90);
+      expect(keyframes.x!.map(f => [f.time, f.value])).toEqual([[0, 20], [2, 90]]);
+    });
+
+    it('should key every property at its current value', () => {
+      const keyframes = addKeyframesAt(makeLayer({ x: [kf(0, 0), kf(4, 100)] }), 1);
+      expect(keyframes.x!.find(f => f.time === 1)!.value).toBe(25);
+      expect(keyframes.opacity!.map(f => f.value)).toEqual([1]);
+      expect(getKeyframeTimes(keyframes)).toEqual([0, 1, 4]);
+    });
+
+    it('should move and remove keyframes across properties', () => {
+      const keyframes: LayerKeyframes = { x: [kf(0, 0), kf(1, 10)], scale: [kf(1, 2)] };
+      const moved = moveKeyframesAt(keyframes, 1, 3);
+      expect(getKeyframeTimes(moved)).toEqual([0, 3]);
+      expect(removeKeyframesAt(moved, 3)).toEqual({ x: [kf(0, 0)] });
+      expect(removeKeyframesAt({ x: [kf(0, 0)] }, 0)).toBeUndefined();
+    });
+
+    it('should set easing on every keyframe at a time', () => {
+      const keyframes = setKeyframeEasingAt({ x: [kf(1, 0)], y: [kf(1, 0)] }, 1, 'ease-out');
+      expect([keyframes!.x![0].easing, keyframes!.y![0].easing]).toEqual(['ease-out', 'ease-out']);
+    });
+  });
+
+  describe('applyKeyframedUpdate', () => {
+    it('should pass updates through for layers without keyframes', () => {
+      const updates = { position: { x: 10, y: 20 } };
+      expect(applyKeyframedUpdate(makeLayer(), updates, 3)).toBe(updates);
+    });
+
+    it('should key keyframed properties at the playhead and keep the rest static', () => {
+      const layer = makeLayer({ x: [kf(0, 0)], scale: [kf(0, 1)] });
+      const result = applyKeyframedUpdate(layer, { position: { x: 10, y: 20 }, scale: 2, rotation: 45 }, 3);
+      expect(result.position).toEqual({ x: 50, y: 20 });
+      expect(result.scale).toBeUndefined();
+      expect(result.rotation).toBe(45);
+      expect(result.keyframes!.x!.map(f => [f.time, f.value])).toEqual([[0, 0], [1, 10]]);
+      expect(result.keyframes!.scale!.map(f => [f.time, f.value])).toEqual([[0, 1], [1, 2]]);
+    });
+  });
+});
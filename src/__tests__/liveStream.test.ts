@@ -0,0 +1,89 @@
+// Live streaming unit tests - liveness, audience counting and display formatting
+// Tests: stale heartbeats, distinct viewers, compact counts, durations, comment buffer
+
+import { describe, it, expect } from 'vitest';
+import {
+  appendLiveComment,
+  countLiveViewers,
+  formatLiveDuration,
+  formatViewerCount,
+  isLiveActive,
+  LIVE_STALE_AFTER_MS,
+} from '@/lib/liveStream';
+
+describe('Live streaming', () => {
+  describe('isLiveActive', () => {
+    const now = new Date('2026-04-07T12:00:00Z').getTime();
+
+    it('should treat a live with a fresh heartbeat as on air', () => {
+      const heartbeat = new Date(now - 10_000).toISOString();
+      expect(isLiveActive({ ended_at: null, heartbeat_at: heartbeat }, now)).toBe(true);
+    });
+
+    it('should treat an ended live as over', () => {
+      const heartbeat = new Date(now).toISOString();
+      expect(isLiveActive({ ended_at: heartbeat, heartbeat_at: heartbeat }, now)).toBe(false);
+    });
+
+    it('should treat a live with a stale heartbeat as over', () => {
+      const heartbeat = new Date(now - LIVE_STALE_AFTER_MS - 1).toISOString();
+      expect(isLiveActive({ ended_at: null, heartbeat_at: heartbeat }, now)).toBe(false);
+    });
+  });
+
+  describe('countLiveViewers', () => {
+    it('should count each viewer once and skip the broadcaster', () => {
+      const state = {
+        host: [{ userId: 'host', role: 'broadcaster' as const }],
+        a: [{ userId: 'a', role: 'viewer' as const }, { userId: 'a', role: 'viewer' as const }],
+        b: [{ userId: 'b', role: 'viewer' as const }],
+      };
+      expect(countLiveViewers(state)).toBe(2);
+    });
+
+    it('should return 0 for an empty audience', () => {
+      expect(countLiveViewers({})).toBe(0);
+    });
+  });
+
+  describe('formatViewerCount', () => {
+    it('should show small counts as is', () => {
+      expect(formatViewerCount(0)).toBe('0');
+      expect(formatViewerCount(950)).toBe('950');
+    });
+
+    it('should abbreviate thousands and millions', () => {
+      expect(formatViewerCount(1000)).toBe('1K');
+      expect(formatViewerCount(1250)).toBe('1.3K');
+      expect(formatViewerCount(45_000)).toBe('45K');
+      expect(formatViewerCount(3_000_000)).toBe('3M');
+    });
+  });
+
+  describe('formatLiveDuration', () => {
+    it('should format minutes and seconds', () => {
+      expect(formatLiveDuration(0)).toBe('0:00');
+      expect(formatLiveDuration(245.7)).toBe('4:05');
+    });
+
+    it('should include hours once past the hour', () => {
+      expect(formatLiveDuration(3729)).toBe('1:02:09');
+    });
+
+    it('should clamp negative durations', () => {
+      expect(formatLiveDuration(-5)).toBe('0:00');
+    });
+  });
+
+  describe('appendLiveComment', () => {
+    it('should ignore a comment that is already in the list', () => {
+      const comments = [{ id: '1' }, { id: '2' }];
+      expect(appendLiveComment(comments, { id: '2' })).toBe(comments);
+    });
+
+    it('should keep only the newest comments', () => {
+      const comments = [{ id: '1' }, { id: '2' }, { id: '3' }];
+      expect(appendLiveComment(comments, { id: '4' }, 3).map(c => c.id)).toEqual(['2', '3', '4']);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// LUT unit tests - .cube parsing, trilinear lookup and GPU packing
+// Tests: header keywords, data order, validation errors, identity/invert lookups, domains, strip layout
+
+import { describe, it, expect } from 'vitest';
+import { MAX_LUT_SIZE, packLutTexture, parseCubeLut, sampleLut } from '@/lib/lut';
+
+// A .cube file whose entries map each colour through `map`
+function buildCube(size: number, map: (r: number, g: number, b: number) => number[], header = ''): string {
+  const lines = [header, `LUT_3D_SIZE ${size}`];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        lines.push(map(r / (size - 1), g / (size - 1), b / (size - 1)).join(' '));
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+const identity = (r: number, g: number, b: number) => [r, g, b];
+const invert = (r: number, g: number, b: number) => [1 - r, 1 - g, 1 - b];
+
+describe('LUT', () => {
+  describe('parseCubeLut', () => {
+    it('should read the header and the table with red changing fastest', () => {
+      const lut = parseCubeLut(buildCube(2, identity, '# made by hand\nTITLE "Teal & Orange"'));
+      expect(lut.title).toBe('Teal & Orange');
+      expect(lut.size).toBe(2);
+      expect(lut.domainMin).toEqual([0, 0, 0]);
+      expect(lut.domainMax).toEqual([1, 1, 1]);
+      expect(lut.data).toHaveLength(24);
+      // Second entry is (r=1, g=0, b=0)
+      expect(Array.from(lut.data.slice(3, 6))).toEqual([1, 0, 0]);
+    });
+
+    it('should read custom domains and skip unknown keywords', () => {
+      const lut = parseCubeLut(buildCube(2, identity, 'DOMAIN_MIN 0 0 0\nDOMAIN_MAX 2 2 2\nLUT_3D_INPUT_RANGE 0 1'));
+      expect(lut.domainMax).toEqual([2, 2, 2]);
+    });
+
+    it('should reject tables it cannot use', () => {
+      expect(() => parseCubeLut('LUT_1D_SIZE 4\n0 0 0')).toThrow('Only 3D LUTs are supported');
+      expect(() => parseCubeLut('0 0 0')).toThrow('Missing LUT_3D_SIZE');
+      expect(() => parseCubeLut(`LUT_3D_SIZE ${MAX_LUT_SIZE + 1}`)).toThrow('not supported');
+      expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 0\n1 1 1')).toThrow('Expected 8 entries, found 2');
+      expect(() => parseCubeLut('LUT_3D_SIZE 2\n0 0 zero')).toThrow('line 2');
+    });
+  });
+
+  describe('sampleLut', () => {
+    it('should return the input through an identity table', () => {
+      const lut = parseCubeLut(buildCube(5, identity));
+      const [r, g, b] = sampleLut(lut, 0.3, 0.62, 0.9);
+      expect(r).toBeCloseTo(0.3);
+      expect(g).toBeCloseTo(0.62);
+      expect(b).toBeCloseTo(0.9);
+    });
+
+    it('should interpolate between entries', () => {
+      const lut = parseCubeLut(buildCube(2, invert));
+      const [r, g, b] = sampleLut(lut, 0.25, 0.5, 1);
+      expect(r).toBeCloseTo(0.75);
+      expect(g).toBeCloseTo(0.5);
+      expect(b).toBeCloseTo(0);
+    });
+
+    it('should map the input domain onto the table and clamp outside it', () => {
+      const lut = parseCubeLut(buildCube(3, identity, 'DOMAIN_MAX 2 2 2'));
+      expect(sampleLut(lut, 1, 1, 1)[0]).toBeCloseTo(0.5);
+      expect(sampleLut(lut, -1, 0, 0)[0]).toBeCloseTo(0);
+    });
+  });
+
+  describe('packLutTexture', () => {
+    it('should lay blue slices side by side with green as rows', () => {
+      const size = 2;
+      const lut = parseCubeLut(buildCube(size, identity));
+      const pixels = packLutTexture(lut);
+      const texel = (x: number, y: number) => Array.from(pixels.slice((y * size * size + x) * 4, (y * size * size + x) * 4 + 4));
+      expect(pixels).toHaveLength(size ** 3 * 4);
+      // Texel (r + b * size, g) holds entry (r, g, b)
+      expect(texel(1, 0)).toEqual([255, 0, 0, 255]);
+      expect(texel(2, 1)).toEqual([0, 255, 255, 255]);
+      expect(texel(3, 1)).toEqual([255, 255, 255, 255]);
+    });
+  });
+});
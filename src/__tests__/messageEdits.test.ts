@@ -0,0 +1,77 @@
+// Message edit unit tests - who may edit or unsend a message, and the edit window
+// Tests: own vs others' messages, the 15 minute window, system/unsent/sticker exclusions, encrypted text, minutes left
+
+import { describe, it, expect } from 'vitest';
+import {
+  MESSAGE_EDIT_WINDOW_MS,
+  canEditMessage,
+  canUnsendMessage,
+  getEditMinutesLeft,
+  isUnsentMessage,
+} from '@/lib/messageEdits';
+
+const SENT_AT = '2026-05-26T12:00:00.000Z';
+const sentAt = Date.parse(SENT_AT);
+
+const textMessage = (overrides = {}) => ({
+  sender_id: 'me',
+  created_at: SENT_AT,
+  content: 'Hello there',
+  ...overrides,
+});
+
+describe('Message edits', () => {
+  describe('canEditMessage', () => {
+    it('should allow editing own text messages inside the window', () => {
+      expect(canEditMessage(textMessage(), 'me', sentAt + 60_000)).toBe(true);
+      expect(canEditMessage(textMessage({ content: null, is_encrypted: true }), 'me', sentAt)).toBe(true);
+    });
+
+    it('should not allow editing other people\'s messages', () => {
+      expect(canEditMessage(textMessage(), 'someone-else', sentAt)).toBe(false);
+      expect(canEditMessage(textMessage(), undefined, sentAt)).toBe(false);
+    });
+
+    it('should close once the window has passed', () => {
+      expect(canEditMessage(textMessage(), 'me', sentAt + MESSAGE_EDIT_WINDOW_MS - 1)).toBe(true);
+      expect(canEditMessage(textMessage(), 'me', sentAt + MESSAGE_EDIT_WINDOW_MS)).toBe(false);
+    });
+
+    it('should not allow editing system, unsent or non-text messages', () => {
+      expect(canEditMessage(textMessage({ is_system: true }), 'me', sentAt)).toBe(false);
+      expect(canEditMessage(textMessage({ unsent_at: SENT_AT }), 'me', sentAt)).toBe(false);
+      expect(canEditMessage(textMessage({ is_sticker: true }), 'me', sentAt)).toBe(false);
+      expect(canEditMessage(textMessage({ message_type: 'gif' }), 'me', sentAt)).toBe(false);
+      expect(canEditMessage(textMessage({ content: null }), 'me', sentAt)).toBe(false);
+    });
+  });
+
+  describe('canUnsendMessage', () => {
+    it('should allow unsending own messages at any time', () => {
+      expect(canUnsendMessage(textMessage(), 'me')).toBe(true);
+      expect(canUnsendMessage(textMessage({ content: null, is_sticker: true }), 'me')).toBe(true);
+    });
+
+    it('should not allow unsending others\' messages or tombstones', () => {
+      expect(canUnsendMessage(textMessage(), 'someone-else')).toBe(false);
+      expect(canUnsendMessage(textMessage({ is_system: true }), 'me')).toBe(false);
+      expect(canUnsendMessage(textMessage({ unsent_at: SENT_AT }), 'me')).toBe(false);
+    });
+  });
+
+  describe('isUnsentMessage', () => {
+    it('should follow unsent_at', () => {
+      expect(isUnsentMessage({ unsent_at: SENT_AT })).toBe(true);
+      expect(isUnsentMessage({ unsent_at: null })).toBe(false);
+      expect(isUnsentMessage({})).toBe(false);
+    });
+  });
+
+  describe('getEditMinutesLeft', () => {
+    it('should round up the minutes left and stop at zero', () => {
+      expect(getEditMinutesLeft(SENT_AT, sentAt)).toBe(15);
+      expect(getEditMinutesLeft(SENT_AT, sentAt + 14 * 60_000 + 1)).toBe(1);
+      expect(getEditMinutesLeft(SENT_AT, sentAt + MESSAGE_EDIT_WINDOW_MS + 60_000)).toBe(0);
+    });
+  });
+});
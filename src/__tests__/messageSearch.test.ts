@@ -0,0 +1,80 @@
+// Message search unit tests - query terms, prefix matching, highlighting and snippets
+// Tests: punctuation splitting, every-term matching, attachment name fallback, highlight runs, snippet cuts
+
+import { describe, it, expect } from 'vitest';
+import {
+  getAttachmentName,
+  getHighlightSegments,
+  getSearchSnippet,
+  getSearchTerms,
+  matchesSearchTerms,
+} from '@/lib/messageSearch';
+
+describe('Message search', () => {
+  describe('getSearchTerms', () => {
+    it('should lowercase and split on punctuation like the search index', () => {
+      expect(getSearchTerms('  Q3-Report.pdf ')).toEqual(['q3', 'report', 'pdf']);
+      expect(getSearchTerms('example.com/Docs')).toEqual(['example', 'com', 'docs']);
+      expect(getSearchTerms('Café  déjà')).toEqual(['café', 'déjà']);
+      expect(getSearchTerms(' .. ')).toEqual([]);
+    });
+  });
+
+  describe('matchesSearchTerms', () => {
+    it('should require every term to prefix a word', () => {
+      expect(matchesSearchTerms('Dinner at eight tomorrow?', ['din', 'tom'])).toBe(true);
+      expect(matchesSearchTerms('Dinner at eight tomorrow?', ['din', 'lunch'])).toBe(false);
+      expect(matchesSearchTerms('Dinner at eight', ['inner'])).toBe(false);
+    });
+
+    it('should not match empty text or an empty query', () => {
+      expect(matchesSearchTerms(null, ['a'])).toBe(false);
+      expect(matchesSearchTerms('anything', [])).toBe(false);
+    });
+  });
+
+  describe('getAttachmentName', () => {
+    it('should prefer the stored name and fall back to the decoded URL file name', () => {
+      expect(getAttachmentName('https://cdn/x/123-abc.pdf', 'Budget 2026.pdf')).toBe('Budget 2026.pdf');
+      expect(getAttachmentName('https://cdn/x/My%20Notes.txt?token=1')).toBe('My Notes.txt');
+      expect(getAttachmentName(null)).toBeNull();
+    });
+  });
+
+  describe('getHighlightSegments', () => {
+    it('should mark term matches at the start of words only', () => {
+      expect(getHighlightSegments('Rerun the report', ['re'])).toEqual([
+        { text: 'Re', match: true },
+        { text: 'run the ', match: false },
+        { text: 're', match: true },
+        { text: 'port', match: false },
+      ]);
+    });
+
+    it('should prefer the longest term and keep text unchanged without terms', () => {
+      expect(getHighlightSegments('report', ['re', 'report'])).toEqual([{ text: 'report', match: true }]);
+      expect(getHighlightSegments('hello', [])).toEqual([{ text: 'hello', match: false }]);
+    });
+
+    it('should treat regex characters in terms literally', () => {
+      expect(getHighlightSegments('a+b aab', ['a+'])).toEqual([
+        { text: 'a+', match: true },
+        { text: 'b aab', match: false },
+      ]);
+    });
+  });
+
+  describe('getSearchSnippet', () => {
+    it('should keep short messages whole', () => {
+      expect(getSearchSnippet('See you at the station', ['station'])).toBe('See you at the station');
+    });
+
+    it('should centre long messages on the first match', () => {
+      const text = `${'word '.repeat(40)}the keyword sits here ${'tail '.repeat(40)}`.trim();
+      const snippet = getSearchSnippet(text, ['keyword'], 20);
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet).toContain('keyword');
+    });
+  });
+});
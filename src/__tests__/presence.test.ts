@@ -0,0 +1,70 @@
+// Presence unit tests - typing users from presence state, online from last-active, last-active and typing labels
+// Tests: multi-tab typing, excluding the current user, online window, relative time buckets, typing name lists
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatLastActive,
+  formatTypingText,
+  getTypingUserIds,
+  isRecentlyActive,
+  PresenceEntry,
+} from '@/lib/presence';
+
+const NOW = Date.parse('2026-06-02T12:00:00.000Z');
+const ago = (ms: number) => new Date(NOW - ms).toISOString();
+
+describe('Presence', () => {
+  const state: Record<string, PresenceEntry[]> = {
+    me: [{ userId: 'me', typing: true }],
+    ana: [{ userId: 'ana', typing: false }, { userId: 'ana', typing: true }], // two tabs
+    ben: [{ userId: 'ben' }],
+  };
+
+  describe('isRecentlyActive', () => {
+    it('should count a recent heartbeat as online', () => {
+      expect(isRecentlyActive(ago(10 * 1000), NOW)).toBe(true);
+      expect(isRecentlyActive(ago(60 * 1000), NOW)).toBe(true);
+      expect(isRecentlyActive(ago(2 * 60 * 1000), NOW)).toBe(false);
+    });
+
+    it('should not count unknown times as online', () => {
+      expect(isRecentlyActive(null, NOW)).toBe(false);
+      expect(isRecentlyActive('not a date', NOW)).toBe(false);
+    });
+  });
+
+  describe('getTypingUserIds', () => {
+    it('should list other users typing in any tab', () => {
+      expect(getTypingUserIds(state, 'me')).toEqual(['ana']);
+      expect(getTypingUserIds({ ben: [{ userId: 'ben', typing: false }] }, 'me')).toEqual([]);
+    });
+  });
+
+  describe('formatLastActive', () => {
+    it('should bucket the time since last activity', () => {
+      expect(formatLastActive(ago(20 * 1000), NOW)).toBe('Active now');
+      expect(formatLastActive(ago(5 * 60 * 1000), NOW)).toBe('Active 5m ago');
+      expect(formatLastActive(ago(3 * 60 * 60 * 1000 + 59 * 60 * 1000), NOW)).toBe('Active 3h ago');
+      expect(formatLastActive(ago(2 * 24 * 60 * 60 * 1000), NOW)).toBe('Active 2d ago');
+    });
+
+    it('should return null when unknown or too long ago', () => {
+      expect(formatLastActive(null, NOW)).toBeNull();
+      expect(formatLastActive('not a date', NOW)).toBeNull();
+      expect(formatLastActive(ago(8 * 24 * 60 * 60 * 1000), NOW)).toBeNull();
+    });
+
+    it('should treat clock skew into the future as active now', () => {
+      expect(formatLastActive(new Date(NOW + 30 * 1000).toISOString(), NOW)).toBe('Active now');
+    });
+  });
+
+  describe('formatTypingText', () => {
+    it('should name one or two people and summarise the rest', () => {
+      expect(formatTypingText([])).toBeNull();
+      expect(formatTypingText(['Ana'])).toBe('Ana is typing…');
+      expect(formatTypingText(['Ana', 'Ben'])).toBe('Ana and Ben are typing…');
+      expect(formatTypingText(['Ana', 'Ben', 'Cy'])).toBe('Ana and 2 others are typing…');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+// Project version unit tests - diffing saved projects, checkpoint cadence and pruning, copy titles
+// Tests: added/removed/edited clips, key order, duration and mix changes, summaries, pruning named vs auto
+
+import { describe, it, expect } from 'vitest';
+import {
+  SavedProjectJson,
+  describeDiff,
+  diffProjects,
+  getCopyTitle,
+  getPrunableCheckpoints,
+  shouldAutoCheckpoint,
+} from '@/lib/projectVersions';
+
+const makeProject = (overrides: Partial<SavedProjectJson> = {}): SavedProjectJson => ({
+  tracks: [
+    { type: 'video', clips: [{ id: 'v1', src: 'a.mp4', start: 0, end: 5 }, { id: 'v2', src: 'b.mp4', start: 5, end: 10 }] },
+    { type: 'text', clips: [{ id: 't1', content: 'Hello', style: { color: '#fff', fontSize: 32 } }] },
+  ],
+  settings: { duration: 10, clipStart: 0, clipEnd: 10 },
+  transcripts: [],
+  audio: { videoVolume: 1 },
+  ...overrides,
+});
+
+describe('Project versions', () => {
+  describe('diffProjects', () => {
+    it('should find no changes between identical projects', () => {
+      const diff = diffProjects(makeProject(), makeProject());
+      expect(diff).toEqual({ tracks: [], durationChange: 0, otherChanges: [] });
+      expect(describeDiff(diff)).toBe('No changes');
+    });
+
+    it('should ignore key order, as jsonb returns keys sorted', () => {
+      const reordered = makeProject({
+        tracks: [
+          { type: 'video', clips: [{ end: 5, start: 0, src: 'a.mp4', id: 'v1' }, { id: 'v2', src: 'b.mp4', start: 5, end: 10 }] },
+          { type: 'text', clips: [{ style: { fontSize: 32, color: '#fff' }, content: 'Hello', id: 't1' }] },
+        ],
+      });
+      expect(diffProjects(makeProject(), reordered).tracks).toEqual([]);
+    });
+
+    it('should count added, removed and edited clips per track', () => {
+      const after = makeProject({
+        tracks: [
+          { type: 'video', clips: [{ id: 'v1', src: 'a.mp4', start: 0, end: 4 }, { id: 'v3', src: 'c.mp4', start: 4, end: 9 }] },
+          { type: 'image', clips: [{ id: 'i1', src: 'logo.png' }] },
+        ],
+      });
+      const diff = diffProjects(makeProject(), after);
+      expect(diff.tracks).toEqual([
+        { type: 'video', added: 1, removed: 1, changed: 1 },
+        { type: 'text', added: 0, removed: 1, changed: 0 },
+        { type: 'image', added: 1, removed: 0, changed: 0 },
+      ]);
+      expect(describeDiff(diff)).toBe('1 clip added, 1 clip removed, 1 clip edited, 1 text removed, 1 image added');
+    });
+
+    it('should report duration, mix and trim changes', () => {
+      const after = makeProject({
+        settings: { duration: 14, clipStart: 2, clipEnd: 10 },
+        audio: { videoVolume: 0.5 },
+      });
+      const diff = diffProjects(makeProject(), after);
+      expect(diff.durationChange).toBe(4);
+      expect(diff.otherChanges).toEqual(['audio mix', 'trim']);
+      expect(describeDiff(diff)).toBe('4.0s longer, audio mix, trim changed');
+    });
+  });
+
+  describe('checkpoints', () => {
+    it('should checkpoint every interval of saves', () => {
+      expect(shouldAutoCheckpoint(0)).toBe(false);
+      expect(shouldAutoCheckpoint(9)).toBe(false);
+      expect(shouldAutoCheckpoint(10)).toBe(true);
+      expect(shouldAutoCheckpoint(6, 3)).toBe(true);
+    });
+
+    it('should prune only the oldest automatic checkpoints', () => {
+      const versions = [
+        { id: 'a1', is_auto: true, created_at: '2026-05-01T10:00:00Z' },
+        { id: 'n1', is_auto: false, created_at: '2026-05-01T09:00:00Z' },
+        { id: 'a2', is_auto: true, created_at: '2026-05-01T11:00:00Z' },
+        { id: 'a3', is_auto: true, created_at: '2026-05-01T08:00:00Z' },
+      ];
+      expect(getPrunableCheckpoints(versions, 1)).toEqual(['a1', 'a3']);
+      expect(getPrunableCheckpoints(versions, 5)).toEqual([]);
+    });
+  });
+
+  describe('getCopyTitle', () => {
+    it('should number repeated copies', () => {
+      expect(getCopyTitle('Trip')).toBe('Trip (copy)');
+      expect(getCopyTitle('Trip (copy)')).toBe('Trip (copy 2)');
+      expect(getCopyTitle('Trip (copy 2)')).toBe('Trip (copy 3)');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+// Renderer unit tests - offline project export
+// Tests: frame timing, frame pacing, clip lookup, layer visibility, filter string, text animations
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildFilterString,
+  findClipAtTime,
+  frameToTime,
+  getFrameCount,
+  getNextFrame,
+  getTextAnimationState,
+  isLayerActive,
+} from '@/lib/renderer';
+import { TextLayer, VideoLayer, defaultTextStyle, defaultVideoFilter } from '@/types/editor';
+
+const makeClip = (id: string, start: number, end: number): VideoLayer => ({
+  id,
+  type: 'video',
+  src: `https://example.com/${id}.mp4`,
+  fileName: `${id}.mp4`,
+  start,
+  end,
+  duration: end - start,
+  volume: 1,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+});
+
+const makeText = (overrides: Partial<TextLayer> = {}): TextLayer => ({
+  id: 'text-1',
+  type: 'text',
+  content: 'Hello',
+  start: 2,
+  end: 6,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+  style: defaultTextStyle,
+  ...overrides,
+});
+
+describe('Renderer', () => {
+  describe('frame timing', () => {
+    it('should compute frame count from range and fps', () => {
+      expect(getFrameCount(0, 10, 30)).toBe(300);
+      expect(getFrameCount(2, 3.5, 30)).toBe(45);
+      // Partial trailing frame still gets rendered
+      expect(getFrameCount(0, 1.01, 30)).toBe(31);
+      // Empty range renders one frame
+      expect(getFrameCount(5, 5, 30)).toBe(1);
+    });
+
+    it('should map frames to timeline time', () => {
+      expect(frameToTime(0, 30)).toBe(0);
+      expect(frameToTime(30, 30)).toBe(1);
+      expect(frameToTime(15, 30, 2)).toBe(2.5);
+    });
+
+    it('should draw the following frame while the clock keeps up', () => {
+      expect(getNextFrame(0, 0, 30)).toBe(1);
+      expect(getNextFrame(4, 4.5 / 30, 30)).toBe(5);
+    });
+
+    it('should skip frames whose slot has already started', () => {
+      // A draw that overran into frame 15's slot (0.5s) continues from frame 16
+      expect(getNextFrame(10, 0.5, 30)).toBe(16);
+      expect(getNextFrame(0, 1 / 30, 30)).toBe(2);
+    });
+  });
+
+  describe('findClipAtTime', () => {
+    const clips = [makeClip('b', 5, 12), makeClip('a', 0, 5), makeClip('c', 12, 15)];
+
+    it('should resolve the covering clip and local time', () => {
+      expect(findClipAtTime(clips, 0)).toMatchObject({ clip: { id: 'a' }, localTime: 0 });
+      expect(findClipAtTime(clips, 5)).toMatchObject({ clip: { id: 'b' }, localTime: 0 });
+      expect(findClipAtTime(clips, 13.5)).toMatchObject({ clip: { id: 'c' }, localTime: 1.5 });
+    });
+
+    it('should return no clip past the end', () => {
+      expect(findClipAtTime(clips, 15).clip).toBeNull();
+    });
+  });
+
+  describe('isLayerActive', () => {
+    it('should include both layer boundaries like the preview', () => {
+      expect(isLayerActive({ start: 1, end: 3 }, 1)).toBe(true);
+      expect(isLayerActive({ start: 1, end: 3 }, 3)).toBe(true);
+      expect(isLayerActive({ start: 1, end: 3 }, 3.01)).toBe(false);
+    });
+  });
+
+  describe('buildFilterString', () => {
+    it('should produce the default filter chain', () => {
+      expect(buildFilterString(defaultVideoFilter)).toBe('brightness(100%) contrast(100%) saturate(100%) blur(0px)');
+    });
+
+    it('should map warm and cool temperature', () => {
+      expect(buildFilterString({ ...defaultVideoFilter, temperature: 30 })).toContain('sepia(30%)');
+      expect(buildFilterString({ ...defaultVideoFilter, temperature: -20 })).toContain('hue-rotate(-20deg)');
+    });
+
+    it('should accept legacy warmth alias', () => {
+      expect(buildFilterString({ ...defaultVideoFilter, temperature: undefined, warmth: 10 })).toContain('sepia(10%)');
+    });
+  });
+
+  describe('getTextAnimationState', () => {
+    it('should be fully visible without animation', () => {
+      expect(getTextAnimationState(makeText(), 3)).toEqual({
+        opacity: 1, offsetX: 0, offsetY: 0, scale: 1, visibleChars: null,
+      });
+    });
+
+    it('should fade in over the animation duration', () => {
+      const layer = makeText({ animation: { type: 'fade', duration: 1 } });
+      expect(getTextAnimationState(layer, 2).opacity).toBe(0);
+      expect(getTextAnimationState(layer, 2.5).opacity).toBeCloseTo(0.875);
+      expect(getTextAnimationState(layer, 4).opacity).toBe(1);
+    });
+
+    it('should reveal characters for typewriter', () => {
+      const layer = makeText({ content: 'Hello!', animation: { type: 'typewriter', duration: 2 } });
+      expect(getTextAnimationState(layer, 2).visibleChars).toBe(0);
+      expect(getTextAnimationState(layer, 3).visibleChars).toBe(3);
+      expect(getTextAnimationState(layer, 5).visibleChars).toBe(6);
+    });
+  });
+});
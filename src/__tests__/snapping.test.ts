@@ -0,0 +1,91 @@
+// Snapping unit tests - timeline edge snapping and canvas guides
+// Tests: snap targets, nearest target within threshold, clip moves, bypass, canvas guide snapping
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CANVAS_SAFE_AREA,
+  applyTimelineSnap,
+  buildCanvasGuides,
+  buildTimelineSnapTargets,
+  isSnapBypassed,
+  snapCanvasBox,
+  snapClipMove,
+  snapTime,
+} from '@/lib/snapping';
+
+const targets = buildTimelineSnapTargets({
+  playhead: 5,
+  clips: [{ id: 'a', start: 0, end: 3 }, { id: 'b', start: 8, end: 12 }],
+  markers: [15],
+  beats: [{ time: 4, ownerId: 'music' }, { time: 6 }],
+});
+
+describe('Snapping', () => {
+  describe('timeline', () => {
+    it('should collect playhead, clip edges, markers and beats', () => {
+      expect(targets.map(target => `${target.kind}:${target.time}`)).toEqual([
+        'playhead:5', 'clip:0', 'clip:3', 'clip:8', 'clip:12', 'marker:15', 'beat:4', 'beat:6',
+      ]);
+    });
+
+    it('should snap to the nearest target within threshold', () => {
+      expect(snapTime(7.8, targets, 0.3)).toEqual({ time: 8, target: { time: 8, kind: 'clip', ownerId: 'b' } });
+      expect(snapTime(5.1, targets, 0.3).target?.kind).toBe('playhead');
+      expect(snapTime(10, targets, 0.3)).toEqual({ time: 10, target: null });
+    });
+
+    it('should never snap a clip to its own edges or beats', () => {
+      expect(snapTime(7.9, targets, 0.3, 'b').target).toBeNull();
+      expect(snapTime(4.1, targets, 0.3, 'music').target).toBeNull();
+      expect(snapTime(4.1, targets, 0.3, 'a').time).toBe(4);
+    });
+
+    it('should move a clip by its closer edge and keep its length', () => {
+      const byStart = snapClipMove(2.9, 4.4, targets, 0.3, 'x');
+      expect(byStart.start).toBeCloseTo(3);
+      expect(byStart.end).toBeCloseTo(4.5);
+      expect(byStart.target).toEqual({ time: 3, kind: 'clip', ownerId: 'a' });
+      const byEnd = snapClipMove(3.2, 5.9, targets, 0.3, 'x');
+      expect(byEnd.start).toBeCloseTo(3.3);
+      expect(byEnd.end).toBeCloseTo(6);
+      expect(byEnd.target?.kind).toBe('beat');
+      expect(snapClipMove(20, 22, targets, 0.3)).toEqual({ start: 20, end: 22, target: null });
+    });
+
+    it('should convert the pixel threshold by zoom and show the guide', () => {
+      const onGuide = vi.fn();
+      const snap = { targets, pixelsPerSecond: 100, onGuide };
+      expect(applyTimelineSnap(snap, 7.95, 'x', false)).toBe(8);
+      expect(onGuide).toHaveBeenLastCalledWith(8);
+      expect(applyTimelineSnap(snap, 7.8, 'x', false)).toBe(7.8);
+      expect(onGuide).toHaveBeenLastCalledWith(null);
+      expect(applyTimelineSnap(snap, 7.95, 'x', true)).toBe(7.95);
+      expect(applyTimelineSnap(undefined, 7.95, 'x', false)).toBe(7.95);
+    });
+
+    it('should bypass with Ctrl or Cmd held', () => {
+      expect(isSnapBypassed({ ctrlKey: true, metaKey: false })).toBe(true);
+      expect(isSnapBypassed({ ctrlKey: false, metaKey: true })).toBe(true);
+      expect(isSnapBypassed({ ctrlKey: false, metaKey: false })).toBe(false);
+    });
+  });
+
+  describe('canvas', () => {
+    it('should include center lines, the safe area and other layers', () => {
+      const guides = buildCanvasGuides([{ x: 30, y: 40, width: 10, height: 20 }]);
+      expect(guides.vertical).toEqual([50, CANVAS_SAFE_AREA.left, CANVAS_SAFE_AREA.right, 25, 30, 35]);
+      expect(guides.horizontal).toEqual([50, CANVAS_SAFE_AREA.top, CANVAS_SAFE_AREA.bottom, 30, 40, 50]);
+    });
+
+    it('should snap a box center or edge to the closest guide per axis', () => {
+      const guides = { vertical: [50, 20], horizontal: [50, 10] };
+      const result = snapCanvasBox({ x: 49, y: 16, width: 10, height: 10 }, guides, { x: 2, y: 2 });
+      expect(result).toEqual({ x: 50, y: 15, guides: { vertical: 50, horizontal: 10 } });
+    });
+
+    it('should leave a box alone when no guide is within threshold', () => {
+      const result = snapCanvasBox({ x: 70, y: 70, width: 4, height: 4 }, { vertical: [50], horizontal: [50] }, { x: 1, y: 1 });
+      expect(result).toEqual({ x: 70, y: 70, guides: { vertical: null, horizontal: null } });
+    });
+  });
+});
@@ -0,0 +1,211 @@
+// Subtitles unit tests - SRT and WebVTT interchange
+// Tests: timestamp parsing, per-line errors, overlap warnings, VTT blocks, round trips, entities and escaping
+
+import { describe, it, expect } from 'vitest';
+import {
+  cuesToTranscript,
+  detectSubtitleFormat,
+  formatSubtitles,
+  formatTimestamp,
+  parseSubtitles,
+  parseTimestamp,
+  textLayersToCues,
+  transcriptToCues,
+} from '@/lib/subtitles';
+import { TextLayer, defaultTextStyle } from '@/types/editor';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Hello and welcome.
+
+2
+00:00:04,000 --> 00:00:06,250
+This is line one
+and line two.
+`;
+
+const VTT = `WEBVTT
+Kind: captions
+
+NOTE exported from the studio
+
+intro
+00:01.000 --> 00:03.500 align:start position:10%
+<v Sam>Hello</v> and <b>welcome</b>.
+
+00:00:04.000 --> 00:00:06.250
+Second cue
+`;
+
+describe('Subtitles', () => {
+  describe('timestamps', () => {
+    it('should parse SRT and WebVTT timestamps', () => {
+      expect(parseTimestamp('00:00:01,000')).toBe(1);
+      expect(parseTimestamp('01:02:03.456')).toBeCloseTo(3723.456);
+      expect(parseTimestamp('02:03.5')).toBeCloseTo(123.5);
+    });
+
+    it('should reject malformed timestamps', () => {
+      expect(parseTimestamp('00:00:0x,000')).toBeNull();
+      expect(parseTimestamp('00:61:00,000')).toBeNull();
+      expect(parseTimestamp('1.5')).toBeNull();
+    });
+
+    it('should format with the right separator', () => {
+      expect(formatTimestamp(3723.456, 'srt')).toBe('01:02:03,456');
+      expect(formatTimestamp(0.1, 'vtt')).toBe('00:00:00.100');
+    });
+  });
+
+  describe('parseSubtitles', () => {
+    it('should parse SRT cues with multi-line text', () => {
+      const { format, cues, issues } = parseSubtitles(SRT);
+
+      expect(format).toBe('srt');
+      expect(issues).toEqual([]);
+      expect(cues).toHaveLength(2);
+      expect(cues[1]).toMatchObject({ id: '2', start: 4, end: 6.25, text: 'This is line one\nand line two.', line: 6 });
+    });
+
+    it('should parse WebVTT and skip header, NOTE blocks and cue settings', () => {
+      const { format, cues, issues } = parseSubtitles(VTT);
+
+      expect(format).toBe('vtt');
+      expect(issues).toEqual([]);
+      expect(cues.map(c => c.start)).toEqual([1, 4]);
+      expect(cues[0].id).toBe('intro');
+      expect(cues[0].end).toBe(3.5);
+    });
+
+    it('should handle CRLF line endings and a byte order mark', () => {
+      const { cues } = parseSubtitles('\uFEFF' + SRT.replace(/\n/g, '\r\n'));
+      expect(cues).toHaveLength(2);
+    });
+
+    it('should report bad timestamps per line and keep the good cues', () => {
+      const broken = `1
+00:00:01,000 --> 00:00:02,000
+Good
+
+2
+00:00:0x,000 --> 00:00:04,000
+Bad start
+
+3
+00:00:05,000 --> 00:00:04,000
+Backwards
+
+Just some text
+`;
+      const { cues, issues } = parseSubtitles(broken);
+
+      expect(cues.map(c => c.text)).toEqual(['Good']);
+      expect(issues).toEqual([
+        { line: 6, message: 'Invalid start timestamp "00:00:0x,000"', severity: 'error' },
+        { line: 10, message: 'Cue ends before it starts', severity: 'error' },
+        { line: 13, message: 'Missing "-->" timing line', severity: 'error' },
+      ]);
+    });
+
+    it('should warn about overlapping cues', () => {
+      const overlapping = `1
+00:00:01,000 --> 00:00:03,000
+First
+
+2
+00:00:02,500 --> 00:00:04,000
+Second
+`;
+      const { cues, issues } = parseSubtitles(overlapping);
+
+      expect(cues).toHaveLength(2);
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ line: 6, severity: 'warning' });
+    });
+
+    it('should detect the format from content or file name', () => {
+      expect(detectSubtitleFormat(VTT)).toBe('vtt');
+      expect(detectSubtitleFormat(SRT, 'clip.srt')).toBe('srt');
+      expect(detectSubtitleFormat('', 'clip.VTT')).toBe('vtt');
+    });
+  });
+
+  describe('round trips', () => {
+    it('should reproduce an SRT file exactly', () => {
+      const { cues } = parseSubtitles(SRT);
+      expect(formatSubtitles(cues, 'srt')).toBe(SRT);
+    });
+
+    it('should convert SRT to WebVTT and back without losing cues', () => {
+      const vtt = formatSubtitles(parseSubtitles(SRT).cues, 'vtt');
+      expect(vtt.startsWith('WEBVTT\n\n')).toBe(true);
+
+      const back = parseSubtitles(vtt);
+      expect(back.issues).toEqual([]);
+      expect(formatSubtitles(back.cues, 'srt')).toBe(SRT);
+    });
+
+    it('should round trip a transcript through both formats', () => {
+      const transcript = cuesToTranscript(parseSubtitles(VTT).cues, { audioTrackId: 'audio-1', id: 'tr-1' });
+      expect(transcript.segments.map(s => s.text)).toEqual(['Hello and welcome.', 'Second cue']);
+
+      (['srt', 'vtt'] as const).forEach(format => {
+        const text = formatSubtitles(transcriptToCues(transcript), format);
+        const reparsed = cuesToTranscript(parseSubtitles(text).cues, { audioTrackId: 'audio-1', id: 'tr-1' });
+        expect(reparsed).toEqual(transcript);
+      });
+    });
+  });
+
+  describe('special characters', () => {
+    it('should decode character references on import from either format', () => {
+      const srt = '1\n00:00:01,000 --> 00:00:02,000\nFish &amp; chips &lt;3 &#8212; &#x27;yum&#x27; &bogus;\n';
+      const vtt = 'WEBVTT\n\n00:01.000 --> 00:02.000\n<i>Fish &amp; chips</i> &lt;b&gt;not bold&lt;/b&gt;\n';
+
+      expect(cuesToTranscript(parseSubtitles(srt).cues, { audioTrackId: 'audio-1' }).segments[0].text)
+        .toBe("Fish & chips <3 \u2014 'yum' &bogus;");
+      expect(cuesToTranscript(parseSubtitles(vtt).cues, { audioTrackId: 'audio-1' }).segments[0].text)
+        .toBe('Fish & chips <b>not bold</b>');
+    });
+
+    it('should escape &, < and > in WebVTT cue text only', () => {
+      const cues = [{ start: 1, end: 2, text: 'Q&A: 1 < 2 > 0' }];
+
+      expect(formatSubtitles(cues, 'vtt')).toContain('\nQ&amp;A: 1 &lt; 2 &gt; 0\n');
+      expect(formatSubtitles(cues, 'srt')).toContain('\nQ&A: 1 < 2 > 0\n');
+    });
+
+    it('should round trip text with special characters through WebVTT', () => {
+      const transcript = {
+        id: 'tr-1',
+        audioTrackId: 'audio-1',
+        status: 'completed' as const,
+        segments: [{ id: 'seg-1', text: 'Tom & Jerry <3 <b>', start: 0, end: 1 }],
+      };
+      const vtt = formatSubtitles(transcriptToCues(transcript), 'vtt');
+
+      expect(cuesToTranscript(parseSubtitles(vtt).cues, { audioTrackId: 'audio-1', id: 'tr-1' })).toEqual(transcript);
+    });
+  });
+
+  describe('caption layers', () => {
+    it('should export only the captions of a transcript when asked', () => {
+      const layer = (id: string, content: string, start: number, transcriptId?: string): TextLayer => ({
+        id,
+        type: 'text',
+        content,
+        start,
+        end: start + 1,
+        position: { x: 50, y: 80 },
+        scale: 1,
+        rotation: 0,
+        style: defaultTextStyle,
+        ...(transcriptId ? { caption: { transcriptId, segmentId: 's1', lineIndex: 0, words: [] } } : {}),
+      });
+      const layers = [layer('a', 'Title', 0), layer('b', 'Caption', 2, 'tr-1'), layer('c', '  ', 3, 'tr-1')];
+
+      expect(textLayersToCues(layers, 'tr-1')).toEqual([{ start: 2, end: 3, text: 'Caption' }]);
+      expect(textLayersToCues(layers)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+// Template unit tests - saving projects as templates and filling their placeholder slots
+// Tests: slot candidates, stale slots, clip fitting (trim/slow down/ramps/clamp), filling, search
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTemplateFromProject,
+  fillTemplate,
+  fitClipToSlot,
+  getPlaceholderCandidates,
+  searchTemplates,
+} from '@/lib/templates';
+import { getTimelineDuration } from '@/lib/clipTiming';
+import {
+  EditorProjectData,
+  EditorTemplate,
+  ImageLayer,
+  TextLayer,
+  VideoLayer,
+  createDefaultProjectData,
+  defaultTextStyle,
+} from '@/types/editor';
+
+const makeClip = (overrides: Partial<VideoLayer> = {}): VideoLayer => ({
+  id: 'clip-a',
+  type: 'video',
+  src: 'https://example.com/a.mp4',
+  fileName: 'a.mp4',
+  start: 0,
+  end: 10,
+  duration: 10,
+  volume: 1,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+  ...overrides,
+});
+
+const makeImage = (overrides: Partial<ImageLayer> = {}): ImageLayer => ({
+  id: 'image-a',
+  type: 'image',
+  src: 'data:image/png;base64,AAAA',
+  fileName: 'logo.png',
+  start: 0,
+  end: 5,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+  ...overrides,
+});
+
+const makeText = (overrides: Partial<TextLayer> = {}): TextLayer => ({
+  id: 'text-a',
+  type: 'text',
+  content: 'Hello',
+  start: 0,
+  end: 5,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+  style: defaultTextStyle,
+  ...overrides,
+});
+
+const makeProject = (overrides: Partial<EditorProjectData> = {}): EditorProjectData => ({
+  ...createDefaultProjectData(),
+  videoLayers: [makeClip({ id: 'clip-b', start: 10, end: 20 }), makeClip()],
+  imageLayers: [makeImage()],
+  textLayers: [
+    makeText({ content: 'A very long headline that goes on and on' }),
+    makeText({ id: 'caption-a', caption: { transcriptId: 't', segmentId: 's', lineIndex: 0, words: [] } }),
+  ],
+  ...overrides,
+});
+
+describe('Templates', () => {
+  describe('getPlaceholderCandidates', () => {
+    it('should list clips in timeline order, then images and texts', () => {
+      const slots = getPlaceholderCandidates(makeProject());
+      expect(slots.map(slot => slot.layerId)).toEqual(['clip-a', 'clip-b', 'image-a', 'text-a']);
+      expect(slots[0]).toMatchObject({ id: 'slot-clip-a', kind: 'media', label: 'Clip 1', layerType: 'video' });
+      expect(slots[2]).toMatchObject({ kind: 'media', label: 'Image 1', layerType: 'image' });
+    });
+
+    it('should label texts by their wording and leave captions out', () => {
+      const slots = getPlaceholderCandidates(makeProject());
+      const text = slots.find(slot => slot.layerType === 'text');
+      expect(text?.kind).toBe('text');
+      expect(text?.label).toHaveLength(24);
+      expect(text?.label.endsWith('…')).toBe(true);
+      expect(slots.some(slot => slot.layerId === 'caption-a')).toBe(false);
+    });
+  });
+
+  describe('createTemplateFromProject', () => {
+    it('should snapshot the project without captions or stale slots', () => {
+      const project = makeProject();
+      const [clipSlot] = getPlaceholderCandidates(project);
+      const stale = { ...clipSlot, id: 'slot-gone', layerId: 'gone' };
+
+      const template = createTemplateFromProject(project, { name: '  Recap ', description: ' ' }, [clipSlot, stale]);
+      expect(template.name).toBe('Recap');
+      expect(template.description).toBeUndefined();
+      expect(template.duration).toBe(project.settings.duration);
+      expect(template.textLayers?.map(layer => layer.id)).toEqual(['text-a']);
+      expect(template.placeholders).toEqual([clipSlot]);
+    });
+  });
+
+  describe('fitClipToSlot', () => {
+    it('should trim longer media to the slot', () => {
+      const fitted = fitClipToSlot(makeClip({ speed: 2 }), 30);
+      expect(fitted).toMatchObject({ duration: 10, sourceStart: 0, speed: 2 });
+    });
+
+    it('should slow shorter media down so it still fills the slot', () => {
+      const slot = makeClip();
+      const fitted = fitClipToSlot(slot, 5);
+      expect(fitted.duration).toBe(5);
+      expect(fitted.speed).toBeCloseTo(0.5);
+      expect(getTimelineDuration({ ...slot, ...fitted })).toBeCloseTo(getTimelineDuration(slot));
+    });
+
+    it('should keep the shape of a speed ramp', () => {
+      const slot = makeClip({ speedCurve: [{ position: 0, speed: 1 }, { position: 1, speed: 3 }] });
+      const fitted = fitClipToSlot(slot, 5);
+      expect(fitted.speedCurve?.map(point => point.speed)).toEqual([0.5, 1.5]);
+      expect(getTimelineDuration({ ...slot, ...fitted })).toBeCloseTo(getTimelineDuration(slot));
+    });
+
+    it('should not slow down past the minimum speed', () => {
+      const fitted = fitClipToSlot(makeClip(), 0.1);
+      expect(fitted.speed).toBe(0.1);
+    });
+
+    it('should keep the slot timing when the media length is unknown', () => {
+      expect(fitClipToSlot(makeClip(), 0)).toMatchObject({ duration: 10, sourceStart: 0 });
+    });
+  });
+
+  describe('fillTemplate', () => {
+    const project = makeProject();
+    const template: EditorTemplate = {
+      id: 'tpl',
+      ...createTemplateFromProject(project, { name: 'Recap' }, getPlaceholderCandidates(project)),
+    };
+
+    it('should swap in clips fitted to their slot, images and text', () => {
+      const filled = fillTemplate(template, {
+        'slot-clip-a': { kind: 'media', src: 'https://example.com/mine.mp4', fileName: 'mine.mp4', duration: 4 },
+        'slot-image-a': { kind: 'media', src: 'data:image/png;base64,BBBB', fileName: 'mine.png' },
+        'slot-text-a': { kind: 'text', content: 'My week' },
+      });
+
+      const clip = filled.videoLayers?.find(layer => layer.id === 'clip-a');
+      expect(clip).toMatchObject({ src: 'https://example.com/mine.mp4', fileName: 'mine.mp4', duration: 4, start: 0 });
+      expect(clip?.end).toBeCloseTo(10);
+      expect(filled.imageLayers?.[0].src).toBe('data:image/png;base64,BBBB');
+      expect(filled.textLayers?.[0].content).toBe('My week');
+    });
+
+    it('should keep the sample media for unfilled or mismatched slots', () => {
+      const filled = fillTemplate(template, {
+        'slot-text-a': { kind: 'media', src: 'x', fileName: 'x' },
+      });
+      expect(filled.videoLayers).toEqual(template.videoLayers);
+      expect(filled.textLayers?.[0].content).toBe(template.textLayers?.[0].content);
+    });
+  });
+
+  describe('searchTemplates', () => {
+    const templates = [
+      { name: 'Weekly recap', description: 'Fast cuts for a travel week' },
+      { name: 'Product Showcase', description: 'Clean layout' },
+    ];
+
+    it('should match every word against name and description', () => {
+      expect(searchTemplates(templates, 'travel RECAP')).toEqual([templates[0]]);
+      expect(searchTemplates(templates, 'travel clean')).toEqual([]);
+    });
+
+    it('should return everything for an empty query', () => {
+      expect(searchTemplates(templates, '  ')).toEqual(templates);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+// Thread unit tests - where threads can start, reply summaries, participants and live reply merging
+// Tests: group-only roots, no nesting, reply/unread labels, participant set, ordering and de-duplication
+
+import { describe, it, expect } from 'vitest';
+import {
+  canStartThread,
+  formatThreadSummary,
+  getThreadParticipantIds,
+  mergeThreadReply,
+} from '@/lib/threads';
+
+const message = (id: string, senderId: string, createdAt: string, overrides = {}) => ({
+  id,
+  sender_id: senderId,
+  created_at: createdAt,
+  ...overrides,
+});
+
+describe('Threads', () => {
+  const root = message('root', 'ana', '2026-06-09T10:00:00.000Z');
+
+  describe('canStartThread', () => {
+    it('should allow threads on regular group chat messages only', () => {
+      expect(canStartThread(root, 'group')).toBe(true);
+      expect(canStartThread(root, 'dm')).toBe(false);
+      expect(canStartThread(root)).toBe(false);
+    });
+
+    it('should not allow threads on system notices, unsent messages or thread replies', () => {
+      expect(canStartThread({ ...root, is_system: true }, 'group')).toBe(false);
+      expect(canStartThread({ ...root, unsent_at: '2026-06-09T10:05:00.000Z' }, 'group')).toBe(false);
+      expect(canStartThread({ ...root, thread_id: 'other-root' }, 'group')).toBe(false);
+    });
+  });
+
+  describe('formatThreadSummary', () => {
+    it('should pluralise replies and add the unread count', () => {
+      expect(formatThreadSummary(1)).toBe('1 reply');
+      expect(formatThreadSummary(4)).toBe('4 replies');
+      expect(formatThreadSummary(4, 2)).toBe('4 replies · 2 new');
+      expect(formatThreadSummary(4, 0)).toBe('4 replies');
+    });
+  });
+
+  describe('getThreadParticipantIds', () => {
+    it('should include the root sender and each replier once', () => {
+      const replies = [
+        message('r1', 'ben', '2026-06-09T10:01:00.000Z'),
+        message('r2', 'ana', '2026-06-09T10:02:00.000Z'),
+        message('r3', 'ben', '2026-06-09T10:03:00.000Z'),
+      ];
+      expect(getThreadParticipantIds(root, replies)).toEqual(['ana', 'ben']);
+      expect(getThreadParticipantIds(null, [])).toEqual([]);
+    });
+
+    it('should not count senders of unsent replies', () => {
+      const replies = [message('r1', 'cy', '2026-06-09T10:01:00.000Z', { is_system: true })];
+      expect(getThreadParticipantIds(root, replies)).toEqual(['ana']);
+    });
+  });
+
+  describe('mergeThreadReply', () => {
+    const first = { ...message('r1', 'ben', '2026-06-09T10:01:00.000Z'), content: 'hi' };
+    const second = { ...message('r2', 'ana', '2026-06-09T10:02:00.000Z'), content: 'hey' };
+
+    it('should keep replies oldest first', () => {
+      expect(mergeThreadReply([second], first).map(r => r.id)).toEqual(['r1', 'r2']);
+      expect(mergeThreadReply([first], second).map(r => r.id)).toEqual(['r1', 'r2']);
+    });
+
+    it('should update a reply already in the list instead of adding it twice', () => {
+      const merged = mergeThreadReply([first, second], { ...first, content: 'hi all' });
+      expect(merged).toHaveLength(2);
+      expect(merged[0].content).toBe('hi all');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+// Timeline edit unit tests - split at a time and ripple delete on the video track
+// Tests: split lookup and layout, ripple delete gap closing, overlay shifting, track end and trim end after relayout
+
+import { describe, it, expect } from 'vitest';
+import {
+  getClipEndAfterRelayout,
+  getVideoTrackEnd,
+  rippleDeleteVideoClip,
+  shiftLayersAfter,
+  splitVideoClipsAt,
+} from '@/lib/timelineEdits';
+import { ClipTransition, VideoLayer } from '@/types/editor';
+
+const makeClip = (id: string, start: number, duration: number, extra: Partial<VideoLayer> = {}): VideoLayer => ({
+  id,
+  type: 'video',
+  src: `https://example.com/${id}.mp4`,
+  fileName: `${id}.mp4`,
+  start,
+  end: start + duration,
+  duration,
+  volume: 1,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+  ...extra,
+});
+
+const crossfade: ClipTransition = { type: 'crossfade', duration: 1 };
+
+describe('Timeline edits', () => {
+  describe('splitVideoClipsAt', () => {
+    it('should split the clip under the time and keep the track order', () => {
+      const result = splitVideoClipsAt([makeClip('a', 0, 5), makeClip('b', 5, 5)], 7, 'c')!;
+      expect(result.map(c => [c.id, c.start, c.end])).toEqual([['a', 0, 5], ['b', 5, 7], ['c', 7, 10]]);
+      expect(result[2].sourceStart).toBe(2);
+    });
+
+    it('should return null when no clip is under the time', () => {
+      expect(splitVideoClipsAt([makeClip('a', 0, 5)], 6, 'c')).toBeNull();
+      expect(splitVideoClipsAt([], 1, 'c')).toBeNull();
+    });
+
+    it('should split a sped up clip on the timeline', () => {
+      const result = splitVideoClipsAt([makeClip('a', 0, 10, { speed: 2 })], 1, 'b')!;
+      expect(result.map(c => [c.start, c.end, c.sourceStart ?? 0])).toEqual([[0, 1, 0], [1, 5, 2]]);
+    });
+  });
+
+  describe('rippleDeleteVideoClip', () => {
+    it('should close the gap and report how far later layers move', () => {
+      const result = rippleDeleteVideoClip([makeClip('a', 0, 5), makeClip('b', 5, 3), makeClip('c', 8, 4)], 'b')!;
+      expect(result.clips.map(c => [c.id, c.start, c.end])).toEqual([['a', 0, 5], ['c', 5, 9]]);
+      expect(result).toMatchObject({ from: 8, shift: 3 });
+    });
+
+    it('should account for a transition into the removed clip', () => {
+      const result = rippleDeleteVideoClip([makeClip('a', 0, 5, { transition: crossfade }), makeClip('b', 4, 4)], 'b')!;
+      expect(result.shift).toBe(3);
+    });
+
+    it('should return null for an unknown clip', () => {
+      expect(rippleDeleteVideoClip([makeClip('a', 0, 5)], 'x')).toBeNull();
+    });
+  });
+
+  describe('shiftLayersAfter', () => {
+    it('should move only layers that start after the removed clip', () => {
+      const layers = [{ id: 't1', start: 1, end: 3 }, { id: 't2', start: 8, end: 10 }];
+      expect(shiftLayersAfter(layers, 8, 3)).toEqual([{ id: 't1', start: 1, end: 3 }, { id: 't2', start: 5, end: 7 }]);
+    });
+  });
+
+  describe('getVideoTrackEnd', () => {
+    it('should end at the last clip end, or 0 for an empty track', () => {
+      expect(getVideoTrackEnd([makeClip('a', 0, 5), makeClip('b', 4, 6)])).toBe(10);
+      expect(getVideoTrackEnd([])).toBe(0);
+    });
+  });
+
+  describe('getClipEndAfterRelayout', () => {
+    it('should follow the track when the end was not trimmed', () => {
+      expect(getClipEndAfterRelayout(10, 10, 6)).toBe(6);
+      expect(getClipEndAfterRelayout(10, 10, 14)).toBe(14);
+    });
+
+    it('should keep a trimmed end unless the track now ends before it', () => {
+      expect(getClipEndAfterRelayout(8, 10, 14)).toBe(8);
+      expect(getClipEndAfterRelayout(8, 10, 6)).toBe(6);
+    });
+  });
+});
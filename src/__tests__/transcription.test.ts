@@ -0,0 +1,234 @@
+// Transcription pipeline unit tests - transcribe-audio job model
+// Tests: status transitions, retries with backoff, word timing, language detection, Whisper mapping, backend selection
+
+import { describe, it, expect } from 'vitest';
+import {
+  JobStore,
+  Recognizer,
+  TranscriptionJob,
+  buildTranscript,
+  canTransition,
+  detectLanguage,
+  getRetryDelayMs,
+  permanentError,
+  runTranscriptionJob,
+} from '../../supabase/functions/transcribe-audio/pipeline';
+import {
+  LocalRecognizer,
+  MISSING_API_KEY_ERROR,
+  WhisperRecognizer,
+  createRecognizer,
+  mapWhisperResponse,
+} from '../../supabase/functions/transcribe-audio/recognizers';
+
+const makeJob = (overrides: Partial<TranscriptionJob> = {}): TranscriptionJob => ({
+  id: 'job-1',
+  owner_id: 'user-1',
+  audio_url: 'https://example.com/audio.mp3',
+  audio_track_id: 'audio-1',
+  requested_language: null,
+  status: 'queued',
+  attempts: 0,
+  max_attempts: 3,
+  backend: null,
+  language: null,
+  error: null,
+  result: null,
+  next_attempt_at: null,
+  started_at: null,
+  completed_at: null,
+  ...overrides,
+});
+
+// In-memory stand-in for the transcription_jobs table that records every status it passes through
+const createStore = (job: TranscriptionJob) => {
+  const rows = new Map([[job.id, job]]);
+  const history: string[] = [job.status];
+  const store: JobStore = {
+    async get(id) {
+      return rows.get(id) ?? null;
+    },
+    async update(id, patch) {
+      const next = { ...rows.get(id)!, ...patch };
+      rows.set(id, next);
+      if (patch.status) history.push(patch.status);
+      return next;
+    },
+  };
+  return { store, history };
+};
+
+const noSleep = async () => {};
+
+const failingRecognizer = (failures: Error[], fallback: Recognizer = new LocalRecognizer()): Recognizer => ({
+  name: 'flaky',
+  async transcribe(request) {
+    const next = failures.shift();
+    if (next) throw next;
+    return fallback.transcribe(request);
+  },
+});
+
+describe('Transcription pipeline', () => {
+  describe('status transitions', () => {
+    it('should allow the normal job lifecycle', () => {
+      expect(canTransition('queued', 'processing')).toBe(true);
+      expect(canTransition('processing', 'completed')).toBe(true);
+      expect(canTransition('processing', 'queued')).toBe(true);
+      expect(canTransition('failed', 'queued')).toBe(true);
+    });
+
+    it('should reject leaving a completed job or skipping processing', () => {
+      expect(canTransition('completed', 'queued')).toBe(false);
+      expect(canTransition('queued', 'completed')).toBe(false);
+    });
+  });
+
+  describe('runTranscriptionJob', () => {
+    it('should complete a job with word-timed segments', async () => {
+      const { store, history } = createStore(makeJob());
+      const job = await runTranscriptionJob(store, new LocalRecognizer(['Hello there friend.'], 0.5, 'en'), 'job-1', { sleep: noSleep });
+
+      expect(history).toEqual(['queued', 'processing', 'completed']);
+      expect(job.attempts).toBe(1);
+      expect(job.backend).toBe('local');
+      expect(job.result?.segments).toHaveLength(1);
+      expect(job.result?.segments[0]).toMatchObject({ start: 0, end: 1.5, confidence: 0.9 });
+      expect(job.result?.segments[0].words?.map(w => w.text)).toEqual(['Hello', 'there', 'friend.']);
+      expect(job.result?.language).toBe('en');
+    });
+
+    it('should retry transient failures with backoff', async () => {
+      const { store, history } = createStore(makeJob());
+      const delays: number[] = [];
+      const recognizer = failingRecognizer([new Error('timeout'), new Error('503')]);
+
+      const job = await runTranscriptionJob(store, recognizer, 'job-1', {
+        sleep: async (ms) => { delays.push(ms); },
+      });
+
+      expect(job.status).toBe('completed');
+      expect(job.attempts).toBe(3);
+      expect(delays).toEqual([2000, 4000]);
+      expect(history).toEqual(['queued', 'processing', 'queued', 'processing', 'queued', 'processing', 'completed']);
+    });
+
+    it('should fail after max attempts', async () => {
+      const { store } = createStore(makeJob({ max_attempts: 2 }));
+      const recognizer = failingRecognizer([new Error('down'), new Error('still down')]);
+
+      const job = await runTranscriptionJob(store, recognizer, 'job-1', { sleep: noSleep });
+
+      expect(job.status).toBe('failed');
+      expect(job.attempts).toBe(2);
+      expect(job.error).toBe('still down');
+    });
+
+    it('should not retry permanent errors', async () => {
+      const { store } = createStore(makeJob());
+      const recognizer = failingRecognizer([permanentError('Unsupported format')]);
+
+      const job = await runTranscriptionJob(store, recognizer, 'job-1', { sleep: noSleep });
+
+      expect(job.status).toBe('failed');
+      expect(job.attempts).toBe(1);
+    });
+  });
+
+  describe('buildTranscript', () => {
+    it('should derive segment confidence from words and drop empty segments', () => {
+      const transcript = buildTranscript({
+        segments: [
+          { text: '  ', start: 0, end: 1 },
+          {
+            text: ' Good morning ',
+            start: 1.2,
+            end: 2,
+            words: [
+              { text: ' Good', start: 1, end: 1.5, confidence: 0.8 },
+              { text: 'morning', start: 1.5, end: 2.3, confidence: 0.6 },
+            ],
+          },
+        ],
+      }, { jobId: 'job-1', audioTrackId: 'audio-1' });
+
+      expect(transcript.segments).toHaveLength(1);
+      expect(transcript.segments[0]).toMatchObject({
+        id: 'seg-1',
+        text: 'Good morning',
+        start: 1,
+        end: 2.3,
+        confidence: 0.7,
+      });
+      expect(transcript.segments[0].words?.[0].text).toBe('Good');
+    });
+
+    it('should fall back to stopword language detection', () => {
+      const transcript = buildTranscript({
+        segments: [{ text: 'Hola, esta es la prueba de que el sistema funciona para todos', start: 0, end: 3 }],
+      }, { jobId: 'job-1', audioTrackId: 'audio-1' });
+
+      expect(transcript.language).toBe('es');
+      expect(transcript.languageConfidence).toBeGreaterThan(0.4);
+    });
+  });
+
+  describe('detectLanguage', () => {
+    it('should detect English and return null without signal', () => {
+      expect(detectLanguage('This is the best thing that happened to me')?.language).toBe('en');
+      expect(detectLanguage('')).toBeNull();
+      expect(detectLanguage('xyzzy plugh')).toBeNull();
+    });
+  });
+
+  describe('retry backoff', () => {
+    it('should grow exponentially and cap at one minute', () => {
+      expect(getRetryDelayMs(1)).toBe(2000);
+      expect(getRetryDelayMs(3)).toBe(8000);
+      expect(getRetryDelayMs(10)).toBe(60000);
+    });
+  });
+
+  describe('mapWhisperResponse', () => {
+    it('should attach words to segments and normalize language', () => {
+      const result = mapWhisperResponse({
+        language: 'english',
+        segments: [
+          { text: 'Hi there.', start: 0, end: 1, avg_logprob: -0.1 },
+          { text: 'Bye.', start: 1, end: 2 },
+        ],
+        words: [
+          { word: 'Hi', start: 0, end: 0.4, probability: 0.99 },
+          { word: 'there.', start: 0.4, end: 1 },
+          { word: 'Bye.', start: 1.1, end: 1.6 },
+        ],
+      });
+
+      expect(result.language).toBe('en');
+      expect(result.segments[0].words).toHaveLength(2);
+      expect(result.segments[0].confidence).toBeCloseTo(0.905, 2);
+      expect(result.segments[1].words?.map(w => w.text)).toEqual(['Bye.']);
+    });
+  });
+
+  describe('createRecognizer', () => {
+    it('should use Whisper when an API key is configured', () => {
+      expect(createRecognizer({ openaiKey: 'sk-test', allowLocal: true })).toBeInstanceOf(WhisperRecognizer);
+    });
+
+    it('should only use the local recognizer when it is switched on', () => {
+      expect(createRecognizer({ allowLocal: true })).toBeInstanceOf(LocalRecognizer);
+    });
+
+    it('should fail jobs without retrying when no API key is configured', async () => {
+      const { store, history } = createStore(makeJob());
+      const job = await runTranscriptionJob(store, createRecognizer({}), 'job-1', { sleep: noSleep });
+
+      expect(job.status).toBe('failed');
+      expect(job.attempts).toBe(1);
+      expect(job.error).toBe(MISSING_API_KEY_ERROR);
+      expect(job.result).toBeNull();
+      expect(history).toEqual(['queued', 'processing', 'failed']);
+    });
+  });
+});
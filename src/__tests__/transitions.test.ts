@@ -0,0 +1,125 @@
+// Transition unit tests - clip overlap layout and per-frame transition state
+// Tests: duration clamping, layout with overlaps, active transition lookup, frame evaluation
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTransitionAt,
+  getTransitionDuration,
+  getTransitionFrame,
+  getTransitionLayerCss,
+  layoutVideoClips,
+  MAX_TRANSITION_DURATION,
+  sortAndLayoutVideoClips,
+} from '@/lib/transitions';
+import { ClipTransition, VideoLayer } from '@/types/editor';
+
+const makeClip = (id: string, duration: number, transition?: ClipTransition, start = 0): VideoLayer => ({
+  id,
+  type: 'video',
+  src: `https://example.com/${id}.mp4`,
+  fileName: `${id}.mp4`,
+  start,
+  end: start + duration,
+  duration,
+  volume: 1,
+  position: { x: 50, y: 50 },
+  scale: 1,
+  rotation: 0,
+  transition,
+});
+
+describe('Transitions', () => {
+  describe('getTransitionDuration', () => {
+    it('should be 0 without a transition or a following clip', () => {
+      expect(getTransitionDuration(makeClip('a', 5), makeClip('b', 5))).toBe(0);
+      expect(getTransitionDuration(makeClip('a', 5, { type: 'crossfade', duration: 1 }), undefined)).toBe(0);
+    });
+
+    it('should limit a transition to half of the shorter clip', () => {
+      const outgoing = makeClip('a', 5, { type: 'crossfade', duration: 1.5 });
+      expect(getTransitionDuration(outgoing, makeClip('b', 2))).toBe(1);
+    });
+
+    it('should cap long transitions', () => {
+      const outgoing = makeClip('a', 20, { type: 'wipe', duration: 10 });
+      expect(getTransitionDuration(outgoing, makeClip('b', 20))).toBe(MAX_TRANSITION_DURATION);
+    });
+  });
+
+  describe('layoutVideoClips', () => {
+    it('should place clips back to back without transitions', () => {
+      const result = layoutVideoClips([makeClip('a', 5), makeClip('b', 7), makeClip('c', 3)]);
+      expect(result.map(c => [c.start, c.end])).toEqual([[0, 5], [5, 12], [12, 15]]);
+    });
+
+    it('should overlap clips by the transition duration', () => {
+      const result = layoutVideoClips([
+        makeClip('a', 5, { type: 'crossfade', duration: 1 }),
+        makeClip('b', 4),
+      ]);
+      expect(result.map(c => [c.start, c.end])).toEqual([[0, 5], [4, 8]]);
+    });
+
+    it('should ignore a transition on the last clip', () => {
+      const result = layoutVideoClips([makeClip('a', 5), makeClip('b', 4, { type: 'zoom', duration: 1 })]);
+      expect(result[1].end).toBe(9);
+    });
+
+    it('should sort by start when asked to follow timeline order', () => {
+      const result = sortAndLayoutVideoClips([makeClip('b', 4, undefined, 10), makeClip('a', 5)]);
+      expect(result.map(c => c.id)).toEqual(['a', 'b']);
+      expect(result[1].start).toBe(5);
+    });
+  });
+
+  describe('getTransitionAt', () => {
+    const clips = layoutVideoClips([
+      makeClip('a', 5, { type: 'slide', duration: 1 }),
+      makeClip('b', 4),
+    ]);
+
+    it('should report progress through the overlap', () => {
+      expect(getTransitionAt(clips, 4.5)).toEqual({ type: 'slide', fromIndex: 0, toIndex: 1, progress: 0.5 });
+    });
+
+    it('should return null outside the overlap', () => {
+      expect(getTransitionAt(clips, 3)).toBeNull();
+      expect(getTransitionAt(clips, 5)).toBeNull();
+    });
+  });
+
+  describe('getTransitionFrame', () => {
+    it('should start fully on the outgoing clip and end on the incoming one', () => {
+      expect(getTransitionFrame('crossfade', 0).incoming.opacity).toBe(0);
+      expect(getTransitionFrame('crossfade', 1).incoming.opacity).toBe(1);
+      expect(getTransitionFrame('wipe', 0).incoming.clipRight).toBe(1);
+      expect(getTransitionFrame('wipe', 1).incoming.clipRight).toBe(0);
+    });
+
+    it('should be fully black in the middle of a dip to black', () => {
+      const frame = getTransitionFrame('dip-to-black', 0.5);
+      expect(frame.outgoing.opacity).toBe(0);
+      expect(frame.incoming.opacity).toBe(0);
+    });
+
+    it('should push the outgoing clip off as the incoming one slides in', () => {
+      const frame = getTransitionFrame('slide', 0.5);
+      expect(frame.outgoing.offsetX).toBeCloseTo(-0.5);
+      expect(frame.incoming.offsetX).toBeCloseTo(0.5);
+    });
+
+    it('should clamp progress outside 0-1', () => {
+      expect(getTransitionFrame('zoom', 2).incoming.opacity).toBe(1);
+    });
+  });
+
+  describe('getTransitionLayerCss', () => {
+    it('should build CSS for a layer state', () => {
+      expect(getTransitionLayerCss({ opacity: 0.5, offsetX: 0.25, scale: 1.1, clipLeft: 0, clipRight: 0.4 })).toEqual({
+        opacity: 0.5,
+        transform: 'translateX(25%) scale(1.1)',
+        clipPath: 'inset(0 40% 0 0%)',
+      });
+    });
+  });
+});
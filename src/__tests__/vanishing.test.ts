@@ -0,0 +1,102 @@
+// Vanishing message unit tests - duration labels, expiry checks and countdowns
+// Tests: duration wording, unstarted clocks, filtering expired messages, next expiry, time-left labels, purge trigger secret
+
+import { describe, it, expect } from 'vitest';
+import {
+  VANISHING_DURATIONS,
+  filterExpiredMessages,
+  formatTimeLeft,
+  formatVanishingDuration,
+  getNextExpiry,
+  isMessageExpired,
+  isVanishingMessage,
+} from '@/lib/vanishing';
+import { isCronRequest } from '../../supabase/functions/_shared/cron';
+
+const NOW = Date.parse('2026-05-12T12:00:00Z');
+const at = (offsetSeconds: number) => new Date(NOW + offsetSeconds * 1000).toISOString();
+
+describe('Vanishing messages', () => {
+  describe('formatVanishingDuration', () => {
+    it('should match the labels of the offered durations', () => {
+      for (const { seconds, label } of VANISHING_DURATIONS) {
+        expect(formatVanishingDuration(seconds)).toBe(label);
+      }
+    });
+
+    it('should fall back to minutes for uneven durations', () => {
+      expect(formatVanishingDuration(60)).toBe('1 minute');
+      expect(formatVanishingDuration(90)).toBe('1 minute');
+      expect(formatVanishingDuration(5400)).toBe('90 minutes');
+      expect(formatVanishingDuration(86400 * 2)).toBe('2 days');
+    });
+  });
+
+  describe('expiry', () => {
+    it('should treat a vanishing message as live until it has been seen', () => {
+      const unseen = { expires_in: 300, expires_at: null };
+      expect(isVanishingMessage(unseen)).toBe(true);
+      expect(isMessageExpired(unseen, NOW)).toBe(false);
+      expect(isVanishingMessage({ expires_in: null })).toBe(false);
+    });
+
+    it('should expire a message once expires_at has passed', () => {
+      expect(isMessageExpired({ expires_in: 300, expires_at: at(-1) }, NOW)).toBe(true);
+      expect(isMessageExpired({ expires_in: 300, expires_at: at(0) }, NOW)).toBe(true);
+      expect(isMessageExpired({ expires_in: 300, expires_at: at(1) }, NOW)).toBe(false);
+    });
+
+    it('should drop expired messages and keep the same array when none expired', () => {
+      const messages = [
+        { id: 'a', expires_in: null, expires_at: null },
+        { id: 'b', expires_in: 300, expires_at: at(-10) },
+        { id: 'c', expires_in: 300, expires_at: at(10) },
+      ];
+      expect(filterExpiredMessages(messages, NOW).map(m => m.id)).toEqual(['a', 'c']);
+
+      const live = [messages[0], messages[2]];
+      expect(filterExpiredMessages(live, NOW)).toBe(live);
+    });
+
+    it('should find the soonest upcoming expiry', () => {
+      const messages = [
+        { expires_at: at(-10) },
+        { expires_at: at(600) },
+        { expires_at: null },
+        { expires_at: at(120) },
+      ];
+      expect(getNextExpiry(messages, NOW)).toBe(NOW + 120_000);
+      expect(getNextExpiry([{ expires_at: null }], NOW)).toBeNull();
+    });
+  });
+
+  describe('formatTimeLeft', () => {
+    it('should show the largest whole unit left', () => {
+      expect(formatTimeLeft(at(45), NOW)).toBe('45s');
+      expect(formatTimeLeft(at(299), NOW)).toBe('4m');
+      expect(formatTimeLeft(at(86399), NOW)).toBe('23h');
+      expect(formatTimeLeft(at(604799), NOW)).toBe('6d');
+      expect(formatTimeLeft(at(-30), NOW)).toBe('0s');
+    });
+  });
+
+  describe('isCronRequest', () => {
+    const request = (secret?: string) =>
+      new Request('https://example.supabase.co/functions/v1/purge-vanished-messages', {
+        method: 'POST',
+        headers: secret ? { 'x-cron-secret': secret } : {},
+      });
+
+    it('should accept only the configured secret', () => {
+      expect(isCronRequest(request('s3cret-value'), 's3cret-value')).toBe(true);
+      expect(isCronRequest(request('s3cret-valuf'), 's3cret-value')).toBe(false);
+      expect(isCronRequest(request('s3cret'), 's3cret-value')).toBe(false);
+      expect(isCronRequest(request(), 's3cret-value')).toBe(false);
+    });
+
+    it('should refuse every request when no secret is configured', () => {
+      expect(isCronRequest(request(''), undefined)).toBe(false);
+      expect(isCronRequest(request('anything'), '')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+// Waveform unit tests - peak arrays for the audio timeline
+// Tests: peak computation, multi-resolution levels, zoom level picking, slicing, analysis cache
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildPeakLevels,
+  computePeaks,
+  getAudioAnalysis,
+  getPeakLevels,
+  pickPeakLevel,
+  slicePeaks,
+} from '@/lib/waveform';
+import { AudioAnalysis } from '@/types/editor';
+
+const makeAnalysis = (overrides: Partial<AudioAnalysis> = {}): AudioAnalysis => ({
+  duration: 2,
+  peakRate: 4,
+  peaks: [0.1, 0.5, 1, 0.2, 0.3, 0.3, 0.8, 0],
+  beats: [0.5, 1, 1.5],
+  bpm: 120,
+  ...overrides,
+});
+
+describe('Waveform', () => {
+  describe('computePeaks', () => {
+    it('should take the absolute peak per bucket and normalize to the loudest', () => {
+      const samples = new Float32Array([0.1, -0.2, 0.4, -0.1, 0, 0.05, -0.3, 0.2]);
+      expect(computePeaks(samples, 8, 4)).toEqual([0.5, 1, 0.13, 0.75]);
+    });
+
+    it('should return zeros for silence', () => {
+      expect(computePeaks(new Float32Array(6), 6, 3)).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('buildPeakLevels', () => {
+    it('should halve the rate and keep the louder peak of each pair', () => {
+      const levels = buildPeakLevels([0.1, 0.5, 1, 0.2, 0.3], 8);
+      expect(levels.map(level => level.rate)).toEqual([8, 4, 2, 1]);
+      expect(levels[1].peaks).toEqual([0.5, 1, 0.3]);
+      expect(levels[2].peaks).toEqual([1, 0.3]);
+      expect(levels[3].peaks).toEqual([1]);
+    });
+
+    it('should build the levels for an analysis once', () => {
+      const analysis = makeAnalysis();
+      expect(getPeakLevels(analysis)).toBe(getPeakLevels(analysis));
+    });
+  });
+
+  describe('pickPeakLevel', () => {
+    it('should pick the coarsest level that still fills the zoom', () => {
+      const levels = buildPeakLevels(new Array(400).fill(0.5), 50);
+      expect(pickPeakLevel(levels, 200)?.rate).toBe(50);
+      expect(pickPeakLevel(levels, 50)?.rate).toBe(12.5);
+      expect(pickPeakLevel(levels, 10)?.rate).toBe(3.125);
+      // Zoomed in past the base rate stays on the finest level
+      expect(pickPeakLevel(levels, 1000)?.rate).toBe(50);
+      expect(pickPeakLevel([], 50)).toBeNull();
+    });
+  });
+
+  describe('slicePeaks', () => {
+    it('should return the peaks covering a source range', () => {
+      const level = { rate: 4, peaks: [0, 1, 2, 3, 4, 5, 6, 7] };
+      expect(slicePeaks(level, 0.5, 1.5)).toEqual([2, 3, 4, 5]);
+      expect(slicePeaks(level, 1.5, 10)).toEqual([6, 7]);
+      expect(slicePeaks(level, 3, 4)).toEqual([]);
+    });
+  });
+
+  describe('getAudioAnalysis', () => {
+    it('should load a stored analysis once per URL', async () => {
+      const stored = makeAnalysis();
+      const load = vi.fn().mockResolvedValue(stored);
+      const save = vi.fn();
+
+      const [first, second] = await Promise.all([
+        getAudioAnalysis('https://example.com/stored.mp3', load, save),
+        getAudioAnalysis('https://example.com/stored.mp3', load, save),
+      ]);
+
+      expect(first).toBe(stored);
+      expect(second).toBe(stored);
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -17,7 +17,8 @@ import {
   Heart,
   Bookmark,
   AtSign,
-  Hash
+  Hash,
+  Clapperboard
 } from 'lucide-react';
 
 const Layout = () => {
@@ -46,6 +47,7 @@ const Layout = () => {
     { name: 'Mentions', href: '/mentions', icon: AtSign },
     { name: 'Following Hashtags', href: '/hashtags/following', icon: Hash },
     { name: 'Saved', href: '/saved', icon: Bookmark },
+    { name: 'Projects', href: '/editor/projects', icon: Clapperboard },
     { name: 'Groups', href: '/groups', icon: Users },
     { name: 'Pages', href: '/pages', icon: FileText },
     { name: 'Settings', href: '/settings', icon: Settings },
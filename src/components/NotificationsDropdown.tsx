@@ -26,6 +26,10 @@ export const NotificationsDropdown = () => {
       navigate(`/post/${notification.post_id}`);
     } else if (notification.type === 'follow' && notification.actor) {
       navigate(`/profile/${notification.actor.username}`);
+    } else if (notification.type === 'data_export') {
+      navigate('/settings?section=permissions');
+    } else if (notification.type === 'thread_reply' && notification.conversation_id) {
+      navigate(`/messages/${notification.conversation_id}?thread=${notification.message_id}`);
     }
   };
 
@@ -43,6 +47,10 @@ export const NotificationsDropdown = () => {
         return '🏷️';
       case 'share':
         return '🔄';
+      case 'data_export':
+        return '📦';
+      case 'thread_reply':
+        return '🧵';
       default:
         return '🔔';
     }
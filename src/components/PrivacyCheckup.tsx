@@ -10,6 +10,7 @@ import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
+import { usePresence } from '@/hooks/usePresence';
 import { Shield, Users, Tag, UserX, UserPlus, Trash2 } from 'lucide-react';
 
 interface ProfileData {
@@ -38,6 +39,7 @@ type PrivacySection = 'profile' | 'audience' | 'tagging' | 'blocking' | 'friends
 const PrivacyCheckup = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { showActivityStatus, setShowActivityStatus } = usePresence();
   const [activeSection, setActiveSection] = useState<PrivacySection>('profile');
   const [profileData, setProfileData] = useState<ProfileData>({
     email: '',
@@ -306,6 +308,16 @@ const PrivacyCheckup = () => {
               </SelectContent>
             </Select>
           </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-sm font-medium">Show activity status</Label>
+              <p className="text-sm text-muted-foreground">People you chat with can see when you're online or were last active. Turning this off also hides theirs from you</p>
+            </div>
+            <Switch
+              checked={showActivityStatus}
+              onCheckedChange={setShowActivityStatus}
+            />
+          </div>
         </div>
       </div>
     </div>
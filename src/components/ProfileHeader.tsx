@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
@@ -19,6 +20,8 @@ import { ReportProfileDialog } from './ReportProfileDialog';
 import { useProfileReports } from '@/hooks/useProfileReports';
 import BlockButton from './BlockButton';
 import { MessageButton } from './MessageButton';
+import LiveBadge from './live/LiveBadge';
+import { useActiveLives } from '@/hooks/useActiveLives';
 
 interface Profile {
   id: string;
@@ -50,6 +53,8 @@ const ProfileHeader = ({
   const { followStatus, follow, unfollow } = useFollow(profile.id, user?.id);
   const { blockStatus, blockUser, unblockUser } = useBlocks(profile.id, user?.id);
   const { hasReported, refreshReportStatus } = useProfileReports(isOwnProfile ? undefined : profile.id);
+  const { lives } = useActiveLives(profile.id);
+  const currentLive = lives[0];
 
   // Filter other names that should show at top
   const topOtherNames = otherNames.filter(name => name.show_at_top);
@@ -210,12 +215,17 @@ const ProfileHeader = ({
         <div className="flex flex-col md:flex-row md:items-end md:justify-between -mt-16 md:-mt-20">
           {/* Avatar */}
           <div className="relative mb-4 md:mb-0">
-            <Avatar className="h-32 w-32 border-4 border-background shadow-lg">
+            <Avatar className={`h-32 w-32 border-4 shadow-lg ${currentLive ? 'border-red-600' : 'border-background'}`}>
               <AvatarImage src={profile.profile_pic || ''} />
               <AvatarFallback className="text-4xl bg-muted">
                 {profile.display_name.charAt(0).toUpperCase()}
               </AvatarFallback>
             </Avatar>
+            {currentLive && (
+              <RouterLink to={`/live/${currentLive.id}`} className="absolute -bottom-2 left-1/2 -translate-x-1/2">
+                <LiveBadge />
+              </RouterLink>
+            )}
             {isOwnProfile && (
               <div className="absolute bottom-0 right-0">
                 <PhotoUploadDialog
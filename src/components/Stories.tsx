@@ -1,19 +1,24 @@
 import { useState, useEffect } from 'react';
-import { Plus } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, Radio } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card } from '@/components/ui/card';
 import { useAuth } from '@/hooks/useAuth';
 import { motion } from 'framer-motion';
 import { useStories } from '@/hooks/useStories';
+import { useActiveLives } from '@/hooks/useActiveLives';
 import CreateStoryDialog from './CreateStoryDialog';
 import StoryViewer from './StoryViewer';
+import LiveBadge from './live/LiveBadge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/integrations/supabase/client';
 
 const Stories = () => {
   const { user } = useAuth();
   const [currentUserProfile, setCurrentUserProfile] = useState<{ profile_pic: string | null } | null>(null);
+  const navigate = useNavigate();
   const { stories, loading, markAsViewed, deleteStory } = useStories();
+  const { lives } = useActiveLives();
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [viewerOpen, setViewerOpen] = useState(false);
   const [selectedUserStories, setSelectedUserStories] = useState<any>(null);
@@ -89,6 +94,68 @@ const Stories = () => {
             </motion.div>
           )}
 
+          {/* Go Live Card */}
+          {user && (
+            <motion.div
+              whileHover={{ scale: 1.02, y: -2 }}
+              transition={{ duration: 0.2 }}
+              className="flex-shrink-0"
+            >
+              <Card
+                onClick={() => navigate('/live/new')}
+                className="relative w-[110px] h-[190px] cursor-pointer overflow-hidden border-border/50 hover:shadow-lg transition-shadow"
+              >
+                <div className="absolute inset-0 bg-gradient-to-b from-red-500/20 to-background/90" />
+                <div className="absolute bottom-0 left-0 right-0 p-2 text-center">
+                  <div className="w-10 h-10 mx-auto mb-2 rounded-full bg-red-600 flex items-center justify-center">
+                    <Radio className="w-5 h-5 text-white" />
+                  </div>
+                  <p className="text-xs font-semibold text-foreground">Go Live</p>
+                </div>
+              </Card>
+            </motion.div>
+          )}
+
+          {/* Live Cards */}
+          {lives.filter(live => live.user_id !== user?.id).map((live) => (
+            <motion.div
+              key={live.id}
+              whileHover={{ scale: 1.02, y: -2 }}
+              transition={{ duration: 0.2 }}
+              className="flex-shrink-0"
+            >
+              <Card
+                onClick={() => navigate(`/live/${live.id}`)}
+                className="relative w-[110px] h-[190px] cursor-pointer overflow-hidden border-red-600 hover:shadow-lg transition-shadow"
+              >
+                <div
+                  className="absolute inset-0 bg-cover bg-center blur-sm scale-110"
+                  style={{ backgroundImage: `url(${live.broadcaster?.profile_pic || '/default-avatar.png'})` }}
+                />
+                <div className="absolute inset-0 bg-gradient-to-b from-black/20 via-transparent to-black/60" />
+
+                <div className="absolute top-2 left-2">
+                  <Avatar className="h-12 w-12 border-2 border-red-600 ring-2 ring-background">
+                    <AvatarImage
+                      src={live.broadcaster?.profile_pic || '/default-avatar.png'}
+                      className="object-cover"
+                    />
+                    <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                      {live.broadcaster?.display_name?.[0]?.toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                </div>
+                <LiveBadge size="sm" className="absolute top-2 right-2" />
+
+                <div className="absolute bottom-0 left-0 right-0 p-2">
+                  <p className="text-xs font-semibold text-white drop-shadow-lg line-clamp-2">
+                    {live.broadcaster?.display_name}
+                  </p>
+                </div>
+              </Card>
+            </motion.div>
+          ))}
+
           {/* Story Cards */}
           {stories.map((userStories) => (
             <motion.div
@@ -20,6 +20,7 @@ import { useStoryQuestions } from '@/hooks/useStoryQuestions';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { EncryptionUnavailableError, encryptMessageContent } from '@/lib/messageEncryption';
 
 interface StoryViewerProps {
   stories: Story[];
@@ -232,13 +233,14 @@ const StoryViewer = ({
 
       if (convError) throw convError;
 
-      // Send message with story reference
+      // Send message with story reference - encrypted like any other direct message
+      const textFields = await encryptMessageContent(conversationData, user.id, `📸 Replied to your story: ${replyText}`);
       const { error: messageError } = await supabase
         .from('messages')
         .insert({
           conversation_id: conversationData,
           sender_id: user.id,
-          content: `📸 Replied to your story: ${replyText}`
+          ...textFields
         });
 
       if (messageError) throw messageError;
@@ -254,7 +256,7 @@ const StoryViewer = ({
       console.error('Error sending reply:', error);
       toast({
         title: 'Error',
-        description: 'Failed to send reply',
+        description: error instanceof EncryptionUnavailableError ? error.message : 'Failed to send reply',
         variant: 'destructive'
       });
     }
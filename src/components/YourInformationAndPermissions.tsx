@@ -1,8 +1,13 @@
 import React, { useState } from 'react';
-import { ChevronRight, ArrowLeft, Instagram, Facebook } from 'lucide-react';
+import { ChevronRight, ArrowLeft, Instagram, Facebook, Download, Trash2, Loader2 } from 'lucide-react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { formatDistanceToNow } from 'date-fns';
 import YourActivity from './YourActivity';
+import DataExportOptionsDialog from './settings/DataExportOptionsDialog';
 import { useProfile } from '@/hooks/useProfile';
+import { useAuth } from '@/hooks/useAuth';
+import { useDataExport, DATA_EXPORT_CATEGORIES, DataExportJob } from '@/hooks/useDataExport';
 
 type SubView = null | 'download' | 'view-data' | 'search-history' | 'activity-outside' | 'app-connections' | 'manage-contacts' | 'identity-verification';
 
@@ -10,7 +15,11 @@ const YourInformationAndPermissions: React.FC = () => {
   const [subView, setSubView] = useState<SubView>(null);
   const [showChooseProfile, setShowChooseProfile] = useState(false);
   const [showExportDestination, setShowExportDestination] = useState(false);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+  const [exportTab, setExportTab] = useState<'present' | 'previous'>('present');
   const { profile } = useProfile();
+  const { user } = useAuth();
+  const dataExport = useDataExport(user?.id);
 
   const topItems = [
     { id: 'download' as SubView, label: 'Download your data' },
@@ -39,6 +48,83 @@ const YourInformationAndPermissions: React.FC = () => {
     </button>
   );
 
+  const formatFileSize = (bytes: number | null) => {
+    if (!bytes) return '';
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const describeExport = (job: DataExportJob) => {
+    const labels = DATA_EXPORT_CATEGORIES.filter(c => job.categories.includes(c.id)).map(c => c.label);
+    const scope = labels.length === DATA_EXPORT_CATEGORIES.length ? 'All information' : labels.join(', ');
+    const range = job.date_from || job.date_to
+      ? ` · ${job.date_from ? new Date(job.date_from).toLocaleDateString() : '…'} – ${job.date_to ? new Date(job.date_to).toLocaleDateString() : 'today'}`
+      : '';
+    return `${scope}${range}`;
+  };
+
+  const renderExportActivity = () => {
+    if (exportTab === 'present') {
+      const job = dataExport.activeJob;
+      if (!job) {
+        return <p className="text-sm text-muted-foreground text-center py-4">No export in progress.</p>;
+      }
+      return (
+        <div className="border border-border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm font-medium text-foreground truncate">{describeExport(job)}</p>
+            <span className="text-xs text-muted-foreground shrink-0">{job.progress}%</span>
+          </div>
+          <Progress value={job.progress} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            {job.current_step || 'Waiting to start'} · We'll notify you when it's ready.
+          </p>
+        </div>
+      );
+    }
+
+    if (dataExport.previousJobs.length === 0) {
+      return <p className="text-sm text-muted-foreground text-center py-4">You haven't exported your information yet.</p>;
+    }
+    return (
+      <div className="border border-border rounded-lg divide-y divide-border overflow-hidden">
+        {dataExport.previousJobs.map(job => {
+          const expired = !!job.expires_at && new Date(job.expires_at) < new Date();
+          return (
+            <div key={job.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm text-foreground truncate">{describeExport(job)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                  {job.status === 'failed' && ' · Failed'}
+                  {job.status === 'completed' && (expired ? ' · Expired' : ` · ${formatFileSize(job.file_size)}`)}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {job.status === 'completed' && !expired && (
+                  <button
+                    onClick={() => dataExport.download(job)}
+                    className="p-2 rounded-full hover:bg-accent/50 transition-colors"
+                    aria-label="Download export"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => dataExport.remove(job)}
+                  className="p-2 rounded-full hover:bg-accent/50 transition-colors text-muted-foreground"
+                  aria-label="Delete export"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   const renderSubViewContent = () => {
     switch (subView) {
       case 'download':
@@ -49,16 +135,32 @@ const YourInformationAndPermissions: React.FC = () => {
             </p>
             <button
               onClick={() => setShowChooseProfile(true)}
-              className="w-full py-3 rounded-lg bg-primary text-primary-foreground font-semibold text-sm hover:bg-primary/90 transition-colors"
+              disabled={!!dataExport.activeJob}
+              className="w-full py-3 rounded-lg bg-primary text-primary-foreground font-semibold text-sm hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
             >
-              Generate export
+              {dataExport.activeJob && <Loader2 className="w-4 h-4 animate-spin" />}
+              {dataExport.activeJob ? 'Export in progress' : 'Generate export'}
             </button>
             <div className="border-b border-border">
               <div className="flex">
-                <button className="flex-1 pb-2 text-sm font-semibold border-b-2 border-primary text-foreground">Present engagement</button>
-                <button className="flex-1 pb-2 text-sm text-muted-foreground hover:text-foreground transition-colors">Previous engagement</button>
+                {(['present', 'previous'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setExportTab(tab)}
+                    className={exportTab === tab
+                      ? 'flex-1 pb-2 text-sm font-semibold border-b-2 border-primary text-foreground'
+                      : 'flex-1 pb-2 text-sm text-muted-foreground hover:text-foreground transition-colors'}
+                  >
+                    {tab === 'present' ? 'Present engagement' : 'Previous engagement'}
+                  </button>
+                ))}
               </div>
             </div>
+            {dataExport.loading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : renderExportActivity()}
             <p className="text-xs text-muted-foreground">
               Your export won't encompass details that another individual contributed, such as someone else's photos where you're identified. <span className="text-primary cursor-pointer hover:underline">Discover more</span>
             </p>
@@ -337,7 +439,13 @@ const YourInformationAndPermissions: React.FC = () => {
               </p>
             </div>
             <div className="border border-border rounded-lg divide-y divide-border overflow-hidden">
-              <button className="w-full flex items-center justify-between px-4 py-3.5 hover:bg-accent/50 transition-colors">
+              <button
+                onClick={() => {
+                  setShowExportDestination(false);
+                  setShowExportOptions(true);
+                }}
+                className="w-full flex items-center justify-between px-4 py-3.5 hover:bg-accent/50 transition-colors"
+              >
                 <span className="text-sm text-foreground">Save to device</span>
                 <ChevronRight className="w-4 h-4 text-muted-foreground" />
               </button>
@@ -349,6 +457,24 @@ const YourInformationAndPermissions: React.FC = () => {
           </div>
         </DialogContent>
       </Dialog>
+      {/* Export options dialog */}
+      <DataExportOptionsDialog
+        open={showExportOptions}
+        onOpenChange={setShowExportOptions}
+        onBack={() => {
+          setShowExportOptions(false);
+          setShowExportDestination(true);
+        }}
+        submitting={dataExport.starting}
+        onSubmit={async (request) => {
+          const started = await dataExport.start(request);
+          if (started) {
+            setExportTab('present');
+            setSubView('download');
+          }
+          return started;
+        }}
+      />
     </div>
   );
 };
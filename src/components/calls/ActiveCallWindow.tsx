@@ -11,70 +11,25 @@ import {
   Minimize2,
   Phone,
   Loader2,
+  ScreenShare,
+  ScreenShareOff,
+  Circle,
+  Square,
 } from 'lucide-react';
-import { useCall } from '@/contexts/CallContext';
+import { useCall, GroupCallParticipant } from '@/contexts/CallContext';
 import { useCallAudio } from '@/hooks/useCallAudio';
+import { ConnectionQualityIndicator } from './ConnectionQualityIndicator';
+import { GroupCallGrid, GroupCallAudio, RemoteAudio } from './GroupCallGrid';
+import { AddCallParticipants } from './AddCallParticipants';
+import { CallDeviceSettings } from './CallDeviceSettings';
+import { applyAudioOutput } from '@/hooks/useMediaDevices';
 import { cn } from '@/lib/utils';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
-const ConnectionQualityIndicator: React.FC<{ 
-  level: 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
-  roundTripTime?: number;
-  packetLoss?: number;
-}> = ({ level, roundTripTime, packetLoss }) => {
-  const getColor = () => {
-    switch (level) {
-      case 'excellent': return 'text-green-500';
-      case 'good': return 'text-green-400';
-      case 'fair': return 'text-yellow-500';
-      case 'poor': return 'text-red-500';
-      default: return 'text-muted-foreground';
-    }
-  };
-
-  const getBars = () => {
-    switch (level) {
-      case 'excellent': return 4;
-      case 'good': return 3;
-      case 'fair': return 2;
-      case 'poor': return 1;
-      default: return 0;
-    }
-  };
-
-  const bars = getBars();
-
-  return (
-    <TooltipProvider>
-      <Tooltip>
-        <TooltipTrigger asChild>
-          <div className={cn("flex items-end gap-0.5 h-4", getColor())}>
-            {[1, 2, 3, 4].map((i) => (
-              <div
-                key={i}
-                className={cn(
-                  "w-1 rounded-sm transition-all",
-                  i <= bars ? "bg-current" : "bg-current/20"
-                )}
-                style={{ height: `${i * 25}%` }}
-              />
-            ))}
-          </div>
-        </TooltipTrigger>
-        <TooltipContent side="bottom" className="text-xs">
-          <div className="space-y-1">
-            <p className="font-medium capitalize">{level} connection</p>
-            {roundTripTime !== undefined && (
-              <p>Latency: {roundTripTime}ms</p>
-            )}
-            {packetLoss !== undefined && packetLoss > 0 && (
-              <p>Packet loss: {packetLoss}%</p>
-            )}
-          </div>
-        </TooltipContent>
-      </Tooltip>
-    </TooltipProvider>
-  );
+const getGroupCallTitle = (participants: GroupCallParticipant[]) => {
+  const names = participants.map(p => p.displayName || p.username).filter(Boolean);
+  if (names.length === 0) return 'Group call';
+  if (names.length <= 2) return names.join(' and ');
+  return `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`;
 };
 
 export const ActiveCallWindow: React.FC = () => {
@@ -90,10 +45,21 @@ export const ActiveCallWindow: React.FC = () => {
     isOutgoing,
     callDuration,
     connectionQuality,
+    isGroupCall,
+    participants,
+    activeSpeakerId,
+    isScreenSharing,
+    remoteScreenSharing,
+    audioOutputDeviceId,
+    recordingStatus,
     endCall,
     toggleMute,
     toggleVideo,
     toggleMinimize,
+    toggleScreenShare,
+    requestRecording,
+    respondToRecording,
+    stopRecording,
   } = useCall();
 
   const localVideoRef = useRef<HTMLVideoElement>(null);
@@ -103,19 +69,24 @@ export const ActiveCallWindow: React.FC = () => {
   // Handle audio for outgoing calls (ringback tone)
   useCallAudio({ status, isOutgoing });
 
+  // Voice calls only get video elements while someone presents
+  const showLocalVideo = !!localStream && ((callType === 'video' && !isVideoOff) || isScreenSharing);
+  const showRemoteVideo = (callType === 'video' || remoteScreenSharing) && !!remoteStream && status === 'connected';
+
   // Attach local stream to video element
   useEffect(() => {
     if (localVideoRef.current && localStream) {
       localVideoRef.current.srcObject = localStream;
     }
-  }, [localStream]);
+  }, [localStream, showLocalVideo]);
 
   // Attach remote stream to video element
   useEffect(() => {
     if (remoteVideoRef.current && remoteStream) {
       remoteVideoRef.current.srcObject = remoteStream;
     }
-  }, [remoteStream]);
+    if (showRemoteVideo) applyAudioOutput(remoteVideoRef.current, audioOutputDeviceId);
+  }, [remoteStream, showRemoteVideo, audioOutputDeviceId]);
 
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -125,7 +96,106 @@ export const ActiveCallWindow: React.FC = () => {
 
   const isActive = ['calling', 'ringing', 'connecting', 'connected'].includes(status);
 
-  if (!isActive || !remoteUser) return null;
+  if (!isActive || (!remoteUser && !isGroupCall)) return null;
+
+  // Group calls feature whoever is speaking
+  const activeParticipants = participants.filter(p => p.state !== 'left');
+  const featured = isGroupCall
+    ? activeParticipants.find(p => p.id === activeSpeakerId) || activeParticipants[0] || null
+    : remoteUser;
+  const callTitle = isGroupCall ? getGroupCallTitle(activeParticipants) : remoteUser!.displayName;
+
+  const callControls = (
+    <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-black/80 to-transparent">
+      <div className="flex items-center justify-center gap-4">
+        {/* Mute button */}
+        <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }}>
+          <Button
+            variant="secondary"
+            size="lg"
+            className={cn(
+              "rounded-full w-14 h-14 p-0",
+              isMuted && "bg-red-500/20 text-red-500 hover:bg-red-500/30"
+            )}
+            onClick={toggleMute}
+          >
+            {isMuted ? <MicOff className="h-6 w-6" /> : <Mic className="h-6 w-6" />}
+          </Button>
+        </motion.div>
+
+        {/* Video toggle (only for video calls) */}
+        {callType === 'video' && (
+          <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }}>
+            <Button
+              variant="secondary"
+              size="lg"
+              className={cn(
+                "rounded-full w-14 h-14 p-0",
+                isVideoOff && "bg-red-500/20 text-red-500 hover:bg-red-500/30"
+              )}
+              onClick={toggleVideo}
+              disabled={isScreenSharing}
+            >
+              {isVideoOff ? <VideoOff className="h-6 w-6" /> : <Video className="h-6 w-6" />}
+            </Button>
+          </motion.div>
+        )}
+
+        {/* Screen share toggle */}
+        {status === 'connected' && (
+          <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }}>
+            <Button
+              variant="secondary"
+              size="lg"
+              className={cn(
+                "rounded-full w-14 h-14 p-0",
+                isScreenSharing && "bg-green-500/20 text-green-500 hover:bg-green-500/30"
+              )}
+              onClick={toggleScreenShare}
+            >
+              {isScreenSharing ? <ScreenShareOff className="h-6 w-6" /> : <ScreenShare className="h-6 w-6" />}
+            </Button>
+          </motion.div>
+        )}
+
+        {/* Record button (1:1 calls - the other person has to agree first) */}
+        {status === 'connected' && !isGroupCall && (
+          <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }}>
+            <Button
+              variant="secondary"
+              size="lg"
+              className={cn(
+                "rounded-full w-14 h-14 p-0",
+                recordingStatus === 'recording' && "bg-red-500/20 text-red-500 hover:bg-red-500/30"
+              )}
+              onClick={recordingStatus === 'recording' ? stopRecording : requestRecording}
+              disabled={recordingStatus === 'requesting' || recordingStatus === 'consent-needed'}
+            >
+              {recordingStatus === 'requesting' ? (
+                <Loader2 className="h-6 w-6 animate-spin" />
+              ) : recordingStatus === 'recording' ? (
+                <Square className="h-5 w-5 fill-current" />
+              ) : (
+                <Circle className="h-6 w-6 text-red-500" />
+              )}
+            </Button>
+          </motion.div>
+        )}
+
+        {/* End call button */}
+        <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }}>
+          <Button
+            variant="destructive"
+            size="lg"
+            className="rounded-full w-14 h-14 p-0 bg-red-500 hover:bg-red-600"
+            onClick={endCall}
+          >
+            <PhoneOff className="h-6 w-6" />
+          </Button>
+        </motion.div>
+      </div>
+    </div>
+  );
 
   // Minimized view
   if (isMinimized) {
@@ -145,15 +215,15 @@ export const ActiveCallWindow: React.FC = () => {
           onClick={() => !isDragging && toggleMinimize()}
         >
           <Avatar className="w-12 h-12 border-2 border-tone-purple">
-            <AvatarImage src={remoteUser.profilePic} />
+            <AvatarImage src={featured?.profilePic} />
             <AvatarFallback className="bg-tone-gradient text-white">
-              {remoteUser.displayName.charAt(0).toUpperCase()}
+              {(featured?.displayName || callTitle).charAt(0).toUpperCase()}
             </AvatarFallback>
           </Avatar>
           
           <div className="pr-3">
             <p className="text-sm font-medium truncate max-w-[100px]">
-              {remoteUser.displayName}
+              {callTitle}
             </p>
             <div className="flex items-center gap-2">
               {status === 'connected' ? (
@@ -164,6 +234,15 @@ export const ActiveCallWindow: React.FC = () => {
                     roundTripTime={connectionQuality.roundTripTime}
                     packetLoss={connectionQuality.packetLoss}
                   />
+                  {recordingStatus === 'recording' && (
+                    <span className="flex items-center gap-1 text-xs text-red-500">
+                      <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                      REC
+                    </span>
+                  )}
+                  {recordingStatus === 'consent-needed' && (
+                    <span className="text-xs text-red-500">Wants to record</span>
+                  )}
                 </>
               ) : (
                 <span className="text-xs text-muted-foreground animate-pulse">
@@ -185,10 +264,82 @@ export const ActiveCallWindow: React.FC = () => {
             <PhoneOff className="h-4 w-4" />
           </Button>
         </div>
+        {isGroupCall && <GroupCallAudio participants={participants} audioOutputDeviceId={audioOutputDeviceId} />}
+        {!isGroupCall && remoteStream && (
+          <RemoteAudio stream={remoteStream} audioOutputDeviceId={audioOutputDeviceId} />
+        )}
       </motion.div>
     );
   }
 
+  // Group call window
+  if (isGroupCall) {
+    return (
+      <AnimatePresence>
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.9 }}
+          className="fixed inset-4 md:inset-auto md:bottom-6 md:right-6 md:w-[640px] md:h-[600px] z-50 flex flex-col"
+        >
+          <div className="relative flex-1 flex flex-col bg-gray-900 rounded-2xl overflow-hidden shadow-2xl border border-border/50">
+            <div className="flex items-center justify-between gap-2 px-4 pt-3 pb-1">
+              <div className="min-w-0">
+                <p className="text-white font-semibold truncate">{callTitle}</p>
+                <div className="flex items-center gap-2 text-xs">
+                  {status === 'connected' ? (
+                    <>
+                      <span className="text-green-500">{formatDuration(callDuration)}</span>
+                      <span className="text-gray-400">
+                        {activeParticipants.filter(p => p.state === 'connected').length + 1} in call
+                      </span>
+                      <ConnectionQualityIndicator 
+                        level={connectionQuality.level}
+                        roundTripTime={connectionQuality.roundTripTime}
+                        packetLoss={connectionQuality.packetLoss}
+                      />
+                    </>
+                  ) : (
+                    <span className="text-gray-400 animate-pulse">
+                      {status === 'calling' ? 'Calling...' : status === 'connecting' ? 'Joining...' : 'Ringing...'}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {status === 'connected' && <CallDeviceSettings />}
+                {status !== 'ringing' && <AddCallParticipants />}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-white/20 rounded-full w-10 h-10 p-0"
+                  onClick={toggleMinimize}
+                >
+                  <Minimize2 className="h-5 w-5" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex-1 min-h-0 pb-28">
+              <GroupCallGrid
+                participants={participants}
+                localStream={localStream}
+                callType={callType}
+                isVideoOff={isVideoOff}
+                isMuted={isMuted}
+                isScreenSharing={isScreenSharing}
+                activeSpeakerId={activeSpeakerId}
+                audioOutputDeviceId={audioOutputDeviceId}
+              />
+            </div>
+
+            {callControls}
+          </div>
+        </motion.div>
+      </AnimatePresence>
+    );
+  }
+
   // Full call window
   return (
     <AnimatePresence>
@@ -201,12 +352,12 @@ export const ActiveCallWindow: React.FC = () => {
         <div className="relative flex-1 bg-gray-900 rounded-2xl overflow-hidden shadow-2xl border border-border/50">
           {/* Remote video / Avatar */}
           <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-b from-gray-800 to-gray-900">
-            {callType === 'video' && remoteStream && status === 'connected' ? (
+            {showRemoteVideo ? (
               <video
                 ref={remoteVideoRef}
                 autoPlay
                 playsInline
-                className="w-full h-full object-cover"
+                className={cn("w-full h-full", remoteScreenSharing ? "object-contain bg-black" : "object-cover")}
               />
             ) : (
               <div className="flex flex-col items-center">
@@ -291,7 +442,7 @@ export const ActiveCallWindow: React.FC = () => {
 
           {/* Connection quality indicator (top right, for video calls) */}
           {status === 'connected' && callType === 'video' && (
-            <div className="absolute top-4 right-16 bg-black/50 rounded-lg px-2 py-1 flex items-center gap-2">
+            <div className="absolute top-4 right-28 bg-black/50 rounded-lg px-2 py-1 flex items-center gap-2">
               <span className="text-white text-xs">{formatDuration(callDuration)}</span>
               <ConnectionQualityIndicator 
                 level={connectionQuality.level}
@@ -301,8 +452,48 @@ export const ActiveCallWindow: React.FC = () => {
             </div>
           )}
 
+          {/* Remote audio when there is no video element to play it */}
+          {!showRemoteVideo && remoteStream && (
+            <RemoteAudio stream={remoteStream} audioOutputDeviceId={audioOutputDeviceId} />
+          )}
+
+          {/* Recording indicator - shown on both sides */}
+          {recordingStatus === 'recording' && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-red-500/90 rounded-full px-3 py-1 flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+              <span className="text-white text-xs font-semibold">REC</span>
+            </div>
+          )}
+
+          {/* Consent prompt when the other person wants to record */}
+          {recordingStatus === 'consent-needed' && (
+            <div className="absolute bottom-28 left-4 right-4 bg-black/80 rounded-xl p-4 space-y-3">
+              <p className="text-white text-sm">
+                {remoteUser.displayName} wants to record this call. Everyone will see when recording is on.
+              </p>
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="secondary" onClick={() => respondToRecording(false)}>
+                  Don't allow
+                </Button>
+                <Button size="sm" className="bg-red-500 hover:bg-red-600" onClick={() => respondToRecording(true)}>
+                  Allow
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Presenting badge */}
+          {status === 'connected' && (remoteScreenSharing || isScreenSharing) && (
+            <div className="absolute top-16 left-1/2 -translate-x-1/2 bg-black/60 rounded-full px-3 py-1 flex items-center gap-1.5">
+              <ScreenShare className="h-3.5 w-3.5 text-green-400" />
+              <span className="text-white text-xs whitespace-nowrap">
+                {remoteScreenSharing ? `${remoteUser.displayName} is sharing their screen` : 'You are sharing your screen'}
+              </span>
+            </div>
+          )}
+
           {/* Local video preview (PiP) */}
-          {callType === 'video' && localStream && !isVideoOff && (
+          {showLocalVideo && (
             <motion.div
               drag
               dragMomentum={false}
@@ -314,70 +505,26 @@ export const ActiveCallWindow: React.FC = () => {
                 autoPlay
                 playsInline
                 muted
-                className="w-full h-full object-cover mirror"
-                style={{ transform: 'scaleX(-1)' }}
+                className={cn("w-full h-full", isScreenSharing ? "object-contain bg-black" : "object-cover mirror")}
+                style={isScreenSharing ? undefined : { transform: 'scaleX(-1)' }}
               />
             </motion.div>
           )}
 
-          {/* Minimize button */}
-          <Button
-            variant="ghost"
-            size="sm"
-            className="absolute top-4 right-4 text-white hover:bg-white/20 rounded-full w-10 h-10 p-0"
-            onClick={toggleMinimize}
-          >
-            <Minimize2 className="h-5 w-5" />
-          </Button>
-
-          {/* Call controls */}
-          <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-black/80 to-transparent">
-            <div className="flex items-center justify-center gap-4">
-              {/* Mute button */}
-              <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }}>
-                <Button
-                  variant="secondary"
-                  size="lg"
-                  className={cn(
-                    "rounded-full w-14 h-14 p-0",
-                    isMuted && "bg-red-500/20 text-red-500 hover:bg-red-500/30"
-                  )}
-                  onClick={toggleMute}
-                >
-                  {isMuted ? <MicOff className="h-6 w-6" /> : <Mic className="h-6 w-6" />}
-                </Button>
-              </motion.div>
-
-              {/* Video toggle (only for video calls) */}
-              {callType === 'video' && (
-                <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }}>
-                  <Button
-                    variant="secondary"
-                    size="lg"
-                    className={cn(
-                      "rounded-full w-14 h-14 p-0",
-                      isVideoOff && "bg-red-500/20 text-red-500 hover:bg-red-500/30"
-                    )}
-                    onClick={toggleVideo}
-                  >
-                    {isVideoOff ? <VideoOff className="h-6 w-6" /> : <Video className="h-6 w-6" />}
-                  </Button>
-                </motion.div>
-              )}
-
-              {/* End call button */}
-              <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.95 }}>
-                <Button
-                  variant="destructive"
-                  size="lg"
-                  className="rounded-full w-14 h-14 p-0 bg-red-500 hover:bg-red-600"
-                  onClick={endCall}
-                >
-                  <PhoneOff className="h-6 w-6" />
-                </Button>
-              </motion.div>
-            </div>
+          {/* Device settings and minimize buttons */}
+          <div className="absolute top-4 right-4 flex items-center gap-1">
+            {status === 'connected' && <CallDeviceSettings />}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-white hover:bg-white/20 rounded-full w-10 h-10 p-0"
+              onClick={toggleMinimize}
+            >
+              <Minimize2 className="h-5 w-5" />
+            </Button>
           </div>
+
+          {callControls}
         </div>
       </motion.div>
     </AnimatePresence>
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Loader2, UserPlus } from 'lucide-react';
+import { useCall, CallParticipant } from '@/contexts/CallContext';
+
+// Ring group members who aren't in the call yet
+export const AddCallParticipants: React.FC = () => {
+  const { getInvitableMembers, inviteToCall } = useCall();
+  const [members, setMembers] = useState<CallParticipant[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setLoading(true);
+    setMembers(await getInvitableMembers());
+    setLoading(false);
+  };
+
+  const handleInvite = async (member: CallParticipant) => {
+    await inviteToCall(member);
+    setMembers(prev => prev.filter(m => m.id !== member.id));
+  };
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-white hover:bg-white/20 rounded-full w-10 h-10 p-0"
+        >
+          <UserPlus className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2">
+        <p className="text-sm font-semibold px-2 py-1">Add people</p>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-xs text-muted-foreground px-2 py-3">Everyone in this group is already in the call.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto">
+            {members.map(member => (
+              <button
+                key={member.id}
+                onClick={() => handleInvite(member)}
+                className="w-full flex items-center gap-2 px-2 py-2 rounded-md hover:bg-accent transition-colors text-left"
+              >
+                <Avatar className="w-8 h-8">
+                  <AvatarImage src={member.profilePic} />
+                  <AvatarFallback className="bg-tone-gradient text-white text-xs">
+                    {(member.displayName || member.username).charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm truncate flex-1">{member.displayName || member.username}</span>
+                <span className="text-xs text-primary">Ring</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
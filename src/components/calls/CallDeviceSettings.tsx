@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Settings2 } from 'lucide-react';
+import { useCall, CallDeviceKind } from '@/contexts/CallContext';
+import { useMediaDevices, supportsAudioOutputSelection, MediaDeviceOption } from '@/hooks/useMediaDevices';
+
+interface DeviceSelectProps {
+  label: string;
+  value: string;
+  options: MediaDeviceOption[];
+  onChange: (deviceId: string) => void;
+}
+
+const DeviceSelect: React.FC<DeviceSelectProps> = ({ label, value, options, onChange }) => (
+  <div className="space-y-1">
+    <p className="text-xs font-medium text-muted-foreground">{label}</p>
+    <Select value={value} onValueChange={onChange} disabled={options.length === 0}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder={options.length === 0 ? 'No devices found' : 'Default'} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option.deviceId} value={option.deviceId} className="text-xs">
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+// Switch microphone, camera or speaker without leaving the call
+export const CallDeviceSettings: React.FC = () => {
+  const { callType, localStream, audioOutputDeviceId, isScreenSharing, switchDevice } = useCall();
+  const [open, setOpen] = useState(false);
+  const { audioInputs, videoInputs, audioOutputs } = useMediaDevices(open);
+  const [selected, setSelected] = useState<Record<CallDeviceKind, string>>({
+    audioinput: '',
+    videoinput: '',
+    audiooutput: '',
+  });
+
+  // Track swaps don't re-render, so read the devices in use each time the picker opens
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+    setSelected(prev => ({
+      audioinput: localStream?.getAudioTracks()[0]?.getSettings().deviceId ?? '',
+      // While sharing, the video track is the screen - keep showing the last chosen camera
+      videoinput: isScreenSharing
+        ? prev.videoinput
+        : localStream?.getVideoTracks()[0]?.getSettings().deviceId ?? '',
+      audiooutput: audioOutputDeviceId ?? 'default',
+    }));
+  };
+
+  const handleChange = (kind: CallDeviceKind) => (deviceId: string) => {
+    setSelected(prev => ({ ...prev, [kind]: deviceId }));
+    switchDevice(kind, deviceId);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-white hover:bg-white/20 rounded-full w-10 h-10 p-0"
+        >
+          <Settings2 className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <p className="text-sm font-semibold">Devices</p>
+        <DeviceSelect
+          label="Microphone"
+          value={selected.audioinput}
+          options={audioInputs}
+          onChange={handleChange('audioinput')}
+        />
+        {callType === 'video' && (
+          <DeviceSelect
+            label="Camera"
+            value={selected.videoinput}
+            options={videoInputs}
+            onChange={handleChange('videoinput')}
+          />
+        )}
+        {supportsAudioOutputSelection() && (
+          <DeviceSelect
+            label="Speaker"
+            value={selected.audiooutput}
+            options={audioOutputs}
+            onChange={handleChange('audiooutput')}
+          />
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
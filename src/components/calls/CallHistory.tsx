@@ -8,7 +8,8 @@ import {
   PhoneIncoming, 
   PhoneOutgoing, 
   PhoneMissed,
-  Loader2 
+  Loader2,
+  Disc
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useCallHistory, CallHistoryItem } from '@/hooks/useCallHistory';
@@ -130,6 +131,17 @@ export const CallHistory: React.FC<CallHistoryProps> = ({ onClose }) => {
                 {item.status === 'completed' && item.duration_seconds > 0 && (
                   <span>· {formatDuration(item.duration_seconds)}</span>
                 )}
+                {item.recording_url && (
+                  <a
+                    href={item.recording_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-primary hover:underline"
+                  >
+                    <Disc className="h-3 w-3" />
+                    Recording
+                  </a>
+                )}
               </div>
             </div>
 
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Download, Loader2, Send, Trash2 } from 'lucide-react';
+import { useCall } from '@/contexts/CallContext';
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Shown once a recorded call ends: keep the file, send it to the chat, or throw it away
+export const CallRecordingDialog: React.FC = () => {
+  const { status, finishedRecording, saveRecording, shareRecording, discardRecording } = useCall();
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+
+  useEffect(() => {
+    if (!finishedRecording) return;
+    const url = URL.createObjectURL(finishedRecording.blob);
+    setPreviewUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setPreviewUrl(null);
+    };
+  }, [finishedRecording]);
+
+  // Wait for the call window to close before asking
+  const isOpen = !!finishedRecording && status === 'idle';
+
+  const handleShare = async () => {
+    setSharing(true);
+    await shareRecording();
+    setSharing(false);
+  };
+
+  if (!finishedRecording) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !sharing && discardRecording()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Call recording</DialogTitle>
+          <DialogDescription>
+            {formatDuration(finishedRecording.durationSeconds)} with {finishedRecording.otherUser.displayName}.
+            The recording is only on this device until you download or send it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {previewUrl && (finishedRecording.withVideo ? (
+          <video src={previewUrl} controls className="w-full rounded-lg bg-black max-h-64" />
+        ) : (
+          <audio src={previewUrl} controls className="w-full" />
+        ))}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={discardRecording} disabled={sharing}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Discard
+          </Button>
+          <Button variant="outline" onClick={saveRecording} disabled={sharing}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+          <Button onClick={handleShare} disabled={sharing}>
+            {sharing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Send to chat
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+
+export const ConnectionQualityIndicator: React.FC<{ 
+  level: 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
+  roundTripTime?: number;
+  packetLoss?: number;
+}> = ({ level, roundTripTime, packetLoss }) => {
+  const getColor = () => {
+    switch (level) {
+      case 'excellent': return 'text-green-500';
+      case 'good': return 'text-green-400';
+      case 'fair': return 'text-yellow-500';
+      case 'poor': return 'text-red-500';
+      default: return 'text-muted-foreground';
+    }
+  };
+
+  const getBars = () => {
+    switch (level) {
+      case 'excellent': return 4;
+      case 'good': return 3;
+      case 'fair': return 2;
+      case 'poor': return 1;
+      default: return 0;
+    }
+  };
+
+  const bars = getBars();
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className={cn("flex items-end gap-0.5 h-4", getColor())}>
+            {[1, 2, 3, 4].map((i) => (
+              <div
+                key={i}
+                className={cn(
+                  "w-1 rounded-sm transition-all",
+                  i <= bars ? "bg-current" : "bg-current/20"
+                )}
+                style={{ height: `${i * 25}%` }}
+              />
+            ))}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent side="bottom" className="text-xs">
+          <div className="space-y-1">
+            <p className="font-medium capitalize">{level} connection</p>
+            {roundTripTime !== undefined && (
+              <p>Latency: {roundTripTime}ms</p>
+            )}
+            {packetLoss !== undefined && packetLoss > 0 && (
+              <p>Packet loss: {packetLoss}%</p>
+            )}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
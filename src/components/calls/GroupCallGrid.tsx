@@ -0,0 +1,206 @@
+import React, { useEffect, useRef } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Loader2, MicOff, ScreenShare } from 'lucide-react';
+import { GroupCallParticipant } from '@/contexts/CallContext';
+import { CallType } from '@/services/webrtc';
+import { getGridColumns } from '@/lib/groupCall';
+import { applyAudioOutput } from '@/hooks/useMediaDevices';
+import { ConnectionQualityIndicator } from './ConnectionQualityIndicator';
+import { cn } from '@/lib/utils';
+
+interface ParticipantTileProps {
+  name: string;
+  profilePic?: string;
+  stream: MediaStream | null;
+  showVideo: boolean;
+  isLocal?: boolean;
+  isSpeaking?: boolean;
+  isMuted?: boolean;
+  isScreenSharing?: boolean;
+  statusText?: string | null;
+  quality?: GroupCallParticipant['connectionQuality'];
+  audioOutputDeviceId?: string | null;
+}
+
+const ParticipantTile: React.FC<ParticipantTileProps> = ({
+  name,
+  profilePic,
+  stream,
+  showVideo,
+  isLocal = false,
+  isSpeaking = false,
+  isMuted = false,
+  isScreenSharing = false,
+  statusText,
+  quality,
+  audioOutputDeviceId = null,
+}) => {
+  const mediaRef = useRef<HTMLVideoElement | HTMLAudioElement | null>(null);
+
+  // Attach the stream to whichever element is rendered
+  useEffect(() => {
+    if (mediaRef.current && mediaRef.current.srcObject !== stream) {
+      mediaRef.current.srcObject = stream;
+    }
+  }, [stream, showVideo]);
+
+  useEffect(() => {
+    if (!isLocal) applyAudioOutput(mediaRef.current, audioOutputDeviceId);
+  }, [isLocal, audioOutputDeviceId, stream, showVideo]);
+
+  return (
+    <div
+      className={cn(
+        "relative rounded-xl overflow-hidden bg-gray-800 flex items-center justify-center min-h-0 transition-shadow",
+        isSpeaking && "ring-2 ring-green-500"
+      )}
+    >
+      {showVideo && stream ? (
+        <video
+          ref={(el) => { mediaRef.current = el; }}
+          autoPlay
+          playsInline
+          muted={isLocal}
+          className={cn("w-full h-full", isScreenSharing ? "object-contain bg-black" : "object-cover")}
+          style={isLocal && !isScreenSharing ? { transform: 'scaleX(-1)' } : undefined}
+        />
+      ) : (
+        <>
+          <Avatar className={cn("w-16 h-16 border-2", isSpeaking ? "border-green-500" : "border-tone-purple/50")}>
+            <AvatarImage src={profilePic} />
+            <AvatarFallback className="bg-tone-gradient text-white text-xl">
+              {name.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          {/* Remote audio still has to play when there is no video element */}
+          {!isLocal && stream && (
+            <audio ref={(el) => { mediaRef.current = el; }} autoPlay className="hidden" />
+          )}
+        </>
+      )}
+
+      <div className="absolute bottom-2 left-2 right-2 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5 bg-black/50 rounded-md px-2 py-0.5 min-w-0">
+          {isMuted && <MicOff className="h-3 w-3 text-red-400 shrink-0" />}
+          {isScreenSharing && <ScreenShare className="h-3 w-3 text-green-400 shrink-0" />}
+          <span className="text-white text-xs truncate">
+            {isScreenSharing ? `${name} (presenting)` : name}
+          </span>
+        </div>
+        {quality && quality.level !== 'unknown' && (
+          <div className="bg-black/50 rounded-md px-1.5 py-0.5">
+            <ConnectionQualityIndicator
+              level={quality.level}
+              roundTripTime={quality.roundTripTime}
+              packetLoss={quality.packetLoss}
+            />
+          </div>
+        )}
+      </div>
+
+      {statusText && (
+        <div className="absolute inset-0 bg-black/40 flex items-center justify-center gap-2">
+          <Loader2 className="h-4 w-4 text-white animate-spin" />
+          <span className="text-white text-xs">{statusText}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface GroupCallGridProps {
+  participants: GroupCallParticipant[];
+  localStream: MediaStream | null;
+  callType: CallType | null;
+  isVideoOff: boolean;
+  isMuted: boolean;
+  isScreenSharing: boolean;
+  activeSpeakerId: string | null;
+  audioOutputDeviceId: string | null;
+}
+
+const STATUS_TEXT: Partial<Record<GroupCallParticipant['state'], string>> = {
+  invited: 'Ringing...',
+  connecting: 'Connecting...',
+};
+
+export const GroupCallGrid: React.FC<GroupCallGridProps> = ({
+  participants,
+  localStream,
+  callType,
+  isVideoOff,
+  isMuted,
+  isScreenSharing,
+  activeSpeakerId,
+  audioOutputDeviceId,
+}) => {
+  const visible = participants.filter(p => p.state !== 'left');
+  const columns = getGridColumns(visible.length + 1);
+
+  return (
+    <div
+      className="grid gap-2 p-2 h-full auto-rows-fr"
+      style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+    >
+      <ParticipantTile
+        name="You"
+        stream={localStream}
+        showVideo={(callType === 'video' && !isVideoOff) || isScreenSharing}
+        isLocal
+        isMuted={isMuted}
+        isScreenSharing={isScreenSharing}
+      />
+      {visible.map(participant => (
+        <ParticipantTile
+          key={participant.id}
+          name={participant.displayName || participant.username}
+          profilePic={participant.profilePic}
+          stream={participant.stream}
+          // Voice calls carry an idle video slot, so only show it once someone presents
+          showVideo={
+            (callType === 'video' || participant.isScreenSharing) &&
+            !!participant.stream?.getVideoTracks().length
+          }
+          isSpeaking={participant.id === activeSpeakerId}
+          isScreenSharing={participant.isScreenSharing}
+          audioOutputDeviceId={audioOutputDeviceId}
+          statusText={STATUS_TEXT[participant.state] ?? null}
+          quality={participant.state === 'connected' ? participant.connectionQuality : undefined}
+        />
+      ))}
+    </div>
+  );
+};
+
+interface RemoteAudioProps {
+  stream: MediaStream;
+  audioOutputDeviceId?: string | null;
+}
+
+export const RemoteAudio: React.FC<RemoteAudioProps> = ({ stream, audioOutputDeviceId = null }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  useEffect(() => {
+    applyAudioOutput(audioRef.current, audioOutputDeviceId);
+  }, [audioOutputDeviceId]);
+
+  return <audio ref={audioRef} autoPlay className="hidden" />;
+};
+
+// Keeps everyone audible while the grid is not rendered (minimized window)
+export const GroupCallAudio: React.FC<{
+  participants: GroupCallParticipant[];
+  audioOutputDeviceId: string | null;
+}> = ({ participants, audioOutputDeviceId }) => (
+  <>
+    {participants
+      .filter(p => p.state !== 'left' && p.stream)
+      .map(p => <RemoteAudio key={p.id} stream={p.stream!} audioOutputDeviceId={audioOutputDeviceId} />)}
+  </>
+);
@@ -8,7 +8,7 @@ import { useCall } from '@/contexts/CallContext';
 import { useCallAudio } from '@/hooks/useCallAudio';
 
 export const IncomingCallModal: React.FC = () => {
-  const { status, callType, remoteUser, isOutgoing, acceptCall, rejectCall } = useCall();
+  const { status, callType, remoteUser, isOutgoing, isGroupCall, participants, acceptCall, rejectCall } = useCall();
 
   // Handle audio for incoming calls
   useCallAudio({ status, isOutgoing });
@@ -82,7 +82,9 @@ export const IncomingCallModal: React.FC = () => {
                 <Phone className="h-5 w-5 text-tone-purple" />
               )}
               <span className="text-sm text-muted-foreground">
-                Incoming {callType} call...
+                {isGroupCall
+                  ? `Group ${callType} call with ${participants.length} ${participants.length === 1 ? 'other' : 'others'}...`
+                  : `Incoming ${callType} call...`}
               </span>
             </div>
 
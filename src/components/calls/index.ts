@@ -1,3 +1,4 @@
 export { IncomingCallModal } from './IncomingCallModal';
 export { ActiveCallWindow } from './ActiveCallWindow';
 export { CallHistory } from './CallHistory';
+export { CallRecordingDialog } from './CallRecordingDialog';
@@ -4,11 +4,24 @@
 // CRITICAL: Notifies parent when video element is ready for AudioEngine connection
 
 import { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { VideoFilter, EmojiLayer, TextLayer, ImageLayer, VideoLayer } from '@/types/editor';
+import { VideoFilter, EmojiLayer, TextLayer, ImageLayer, VideoLayer, OverlayVideoLayer } from '@/types/editor';
 import { VideoPlayer } from '@/lib/player';
 import { TextLayerCanvas } from './text/TextLayerCanvas';
 import { EmojiLayerCanvas } from './emoji/EmojiLayerCanvas';
+import { OverlayVideoLayerCanvas } from './overlay/OverlayVideoLayerCanvas';
 import { getAudioEngine } from '@/lib/audioEngine';
+import { buildFilterString } from '@/lib/renderer';
+import { FilteredVideoCanvas } from './filters/FilteredVideoCanvas';
+import { ActiveTransition, getTransitionFrame, getTransitionLayerCss } from '@/lib/transitions';
+import { getAnimatedLayer } from '@/lib/keyframes';
+import {
+  CANVAS_SAFE_AREA,
+  CanvasBox,
+  SNAP_THRESHOLD_PX,
+  buildCanvasGuides,
+  isSnapBypassed,
+  snapCanvasBox,
+} from '@/lib/snapping';
 
 export interface EditorCanvasRef {
   videoElement: HTMLVideoElement | null;
@@ -31,9 +44,10 @@ interface EditorCanvasProps {
   emojiLayers: EmojiLayer[];
   textLayers: TextLayer[];
   imageLayers: ImageLayer[];
-  onLayerUpdate: (type: 'emoji' | 'text' | 'image', id: string, updates: any) => void;
-  onLayerSelect: (type: 'emoji' | 'text' | 'image' | null, id: string | null) => void;
-  onLayerDelete: (type: 'emoji' | 'text' | 'image', id: string) => void;
+  overlayLayers: OverlayVideoLayer[];
+  onLayerUpdate: (type: 'emoji' | 'text' | 'image' | 'overlay-video', id: string, updates: any) => void;
+  onLayerSelect: (type: 'emoji' | 'text' | 'image' | 'overlay-video' | null, id: string | null) => void;
+  onLayerDelete: (type: 'emoji' | 'text' | 'image' | 'overlay-video', id: string) => void;
   selectedLayerId: string | null;
   player: VideoPlayer | null;
   // Video audio controls
@@ -56,6 +70,7 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
   emojiLayers,
   textLayers,
   imageLayers,
+  overlayLayers,
   onLayerUpdate,
   onLayerSelect,
   onLayerDelete,
@@ -66,14 +81,20 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
   onVideoElementReady,
 }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const transitionVideoRef = useRef<HTMLVideoElement>(null);
+  const [transition, setTransition] = useState<ActiveTransition | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
   const [videoLoaded, setVideoLoaded] = useState(false);
   const [videoError, setVideoError] = useState<string | null>(null);
+  // Set when frames can't be read for the filter pipeline (e.g. media without CORS) - CSS filters are used instead
+  const [filterPipelineFailed, setFilterPipelineFailed] = useState(false);
   const [currentClipIndex, setCurrentClipIndex] = useState(0);
   const [draggingLayer, setDraggingLayer] = useState<{ type: string; id: string } | null>(null);
   const [dragStart, setDragStart] = useState<{ x: number; y: number; layerX: number; layerY: number } | null>(null);
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  // Guide lines (canvas percent) a dragged layer is snapped to; null while nothing is being dragged
+  const [snapGuides, setSnapGuides] = useState<{ vertical: number | null; horizontal: number | null } | null>(null);
   const audioEngineConnectedRef = useRef(false);
   
   const playerInitializedRef = useRef(false);
@@ -148,16 +169,22 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
       }
     };
 
+    const handleTransition = (data: ActiveTransition | null) => {
+      setTransition(data);
+    };
+
     player.on('clipchange', handleClipChange);
     player.on('cliploaded', handleClipLoaded);
     player.on('error', handleError);
     player.on('durationchange', handleDurationChange);
+    player.on('transition', handleTransition);
 
     return () => {
       player.off('clipchange', handleClipChange);
       player.off('cliploaded', handleClipLoaded);
       player.off('error', handleError);
       player.off('durationchange', handleDurationChange);
+      player.off('transition', handleTransition);
     };
   }, [player, onDurationChange]);
 
@@ -177,6 +204,7 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
 
     console.log('[Canvas] ✅ Initializing player with', sortedClips.length, 'clips');
     player.init(videoRef.current, sortedClips);
+    player.attachTransitionElement(transitionVideoRef.current);
     playerInitializedRef.current = true;
   }, [player, sortedClips]);
 
@@ -255,15 +283,11 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
     }
   }, [audioEngineConnectedRef.current]);
 
-  const filterStyle = `
-    brightness(${globalFilter.brightness}%) 
-    contrast(${globalFilter.contrast}%) 
-    saturate(${globalFilter.saturation}%) 
-    ${globalFilter.temperature > 0 ? `sepia(${globalFilter.temperature}%)` : ''} 
-    ${globalFilter.temperature < 0 ? `hue-rotate(${globalFilter.temperature}deg)` : ''}
-    blur(${globalFilter.blur}px)
-    ${globalFilter.hueRotate ? `hue-rotate(${globalFilter.hueRotate}deg)` : ''}
-  `.trim();
+  const filterStyle = filterPipelineFailed ? buildFilterString(globalFilter) : undefined;
+  // The videos stay in the layout (decoding for the pipeline) but only the filtered canvases are visible
+  const hiddenForPipeline = filterPipelineFailed ? undefined : { opacity: 0 };
+  const handleFilterPipelineError = useCallback(() => setFilterPipelineFailed(true), []);
+  const transitionFrame = transition ? getTransitionFrame(transition.type, transition.progress) : null;
 
   // CRITICAL: Connect to AudioEngine when video is ready to play
   // This is the safest time to call createMediaElementSource
@@ -284,6 +308,47 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
     setVideoLoaded(false);
   }, []);
 
+  // On-screen boxes of the rendered layers in canvas percent, read from their data-layer-id elements
+  const measureLayerBoxes = useCallback((): Map<string, CanvasBox> => {
+    const boxes = new Map<string, CanvasBox>();
+    const canvas = canvasRef.current;
+    if (!canvas) return boxes;
+    const rect = canvas.getBoundingClientRect();
+    if (!rect.width || !rect.height) return boxes;
+    canvas.querySelectorAll<HTMLElement>('[data-layer-id]').forEach(element => {
+      const box = element.getBoundingClientRect();
+      boxes.set(element.dataset.layerId!, {
+        x: ((box.left + box.width / 2 - rect.left) / rect.width) * 100,
+        y: ((box.top + box.height / 2 - rect.top) / rect.height) * 100,
+        width: (box.width / rect.width) * 100,
+        height: (box.height / rect.height) * 100,
+      });
+    });
+    return boxes;
+  }, []);
+
+  // Snap a dragged layer's center onto the center lines, safe area and the other layers' edges
+  const snapLayerPosition = useCallback((id: string, position: { x: number; y: number }, bypass: boolean) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const boxes = measureLayerBoxes();
+    const own = boxes.get(id);
+    if (bypass || !rect || !own) {
+      setSnapGuides({ vertical: null, horizontal: null });
+      return position;
+    }
+
+    boxes.delete(id);
+    const result = snapCanvasBox(
+      { ...own, x: position.x, y: position.y },
+      buildCanvasGuides([...boxes.values()]),
+      { x: (SNAP_THRESHOLD_PX / rect.width) * 100, y: (SNAP_THRESHOLD_PX / rect.height) * 100 }
+    );
+    setSnapGuides(result.guides);
+    return { x: result.x, y: result.y };
+  }, [measureLayerBoxes]);
+
+  const clearSnapGuides = useCallback(() => setSnapGuides(null), []);
+
   const handleMouseDown = useCallback((e: React.MouseEvent, type: string, id: string, layer: any) => {
     e.stopPropagation();
     onLayerSelect(type as any, id);
@@ -307,17 +372,23 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
     const deltaX = ((e.clientX - dragStart.x) / rect.width) * 100;
     const deltaY = ((e.clientY - dragStart.y) / rect.height) * 100;
 
-    const newX = Math.max(0, Math.min(100, dragStart.layerX + deltaX));
-    const newY = Math.max(0, Math.min(100, dragStart.layerY + deltaY));
+    const snapped = snapLayerPosition(
+      draggingLayer.id,
+      { x: dragStart.layerX + deltaX, y: dragStart.layerY + deltaY },
+      isSnapBypassed(e)
+    );
+    const newX = Math.max(0, Math.min(100, snapped.x));
+    const newY = Math.max(0, Math.min(100, snapped.y));
 
     onLayerUpdate(draggingLayer.type as any, draggingLayer.id, {
       position: { x: newX, y: newY }
     });
-  }, [draggingLayer, dragStart, onLayerUpdate]);
+  }, [draggingLayer, dragStart, onLayerUpdate, snapLayerPosition]);
 
   const handleMouseUp = useCallback(() => {
     setDraggingLayer(null);
     setDragStart(null);
+    setSnapGuides(null);
   }, []);
 
   const isLayerVisible = (layer: { start: number; end: number }) => {
@@ -385,7 +456,12 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
           <video
             ref={videoRef}
             className="absolute inset-0 w-full h-full object-contain"
-            style={{ filter: filterStyle }}
+            style={{
+              filter: filterStyle,
+              ...(transitionFrame && getTransitionLayerCss(transitionFrame.outgoing)),
+              ...hiddenForPipeline,
+            }}
+            crossOrigin="anonymous"
             playsInline
             controls={false}
             loop={false}
@@ -394,6 +470,48 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
           />
         )}
 
+        {/* Incoming clip during a transition - driven by the player */}
+        {videoSrc && (
+          <video
+            ref={transitionVideoRef}
+            className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+            style={{
+              filter: filterStyle,
+              visibility: transitionFrame ? 'visible' : 'hidden',
+              ...(transitionFrame && getTransitionLayerCss(transitionFrame.incoming)),
+              ...hiddenForPipeline,
+            }}
+            crossOrigin="anonymous"
+            playsInline
+            muted
+            controls={false}
+            loop={false}
+          />
+        )}
+
+        {/* Graded frames of both videos, drawn by the same pipeline the exporter uses */}
+        {videoSrc && !filterPipelineFailed && (
+          <>
+            <FilteredVideoCanvas
+              videoRef={videoRef}
+              src={videoSrc}
+              filter={globalFilter}
+              style={transitionFrame ? getTransitionLayerCss(transitionFrame.outgoing) : undefined}
+              onError={handleFilterPipelineError}
+            />
+            <FilteredVideoCanvas
+              videoRef={transitionVideoRef}
+              src={videoSrc}
+              filter={globalFilter}
+              style={{
+                visibility: transitionFrame ? 'visible' : 'hidden',
+                ...(transitionFrame && getTransitionLayerCss(transitionFrame.incoming)),
+              }}
+              onError={handleFilterPipelineError}
+            />
+          </>
+        )}
+
         {/* Error/Loading/Empty State */}
         {(!videoLoaded || videoError || !videoSrc) && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/80">
@@ -425,32 +543,57 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
           </div>
         )}
 
-        {/* Image Layers */}
-        {imageLayers.filter(isLayerVisible).map((layer) => (
-          <div
-            key={layer.id}
-            className={`absolute cursor-move select-none ${selectedLayerId === layer.id ? 'ring-2 ring-primary' : ''}`}
-            style={{
-              left: `${layer.position.x}%`,
-              top: `${layer.position.y}%`,
-              transform: `translate(-50%, -50%) scale(${layer.scale}) rotate(${layer.rotation}deg)`,
-            }}
-            onMouseDown={(e) => handleMouseDown(e, 'image', layer.id, layer)}
-          >
-            <img 
-              src={layer.src} 
-              alt={layer.fileName} 
-              className="max-w-[50%] max-h-[50%] pointer-events-none"
-              draggable={false}
+        {/* Overlay videos (picture-in-picture) - keyed on WebGL, blended onto the main video with CSS */}
+        {overlayLayers.filter(isLayerVisible).map((source) => {
+          const { layer, opacity } = getAnimatedLayer(source, currentTime);
+          return (
+            <OverlayVideoLayerCanvas
+              key={layer.id}
+              layer={layer}
+              opacity={opacity}
+              currentTime={currentTime}
+              isPlaying={isPlaying}
+              isSelected={selectedLayerId === layer.id}
+              muted={videoMuted}
+              containerWidth={canvasSize.width}
+              containerHeight={canvasSize.height}
+              onMouseDown={(e) => handleMouseDown(e, 'overlay-video', layer.id, layer)}
             />
-          </div>
-        ))}
+          );
+        })}
+
+        {/* Image Layers - keyframed layers are shown as they are at the playhead */}
+        {imageLayers.filter(isLayerVisible).map((source) => {
+          const { layer, opacity } = getAnimatedLayer(source, currentTime);
+          return (
+            <div
+              key={layer.id}
+              data-layer-id={layer.id}
+              className={`absolute cursor-move select-none ${selectedLayerId === layer.id ? 'ring-2 ring-primary' : ''}`}
+              style={{
+                left: `${layer.position.x}%`,
+                top: `${layer.position.y}%`,
+                transform: `translate(-50%, -50%) scale(${layer.scale}) rotate(${layer.rotation}deg)`,
+                opacity,
+              }}
+              onMouseDown={(e) => handleMouseDown(e, 'image', layer.id, layer)}
+            >
+              <img 
+                src={layer.src} 
+                alt={layer.fileName} 
+                className="max-w-[50%] max-h-[50%] pointer-events-none"
+                draggable={false}
+              />
+            </div>
+          );
+        })}
 
         {/* Emoji/Sticker Layers - Using EmojiLayerCanvas */}
-        {emojiLayers.filter(isLayerVisible).map((layer) => (
+        {emojiLayers.filter(isLayerVisible).map((source) => getAnimatedLayer(source, currentTime)).map(({ layer, opacity }) => (
           <EmojiLayerCanvas
             key={layer.id}
             layer={layer}
+            opacity={opacity}
             isSelected={selectedLayerId === layer.id}
             onSelect={() => onLayerSelect('emoji', layer.id)}
             onUpdate={(updates) => onLayerUpdate('emoji', layer.id, updates)}
@@ -463,15 +606,18 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
             onDragEnd={() => {
               // IMPORTANT: Do NOT reset isDraggingRef here.
               // We only reset it on the next pointer down, so the post-drag click is ignored.
+              clearSnapGuides();
             }}
+            snapPosition={(position, bypass) => snapLayerPosition(layer.id, position, bypass)}
           />
         ))}
 
         {/* Text Layers - Using TextLayerCanvas for each */}
-        {textLayers.filter(isLayerVisible).map((layer) => (
+        {textLayers.filter(isLayerVisible).map((source) => getAnimatedLayer(source, currentTime)).map(({ layer, opacity }) => (
           <TextLayerCanvas
             key={layer.id}
             layer={layer}
+            opacity={opacity}
             isSelected={selectedLayerId === layer.id}
             isEditing={editingTextId === layer.id}
             onSelect={() => handleTextLayerSelect(layer.id)}
@@ -481,15 +627,39 @@ export const EditorCanvas = forwardRef<EditorCanvasRef, EditorCanvasProps>(({
             onDelete={() => onLayerDelete('text', layer.id)}
             containerWidth={canvasSize.width}
             containerHeight={canvasSize.height}
+            currentTime={currentTime}
             onDragStart={() => {
               isDraggingRef.current = true;
             }}
             onDragEnd={() => {
               // IMPORTANT: Do NOT reset isDraggingRef here.
               // We only reset it on the next pointer down, so the post-drag click is ignored.
+              clearSnapGuides();
             }}
+            snapPosition={(position, bypass) => snapLayerPosition(layer.id, position, bypass)}
           />
         ))}
+
+        {/* Snap guides - safe area outline plus the lines the dragged layer is held on (Ctrl/Cmd disables) */}
+        {snapGuides && (
+          <div className="absolute inset-0 pointer-events-none z-20">
+            <div
+              className="absolute border border-dashed border-white/40"
+              style={{
+                left: `${CANVAS_SAFE_AREA.left}%`,
+                top: `${CANVAS_SAFE_AREA.top}%`,
+                width: `${CANVAS_SAFE_AREA.right - CANVAS_SAFE_AREA.left}%`,
+                height: `${CANVAS_SAFE_AREA.bottom - CANVAS_SAFE_AREA.top}%`,
+              }}
+            />
+            {snapGuides.vertical !== null && (
+              <div className="absolute top-0 bottom-0 w-px bg-cyan-400" style={{ left: `${snapGuides.vertical}%` }} />
+            )}
+            {snapGuides.horizontal !== null && (
+              <div className="absolute left-0 right-0 h-px bg-cyan-400" style={{ top: `${snapGuides.horizontal}%` }} />
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
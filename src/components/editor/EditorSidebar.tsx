@@ -9,10 +9,10 @@ import { Separator } from '@/components/ui/separator';
 import { 
   ChevronLeft, ChevronRight, GripVertical,
   Music, Sparkles, Smile, Type, Image,
-  FileText, LayoutTemplate, Layers, Eye, EyeOff, Trash2
+  FileText, LayoutTemplate, Layers, Eye, EyeOff, Trash2, Film
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { TextLayer, EmojiLayer, ImageLayer, AudioTrack, VideoFilter, Transcript, EditorTemplate, VideoLayer } from '@/types/editor';
+import { TextLayer, EmojiLayer, ImageLayer, OverlayVideoLayer, AudioTrack, AudioDucking, VideoFilter, Transcript, EditorTemplate, EditorProjectData, VideoLayer } from '@/types/editor';
 
 // Panel imports
 import { AudioPanel } from './panels/AudioPanel';
@@ -21,8 +21,11 @@ import { StickersPanel } from './panels/StickersPanel';
 import { TextPanel } from './panels/TextPanel';
 import { MediaPanel } from './panels/MediaPanel';
 import { TranscriptPanel } from './transcript/TranscriptPanel';
+import { CaptionOptions } from '@/lib/captions';
+import { getAudioTrackRole } from '@/lib/audioMix';
 import { TemplatePicker } from './templates/TemplatePicker';
 import { TextLayerEditor } from './text/TextLayerEditor';
+import { OverlayVideoEditor } from './overlay/OverlayVideoEditor';
 
 interface EditorSidebarProps {
   // State
@@ -34,8 +37,10 @@ interface EditorSidebarProps {
   textLayers: TextLayer[];
   emojiLayers: EmojiLayer[];
   imageLayers: ImageLayer[];
+  overlayLayers: OverlayVideoLayer[];
   videoLayers: VideoLayer[];
-  audioTrack: AudioTrack | null;
+  audioTracks: AudioTrack[];
+  audioDucking: AudioDucking;
   
   // Selection
   selectedLayerId: string | null;
@@ -45,6 +50,7 @@ interface EditorSidebarProps {
   duration: number;
   globalFilter: VideoFilter;
   transcript: Transcript | null;
+  projectId?: string;
   
   // Callbacks
   onToggleCollapse: () => void;
@@ -58,11 +64,18 @@ interface EditorSidebarProps {
   onAddEmoji: (emoji: Omit<EmojiLayer, 'id' | 'start' | 'end'>) => void;
   onAddImage: (image: Omit<ImageLayer, 'id' | 'start' | 'end'>) => void;
   onAddVideo: (video: Omit<VideoLayer, 'id'>) => void;
-  onAudioChange: (audio: AudioTrack | null) => void;
+  onAddOverlayVideo: (overlay: Omit<OverlayVideoLayer, 'id' | 'start' | 'end'>) => void;
+  onOverlayUpdate: (id: string, updates: Partial<OverlayVideoLayer>) => void;
+  onAddAudioTrack: (track: AudioTrack) => void;
+  onAudioTrackUpdate: (id: string, updates: Partial<AudioTrack>) => void;
+  onDuckingChange: (updates: Partial<AudioDucking>) => void;
   onFilterChange: (filter: VideoFilter) => void;
   onTranscriptUpdate: (transcript: Transcript | null) => void;
   onAddTextFromTranscript: (text: Omit<TextLayer, 'id'>) => void;
+  onGenerateCaptions: (options: CaptionOptions, source?: Transcript) => void;
   onApplyTemplate: (template: EditorTemplate) => void;
+  buildProject: () => EditorProjectData; // snapshot for "Save as template"
+  currentTime: number;
   onSeek: (time: number) => void;
   
   // Layer update handlers
@@ -82,13 +95,16 @@ export function EditorSidebar({
   textLayers,
   emojiLayers,
   imageLayers,
+  overlayLayers,
   videoLayers,
-  audioTrack,
+  audioTracks,
+  audioDucking,
   selectedLayerId,
   selectedLayerType,
   duration,
   globalFilter,
   transcript,
+  projectId,
   onToggleCollapse,
   onWidthChange,
   onPanelChange,
@@ -98,11 +114,18 @@ export function EditorSidebar({
   onAddEmoji,
   onAddImage,
   onAddVideo,
-  onAudioChange,
+  onAddOverlayVideo,
+  onOverlayUpdate,
+  onAddAudioTrack,
+  onAudioTrackUpdate,
+  onDuckingChange,
   onFilterChange,
   onTranscriptUpdate,
   onAddTextFromTranscript,
+  onGenerateCaptions,
   onApplyTemplate,
+  buildProject,
+  currentTime,
   onSeek,
   onTextUpdate,
   onTextDelete,
@@ -112,11 +135,18 @@ export function EditorSidebar({
   const resizeRef = useRef<HTMLDivElement>(null);
   const sidebarRef = useRef<HTMLDivElement>(null);
 
+  // Transcribe the voiceover when there is one, otherwise the first track
+  const transcriptAudioTrack = audioTracks.find(track => getAudioTrackRole(track) === 'voiceover') ?? audioTracks[0];
+
   // Get selected text layer for editor
   const selectedTextLayer = selectedLayerType === 'text' 
     ? textLayers.find(l => l.id === selectedLayerId) 
     : undefined;
 
+  const selectedOverlayLayer = selectedLayerType === 'overlay-video'
+    ? overlayLayers.find(l => l.id === selectedLayerId)
+    : undefined;
+
   // Resize logic
   const handleResizeStart = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
@@ -149,13 +179,13 @@ export function EditorSidebar({
   }, [isResizing, onWidthChange]);
 
   // Click on layer to select and switch to text panel
-  const handleLayerClick = (type: 'text' | 'emoji' | 'image', id: string) => {
+  const handleLayerClick = (type: 'text' | 'emoji' | 'image' | 'overlay-video', id: string) => {
     onLayerSelect(type, id);
     if (type === 'text') {
       onPanelChange('text');
     } else if (type === 'emoji') {
       onPanelChange('stickers');
-    } else if (type === 'image') {
+    } else if (type === 'image' || type === 'overlay-video') {
       onPanelChange('media');
     }
   };
@@ -285,11 +315,20 @@ export function EditorSidebar({
             <TabsContent value="media" className="h-full m-0 data-[state=active]:flex data-[state=active]:flex-col">
               <ScrollArea className="h-full">
                 <div className="p-4">
-                  <MediaPanel 
-                    onAddVideo={onAddVideo} 
-                    onAddImage={onAddImage}
-                    videoDuration={duration}
-                  />
+                  {selectedOverlayLayer ? (
+                    <OverlayVideoEditor
+                      layer={selectedOverlayLayer}
+                      onUpdate={(updates) => onOverlayUpdate(selectedOverlayLayer.id, updates)}
+                      onDelete={() => onLayerDelete('overlay-video', selectedOverlayLayer.id)}
+                    />
+                  ) : (
+                    <MediaPanel 
+                      onAddVideo={onAddVideo} 
+                      onAddImage={onAddImage}
+                      onAddOverlayVideo={onAddOverlayVideo}
+                      videoDuration={duration}
+                    />
+                  )}
                 </div>
               </ScrollArea>
             </TabsContent>
@@ -325,8 +364,12 @@ export function EditorSidebar({
               <ScrollArea className="h-full">
                 <div className="p-4">
                   <AudioPanel 
-                    audioTrack={audioTrack}
-                    onAudioChange={onAudioChange}
+                    audioTracks={audioTracks}
+                    ducking={audioDucking}
+                    onAddTrack={onAddAudioTrack}
+                    onUpdateTrack={onAudioTrackUpdate}
+                    onRemoveTrack={(id) => onLayerDelete('audio', id)}
+                    onDuckingChange={onDuckingChange}
                     maxDuration={duration}
                   />
                 </div>
@@ -468,8 +511,44 @@ export function EditorSidebar({
                     </div>
                   )}
 
+                  {/* Overlay videos */}
+                  {overlayLayers.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                        Video overlays ({overlayLayers.length})
+                      </div>
+                      <div className="space-y-1">
+                        {overlayLayers.map(layer => (
+                          <div
+                            key={layer.id}
+                            className={cn(
+                              'flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors',
+                              'hover:bg-accent',
+                              selectedLayerId === layer.id && selectedLayerType === 'overlay-video' && 'bg-accent ring-1 ring-primary'
+                            )}
+                            onClick={() => handleLayerClick('overlay-video', layer.id)}
+                          >
+                            <Film className="h-4 w-4 shrink-0" />
+                            <span className="flex-1 text-sm truncate">{layer.fileName || 'Video'}</span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 shrink-0"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onLayerDelete('overlay-video', layer.id);
+                              }}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Empty state */}
-                  {textLayers.length === 0 && emojiLayers.length === 0 && imageLayers.length === 0 && (
+                  {textLayers.length === 0 && emojiLayers.length === 0 && imageLayers.length === 0 && overlayLayers.length === 0 && (
                     <div className="text-center text-muted-foreground text-sm py-8">
                       <Layers className="h-8 w-8 mx-auto mb-2 opacity-50" />
                       <p>No layers yet</p>
@@ -483,10 +562,14 @@ export function EditorSidebar({
             <TabsContent value="transcript" className="h-full m-0 data-[state=active]:flex data-[state=active]:flex-col">
               <ScrollArea className="h-full">
                 <TranscriptPanel
-                  audioUrl={audioTrack?.url}
+                  audioUrl={transcriptAudioTrack?.url}
+                  audioTrackId={transcriptAudioTrack?.id}
+                  projectId={projectId}
                   transcript={transcript}
                   onTranscriptUpdate={onTranscriptUpdate}
                   onAddTextLayer={onAddTextFromTranscript}
+                  onGenerateCaptions={onGenerateCaptions}
+                  captionLayers={transcript ? textLayers.filter((layer) => layer.caption?.transcriptId === transcript.id) : []}
                   onSeek={onSeek}
                 />
               </ScrollArea>
@@ -494,7 +577,7 @@ export function EditorSidebar({
 
             <TabsContent value="templates" className="h-full m-0 data-[state=active]:flex data-[state=active]:flex-col">
               <ScrollArea className="h-full">
-                <TemplatePicker onApplyTemplate={onApplyTemplate} />
+                <TemplatePicker onApplyTemplate={onApplyTemplate} buildProject={buildProject} currentTime={currentTime} />
               </ScrollArea>
             </TabsContent>
           </div>
@@ -2,9 +2,11 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { EmojiLayer } from '@/types/editor';
 import { cn } from '@/lib/utils';
 import { X } from 'lucide-react';
+import { isSnapBypassed } from '@/lib/snapping';
 
 interface EmojiLayerCanvasProps {
   layer: EmojiLayer;
+  opacity?: number; // keyframed opacity at the playhead
   isSelected: boolean;
   onSelect: () => void;
   onUpdate: (updates: Partial<EmojiLayer>) => void;
@@ -13,10 +15,13 @@ interface EmojiLayerCanvasProps {
   containerHeight: number;
   onDragStart?: () => void;
   onDragEnd?: () => void;
+  // Pulls a dragged position onto canvas guides; bypass is true while Ctrl/Cmd is held
+  snapPosition?: (position: { x: number; y: number }, bypass: boolean) => { x: number; y: number };
 }
 
 export function EmojiLayerCanvas({
   layer,
+  opacity = 1,
   isSelected,
   onSelect,
   onUpdate,
@@ -25,6 +30,7 @@ export function EmojiLayerCanvas({
   containerHeight,
   onDragStart,
   onDragEnd,
+  snapPosition,
 }: EmojiLayerCanvasProps) {
   const emojiRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -56,8 +62,11 @@ export function EmojiLayerCanvas({
       const deltaX = e.clientX - dragStart.x;
       const deltaY = e.clientY - dragStart.y;
 
-      const newX = initialPosition.x + (deltaX / containerWidth) * 100;
-      const newY = initialPosition.y + (deltaY / containerHeight) * 100;
+      const dragged = {
+        x: initialPosition.x + (deltaX / containerWidth) * 100,
+        y: initialPosition.y + (deltaY / containerHeight) * 100,
+      };
+      const { x: newX, y: newY } = snapPosition ? snapPosition(dragged, isSnapBypassed(e)) : dragged;
 
       onUpdate({
         position: {
@@ -80,7 +89,7 @@ export function EmojiLayerCanvas({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, dragStart, initialPosition, containerWidth, containerHeight, onUpdate, layer.id, onDragEnd]);
+  }, [isDragging, dragStart, initialPosition, containerWidth, containerHeight, onUpdate, layer.id, onDragEnd, snapPosition]);
 
   // Resize handling
   const handleResizeStart = useCallback((e: React.MouseEvent) => {
@@ -136,6 +145,7 @@ export function EmojiLayerCanvas({
   return (
     <div
       ref={emojiRef}
+      data-layer-id={layer.id}
       className={cn(
         'absolute cursor-move select-none',
         isSelected && 'z-50'
@@ -145,6 +155,7 @@ export function EmojiLayerCanvas({
         top: pixelY,
         transform: `translate(-50%, -50%) scale(${layer.scale}) rotate(${layer.rotation || 0}deg)`,
         transformOrigin: 'center center',
+        opacity,
       }}
       onMouseDown={handleMouseDown}
     >
@@ -0,0 +1,171 @@
+// ExportDialog - Renders the project to a real video file
+// Shows per-frame progress with cancel, then offers download or upload as the project output
+
+import { Download, Upload, Loader2, X, Check, Film } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useProjectRender } from '@/hooks/useProjectRender';
+import { toast } from '@/hooks/use-toast';
+import { EditorProjectData } from '@/types/editor';
+import { RenderStatus } from '@/lib/renderer';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId?: string;
+  projectTitle?: string;
+  buildProject: () => EditorProjectData;
+  rangeStart?: number;
+  rangeEnd?: number;
+  onUploaded?: (outputUrl: string) => void;
+}
+
+const STATUS_LABELS: Record<RenderStatus, string> = {
+  idle: 'Ready to export',
+  preparing: 'Loading media...',
+  mixing: 'Mixing audio...',
+  rendering: 'Rendering frames...',
+  finalizing: 'Finalizing file...',
+  done: 'Export complete',
+  cancelled: 'Export cancelled',
+  failed: 'Export failed',
+};
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  projectId,
+  projectTitle,
+  buildProject,
+  rangeStart,
+  rangeEnd,
+  onUploaded,
+}: ExportDialogProps) {
+  const {
+    progress,
+    result,
+    downloadUrl,
+    error,
+    isRendering,
+    isUploading,
+    outputUrl,
+    startRender,
+    cancelRender,
+    uploadResult,
+    reset,
+  } = useProjectRender(projectId);
+
+  const handleStart = async () => {
+    const project = buildProject();
+    const rendered = await startRender(project, { rangeStart, rangeEnd });
+    if (rendered) {
+      toast({ title: 'Export complete', description: `${rendered.frames} frames rendered` });
+    }
+  };
+
+  const handleUpload = async () => {
+    const url = await uploadResult();
+    if (url) {
+      toast({ title: 'Export uploaded', description: 'The rendered video will be used when publishing, until the project is edited again' });
+      onUploaded?.(url);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      // Closing mid-render cancels; closing afterwards clears the last result
+      if (isRendering) {
+        cancelRender();
+      } else {
+        reset();
+      }
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const fileName = `${(projectTitle || 'export').replace(/[^\w-]+/g, '_')}.${result?.fileExtension ?? 'webm'}`;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Film className="h-5 w-5" />
+            Export video
+          </DialogTitle>
+          <DialogDescription>
+            Bakes text, stickers, filters, trims and mixed audio into a single video file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <div className="flex items-center justify-between text-sm">
+            <span>{STATUS_LABELS[progress.status]}</span>
+            {progress.totalFrames > 0 && (
+              <span className="text-muted-foreground">
+                {progress.frame} / {progress.totalFrames} frames
+              </span>
+            )}
+          </div>
+          <Progress value={Math.round(progress.progress * 100)} className="h-2" />
+
+          {error && (
+            <p className="text-sm text-destructive">{error.message}</p>
+          )}
+
+          {result && (
+            <p className="text-xs text-muted-foreground">
+              {(result.blob.size / 1024 / 1024).toFixed(1)} MB · {result.duration.toFixed(1)}s · {result.mimeType.split(';')[0]}
+            </p>
+          )}
+
+          {outputUrl && (
+            <p className="text-sm flex items-center gap-1 text-primary">
+              <Check className="h-4 w-4" />
+              Uploaded as the project output
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {isRendering ? (
+            <Button variant="outline" onClick={cancelRender}>
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          ) : result && downloadUrl ? (
+            <>
+              <Button variant="outline" asChild>
+                <a href={downloadUrl} download={fileName}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+              <Button onClick={handleUpload} disabled={isUploading || !!outputUrl || !projectId}>
+                {isUploading ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Use for publishing
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handleStart}>
+              <Film className="h-4 w-4 mr-2" />
+              Start export
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+// FilteredVideoCanvas - The editor preview of a <video> with its VideoFilter applied
+// Frames go through the same FilterPipeline as the exporter, so what you grade is what renders
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VideoFilter } from '@/types/editor';
+import { cn } from '@/lib/utils';
+import { FilterPipeline } from '@/lib/filterPipeline';
+import { CubeLut, getLoadedLut, loadLut } from '@/lib/lut';
+
+interface FilteredVideoCanvasProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  src?: string; // the video's source - frames are re-subscribed when it changes
+  filter: VideoFilter;
+  className?: string;
+  style?: React.CSSProperties;
+  onError?: () => void; // the frame can't be read (no CORS) - the caller falls back to CSS filters
+}
+
+export function FilteredVideoCanvas({ videoRef, src, filter, className, style, onError }: FilteredVideoCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pipelineRef = useRef<FilterPipeline | null>(null);
+  const filterRef = useRef(filter);
+  const lutRef = useRef<CubeLut | null>(null);
+  const onErrorRef = useRef(onError);
+  const [lut, setLut] = useState<CubeLut | null>(null);
+  const lutUrl = filter.lut?.url;
+
+  onErrorRef.current = onError;
+
+  const drawFrame = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+    // Blur, sharpen and grain are sized in preview pixels - work out how many source pixels that is
+    const { videoWidth, videoHeight } = video;
+    const fit = Math.min(canvas.clientWidth / videoWidth, canvas.clientHeight / videoHeight);
+    const unit = fit > 0 ? 1 / fit : 1;
+    try {
+      pipelineRef.current ??= new FilterPipeline(canvas);
+      pipelineRef.current.draw(video, videoWidth, videoHeight, {
+        filter: filterRef.current,
+        lut: lutRef.current,
+        unit,
+        time: video.currentTime,
+      });
+    } catch (error) {
+      console.warn('[FILTERS] preview frame could not be filtered, falling back to CSS filters', error);
+      onErrorRef.current?.();
+    }
+  }, [videoRef]);
+
+  // LUTs load in the background; the frame is drawn without one until it arrives
+  useEffect(() => {
+    if (!lutUrl) {
+      setLut(null);
+      return;
+    }
+    let cancelled = false;
+    setLut(getLoadedLut(lutUrl));
+    loadLut(lutUrl)
+      .then(loaded => {
+        if (!cancelled) setLut(loaded);
+      })
+      .catch(error => console.warn('[FILTERS] LUT unavailable, previewing without it', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [lutUrl]);
+
+  // Filter edits redraw the current frame so paused adjustments show immediately
+  useEffect(() => {
+    filterRef.current = filter;
+    lutRef.current = lut;
+    drawFrame();
+  }, [filter, lut, drawFrame]);
+
+  // Draw every decoded frame, plus seeks and loads while paused
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.addEventListener('loadeddata', drawFrame);
+    video.addEventListener('seeked', drawFrame);
+    const removeListeners = () => {
+      video.removeEventListener('loadeddata', drawFrame);
+      video.removeEventListener('seeked', drawFrame);
+    };
+
+    const isPaused = () => video.paused;
+    let handle = 0;
+    let stopped = false;
+    if ('requestVideoFrameCallback' in video) {
+      const onFrame = () => {
+        if (stopped) return;
+        drawFrame();
+        handle = video.requestVideoFrameCallback(onFrame);
+      };
+      handle = video.requestVideoFrameCallback(onFrame);
+      return () => {
+        stopped = true;
+        video.cancelVideoFrameCallback(handle);
+        removeListeners();
+      };
+    }
+
+    const onTick = () => {
+      if (!isPaused()) drawFrame();
+      handle = requestAnimationFrame(onTick);
+    };
+    handle = requestAnimationFrame(onTick);
+    return () => {
+      cancelAnimationFrame(handle);
+      removeListeners();
+    };
+  }, [videoRef, src, drawFrame]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn('absolute inset-0 w-full h-full object-contain pointer-events-none', className)}
+      style={style}
+    />
+  );
+}
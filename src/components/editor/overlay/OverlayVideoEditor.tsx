@@ -0,0 +1,208 @@
+// OverlayVideoEditor - Settings for the selected overlay video
+// Layout (PiP or full frame), blending and green-screen keying; position is dragged on the canvas
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Film, Trash2, Volume2, VolumeX } from 'lucide-react';
+import { BlendMode, ChromaKey, OverlayVideoLayer, defaultChromaKey } from '@/types/editor';
+import { BLEND_MODES, DEFAULT_OVERLAY_POSITION, DEFAULT_OVERLAY_SCALE } from '@/lib/compositor';
+
+interface OverlayVideoEditorProps {
+  layer: OverlayVideoLayer;
+  onUpdate: (updates: Partial<OverlayVideoLayer>) => void;
+  onDelete: () => void;
+}
+
+const KEY_COLOR_PRESETS = [
+  { color: '#00ff00', label: 'Green' },
+  { color: '#0000ff', label: 'Blue' },
+];
+
+export function OverlayVideoEditor({ layer, onUpdate, onDelete }: OverlayVideoEditorProps) {
+  const chromaKey = layer.chromaKey ?? defaultChromaKey;
+
+  const handleKeyChange = (updates: Partial<ChromaKey>) => {
+    onUpdate({ chromaKey: { ...chromaKey, ...updates } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium flex items-center gap-2 min-w-0">
+          <Film className="h-4 w-4 shrink-0" />
+          <span className="truncate">{layer.fileName}</span>
+        </h3>
+        <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={onDelete}>
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {/* Layout */}
+      <div className="space-y-2">
+        <Label className="text-xs">Layout</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onUpdate({ position: DEFAULT_OVERLAY_POSITION, scale: DEFAULT_OVERLAY_SCALE })}
+          >
+            Picture-in-picture
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onUpdate({ position: { x: 50, y: 50 }, scale: 1 })}
+          >
+            Full frame
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Size</Label>
+          <span className="text-xs text-muted-foreground">{Math.round(layer.scale * 100)}%</span>
+        </div>
+        <Slider
+          value={[layer.scale * 100]}
+          onValueChange={(v) => onUpdate({ scale: v[0] / 100 })}
+          min={10}
+          max={150}
+          step={1}
+        />
+      </div>
+
+      {/* Blending */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Opacity</Label>
+          <span className="text-xs text-muted-foreground">{Math.round(layer.opacity * 100)}%</span>
+        </div>
+        <Slider
+          value={[layer.opacity * 100]}
+          onValueChange={(v) => onUpdate({ opacity: v[0] / 100 })}
+          min={0}
+          max={100}
+          step={1}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Blend mode</Label>
+        <Select value={layer.blendMode} onValueChange={(v) => onUpdate({ blendMode: v as BlendMode })}>
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BLEND_MODES.map(({ mode, label }) => (
+              <SelectItem key={mode} value={mode}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Chroma key */}
+      <div className="space-y-3 rounded-md border p-3">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Remove background (chroma key)</Label>
+          <Switch checked={chromaKey.enabled} onCheckedChange={(enabled) => handleKeyChange({ enabled })} />
+        </div>
+
+        {chromaKey.enabled && (
+          <>
+            <div className="flex items-center gap-2">
+              <Input
+                type="color"
+                value={chromaKey.color}
+                onChange={(e) => handleKeyChange({ color: e.target.value })}
+                className="h-8 w-12 p-1"
+              />
+              {KEY_COLOR_PRESETS.map(({ color, label }) => (
+                <Button
+                  key={color}
+                  variant={chromaKey.color === color ? 'secondary' : 'outline'}
+                  size="sm"
+                  className="h-8"
+                  onClick={() => handleKeyChange({ color })}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Tolerance</Label>
+                <span className="text-xs text-muted-foreground">{Math.round(chromaKey.tolerance * 100)}</span>
+              </div>
+              <Slider
+                value={[chromaKey.tolerance * 100]}
+                onValueChange={(v) => handleKeyChange({ tolerance: v[0] / 100 })}
+                min={0}
+                max={100}
+                step={1}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Edge softness</Label>
+                <span className="text-xs text-muted-foreground">{Math.round(chromaKey.softness * 100)}</span>
+              </div>
+              <Slider
+                value={[chromaKey.softness * 100]}
+                onValueChange={(v) => handleKeyChange({ softness: v[0] / 100 })}
+                min={0}
+                max={100}
+                step={1}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Spill suppression</Label>
+                <span className="text-xs text-muted-foreground">{Math.round(chromaKey.spill * 100)}</span>
+              </div>
+              <Slider
+                value={[chromaKey.spill * 100]}
+                onValueChange={(v) => handleKeyChange({ spill: v[0] / 100 })}
+                min={0}
+                max={100}
+                step={1}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Audio */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Volume</Label>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => onUpdate({ muted: !layer.muted })}
+          >
+            {layer.muted ? <VolumeX className="h-3.5 w-3.5" /> : <Volume2 className="h-3.5 w-3.5" />}
+          </Button>
+        </div>
+        <Slider
+          value={[layer.volume * 100]}
+          onValueChange={(v) => onUpdate({ volume: v[0] / 100 })}
+          min={0}
+          max={100}
+          step={1}
+          disabled={layer.muted}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// OverlayVideoLayerCanvas - Picture-in-picture video on the preview canvas
+// A hidden <video> plays on the overlay's own clock; each frame is keyed onto a WebGL canvas, blend mode and opacity are CSS
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { OverlayVideoLayer } from '@/types/editor';
+import { cn } from '@/lib/utils';
+import { ChromaKeyRenderer, getOverlayRect, getOverlaySourceTime } from '@/lib/compositor';
+
+// How far the overlay may drift from the playhead while playing before it is re-seeked
+const DRIFT_TOLERANCE = 0.25;
+
+interface OverlayVideoLayerCanvasProps {
+  layer: OverlayVideoLayer; // with its keyframed transform at the playhead
+  opacity?: number; // keyframed opacity at the playhead
+  currentTime: number;
+  isPlaying: boolean;
+  isSelected: boolean;
+  muted?: boolean;
+  containerWidth: number;
+  containerHeight: number;
+  onMouseDown: (e: React.MouseEvent) => void;
+}
+
+export function OverlayVideoLayerCanvas({
+  layer,
+  opacity = 1,
+  currentTime,
+  isPlaying,
+  isSelected,
+  muted = false,
+  containerWidth,
+  containerHeight,
+  onMouseDown,
+}: OverlayVideoLayerCanvasProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const keyerRef = useRef<ChromaKeyRenderer | null>(null);
+  const chromaKeyRef = useRef(layer.chromaKey);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  // Cross-origin media without CORS can't be read by WebGL - it is shown unkeyed instead
+  const [keyerFailed, setKeyerFailed] = useState(false);
+  const { start, sourceStart, chromaKey } = layer;
+
+  const drawFrame = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+    try {
+      keyerRef.current ??= new ChromaKeyRenderer(canvas);
+      keyerRef.current.draw(video, video.videoWidth, video.videoHeight, chromaKeyRef.current);
+    } catch (error) {
+      console.warn('[COMPOSITOR] overlay frame could not be keyed, showing it unkeyed', error);
+      setKeyerFailed(true);
+    }
+  }, []);
+
+  // Key changes redraw the current frame so paused edits show immediately
+  useEffect(() => {
+    chromaKeyRef.current = chromaKey;
+    drawFrame();
+  }, [chromaKey, drawFrame]);
+
+  // Follow the playhead: re-seek on drift while playing, track it exactly while paused
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const target = getOverlaySourceTime({ start, sourceStart }, currentTime);
+    if (isPlaying) {
+      if (Math.abs(video.currentTime - target) > DRIFT_TOLERANCE) video.currentTime = target;
+      if (video.paused) {
+        video.play().catch(error => console.warn('[COMPOSITOR] overlay play failed', error));
+      }
+    } else {
+      if (!video.paused) video.pause();
+      if (Math.abs(video.currentTime - target) > 0.01) video.currentTime = target;
+    }
+  }, [currentTime, isPlaying, start, sourceStart]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.volume = Math.max(0, Math.min(1, layer.volume));
+    video.muted = muted || !!layer.muted;
+  }, [layer.volume, layer.muted, muted]);
+
+  // Key every decoded frame while playing
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isPlaying || keyerFailed) return;
+
+    let handle = 0;
+    let stopped = false;
+    if ('requestVideoFrameCallback' in video) {
+      const onFrame = () => {
+        if (stopped) return;
+        drawFrame();
+        handle = video.requestVideoFrameCallback(onFrame);
+      };
+      handle = video.requestVideoFrameCallback(onFrame);
+      return () => {
+        stopped = true;
+        video.cancelVideoFrameCallback(handle);
+      };
+    }
+
+    const onTick = () => {
+      drawFrame();
+      handle = requestAnimationFrame(onTick);
+    };
+    handle = requestAnimationFrame(onTick);
+    return () => cancelAnimationFrame(handle);
+  }, [isPlaying, keyerFailed, drawFrame]);
+
+  const handleLoadedData = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+    drawFrame();
+  }, [drawFrame]);
+
+  const rect = getOverlayRect(layer, videoSize.width, videoSize.height, containerWidth, containerHeight);
+
+  return (
+    <div
+      data-layer-id={layer.id}
+      className={cn('absolute cursor-move select-none', isSelected && 'outline outline-2 outline-primary')}
+      style={{
+        left: `${layer.position.x}%`,
+        top: `${layer.position.y}%`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+        transform: `translate(-50%, -50%) rotate(${layer.rotation}deg)`,
+        opacity: layer.opacity * opacity,
+        mixBlendMode: layer.blendMode,
+      }}
+      onMouseDown={onMouseDown}
+    >
+      <canvas
+        ref={canvasRef}
+        className={cn('w-full h-full pointer-events-none', keyerFailed && 'hidden')}
+      />
+      {/* Kept in the layout (not display:none) so browsers keep decoding frames for the keyer */}
+      <video
+        ref={videoRef}
+        src={layer.src}
+        crossOrigin="anonymous"
+        className={cn(
+          'pointer-events-none',
+          keyerFailed ? 'absolute inset-0 w-full h-full' : 'absolute w-px h-px opacity-0'
+        )}
+        playsInline
+        preload="auto"
+        loop={false}
+        controls={false}
+        onLoadedData={handleLoadedData}
+        onSeeked={drawFrame}
+      />
+    </div>
+  );
+}
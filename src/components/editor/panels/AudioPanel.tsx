@@ -3,42 +3,64 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Music, Volume2, VolumeX, Plus, Trash2, ExternalLink, Mic, Waves, Link } from 'lucide-react';
-import { AudioTrack, defaultAudioEffects } from '@/types/editor';
+import { Music, Volume2, VolumeX, Plus, Trash2, ExternalLink, Mic, Waves, Link, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AudioDucking, AudioTrack, defaultAudioEffects } from '@/types/editor';
+import { AUDIO_TRACK_ROLES, getAudioTrackRole } from '@/lib/audioMix';
 import { detectMusicUrl } from '@/utils/musicUrlDetector';
 import { AudioRecorder } from '@/components/editor/audio/AudioRecorder';
 import { AudioEffectsPanel } from '@/components/editor/audio/AudioEffectsPanel';
 
 interface AudioPanelProps {
-  audioTrack: AudioTrack | null;
-  onAudioChange: (audio: AudioTrack | null) => void;
+  audioTracks: AudioTrack[];
+  ducking: AudioDucking;
+  onAddTrack: (track: AudioTrack) => void;
+  onUpdateTrack: (id: string, updates: Partial<AudioTrack>) => void;
+  onRemoveTrack: (id: string) => void;
+  onDuckingChange: (updates: Partial<AudioDucking>) => void;
   maxDuration: number;
 }
 
-export function AudioPanel({ audioTrack, onAudioChange, maxDuration }: AudioPanelProps) {
+// Fades can take at most this long, and never more than half the track
+const MAX_FADE = 5;
+
+export function AudioPanel({
+  audioTracks,
+  ducking,
+  onAddTrack,
+  onUpdateTrack,
+  onRemoveTrack,
+  onDuckingChange,
+  maxDuration,
+}: AudioPanelProps) {
   const [musicUrl, setMusicUrl] = useState('');
   const [isAdding, setIsAdding] = useState(false);
   const [activeTab, setActiveTab] = useState<string>('url');
-  const [showEffects, setShowEffects] = useState(false);
+  const [expandedTrackId, setExpandedTrackId] = useState<string | null>(null);
+  const [effectsTrackId, setEffectsTrackId] = useState<string | null>(null);
+
+  const effectsTrack = audioTracks.find(track => track.id === effectsTrackId);
+  const hasVoiceover = audioTracks.some(track => getAudioTrackRole(track) === 'voiceover');
 
   const handleAddMusic = async () => {
     if (!musicUrl.trim()) return;
-    
+
     setIsAdding(true);
     try {
       const urlInfo = detectMusicUrl(musicUrl);
-      
+
       if (!urlInfo.isValid) {
         console.error('[AUDIO] Invalid music URL:', musicUrl);
         return;
       }
-      
+
       // Extract filename from URL for title
       const urlPath = new URL(musicUrl).pathname;
       const fileName = urlPath.split('/').pop() || 'Audio Track';
       const title = fileName.replace(/\.[^/.]+$/, '').replace(/[-_]/g, ' ');
-      
+
       const newTrack: AudioTrack = {
         id: `audio-${Date.now()}`,
         type: 'audio',
@@ -53,10 +75,12 @@ export function AudioPanel({ audioTrack, onAudioChange, maxDuration }: AudioPane
         volume: 80,
         muted: false,
         effects: defaultAudioEffects,
+        role: 'music',
       };
-      
+
       console.log('[AUDIO] Added track via URL:', newTrack.id, 'url=', musicUrl);
-      onAudioChange(newTrack);
+      onAddTrack(newTrack);
+      setExpandedTrackId(newTrack.id);
       setMusicUrl('');
     } catch (error) {
       console.error('[AUDIO] Failed to add music:', error);
@@ -75,236 +99,332 @@ export function AudioPanel({ audioTrack, onAudioChange, maxDuration }: AudioPane
       startAt: 0,
       endAt: Math.min(recording.duration, maxDuration),
       duration: recording.duration,
-      volume: 80,
+      volume: 100,
       muted: false,
       effects: defaultAudioEffects,
+      role: 'voiceover',
     };
-    
+
     console.log('[AUDIO] Recording added:', recording.id);
-    onAudioChange(newTrack);
+    onAddTrack(newTrack);
+    setExpandedTrackId(newTrack.id);
     setActiveTab('url');
   };
 
-  const handleVolumeChange = (value: number[]) => {
-    if (audioTrack) {
-      console.log('[AUDIO] Volume changed:', value[0], 'id=', audioTrack.id);
-      onAudioChange({ ...audioTrack, volume: value[0] });
-    }
-  };
-
-  const handleStartChange = (value: number[]) => {
-    if (audioTrack) {
-      const newStart = value[0];
-      const newEnd = Math.max(newStart + 1, audioTrack.endAt);
-      console.log('[AUDIO] Start time changed:', newStart, 'id=', audioTrack.id);
-      onAudioChange({ ...audioTrack, startAt: newStart, endAt: Math.min(newEnd, maxDuration) });
-    }
-  };
-
-  const handleEndChange = (value: number[]) => {
-    if (audioTrack) {
-      const newEnd = value[0];
-      const newStart = Math.min(audioTrack.startAt, newEnd - 1);
-      console.log('[AUDIO] End time changed:', newEnd, 'id=', audioTrack.id);
-      onAudioChange({ ...audioTrack, startAt: Math.max(0, newStart), endAt: newEnd });
-    }
+  const handleStartChange = (track: AudioTrack, newStart: number) => {
+    const newEnd = Math.max(newStart + 1, track.endAt);
+    console.log('[AUDIO] Start time changed:', newStart, 'id=', track.id);
+    onUpdateTrack(track.id, { startAt: newStart, endAt: Math.min(newEnd, maxDuration) });
   };
 
-  const handleMuteToggle = () => {
-    if (audioTrack) {
-      console.log('[AUDIO] Mute toggled:', !audioTrack.muted, 'id=', audioTrack.id);
-      onAudioChange({ ...audioTrack, muted: !audioTrack.muted });
-    }
-  };
-
-  const handleRemove = () => {
-    if (audioTrack) {
-      console.log('[AUDIO] Removed track id=', audioTrack.id);
-    }
-    onAudioChange(null);
+  const handleEndChange = (track: AudioTrack, newEnd: number) => {
+    const newStart = Math.min(track.startAt, newEnd - 1);
+    console.log('[AUDIO] End time changed:', newEnd, 'id=', track.id);
+    onUpdateTrack(track.id, { startAt: Math.max(0, newStart), endAt: newEnd });
   };
 
   const handleEffectsChange = (effects: Partial<typeof defaultAudioEffects>) => {
-    if (audioTrack) {
-      const updatedEffects = { ...(audioTrack.effects || defaultAudioEffects), ...effects };
-      console.log('[AUDIO] Effects changed:', effects, 'id=', audioTrack.id);
-      onAudioChange({ ...audioTrack, effects: updatedEffects });
+    if (effectsTrack) {
+      const updatedEffects = { ...(effectsTrack.effects || defaultAudioEffects), ...effects };
+      console.log('[AUDIO] Effects changed:', effects, 'id=', effectsTrack.id);
+      onUpdateTrack(effectsTrack.id, { effects: updatedEffects });
     }
   };
 
-  if (showEffects && audioTrack) {
+  if (effectsTrack) {
     return (
       <div className="space-y-4">
-        <Button 
-          variant="ghost" 
-          size="sm" 
-          onClick={() => setShowEffects(false)}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setEffectsTrackId(null)}
           className="mb-2"
         >
           ← Back to Audio
         </Button>
         <AudioEffectsPanel
-          effects={audioTrack.effects || defaultAudioEffects}
+          effects={effectsTrack.effects || defaultAudioEffects}
           onEffectsChange={handleEffectsChange}
         />
       </div>
     );
   }
 
+  const renderTrackSettings = (track: AudioTrack) => {
+    const maxFade = Math.min(MAX_FADE, (track.endAt - track.startAt) / 2);
+
+    return (
+      <div className="space-y-4 pt-3">
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => setEffectsTrackId(track.id)}
+        >
+          <Waves className="h-4 w-4 mr-2" />
+          Audio Effects
+        </Button>
+
+        {/* Volume Control */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Volume</Label>
+            <span className="text-xs text-muted-foreground">{track.volume}%</span>
+          </div>
+          <Slider
+            value={[track.muted ? 0 : track.volume]}
+            onValueChange={([value]) => onUpdateTrack(track.id, { volume: value })}
+            max={100}
+            step={1}
+            disabled={track.muted}
+          />
+        </div>
+
+        {/* Trim Controls */}
+        <div className="space-y-3">
+          <Label className="text-xs">Trim Audio</Label>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span>Start: {track.startAt.toFixed(1)}s</span>
+            </div>
+            <Slider
+              value={[track.startAt]}
+              onValueChange={([value]) => handleStartChange(track, value)}
+              max={maxDuration - 1}
+              step={0.1}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <span>End: {track.endAt.toFixed(1)}s</span>
+            </div>
+            <Slider
+              value={[track.endAt]}
+              onValueChange={([value]) => handleEndChange(track, value)}
+              min={1}
+              max={maxDuration}
+              step={0.1}
+            />
+          </div>
+        </div>
+
+        {/* Fades */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label className="text-xs">Fade in: {(track.fadeIn ?? 0).toFixed(1)}s</Label>
+            <Slider
+              value={[Math.min(track.fadeIn ?? 0, maxFade)]}
+              onValueChange={([value]) => onUpdateTrack(track.id, { fadeIn: value })}
+              max={maxFade}
+              step={0.1}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs">Fade out: {(track.fadeOut ?? 0).toFixed(1)}s</Label>
+            <Slider
+              value={[Math.min(track.fadeOut ?? 0, maxFade)]}
+              onValueChange={([value]) => onUpdateTrack(track.id, { fadeOut: value })}
+              max={maxFade}
+              step={0.1}
+            />
+          </div>
+        </div>
+
+        {track.volumeEnvelope?.length ? (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{track.volumeEnvelope.length} volume points</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => onUpdateTrack(track.id, { volumeEnvelope: undefined })}
+            >
+              Clear
+            </Button>
+          </div>
+        ) : (
+          <p className="text-[10px] text-muted-foreground">
+            Double-click the track on the timeline to add volume points.
+          </p>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-2 mb-4">
         <Music className="h-4 w-4" />
         <span className="font-medium text-sm">Audio</span>
+        {audioTracks.length > 0 && (
+          <span className="text-xs text-muted-foreground">{audioTracks.length} tracks</span>
+        )}
       </div>
 
-      {!audioTrack ? (
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="url" className="text-xs gap-1">
-              <Link className="h-3 w-3" />
-              URL
-            </TabsTrigger>
-            <TabsTrigger value="record" className="text-xs gap-1">
-              <Mic className="h-3 w-3" />
-              Record
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="url" className="space-y-3 mt-3">
-            <div className="space-y-2">
-              <Label className="text-xs text-muted-foreground">
-                Paste a direct audio URL (mp3, wav, ogg, etc.)
-              </Label>
-              <div className="flex gap-2">
-                <Input
-                  placeholder="https://example.com/audio.mp3"
-                  value={musicUrl}
-                  onChange={(e) => setMusicUrl(e.target.value)}
-                  className="text-sm"
-                />
-                <Button
-                  size="sm"
-                  onClick={handleAddMusic}
-                  disabled={!musicUrl.trim() || isAdding}
-                >
-                  <Plus className="h-4 w-4" />
-                </Button>
-              </div>
-            </div>
-            
-            <div className="text-xs text-muted-foreground space-y-1">
-              <p>Supported formats:</p>
-              <ul className="list-disc list-inside space-y-0.5">
-                <li>MP3 (.mp3)</li>
-                <li>WAV (.wav)</li>
-                <li>OGG (.ogg)</li>
-                <li>AAC (.aac)</li>
-              </ul>
-            </div>
-            
-            <div className="p-3 bg-muted/30 rounded-lg border border-dashed border-muted-foreground/30">
-              <p className="text-xs text-muted-foreground text-center">
-                No audio tracks yet. Add audio via URL above.
-              </p>
-            </div>
-          </TabsContent>
+      {/* Track list */}
+      {audioTracks.map(track => {
+        const isExpanded = expandedTrackId === track.id;
+        const role = getAudioTrackRole(track);
 
-          <TabsContent value="record" className="mt-3">
-            <AudioRecorder
-              onRecordingComplete={handleRecordingComplete}
-              onClose={() => setActiveTab('url')}
-            />
-          </TabsContent>
-        </Tabs>
-      ) : (
-        <div className="space-y-4">
-          {/* Track Info */}
-          <div className="p-3 bg-muted/50 rounded-lg space-y-2">
-            <div className="flex items-start justify-between">
+        return (
+          <div key={track.id} className="p-3 bg-muted/50 rounded-lg">
+            <div className="flex items-start gap-2">
+              <button
+                className="mt-0.5 text-muted-foreground"
+                onClick={() => setExpandedTrackId(isExpanded ? null : track.id)}
+                title={isExpanded ? 'Hide settings' : 'Show settings'}
+              >
+                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </button>
               <div className="flex-1 min-w-0">
-                <p className="font-medium text-sm truncate">{audioTrack.title}</p>
-                <p className="text-xs text-muted-foreground truncate">{audioTrack.artist}</p>
+                <p className="font-medium text-sm truncate">{track.title}</p>
+                {track.artist && <p className="text-xs text-muted-foreground truncate">{track.artist}</p>}
                 <div className="flex items-center gap-1 mt-1">
                   <ExternalLink className="h-3 w-3 text-muted-foreground" />
-                  <span className="text-xs text-muted-foreground capitalize">{audioTrack.sourceType}</span>
+                  <span className="text-xs text-muted-foreground capitalize">{track.sourceType}</span>
                 </div>
               </div>
-              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleRemove}>
-                <Trash2 className="h-4 w-4 text-destructive" />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => onUpdateTrack(track.id, { muted: !track.muted })}
+                title={track.muted ? 'Unmute track' : 'Mute track'}
+              >
+                {track.muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
               </Button>
-            </div>
-          </div>
-
-          {/* Effects Button */}
-          <Button 
-            variant="outline" 
-            size="sm" 
-            className="w-full"
-            onClick={() => setShowEffects(true)}
-          >
-            <Waves className="h-4 w-4 mr-2" />
-            Audio Effects
-          </Button>
-
-          {/* Volume Control */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <Label className="text-xs">Volume</Label>
               <Button
                 variant="ghost"
                 size="icon"
-                className="h-6 w-6"
-                onClick={handleMuteToggle}
+                className="h-8 w-8"
+                onClick={() => {
+                  console.log('[AUDIO] Removed track id=', track.id);
+                  onRemoveTrack(track.id);
+                }}
               >
-                {audioTrack.muted ? (
-                  <VolumeX className="h-4 w-4" />
-                ) : (
-                  <Volume2 className="h-4 w-4" />
-                )}
+                <Trash2 className="h-4 w-4 text-destructive" />
               </Button>
             </div>
-            <Slider
-              value={[audioTrack.muted ? 0 : audioTrack.volume]}
-              onValueChange={handleVolumeChange}
-              max={100}
-              step={1}
-              disabled={audioTrack.muted}
-            />
-            <span className="text-xs text-muted-foreground">{audioTrack.volume}%</span>
+
+            {/* Role decides ducking: music drops under voice */}
+            <div className="flex gap-1 mt-2">
+              {AUDIO_TRACK_ROLES.map(option => (
+                <button
+                  key={option.id}
+                  className={cn(
+                    'flex-1 text-[10px] rounded border px-1.5 py-0.5 transition-colors',
+                    role === option.id ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+                  )}
+                  onClick={() => onUpdateTrack(track.id, { role: option.id })}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {isExpanded && renderTrackSettings(track)}
           </div>
+        );
+      })}
 
-          {/* Trim Controls */}
-          <div className="space-y-3">
-            <Label className="text-xs">Trim Audio</Label>
-            
+      {/* Ducking */}
+      {audioTracks.length > 0 && (
+        <div className="p-3 rounded-lg border border-border space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="audio-ducking" className="text-xs">Duck music under voice</Label>
+              {!hasVoiceover && (
+                <p className="text-[10px] text-muted-foreground">Applies once a track is set to Voice</p>
+              )}
+            </div>
+            <Switch
+              id="audio-ducking"
+              checked={ducking.enabled}
+              onCheckedChange={(enabled) => onDuckingChange({ enabled })}
+            />
+          </div>
+          {ducking.enabled && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-xs">
-                <span>Start: {audioTrack.startAt.toFixed(1)}s</span>
+                <span>Amount</span>
+                <span className="text-muted-foreground">-{Math.round(ducking.amount * 100)}%</span>
               </div>
               <Slider
-                value={[audioTrack.startAt]}
-                onValueChange={handleStartChange}
-                max={maxDuration - 1}
-                step={0.1}
+                value={[ducking.amount * 100]}
+                onValueChange={([value]) => onDuckingChange({ amount: value / 100 })}
+                max={100}
+                step={5}
               />
             </div>
+          )}
+        </div>
+      )}
 
-            <div className="space-y-2">
-              <div className="flex items-center justify-between text-xs">
-                <span>End: {audioTrack.endAt.toFixed(1)}s</span>
-              </div>
-              <Slider
-                value={[audioTrack.endAt]}
-                onValueChange={handleEndChange}
-                min={1}
-                max={maxDuration}
-                step={0.1}
+      {/* Add track */}
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="url" className="text-xs gap-1">
+            <Link className="h-3 w-3" />
+            URL
+          </TabsTrigger>
+          <TabsTrigger value="record" className="text-xs gap-1">
+            <Mic className="h-3 w-3" />
+            Record
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="url" className="space-y-3 mt-3">
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">
+              Paste a direct audio URL (mp3, wav, ogg, etc.)
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="https://example.com/audio.mp3"
+                value={musicUrl}
+                onChange={(e) => setMusicUrl(e.target.value)}
+                className="text-sm"
               />
+              <Button
+                size="sm"
+                onClick={handleAddMusic}
+                disabled={!musicUrl.trim() || isAdding}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
             </div>
           </div>
-        </div>
-      )}
+
+          {audioTracks.length === 0 && (
+            <>
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p>Supported formats:</p>
+                <ul className="list-disc list-inside space-y-0.5">
+                  <li>MP3 (.mp3)</li>
+                  <li>WAV (.wav)</li>
+                  <li>OGG (.ogg)</li>
+                  <li>AAC (.aac)</li>
+                </ul>
+              </div>
+
+              <div className="p-3 bg-muted/30 rounded-lg border border-dashed border-muted-foreground/30">
+                <p className="text-xs text-muted-foreground text-center">
+                  No audio tracks yet. Add music via URL or record a voiceover.
+                </p>
+              </div>
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="record" className="mt-3">
+          <AudioRecorder
+            onRecordingComplete={handleRecordingComplete}
+            onClose={() => setActiveTab('url')}
+          />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
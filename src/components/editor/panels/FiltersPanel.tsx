@@ -1,9 +1,12 @@
+import { useRef } from 'react';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { Sparkles, RotateCcw } from 'lucide-react';
+import { Sparkles, RotateCcw, Upload, Loader2, X } from 'lucide-react';
 import { VideoFilter, defaultVideoFilter } from '@/types/editor';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAuth } from '@/hooks/useAuth';
+import { FilterLutRecord, useFilterLuts } from '@/hooks/useFilterLuts';
 
 interface FiltersPanelProps {
   filter: VideoFilter;
@@ -204,23 +207,60 @@ const basicFilterPresets: { id: string; name: string; filter: VideoFilter }[] =
   },
 ];
 
+type FilterControlKey = Exclude<keyof VideoFilter, 'warmth' | 'lut'>;
+
 export function FiltersPanel({ filter, onFilterChange }: FiltersPanelProps) {
-  const handleChange = (key: keyof VideoFilter, value: number) => {
+  const { user } = useAuth();
+  const { luts, importing, importLut, deleteLut } = useFilterLuts(user?.id);
+  const lutInputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (key: FilterControlKey, value: number) => {
     onFilterChange({ ...filter, [key]: value });
   };
 
+  // Presets replace the adjustments but keep the chosen LUT
+  const handlePresetSelect = (preset: VideoFilter) => {
+    onFilterChange({ ...preset, lut: filter.lut });
+  };
+
+  const handleLutSelect = (lut: FilterLutRecord | null) => {
+    onFilterChange({
+      ...filter,
+      lut: lut ? { id: lut.id, name: lut.name, url: lut.url, intensity: filter.lut?.intensity ?? 100 } : undefined,
+    });
+  };
+
+  const handleLutImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const lut = await importLut(file);
+    if (lut) handleLutSelect(lut);
+  };
+
+  const handleLutDelete = async (lut: FilterLutRecord) => {
+    const deleted = await deleteLut(lut);
+    if (deleted && filter.lut?.url === lut.url) handleLutSelect(null);
+  };
+
   const handleReset = () => {
     onFilterChange(defaultVideoFilter);
   };
 
-  const filterControls = [
-    { key: 'brightness' as const, label: 'Brightness', min: 0, max: 200, default: 100 },
-    { key: 'contrast' as const, label: 'Contrast', min: 0, max: 200, default: 100 },
-    { key: 'saturation' as const, label: 'Saturation', min: 0, max: 200, default: 100 },
-    { key: 'temperature' as const, label: 'Temperature', min: -100, max: 100, default: 0 },
-    { key: 'blur' as const, label: 'Blur', min: 0, max: 20, default: 0 },
+  const filterControls: { key: FilterControlKey; label: string; min: number; max: number; default: number }[] = [
+    { key: 'brightness', label: 'Brightness', min: 0, max: 200, default: 100 },
+    { key: 'contrast', label: 'Contrast', min: 0, max: 200, default: 100 },
+    { key: 'saturation', label: 'Saturation', min: 0, max: 200, default: 100 },
+    { key: 'temperature', label: 'Temperature', min: -100, max: 100, default: 0 },
+    { key: 'highlights', label: 'Highlights', min: -100, max: 100, default: 0 },
+    { key: 'shadows', label: 'Shadows', min: -100, max: 100, default: 0 },
+    { key: 'vignette', label: 'Vignette', min: 0, max: 100, default: 0 },
+    { key: 'sharpen', label: 'Sharpen', min: 0, max: 100, default: 0 },
+    { key: 'grain', label: 'Grain', min: 0, max: 100, default: 0 },
+    { key: 'blur', label: 'Blur', min: 0, max: 20, default: 0 },
   ];
 
+  const activeLut = filter.lut;
   const isModified = JSON.stringify(filter) !== JSON.stringify(defaultVideoFilter);
 
   // Generate CSS filter string for preview thumbnails
@@ -281,11 +321,11 @@ export function FiltersPanel({ filter, onFilterChange }: FiltersPanelProps) {
               <div className="flex items-center justify-between">
                 <Label className="text-xs">{label}</Label>
                 <span className="text-xs text-muted-foreground">
-                  {filter[key]}{key === 'temperature' ? '' : '%'}
+                  {filter[key] ?? defaultValue}{min < 0 ? '' : '%'}
                 </span>
               </div>
               <Slider
-                value={[filter[key]]}
+                value={[filter[key] ?? defaultValue]}
                 onValueChange={(v) => handleChange(key, v[0])}
                 min={min}
                 max={max}
@@ -302,7 +342,7 @@ export function FiltersPanel({ filter, onFilterChange }: FiltersPanelProps) {
             {cityFilterPresets.map((preset) => (
               <button
                 key={preset.id}
-                onClick={() => onFilterChange(preset.filter)}
+                onClick={() => handlePresetSelect(preset.filter)}
                 className={`relative overflow-hidden rounded-lg border transition-all ${
                   isFilterActive(preset.filter)
                     ? 'border-primary ring-2 ring-primary/20'
@@ -333,13 +373,85 @@ export function FiltersPanel({ filter, onFilterChange }: FiltersPanelProps) {
                 variant={isFilterActive(preset.filter) ? 'default' : 'outline'}
                 size="sm"
                 className="text-xs h-8"
-                onClick={() => onFilterChange(preset.filter)}
+                onClick={() => handlePresetSelect(preset.filter)}
               >
                 {preset.name}
               </Button>
             ))}
           </div>
         </div>
+
+        {/* LUT Section - .cube files from the user's library */}
+        <div className="space-y-2 pt-2 border-t border-border">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs font-medium">LUTs</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => lutInputRef.current?.click()}
+              disabled={!user || importing}
+            >
+              {importing ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Upload className="h-3 w-3 mr-1" />}
+              Import .cube
+            </Button>
+            <input
+              ref={lutInputRef}
+              type="file"
+              accept=".cube"
+              className="hidden"
+              onChange={handleLutImport}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant={filter.lut ? 'outline' : 'default'}
+              size="sm"
+              className="text-xs h-8"
+              onClick={() => handleLutSelect(null)}
+            >
+              None
+            </Button>
+            {luts.map((lut) => (
+              <div key={lut.id} className="relative group">
+                <Button
+                  variant={filter.lut?.url === lut.url ? 'default' : 'outline'}
+                  size="sm"
+                  className="text-xs h-8 w-full pr-6"
+                  onClick={() => handleLutSelect(lut)}
+                  title={lut.name}
+                >
+                  <span className="truncate">{lut.name}</span>
+                </Button>
+                <button
+                  onClick={() => handleLutDelete(lut)}
+                  className="absolute right-1 top-1/2 -translate-y-1/2 p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-destructive/20 transition-opacity"
+                  aria-label={`Delete ${lut.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          {luts.length === 0 && (
+            <p className="text-xs text-muted-foreground">Import a .cube LUT to save it as a look.</p>
+          )}
+          {activeLut && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">Intensity</Label>
+                <span className="text-xs text-muted-foreground">{activeLut.intensity}%</span>
+              </div>
+              <Slider
+                value={[activeLut.intensity]}
+                onValueChange={(v) => onFilterChange({ ...filter, lut: { ...activeLut, intensity: v[0] } })}
+                min={0}
+                max={100}
+                step={1}
+              />
+            </div>
+          )}
+        </div>
       </div>
     </ScrollArea>
   );
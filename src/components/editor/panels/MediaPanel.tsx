@@ -1,19 +1,27 @@
-import { useRef } from 'react';
+import { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { Image, Video, Plus, Upload } from 'lucide-react';
-import { ImageLayer, VideoLayer } from '@/types/editor';
+import { Image, Upload, PictureInPicture2, Loader2 } from 'lucide-react';
+import { ImageLayer, VideoLayer, OverlayVideoLayer } from '@/types/editor';
 import { loadVideoMetadata } from '@/utils/videoMetadata';
+import { uploadVideo, getVideoMetadata } from '@/lib/storage';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { DEFAULT_OVERLAY_POSITION, DEFAULT_OVERLAY_SCALE } from '@/lib/compositor';
 
 interface MediaPanelProps {
   onAddImage: (image: Omit<ImageLayer, 'id'>) => void;
   onAddVideo: (video: Omit<VideoLayer, 'id'>) => void;
+  onAddOverlayVideo: (overlay: Omit<OverlayVideoLayer, 'id' | 'start' | 'end'>) => void;
   videoDuration: number;
 }
 
-export function MediaPanel({ onAddImage, onAddVideo, videoDuration }: MediaPanelProps) {
+export function MediaPanel({ onAddImage, onAddVideo, onAddOverlayVideo, videoDuration }: MediaPanelProps) {
   const imageInputRef = useRef<HTMLInputElement>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
+  const overlayInputRef = useRef<HTMLInputElement>(null);
+  const [isUploadingOverlay, setIsUploadingOverlay] = useState(false);
+  const { user } = useAuth();
 
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -75,6 +83,42 @@ export function MediaPanel({ onAddImage, onAddVideo, videoDuration }: MediaPanel
     }
   };
 
+  // Overlays are stored like timeline clips - a data URL would bloat the saved project
+  const handleOverlayUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (overlayInputRef.current) {
+      overlayInputRef.current.value = '';
+    }
+    if (!file || !user) return;
+
+    setIsUploadingOverlay(true);
+    try {
+      const { publicUrl } = await uploadVideo(file, user.id, { folder: 'overlays' });
+      const metadata = await getVideoMetadata(publicUrl);
+      onAddOverlayVideo({
+        type: 'overlay-video',
+        src: publicUrl,
+        fileName: file.name,
+        duration: metadata.duration,
+        volume: 1,
+        position: DEFAULT_OVERLAY_POSITION,
+        scale: DEFAULT_OVERLAY_SCALE,
+        rotation: 0,
+        opacity: 1,
+        blendMode: 'normal',
+      });
+    } catch (error) {
+      console.error('[Media] Overlay upload failed:', error);
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'Could not add the overlay video',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploadingOverlay(false);
+    }
+  };
+
   return (
     <div className="p-4 space-y-4">
       <div className="flex items-center gap-2 text-sm font-medium">
@@ -105,7 +149,7 @@ export function MediaPanel({ onAddImage, onAddVideo, videoDuration }: MediaPanel
 
         {/* Add Video */}
         <div className="space-y-2">
-          <Label className="text-xs">Add Video Overlay</Label>
+          <Label className="text-xs">Add Video Clip</Label>
           <input
             ref={videoInputRef}
             type="file"
@@ -122,13 +166,39 @@ export function MediaPanel({ onAddImage, onAddVideo, videoDuration }: MediaPanel
             Upload Video
           </Button>
         </div>
+
+        {/* Add Overlay Video */}
+        <div className="space-y-2">
+          <Label className="text-xs">Add Video Overlay</Label>
+          <input
+            ref={overlayInputRef}
+            type="file"
+            accept="video/*"
+            onChange={handleOverlayUpload}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            className="w-full justify-start"
+            disabled={isUploadingOverlay || !user}
+            onClick={() => overlayInputRef.current?.click()}
+          >
+            {isUploadingOverlay ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <PictureInPicture2 className="h-4 w-4 mr-2" />
+            )}
+            Picture-in-picture / Green screen
+          </Button>
+        </div>
       </div>
 
       <div className="text-xs text-muted-foreground space-y-1">
         <p>Tips:</p>
         <ul className="list-disc list-inside space-y-0.5">
           <li>Images will be added as overlays</li>
-          <li>Videos will play alongside main video</li>
+          <li>Video clips are added to the end of the main track</li>
+          <li>Overlay videos play on top of it from the playhead</li>
           <li>Drag to reposition on canvas</li>
           <li>Use timeline to adjust duration</li>
         </ul>
@@ -0,0 +1,185 @@
+// ApplyTemplateDialog - Fills a template's placeholder slots before applying it
+// Media slots take a new clip or image (clips are fitted to the slot's length), text slots take new wording
+
+import { useEffect, useRef, useState } from 'react';
+import { Film, Image, Type, Upload, Loader2, Check } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { EditorTemplate, TemplatePlaceholder } from '@/types/editor';
+import { TemplateFills, fillTemplate } from '@/lib/templates';
+import { getTimelineDuration } from '@/lib/clipTiming';
+import { uploadVideo, getVideoMetadata } from '@/lib/storage';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+interface ApplyTemplateDialogProps {
+  template: EditorTemplate | null; // open while set
+  onOpenChange: (open: boolean) => void;
+  onApply: (template: EditorTemplate) => void;
+}
+
+const SLOT_ICONS = { video: Film, image: Image, text: Type };
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read file'));
+    reader.readAsDataURL(file);
+  });
+
+export function ApplyTemplateDialog({ template, onOpenChange, onApply }: ApplyTemplateDialogProps) {
+  const { user } = useAuth();
+  const [fills, setFills] = useState<TemplateFills>({});
+  const [uploadingSlot, setUploadingSlot] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pendingSlotRef = useRef<TemplatePlaceholder | null>(null);
+
+  useEffect(() => {
+    setFills({});
+  }, [template?.id]);
+
+  if (!template) return null;
+  const slots = template.placeholders ?? [];
+
+  const getSlotLayer = (slot: TemplatePlaceholder) => {
+    if (slot.layerType === 'video') return template.videoLayers?.find(layer => layer.id === slot.layerId);
+    if (slot.layerType === 'image') return template.imageLayers?.find(layer => layer.id === slot.layerId);
+    return template.textLayers?.find(layer => layer.id === slot.layerId);
+  };
+
+  const chooseMedia = (slot: TemplatePlaceholder) => {
+    pendingSlotRef.current = slot;
+    if (fileInputRef.current) {
+      fileInputRef.current.accept = slot.layerType === 'video' ? 'video/*' : 'image/*';
+      fileInputRef.current.click();
+    }
+  };
+
+  // Clips are uploaded like other timeline media; images stay data URLs like MediaPanel's image overlays
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const slot = pendingSlotRef.current;
+    event.target.value = '';
+    if (!file || !slot) return;
+
+    setUploadingSlot(slot.id);
+    try {
+      if (slot.layerType === 'video') {
+        if (!user) throw new Error('Sign in to upload clips');
+        const { publicUrl } = await uploadVideo(file, user.id, { folder: 'templates' });
+        const metadata = await getVideoMetadata(publicUrl);
+        setFills(prev => ({ ...prev, [slot.id]: { kind: 'media', src: publicUrl, fileName: file.name, duration: metadata.duration } }));
+      } else {
+        const src = await readAsDataUrl(file);
+        setFills(prev => ({ ...prev, [slot.id]: { kind: 'media', src, fileName: file.name } }));
+      }
+    } catch (error) {
+      console.error('[Templates] Slot upload failed:', error);
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'Could not add this file',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadingSlot(null);
+    }
+  };
+
+  const handleApply = () => {
+    onApply(fillTemplate(template, fills));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={uploadingSlot ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{template.name}</DialogTitle>
+          <DialogDescription>
+            Fill in the slots - anything you skip keeps the template's own media and text.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+
+        <ScrollArea className="max-h-80">
+          <div className="space-y-3 pr-2">
+            {slots.map((slot) => {
+              const Icon = SLOT_ICONS[slot.layerType];
+              const layer = getSlotLayer(slot);
+              const fill = fills[slot.id];
+
+              if (slot.kind === 'text') {
+                const original = layer && 'content' in layer ? layer.content : '';
+                return (
+                  <div key={slot.id} className="space-y-1.5">
+                    <Label className="text-xs flex items-center gap-1.5">
+                      <Icon className="h-3.5 w-3.5" />
+                      {slot.label}
+                    </Label>
+                    <Input
+                      value={fill?.kind === 'text' ? fill.content : original}
+                      onChange={(e) => setFills(prev => ({ ...prev, [slot.id]: { kind: 'text', content: e.target.value } }))}
+                    />
+                  </div>
+                );
+              }
+
+              const slotLength = layer && slot.layerType === 'video' && 'duration' in layer
+                ? getTimelineDuration(layer)
+                : null;
+              return (
+                <div key={slot.id} className="flex items-center gap-2 rounded-md border p-2">
+                  <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium truncate">{slot.label}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {fill?.kind === 'media' ? fill.fileName : 'Template media'}
+                      {slotLength !== null && ` · fits to ${slotLength.toFixed(1)}s`}
+                    </p>
+                  </div>
+                  <Button
+                    variant={fill ? 'secondary' : 'outline'}
+                    size="sm"
+                    className="h-7 text-xs shrink-0"
+                    disabled={uploadingSlot !== null}
+                    onClick={() => chooseMedia(slot)}
+                  >
+                    {uploadingSlot === slot.id ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : fill ? (
+                      <Check className="h-3 w-3 mr-1" />
+                    ) : (
+                      <Upload className="h-3 w-3 mr-1" />
+                    )}
+                    {fill ? 'Replace' : 'Choose'}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={uploadingSlot !== null}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={uploadingSlot !== null}>
+            Apply template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+// SaveTemplateDialog - Saves the current project as a reusable template
+// The creator names it, marks which clips/images are media drop zones and which texts are editable, and may share it
+
+import { useEffect, useRef, useState } from 'react';
+import { Film, Image, Type, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { EditorProjectData, TemplatePlaceholder } from '@/types/editor';
+import { ProjectRenderer } from '@/lib/renderer';
+import { createTemplateFromProject, getPlaceholderCandidates } from '@/lib/templates';
+import { SaveTemplateRequest } from '@/hooks/useEditorTemplates';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  buildProject: () => EditorProjectData;
+  thumbnailTime: number; // the frame at this time becomes the thumbnail
+  saving: boolean;
+  onSave: (request: SaveTemplateRequest) => Promise<unknown>;
+}
+
+const SLOT_ICONS = { video: Film, image: Image, text: Type };
+
+export function SaveTemplateDialog({ open, onOpenChange, buildProject, thumbnailTime, saving, onSave }: SaveTemplateDialogProps) {
+  const [project, setProject] = useState<EditorProjectData | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isPublic, setIsPublic] = useState(false);
+  const [candidates, setCandidates] = useState<TemplatePlaceholder[]>([]);
+  const [selectedSlots, setSelectedSlots] = useState<Set<string>>(new Set());
+  const [isCapturing, setIsCapturing] = useState(false);
+  const buildProjectRef = useRef(buildProject);
+  buildProjectRef.current = buildProject;
+
+  // Snapshot the project when the dialog opens; clips are slots by default since they are what people swap
+  useEffect(() => {
+    if (!open) return;
+    const snapshot = buildProjectRef.current();
+    const slots = getPlaceholderCandidates(snapshot);
+    setProject(snapshot);
+    setCandidates(slots);
+    setSelectedSlots(new Set(slots.filter(slot => slot.layerType === 'video').map(slot => slot.id)));
+    setName('');
+    setDescription('');
+    setIsPublic(false);
+  }, [open]);
+
+  const toggleSlot = (id: string, checked: boolean) => {
+    setSelectedSlots(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const renameSlot = (id: string, label: string) => {
+    setCandidates(prev => prev.map(slot => (slot.id === id ? { ...slot, label } : slot)));
+  };
+
+  const handleSave = async () => {
+    if (!project || !name.trim()) return;
+    const placeholders = candidates
+      .filter(slot => selectedSlots.has(slot.id))
+      .map(slot => ({ ...slot, label: slot.label.trim() || 'Slot' }));
+
+    // A missing thumbnail shouldn't stop the save - the picker shows a placeholder instead
+    setIsCapturing(true);
+    let thumbnail: Blob | null = null;
+    try {
+      thumbnail = await new ProjectRenderer(project).renderStill(thumbnailTime);
+    } catch (error) {
+      console.warn('[Templates] Thumbnail capture failed, saving without one:', error);
+    } finally {
+      setIsCapturing(false);
+    }
+
+    const template = createTemplateFromProject(project, { name, description }, placeholders);
+    const saved = await onSave({ template, thumbnail, isPublic });
+    if (saved) onOpenChange(false);
+  };
+
+  const busy = saving || isCapturing;
+
+  return (
+    <Dialog open={open} onOpenChange={busy ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            Marked slots are filled in by whoever uses the template; everything else is kept as you made it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name" className="text-xs">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              maxLength={80}
+              placeholder="e.g. Weekly recap"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-description" className="text-xs">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              maxLength={300}
+              rows={2}
+              placeholder="What is this template for?"
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Placeholders</Label>
+            {candidates.length === 0 ? (
+              <p className="text-xs text-muted-foreground">Add clips, images or text to mark them as slots.</p>
+            ) : (
+              <ScrollArea className="max-h-48 rounded-md border">
+                <div className="p-2 space-y-1.5">
+                  {candidates.map((slot) => {
+                    const Icon = SLOT_ICONS[slot.layerType];
+                    const checked = selectedSlots.has(slot.id);
+                    return (
+                      <div key={slot.id} className="flex items-center gap-2">
+                        <Checkbox checked={checked} onCheckedChange={(value) => toggleSlot(slot.id, value === true)} />
+                        <Icon className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                        <Input
+                          value={slot.label}
+                          disabled={!checked}
+                          maxLength={40}
+                          className="h-7 text-xs"
+                          onChange={(e) => renameSlot(slot.id, e.target.value)}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label className="text-xs">Share with everyone</Label>
+              <p className="text-xs text-muted-foreground">Other creators can find and use it</p>
+            </div>
+            <Switch checked={isPublic} onCheckedChange={setIsPublic} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={busy || !name.trim() || !project}>
+            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isCapturing ? 'Capturing thumbnail...' : 'Save template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
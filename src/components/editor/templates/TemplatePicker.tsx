@@ -1,14 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
-import { LayoutTemplate, Search, Check, Loader2 } from 'lucide-react';
+import { LayoutTemplate, Search, Check, Loader2, Plus, Trash2, Globe } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { EditorTemplate } from '@/types/editor';
+import { EditorProjectData, EditorTemplate } from '@/types/editor';
 import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useEditorTemplates } from '@/hooks/useEditorTemplates';
+import { searchTemplates } from '@/lib/templates';
+import { SaveTemplateDialog } from './SaveTemplateDialog';
+import { ApplyTemplateDialog } from './ApplyTemplateDialog';
 
 interface TemplatePickerProps {
   onApplyTemplate: (template: EditorTemplate) => void;
+  buildProject?: () => EditorProjectData; // enables "Save as template"
+  currentTime?: number; // saved templates use the frame at the playhead as their thumbnail
 }
 
 // Built-in templates
@@ -270,20 +277,19 @@ const BUILT_IN_TEMPLATES: EditorTemplate[] = [
   },
 ];
 
-export function TemplatePicker({ onApplyTemplate }: TemplatePickerProps) {
-  const [templates, setTemplates] = useState<EditorTemplate[]>(BUILT_IN_TEMPLATES);
+export function TemplatePicker({ onApplyTemplate, buildProject, currentTime = 0 }: TemplatePickerProps) {
+  const { user } = useAuth();
+  const { templates: userTemplates, loading: isLoading, saving, saveTemplate, deleteTemplate } = useEditorTemplates(user?.id);
   const [searchQuery, setSearchQuery] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [fillingTemplate, setFillingTemplate] = useState<EditorTemplate | null>(null);
 
-  // Filter templates by search
-  const filteredTemplates = templates.filter(
-    (template) =>
-      template.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      template.description?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Saved templates (the user's own and shared ones) come before the built-ins
+  const templates = [...userTemplates, ...BUILT_IN_TEMPLATES];
+  const filteredTemplates = searchTemplates(templates, searchQuery);
 
-  const handleApplyTemplate = (template: EditorTemplate) => {
+  const applyTemplate = (template: EditorTemplate) => {
     setSelectedId(template.id);
     onApplyTemplate(template);
     toast({
@@ -292,6 +298,21 @@ export function TemplatePicker({ onApplyTemplate }: TemplatePickerProps) {
     });
   };
 
+  // Templates with slots are filled in first
+  const handleApplyTemplate = (template: EditorTemplate) => {
+    if (template.placeholders?.length) {
+      setFillingTemplate(template);
+    } else {
+      applyTemplate(template);
+    }
+  };
+
+  const handleDeleteTemplate = async (e: React.MouseEvent, template: EditorTemplate) => {
+    e.stopPropagation();
+    const deleted = await deleteTemplate(template);
+    if (deleted && selectedId === template.id) setSelectedId(null);
+  };
+
   const formatDuration = (seconds: number): string => {
     return `${seconds}s`;
   };
@@ -299,9 +320,23 @@ export function TemplatePicker({ onApplyTemplate }: TemplatePickerProps) {
   return (
     <div className="flex flex-col h-full">
       <div className="p-4 space-y-3 border-b border-border">
-        <div className="flex items-center gap-2">
-          <LayoutTemplate className="h-4 w-4" />
-          <h3 className="text-sm font-medium">Templates</h3>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <LayoutTemplate className="h-4 w-4" />
+            <h3 className="text-sm font-medium">Templates</h3>
+          </div>
+          {buildProject && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={!user}
+              onClick={() => setIsSaveOpen(true)}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Save current
+            </Button>
+          )}
         </div>
 
         {/* Search */}
@@ -319,7 +354,7 @@ export function TemplatePicker({ onApplyTemplate }: TemplatePickerProps) {
       {/* Template grid */}
       <ScrollArea className="flex-1">
         <div className="p-3 grid grid-cols-2 gap-3">
-          {isLoading ? (
+          {isLoading && userTemplates.length === 0 ? (
             <div className="col-span-2 flex items-center justify-center py-8">
               <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
             </div>
@@ -339,17 +374,44 @@ export function TemplatePicker({ onApplyTemplate }: TemplatePickerProps) {
               >
                 {/* Thumbnail */}
                 <div className="aspect-[9/16] bg-gradient-to-br from-muted to-muted/50 flex items-center justify-center">
-                  <LayoutTemplate className="h-8 w-8 text-muted-foreground/50" />
+                  {template.thumbnailUrl && template.thumbnailUrl !== '/placeholder.svg' ? (
+                    <img src={template.thumbnailUrl} alt="" className="w-full h-full object-cover" loading="lazy" />
+                  ) : (
+                    <LayoutTemplate className="h-8 w-8 text-muted-foreground/50" />
+                  )}
                 </div>
 
                 {/* Info overlay */}
-                <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-background/90 to-transparent p-2">
+                <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-background/90 to-transparent p-2 text-left">
                   <p className="text-xs font-medium truncate">{template.name}</p>
                   <p className="text-xs text-muted-foreground">
                     {formatDuration(template.duration)}
+                    {!!template.placeholders?.length && ` · ${template.placeholders.length} slots`}
                   </p>
                 </div>
 
+                {/* Own templates can be deleted; shared ones are marked */}
+                {template.userId && (
+                  <div className="absolute top-2 left-2 flex gap-1">
+                    {template.isPublic && (
+                      <span className="bg-background/80 rounded-full p-1" title="Shared with everyone">
+                        <Globe className="h-3 w-3" />
+                      </span>
+                    )}
+                    {template.userId === user?.id && (
+                      <span
+                        role="button"
+                        tabIndex={0}
+                        className="bg-background/80 rounded-full p-1 hover:bg-destructive/20"
+                        title="Delete template"
+                        onClick={(e) => handleDeleteTemplate(e, template)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </span>
+                    )}
+                  </div>
+                )}
+
                 {/* Selected check */}
                 {selectedId === template.id && (
                   <div className="absolute top-2 right-2 bg-primary text-primary-foreground rounded-full p-1">
@@ -367,6 +429,23 @@ export function TemplatePicker({ onApplyTemplate }: TemplatePickerProps) {
           {templates.length} templates available
         </p>
       </div>
+
+      {buildProject && (
+        <SaveTemplateDialog
+          open={isSaveOpen}
+          onOpenChange={setIsSaveOpen}
+          buildProject={buildProject}
+          thumbnailTime={currentTime}
+          saving={saving}
+          onSave={saveTemplate}
+        />
+      )}
+
+      <ApplyTemplateDialog
+        template={fillingTemplate}
+        onOpenChange={(open) => !open && setFillingTemplate(null)}
+        onApply={applyTemplate}
+      />
     </div>
   );
 }
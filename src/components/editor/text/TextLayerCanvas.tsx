@@ -1,9 +1,12 @@
 import { useState, useRef, useEffect } from 'react';
 import { TextLayer } from '@/types/editor';
 import { cn } from '@/lib/utils';
+import { getKaraokeWordIndex, hasKaraokeWords } from '@/lib/captions';
+import { isSnapBypassed } from '@/lib/snapping';
 
 interface TextLayerCanvasProps {
   layer: TextLayer;
+  opacity?: number; // keyframed opacity at the playhead
   isSelected: boolean;
   isEditing: boolean;
   onSelect: () => void;
@@ -15,10 +18,14 @@ interface TextLayerCanvasProps {
   containerHeight: number;
   onDragStart?: () => void;
   onDragEnd?: () => void;
+  currentTime?: number; // drives the karaoke highlight on caption layers
+  // Pulls a dragged position onto canvas guides; bypass is true while Ctrl/Cmd is held
+  snapPosition?: (position: { x: number; y: number }, bypass: boolean) => { x: number; y: number };
 }
 
 export function TextLayerCanvas({
   layer,
+  opacity = 1,
   isSelected,
   isEditing,
   onSelect,
@@ -30,6 +37,8 @@ export function TextLayerCanvas({
   containerHeight,
   onDragStart,
   onDragEnd,
+  currentTime = 0,
+  snapPosition,
 }: TextLayerCanvasProps) {
   const textRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -71,8 +80,11 @@ export function TextLayerCanvas({
       const deltaX = e.clientX - dragStart.x;
       const deltaY = e.clientY - dragStart.y;
 
-      const newX = initialPosition.x + (deltaX / containerWidth) * 100;
-      const newY = initialPosition.y + (deltaY / containerHeight) * 100;
+      const dragged = {
+        x: initialPosition.x + (deltaX / containerWidth) * 100,
+        y: initialPosition.y + (deltaY / containerHeight) * 100,
+      };
+      const { x: newX, y: newY } = snapPosition ? snapPosition(dragged, isSnapBypassed(e)) : dragged;
 
       onUpdate({
         position: {
@@ -95,7 +107,7 @@ export function TextLayerCanvas({
       window.removeEventListener('pointermove', handlePointerMove);
       window.removeEventListener('pointerup', handlePointerUp);
     };
-  }, [isDragging, dragStart, initialPosition, containerWidth, containerHeight, onUpdate, onDragEnd, layer.id]);
+  }, [isDragging, dragStart, initialPosition, containerWidth, containerHeight, onUpdate, onDragEnd, layer.id, snapPosition]);
 
   const handleDoubleClick = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -164,6 +176,18 @@ export function TextLayerCanvas({
     }
   };
 
+  const renderContent = () => {
+    if (isEditing || !hasKaraokeWords(layer)) return layer.content;
+
+    const activeIndex = getKaraokeWordIndex(layer, currentTime);
+    const highlightColor = layer.animation?.highlightColor || '#facc15';
+    return layer.content.split(/\s+/).filter(Boolean).map((word, i) => (
+      <span key={i} style={i <= activeIndex ? { color: highlightColor } : undefined}>
+        {i > 0 && ' '}{word}
+      </span>
+    ));
+  };
+
   return (
     <div
       className={cn(
@@ -175,7 +199,9 @@ export function TextLayerCanvas({
         left: pixelX,
         top: pixelY,
         transform: `translate(-50%, -50%)`,
+        opacity,
       }}
+      data-layer-id={layer.id}
       onPointerDown={handlePointerDown}
       onDoubleClick={handleDoubleClick}
     >
@@ -192,7 +218,7 @@ export function TextLayerCanvas({
         onBlur={handleBlur}
         onKeyDown={handleKeyDown}
       >
-        {layer.content}
+        {renderContent()}
       </div>
 
       {isSelected && !isEditing && (
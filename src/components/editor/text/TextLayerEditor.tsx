@@ -61,6 +61,7 @@ const ANIMATION_OPTIONS: { value: TextAnimation['type']; label: string }[] = [
   { value: 'slide-left', label: 'Slide Left' },
   { value: 'slide-right', label: 'Slide Right' },
   { value: 'typewriter', label: 'Typewriter' },
+  { value: 'karaoke', label: 'Karaoke' },
 ];
 
 const COLOR_PRESETS = [
@@ -482,6 +483,7 @@ export function TextLayerEditor({ layer, onUpdate, onDelete, onDuplicate }: Text
               onValueChange={(v) =>
                 onUpdate({
                   animation: {
+                    ...layer.animation,
                     type: v as TextAnimation['type'],
                     duration: layer.animation?.duration || 0.5,
                   },
@@ -492,14 +494,15 @@ export function TextLayerEditor({ layer, onUpdate, onDelete, onDuplicate }: Text
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {ANIMATION_OPTIONS.map((opt) => (
+                {/* Karaoke needs word timings, which only transcript captions have */}
+                {ANIMATION_OPTIONS.filter((opt) => opt.value !== 'karaoke' || layer.caption).map((opt) => (
                   <SelectItem key={opt.value} value={opt.value}>
                     {opt.label}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
-            {layer.animation && layer.animation.type !== 'none' && (
+            {layer.animation && layer.animation.type !== 'none' && layer.animation.type !== 'karaoke' && (
               <div className="space-y-1">
                 <div className="flex items-center justify-between">
                   <span className="text-xs text-muted-foreground">Duration</span>
@@ -518,6 +521,21 @@ export function TextLayerEditor({ layer, onUpdate, onDelete, onDuplicate }: Text
                 />
               </div>
             )}
+            {layer.animation?.type === 'karaoke' && (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">Highlight</span>
+                <input
+                  type="color"
+                  value={layer.animation.highlightColor || '#facc15'}
+                  onChange={(e) =>
+                    onUpdate({
+                      animation: { ...layer.animation!, highlightColor: e.target.value },
+                    })
+                  }
+                  className="w-6 h-6 rounded cursor-pointer"
+                />
+              </div>
+            )}
           </div>
 
           {/* Opacity */}
@@ -1,9 +1,18 @@
-import { useState, useRef, useEffect } from 'react';
-import { Music, Trash2, Volume2, VolumeX, GripVertical } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Music, Mic, Zap, Trash2, Volume2, VolumeX } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
-import { AudioTrack } from '@/types/editor';
-import { getAudioEngine } from '@/lib/audioEngine';
+import { AudioAnalysis, AudioDucking, AudioTrack } from '@/types/editor';
+import {
+  AUDIO_TRACK_ROLES,
+  TimeRange,
+  getAudioTrackRole,
+  getTrackGainAt,
+  upsertEnvelopePoint,
+} from '@/lib/audioMix';
+import { getPeakLevels, pickPeakLevel, slicePeaks } from '@/lib/waveform';
+import { getTimelineBeats } from '@/lib/beats';
+import { TimelineSnap, applyTimelineMoveSnap, applyTimelineSnap, isSnapBypassed } from '@/lib/snapping';
 
 interface AudioTimelineTrackProps {
   audioTrack: AudioTrack | null;
@@ -14,8 +23,24 @@ interface AudioTimelineTrackProps {
   onUpdate: (updates: Partial<AudioTrack>) => void;
   onDelete: () => void;
   trackLabelWidth: number;
+  // Voiceover ranges from the whole mix, so music tracks can draw where they duck
+  duckingRanges?: TimeRange[];
+  ducking?: AudioDucking;
+  // Decoded peaks and beats - until it arrives the clip draws a flat line
+  analysis?: AudioAnalysis;
+  snap?: TimelineSnap;
 }
 
+type DragType = 'move' | 'resize-start' | 'resize-end' | 'fade-in' | 'fade-out' | 'envelope';
+
+const ROLE_ICONS = { music: Music, voiceover: Mic, sfx: Zap };
+
+// Gain line resolution on the clip
+const GAIN_SAMPLES_PER_SECOND = 10;
+
+// Beat ticks closer than this are thinned out so zoomed-out clips don't turn solid
+const MIN_BEAT_SPACING_PX = 6;
+
 export function AudioTimelineTrack({
   audioTrack,
   duration,
@@ -25,17 +50,28 @@ export function AudioTimelineTrack({
   onUpdate,
   onDelete,
   trackLabelWidth,
+  duckingRanges = [],
+  ducking,
+  analysis,
+  snap,
 }: AudioTimelineTrackProps) {
   const trackRef = useRef<HTMLDivElement>(null);
-  const [dragType, setDragType] = useState<'move' | 'resize-start' | 'resize-end' | null>(null);
+  const clipRef = useRef<HTMLDivElement>(null);
+  const [dragType, setDragType] = useState<DragType | null>(null);
   const [dragStartX, setDragStartX] = useState(0);
-  const [initialValues, setInitialValues] = useState({ startAt: 0, endAt: 0 });
+  const [dragPointIndex, setDragPointIndex] = useState(-1);
+  const [initialValues, setInitialValues] = useState({ startAt: 0, endAt: 0, fadeIn: 0, fadeOut: 0 });
   const [showVolumeSlider, setShowVolumeSlider] = useState(false);
 
+  const role = audioTrack ? getAudioTrackRole(audioTrack) : 'music';
+  const RoleIcon = ROLE_ICONS[role];
+  const roleLabel = AUDIO_TRACK_ROLES.find(option => option.id === role)?.label ?? 'Music';
+
   // Handle mouse down for dragging
   const handleMouseDown = (
     e: React.MouseEvent,
-    type: 'move' | 'resize-start' | 'resize-end'
+    type: DragType,
+    pointIndex = -1
   ) => {
     if (!audioTrack) return;
     e.preventDefault();
@@ -43,10 +79,26 @@ export function AudioTimelineTrack({
 
     setDragType(type);
     setDragStartX(e.clientX);
-    setInitialValues({ startAt: audioTrack.startAt, endAt: audioTrack.endAt });
+    setDragPointIndex(pointIndex);
+    setInitialValues({
+      startAt: audioTrack.startAt,
+      endAt: audioTrack.endAt,
+      fadeIn: audioTrack.fadeIn ?? 0,
+      fadeOut: audioTrack.fadeOut ?? 0,
+    });
     onSelect();
   };
 
+  // Clip-relative time and gain (0-1, top is loudest) for a pointer position
+  const getPointerPosition = useCallback((clientX: number, clientY: number) => {
+    const rect = clipRef.current?.getBoundingClientRect();
+    if (!rect || !audioTrack) return null;
+    return {
+      time: Math.max(0, Math.min(audioTrack.endAt - audioTrack.startAt, (clientX - rect.left) / pixelsPerSecond)),
+      gain: Math.max(0, Math.min(1, 1 - (clientY - rect.top) / rect.height)),
+    };
+  }, [audioTrack, pixelsPerSecond]);
+
   // Handle mouse move for dragging
   useEffect(() => {
     if (!dragType || !audioTrack) return;
@@ -54,29 +106,47 @@ export function AudioTimelineTrack({
     const handleMouseMove = (e: MouseEvent) => {
       const deltaX = e.clientX - dragStartX;
       const deltaTime = deltaX / pixelsPerSecond;
+      const length = initialValues.endAt - initialValues.startAt;
+      const bypass = isSnapBypassed(e);
 
       if (dragType === 'move') {
-        const trackDuration = initialValues.endAt - initialValues.startAt;
-        let newStart = Math.max(0, initialValues.startAt + deltaTime);
-        let newEnd = newStart + trackDuration;
+        const moved = Math.max(0, initialValues.startAt + deltaTime);
+        const snapped = applyTimelineMoveSnap(snap, moved, moved + length, audioTrack.id, bypass);
+        let newStart = Math.max(0, snapped.start);
+        let newEnd = newStart + length;
 
         if (newEnd > duration) {
           newEnd = duration;
-          newStart = newEnd - trackDuration;
+          newStart = newEnd - length;
         }
 
         onUpdate({ startAt: newStart, endAt: newEnd });
       } else if (dragType === 'resize-start') {
-        const newStart = Math.max(0, Math.min(initialValues.endAt - 0.5, initialValues.startAt + deltaTime));
+        const newStart = Math.max(0, Math.min(initialValues.endAt - 0.5, applyTimelineSnap(snap, initialValues.startAt + deltaTime, audioTrack.id, bypass)));
         onUpdate({ startAt: newStart });
       } else if (dragType === 'resize-end') {
-        const newEnd = Math.max(initialValues.startAt + 0.5, Math.min(duration, initialValues.endAt + deltaTime));
+        const newEnd = Math.max(initialValues.startAt + 0.5, Math.min(duration, applyTimelineSnap(snap, initialValues.endAt + deltaTime, audioTrack.id, bypass)));
         onUpdate({ endAt: newEnd });
+      } else if (dragType === 'fade-in') {
+        onUpdate({ fadeIn: Math.max(0, Math.min(length - initialValues.fadeOut, initialValues.fadeIn + deltaTime)) });
+      } else if (dragType === 'fade-out') {
+        onUpdate({ fadeOut: Math.max(0, Math.min(length - initialValues.fadeIn, initialValues.fadeOut - deltaTime)) });
+      } else if (dragType === 'envelope') {
+        const position = getPointerPosition(e.clientX, e.clientY);
+        const points = audioTrack.volumeEnvelope ?? [];
+        if (!position || !points[dragPointIndex]) return;
+        const updated = points.map((point, i) => i === dragPointIndex ? { time: position.time, gain: position.gain } : point);
+        onUpdate({ volumeEnvelope: updated });
       }
     };
 
     const handleMouseUp = () => {
+      // Re-sort once the point lands so the index stays valid during the drag
+      if (dragType === 'envelope' && audioTrack.volumeEnvelope) {
+        onUpdate({ volumeEnvelope: [...audioTrack.volumeEnvelope].sort((a, b) => a.time - b.time) });
+      }
       setDragType(null);
+      snap?.onGuide(null);
     };
 
     window.addEventListener('mousemove', handleMouseMove);
@@ -86,34 +156,52 @@ export function AudioTimelineTrack({
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [dragType, dragStartX, initialValues, pixelsPerSecond, duration, audioTrack, onUpdate]);
+  }, [dragType, dragStartX, dragPointIndex, initialValues, pixelsPerSecond, duration, audioTrack, onUpdate, getPointerPosition, snap]);
 
-  // Toggle mute - binds to AudioEngine
+  // Double-click the clip to add a volume point there
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (!audioTrack) return;
+    e.stopPropagation();
+    const position = getPointerPosition(e.clientX, e.clientY);
+    if (!position) return;
+    onUpdate({ volumeEnvelope: upsertEnvelopePoint(audioTrack.volumeEnvelope, position) });
+    console.log(`[TIMELINE] volume point added -> trackId=${audioTrack.id} t=${position.time.toFixed(2)} gain=${position.gain.toFixed(2)}`);
+  };
+
+  const handleRemovePoint = (e: React.MouseEvent, index: number) => {
+    if (!audioTrack) return;
+    e.stopPropagation();
+    const remaining = (audioTrack.volumeEnvelope ?? []).filter((_, i) => i !== index);
+    onUpdate({ volumeEnvelope: remaining.length ? remaining : undefined });
+  };
+
+  const cycleRole = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!audioTrack) return;
+    const index = AUDIO_TRACK_ROLES.findIndex(option => option.id === role);
+    const next = AUDIO_TRACK_ROLES[(index + 1) % AUDIO_TRACK_ROLES.length].id;
+    onUpdate({ role: next });
+    console.log(`[TIMELINE] track role -> trackId=${audioTrack.id} role=${next}`);
+  };
+
+  // Toggle mute - the track's AudioEngine gain follows via useAudioTrackPlayback
   const toggleMute = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (!audioTrack) return;
-    
+
     const newMuted = !audioTrack.muted;
     onUpdate({ muted: newMuted });
-    
-    // MANDATORY: Bind to AudioEngine
-    const audioEngine = getAudioEngine();
-    audioEngine.setTrackVolume(audioTrack.id, newMuted ? 0 : audioTrack.volume);
-    
+
     console.log(`[TIMELINE] track mute toggled -> trackId=${audioTrack.id} muted=${newMuted}`);
   };
 
-  // Handle volume change - binds to AudioEngine
+  // Handle volume change - applied on top of fades, envelope and ducking by useAudioTrackPlayback
   const handleVolumeChange = (value: number[]) => {
     if (!audioTrack) return;
-    
+
     const newVolume = value[0];
     onUpdate({ volume: newVolume, muted: false });
-    
-    // MANDATORY: Bind to AudioEngine - this directly controls audio output
-    const audioEngine = getAudioEngine();
-    audioEngine.setTrackVolume(audioTrack.id, newVolume);
-    
+
     console.log(`[TIMELINE] track volume changed -> trackId=${audioTrack.id} value=${(newVolume / 100).toFixed(2)}`);
     console.log('[AUTOSAVE] persisted timeline volume change');
   };
@@ -128,31 +216,71 @@ export function AudioTimelineTrack({
   // Close slider when clicking outside
   useEffect(() => {
     if (!showVolumeSlider) return;
-    
+
     const handleClickOutside = (e: MouseEvent) => {
       const target = e.target as HTMLElement;
       if (!target.closest('.volume-control-container')) {
         setShowVolumeSlider(false);
       }
     };
-    
+
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showVolumeSlider]);
 
-  // Calculate clip position
+  // Gain line across the clip: fades x envelope x ducking, as an SVG polyline in clip-relative seconds
+  const gainPath = useMemo(() => {
+    if (!audioTrack) return '';
+    const length = audioTrack.endAt - audioTrack.startAt;
+    const samples = Math.max(2, Math.ceil(length * GAIN_SAMPLES_PER_SECOND));
+    const points: string[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const localTime = (length * i) / samples;
+      // Sample just inside the edges so a track without fades doesn't draw drops to zero
+      const time = Math.min(audioTrack.endAt - 1e-3, Math.max(audioTrack.startAt + 1e-3, audioTrack.startAt + localTime));
+      const gain = getTrackGainAt(audioTrack, time, duckingRanges, ducking);
+      points.push(`${localTime.toFixed(3)},${(1 - gain).toFixed(3)}`);
+    }
+    return points.join(' ');
+  }, [audioTrack, duckingRanges, ducking]);
+
+  // Waveform bars at the peak level matching this zoom - one source second spans pixelsPerSecond / speed
+  const speed = audioTrack?.effects?.speed ?? 1;
+  const waveform = useMemo(() => {
+    if (!audioTrack || !analysis) return null;
+    const level = pickPeakLevel(getPeakLevels(analysis), pixelsPerSecond / speed);
+    if (!level) return null;
+    const peaks = slicePeaks(level, 0, (audioTrack.endAt - audioTrack.startAt) * speed);
+    // One vertical stroke per peak in a single path - far lighter than an element per bar
+    const path = peaks.map((peak, i) => {
+      const height = Math.max(peak, 0.02);
+      return `M${i + 0.5} ${((1 - height) / 2).toFixed(3)}V${((1 + height) / 2).toFixed(3)}`;
+    }).join('');
+    return { peaks, path, width: (peaks.length / level.rate / speed) * pixelsPerSecond };
+  }, [audioTrack, analysis, pixelsPerSecond, speed]);
+
+  // Beat ticks in clip-relative pixels, skipping any that would crowd the previous one
+  const beatOffsets = useMemo(() => {
+    if (!audioTrack || !analysis) return [];
+    const offsets: number[] = [];
+    for (const beat of getTimelineBeats(audioTrack, analysis.beats)) {
+      const x = (beat - audioTrack.startAt) * pixelsPerSecond;
+      if (offsets.length === 0 || x - offsets[offsets.length - 1] >= MIN_BEAT_SPACING_PX) offsets.push(x);
+    }
+    return offsets;
+  }, [audioTrack, analysis, pixelsPerSecond]);
+
+  // Calculate clip position - same pixel scale as the other timeline tracks
   const getClipStyle = () => {
     if (!audioTrack) return {};
-    const left = (audioTrack.startAt / duration) * 100;
-    const width = ((audioTrack.endAt - audioTrack.startAt) / duration) * 100;
     return {
-      left: `${left}%`,
-      width: `${Math.max(width, 5)}%`,
-      minWidth: '60px',
+      left: `${audioTrack.startAt * pixelsPerSecond}px`,
+      width: `${Math.max((audioTrack.endAt - audioTrack.startAt) * pixelsPerSecond, 30)}px`,
     };
   };
 
   const currentVolume = audioTrack?.muted ? 0 : (audioTrack?.volume ?? 100);
+  const clipLength = audioTrack ? audioTrack.endAt - audioTrack.startAt : 0;
 
   return (
     <div className="flex items-center h-14 px-2">
@@ -161,9 +289,16 @@ export function AudioTimelineTrack({
         className="flex items-center gap-1.5 text-xs text-muted-foreground shrink-0 volume-control-container"
         style={{ width: `${trackLabelWidth - 8}px` }}
       >
-        <Music className="h-4 w-4 text-emerald-500 shrink-0" />
-        <span className="font-medium shrink-0">Music</span>
-        
+        <RoleIcon className="h-4 w-4 text-emerald-500 shrink-0" />
+        <button
+          className="font-medium shrink-0 hover:text-foreground transition-colors"
+          onClick={cycleRole}
+          disabled={!audioTrack}
+          title="Change track role - music ducks under voice"
+        >
+          {roleLabel}
+        </button>
+
         {/* ===== INLINE VOLUME CONTROL - Always visible in track label ===== */}
         {audioTrack && (
           <div className="relative ml-auto flex items-center gap-1.5">
@@ -182,11 +317,11 @@ export function AudioTimelineTrack({
                 <Volume2 className="h-3.5 w-3.5 text-emerald-500" />
               )}
             </button>
-            
+
             {/* ===== INLINE HORIZONTAL SLIDER - Expands on click ===== */}
             {showVolumeSlider ? (
-              <div 
-                className="flex items-center gap-2 bg-popover border border-border rounded-md px-2 py-1 shadow-md"
+              <div
+                className="absolute left-0 top-full mt-1 z-50 flex items-center gap-2 bg-popover border border-border rounded-md px-2 py-1 shadow-md"
                 onClick={(e) => e.stopPropagation()}
                 onMouseDown={(e) => e.stopPropagation()}
               >
@@ -222,15 +357,17 @@ export function AudioTimelineTrack({
       >
         {!audioTrack && (
           <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
-            Add music from Audio panel
+            Add music or a voiceover from Audio panel
           </div>
         )}
 
         {audioTrack && (
           <div
+            ref={clipRef}
             className={cn(
-              'absolute h-full rounded flex items-center cursor-move group transition-all',
-              isSelected ? 'bg-emerald-500/90 ring-2 ring-emerald-400' : 'bg-emerald-500/70 hover:bg-emerald-500/80',
+              'absolute h-full rounded flex items-center cursor-move group transition-colors',
+              role === 'voiceover' ? 'bg-sky-500/70 hover:bg-sky-500/80' : 'bg-emerald-500/70 hover:bg-emerald-500/80',
+              isSelected && (role === 'voiceover' ? 'bg-sky-500/90 ring-2 ring-sky-400' : 'bg-emerald-500/90 ring-2 ring-emerald-400'),
               audioTrack.muted && 'opacity-50'
             )}
             style={getClipStyle()}
@@ -242,6 +379,8 @@ export function AudioTimelineTrack({
               e.stopPropagation();
               onSelect();
             }}
+            onDoubleClick={handleDoubleClick}
+            title="Double-click to add a volume point"
           >
             {/* Resize handle - start */}
             <div
@@ -249,16 +388,69 @@ export function AudioTimelineTrack({
               onMouseDown={(e) => handleMouseDown(e, 'resize-start')}
             />
 
-            {/* Waveform visualization placeholder */}
-            <div className="flex-1 flex items-center gap-0.5 h-5 overflow-hidden px-2">
-              {Array.from({ length: 30 }).map((_, i) => (
-                <div
-                  key={i}
-                  className="w-0.5 bg-white/60 rounded-full"
-                  style={{ height: `${20 + Math.random() * 80}%` }}
-                />
-              ))}
-            </div>
+            {/* Waveform - decoded peaks, a flat line while decoding or for streaming links */}
+            {waveform && waveform.peaks.length > 0 ? (
+              <svg
+                className="absolute left-0 inset-y-1 pointer-events-none"
+                style={{ width: `${waveform.width}px`, height: 'calc(100% - 0.5rem)' }}
+                viewBox={`0 0 ${waveform.peaks.length} 1`}
+                preserveAspectRatio="none"
+              >
+                <path d={waveform.path} className="stroke-white/60" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              </svg>
+            ) : (
+              <div className="absolute inset-x-2 top-1/2 h-px bg-white/40 pointer-events-none" />
+            )}
+
+            {/* Beat markers - split cuts snap to these */}
+            {beatOffsets.map(x => (
+              <div
+                key={x}
+                className="absolute bottom-0 h-1.5 w-px bg-yellow-300/80 pointer-events-none"
+                style={{ left: `${x}px` }}
+              />
+            ))}
+
+            {/* Gain line - fades, envelope and (for music) ducking under voice */}
+            {clipLength > 0 && (
+              <svg
+                className="absolute inset-0 h-full w-full pointer-events-none"
+                viewBox={`0 0 ${clipLength} 1`}
+                preserveAspectRatio="none"
+              >
+                <polygon points={`0,1 ${gainPath} ${clipLength},1`} className="fill-black/15" />
+                <polyline points={gainPath} fill="none" stroke="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+              </svg>
+            )}
+
+            {/* Fade handles - drag along the top edge */}
+            {(['fade-in', 'fade-out'] as const).map(type => (
+              <div
+                key={type}
+                className="resize-handle absolute -top-1 h-2.5 w-2.5 rounded-sm bg-white border border-emerald-700 cursor-ew-resize opacity-0 group-hover:opacity-100 z-10"
+                style={type === 'fade-in'
+                  ? { left: `${(audioTrack.fadeIn ?? 0) * pixelsPerSecond}px`, transform: 'translateX(-50%)' }
+                  : { right: `${(audioTrack.fadeOut ?? 0) * pixelsPerSecond}px`, transform: 'translateX(50%)' }}
+                onMouseDown={(e) => handleMouseDown(e, type)}
+                title={type === 'fade-in' ? `Fade in ${(audioTrack.fadeIn ?? 0).toFixed(1)}s` : `Fade out ${(audioTrack.fadeOut ?? 0).toFixed(1)}s`}
+              />
+            ))}
+
+            {/* Envelope points - drag to move, double-click to remove */}
+            {audioTrack.volumeEnvelope?.map((point, index) => (
+              <div
+                key={index}
+                className="resize-handle absolute h-2.5 w-2.5 rounded-full bg-white border border-emerald-700 cursor-move z-10"
+                style={{
+                  left: `${point.time * pixelsPerSecond}px`,
+                  top: `${(1 - point.gain) * 100}%`,
+                  transform: 'translate(-50%, -50%)',
+                }}
+                onMouseDown={(e) => handleMouseDown(e, 'envelope', index)}
+                onDoubleClick={(e) => handleRemovePoint(e, index)}
+                title={`${Math.round(point.gain * 100)}% at ${point.time.toFixed(1)}s - double-click to remove`}
+              />
+            ))}
 
             {/* Controls overlay - visible on hover */}
             <div className="absolute right-1 flex gap-1 items-center opacity-0 group-hover:opacity-100 transition-opacity">
@@ -305,4 +497,4 @@ export function AudioTimelineTrack({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,114 @@
+// ClipSpeedControl - Toolbar popover for the selected video clip's constant speed or speed ramp
+import { Gauge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { VideoLayer } from '@/types/editor';
+import {
+  CLIP_SPEED_OPTIONS,
+  getClipSpeedLabel,
+  getTimelineDuration,
+  MAX_CLIP_SPEED,
+  MIN_CLIP_SPEED,
+  SPEED_CURVE_PRESETS,
+} from '@/lib/clipTiming';
+
+interface ClipSpeedControlProps {
+  clip: VideoLayer | null;
+  onChange: (updates: Partial<Pick<VideoLayer, 'speed' | 'speedCurve'>>) => void;
+}
+
+// Slider works in log2 space so 0.25x-1x gets as much travel as 1x-4x
+const toSlider = (speed: number) => Math.log2(speed);
+const fromSlider = (value: number) => Number(Math.pow(2, value).toFixed(2));
+
+export function ClipSpeedControl({ clip, onChange }: ClipSpeedControlProps) {
+  const speed = clip?.speed ?? 1;
+  const activeCurve = clip?.speedCurve?.length
+    ? SPEED_CURVE_PRESETS.find(preset => JSON.stringify(preset.points) === JSON.stringify(clip.speedCurve))?.id ?? 'custom'
+    : null;
+
+  const handleSpeedChange = (value: number) => {
+    onChange({ speed: value, speedCurve: undefined });
+    console.log(`[TIMELINE] clip ${clip?.id} speed → ${value}x`);
+  };
+
+  const handleCurveSelect = (presetId: string | null) => {
+    const preset = SPEED_CURVE_PRESETS.find(p => p.id === presetId);
+    // A curve overrides the constant speed; clearing it brings that speed back
+    onChange({ speedCurve: preset?.points });
+    console.log(`[TIMELINE] clip ${clip?.id} speed curve → ${presetId ?? 'none'}`);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!clip} title="Clip speed">
+          <Gauge className="h-4 w-4 mr-1" />
+          {(clip && getClipSpeedLabel(clip)) || 'Speed'}
+        </Button>
+      </PopoverTrigger>
+      {clip && (
+        <PopoverContent className="w-64 p-3 space-y-4" align="end">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium">Speed</p>
+              <span className="text-[10px] text-muted-foreground tabular-nums">
+                {activeCurve ? 'Curve' : `${speed}x`} · {getTimelineDuration(clip).toFixed(1)}s
+              </span>
+            </div>
+            <Slider
+              value={[toSlider(activeCurve ? 1 : speed)]}
+              onValueChange={([value]) => handleSpeedChange(fromSlider(value))}
+              min={toSlider(MIN_CLIP_SPEED)}
+              max={toSlider(MAX_CLIP_SPEED)}
+              step={0.05}
+            />
+            <div className="flex flex-wrap gap-1">
+              {CLIP_SPEED_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  className={cn(
+                    'text-[10px] rounded border px-1.5 py-0.5 transition-colors',
+                    !activeCurve && speed === option ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+                  )}
+                  onClick={() => handleSpeedChange(option)}
+                >
+                  {option}x
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium">Speed curve</p>
+            <div className="grid grid-cols-2 gap-1.5">
+              <button
+                className={cn(
+                  'text-xs rounded-md border px-2 py-1.5 transition-colors',
+                  !activeCurve ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+                )}
+                onClick={() => handleCurveSelect(null)}
+              >
+                None
+              </button>
+              {SPEED_CURVE_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  className={cn(
+                    'text-xs rounded-md border px-2 py-1.5 transition-colors',
+                    activeCurve === preset.id ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+                  )}
+                  onClick={() => handleCurveSelect(preset.id)}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </PopoverContent>
+      )}
+    </Popover>
+  );
+}
@@ -0,0 +1,206 @@
+// KeyframeLane - Keyframe row under the selected text/emoji/image layer
+// Diamonds mark keyframe times; drag to retime, click for easing/opacity/delete
+import { useEffect, useRef, useState } from 'react';
+import { Diamond, DiamondPlus, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { KeyframeEasing, LayerKeyframes } from '@/types/editor';
+import {
+  addKeyframesAt,
+  getKeyframeEasingAt,
+  getKeyframeTimes,
+  interpolateKeyframes,
+  KEYFRAME_EASINGS,
+  KEYFRAME_TIME_EPSILON,
+  KeyframedLayer,
+  moveKeyframesAt,
+  removeKeyframesAt,
+  setKeyframe,
+  setKeyframeEasingAt,
+} from '@/lib/keyframes';
+
+interface KeyframeLaneProps {
+  layer: KeyframedLayer;
+  currentTime: number;
+  trackLabelWidth: number;
+  spanStyle: React.CSSProperties; // where the layer sits in the track area
+  onChange: (keyframes: LayerKeyframes | undefined) => void;
+  onSeek?: (time: number) => void;
+}
+
+export function KeyframeLane({
+  layer,
+  currentTime,
+  trackLabelWidth,
+  spanStyle,
+  onChange,
+  onSeek,
+}: KeyframeLaneProps) {
+  const spanRef = useRef<HTMLDivElement>(null);
+  const draggedRef = useRef(false);
+  const [drag, setDrag] = useState<{ time: number; startX: number; keyframes: LayerKeyframes | undefined } | null>(null);
+
+  const layerDuration = Math.max(0.01, layer.end - layer.start);
+  const localTime = currentTime - layer.start;
+  const playheadInLayer = localTime >= 0 && localTime <= layerDuration;
+  const times = getKeyframeTimes(layer.keyframes);
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const width = spanRef.current?.getBoundingClientRect().width;
+      if (!width) return;
+      const deltaX = e.clientX - drag.startX;
+      if (Math.abs(deltaX) > 3) draggedRef.current = true;
+      if (!draggedRef.current) return;
+      const target = Math.max(0, Math.min(layerDuration, drag.time + (deltaX / width) * layerDuration));
+      onChange(moveKeyframesAt(drag.keyframes, drag.time, target));
+    };
+
+    const handleMouseUp = () => setDrag(null);
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, layerDuration, onChange]);
+
+  const handleAdd = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!playheadInLayer) return;
+    onChange(addKeyframesAt(layer, localTime));
+    console.log(`[TIMELINE] keyframe added at ${localTime.toFixed(2)}s`);
+  };
+
+  const handleDiamondMouseDown = (e: React.MouseEvent, time: number) => {
+    e.stopPropagation();
+    draggedRef.current = false;
+    setDrag({ time, startX: e.clientX, keyframes: layer.keyframes });
+  };
+
+  const handleEasingSelect = (time: number, easing: KeyframeEasing) => {
+    onChange(setKeyframeEasingAt(layer.keyframes, time, easing));
+  };
+
+  const handleDelete = (time: number) => {
+    onChange(removeKeyframesAt(layer.keyframes, time));
+    console.log(`[TIMELINE] keyframe removed at ${time.toFixed(2)}s`);
+  };
+
+  return (
+    <div className="flex items-center h-6 px-2">
+      <div
+        className="flex items-center gap-1.5 text-[10px] text-muted-foreground shrink-0 pl-5"
+        style={{ width: `${trackLabelWidth - 8}px` }}
+      >
+        <span>Keyframes</span>
+        <button
+          className="ml-auto p-0.5 rounded hover:bg-muted/60 disabled:opacity-40 disabled:pointer-events-none"
+          onClick={handleAdd}
+          disabled={!playheadInLayer}
+          title={playheadInLayer ? 'Add keyframe at playhead' : 'Move the playhead over the layer to add a keyframe'}
+        >
+          <DiamondPlus className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      <div className="flex-1 h-5 relative ml-2">
+        <div
+          ref={spanRef}
+          className="absolute top-0 bottom-0 rounded-sm border border-dashed border-border/70 bg-muted/20"
+          style={spanStyle}
+        >
+          {times.map((time, index) => {
+            const isAtPlayhead = Math.abs(time - localTime) < KEYFRAME_TIME_EPSILON;
+            const easing = getKeyframeEasingAt(layer.keyframes, time);
+            const opacity = interpolateKeyframes(layer.keyframes?.opacity, time) ?? 1;
+
+            return (
+              <Popover key={index}>
+                <PopoverTrigger asChild>
+                  <button
+                    className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 z-10 cursor-ew-resize"
+                    style={{ left: `${(time / layerDuration) * 100}%` }}
+                    onMouseDown={(e) => handleDiamondMouseDown(e, time)}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      // A drag retimes the keyframe and must not open the popover
+                      if (draggedRef.current) e.preventDefault();
+                    }}
+                    title={`${time.toFixed(2)}s`}
+                  >
+                    <Diamond
+                      className={cn(
+                        'h-3 w-3',
+                        isAtPlayhead ? 'fill-primary text-primary' : 'fill-amber-400 text-amber-500'
+                      )}
+                    />
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent
+                  className="w-60 p-3 space-y-3"
+                  onClick={(e) => e.stopPropagation()}
+                  onMouseDown={(e) => e.stopPropagation()}
+                >
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-medium">Keyframe</p>
+                    <span className="text-[10px] text-muted-foreground tabular-nums">{time.toFixed(2)}s</span>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <p className="text-[10px] text-muted-foreground">Easing to next keyframe</p>
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {KEYFRAME_EASINGS.map(option => (
+                        <button
+                          key={option.easing}
+                          className={cn(
+                            'text-xs rounded-md border px-2 py-1.5 transition-colors',
+                            easing === option.easing ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+                          )}
+                          onClick={() => handleEasingSelect(time, option.easing)}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+                      <span>Opacity</span>
+                      <span className="tabular-nums">{Math.round(opacity * 100)}%</span>
+                    </div>
+                    <Slider
+                      value={[opacity * 100]}
+                      onValueChange={([value]) => onChange(setKeyframe(layer.keyframes, 'opacity', time, value / 100))}
+                      max={100}
+                      step={1}
+                    />
+                  </div>
+
+                  <div className="flex gap-2">
+                    {onSeek && (
+                      <Button size="sm" variant="outline" className="flex-1" onClick={() => onSeek(layer.start + time)}>
+                        Go to
+                      </Button>
+                    )}
+                    <Button size="sm" variant="destructive" className="flex-1" onClick={() => handleDelete(time)}>
+                      <Trash2 className="h-3.5 w-3.5 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
+                </PopoverContent>
+              </Popover>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,22 @@
-// LayersTrack - Generic track for images, text, emojis/stickers
-import { Image, Type, Smile } from 'lucide-react';
+// LayersTrack - Generic track for images, text, emojis/stickers and overlay videos
+import { Image, Type, Smile, Film } from 'lucide-react';
 import { TimelineClip } from './TimelineClip';
-import { EmojiLayer, TextLayer, ImageLayer } from '@/types/editor';
+import { KeyframeLane } from './KeyframeLane';
+import { EmojiLayer, TextLayer, ImageLayer, OverlayVideoLayer } from '@/types/editor';
+import { TimelineSnap } from '@/lib/snapping';
 
 interface LayersTrackProps {
-  type: 'image' | 'text' | 'emoji';
-  layers: Array<ImageLayer | TextLayer | EmojiLayer>;
+  type: 'image' | 'text' | 'emoji' | 'overlay-video';
+  layers: Array<ImageLayer | TextLayer | EmojiLayer | OverlayVideoLayer>;
   pixelsPerSecond: number;
   selectedLayerId: string | null;
   onLayerSelect: (type: string, id: string) => void;
   onLayerUpdate: (type: string, id: string, updates: any) => void;
   onLayerDelete: (type: string, id: string) => void;
   trackLabelWidth: number;
+  currentTime: number;
+  onSeek?: (time: number) => void;
+  snap?: TimelineSnap;
 }
 
 const trackConfig = {
@@ -36,6 +41,13 @@ const trackConfig = {
     emptyText: 'Add stickers from Stickers panel',
     getLabel: (layer: EmojiLayer) => layer.content.substring(0, 10),
   },
+  'overlay-video': {
+    icon: Film,
+    label: 'Overlay',
+    bgColor: 'rgb(20 184 166 / 0.9)',
+    emptyText: 'Add overlay videos from Media panel',
+    getLabel: (layer: OverlayVideoLayer) => layer.fileName,
+  },
 };
 
 export function LayersTrack({
@@ -47,46 +59,68 @@ export function LayersTrack({
   onLayerUpdate,
   onLayerDelete,
   trackLabelWidth,
+  currentTime,
+  onSeek,
+  snap,
 }: LayersTrackProps) {
   const config = trackConfig[type];
   const Icon = config.icon;
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId);
 
   return (
-    <div className="flex items-center h-12 px-2">
-      <div 
-        className="flex items-center gap-1.5 text-xs text-muted-foreground shrink-0"
-        style={{ width: `${trackLabelWidth - 8}px` }}
-      >
-        <Icon className="h-4 w-4" />
-        <span className="font-medium">{config.label}</span>
-      </div>
+    <div>
+      <div className="flex items-center h-12 px-2">
+        <div 
+          className="flex items-center gap-1.5 text-xs text-muted-foreground shrink-0"
+          style={{ width: `${trackLabelWidth - 8}px` }}
+        >
+          <Icon className="h-4 w-4" />
+          <span className="font-medium">{config.label}</span>
+        </div>
       
-      <div className="flex-1 h-10 bg-muted/20 rounded relative ml-2 border border-border/50">
-        {layers.length === 0 && (
-          <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
-            {config.emptyText}
-          </div>
-        )}
+        <div className="flex-1 h-10 bg-muted/20 rounded relative ml-2 border border-border/50">
+          {layers.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
+              {config.emptyText}
+            </div>
+          )}
         
-        {layers.map((layer) => (
-          <TimelineClip
-            key={layer.id}
-            id={layer.id}
-            type={type}
-            label={config.getLabel(layer as any)}
-            start={layer.start}
-            end={layer.end}
-            bgColor={config.bgColor}
-            pixelsPerSecond={pixelsPerSecond}
-            isSelected={selectedLayerId === layer.id}
-            canTrim={true}
-            canDelete={true}
-            onSelect={() => onLayerSelect(type, layer.id)}
-            onUpdate={(updates) => onLayerUpdate(type, layer.id, updates)}
-            onDelete={() => onLayerDelete(type, layer.id)}
-          />
-        ))}
+          {layers.map((layer) => (
+            <TimelineClip
+              key={layer.id}
+              id={layer.id}
+              type={type}
+              label={config.getLabel(layer as any)}
+              start={layer.start}
+              end={layer.end}
+              bgColor={config.bgColor}
+              pixelsPerSecond={pixelsPerSecond}
+              isSelected={selectedLayerId === layer.id}
+              canTrim={true}
+              canDelete={true}
+              onSelect={() => onLayerSelect(type, layer.id)}
+              onUpdate={(updates) => onLayerUpdate(type, layer.id, updates)}
+              onDelete={() => onLayerDelete(type, layer.id)}
+              snap={snap}
+            />
+          ))}
+        </div>
       </div>
+
+      {/* Keyframe lane for the selected layer */}
+      {selectedLayer && (
+        <KeyframeLane
+          layer={selectedLayer}
+          currentTime={currentTime}
+          trackLabelWidth={trackLabelWidth}
+          spanStyle={{
+            left: `${selectedLayer.start * pixelsPerSecond}px`,
+            width: `${(selectedLayer.end - selectedLayer.start) * pixelsPerSecond}px`,
+          }}
+          onChange={(keyframes) => onLayerUpdate(type, selectedLayer.id, { keyframes })}
+          onSeek={onSeek}
+        />
+      )}
     </div>
   );
 }
@@ -7,6 +7,7 @@ interface TimeScaleProps {
   duration: number;
   pixelsPerSecond: number;
   trackLabelWidth: number;
+  beats?: number[]; // beat markers from the audio tracks, ascending
 }
 
 interface TickMark {
@@ -14,7 +15,10 @@ interface TickMark {
   type: 'major' | 'minor' | 'sub';
 }
 
-export function TimeScale({ duration, pixelsPerSecond, trackLabelWidth }: TimeScaleProps) {
+// Beat markers closer than this are thinned out
+const MIN_BEAT_SPACING_PX = 6;
+
+export function TimeScale({ duration, pixelsPerSecond, trackLabelWidth, beats = [] }: TimeScaleProps) {
   // Format time as mm:ss or mm:ss.d based on zoom level
   const formatTime = (seconds: number, showTenths: boolean = false): string => {
     const mins = Math.floor(seconds / 60);
@@ -91,6 +95,15 @@ export function TimeScale({ duration, pixelsPerSecond, trackLabelWidth }: TimeSc
     return { ticks: marks, showTenths: useTenths, majorInterval: major };
   }, [duration, pixelsPerSecond]);
 
+  const beatPositions = useMemo(() => {
+    const positions: number[] = [];
+    for (const beat of beats) {
+      const x = beat * pixelsPerSecond;
+      if (positions.length === 0 || x - positions[positions.length - 1] >= MIN_BEAT_SPACING_PX) positions.push(x);
+    }
+    return positions;
+  }, [beats, pixelsPerSecond]);
+
   return (
     <div 
       className="h-8 border-b border-border relative bg-gradient-to-b from-muted/30 to-muted/10 select-none"
@@ -136,6 +149,15 @@ export function TimeScale({ duration, pixelsPerSecond, trackLabelWidth }: TimeSc
         );
       })}
       
+      {/* Beat markers along the bottom edge */}
+      {beatPositions.map(x => (
+        <div
+          key={`beat-${x}`}
+          className="absolute bottom-0 h-1.5 w-1.5 -translate-x-1/2 translate-y-1/2 rotate-45 bg-yellow-400/80 pointer-events-none"
+          style={{ left: `${x}px` }}
+        />
+      ))}
+
       {/* Current duration indicator */}
       <div 
         className="absolute top-0 bottom-0 w-px bg-yellow-500/50"
@@ -2,6 +2,7 @@
 import { useCallback, useRef, useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { GripVertical, Trash2 } from 'lucide-react';
+import { TimelineSnap, applyTimelineMoveSnap, applyTimelineSnap, isSnapBypassed } from '@/lib/snapping';
 
 interface TimelineClipProps {
   id: string;
@@ -18,6 +19,7 @@ interface TimelineClipProps {
   onSelect: () => void;
   onUpdate: (updates: { start?: number; end?: number }) => void;
   onDelete?: () => void;
+  snap?: TimelineSnap; // edges pull to the playhead, other clips, markers and beats
 }
 
 export function TimelineClip({
@@ -35,6 +37,7 @@ export function TimelineClip({
   onSelect,
   onUpdate,
   onDelete,
+  snap,
 }: TimelineClipProps) {
   const [isDragging, setIsDragging] = useState<'move' | 'start' | 'end' | null>(null);
   const dragStartRef = useRef<{ mouseX: number; start: number; end: number } | null>(null);
@@ -66,17 +69,19 @@ export function TimelineClip({
       
       const deltaX = e.clientX - dragStartRef.current.mouseX;
       const deltaTime = deltaX / pixelsPerSecond;
+      const bypass = isSnapBypassed(e);
 
       if (isDragging === 'move') {
         // Move entire clip
         const clipDuration = dragStartRef.current.end - dragStartRef.current.start;
-        const newStart = Math.max(0, dragStartRef.current.start + deltaTime);
-        const newEnd = newStart + clipDuration;
-        onUpdate({ start: newStart, end: newEnd });
+        const moved = Math.max(0, dragStartRef.current.start + deltaTime);
+        const snapped = applyTimelineMoveSnap(snap, moved, moved + clipDuration, id, bypass);
+        const newStart = Math.max(0, snapped.start);
+        onUpdate({ start: newStart, end: newStart + clipDuration });
       } else if (isDragging === 'start') {
         // Trim start
         const newStart = Math.max(0, Math.min(
-          dragStartRef.current.start + deltaTime,
+          applyTimelineSnap(snap, dragStartRef.current.start + deltaTime, id, bypass),
           dragStartRef.current.end - 0.5
         ));
         onUpdate({ start: newStart });
@@ -84,7 +89,7 @@ export function TimelineClip({
         // Trim end
         const newEnd = Math.max(
           dragStartRef.current.start + 0.5,
-          dragStartRef.current.end + deltaTime
+          applyTimelineSnap(snap, dragStartRef.current.end + deltaTime, id, bypass)
         );
         onUpdate({ end: newEnd });
       }
@@ -93,6 +98,7 @@ export function TimelineClip({
     const handleMouseUp = () => {
       setIsDragging(null);
       dragStartRef.current = null;
+      snap?.onGuide(null);
     };
 
     document.addEventListener('mousemove', handleMouseMove);
@@ -102,7 +108,7 @@ export function TimelineClip({
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, pixelsPerSecond, onUpdate]);
+  }, [isDragging, pixelsPerSecond, onUpdate, snap, id]);
 
   return (
     <div
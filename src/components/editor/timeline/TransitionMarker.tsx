@@ -0,0 +1,129 @@
+// TransitionMarker - Button on the cut between two video clips that opens the transition picker
+import { ArrowRightLeft, Blend } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { cn } from '@/lib/utils';
+import { ClipTransition, TransitionType, VideoLayer } from '@/types/editor';
+import {
+  DEFAULT_TRANSITION_DURATION,
+  getClipDuration,
+  getTransitionDuration,
+  MAX_TRANSITION_DURATION,
+  MIN_TRANSITION_DURATION,
+  TRANSITION_TYPES,
+} from '@/lib/transitions';
+
+interface TransitionMarkerProps {
+  outgoing: VideoLayer;
+  incoming: VideoLayer;
+  pixelsPerSecond: number;
+  onChange: (transition: ClipTransition | undefined) => void;
+}
+
+export function TransitionMarker({
+  outgoing,
+  incoming,
+  pixelsPerSecond,
+  onChange,
+}: TransitionMarkerProps) {
+  const transition = outgoing.transition;
+  const overlap = getTransitionDuration(outgoing, incoming);
+  // Center on the overlap, or on the cut when there is none
+  const center = (incoming.start + outgoing.end) / 2;
+  const maxDuration = Math.max(
+    MIN_TRANSITION_DURATION,
+    Math.min(MAX_TRANSITION_DURATION, Math.min(getClipDuration(outgoing), getClipDuration(incoming)) / 2)
+  );
+
+  const handleTypeSelect = (type: TransitionType | null) => {
+    if (!type) {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      type,
+      duration: Math.min(transition?.duration ?? DEFAULT_TRANSITION_DURATION, maxDuration),
+    });
+    console.log(`[TIMELINE] transition ${outgoing.id} → ${incoming.id}: ${type}`);
+  };
+
+  return (
+    <>
+      {/* Overlap shading */}
+      {overlap > 0 && (
+        <div
+          className="absolute top-0 bottom-0 bg-white/25 pointer-events-none z-20 rounded-sm"
+          style={{
+            left: `${incoming.start * pixelsPerSecond}px`,
+            width: `${overlap * pixelsPerSecond}px`,
+          }}
+        />
+      )}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            className={cn(
+              'absolute top-1/2 -translate-x-1/2 -translate-y-1/2 z-30 h-5 w-5 rounded flex items-center justify-center border shadow-sm transition-colors',
+              transition
+                ? 'bg-primary text-primary-foreground border-primary'
+                : 'bg-background text-muted-foreground border-border hover:text-foreground'
+            )}
+            style={{ left: `${center * pixelsPerSecond}px` }}
+            onClick={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            title={transition ? TRANSITION_TYPES.find(t => t.type === transition.type)?.label : 'Add transition'}
+          >
+            {transition ? <Blend className="h-3 w-3" /> : <ArrowRightLeft className="h-3 w-3" />}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-60 p-3 space-y-3"
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <p className="text-xs font-medium">Transition</p>
+          <div className="grid grid-cols-2 gap-1.5">
+            <button
+              className={cn(
+                'text-xs rounded-md border px-2 py-1.5 transition-colors',
+                !transition ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+              )}
+              onClick={() => handleTypeSelect(null)}
+            >
+              None
+            </button>
+            {TRANSITION_TYPES.map(option => (
+              <button
+                key={option.type}
+                className={cn(
+                  'text-xs rounded-md border px-2 py-1.5 transition-colors',
+                  transition?.type === option.type ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+                )}
+                onClick={() => handleTypeSelect(option.type)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {transition && (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+                <span>Duration</span>
+                <span className="tabular-nums">{overlap.toFixed(1)}s</span>
+              </div>
+              <Slider
+                value={[Math.min(transition.duration, maxDuration)]}
+                onValueChange={([duration]) => onChange({ ...transition, duration })}
+                min={MIN_TRANSITION_DURATION}
+                max={maxDuration}
+                step={0.1}
+              />
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </>
+  );
+}
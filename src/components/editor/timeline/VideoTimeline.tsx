@@ -5,23 +5,26 @@
 // Integrated with AudioTimelineTrack and TextTimelineTrack
 
 import { useRef, useCallback, useEffect, useState, useMemo } from 'react';
-import { Scissors, Upload, Loader2, Hand, Move } from 'lucide-react';
+import { Scissors, Upload, Loader2, Hand, Move, ListX, AudioWaveform } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { VideoLayer, AudioTrack as AudioTrackType, EmojiLayer, TextLayer, ImageLayer } from '@/types/editor';
+import { VideoLayer, AudioTrack as AudioTrackType, AudioAnalysis, AudioDucking, EmojiLayer, TextLayer, ImageLayer, OverlayVideoLayer } from '@/types/editor';
 import { toast } from '@/hooks/use-toast';
 import { uploadVideo, getVideoMetadata } from '@/lib/storage';
 import { useAuth } from '@/hooks/useAuth';
 import { VideoPlayer } from '@/lib/player';
+import { getDuckingRanges } from '@/lib/audioMix';
+import { getTimelineBeats } from '@/lib/beats';
+import { TimelineSnap, buildTimelineSnapTargets } from '@/lib/snapping';
 
 import { TimeScale } from './TimeScale';
 import { Playhead } from './Playhead';
 import { ZoomControls } from './ZoomControls';
 import { VideoTrack } from './VideoTrack';
-import { AudioTrack } from './AudioTrack';
 import { LayersTrack } from './LayersTrack';
 import { TrimHandles } from './TrimHandles';
 import { AudioTimelineTrack } from './AudioTimelineTrack';
 import { TextTimelineTrack } from './TextTimelineTrack';
+import { ClipSpeedControl } from './ClipSpeedControl';
 
 const TRACK_LABEL_WIDTH = 88;
 const MIN_ZOOM = 1;
@@ -35,10 +38,17 @@ interface VideoTimelineProps {
   clipStart: number;
   clipEnd: number;
   videoLayers: VideoLayer[];
-  audioTrack: AudioTrackType | null;
+  audioTracks: AudioTrackType[];
+  audioDucking?: AudioDucking;
+  // Decoded peaks and beats per audio track id, and the beats of all tracks on the timeline
+  audioAnalyses?: Record<string, AudioAnalysis>;
+  beatMarkers?: number[];
+  snapCutsToBeats?: boolean;
+  onSnapCutsToBeatsChange?: (enabled: boolean) => void;
   emojiLayers: EmojiLayer[];
   textLayers: TextLayer[];
   imageLayers: ImageLayer[];
+  overlayLayers: OverlayVideoLayer[];
   selectedLayerId: string | null;
   onSeek: (time: number) => void;
   onScrubStart: () => void;
@@ -50,6 +60,8 @@ interface VideoTimelineProps {
   onLayerDelete: (type: string, id: string) => void;
   onAddVideo?: (video: Omit<VideoLayer, 'id'>) => void;
   onAddImage?: (image: Omit<ImageLayer, 'id'>) => void;
+  onSplitVideo?: (time: number) => void;
+  onRippleDelete?: (id: string) => void;
   player: VideoPlayer | null;
   // Volume control props for inline timeline controls
   videoVolume?: number;
@@ -65,10 +77,16 @@ export function VideoTimeline({
   clipStart,
   clipEnd,
   videoLayers,
-  audioTrack,
+  audioTracks,
+  audioDucking,
+  audioAnalyses = {},
+  beatMarkers = [],
+  snapCutsToBeats = false,
+  onSnapCutsToBeatsChange,
   emojiLayers,
   textLayers,
   imageLayers,
+  overlayLayers,
   selectedLayerId,
   onSeek,
   onScrubStart,
@@ -80,6 +98,8 @@ export function VideoTimeline({
   onLayerDelete,
   onAddVideo,
   onAddImage,
+  onSplitVideo,
+  onRippleDelete,
   player,
   videoVolume = 100,
   isVideoMuted = false,
@@ -100,12 +120,37 @@ export function VideoTimeline({
   const [isDragOver, setIsDragOver] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [activeClipIndex, setActiveClipIndex] = useState(0);
+  const [snapGuide, setSnapGuide] = useState<number | null>(null);
 
   // Computed values - CRITICAL: use totalDuration from player when available
   const pixelsPerSecond = BASE_PIXELS_PER_SECOND * zoomLevel;
   const effectiveDuration = player ? player.getTotalDuration() || duration : duration;
   const timelineWidth = Math.max(effectiveDuration * pixelsPerSecond, 800);
 
+  // Voiceover ranges music ducks under - drawn on the music tracks' gain lines
+  const duckingRanges = useMemo(() => getDuckingRanges(audioTracks), [audioTracks]);
+
+  // Snap targets for every draggable edge: playhead, all clips on all tracks, the trim markers and beats
+  const snap = useMemo<TimelineSnap>(() => ({
+    targets: buildTimelineSnapTargets({
+      playhead: currentTime,
+      clips: [
+        ...videoLayers,
+        ...overlayLayers,
+        ...imageLayers,
+        ...textLayers,
+        ...emojiLayers,
+        ...audioTracks.map(track => ({ id: track.id, start: track.startAt, end: track.endAt })),
+      ],
+      markers: [clipStart, clipEnd],
+      beats: audioTracks.flatMap(track => !track.muted && audioAnalyses[track.id]
+        ? getTimelineBeats(track, audioAnalyses[track.id].beats).map(time => ({ time, ownerId: track.id }))
+        : []),
+    }),
+    pixelsPerSecond,
+    onGuide: setSnapGuide,
+  }), [currentTime, videoLayers, overlayLayers, imageLayers, textLayers, emojiLayers, audioTracks, audioAnalyses, clipStart, clipEnd, pixelsPerSecond]);
+
   // Sorted clips for highlighting
   const sortedClips = useMemo(() => 
     [...videoLayers].sort((a, b) => a.start - b.start),
@@ -393,6 +438,15 @@ export function VideoTimeline({
     onSeek(time);
   }, [isScrubbing, effectiveDuration, pixelsPerSecond, onSeek, player]);
 
+  // Jump to a time picked in a track (e.g. a keyframe)
+  const handleSeekTo = useCallback((time: number) => {
+    const clampedTime = Math.max(0, Math.min(effectiveDuration, time));
+    if (player) {
+      player.seekGlobalTime(clampedTime);
+    }
+    onSeek(clampedTime);
+  }, [effectiveDuration, onSeek, player]);
+
   // Scrubbing handlers
   const handleScrubStart = useCallback(() => {
     setIsScrubbing(true);
@@ -430,45 +484,15 @@ export function VideoTimeline({
     setZoomLevel(prev => Math.max(MIN_ZOOM, prev - 1));
   }, []);
 
-  // Split clip at playhead
+  // Split clip at playhead - the editor does the cut so it is one undo step
   const handleSplitAtPlayhead = useCallback(() => {
-    const clipToSplit = videoLayers.find(layer => 
-      currentTime > layer.start && currentTime < layer.end
-    );
-    
-    if (!clipToSplit) {
-      toast({
-        title: 'No clip at playhead',
-        description: 'Position the playhead within a clip to split it.',
-      });
-      return;
-    }
+    onSplitVideo?.(currentTime);
+  }, [currentTime, onSplitVideo]);
 
-    onLayerUpdate('video', clipToSplit.id, { end: currentTime });
-    
-    if (onAddVideo) {
-      const secondHalf: Omit<VideoLayer, 'id'> = {
-        type: 'video',
-        src: clipToSplit.src,
-        fileName: clipToSplit.fileName + ' (split)',
-        start: currentTime,
-        end: clipToSplit.end,
-        duration: clipToSplit.end - currentTime,
-        volume: clipToSplit.volume,
-        position: clipToSplit.position,
-        scale: clipToSplit.scale,
-        rotation: clipToSplit.rotation,
-        filter: clipToSplit.filter,
-      };
-      onAddVideo(secondHalf);
-    }
-    
-    console.log('[Timeline] Split clip at:', currentTime.toFixed(2));
-    toast({
-      title: 'Clip split',
-      description: `Split at ${formatTime(currentTime)}`,
-    });
-  }, [currentTime, videoLayers, onLayerUpdate, onAddVideo]);
+  const selectedVideoClip = useMemo(
+    () => videoLayers.find(layer => layer.id === selectedLayerId) ?? null,
+    [videoLayers, selectedLayerId]
+  );
 
   // Drag & drop handlers - uploads to Supabase storage (permanent URL)
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -602,12 +626,39 @@ export function VideoTimeline({
             variant="outline" 
             size="sm" 
             onClick={handleSplitAtPlayhead}
-            disabled={videoLayers.length === 0}
-            title="Split clip at playhead"
+            disabled={videoLayers.length === 0 || !onSplitVideo}
+            title="Split clip at playhead (S)"
           >
             <Scissors className="h-4 w-4 mr-1" />
             Split
           </Button>
+
+          <Button
+            variant={snapCutsToBeats ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => onSnapCutsToBeatsChange?.(!snapCutsToBeats)}
+            disabled={!onSnapCutsToBeatsChange || beatMarkers.length === 0}
+            title={snapCutsToBeats ? 'Splits snap to the nearest beat - click to cut exactly at the playhead' : 'Snap splits to the nearest beat'}
+          >
+            <AudioWaveform className="h-4 w-4 mr-1" />
+            Beats
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => selectedVideoClip && onRippleDelete?.(selectedVideoClip.id)}
+            disabled={!selectedVideoClip || !onRippleDelete}
+            title="Delete clip and close the gap (Shift+Delete)"
+          >
+            <ListX className="h-4 w-4 mr-1" />
+            Ripple delete
+          </Button>
+
+          <ClipSpeedControl
+            clip={selectedVideoClip}
+            onChange={(updates) => selectedVideoClip && onLayerUpdate('video', selectedVideoClip.id, updates)}
+          />
           
           <ZoomControls
             zoomLevel={zoomLevel}
@@ -634,7 +685,7 @@ export function VideoTimeline({
       {/* Timeline Content - scrollable with dynamic width */}
       <div 
         ref={scrollContainerRef}
-        className={`flex-1 overflow-x-auto overflow-y-hidden transition-colors ${isDragOver ? 'bg-primary/5' : ''}`}
+        className={`flex-1 overflow-x-auto overflow-y-auto transition-colors ${isDragOver ? 'bg-primary/5' : ''}`}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
@@ -672,6 +723,7 @@ export function VideoTimeline({
             duration={effectiveDuration}
             pixelsPerSecond={pixelsPerSecond}
             trackLabelWidth={TRACK_LABEL_WIDTH}
+            beats={beatMarkers}
           />
 
           {/* Trim Handles */}
@@ -704,16 +756,40 @@ export function VideoTimeline({
               isVideoMuted={isVideoMuted}
               onVideoVolumeChange={onVideoVolumeChange}
               onVideoMutedChange={onVideoMutedChange}
+              snap={snap}
             />
 
-            <AudioTrack
-              audioTrack={audioTrack}
+            {/* One row per audio track; an empty row invites adding the first */}
+            {(audioTracks.length > 0 ? audioTracks : [null]).map(track => (
+              <AudioTimelineTrack
+                key={track?.id ?? 'empty'}
+                audioTrack={track}
+                duration={effectiveDuration}
+                pixelsPerSecond={pixelsPerSecond}
+                isSelected={!!track && selectedLayerId === track.id}
+                onSelect={() => track && onLayerSelect('audio', track.id)}
+                onUpdate={(updates) => track && onLayerUpdate('audio', track.id, updates)}
+                onDelete={() => track && onLayerDelete('audio', track.id)}
+                trackLabelWidth={TRACK_LABEL_WIDTH}
+                duckingRanges={duckingRanges}
+                ducking={audioDucking}
+                analysis={track ? audioAnalyses[track.id] : undefined}
+                snap={snap}
+              />
+            ))}
+
+            <LayersTrack
+              type="overlay-video"
+              layers={overlayLayers}
               pixelsPerSecond={pixelsPerSecond}
               selectedLayerId={selectedLayerId}
               onLayerSelect={onLayerSelect}
               onLayerUpdate={onLayerUpdate}
               onLayerDelete={onLayerDelete}
               trackLabelWidth={TRACK_LABEL_WIDTH}
+              currentTime={currentTime}
+              onSeek={handleSeekTo}
+              snap={snap}
             />
 
             <LayersTrack
@@ -725,6 +801,9 @@ export function VideoTimeline({
               onLayerUpdate={onLayerUpdate}
               onLayerDelete={onLayerDelete}
               trackLabelWidth={TRACK_LABEL_WIDTH}
+              currentTime={currentTime}
+              onSeek={handleSeekTo}
+              snap={snap}
             />
 
             <LayersTrack
@@ -736,6 +815,9 @@ export function VideoTimeline({
               onLayerUpdate={onLayerUpdate}
               onLayerDelete={onLayerDelete}
               trackLabelWidth={TRACK_LABEL_WIDTH}
+              currentTime={currentTime}
+              onSeek={handleSeekTo}
+              snap={snap}
             />
 
             <LayersTrack
@@ -747,9 +829,20 @@ export function VideoTimeline({
               onLayerUpdate={onLayerUpdate}
               onLayerDelete={onLayerDelete}
               trackLabelWidth={TRACK_LABEL_WIDTH}
+              currentTime={currentTime}
+              onSeek={handleSeekTo}
+              snap={snap}
             />
           </div>
 
+          {/* Snap guide - shown while a dragged edge is held on a target */}
+          {snapGuide !== null && (
+            <div
+              className="absolute top-0 bottom-0 w-px bg-cyan-400 z-30 pointer-events-none"
+              style={{ left: `${TRACK_LABEL_WIDTH + snapGuide * pixelsPerSecond}px` }}
+            />
+          )}
+
           {/* Playhead - moves with currentTime */}
           <Playhead
             currentTime={currentTime}
@@ -771,6 +864,7 @@ export function VideoTimeline({
         <span><kbd className="px-1 bg-muted rounded">Shift</kbd> + scroll = pan</span>
         <span><kbd className="px-1 bg-muted rounded">Alt</kbd> + drag or middle-click = pan</span>
         <span>Pinch = zoom (trackpad/touch)</span>
+        <span><kbd className="px-1 bg-muted rounded">Ctrl</kbd> + drag = no snapping</span>
         <span>Drop videos to add</span>
       </div>
     </div>
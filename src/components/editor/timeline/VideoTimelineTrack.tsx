@@ -4,6 +4,7 @@ import { Slider } from '@/components/ui/slider';
 import { cn } from '@/lib/utils';
 import { VideoLayer } from '@/types/editor';
 import { getAudioEngine } from '@/lib/audioEngine';
+import { TransitionMarker } from './TransitionMarker';
 
 interface VideoTimelineTrackProps {
   videoLayers: VideoLayer[];
@@ -41,6 +42,8 @@ export function VideoTimelineTrack({
   const [dragStartX, setDragStartX] = useState(0);
   const [initialValues, setInitialValues] = useState({ start: 0, end: 0 });
 
+  const sortedLayers = [...videoLayers].sort((a, b) => a.start - b.start);
+
   // Handle mouse down on clip
   const handleClipMouseDown = (
     e: React.MouseEvent,
@@ -291,6 +294,17 @@ export function VideoTimelineTrack({
             </div>
           );
         })}
+
+        {/* Transition pickers on each cut */}
+        {sortedLayers.slice(1).map((incoming, index) => (
+          <TransitionMarker
+            key={`transition-${sortedLayers[index].id}`}
+            outgoing={sortedLayers[index]}
+            incoming={incoming}
+            pixelsPerSecond={pixelsPerSecond}
+            onChange={(transition) => onLayerUpdate('video', sortedLayers[index].id, { transition })}
+          />
+        ))}
       </div>
     </div>
   );
@@ -4,8 +4,11 @@ import { Video, Upload, Volume2, VolumeX } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { TimelineClip } from './TimelineClip';
 import { TimelineAddClipButton } from './TimelineAddClipButton';
+import { TransitionMarker } from './TransitionMarker';
 import { VideoLayer, ImageLayer } from '@/types/editor';
 import { getAudioEngine } from '@/lib/audioEngine';
+import { getClipSpeedLabel } from '@/lib/clipTiming';
+import { TimelineSnap } from '@/lib/snapping';
 import { cn } from '@/lib/utils';
 
 interface VideoTrackProps {
@@ -25,6 +28,7 @@ interface VideoTrackProps {
   isVideoMuted?: boolean;
   onVideoVolumeChange?: (volume: number) => void;
   onVideoMutedChange?: (muted: boolean) => void;
+  snap?: TimelineSnap;
 }
 
 export function VideoTrack({
@@ -43,6 +47,7 @@ export function VideoTrack({
   isVideoMuted = false,
   onVideoVolumeChange,
   onVideoMutedChange,
+  snap,
 }: VideoTrackProps) {
   const [showVolumeSlider, setShowVolumeSlider] = useState(false);
   
@@ -179,7 +184,7 @@ export function VideoTrack({
             key={layer.id}
             id={layer.id}
             type="video"
-            label={layer.fileName}
+            label={getClipSpeedLabel(layer) ? `${getClipSpeedLabel(layer)} · ${layer.fileName}` : layer.fileName}
             start={layer.start}
             end={layer.end}
             bgColor={index === currentClipIndex ? 'rgb(34 197 94 / 0.9)' : 'rgb(59 130 246 / 0.9)'}
@@ -191,6 +196,18 @@ export function VideoTrack({
             onSelect={() => onLayerSelect('video', layer.id)}
             onUpdate={(updates) => onLayerUpdate('video', layer.id, updates)}
             onDelete={() => onLayerDelete('video', layer.id)}
+            snap={snap}
+          />
+        ))}
+
+        {/* Transition pickers on each cut */}
+        {sortedLayers.slice(1).map((incoming, index) => (
+          <TransitionMarker
+            key={`transition-${sortedLayers[index].id}`}
+            outgoing={sortedLayers[index]}
+            incoming={incoming}
+            pixelsPerSecond={pixelsPerSecond}
+            onChange={(transition) => onLayerUpdate('video', sortedLayers[index].id, { transition })}
           />
         ))}
 
@@ -9,3 +9,6 @@ export { VideoTrack } from './VideoTrack';
 export { AudioTrack } from './AudioTrack';
 export { LayersTrack } from './LayersTrack';
 export { TrimHandles } from './TrimHandles';
+export { TransitionMarker } from './TransitionMarker';
+export { KeyframeLane } from './KeyframeLane';
+export { ClipSpeedControl } from './ClipSpeedControl';
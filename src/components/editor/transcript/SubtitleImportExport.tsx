@@ -0,0 +1,164 @@
+// SubtitleImportExport - SRT/WebVTT import into a transcript and export of transcript or captions
+// Import problems are listed per line; cues that parse are still imported
+
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, Upload } from 'lucide-react';
+import { TextLayer, Transcript } from '@/types/editor';
+import { toast } from '@/hooks/use-toast';
+import {
+  SubtitleCue,
+  SubtitleFormat,
+  cuesToTranscript,
+  detectSubtitleFormat,
+  formatSubtitles,
+  getSubtitleMimeType,
+  parseSubtitles,
+  textLayersToCues,
+  transcriptToCues,
+  validateCues,
+} from '@/lib/subtitles';
+
+interface SubtitleImportExportProps {
+  transcript: Transcript | null;
+  captionLayers: TextLayer[];
+  audioTrackId?: string;
+  fileBaseName?: string;
+  onImport: (transcript: Transcript, createCaptions: boolean) => void;
+}
+
+const MAX_LISTED_ISSUES = 3;
+
+export function SubtitleImportExport({
+  transcript,
+  captionLayers,
+  audioTrackId,
+  fileBaseName = 'subtitles',
+  onImport,
+}: SubtitleImportExportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [createCaptions, setCreateCaptions] = useState(true);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-importing the same file after fixing it
+    if (!file) return;
+
+    const content = await file.text();
+    const { cues, issues, format } = parseSubtitles(content, detectSubtitleFormat(content, file.name));
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    console.log('[Subtitles] Imported', file.name, format, 'cues:', cues.length, 'issues:', issues.length);
+
+    const listedIssues = issues
+      .slice(0, MAX_LISTED_ISSUES)
+      .map((issue) => `Line ${issue.line}: ${issue.message}`)
+      .join('; ');
+    const moreIssues = issues.length > MAX_LISTED_ISSUES ? ` (+${issues.length - MAX_LISTED_ISSUES} more)` : '';
+
+    if (cues.length === 0) {
+      toast({
+        title: 'Import failed',
+        description: listedIssues || 'No subtitles found in this file',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    onImport(cuesToTranscript(cues, { audioTrackId: audioTrackId ?? 'imported' }), createCaptions);
+
+    toast({
+      title: errors.length > 0 ? `Imported ${cues.length} cues with ${errors.length} errors` : `Imported ${cues.length} cues`,
+      description: issues.length > 0 ? `${listedIssues}${moreIssues}` : `${file.name} (${format.toUpperCase()})`,
+      variant: errors.length > 0 ? 'destructive' : undefined,
+    });
+  };
+
+  const download = (cues: SubtitleCue[], format: SubtitleFormat, suffix: string) => {
+    if (cues.length === 0) return;
+
+    const overlaps = validateCues([...cues].sort((a, b) => a.start - b.start));
+    const blob = new Blob([formatSubtitles(cues, format)], { type: getSubtitleMimeType(format) });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileBaseName}${suffix}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    if (overlaps.length > 0) {
+      toast({
+        title: 'Exported with overlapping cues',
+        description: `${overlaps.length} cues overlap; some players show only one at a time`,
+      });
+    }
+  };
+
+  const transcriptCues = transcript ? transcriptToCues(transcript) : [];
+  const captionCues = textLayersToCues(captionLayers);
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".srt,.vtt,text/vtt,application/x-subrip"
+        onChange={handleFileSelected}
+        className="hidden"
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 h-8" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-3 w-3 mr-1" />
+          Import SRT/VTT
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 h-8"
+              disabled={transcriptCues.length === 0 && captionCues.length === 0}
+            >
+              <Download className="h-3 w-3 mr-1" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel className="text-xs">Transcript</DropdownMenuLabel>
+            <DropdownMenuItem disabled={transcriptCues.length === 0} onClick={() => download(transcriptCues, 'srt', '')}>
+              SubRip (.srt)
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={transcriptCues.length === 0} onClick={() => download(transcriptCues, 'vtt', '')}>
+              WebVTT (.vtt)
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs">Captions (as edited)</DropdownMenuLabel>
+            <DropdownMenuItem disabled={captionCues.length === 0} onClick={() => download(captionCues, 'srt', '-captions')}>
+              SubRip (.srt)
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={captionCues.length === 0} onClick={() => download(captionCues, 'vtt', '-captions')}>
+              WebVTT (.vtt)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch id="subtitle-import-captions" checked={createCaptions} onCheckedChange={setCreateCaptions} />
+        <Label htmlFor="subtitle-import-captions" className="text-xs text-muted-foreground">
+          Create caption layers on import
+        </Label>
+      </div>
+    </div>
+  );
+}
@@ -3,31 +3,58 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Wand2, Plus, Loader2, Edit2, Check, X, Clock, PlayCircle } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Wand2, Plus, Loader2, Edit2, Check, X, Clock, PlayCircle, RotateCcw, Subtitles } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { TranscriptSegment, Transcript, TextLayer, defaultTextStyle } from '@/types/editor';
 import { toast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { useTranscription } from '@/hooks/useTranscription';
+import { CAPTION_PRESETS, CaptionOptions, defaultCaptionOptions } from '@/lib/captions';
+import { SubtitleImportExport } from './SubtitleImportExport';
+
+// Words below this confidence are underlined so they can be checked by hand
+const LOW_CONFIDENCE = 0.6;
 
 interface TranscriptPanelProps {
   audioUrl?: string;
+  audioTrackId?: string;
+  projectId?: string;
   transcript: Transcript | null;
   onTranscriptUpdate: (transcript: Transcript) => void;
   onAddTextLayer: (text: Omit<TextLayer, 'id'>) => void;
   onSeek?: (time: number) => void;
+  onGenerateCaptions: (options: CaptionOptions, source?: Transcript) => void;
+  captionLayers?: TextLayer[];
 }
 
 export function TranscriptPanel({
   audioUrl,
+  audioTrackId,
+  projectId,
   transcript,
   onTranscriptUpdate,
   onAddTextLayer,
   onSeek,
+  onGenerateCaptions,
+  captionLayers = [],
 }: TranscriptPanelProps) {
-  const [isGenerating, setIsGenerating] = useState(false);
+  const hasCaptions = captionLayers.length > 0;
   const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
   const [editText, setEditText] = useState('');
   const [selectedSegments, setSelectedSegments] = useState<Set<string>>(new Set());
+  const [captionOptions, setCaptionOptions] = useState<CaptionOptions>(defaultCaptionOptions);
+
+  const transcription = useTranscription((result) => {
+    onTranscriptUpdate(result);
+    toast({
+      title: 'Transcript ready',
+      description: result.language
+        ? `Your audio has been transcribed (${result.language.toUpperCase()})`
+        : 'Your audio has been transcribed',
+    });
+  });
+  const isGenerating = transcription.isProcessing;
 
   const handleGenerateTranscript = async () => {
     if (!audioUrl) {
@@ -39,103 +66,16 @@ export function TranscriptPanel({
       return;
     }
 
-    setIsGenerating(true);
-    try {
-      // Call transcription edge function
-      const { data, error } = await supabase.functions.invoke('transcribe-audio', {
-        body: { audioUrl },
-      });
-
-      if (error) throw error;
-
-      if (data.status === 'processing') {
-        // Start polling for result
-        pollTranscriptStatus(data.jobId);
-      } else if (data.transcript) {
-        onTranscriptUpdate(data.transcript);
-        toast({
-          title: 'Transcript generated',
-          description: 'Your audio has been transcribed',
-        });
-        setIsGenerating(false);
-      }
-    } catch (error) {
-      console.error('Transcription error:', error);
-      
-      // For demo purposes, generate a mock transcript
-      const mockTranscript: Transcript = {
-        id: `transcript_${Date.now()}`,
-        audioTrackId: 'audio-1',
-        status: 'completed',
-        language: 'en',
-        segments: [
-          { id: '1', text: 'Hello and welcome to this video.', start: 0, end: 3, confidence: 0.95 },
-          { id: '2', text: 'Today we will explore something amazing.', start: 3, end: 6, confidence: 0.92 },
-          { id: '3', text: 'Stay tuned for more great content.', start: 6, end: 9, confidence: 0.89 },
-          { id: '4', text: "Don't forget to like and subscribe!", start: 9, end: 12, confidence: 0.94 },
-          { id: '5', text: 'Thanks for watching!', start: 12, end: 14, confidence: 0.97 },
-        ],
-      };
-
-      onTranscriptUpdate(mockTranscript);
+    const started = await transcription.start({ audioUrl, audioTrackId, projectId });
+    if (!started) {
       toast({
-        title: 'Demo transcript generated',
-        description: 'Using sample transcript for demo',
+        title: 'Transcription failed',
+        description: 'Could not start transcription. Please try again.',
+        variant: 'destructive',
       });
-      setIsGenerating(false);
     }
   };
 
-  const pollTranscriptStatus = async (jobId: string) => {
-    const maxAttempts = 30;
-    let attempts = 0;
-
-    const poll = async () => {
-      attempts++;
-      if (attempts > maxAttempts) {
-        setIsGenerating(false);
-        toast({
-          title: 'Timeout',
-          description: 'Transcription is taking too long. Please try again.',
-          variant: 'destructive',
-        });
-        return;
-      }
-
-      try {
-        const { data, error } = await supabase.functions.invoke('transcribe-audio', {
-          body: { jobId },
-        });
-
-        if (error) throw error;
-
-        if (data.status === 'completed' && data.transcript) {
-          onTranscriptUpdate(data.transcript);
-          setIsGenerating(false);
-          toast({
-            title: 'Transcript ready',
-            description: 'Your audio has been transcribed',
-          });
-        } else if (data.status === 'failed') {
-          setIsGenerating(false);
-          toast({
-            title: 'Transcription failed',
-            description: data.error || 'Please try again',
-            variant: 'destructive',
-          });
-        } else {
-          // Still processing, poll again
-          setTimeout(poll, 2000);
-        }
-      } catch (error) {
-        console.error('Polling error:', error);
-        setTimeout(poll, 2000);
-      }
-    };
-
-    poll();
-  };
-
   const handleEditSegment = (segment: TranscriptSegment) => {
     setEditingSegmentId(segment.id);
     setEditText(segment.text);
@@ -145,7 +85,8 @@ export function TranscriptPanel({
     if (!transcript) return;
 
     const updatedSegments = transcript.segments.map((seg) =>
-      seg.id === segmentId ? { ...seg, text: editText } : seg
+      // Word timings no longer match once the text is edited by hand
+      seg.id === segmentId ? { ...seg, text: editText, words: undefined } : seg
     );
 
     onTranscriptUpdate({
@@ -227,32 +168,17 @@ export function TranscriptPanel({
     });
   };
 
-  const handleInsertAllAsCaptions = () => {
-    if (!transcript || transcript.segments.length === 0) return;
-
-    // Add each segment as a separate text layer (captions)
-    transcript.segments.forEach((segment) => {
-      onAddTextLayer({
-        type: 'text',
-        content: segment.text,
-        start: segment.start,
-        end: segment.end,
-        position: { x: 50, y: 88 },
-        scale: 1,
-        rotation: 0,
-        style: {
-          ...defaultTextStyle,
-          fontSize: 18,
-          backgroundColor: 'rgba(0,0,0,0.75)',
-          color: '#ffffff',
-        },
-      });
-    });
+  const handleImportSubtitles = (imported: Transcript, createCaptions: boolean) => {
+    onTranscriptUpdate(imported);
+    setSelectedSegments(new Set());
+    if (createCaptions) {
+      onGenerateCaptions(captionOptions, imported);
+    }
+  };
 
-    toast({
-      title: 'All captions added',
-      description: `Added ${transcript.segments.length} caption layers`,
-    });
+  const handleGenerateCaptions = () => {
+    if (!transcript || transcript.segments.length === 0) return;
+    onGenerateCaptions(captionOptions);
   };
 
   const formatTime = (seconds: number): string => {
@@ -270,9 +196,16 @@ export function TranscriptPanel({
             Transcript
           </h3>
           {transcript && (
-            <Badge variant="outline" className="text-xs">
-              {transcript.segments.length} segments
-            </Badge>
+            <div className="flex items-center gap-1">
+              {transcript.language && (
+                <Badge variant="secondary" className="text-xs uppercase">
+                  {transcript.language}
+                </Badge>
+              )}
+              <Badge variant="outline" className="text-xs">
+                {transcript.segments.length} segments
+              </Badge>
+            </div>
           )}
         </div>
 
@@ -285,15 +218,66 @@ export function TranscriptPanel({
         )}
 
         {transcript && transcript.segments.length > 0 && selectedSegments.size === 0 && (
-          <Button 
-            variant="outline" 
-            size="sm" 
-            className="w-full h-8" 
-            onClick={handleInsertAllAsCaptions}
-          >
-            <Plus className="h-3 w-3 mr-1" />
-            Add All as Captions
-          </Button>
+          <div className="space-y-2 rounded-lg border border-border p-2">
+            <div className="flex items-center gap-2">
+              <Subtitles className="h-3.5 w-3.5 text-muted-foreground" />
+              <Select
+                value={captionOptions.presetId}
+                onValueChange={(presetId) => setCaptionOptions((prev) => ({ ...prev, presetId }))}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CAPTION_PRESETS.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">Max characters per line</span>
+                <span className="text-xs">{captionOptions.maxCharsPerLine}</span>
+              </div>
+              <Slider
+                value={[captionOptions.maxCharsPerLine]}
+                onValueChange={(v) => setCaptionOptions((prev) => ({ ...prev, maxCharsPerLine: v[0] }))}
+                min={12}
+                max={60}
+                step={1}
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">Max line duration</span>
+                <span className="text-xs">{captionOptions.maxLineDuration}s</span>
+              </div>
+              <Slider
+                value={[captionOptions.maxLineDuration]}
+                onValueChange={(v) => setCaptionOptions((prev) => ({ ...prev, maxLineDuration: v[0] }))}
+                min={1}
+                max={6}
+                step={0.5}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-8"
+              onClick={handleGenerateCaptions}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              {hasCaptions ? 'Regenerate Captions' : 'Generate Captions'}
+            </Button>
+            {hasCaptions && (
+              <p className="text-xs text-muted-foreground">
+                Captions stay linked: edits to the transcript update them
+              </p>
+            )}
+          </div>
         )}
 
         {!transcript && (
@@ -316,6 +300,25 @@ export function TranscriptPanel({
           </Button>
         )}
 
+        {!transcript && transcription.status === 'failed' && (
+          <div className="space-y-2">
+            <p className="text-xs text-destructive">{transcription.error}</p>
+            {transcription.jobId && (
+              <Button variant="outline" size="sm" className="w-full h-8" onClick={transcription.retry}>
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Retry
+              </Button>
+            )}
+          </div>
+        )}
+
+        <SubtitleImportExport
+          transcript={transcript}
+          captionLayers={captionLayers}
+          audioTrackId={audioTrackId}
+          onImport={handleImportSubtitles}
+        />
+
         {!audioUrl && !transcript && (
           <p className="text-xs text-muted-foreground text-center">
             Add an audio track to generate a transcript
@@ -384,7 +387,22 @@ export function TranscriptPanel({
                       </div>
                     </div>
                   ) : (
-                    <p className="text-sm leading-relaxed">{segment.text}</p>
+                    <p className="text-sm leading-relaxed">
+                      {segment.words && segment.words.length > 0
+                        ? segment.words.map((word, i) => (
+                            <span
+                              key={`${segment.id}-${i}`}
+                              className={cn(
+                                word.confidence !== undefined && word.confidence < LOW_CONFIDENCE &&
+                                  'underline decoration-dotted decoration-yellow-500'
+                              )}
+                              title={word.confidence !== undefined ? `${Math.round(word.confidence * 100)}%` : undefined}
+                            >
+                              {i > 0 && ' '}{word.text}
+                            </span>
+                          ))
+                        : segment.text}
+                    </p>
                   )}
                 </div>
 
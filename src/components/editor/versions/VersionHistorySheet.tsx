@@ -0,0 +1,146 @@
+// VersionHistorySheet - Named versions and automatic checkpoints of the open project
+// Each entry shows what changed since the version before it and how it differs from the current edit
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, Loader2, RotateCcw, Save, Trash2, Timer } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ProjectVersion } from '@/hooks/useProjectVersions';
+import { SavedProjectJson, describeDiff, diffProjects } from '@/lib/projectVersions';
+
+interface VersionHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: ProjectVersion[];
+  loading: boolean;
+  currentProject: SavedProjectJson | null; // the edit as it stands, for "differs from now" summaries
+  onSaveVersion: (name: string) => Promise<unknown>;
+  onRestore: (version: ProjectVersion) => Promise<void>;
+  onDelete: (versionId: string) => void;
+}
+
+export function VersionHistorySheet({
+  open,
+  onOpenChange,
+  versions,
+  loading,
+  currentProject,
+  onSaveVersion,
+  onRestore,
+  onDelete,
+}: VersionHistorySheetProps) {
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveVersion(name);
+      setName('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: ProjectVersion) => {
+    setRestoringId(version.id);
+    try {
+      await onRestore(version);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-[90vw] sm:w-[400px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version history
+          </SheetTitle>
+          <SheetDescription>
+            Checkpoints are kept automatically while you edit. Name a version to keep it for good.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2 py-4">
+          <Input
+            value={name}
+            maxLength={80}
+            placeholder="Version name, e.g. Before recolor"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && name.trim() && handleSave()}
+          />
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || !currentProject}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {loading && versions.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No versions yet</p>
+          ) : (
+            <div className="space-y-2 pb-4">
+              {versions.map((version) => {
+                const sinceThen = currentProject
+                  ? describeDiff(diffProjects(version.project_json as SavedProjectJson, currentProject))
+                  : null;
+                return (
+                  <div key={version.id} className="rounded-md border p-3 space-y-1">
+                    <div className="flex items-center gap-2">
+                      {version.is_auto && <Timer className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+                      <p className="text-sm font-medium truncate flex-1">
+                        {version.name || (version.is_auto ? 'Autosave checkpoint' : 'Untitled version')}
+                      </p>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={restoringId !== null || sinceThen === 'No changes'}
+                        onClick={() => handleRestore(version)}
+                      >
+                        {restoringId === version.id ? (
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                        )}
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Delete version"
+                        onClick={() => onDelete(version.id)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                      {version.summary && ` · ${version.summary}`}
+                    </p>
+                    {sinceThen && (
+                      <p className="text-xs text-muted-foreground">
+                        Since then: {sinceThen}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
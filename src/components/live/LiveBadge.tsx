@@ -0,0 +1,22 @@
+import { cn } from '@/lib/utils';
+
+interface LiveBadgeProps {
+  className?: string;
+  size?: 'sm' | 'md';
+}
+
+// Red "LIVE" pill shown on avatars, story cards and the player
+const LiveBadge = ({ className, size = 'md' }: LiveBadgeProps) => (
+  <span
+    className={cn(
+      "inline-flex items-center gap-1 rounded-md bg-red-600 font-bold uppercase tracking-wide text-white shadow",
+      size === 'sm' ? "px-1.5 py-0.5 text-[10px]" : "px-2 py-0.5 text-xs",
+      className
+    )}
+  >
+    <span className="h-1.5 w-1.5 rounded-full bg-white animate-pulse" />
+    Live
+  </span>
+);
+
+export default LiveBadge;
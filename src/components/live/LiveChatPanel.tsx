@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react';
+import { Send, Trash2 } from 'lucide-react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/useAuth';
+import { FloatingReaction, LiveComment } from '@/hooks/useLiveChat';
+import { LIVE_REACTIONS, LiveReaction } from '@/lib/liveStream';
+
+interface LiveChatPanelProps {
+  comments: LiveComment[];
+  onSendComment: (content: string) => Promise<boolean>;
+  onDeleteComment?: (commentId: string) => void;
+  onReact?: (emoji: LiveReaction) => void;
+  isBroadcaster?: boolean;
+  disabled?: boolean;
+}
+
+const LiveChatPanel = ({
+  comments,
+  onSendComment,
+  onDeleteComment,
+  onReact,
+  isBroadcaster = false,
+  disabled = false,
+}: LiveChatPanelProps) => {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow the conversation as new comments arrive
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [comments.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || sending) return;
+    setSending(true);
+    if (await onSendComment(draft)) setDraft('');
+    setSending(false);
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div ref={listRef} className="flex-1 min-h-0 overflow-y-auto space-y-3 p-4">
+        {comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No comments yet</p>
+        ) : comments.map(comment => (
+          <div key={comment.id} className="flex items-start gap-2 group">
+            <Avatar className="h-7 w-7">
+              <AvatarImage src={comment.profile?.profile_pic || undefined} />
+              <AvatarFallback className="text-xs">
+                {(comment.profile?.display_name || '?').charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-semibold">{comment.profile?.display_name || 'Someone'}</p>
+              <p className="text-sm break-words">{comment.content}</p>
+            </div>
+            {onDeleteComment && (isBroadcaster || comment.user_id === user?.id) && (
+              <button
+                onClick={() => onDeleteComment(comment.id)}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {onReact && !disabled && (
+        <div className="flex justify-center gap-2 px-4 pb-2">
+          {LIVE_REACTIONS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => onReact(emoji)}
+              className="text-xl hover:scale-125 transition-transform"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2 p-4 border-t border-border">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={disabled ? 'This live has ended' : 'Write a comment...'}
+          maxLength={500}
+          disabled={disabled || !user}
+        />
+        <Button type="submit" size="icon" disabled={disabled || sending || !draft.trim()}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+// Emoji reactions drifting up over the video
+export const LiveReactionsOverlay = ({ reactions }: { reactions: FloatingReaction[] }) => (
+  <div className="pointer-events-none absolute bottom-20 right-4 w-16 h-64 overflow-hidden">
+    <AnimatePresence>
+      {reactions.map((reaction, index) => (
+        <motion.span
+          key={reaction.id}
+          initial={{ opacity: 0, y: 0, x: 0 }}
+          animate={{ opacity: [0, 1, 1, 0], y: -220, x: index % 2 === 0 ? -12 : 12 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 2.5, ease: 'easeOut' }}
+          className="absolute bottom-0 left-1/2 text-3xl"
+        >
+          {reaction.emoji}
+        </motion.span>
+      ))}
+    </AnimatePresence>
+  </div>
+);
+
+export default LiveChatPanel;
@@ -5,10 +5,13 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { 
   X, User, Bell, BellOff, Search, ChevronDown, ChevronUp, 
   Lock, Image, FileText, Link, Shield, Ban, Flag, Trash2, Pin,
-  Settings, Clock, Eye, Loader2, MessageCircle, ChevronRight
+  Settings, Clock, Eye, Loader2, MessageCircle, ChevronRight, AlertTriangle, Check
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useConversationSettings } from '@/hooks/useConversationSettings';
+import { useConversationEncryption } from '@/hooks/useConversationEncryption';
+import { useAuth } from '@/hooks/useAuth';
+import { formatDistanceToNow } from 'date-fns';
 import { ChatThemeModal, THEME_OPTIONS } from './ChatThemeModal';
 import { ChatEmojiModal } from './ChatEmojiModal';
 import { SharedMediaModal } from './SharedMediaModal';
@@ -34,8 +37,16 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { DEFAULT_VANISHING_DURATION, VANISHING_DURATIONS, formatVanishingDuration } from '@/lib/vanishing';
 
 const getThemeGradient = (themeId: string) => {
   const theme = THEME_OPTIONS.find(t => t.id === themeId);
@@ -93,14 +104,10 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
   const [showMessagingControls, setShowMessagingControls] = useState(false);
   const [showEncryptionDialog, setShowEncryptionDialog] = useState(false);
   const [encryptionView, setEncryptionView] = useState<'check' | 'details' | 'keys'>('check');
-  const [selectedParticipantKeys, setSelectedParticipantKeys] = useState<any>(null);
+  const [selectedParticipantId, setSelectedParticipantId] = useState<string | null>(null);
   const [showLimitDialog, setShowLimitDialog] = useState(false);
   const [showBlockDialog, setShowBlockDialog] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
-  const [encryptionData, setEncryptionData] = useState<any>(null);
-  const [encryptionLoading, setEncryptionLoading] = useState(false);
-  const [encryptionVerified, setEncryptionVerified] = useState(false);
-  const [verifiedAt, setVerifiedAt] = useState<string | null>(null);
   const [clearingHistory, setClearingHistory] = useState(false);
   const [allowMessageSharing, setAllowMessageSharing] = useState(true);
   const [savingControls, setSavingControls] = useState(false);
@@ -110,10 +117,18 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
     settings, 
     loading,
     toggleMute, 
-    toggleVanishingMessages, 
+    setVanishingMessages, 
     toggleReadReceipts
   } = useConversationSettings(conversationId);
 
+  const { user } = useAuth();
+  const encryption = useConversationEncryption(conversationId, user?.id);
+  const verifiedAt = encryption.lastVerification
+    ? new Date(encryption.lastVerification.verified_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : null;
+  const selectedParticipant = encryption.participants.find(p => p.user_id === selectedParticipantId) || null;
+  const participantsWithoutKeys = encryption.participants.filter(p => p.devices.length === 0);
+
   const toggleSection = (section: ExpandableSection) => {
     setExpandedSection(expandedSection === section ? null : section);
   };
@@ -129,37 +144,27 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
   // Check encryption handler
   const handleCheckEncryption = async () => {
     if (!conversationId) return;
-    setEncryptionLoading(true);
     setEncryptionView('check');
     setShowEncryptionDialog(true);
-    
-    try {
-      const { data, error } = await supabase.rpc('get_encryption_details', {
-        p_conversation_id: conversationId
-      });
-      
-      if (error) throw error;
-      setEncryptionData(data);
-      
-      if ((data as any)?.last_verification) {
-        setEncryptionVerified(true);
-        setVerifiedAt(new Date((data as any).last_verification.verified_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
-      } else {
-        setEncryptionVerified(false);
-        setVerifiedAt(null);
-      }
-    } catch (error: any) {
-      console.error('Error fetching encryption details:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to load encryption details',
-        variant: 'destructive'
-      });
-    } finally {
-      setEncryptionLoading(false);
+    await encryption.refresh();
+  };
+
+  const handleVerifyEncryption = async () => {
+    const success = await encryption.verify();
+    if (success) {
+      toast({ title: 'Encryption verified', description: 'The safety number has been recorded for this chat.' });
+    } else {
+      toast({ title: 'Error', description: 'Failed to verify encryption', variant: 'destructive' });
     }
   };
 
+  const handleRemoveDevice = async (deviceId: string) => {
+    const success = await encryption.removeDevice(deviceId);
+    toast(success
+      ? { title: 'Device removed', description: 'It will no longer receive new encrypted messages.' }
+      : { title: 'Error', description: 'Failed to remove device', variant: 'destructive' });
+  };
+
   // Messaging controls handler
   const handleOpenMessagingControls = async () => {
     if (!conversationId) return;
@@ -247,6 +252,7 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
 
   const isMuted = settings?.is_muted ?? false;
   const vanishingEnabled = settings?.vanishing_messages_enabled ?? false;
+  const vanishingDuration = settings?.vanishing_messages_duration ?? DEFAULT_VANISHING_DURATION;
   const readReceiptsEnabled = settings?.read_receipts_enabled ?? true;
 
   return (
@@ -291,10 +297,18 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
               <p className="text-sm text-muted-foreground">Active 54m ago</p>
               
               {/* Encryption Badge */}
-              <div className="flex items-center gap-1.5 mt-3 px-3 py-1.5 bg-muted rounded-full">
-                <Lock className="h-3.5 w-3.5 text-muted-foreground" />
-                <span className="text-xs text-muted-foreground">End-to-end encrypted</span>
-              </div>
+              {!encryption.loading && (
+                <div className="flex items-center gap-1.5 mt-3 px-3 py-1.5 bg-muted rounded-full">
+                  {encryption.isEncrypted ? (
+                    <Lock className="h-3.5 w-3.5 text-muted-foreground" />
+                  ) : (
+                    <AlertTriangle className="h-3.5 w-3.5 text-muted-foreground" />
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {encryption.isEncrypted ? 'End-to-end encrypted' : 'Not end-to-end encrypted'}
+                  </span>
+                </div>
+              )}
             </div>
 
             {/* Quick Actions */}
@@ -491,17 +505,35 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
                     <Settings className="h-5 w-5 text-muted-foreground" />
                     <span>Messaging controls</span>
                   </button>
-                  <button 
-                    onClick={toggleVanishingMessages}
-                    disabled={loading || !conversationId}
-                    className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-muted/50 text-foreground text-sm disabled:opacity-50"
-                  >
-                    <div className="flex items-center gap-3">
-                      <Clock className="h-5 w-5 text-muted-foreground" />
-                      <span>Vanishing messages</span>
-                    </div>
-                    <span className="text-muted-foreground text-xs">{vanishingEnabled ? 'On' : 'Off'}</span>
-                  </button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button 
+                        disabled={loading || !conversationId}
+                        className="w-full flex items-center justify-between p-2 rounded-lg hover:bg-muted/50 text-foreground text-sm disabled:opacity-50"
+                      >
+                        <div className="flex items-center gap-3">
+                          <Clock className="h-5 w-5 text-muted-foreground" />
+                          <span>Vanishing messages</span>
+                        </div>
+                        <span className="text-muted-foreground text-xs">
+                          {vanishingEnabled ? formatVanishingDuration(vanishingDuration) : 'Off'}
+                        </span>
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {VANISHING_DURATIONS.map(({ seconds, label }) => (
+                        <DropdownMenuItem key={seconds} onClick={() => setVanishingMessages(true, seconds)}>
+                          <Check className={cn('h-4 w-4 mr-2', vanishingEnabled && vanishingDuration === seconds ? 'opacity-100' : 'opacity-0')} />
+                          {label} after seen
+                        </DropdownMenuItem>
+                      ))}
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => setVanishingMessages(false)}>
+                        <Check className={cn('h-4 w-4 mr-2', vanishingEnabled ? 'opacity-0' : 'opacity-100')} />
+                        Off
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                   <button 
                     onClick={toggleReadReceipts}
                     disabled={loading || !conversationId}
@@ -623,7 +655,7 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
         setShowEncryptionDialog(open);
         if (!open) {
           setEncryptionView('check');
-          setSelectedParticipantKeys(null);
+          setSelectedParticipantId(null);
         }
       }}>
         <DialogContent className="sm:max-w-md">
@@ -633,45 +665,71 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
                 <DialogTitle className="text-center">Check encryption</DialogTitle>
               </DialogHeader>
               <div className="py-6 space-y-4">
-                {encryptionLoading ? (
+                {encryption.loading ? (
                   <div className="flex items-center justify-center py-8">
                     <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
                   </div>
                 ) : (
                   <>
                     <div className="flex flex-col items-center text-center space-y-3">
-                      <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
-                        <svg className="w-8 h-8 text-primary" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-                          <polyline points="20 6 9 17 4 12" />
-                        </svg>
-                      </div>
+                      {encryption.isEncrypted && !encryption.keysChanged ? (
+                        <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
+                          <svg className="w-8 h-8 text-primary" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                            <polyline points="20 6 9 17 4 12" />
+                          </svg>
+                        </div>
+                      ) : (
+                        <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center">
+                          <AlertTriangle className="w-8 h-8 text-destructive" />
+                        </div>
+                      )}
                       <div>
-                        <p className="text-base font-semibold text-foreground">Encryption confirmed</p>
-                        <p className="text-sm text-muted-foreground">
-                          {verifiedAt ? `Verified at ${verifiedAt}` : 'Not yet verified'}
-                        </p>
+                        {!encryption.isEncrypted ? (
+                          <>
+                            <p className="text-base font-semibold text-foreground">Not end-to-end encrypted</p>
+                            <p className="text-sm text-muted-foreground">
+                              {participantsWithoutKeys.length > 0
+                                ? `${participantsWithoutKeys.map(p => p.is_self ? 'You' : p.display_name).join(', ')} ${participantsWithoutKeys.length === 1 && !participantsWithoutKeys[0].is_self ? "hasn't" : "haven't"} set up encryption yet`
+                                : 'This browser does not support encryption'}
+                            </p>
+                          </>
+                        ) : encryption.keysChanged ? (
+                          <>
+                            <p className="text-base font-semibold text-foreground">Security keys changed</p>
+                            <p className="text-sm text-muted-foreground">
+                              A device was added or removed since you verified at {verifiedAt}
+                            </p>
+                          </>
+                        ) : (
+                          <>
+                            <p className="text-base font-semibold text-foreground">Encryption confirmed</p>
+                            <p className="text-sm text-muted-foreground">
+                              {verifiedAt ? `Verified at ${verifiedAt}` : 'Not yet verified'}
+                            </p>
+                          </>
+                        )}
                       </div>
-                      <button
-                        onClick={async () => {
-                          if (!conversationId) return;
-                          try {
-                            await supabase.rpc('verify_conversation_encryption', {
-                              p_conversation_id: conversationId
-                            });
-                            const now = new Date();
-                            setVerifiedAt(now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
-                            setEncryptionVerified(true);
-                            toast({ title: 'Encryption verified', description: 'Encryption has been re-verified.' });
-                          } catch (err) {
-                            toast({ title: 'Error', description: 'Failed to verify encryption', variant: 'destructive' });
-                          }
-                        }}
-                        className="text-sm text-primary hover:underline"
-                      >
-                        Check again
-                      </button>
+                      {encryption.isEncrypted && (
+                        <button
+                          onClick={handleVerifyEncryption}
+                          className="text-sm text-primary hover:underline"
+                        >
+                          {encryption.lastVerification ? 'Mark as verified again' : 'Mark as verified'}
+                        </button>
+                      )}
                     </div>
 
+                    {encryption.safetyNumber && (
+                      <div className="space-y-1.5">
+                        <p className="text-xs text-muted-foreground text-center">Safety number</p>
+                        <div className="bg-muted rounded-lg p-3 font-mono text-sm text-foreground tracking-wider grid grid-cols-4 gap-x-3 gap-y-1 justify-items-center">
+                          {encryption.safetyNumber.split(' ').map((group, i) => (
+                            <span key={i}>{group}</span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     <button
                       onClick={() => setEncryptionView('details')}
                       className="w-full flex items-center justify-between p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors"
@@ -681,7 +739,7 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
                     </button>
 
                     <p className="text-xs text-muted-foreground text-center px-4">
-                      You can match keys to confirm messages and calls are protected with encryption. <a href="#" className="text-primary hover:underline">Learn more</a>
+                      Compare the safety number with {otherUser?.display_name || 'the other person'} in person or on a call. If it matches on both screens, only your devices can read this chat.
                     </p>
                   </>
                 )}
@@ -703,53 +761,49 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
               </DialogHeader>
               <div className="py-4 space-y-4">
                 <p className="text-sm text-muted-foreground">
-                  Chat participants have security keys that you can use to confirm your messages are protected with encryption. <a href="#" className="text-primary hover:underline">Learn more</a>
+                  Each device has its own security key. Messages are encrypted separately for every device listed here.
                 </p>
 
                 <div className="space-y-2">
                   <h4 className="text-sm font-semibold text-foreground">Participants</h4>
-                  {(encryptionData as any)?.participants?.map((p: any) => (
+                  {encryption.participants.map((p) => (
                     <button
                       key={p.user_id}
                       onClick={() => {
-                        setSelectedParticipantKeys(p);
+                        setSelectedParticipantId(p.user_id);
                         setEncryptionView('keys');
                       }}
                       className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-muted/50 transition-colors"
                     >
                       <div className="flex items-center gap-3">
-                        <Avatar className="w-9 h-9">
-                          <AvatarImage src={p.profile_pic} />
-                          <AvatarFallback className="bg-primary text-primary-foreground text-xs">
-                            {p.display_name?.charAt(0)?.toUpperCase() || 'U'}
-                          </AvatarFallback>
-                        </Avatar>
-                        <span className="text-sm text-foreground">{p.display_name}'s keys</span>
+                        {p.is_self ? (
+                          <div className="w-9 h-9 rounded-full bg-muted flex items-center justify-center">
+                            <User className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                        ) : (
+                          <Avatar className="w-9 h-9">
+                            <AvatarImage src={p.profile_pic || undefined} />
+                            <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                              {p.display_name?.charAt(0)?.toUpperCase() || 'U'}
+                            </AvatarFallback>
+                          </Avatar>
+                        )}
+                        <span className="text-sm text-foreground">{p.is_self ? 'Your keys' : `${p.display_name}'s keys`}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {p.devices.length} {p.devices.length === 1 ? 'device' : 'devices'}
+                        </span>
+                        <ChevronDown className="h-4 w-4 text-muted-foreground -rotate-90" />
                       </div>
-                      <ChevronDown className="h-4 w-4 text-muted-foreground -rotate-90" />
                     </button>
                   ))}
-                  <button
-                    onClick={() => {
-                      setSelectedParticipantKeys({ display_name: 'You', devices: [{ browser: 'This device', key_fingerprint: 'EB 66 AA 4D 88 11 60 6A 17 4C 83 EF 85 02\n83 19 BE EE 9E A9 D0 04 1A 36 51 67 30 AB' }] });
-                      setEncryptionView('keys');
-                    }}
-                    className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-muted/50 transition-colors"
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="w-9 h-9 rounded-full bg-muted flex items-center justify-center">
-                        <User className="h-4 w-4 text-muted-foreground" />
-                      </div>
-                      <span className="text-sm text-foreground">Your keys</span>
-                    </div>
-                    <ChevronDown className="h-4 w-4 text-muted-foreground -rotate-90" />
-                  </button>
                 </div>
               </div>
             </>
           )}
 
-          {encryptionView === 'keys' && selectedParticipantKeys && (
+          {encryptionView === 'keys' && selectedParticipant && (
             <>
               <DialogHeader>
                 <div className="flex items-center gap-2">
@@ -758,43 +812,36 @@ export const ChatInfoPanel: React.FC<ChatInfoPanelProps> = ({
                       <path d="M19 12H5M12 19l-7-7 7-7" />
                     </svg>
                   </button>
-                  <DialogTitle>{selectedParticipantKeys.display_name === 'You' ? 'Your keys' : `${selectedParticipantKeys.display_name}'s keys`}</DialogTitle>
+                  <DialogTitle>{selectedParticipant.is_self ? 'Your keys' : `${selectedParticipant.display_name}'s keys`}</DialogTitle>
                 </div>
               </DialogHeader>
               <div className="py-4 space-y-4">
-                {(selectedParticipantKeys.devices || []).map((device: any, i: number) => (
-                  <div key={i} className="space-y-2">
-                    <p className="text-sm text-foreground">
-                      <span className="font-medium">{device.browser || 'Unknown'}</span>
-                      <span className="text-muted-foreground"> · {device.device_id || device.key_fingerprint?.substring(0, 8) || '07d4672e'}</span>
-                      <span className="text-muted-foreground"> · Last seen 10 days ago</span>
-                    </p>
-                    <div className="bg-muted rounded-lg p-3 font-mono text-xs text-foreground tracking-wider leading-relaxed whitespace-pre-wrap">
-                      {device.key_fingerprint || 'EB 66 AA 4D 88 11 60 6A 17 4C 83 EF 85 02\n83 19 BE EE 9E A9 D0 04 1A 36 51 67 30 AB'}
-                    </div>
-                  </div>
-                ))}
-                {(!selectedParticipantKeys.devices || selectedParticipantKeys.devices.length === 0) && (
-                  <>
-                    <div className="space-y-2">
+                {selectedParticipant.devices.map((device) => (
+                  <div key={device.device_id} className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
                       <p className="text-sm text-foreground">
-                        <span className="font-medium">Safari</span>
-                        <span className="text-muted-foreground"> · 07d4672e · Last seen 10 days ago</span>
+                        <span className="font-medium">{device.is_current ? 'This device' : device.device_name || 'Unknown'}</span>
+                        <span className="text-muted-foreground"> · {device.device_id.substring(0, 8)}</span>
+                        <span className="text-muted-foreground"> · Last seen {formatDistanceToNow(new Date(device.last_seen_at), { addSuffix: true })}</span>
                       </p>
-                      <div className="bg-muted rounded-lg p-3 font-mono text-xs text-foreground tracking-wider leading-relaxed whitespace-pre-wrap">
-                        {'EB 66 AA 4D 88 11 60 6A 17 4C 83 EF 85 02\n83 19 BE EE 9E A9 D0 04 1A 36 51 67 30 AB'}
-                      </div>
+                      {selectedParticipant.is_self && !device.is_current && (
+                        <button
+                          onClick={() => handleRemoveDevice(device.device_id)}
+                          className="text-xs text-destructive hover:underline shrink-0"
+                        >
+                          Remove
+                        </button>
+                      )}
                     </div>
-                    <div className="space-y-2">
-                      <p className="text-sm text-foreground">
-                        <span className="font-medium">Chrome</span>
-                        <span className="text-muted-foreground"> · 07d4672e · Last seen 10 days ago</span>
-                      </p>
-                      <div className="bg-muted rounded-lg p-3 font-mono text-xs text-foreground tracking-wider leading-relaxed whitespace-pre-wrap">
-                        {'28 C6 BF D5 FF 83 FB 65 B1 04 98 92 B9 AE\nCA A6 90 D8 F1 B2 FC 34 14 63 F1 20 15 A3'}
-                      </div>
+                    <div className="bg-muted rounded-lg p-3 font-mono text-xs text-foreground tracking-wider leading-relaxed whitespace-pre-wrap">
+                      {device.key_fingerprint}
                     </div>
-                  </>
+                  </div>
+                ))}
+                {selectedParticipant.devices.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No devices have set up encryption yet
+                  </p>
                 )}
               </div>
             </>
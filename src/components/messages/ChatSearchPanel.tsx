@@ -0,0 +1,78 @@
+// ChatSearchPanel - Side panel for searching the open conversation
+// Mounted only while open, so each search starts fresh; selecting a result hands it back to the chat window
+
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MessageSearchResult, useMessageSearch } from '@/hooks/useMessageSearch';
+import { MessageSearchResults } from './MessageSearchResults';
+import { Message } from './MessageBubble';
+
+interface ChatSearchPanelProps {
+  onClose: () => void;
+  conversationId?: string;
+  currentUserId: string;
+  messages: Message[];
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+export const ChatSearchPanel: React.FC<ChatSearchPanelProps> = ({
+  onClose,
+  conversationId,
+  currentUserId,
+  messages,
+  onSelectResult,
+}) => {
+  const search = useMessageSearch({ currentUserId, conversationId, loadedMessages: messages });
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/20 z-40 lg:hidden"
+        onClick={onClose}
+      />
+
+      {/* Panel */}
+      <div className="fixed right-0 top-0 h-full w-80 bg-background border-l border-border z-50 shadow-lg flex flex-col lg:relative lg:z-auto lg:shadow-none">
+        <div className="p-4 border-b border-border flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search.query}
+              onChange={(e) => search.setQuery(e.target.value)}
+              placeholder="Search in conversation"
+              className="pl-9"
+              autoFocus
+            />
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1">
+          <div className="p-2">
+            {search.terms.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Search messages and files in this chat
+              </p>
+            ) : (
+              <MessageSearchResults
+                results={search.results}
+                terms={search.terms}
+                loading={search.loading}
+                loadingMore={search.loadingMore}
+                hasMore={search.hasMore}
+                onLoadMore={search.loadMore}
+                onSelectResult={onSelectResult}
+              />
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </>
+  );
+};
@@ -4,22 +4,44 @@ import { CardHeader } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { Phone, Video, Info, Users } from 'lucide-react';
+import { Phone, Video, Info, Users, Timer, Search } from 'lucide-react';
 import { MessageBubble, Message } from './MessageBubble';
 import { MessageInput, ReplyToMessage } from './MessageInput';
 import { ChatInfoPanel } from './ChatInfoPanel';
 import { ForwardMessageModal } from './ForwardMessageModal';
 import { ReportMessageModal } from './ReportMessageModal';
 import { PinnedMessagesBanner } from './PinnedMessagesBanner';
+import { ChatSearchPanel } from './ChatSearchPanel';
+import { MessageEditHistoryDialog } from './MessageEditHistoryDialog';
+import { ThreadPanel } from './ThreadPanel';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useCall } from '@/contexts/CallContext';
 import { useConversationReport, useConversationSettings } from '@/hooks/useConversationSettings';
 import { useBlocks } from '@/hooks/useBlocks';
 import { useMessageReactions } from '@/hooks/useMessageReactions';
 import { useMessageActions } from '@/hooks/useMessageActions';
+import { useVanishingMessages } from '@/hooks/useVanishingMessages';
+import { useTypingIndicator } from '@/hooks/useTypingIndicator';
+import { useActivityStatus } from '@/hooks/useActivityStatus';
+import { useThreadUnreadCounts } from '@/hooks/useThreads';
+import { MessageSearchResult } from '@/hooks/useMessageSearch';
+import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import type { ReactionKey } from '@/lib/reactions';
+import { DEFAULT_VANISHING_DURATION, formatVanishingDuration, isVanishingMessage } from '@/lib/vanishing';
+import { formatTypingText } from '@/lib/presence';
+import { canStartThread } from '@/lib/threads';
 import { GifItem } from '@/hooks/useGifSearch';
 
 type OtherUser = {
@@ -34,10 +56,14 @@ interface ChatWindowProps {
   messages: Message[];
   currentUserId: string;
   conversationId?: string;
-  onSendMessage: (content?: string, mediaUrl?: string, replyToId?: string) => void;
+  conversationType?: string; // 'dm' or 'group'
+  onSendMessage: (content?: string, mediaUrl?: string, replyToId?: string, attachmentName?: string) => void;
   onSendGif?: (gif: GifItem) => void;
   onSendAudioMessage?: (audioPath: string, duration: number, mimeType: string, fileSize: number) => void;
   onLoadMore?: () => void;
+  onJumpToMessage?: (messageId: string, createdAt: string) => Promise<void>; // load the page around an older message
+  scrollToMessageId?: string | null; // scroll here once loaded, e.g. after a global search
+  openThreadId?: string | null; // open this thread, e.g. from a notification
   loading?: boolean;
 }
 
@@ -46,33 +72,72 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
   messages,
   currentUserId,
   conversationId,
+  conversationType = 'dm',
   onSendMessage,
   onSendGif,
   onSendAudioMessage,
   onLoadMore,
+  onJumpToMessage,
+  scrollToMessageId,
+  openThreadId,
   loading = false
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const { initiateCall, status } = useCall();
+  const { initiateCall, initiateGroupCall, status } = useCall();
   const [isInfoPanelOpen, setIsInfoPanelOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [threadId, setThreadId] = useState<string | null>(null);
   const [replyTo, setReplyTo] = useState<ReplyToMessage | null>(null);
   const [forwardMessage, setForwardMessage] = useState<Message | null>(null);
   const [isForwardModalOpen, setIsForwardModalOpen] = useState(false);
   const [reportMessage, setReportMessage] = useState<Message | null>(null);
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
+  const [unsendTarget, setUnsendTarget] = useState<Message | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
   const [pinnedMessageIds, setPinnedMessageIds] = useState<string[]>([]);
   const [localMessages, setLocalMessages] = useState<Message[]>(messages);
   const [pendingScrollToMessageId, setPendingScrollToMessageId] = useState<string | null>(null);
   const [chatTheme, setChatTheme] = useState('default');
   const [quickEmoji, setQuickEmoji] = useState('👌');
   const scrollAttemptsRef = useRef<Record<string, number>>({});
+  const pendingScrollRef = useRef<string | null>(null);
+  pendingScrollRef.current = pendingScrollToMessageId;
   const navigate = useNavigate();
   const { reportConversation } = useConversationReport();
   const { settings: conversationSettings, updateChatTheme } = useConversationSettings(conversationId);
   const { toggleReaction, fetchReactions, getMessageReactions } = useMessageReactions(conversationId);
   const { blockStatus, blockUser, unblockUser } = useBlocks(otherUser?.id || '', currentUserId);
-  const { deleteMessage, pinMessage, reportMessage: submitReport, getPinnedMessages } = useMessageActions(conversationId, currentUserId);
+  const {
+    deleteMessage,
+    editMessage,
+    unsendMessage,
+    getEditHistory,
+    pinMessage,
+    reportMessage: submitReport,
+    getPinnedMessages,
+    reportVanishingAction
+  } = useMessageActions(conversationId, currentUserId);
+  const { toast } = useToast();
+  // Vanishing messages drop out of the list as soon as their clock runs out
+  const visibleMessages = useVanishingMessages(localMessages);
+  const vanishingEnabled = conversationSettings?.vanishing_messages_enabled ?? false;
+  const { typingUserIds, setTyping } = useTypingIndicator(conversationId, currentUserId);
+  const isGroup = conversationType === 'group';
+  const { getActivityStatus } = useActivityStatus(isGroup ? [] : [otherUser?.id]);
+  const otherUserActivity = isGroup ? null : getActivityStatus(otherUser?.id);
+  // Refetch thread unread counts whenever a thread in view gets a new reply
+  const latestThreadReplyAt = visibleMessages.reduce(
+    (latest, m) => (m.thread_last_reply_at && m.thread_last_reply_at > latest ? m.thread_last_reply_at : latest),
+    ''
+  );
+  const { unreadCounts: threadUnreadCounts, refresh: refreshThreadUnreadCounts } =
+    useThreadUnreadCounts(conversationId, isGroup, latestThreadReplyAt);
+  const typingText = formatTypingText(typingUserIds.map(userId =>
+    userId === otherUser?.id
+      ? otherUser.display_name
+      : localMessages.find(m => m.sender_id === userId)?.sender_profile?.display_name || 'Someone'
+  ));
 
   // Fetch shared theme and quick emoji from conversations table
   useEffect(() => {
@@ -118,6 +183,24 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
     };
   }, [conversationId]);
 
+  // Threads belong to one conversation; a requested thread opens on top of the chat
+  useEffect(() => {
+    setThreadId(null);
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!openThreadId) return;
+    setIsInfoPanelOpen(false);
+    setIsSearchOpen(false);
+    setThreadId(openThreadId);
+  }, [openThreadId]);
+
+  const handleOpenThread = (message: Message) => {
+    setIsInfoPanelOpen(false);
+    setIsSearchOpen(false);
+    setThreadId(message.id);
+  };
+
   // Sync local messages with props
   useEffect(() => {
     setLocalMessages(messages);
@@ -168,6 +251,28 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
     }
   };
 
+  // Show the edit right away; realtime brings the stored row to everyone else
+  const handleEditMessage = async (message: Message, text: string) => {
+    const editedAt = await editMessage(message, text);
+    if (!editedAt) return false;
+    setLocalMessages(prev => prev.map(m =>
+      m.id === message.id ? { ...m, edited_at: editedAt, ...(m.is_encrypted ? {} : { content: text }) } : m
+    ));
+    return true;
+  };
+
+  const handleConfirmUnsend = async () => {
+    if (!unsendTarget) return;
+    const messageId = unsendTarget.id;
+    setUnsendTarget(null);
+    if (await unsendMessage(messageId)) {
+      setLocalMessages(prev => prev.map(m =>
+        m.id === messageId ? { ...m, is_system: true, unsent_at: new Date().toISOString() } : m
+      ));
+      setPinnedMessageIds(prev => prev.filter(id => id !== messageId));
+    }
+  };
+
   // Handle pin message
   const handlePinMessage = async (messageId: string) => {
     const success = await pinMessage(messageId);
@@ -180,6 +285,27 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
     }
   };
 
+  // Vanishing messages can't leave the conversation; the attempt is announced to everyone in it
+  const handleForwardMessage = (message: Message) => {
+    if (isVanishingMessage(message)) {
+      reportVanishingAction(message.id, 'forward');
+      toast({
+        title: "Can't forward this message",
+        description: 'Vanishing messages stay in this chat',
+        variant: 'destructive'
+      });
+      return;
+    }
+    setForwardMessage(message);
+    setIsForwardModalOpen(true);
+  };
+
+  const handleCopyMessage = (message: Message) => {
+    if (isVanishingMessage(message)) {
+      reportVanishingAction(message.id, 'copy');
+    }
+  };
+
   // Handle report message
   const handleReportMessage = async (reason: string, details?: string): Promise<boolean> => {
     if (!reportMessage) return false;
@@ -222,6 +348,19 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
     onLoadMore();
   };
 
+  // Search results may be far older than what's loaded; the parent loads their page, then we scroll
+  const handleSelectSearchResult = async (result: MessageSearchResult) => {
+    if (tryScrollToMessage(result.id)) return;
+    if (onJumpToMessage) {
+      await onJumpToMessage(result.id, result.created_at);
+    }
+    setPendingScrollToMessageId(result.id);
+  };
+
+  useEffect(() => {
+    if (scrollToMessageId) setPendingScrollToMessageId(scrollToMessageId);
+  }, [scrollToMessageId]);
+
   // If we requested older messages to find a target, retry after messages update
   useEffect(() => {
     if (!pendingScrollToMessageId) return;
@@ -231,13 +370,27 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
     }
   }, [pendingScrollToMessageId, localMessages]);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Give up on a target that never shows up (deleted or vanished) so auto-scroll resumes
   useEffect(() => {
+    if (!pendingScrollToMessageId) return;
+    const timer = setTimeout(() => setPendingScrollToMessageId(null), 5000);
+    return () => clearTimeout(timer);
+  }, [pendingScrollToMessageId]);
+
+  // Auto-scroll to bottom when new messages arrive, unless older messages were loaded to reach a target
+  useEffect(() => {
+    if (pendingScrollRef.current) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [localMessages]);
 
   const handleStartCall = (type: 'voice' | 'video') => {
     if (!otherUser) return;
+
+    // Group conversations ring every member
+    if (conversationType === 'group' && conversationId) {
+      initiateGroupCall(conversationId, type);
+      return;
+    }
     
     initiateCall(otherUser.id, {
       id: otherUser.id,
@@ -283,9 +436,11 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                 <h3 className="font-semibold text-foreground">{otherUser.display_name}</h3>
                 <p className="text-sm text-muted-foreground">@{otherUser.username}</p>
               </div>
-              <Badge variant="secondary" className="ml-2">
-                Online
-              </Badge>
+              {otherUserActivity?.text && (
+                <Badge variant="secondary" className="ml-2">
+                  {otherUserActivity.text}
+                </Badge>
+              )}
             </div>
 
             <div className="flex items-center space-x-2">
@@ -312,7 +467,24 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => setIsInfoPanelOpen(!isInfoPanelOpen)}
+                onClick={() => {
+                  setIsInfoPanelOpen(false);
+                  setThreadId(null);
+                  setIsSearchOpen(!isSearchOpen);
+                }}
+                className="h-10 w-10 p-0 hover:bg-primary/10 hover:text-primary transition-colors"
+              >
+                <Search className="h-5 w-5" />
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setIsSearchOpen(false);
+                  setThreadId(null);
+                  setIsInfoPanelOpen(!isInfoPanelOpen);
+                }}
                 className="h-10 w-10 p-0 hover:bg-primary/10 hover:text-primary transition-colors"
               >
                 <Info className="h-5 w-5" />
@@ -335,6 +507,17 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
             </div>
           ) : (
             <>
+              {vanishingEnabled && (
+                <div className="flex items-center justify-center gap-1.5 mb-4 text-xs text-muted-foreground">
+                  <Timer className="h-3.5 w-3.5" />
+                  <span>
+                    Vanishing messages are on. New messages disappear{' '}
+                    {formatVanishingDuration(conversationSettings?.vanishing_messages_duration ?? DEFAULT_VANISHING_DURATION)}{' '}
+                    after they're seen.
+                  </span>
+                </div>
+              )}
+
               {localMessages.length > 0 && onLoadMore && (
                 <div className="text-center mb-4">
                   <Button variant="ghost" size="sm" onClick={onLoadMore}>
@@ -344,9 +527,9 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
               )}
               
               <div className="space-y-1">
-                {localMessages.map((message, index) => {
+                {visibleMessages.map((message, index) => {
                   const isOwnMessage = message.sender_id === currentUserId;
-                  const prevMessage = localMessages[index - 1];
+                  const prevMessage = visibleMessages[index - 1];
                   const showAvatar = !prevMessage || 
                     prevMessage.sender_id !== message.sender_id ||
                     new Date(message.created_at).getTime() - new Date(prevMessage.created_at).getTime() > 300000; // 5 minutes
@@ -370,21 +553,39 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
                         content: msg.content,
                         sender_profile: msg.sender_profile
                       })}
-                      onForward={(msg) => {
-                        setForwardMessage(msg);
-                        setIsForwardModalOpen(true);
-                      }}
+                      onForward={handleForwardMessage}
+                      onCopy={handleCopyMessage}
                       onDelete={handleDeleteMessage}
+                      onEdit={handleEditMessage}
+                      onUnsend={setUnsendTarget}
+                      onViewEditHistory={setHistoryMessage}
                       onPin={handlePinMessage}
                       onReport={(msg) => {
                         setReportMessage(msg);
                         setIsReportModalOpen(true);
                       }}
                       onScrollToMessage={handleScrollToMessage}
+                      onOpenThread={canStartThread(message, conversationType) ? handleOpenThread : undefined}
+                      threadUnreadCount={threadUnreadCounts[message.id]}
                     />
                   );
                 })}
               </div>
+
+              {typingText && (
+                <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                  <span className="flex gap-0.5">
+                    {[0, 1, 2].map(i => (
+                      <span
+                        key={i}
+                        className="w-1.5 h-1.5 bg-muted-foreground rounded-full animate-bounce"
+                        style={{ animationDelay: `${i * 150}ms` }}
+                      />
+                    ))}
+                  </span>
+                  <span>{typingText}</span>
+                </div>
+              )}
               <div ref={messagesEndRef} />
             </>
           )}
@@ -392,7 +593,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
 
         {/* Pinned Messages Banner - Facebook Messenger Style (positioned above input) */}
         <PinnedMessagesBanner
-          messages={localMessages}
+          messages={visibleMessages}
           pinnedMessageIds={pinnedMessageIds}
           currentUserId={currentUserId}
           onScrollToMessage={handleScrollToMessage}
@@ -401,8 +602,8 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
 
         {/* Message Input */}
         <MessageInput
-          onSendMessage={(content, mediaUrl, replyToId) => {
-            onSendMessage(content, mediaUrl, replyToId);
+          onSendMessage={(content, mediaUrl, replyToId, attachmentName) => {
+            onSendMessage(content, mediaUrl, replyToId, attachmentName);
           }}
 
           onSendGif={onSendGif}
@@ -413,6 +614,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
           replyTo={replyTo}
           onCancelReply={() => setReplyTo(null)}
           quickEmoji={quickEmoji}
+          onTypingChange={setTyping}
         />
       </div>
 
@@ -430,7 +632,10 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         onViewProfile={() => {
           if (otherUser) navigate(`/profile/${otherUser.username}`);
         }}
-        onSearch={() => console.log('Search in chat')}
+        onSearch={() => {
+          setIsInfoPanelOpen(false);
+          setIsSearchOpen(true);
+        }}
         onBlock={async (blockType?: 'messaging' | 'full') => {
           if (blockStatus.isBlocked) {
             await unblockUser();
@@ -448,6 +653,58 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
         onScrollToMessage={handleScrollToMessage}
       />
 
+      {/* In-conversation search */}
+      {isSearchOpen && (
+        <ChatSearchPanel
+          key={conversationId}
+          onClose={() => setIsSearchOpen(false)}
+          conversationId={conversationId}
+          currentUserId={currentUserId}
+          messages={localMessages}
+          onSelectResult={handleSelectSearchResult}
+        />
+      )}
+
+      {/* Group chat thread */}
+      {threadId && (
+        <ThreadPanel
+          key={threadId}
+          threadId={threadId}
+          currentUserId={currentUserId}
+          onClose={() => setThreadId(null)}
+          onRead={refreshThreadUnreadCounts}
+        />
+      )}
+
+      {/* Edit history of an edited message */}
+      <MessageEditHistoryDialog
+        message={historyMessage}
+        currentUserId={currentUserId}
+        onOpenChange={(open) => !open && setHistoryMessage(null)}
+        loadHistory={getEditHistory}
+      />
+
+      {/* Unsend confirmation */}
+      <AlertDialog open={!!unsendTarget} onOpenChange={(open) => !open && setUnsendTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unsend for everyone?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message will be removed for everyone in this chat. They'll see that you unsent a message.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmUnsend}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Unsend
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Forward Message Modal */}
       <ForwardMessageModal
         open={isForwardModalOpen}
@@ -8,11 +8,13 @@ import { Inbox, Search, X } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { MessageRequestsModal } from './MessageRequestsModal';
 import { useMessageRequests } from '@/hooks/useMessageRequests';
+import { useActivityStatus } from '@/hooks/useActivityStatus';
 import { cn } from '@/lib/utils';
 import { EmojiText } from '@/components/EmojiText';
 
 type Conversation = {
   conversation_id: string;
+  type?: string; // 'dm' or 'group'
   other_user: {
     id: string;
     username: string;
@@ -45,6 +47,10 @@ export const ConversationList: React.FC<ConversationListProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const { requests } = useMessageRequests(currentUserId);
   const totalRequests = requests.length;
+  // Activity status only means something for one-to-one chats
+  const { getActivityStatus } = useActivityStatus(
+    conversations.filter(conv => conv.type !== 'group').map(conv => conv.other_user.id)
+  );
 
   // Filter conversations based on search
   const filteredConversations = useMemo(() => {
@@ -153,6 +159,9 @@ export const ConversationList: React.FC<ConversationListProps> = ({
             filteredConversations.map((conversation) => {
               const isActive = activeConversationId === conversation.conversation_id;
               const hasUnread = conversation.unread_count > 0;
+              const activity = conversation.type === 'group'
+                ? null
+                : getActivityStatus(conversation.other_user.id);
               
               return (
                 <button
@@ -177,7 +186,9 @@ export const ConversationList: React.FC<ConversationListProps> = ({
                       </AvatarFallback>
                     </Avatar>
                     {/* Online indicator */}
-                    <div className="absolute bottom-0 right-0 w-3.5 h-3.5 bg-success rounded-full border-2 border-card" />
+                    {activity?.online && (
+                      <div className="absolute bottom-0 right-0 w-3.5 h-3.5 bg-success rounded-full border-2 border-card" />
+                    )}
                   </div>
 
                   {/* Conversation Info */}
@@ -222,6 +233,10 @@ export const ConversationList: React.FC<ConversationListProps> = ({
                         </Badge>
                       )}
                     </div>
+
+                    {activity?.text && !activity.online && (
+                      <p className="text-xs text-muted-foreground mt-0.5 truncate">{activity.text}</p>
+                    )}
                   </div>
                 </button>
               );
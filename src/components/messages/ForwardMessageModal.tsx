@@ -13,6 +13,7 @@ import { Search, Forward, Check, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { EncryptionUnavailableError, encryptMessageContent } from '@/lib/messageEncryption';
 import type { Message } from './MessageBubble';
 
 interface ForwardMessageModalProps {
@@ -159,12 +160,17 @@ export const ForwardMessageModal: React.FC<ForwardMessageModalProps> = ({
           continue;
         }
 
+        // Forwarded text is re-encrypted for the devices of the new conversation
+        const textFields = forwardedContent
+          ? await encryptMessageContent(conversationId, currentUserId, forwardedContent)
+          : { content: null };
+
         // Insert the forwarded message
         const { error: msgError } = await supabase.from('messages').insert({
           conversation_id: conversationId,
           sender_id: currentUserId,
           receiver_id: friendId,
-          content: forwardedContent || null,
+          ...textFields,
           image_url: forwardedImageUrl,
           is_image: Boolean(forwardedImageUrl && !forwardedGifUrl && !forwardedStickerUrl),
           gif_url: forwardedGifUrl,
@@ -192,7 +198,7 @@ export const ForwardMessageModal: React.FC<ForwardMessageModalProps> = ({
       console.error('Error forwarding message:', error);
       toast({
         title: 'Error',
-        description: 'Failed to forward message',
+        description: error instanceof EncryptionUnavailableError ? error.message : 'Failed to forward message',
         variant: 'destructive',
       });
     } finally {
@@ -4,6 +4,7 @@ import { Card } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
 import { EmojiText } from '../EmojiText';
 import {
   MoreVertical, 
@@ -19,11 +20,19 @@ import {
   Volume2,
   VolumeX,
   MoreHorizontal,
-  Smile
+  Smile,
+  Lock,
+  Timer,
+  Pencil,
+  Undo2,
+  MessagesSquare
 } from 'lucide-react';
 import MessageReactionPicker from './MessageReactionPicker';
 import StaticReactionIcon from '@/components/StaticReactionIcon';
 import { getReactionConfig, type ReactionKey } from '@/lib/reactions';
+import { formatTimeLeft, isVanishingMessage } from '@/lib/vanishing';
+import { canEditMessage, canUnsendMessage, getEditMinutesLeft } from '@/lib/messageEdits';
+import { formatThreadSummary } from '@/lib/threads';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -34,18 +43,23 @@ import {
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
+import { useDecryptedMessage } from '@/hooks/useDecryptedMessage';
 
 
 export interface Message {
   id: string;
   content?: string;
+  is_encrypted?: boolean;
+  e2e_envelope?: unknown;
   message_type?: 'text' | 'image' | 'gif' | 'sticker' | 'audio' | 'video' | 'file';
   media_url?: string;
   attachment_url?: string;
+  attachment_name?: string | null;
   image_url?: string;
   is_image?: boolean;
   audio_path?: string;
   audio_url?: string;
+  recording_path?: string | null; // call recording in the private call_recordings bucket
   audio_duration?: number;
   audio_mime?: string;
   audio_size?: number;
@@ -64,14 +78,27 @@ export interface Message {
     profile_pic?: string;
   };
   is_system?: boolean;
+  expires_in?: number | null; // sent in vanishing mode
+  expires_at?: string | null; // vanishing clock started - hidden once this passes
+  edited_at?: string | null;
+  unsent_at?: string | null; // unsent for everyone - content is a system notice
+  thread_id?: string | null; // set on replies inside a thread; they live in the thread panel only
+  thread_reply_count?: number; // on thread roots
+  thread_last_reply_at?: string | null;
   reply_to_id?: string | null;
   reply_to?: {
     id: string;
+    sender_id?: string;
     content?: string;
+    is_encrypted?: boolean | null;
+    e2e_envelope?: unknown;
     image_url?: string | null;
     media_url?: string | null;
     attachment_url?: string | null;
     is_image?: boolean | null;
+    is_system?: boolean | null;
+    edited_at?: string | null;
+    unsent_at?: string | null;
     sender_profile?: {
       display_name: string;
     } | null;
@@ -97,10 +124,16 @@ interface MessageBubbleProps {
   onReact?: (messageId: string, reaction: string) => void;
   onReply?: (message: Message) => void;
   onForward?: (message: Message) => void;
+  onCopy?: (message: Message) => void; // after the text was copied
   onDelete?: (messageId: string) => void;
+  onEdit?: (message: Message, text: string) => Promise<boolean>;
+  onUnsend?: (message: Message) => void;
+  onViewEditHistory?: (message: Message) => void;
   onPin?: (messageId: string) => void;
   onReport?: (message: Message) => void;
   onScrollToMessage?: (messageId: string) => void;
+  onOpenThread?: (message: Message) => void; // group chats only
+  threadUnreadCount?: number;
 }
 
 // Theme gradient mappings
@@ -116,7 +149,7 @@ const THEME_GRADIENTS: Record<string, string> = {
 };
 
 export const MessageBubble: React.FC<MessageBubbleProps> = ({
-  message,
+  message: storedMessage,
   isOwn = false,
   showAvatar = true,
   reactions = [],
@@ -126,12 +159,24 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   onReact,
   onReply,
   onForward,
+  onCopy,
   onDelete,
+  onEdit,
+  onUnsend,
+  onViewEditHistory,
   onPin,
   onReport,
-  onScrollToMessage
+  onScrollToMessage,
+  onOpenThread,
+  threadUnreadCount = 0
 }) => {
   const themeClass = THEME_GRADIENTS[chatTheme] || THEME_GRADIENTS['default'];
+  // Encrypted messages are decrypted on this device; everything below reads the plaintext
+  const {
+    message,
+    status: decryptionStatus,
+    error: decryptionError
+  } = useDecryptedMessage(storedMessage, currentUserId);
   const currentUserReactionKey: ReactionKey | null = (() => {
     if (!currentUserId) return null;
     const mine = reactions.find(r => r.user_id === currentUserId);
@@ -146,7 +191,11 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [loadingAudio, setLoadingAudio] = useState(false);
   const [audioError, setAudioError] = useState<string | null>(null);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
   const [showActions, setShowActions] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
   const audioRef = useRef<HTMLAudioElement>(null);
 
   // Load audio URL when component mounts
@@ -156,6 +205,25 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     }
   }, [message.audio_path]);
 
+  // Call recordings are private; sign a playback link for participants
+  useEffect(() => {
+    if (!message.recording_path) {
+      setRecordingUrl(null);
+      return;
+    }
+    let cancelled = false;
+    supabase.storage
+      .from('call_recordings')
+      .createSignedUrl(message.recording_path, 3600)
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading call recording:', error);
+        if (!cancelled) setRecordingUrl(data?.signedUrl ?? null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [message.recording_path]);
+
   // Audio event handlers
   useEffect(() => {
     const audio = audioRef.current;
@@ -236,9 +304,27 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
   const handleCopyMessage = () => {
     if (message.content) {
       navigator.clipboard.writeText(message.content);
+      onCopy?.(message);
     }
   };
 
+  const startEditing = () => {
+    setEditText(message.content || '');
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async () => {
+    const text = editText.trim();
+    if (!text || text === message.content?.trim()) {
+      setIsEditing(false);
+      return;
+    }
+    setSavingEdit(true);
+    const saved = await onEdit?.(message, text);
+    setSavingEdit(false);
+    if (saved) setIsEditing(false);
+  };
+
   // Helper to strip query params from URL for extension matching
   const getUrlPath = (url: string) => url.split('?')[0];
 
@@ -310,6 +396,21 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     // Skip if standalone media (will be rendered separately without bubble)
     if (isImageOnlyMessage() || isVideoOnlyMessage()) return null;
 
+    if (message.recording_path) {
+      if (!recordingUrl) {
+        return <p className="mt-2 text-xs opacity-70">Loading recording...</p>;
+      }
+      return (
+        <div className="mt-2">
+          {message.message_type === 'video' ? (
+            <video src={recordingUrl} controls className="max-w-xs rounded-lg" style={{ maxHeight: '300px' }} />
+          ) : (
+            <audio src={recordingUrl} controls className="max-w-xs" />
+          )}
+        </div>
+      );
+    }
+
     // Handle inline videos (is_image might be true but URL is video)
     if (message.is_image && message.image_url && isVideoUrl(message.image_url)) {
       return (
@@ -435,7 +536,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
                 className="flex items-center space-x-2"
               >
                 <Download className="h-4 w-4" />
-                <span>Download</span>
+                <span className="truncate max-w-[200px]">{message.attachment_name || 'Download'}</span>
               </Button>
             </div>
           </div>
@@ -457,6 +558,27 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
     );
   };
 
+  const editedMarker = message.edited_at ? (
+    <button
+      type="button"
+      className="ml-1.5 underline-offset-2 hover:underline"
+      onClick={() => onViewEditHistory?.(message)}
+      title="See edit history"
+    >
+      · Edited
+    </button>
+  ) : null;
+
+  // System notices (e.g. vanishing mode switched, a message unsent) are a centered line rather than a bubble
+  if (message.is_system) {
+    const notice = message.unsent_at && isOwn ? 'You unsent a message.' : message.content;
+    return (
+      <div data-message-id={message.id} className="flex justify-center my-3 px-6">
+        <p className="text-xs text-muted-foreground text-center">{notice || 'This message was unsent.'}</p>
+      </div>
+    );
+  }
+
   return (
     <div
       data-message-id={message.id}
@@ -531,7 +653,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
               {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
             </p>
           </div>
-        ) : isEmojiOnlyMessage() ? (
+        ) : isEmojiOnlyMessage() && !isEditing ? (
           /* Emoji-only message - large emoji without bubble like Facebook Messenger */
           <div className={`relative ${isOwn ? 'text-right' : 'text-left'}`}>
             <EmojiText 
@@ -541,6 +663,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
             />
             <p className={`text-xs mt-1 text-muted-foreground`}>
               {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+              {editedMarker}
             </p>
           </div>
         ) : (
@@ -617,7 +740,7 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
                         "truncate max-w-[200px]",
                         isOwn ? "text-primary-foreground/80" : "text-muted-foreground"
                       )}>
-                        {message.reply_to.content || 'Attachment 📎'}
+                        {message.reply_to.unsent_at ? 'Message unsent' : message.reply_to.content || 'Attachment 📎'}
                       </p>
                     </div>
                   );
@@ -664,8 +787,44 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
               </div>
             ) : (
               <>
-                {/* Text content */}
-                {message.content && (
+                {/* Encrypted text that could not be shown */}
+                {(decryptionStatus === 'decrypting' || decryptionStatus === 'failed') && (
+                  <p className={cn(
+                    "text-sm italic flex items-center gap-1.5",
+                    isOwn ? 'text-primary-foreground/80' : 'text-muted-foreground'
+                  )}>
+                    <Lock className="h-3 w-3 shrink-0" />
+                    {decryptionStatus === 'decrypting' ? 'Decrypting…' : decryptionError}
+                  </p>
+                )}
+
+                {/* Text content, or the inline editor while editing */}
+                {isEditing ? (
+                  <div className="space-y-1">
+                    <Textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSaveEdit();
+                        } else if (e.key === 'Escape') {
+                          setIsEditing(false);
+                        }
+                      }}
+                      disabled={savingEdit}
+                      autoFocus
+                      rows={2}
+                      className="min-h-0 text-sm text-foreground bg-background resize-none"
+                    />
+                    <p className={cn(
+                      "text-[11px]",
+                      isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'
+                    )}>
+                      Enter to save · Esc to cancel · {getEditMinutesLeft(message.created_at)} min left to edit
+                    </p>
+                  </div>
+                ) : message.content && (
                   <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
                     <EmojiText
                       text={message.content}
@@ -810,9 +969,34 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
             }`}
           >
             {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+            {editedMarker}
+            {isVanishingMessage(message) && (
+              <span
+                className="inline-flex items-center gap-0.5 ml-1.5 align-middle"
+                title={message.expires_at ? 'Disappears soon' : 'Disappears after it is seen'}
+              >
+                <Timer className="h-3 w-3" />
+                {message.expires_at && formatTimeLeft(message.expires_at)}
+              </span>
+            )}
           </p>
           </div>
         )}
+
+        {/* Thread summary on a root message */}
+        {onOpenThread && (message.thread_reply_count ?? 0) > 0 && (
+          <button
+            type="button"
+            onClick={() => onOpenThread(message)}
+            className={cn(
+              "mt-1 flex items-center gap-1 text-xs font-medium text-primary hover:underline",
+              isOwn ? 'ml-auto' : 'px-3'
+            )}
+          >
+            <MessagesSquare className="h-3.5 w-3.5" />
+            {formatThreadSummary(message.thread_reply_count ?? 0, threadUnreadCount)}
+          </button>
+        )}
       </div>
 
       {/* Message Actions */}
@@ -858,6 +1042,33 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
               className="min-w-[140px] z-[100] bg-popover border border-border shadow-lg"
               onCloseAutoFocus={(e) => e.preventDefault()}
             >
+              {onOpenThread && (
+                <DropdownMenuItem 
+                  onClick={() => onOpenThread(message)}
+                  className="cursor-pointer"
+                >
+                  <MessagesSquare className="h-4 w-4 mr-2" />
+                  Reply in thread
+                </DropdownMenuItem>
+              )}
+              {onEdit && canEditMessage(message, currentUserId) && (
+                <DropdownMenuItem 
+                  onClick={startEditing}
+                  className="cursor-pointer"
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </DropdownMenuItem>
+              )}
+              {onUnsend && canUnsendMessage(message, currentUserId) && (
+                <DropdownMenuItem 
+                  onClick={() => onUnsend(message)}
+                  className="cursor-pointer text-destructive focus:text-destructive"
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Unsend for everyone
+                </DropdownMenuItem>
+              )}
               {isOwn && (
                 <DropdownMenuItem 
                   onClick={() => onDelete?.(message.id)}
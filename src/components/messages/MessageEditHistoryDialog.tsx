@@ -0,0 +1,109 @@
+// MessageEditHistoryDialog - Every revision of an edited message, newest first
+// Encrypted revisions are decrypted on this device like the message itself
+
+import React, { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Lock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MessageEdit } from '@/hooks/useMessageActions';
+import { decryptMessage } from '@/lib/messageEncryption';
+import { Message } from './MessageBubble';
+
+interface Revision {
+  id: string;
+  text: string | null;
+  at: string;
+  isCurrent: boolean;
+}
+
+interface MessageEditHistoryDialogProps {
+  message: Message | null; // the decrypted current version
+  currentUserId: string;
+  onOpenChange: (open: boolean) => void;
+  loadHistory: (messageId: string) => Promise<MessageEdit[]>;
+}
+
+export const MessageEditHistoryDialog: React.FC<MessageEditHistoryDialogProps> = ({
+  message,
+  currentUserId,
+  onOpenChange,
+  loadHistory,
+}) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const loadHistoryRef = useRef(loadHistory);
+  loadHistoryRef.current = loadHistory;
+
+  useEffect(() => {
+    if (!message) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      const edits = await loadHistoryRef.current(message.id);
+      const previous = await Promise.all(edits.map(async (edit): Promise<Revision> => ({
+        id: edit.id,
+        text: edit.is_encrypted ? (await decryptMessage(edit, currentUserId)).text : edit.content,
+        at: edit.created_at,
+        isCurrent: false,
+      })));
+      if (cancelled) return;
+
+      setRevisions([
+        { id: message.id, text: message.content ?? null, at: message.edited_at ?? message.created_at, isCurrent: true },
+        ...previous.reverse(),
+      ]);
+      setLoading(false);
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message, currentUserId]);
+
+  return (
+    <Dialog open={!!message} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Everyone in this chat can see earlier versions of an edited message.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            <div className="space-y-3 pr-2">
+              {revisions.map((revision, index) => (
+                <div key={revision.id} className="rounded-lg border border-border p-3">
+                  <p className="text-xs text-muted-foreground mb-1">
+                    {revision.isCurrent ? 'Current' : index === revisions.length - 1 ? 'Original' : 'Edited'}
+                    {' · '}
+                    {format(new Date(revision.at), 'MMM d, h:mm a')}
+                  </p>
+                  {revision.text !== null ? (
+                    <p className="text-sm text-foreground whitespace-pre-wrap break-words">{revision.text}</p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic flex items-center gap-1.5">
+                      <Lock className="h-3 w-3" /> Unable to decrypt this version
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
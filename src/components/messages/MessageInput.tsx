@@ -24,7 +24,7 @@ export interface ReplyToMessage {
 }
 
 interface MessageInputProps {
-  onSendMessage: (content?: string, mediaUrl?: string, replyToId?: string) => void;
+  onSendMessage: (content?: string, mediaUrl?: string, replyToId?: string, attachmentName?: string) => void;
   onSendAudioMessage?: (audioPath: string, duration: number, mimeType: string, fileSize: number) => void;
   onSendGif?: (gif: GifItem) => void;
   conversationId?: string;
@@ -34,6 +34,8 @@ interface MessageInputProps {
   onCancelReply?: () => void;
   /** Conversation-level quick emoji code (e.g., "1f44c" or "1f970") or Unicode emoji */
   quickEmoji?: string;
+  /** Called as the draft changes: true while there is text, false once it is cleared or sent */
+  onTypingChange?: (isTyping: boolean) => void;
 }
 
 export const MessageInput: React.FC<MessageInputProps> = ({
@@ -45,7 +47,8 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   placeholder = "Type a message...",
   replyTo,
   onCancelReply,
-  quickEmoji
+  quickEmoji,
+  onTypingChange
 }) => {
   const [message, setMessage] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -178,10 +181,11 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }
 
     // Send message with optional reply reference
-    onSendMessage(message.trim() || undefined, mediaUrl || undefined, replyTo?.id);
+    onSendMessage(message.trim() || undefined, mediaUrl || undefined, replyTo?.id, selectedFile?.name);
 
     // Clear form and reply
     setMessage('');
+    onTypingChange?.(false);
     clearSelectedFile();
     onCancelReply?.();
   };
@@ -387,7 +391,10 @@ export const MessageInput: React.FC<MessageInputProps> = ({
           <Textarea
             ref={inputRef as React.RefObject<HTMLTextAreaElement>}
             value={message}
-            onChange={(e) => setMessage(e.target.value)}
+            onChange={(e) => {
+              setMessage(e.target.value);
+              onTypingChange?.(e.target.value.trim().length > 0);
+            }}
             onKeyDown={handleKeyDown}
             placeholder={placeholder}
             disabled={disabled || uploading}
@@ -0,0 +1,125 @@
+// MessageSearchResults - Matching messages with the query highlighted, newest first
+// Shared by the in-chat search panel and the global search in the conversation sidebar
+
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Lock, Paperclip, SearchX } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { MessageSearchResult } from '@/hooks/useMessageSearch';
+import { getAttachmentName, getHighlightSegments, getSearchSnippet } from '@/lib/messageSearch';
+
+interface MessageSearchResultsProps {
+  results: MessageSearchResult[];
+  terms: string[];
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onSelectResult: (result: MessageSearchResult) => void;
+  getConversationName?: (conversationId: string) => string | undefined; // shown for global results
+}
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {getHighlightSegments(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export const MessageSearchResults: React.FC<MessageSearchResultsProps> = ({
+  results,
+  terms,
+  loading,
+  loadingMore,
+  hasMore,
+  onLoadMore,
+  onSelectResult,
+  getConversationName,
+}) => {
+  if (loading && results.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="flex flex-col items-center py-8 text-center text-muted-foreground">
+        <SearchX className="h-8 w-8 mb-2" />
+        <p className="text-sm">No messages found</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {results.map((result) => {
+        const attachmentName = getAttachmentName(result.attachment_url, result.attachment_name);
+        const conversationName = getConversationName?.(result.conversation_id);
+        return (
+          <button
+            key={result.id}
+            onClick={() => onSelectResult(result)}
+            className="w-full flex items-start gap-3 p-2 rounded-lg text-left hover:bg-muted/50 transition-colors"
+          >
+            <Avatar className="w-8 h-8 shrink-0">
+              <AvatarImage src={result.sender_profile_pic ?? undefined} alt={result.sender_display_name ?? ''} />
+              <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+                {(result.sender_display_name || 'U').charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-baseline gap-2">
+                <span className="text-sm font-medium text-foreground truncate">
+                  {conversationName ?? result.sender_display_name ?? 'Unknown'}
+                </span>
+                <span className="text-xs text-muted-foreground shrink-0 ml-auto">
+                  {formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}
+                </span>
+              </div>
+              {conversationName && conversationName !== result.sender_display_name && (
+                <p className="text-xs text-muted-foreground truncate">{result.sender_display_name}</p>
+              )}
+              {result.content ? (
+                <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+                  <Highlighted text={getSearchSnippet(result.content, terms)} terms={terms} />
+                </p>
+              ) : result.is_encrypted && !attachmentName ? (
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <Lock className="h-3 w-3" /> Encrypted message
+                </p>
+              ) : null}
+              {attachmentName && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                  <Paperclip className="h-3 w-3 shrink-0" />
+                  <span className="truncate">
+                    <Highlighted text={attachmentName} terms={terms} />
+                  </span>
+                </p>
+              )}
+            </div>
+          </button>
+        );
+      })}
+
+      {hasMore && (
+        <div className="flex justify-center pt-2">
+          <Button variant="ghost" size="sm" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load more results
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -21,8 +21,8 @@ export const PinnedMessagesBanner: React.FC<PinnedMessagesBannerProps> = ({
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   
-  // Filter to only get pinned messages
-  const pinnedMessages = messages.filter(m => pinnedMessageIds.includes(m.id));
+  // Filter to only get pinned messages; unsent ones lose their pin
+  const pinnedMessages = messages.filter(m => pinnedMessageIds.includes(m.id) && !m.unsent_at);
   
   if (pinnedMessages.length === 0) return null;
   
@@ -32,11 +32,12 @@ export const PinnedMessagesBanner: React.FC<PinnedMessagesBannerProps> = ({
   // Get message preview text
   const getPreviewText = (message: Message): string => {
     if (message.content) return message.content;
+    if (message.is_encrypted) return '🔒 Encrypted message';
     if (message.is_image || message.image_url) return '📷 Photo';
     if (message.is_gif || message.gif_url) return 'GIF';
     if (message.is_sticker || message.sticker_url) return '🎨 Sticker';
     if (message.audio_path || message.audio_url) return '🎤 Voice message';
-    if (message.media_url) return '📎 Attachment';
+    if (message.media_url || message.recording_path) return '📎 Attachment';
     return 'Message';
   };
   
@@ -123,6 +124,7 @@ export const PinnedMessagesBanner: React.FC<PinnedMessagesBannerProps> = ({
                     </p>
                     <p className="text-sm text-muted-foreground truncate">
                       {getPreviewText(message)}
+                      {message.edited_at && <span className="text-xs"> · Edited</span>}
                     </p>
                   </div>
                   
@@ -51,7 +51,7 @@ export const StickerPicker: React.FC<StickerPickerProps> = ({
           conversation_id: conversationId,
           sender_id: user.id,
           message_type: 'sticker',
-          content: sticker.secure_url,
+          is_sticker: true,
           sticker_url: sticker.secure_url,
           sticker_id: sticker.public_id
         });
@@ -0,0 +1,164 @@
+// ThreadPanel - Side panel with a group chat thread: the root message, its replies and a reply box
+// Mounted per thread; replies are marked read while it is open
+
+import React, { useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, MessagesSquare, Paperclip, Send, X } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { EmojiText } from '@/components/EmojiText';
+import { ThreadMessage, useThread } from '@/hooks/useThreads';
+import { formatThreadSummary, getThreadParticipantIds } from '@/lib/threads';
+import { getAttachmentName } from '@/lib/messageSearch';
+
+interface ThreadPanelProps {
+  threadId: string;
+  currentUserId: string;
+  onClose: () => void;
+  onRead?: () => void; // replies were marked read
+}
+
+const ThreadMessageRow: React.FC<{ message: ThreadMessage; currentUserId: string }> = ({ message, currentUserId }) => {
+  if (message.is_system) {
+    const notice = message.unsent_at && message.sender_id === currentUserId ? 'You unsent a message.' : message.content;
+    return <p className="text-xs text-muted-foreground text-center py-1">{notice}</p>;
+  }
+
+  const attachmentName = getAttachmentName(message.attachment_url, message.attachment_name);
+  const name = message.sender_id === currentUserId ? 'You' : message.sender_profile?.display_name;
+
+  return (
+    <div className="flex items-start gap-2">
+      <Avatar className="w-8 h-8 shrink-0">
+        <AvatarImage src={message.sender_profile?.profile_pic} alt={message.sender_profile?.display_name} />
+        <AvatarFallback className="bg-primary text-primary-foreground text-xs">
+          {message.sender_profile?.display_name?.charAt(0).toUpperCase() || 'U'}
+        </AvatarFallback>
+      </Avatar>
+      <div className="min-w-0 flex-1">
+        <p className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{name}</span>
+          {' · '}
+          {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+          {message.edited_at && ' · Edited'}
+        </p>
+        {message.content && (
+          <div className="text-sm text-foreground whitespace-pre-wrap break-words">
+            <EmojiText text={message.content} emojiSize={16} />
+          </div>
+        )}
+        {message.is_image && message.image_url ? (
+          <img src={message.image_url} alt="Shared image" className="mt-1 rounded-lg max-h-40 object-cover" />
+        ) : attachmentName && (
+          <p className="mt-1 text-xs text-muted-foreground flex items-center gap-1">
+            <Paperclip className="h-3 w-3" /> {attachmentName}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  threadId,
+  currentUserId,
+  onClose,
+  onRead,
+}) => {
+  const { root, replies, loading, sending, sendReply } = useThread(threadId, currentUserId, onRead);
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+  const participantCount = getThreadParticipantIds(root, replies).length;
+
+  // Keep the newest reply in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [replies.length]);
+
+  const handleSend = async () => {
+    if (await sendReply(draft)) setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/20 z-40 lg:hidden"
+        onClick={onClose}
+      />
+
+      {/* Panel */}
+      <div className="fixed right-0 top-0 h-full w-80 bg-background border-l border-border z-50 shadow-lg flex flex-col lg:relative lg:z-auto lg:shadow-none">
+        <div className="p-4 border-b border-border flex items-center gap-2">
+          <MessagesSquare className="h-5 w-5 text-primary" />
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold text-foreground">Thread</h3>
+            {participantCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {participantCount} {participantCount === 1 ? 'participant' : 'participants'}
+              </p>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1">
+          {loading && !root ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : !root ? (
+            <p className="text-sm text-muted-foreground text-center py-8">This thread is no longer available</p>
+          ) : (
+            <div className="p-4 space-y-4">
+              <ThreadMessageRow message={root} currentUserId={currentUserId} />
+
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>{replies.length > 0 ? formatThreadSummary(replies.length) : 'No replies yet'}</span>
+                <div className="flex-1 border-t border-border" />
+              </div>
+
+              {replies.map(reply => (
+                <ThreadMessageRow key={reply.id} message={reply} currentUserId={currentUserId} />
+              ))}
+              <div ref={endRef} />
+            </div>
+          )}
+        </ScrollArea>
+
+        {root && !root.is_system && (
+          <div className="p-3 border-t border-border flex items-end gap-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Reply in thread..."
+              disabled={sending}
+              className="min-h-[40px] max-h-[120px] resize-none py-2.5"
+              rows={1}
+            />
+            <Button
+              size="sm"
+              onClick={handleSend}
+              disabled={sending || !draft.trim()}
+              className="h-10 w-10 p-0 shrink-0"
+            >
+              {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
@@ -9,6 +9,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { EncryptionUnavailableError, encryptMessageContent } from '@/lib/messageEncryption';
 
 interface ReelShareModalProps {
   isOpen: boolean;
@@ -443,12 +444,13 @@ const ReelShareModal = ({ isOpen, onClose, reelId }: ReelShareModalProps) => {
         ? `${shareText.trim()}\n\n${reelUrl}` 
         : reelUrl;
 
+      const textFields = await encryptMessageContent(conversationId, user.id, messageContent);
       const { error: msgError } = await supabase
         .from('messages')
         .insert({
           conversation_id: conversationId,
           sender_id: user.id,
-          content: messageContent
+          ...textFields
         });
 
       if (msgError) throw msgError;
@@ -465,7 +467,7 @@ const ReelShareModal = ({ isOpen, onClose, reelId }: ReelShareModalProps) => {
       console.error('[SEND_IN_MESSAGE] Error:', error);
       toast({
         title: 'Error',
-        description: 'Failed to send message',
+        description: error instanceof EncryptionUnavailableError ? error.message : 'Failed to send message',
         variant: 'destructive'
       });
     } finally {
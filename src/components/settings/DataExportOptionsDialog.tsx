@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DATA_EXPORT_CATEGORIES, DataExportCategory, DataExportRequest } from '@/hooks/useDataExport';
+
+type RangePreset = 'all' | '30d' | '90d' | '1y' | 'custom';
+
+interface DataExportOptionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onBack: () => void;
+  onSubmit: (request: DataExportRequest) => Promise<boolean>;
+  submitting?: boolean;
+}
+
+const PRESET_DAYS: Record<Exclude<RangePreset, 'all' | 'custom'>, number> = {
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+};
+
+const DataExportOptionsDialog: React.FC<DataExportOptionsDialogProps> = ({
+  open,
+  onOpenChange,
+  onBack,
+  onSubmit,
+  submitting = false,
+}) => {
+  const [categories, setCategories] = useState<DataExportCategory[]>(DATA_EXPORT_CATEGORIES.map(c => c.id));
+  const [rangePreset, setRangePreset] = useState<RangePreset>('all');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+
+  const toggleCategory = (id: DataExportCategory, checked: boolean) => {
+    setCategories(prev => (checked ? [...prev, id] : prev.filter(c => c !== id)));
+  };
+
+  const getRange = (): { dateFrom: string | null; dateTo: string | null } => {
+    if (rangePreset === 'all') return { dateFrom: null, dateTo: null };
+    if (rangePreset === 'custom') {
+      return {
+        dateFrom: customFrom ? new Date(`${customFrom}T00:00:00`).toISOString() : null,
+        dateTo: customTo ? new Date(`${customTo}T23:59:59.999`).toISOString() : null,
+      };
+    }
+    const from = new Date();
+    from.setDate(from.getDate() - PRESET_DAYS[rangePreset]);
+    return { dateFrom: from.toISOString(), dateTo: null };
+  };
+
+  const invalidCustomRange = rangePreset === 'custom' && !!customFrom && !!customTo && customFrom > customTo;
+  const canSubmit = categories.length > 0 && !invalidCustomRange && !submitting;
+
+  const handleSubmit = async () => {
+    const success = await onSubmit({ categories, ...getRange() });
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] p-0 gap-0">
+        <div className="flex items-center gap-3 p-4 border-b border-border">
+          <button onClick={onBack} className="hover:bg-accent/50 rounded-full p-1 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h2 className="text-lg font-semibold flex-1">Save to device</h2>
+        </div>
+        <div className="p-4 space-y-5">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-foreground">Information to include</h3>
+              <button
+                onClick={() => setCategories(
+                  categories.length === DATA_EXPORT_CATEGORIES.length ? [] : DATA_EXPORT_CATEGORIES.map(c => c.id)
+                )}
+                className="text-xs text-primary hover:underline"
+              >
+                {categories.length === DATA_EXPORT_CATEGORIES.length ? 'Deselect all' : 'Select all'}
+              </button>
+            </div>
+            <div className="border border-border rounded-lg divide-y divide-border overflow-hidden">
+              {DATA_EXPORT_CATEGORIES.map(category => (
+                <label
+                  key={category.id}
+                  htmlFor={`export-${category.id}`}
+                  className="flex items-center justify-between px-4 py-3 cursor-pointer hover:bg-accent/50 transition-colors"
+                >
+                  <span className="text-sm text-foreground">{category.label}</span>
+                  <Checkbox
+                    id={`export-${category.id}`}
+                    checked={categories.includes(category.id)}
+                    onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-foreground">Date range</h3>
+            <Select value={rangePreset} onValueChange={(value) => setRangePreset(value as RangePreset)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All time</SelectItem>
+                <SelectItem value="30d">Last 30 days</SelectItem>
+                <SelectItem value="90d">Last 3 months</SelectItem>
+                <SelectItem value="1y">Last year</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+            {rangePreset === 'custom' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="export-from" className="text-xs text-muted-foreground">From</Label>
+                  <Input id="export-from" type="date" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="export-to" className="text-xs text-muted-foreground">To</Label>
+                  <Input id="export-to" type="date" value={customTo} onChange={(e) => setCustomTo(e.target.value)} />
+                </div>
+              </div>
+            )}
+            {invalidCustomRange && (
+              <p className="text-xs text-destructive">The start date must be before the end date.</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Profile information and ad preferences are always exported in full.
+            </p>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Your export is a ZIP file with a readable HTML copy, JSON files and your photos and videos. End-to-end encrypted messages can only be read on your devices, so they are listed without their text.
+          </p>
+
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="w-full py-3 rounded-lg bg-primary text-primary-foreground font-semibold text-sm hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Start export
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DataExportOptionsDialog;
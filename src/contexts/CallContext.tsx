@@ -1,3 +1,3 @@
 // Re-export from refactored module for backwards compatibility
 export { CallProvider, useCall } from './call';
-export type { CallState, CallParticipant, CallContextType, ConnectionQuality } from './call/types';
+export type { CallState, CallParticipant, CallContextType, ConnectionQuality, GroupCallParticipant, CallDeviceKind, CallRecording } from './call/types';
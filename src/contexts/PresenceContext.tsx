@@ -0,0 +1,101 @@
+// PresenceContext - The current user's activity status setting and the last-active heartbeat
+// Who is online is read per contact through get_last_active(), which applies the setting on the server
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { PresenceContext } from '@/hooks/usePresence';
+import { LAST_ACTIVE_HEARTBEAT_MS } from '@/lib/presence';
+
+const ACTIVITY_STATUS_SETTING = 'activity_status'; // privacy_settings row, 'false' hides it
+
+export const PresenceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const userId = user?.id;
+  const [showActivityStatus, setShowActivityStatusState] = useState(true);
+
+  // Load the activity status setting
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    const loadSetting = async () => {
+      const { data, error } = await supabase
+        .from('privacy_settings')
+        .select('setting_value')
+        .eq('user_id', userId)
+        .eq('setting_name', ACTIVITY_STATUS_SETTING)
+        .maybeSingle();
+
+      if (cancelled) return;
+      if (error) console.error('[Presence] Error loading activity status setting:', error);
+      setShowActivityStatusState(data?.setting_value !== 'false');
+    };
+    loadSetting();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Keep last_active_at fresh while the app is in front of the user
+  useEffect(() => {
+    if (!userId) return;
+
+    const touch = async () => {
+      if (document.visibilityState !== 'visible') return;
+      const { error } = await supabase.rpc('touch_last_active');
+      if (error) console.error('[Presence] Error updating last active:', error);
+    };
+    touch();
+
+    const interval = setInterval(touch, LAST_ACTIVE_HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', touch);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', touch);
+    };
+  }, [userId]);
+
+  const setShowActivityStatus = useCallback(async (visible: boolean) => {
+    if (!userId) return;
+    setShowActivityStatusState(visible);
+
+    const { error } = await supabase
+      .from('privacy_settings')
+      .upsert({
+        user_id: userId,
+        setting_name: ACTIVITY_STATUS_SETTING,
+        setting_value: visible ? 'true' : 'false',
+      }, {
+        onConflict: 'user_id,setting_name'
+      });
+
+    if (error) {
+      console.error('[Presence] Error updating activity status setting:', error);
+      setShowActivityStatusState(!visible);
+      toast({
+        title: 'Error',
+        description: 'Failed to update activity status',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    toast({
+      title: visible ? 'Activity status on' : 'Activity status off',
+      description: visible
+        ? 'People you chat with can see when you are active, and you can see theirs.'
+        : "People won't see when you're active, and you won't see when they are."
+    });
+  }, [userId, toast]);
+
+  const value = useMemo(
+    () => ({ showActivityStatus, setShowActivityStatus }),
+    [showActivityStatus, setShowActivityStatus]
+  );
+
+  return <PresenceContext.Provider value={value}>{children}</PresenceContext.Provider>;
+};
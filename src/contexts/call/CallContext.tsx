@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { WebRTCService, CallSignal, CallType } from '@/services/webrtc';
@@ -13,6 +13,9 @@ import {
 import { useCallSignaling } from './useCallSignaling';
 import { useCallDatabase } from './useCallDatabase';
 import { useConnectionQuality } from './useConnectionQuality';
+import { useGroupCall } from './useGroupCall';
+import { useCallMedia } from './useCallMedia';
+import { useCallRecording } from './useCallRecording';
 
 const CallContext = createContext<CallContextType | undefined>(undefined);
 
@@ -20,7 +23,7 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const { user } = useAuth();
   const { profile } = useProfile();
   const { toast } = useToast();
-  const { logCallToDb } = useCallDatabase();
+  const { logCallToDb, fetchConversationMembers, postCallRecording } = useCallDatabase();
   
   const [callState, setCallState] = useState<CallState>(initialCallState);
 
@@ -38,6 +41,11 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
     callStateRef.current = callState;
   }, [callState]);
 
+  // Signaling - the handler is assigned below once every call path is defined
+  const signalHandlerRef = useRef<(signal: CallSignal) => void>(() => {});
+  const onSignal = useCallback((signal: CallSignal) => signalHandlerRef.current(signal), []);
+  const { sendSignal } = useCallSignaling({ userId: user?.id, onSignal });
+
   // Initialize WebRTC service
   useEffect(() => {
     webrtcRef.current = new WebRTCService();
@@ -52,12 +60,12 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
     isConnected: callState.status === 'connected',
   });
 
-  // Update connection quality in state
+  // Update connection quality in state (group calls measure each participant instead)
   useEffect(() => {
-    if (callState.status === 'connected') {
+    if (callState.status === 'connected' && !callState.isGroupCall) {
       setCallState(prev => ({ ...prev, connectionQuality }));
     }
-  }, [connectionQuality, callState.status]);
+  }, [connectionQuality, callState.status, callState.isGroupCall]);
 
   // Clear call timeout helper
   const clearCallTimeout = useCallback(() => {
@@ -85,6 +93,88 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setCallState(initialCallState);
   }, [clearCallTimeout]);
 
+  const selfInfo = useMemo<CallParticipant | null>(() => (
+    user?.id && profile
+      ? {
+          id: user.id,
+          username: profile.username || '',
+          displayName: profile.display_name || '',
+          profilePic: profile.profile_pic,
+        }
+      : null
+  ), [user?.id, profile]);
+
+  const {
+    handleGroupSignal,
+    initiateGroupCall,
+    getInvitableMembers,
+    inviteToGroupCall,
+    acceptGroupCall,
+    rejectGroupCall,
+    leaveGroupCall,
+    setMuted: setGroupMuted,
+    setVideoOff: setGroupVideoOff,
+    getPeers: getGroupPeers,
+    broadcast: broadcastToGroup,
+  } = useGroupCall({
+    userId: user?.id,
+    selfInfo,
+    isActive: callState.isGroupCall && callState.status === 'connected',
+    callStateRef,
+    setCallState,
+    sendSignal,
+    resetCallState,
+    logCallToDb,
+    fetchConversationMembers,
+  });
+
+  // Screen sharing and device switching apply to every connection we send media on
+  const getSenders = useCallback(() => (
+    callStateRef.current.isGroupCall
+      ? getGroupPeers()
+      : webrtcRef.current ? [webrtcRef.current] : []
+  ), [getGroupPeers]);
+
+  const notifyPeers = useCallback((type: 'screen-share-started' | 'screen-share-stopped') => {
+    const { isGroupCall, remoteUser, callType } = callStateRef.current;
+    if (isGroupCall) {
+      broadcastToGroup(type);
+    } else if (user?.id && remoteUser) {
+      sendSignal({
+        type,
+        from: user.id,
+        to: remoteUser.id,
+        callType: callType || 'voice',
+      });
+    }
+  }, [user?.id, sendSignal, broadcastToGroup]);
+
+  const { toggleScreenShare, switchDevice } = useCallMedia({
+    status: callState.status,
+    callStateRef,
+    setCallState,
+    getSenders,
+    notifyPeers,
+  });
+
+  const {
+    handleRecordingSignal,
+    requestRecording,
+    respondToRecording,
+    stopRecording,
+    finishedRecording,
+    saveRecording,
+    shareRecording,
+    discardRecording,
+  } = useCallRecording({
+    userId: user?.id,
+    status: callState.status,
+    callStateRef,
+    setCallState,
+    sendSignal,
+    postCallRecording,
+  });
+
   // Process queued ICE candidates
   const processIceCandidateQueue = useCallback(async () => {
     if (!webrtcRef.current || iceCandidateQueueRef.current.length === 0) return;
@@ -316,6 +406,20 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
         resetCallState();
         break;
 
+      case 'screen-share-started':
+      case 'screen-share-stopped':
+        if (currentState.remoteUser?.id === signal.from) {
+          setCallState(prev => ({ ...prev, remoteScreenSharing: signal.type === 'screen-share-started' }));
+        }
+        break;
+
+      case 'recording-request':
+      case 'recording-accepted':
+      case 'recording-declined':
+      case 'recording-stopped':
+        handleRecordingSignal(signal);
+        break;
+
       case 'call-ended':
         clearCallTimeout();
         // Log call history for receiver when call ends normally
@@ -331,13 +435,16 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
         resetCallState();
         break;
     }
-  }, [user?.id, toast, resetCallState, clearCallTimeout, processIceCandidateQueue, setupWebRTCCallbacks, logCallToDb]);
+  }, [user?.id, toast, resetCallState, clearCallTimeout, processIceCandidateQueue, setupWebRTCCallbacks, logCallToDb, handleRecordingSignal]);
 
-  // Signaling hook with wrapped handler
-  const { sendSignal } = useCallSignaling({
-    userId: user?.id,
-    onSignal: (signal) => handleSignal(signal, sendSignal),
-  });
+  // Group call signals carry a callId; everything else belongs to the 1:1 call
+  signalHandlerRef.current = (signal) => {
+    if (signal.callId) {
+      handleGroupSignal(signal);
+    } else {
+      handleSignal(signal, sendSignal);
+    }
+  };
 
   // Call duration timer
   useEffect(() => {
@@ -428,6 +535,9 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Accept incoming call
   const acceptCall = useCallback(async () => {
+    if (callStateRef.current.isGroupCall) {
+      return acceptGroupCall();
+    }
     if (!user?.id || !webrtcRef.current || !pendingSignalRef.current) {
       console.error('[Call] Cannot accept call: missing requirements');
       return;
@@ -462,10 +572,14 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
       });
       rejectCall();
     }
-  }, [user?.id, sendSignal, toast, setupWebRTCCallbacks]);
+  }, [user?.id, sendSignal, toast, setupWebRTCCallbacks, acceptGroupCall]);
 
   // Reject incoming call
   const rejectCall = useCallback(() => {
+    if (callStateRef.current.isGroupCall) {
+      rejectGroupCall();
+      return;
+    }
     if (!user?.id || !pendingSignalRef.current) return;
 
     const signal = pendingSignalRef.current;
@@ -479,11 +593,15 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
 
     resetCallState();
-  }, [user?.id, sendSignal, resetCallState]);
+  }, [user?.id, sendSignal, resetCallState, rejectGroupCall]);
 
   // End call
   const endCall = useCallback(() => {
     if (!user?.id) return;
+    if (callStateRef.current.isGroupCall) {
+      leaveGroupCall();
+      return;
+    }
 
     const remoteUser = callStateRef.current.remoteUser;
     const callType = callStateRef.current.callType;
@@ -508,23 +626,31 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
 
     resetCallState();
-  }, [user?.id, sendSignal, resetCallState, logCallToDb]);
+  }, [user?.id, sendSignal, resetCallState, logCallToDb, leaveGroupCall]);
 
   // Toggle mute
   const toggleMute = useCallback(() => {
     const newMuted = !callStateRef.current.isMuted;
     console.log('[Call] Toggle mute:', newMuted);
-    webrtcRef.current?.toggleMute(newMuted);
+    if (callStateRef.current.isGroupCall) {
+      setGroupMuted(newMuted);
+    } else {
+      webrtcRef.current?.toggleMute(newMuted);
+    }
     setCallState(prev => ({ ...prev, isMuted: newMuted }));
-  }, []);
+  }, [setGroupMuted]);
 
   // Toggle video
   const toggleVideo = useCallback(() => {
     const newVideoOff = !callStateRef.current.isVideoOff;
     console.log('[Call] Toggle video:', newVideoOff);
-    webrtcRef.current?.toggleVideo(newVideoOff);
+    if (callStateRef.current.isGroupCall) {
+      setGroupVideoOff(newVideoOff);
+    } else {
+      webrtcRef.current?.toggleVideo(newVideoOff);
+    }
     setCallState(prev => ({ ...prev, isVideoOff: newVideoOff }));
-  }, []);
+  }, [setGroupVideoOff]);
 
   // Toggle minimize
   const toggleMinimize = useCallback(() => {
@@ -536,12 +662,24 @@ export const CallProvider: React.FC<{ children: React.ReactNode }> = ({ children
       value={{
         ...callState,
         initiateCall,
+        initiateGroupCall,
+        getInvitableMembers,
+        inviteToCall: inviteToGroupCall,
         acceptCall,
         rejectCall,
         endCall,
         toggleMute,
         toggleVideo,
         toggleMinimize,
+        toggleScreenShare,
+        switchDevice,
+        requestRecording,
+        respondToRecording,
+        stopRecording,
+        finishedRecording,
+        saveRecording,
+        shareRecording,
+        discardRecording,
       }}
     >
       {children}
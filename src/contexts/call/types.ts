@@ -10,6 +10,31 @@ export interface CallParticipant {
   profilePic?: string;
 }
 
+export type GroupParticipantState = 'invited' | 'connecting' | 'connected' | 'left';
+
+export interface GroupCallParticipant extends CallParticipant {
+  state: GroupParticipantState;
+  stream: MediaStream | null;
+  connectionQuality: ConnectionQuality;
+  isScreenSharing: boolean;
+}
+
+export type CallDeviceKind = 'audioinput' | 'videoinput' | 'audiooutput';
+
+// 'requesting' = waiting for the other side's consent, 'consent-needed' = they asked us
+export type RecordingStatus = 'idle' | 'requesting' | 'consent-needed' | 'recording';
+
+// A finished recording, kept after the call ends until it is saved, shared or discarded
+export interface CallRecording {
+  blob: Blob;
+  mimeType: string;
+  fileName: string;
+  durationSeconds: number;
+  startedAt: string;
+  otherUser: CallParticipant;
+  withVideo: boolean;
+}
+
 export interface CallState {
   status: CallStatus;
   callType: CallType | null;
@@ -21,7 +46,18 @@ export interface CallState {
   isVideoOff: boolean;
   isMinimized: boolean;
   callDuration: number;
-  connectionQuality: ConnectionQuality;
+  isScreenSharing: boolean;
+  remoteScreenSharing: boolean; // 1:1 calls; group participants carry their own flag
+  audioOutputDeviceId: string | null; // null = system default speaker
+  recordingStatus: RecordingStatus; // 1:1 calls only
+  isRecordingOwner: boolean; // this side runs the recorder
+  connectionQuality: ConnectionQuality; // for group calls: the weakest participant connection
+  // Group calls (mesh of one peer connection per participant)
+  isGroupCall: boolean;
+  groupCallId: string | null;
+  conversationId: string | null;
+  participants: GroupCallParticipant[];
+  activeSpeakerId: string | null;
 }
 
 export interface ConnectionQuality {
@@ -33,12 +69,24 @@ export interface ConnectionQuality {
 
 export interface CallContextType extends CallState {
   initiateCall: (userId: string, userInfo: CallParticipant, callType: CallType) => Promise<void>;
+  initiateGroupCall: (conversationId: string, callType: CallType) => Promise<void>;
+  getInvitableMembers: () => Promise<CallParticipant[]>; // group members not in the call yet
+  inviteToCall: (member: CallParticipant) => Promise<void>;
   acceptCall: () => Promise<void>;
   rejectCall: () => void;
   endCall: () => void;
   toggleMute: () => void;
   toggleVideo: () => void;
   toggleMinimize: () => void;
+  toggleScreenShare: () => Promise<void>;
+  switchDevice: (kind: CallDeviceKind, deviceId: string) => Promise<void>;
+  requestRecording: () => void;
+  respondToRecording: (allow: boolean) => void;
+  stopRecording: () => void;
+  finishedRecording: CallRecording | null;
+  saveRecording: () => void;
+  shareRecording: () => Promise<boolean>;
+  discardRecording: () => void;
 }
 
 export const initialConnectionQuality: ConnectionQuality = {
@@ -59,5 +107,15 @@ export const initialCallState: CallState = {
   isVideoOff: false,
   isMinimized: false,
   callDuration: 0,
+  isScreenSharing: false,
+  remoteScreenSharing: false,
+  audioOutputDeviceId: null,
+  recordingStatus: 'idle',
+  isRecordingOwner: false,
   connectionQuality: initialConnectionQuality,
+  isGroupCall: false,
+  groupCallId: null,
+  conversationId: null,
+  participants: [],
+  activeSpeakerId: null,
 };
@@ -1,7 +1,7 @@
 import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { CallType } from '@/services/webrtc';
-import { CallStatusDb } from './types';
+import { CallParticipant, CallRecording, CallStatusDb } from './types';
 
 export const useCallDatabase = () => {
   const logCallToDb = useCallback(async (
@@ -25,5 +25,65 @@ export const useCallDatabase = () => {
     }
   }, []);
 
-  return { logCallToDb };
+  // Everyone in a group conversation, as call participants
+  const fetchConversationMembers = useCallback(async (conversationId: string): Promise<CallParticipant[]> => {
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .select('user_id, profile:profiles!conversation_participants_user_id_fkey(username, display_name, profile_pic)')
+      .eq('conversation_id', conversationId);
+
+    if (error) {
+      console.error('[CallDB] Error fetching conversation members:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      id: row.user_id,
+      username: row.profile?.username || '',
+      displayName: row.profile?.display_name || '',
+      profilePic: row.profile?.profile_pic || undefined,
+    }));
+  }, []);
+
+  // Upload a recording, post it to the direct conversation and link it from the call's history row
+  const postCallRecording = useCallback(async (userId: string, recording: CallRecording) => {
+    // Private bucket - the chat and call history play it through signed URLs
+    const filePath = `${userId}/${recording.fileName}`;
+    const { error: uploadError } = await supabase.storage
+      .from('call_recordings')
+      .upload(filePath, recording.blob, { contentType: recording.mimeType, upsert: false });
+    if (uploadError) throw uploadError;
+
+    const { data: conversationId, error: dmError } = await supabase.rpc('get_or_create_dm', {
+      p_user_a: userId,
+      p_user_b: recording.otherUser.id,
+    });
+    if (dmError) throw dmError;
+
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .insert({
+        conversation_id: conversationId,
+        sender_id: userId,
+        recording_path: filePath,
+        attachment_name: recording.fileName,
+        message_type: recording.withVideo ? 'video' : 'audio',
+      })
+      .select('id')
+      .single();
+    if (messageError) throw messageError;
+
+    const { error: linkError } = await supabase.rpc('attach_call_recording', {
+      p_other_user_id: recording.otherUser.id,
+      p_recording_started_at: recording.startedAt,
+      p_message_id: message.id,
+    });
+    // The message is already in the chat, so a missing history link is not fatal
+    if (linkError) console.error('[CallDB] Error linking recording to call history:', linkError);
+
+    console.log('[CallDB] Posted call recording:', message.id);
+    return conversationId;
+  }, []);
+
+  return { logCallToDb, fetchConversationMembers, postCallRecording };
 };
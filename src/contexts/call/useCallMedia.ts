@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { WebRTCService, getDeviceTrack, getScreenTrack } from '@/services/webrtc';
+import { useToast } from '@/hooks/use-toast';
+import { CallDeviceKind, CallState } from './types';
+
+interface UseCallMediaOptions {
+  status: CallState['status'];
+  callStateRef: React.MutableRefObject<CallState>;
+  setCallState: React.Dispatch<React.SetStateAction<CallState>>;
+  getSenders: () => WebRTCService[]; // every peer connection carrying our media
+  notifyPeers: (type: 'screen-share-started' | 'screen-share-stopped') => void;
+}
+
+// Move a track in or out of the local stream - the stream object (and its previews) stays the same
+const swapLocalTrack = (stream: MediaStream, oldTrack: MediaStreamTrack | null, newTrack: MediaStreamTrack | null) => {
+  if (oldTrack) stream.removeTrack(oldTrack);
+  if (newTrack) stream.addTrack(newTrack);
+};
+
+/**
+ * Screen sharing and mid-call device switching
+ * Tracks are swapped with replaceTrack on every sender, so the call never renegotiates.
+ * While sharing, the screen takes the camera's place in the local stream (group peers that
+ * connect later pick it up) and the camera track is parked until sharing stops.
+ */
+export const useCallMedia = ({ status, callStateRef, setCallState, getSenders, notifyPeers }: UseCallMediaOptions) => {
+  const { toast } = useToast();
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+  const parkedCameraRef = useRef<MediaStreamTrack | null>(null);
+
+  const replaceOnSenders = useCallback(async (kind: 'audio' | 'video', track: MediaStreamTrack | null) => {
+    await Promise.all(getSenders().map(sender =>
+      sender.replaceTrack(kind, track).catch((error) => {
+        console.error('[CallMedia] Error replacing', kind, 'track:', error);
+        return false;
+      })
+    ));
+  }, [getSenders]);
+
+  // Release parked tracks once the call is over
+  useEffect(() => {
+    if (status !== 'idle') return;
+    screenTrackRef.current?.stop();
+    screenTrackRef.current = null;
+    parkedCameraRef.current?.stop();
+    parkedCameraRef.current = null;
+  }, [status]);
+
+  const stopScreenShare = useCallback(async () => {
+    const screen = screenTrackRef.current;
+    if (!screen) return;
+    console.log('[CallMedia] Stopping screen share');
+
+    const camera = parkedCameraRef.current;
+    screenTrackRef.current = null;
+    parkedCameraRef.current = null;
+
+    const stream = callStateRef.current.localStream;
+    if (stream) swapLocalTrack(stream, screen, camera);
+    await replaceOnSenders('video', camera);
+    screen.stop();
+
+    notifyPeers('screen-share-stopped');
+    setCallState(prev => ({ ...prev, isScreenSharing: false }));
+  }, [callStateRef, replaceOnSenders, notifyPeers, setCallState]);
+
+  const startScreenShare = useCallback(async () => {
+    const stream = callStateRef.current.localStream;
+    if (screenTrackRef.current || !stream) return;
+
+    let screen: MediaStreamTrack;
+    try {
+      screen = await getScreenTrack();
+    } catch (error) {
+      // Closing the browser's picker is not an error worth reporting
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return;
+      console.error('[CallMedia] Error starting screen share:', error);
+      toast({
+        title: 'Screen Sharing Failed',
+        description: 'Your screen could not be shared.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    console.log('[CallMedia] Starting screen share');
+    const camera = stream.getVideoTracks()[0] ?? null;
+    parkedCameraRef.current = camera;
+    screenTrackRef.current = screen;
+
+    swapLocalTrack(stream, camera, screen);
+    await replaceOnSenders('video', screen);
+
+    // The browser's own "Stop sharing" button ends the track
+    screen.onended = () => {
+      stopScreenShare();
+    };
+
+    notifyPeers('screen-share-started');
+    setCallState(prev => ({ ...prev, isScreenSharing: true }));
+  }, [callStateRef, replaceOnSenders, notifyPeers, setCallState, stopScreenShare, toast]);
+
+  const toggleScreenShare = useCallback(async () => {
+    if (screenTrackRef.current) {
+      await stopScreenShare();
+    } else {
+      await startScreenShare();
+    }
+  }, [startScreenShare, stopScreenShare]);
+
+  const switchDevice = useCallback(async (kind: CallDeviceKind, deviceId: string) => {
+    // Speakers are chosen on the playing elements, not on the connection
+    if (kind === 'audiooutput') {
+      setCallState(prev => ({ ...prev, audioOutputDeviceId: deviceId }));
+      return;
+    }
+
+    const { localStream, isMuted, isVideoOff } = callStateRef.current;
+    if (!localStream) return;
+    console.log('[CallMedia] Switching', kind, 'to', deviceId);
+
+    try {
+      if (kind === 'audioinput') {
+        const track = await getDeviceTrack('audio', deviceId);
+        track.enabled = !isMuted;
+        const previous = localStream.getAudioTracks()[0] ?? null;
+        swapLocalTrack(localStream, previous, track);
+        await replaceOnSenders('audio', track);
+        previous?.stop();
+        return;
+      }
+
+      const track = await getDeviceTrack('video', deviceId);
+      track.enabled = !isVideoOff;
+      if (screenTrackRef.current) {
+        // Sharing - the new camera takes over when the share ends
+        parkedCameraRef.current?.stop();
+        parkedCameraRef.current = track;
+        return;
+      }
+      const previous = localStream.getVideoTracks()[0] ?? null;
+      swapLocalTrack(localStream, previous, track);
+      await replaceOnSenders('video', track);
+      previous?.stop();
+    } catch (error) {
+      console.error('[CallMedia] Error switching device:', error);
+      toast({
+        title: 'Device Unavailable',
+        description: 'Could not switch to the selected device.',
+        variant: 'destructive',
+      });
+    }
+  }, [callStateRef, setCallState, replaceOnSenders, toast]);
+
+  return { toggleScreenShare, switchDevice };
+};
@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CallSignal } from '@/services/webrtc';
+import { CallRecorder, getRecordingFileName } from '@/lib/callRecording';
+import { useToast } from '@/hooks/use-toast';
+import { CallParticipant, CallRecording, CallState } from './types';
+
+interface UseCallRecordingOptions {
+  userId: string | undefined;
+  status: CallState['status'];
+  callStateRef: React.MutableRefObject<CallState>;
+  setCallState: React.Dispatch<React.SetStateAction<CallState>>;
+  sendSignal: (signal: CallSignal) => Promise<void>;
+  postCallRecording: (userId: string, recording: CallRecording) => Promise<string>;
+}
+
+interface ActiveRecording {
+  recorder: CallRecorder;
+  startedAt: Date;
+  otherUser: CallParticipant;
+  withVideo: boolean;
+}
+
+/**
+ * Consent-based recording of 1:1 calls
+ * Nothing is captured until the other side accepts a recording-request, and either side can stop it.
+ * The recording stays on this device until it is downloaded or shared into the conversation.
+ */
+export const useCallRecording = ({
+  userId,
+  status,
+  callStateRef,
+  setCallState,
+  sendSignal,
+  postCallRecording,
+}: UseCallRecordingOptions) => {
+  const { toast } = useToast();
+  const activeRef = useRef<ActiveRecording | null>(null);
+  const [finishedRecording, setFinishedRecording] = useState<CallRecording | null>(null);
+
+  const sendRecordingSignal = useCallback((type: CallSignal['type']) => {
+    const { remoteUser, callType } = callStateRef.current;
+    if (!userId || !remoteUser) return;
+    sendSignal({
+      type,
+      from: userId,
+      to: remoteUser.id,
+      callType: callType || 'voice',
+    });
+  }, [userId, callStateRef, sendSignal]);
+
+  const setRecordingStatus = useCallback((recordingStatus: CallState['recordingStatus'], isRecordingOwner = false) => {
+    setCallState(prev => ({ ...prev, recordingStatus, isRecordingOwner }));
+  }, [setCallState]);
+
+  // Stop the recorder and keep the file for the save/share prompt
+  const finishRecorder = useCallback(async () => {
+    const active = activeRef.current;
+    if (!active) return;
+    activeRef.current = null;
+
+    try {
+      const result = await active.recorder.stop();
+      setFinishedRecording({
+        ...result,
+        fileName: getRecordingFileName(active.otherUser.displayName || active.otherUser.username, active.startedAt, result.mimeType),
+        startedAt: active.startedAt.toISOString(),
+        otherUser: active.otherUser,
+        withVideo: active.withVideo,
+      });
+    } catch (error) {
+      console.error('[CallRecording] Error finishing recording:', error);
+    }
+  }, []);
+
+  const startRecorder = useCallback(() => {
+    const { localStream, remoteStream, remoteUser, callType } = callStateRef.current;
+    if (!localStream || !remoteStream || !remoteUser) return;
+
+    try {
+      const withVideo = callType === 'video';
+      const recorder = new CallRecorder({ localStream, remoteStream, withVideo });
+      recorder.start();
+      activeRef.current = { recorder, startedAt: new Date(), otherUser: remoteUser, withVideo };
+      setRecordingStatus('recording', true);
+    } catch (error) {
+      console.error('[CallRecording] Error starting recorder:', error);
+      sendRecordingSignal('recording-stopped');
+      setRecordingStatus('idle');
+      toast({
+        title: 'Recording Failed',
+        description: (error as Error).message || 'This call could not be recorded.',
+        variant: 'destructive',
+      });
+    }
+  }, [callStateRef, sendRecordingSignal, setRecordingStatus, toast]);
+
+  // The call ended (or dropped) while recording - keep what was captured
+  useEffect(() => {
+    if (status === 'idle' && activeRef.current) {
+      finishRecorder();
+    }
+  }, [status, finishRecorder]);
+
+  const handleRecordingSignal = useCallback((signal: CallSignal) => {
+    const current = callStateRef.current;
+    if (current.remoteUser?.id !== signal.from) return;
+
+    switch (signal.type) {
+      case 'recording-request':
+        if (current.status === 'connected' && current.recordingStatus === 'idle') {
+          console.log('[CallRecording] Recording requested by', signal.from);
+          setRecordingStatus('consent-needed');
+        } else {
+          sendRecordingSignal('recording-declined');
+        }
+        break;
+
+      case 'recording-accepted':
+        if (current.recordingStatus === 'requesting') {
+          console.log('[CallRecording] Consent given, starting recorder');
+          startRecorder();
+        }
+        break;
+
+      case 'recording-declined':
+        if (current.recordingStatus === 'requesting') {
+          setRecordingStatus('idle');
+          toast({
+            title: 'Recording Declined',
+            description: `${current.remoteUser.displayName} didn't allow this call to be recorded.`,
+          });
+        }
+        break;
+
+      case 'recording-stopped':
+        if (current.recordingStatus === 'idle') break;
+        if (current.isRecordingOwner) finishRecorder();
+        setRecordingStatus('idle');
+        toast({
+          title: 'Recording Stopped',
+          description: `${current.remoteUser.displayName} stopped the recording.`,
+        });
+        break;
+    }
+  }, [callStateRef, sendRecordingSignal, setRecordingStatus, startRecorder, finishRecorder, toast]);
+
+  const requestRecording = useCallback(() => {
+    const current = callStateRef.current;
+    if (current.isGroupCall || current.status !== 'connected' || current.recordingStatus !== 'idle') return;
+
+    console.log('[CallRecording] Asking for consent to record');
+    setRecordingStatus('requesting', true);
+    sendRecordingSignal('recording-request');
+  }, [callStateRef, sendRecordingSignal, setRecordingStatus]);
+
+  const respondToRecording = useCallback((allow: boolean) => {
+    if (callStateRef.current.recordingStatus !== 'consent-needed') return;
+
+    sendRecordingSignal(allow ? 'recording-accepted' : 'recording-declined');
+    setRecordingStatus(allow ? 'recording' : 'idle');
+  }, [callStateRef, sendRecordingSignal, setRecordingStatus]);
+
+  // Either side can stop - for the other party this withdraws consent
+  const stopRecording = useCallback(() => {
+    const current = callStateRef.current;
+    if (current.recordingStatus === 'idle') return;
+
+    sendRecordingSignal('recording-stopped');
+    if (current.isRecordingOwner) finishRecorder();
+    setRecordingStatus('idle');
+  }, [callStateRef, sendRecordingSignal, finishRecorder, setRecordingStatus]);
+
+  const saveRecording = useCallback(() => {
+    if (!finishedRecording) return;
+
+    const url = URL.createObjectURL(finishedRecording.blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = finishedRecording.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    setFinishedRecording(null);
+  }, [finishedRecording]);
+
+  const shareRecording = useCallback(async () => {
+    if (!finishedRecording || !userId) return false;
+
+    try {
+      await postCallRecording(userId, finishedRecording);
+      toast({
+        title: 'Recording Shared',
+        description: `The recording was sent to your chat with ${finishedRecording.otherUser.displayName}.`,
+      });
+      setFinishedRecording(null);
+      return true;
+    } catch (error) {
+      console.error('[CallRecording] Error sharing recording:', error);
+      toast({
+        title: 'Could Not Share Recording',
+        description: (error as Error).message || 'Please try again or download it instead.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [finishedRecording, userId, postCallRecording, toast]);
+
+  const discardRecording = useCallback(() => {
+    setFinishedRecording(null);
+  }, []);
+
+  return {
+    handleRecordingSignal,
+    requestRecording,
+    respondToRecording,
+    stopRecording,
+    finishedRecording,
+    saveRecording,
+    shareRecording,
+    discardRecording,
+  };
+};
@@ -6,81 +6,112 @@ interface UseConnectionQualityOptions {
   isConnected: boolean;
 }
 
+export interface QualitySample {
+  packetsLost: number;
+  packetsReceived: number;
+  timestamp: number;
+}
+
+const QUALITY_RANK: Record<ConnectionQuality['level'], number> = {
+  unknown: 0,
+  poor: 1,
+  fair: 2,
+  good: 3,
+  excellent: 4,
+};
+
+export const calculateQualityLevel = (packetLoss: number, rtt: number, jitter: number): ConnectionQuality['level'] => {
+  // Quality thresholds based on WebRTC standards
+  if (packetLoss < 1 && rtt < 100 && jitter < 30) return 'excellent';
+  if (packetLoss < 3 && rtt < 200 && jitter < 50) return 'good';
+  if (packetLoss < 8 && rtt < 400 && jitter < 100) return 'fair';
+  return 'poor';
+};
+
+// Weakest measured connection - what a group call's header indicator shows
+export const getWeakestQuality = (qualities: ConnectionQuality[]): ConnectionQuality => {
+  const measured = qualities.filter(q => q.level !== 'unknown');
+  if (measured.length === 0) return initialConnectionQuality;
+  return measured.reduce((worst, q) => (QUALITY_RANK[q.level] < QUALITY_RANK[worst.level] ? q : worst));
+};
+
+/**
+ * Read one stats snapshot; packet loss is measured against the previous sample
+ * Returns null until media is flowing
+ */
+export const measureConnectionQuality = async (
+  peerConnection: RTCPeerConnection,
+  previous: QualitySample | null
+): Promise<{ quality: ConnectionQuality; sample: QualitySample } | null> => {
+  const stats = await peerConnection.getStats();
+  let totalPacketsLost = 0;
+  let totalPacketsReceived = 0;
+  let roundTripTime = 0;
+  let jitter = 0;
+  let hasInboundRtp = false;
+
+  stats.forEach((report) => {
+    if (report.type === 'inbound-rtp' && (report.kind === 'audio' || report.kind === 'video')) {
+      hasInboundRtp = true;
+      totalPacketsLost += report.packetsLost || 0;
+      totalPacketsReceived += report.packetsReceived || 0;
+      if (report.jitter) {
+        jitter = Math.max(jitter, report.jitter * 1000); // Convert to ms
+      }
+    }
+
+    if (report.type === 'candidate-pair' && report.state === 'succeeded') {
+      if (report.currentRoundTripTime) {
+        roundTripTime = report.currentRoundTripTime * 1000; // Convert to ms
+      }
+    }
+  });
+
+  if (!hasInboundRtp) return null;
+
+  // Calculate packet loss percentage over time
+  let packetLoss = 0;
+  if (previous) {
+    const lostDiff = totalPacketsLost - previous.packetsLost;
+    const receivedDiff = totalPacketsReceived - previous.packetsReceived;
+    if (receivedDiff > 0) {
+      packetLoss = (lostDiff / (receivedDiff + lostDiff)) * 100;
+    }
+  }
+
+  return {
+    quality: {
+      level: calculateQualityLevel(packetLoss, roundTripTime, jitter),
+      packetLoss: Math.round(packetLoss * 100) / 100,
+      roundTripTime: Math.round(roundTripTime),
+      jitter: Math.round(jitter),
+    },
+    sample: {
+      packetsLost: totalPacketsLost,
+      packetsReceived: totalPacketsReceived,
+      timestamp: Date.now(),
+    },
+  };
+};
+
 export const useConnectionQuality = ({ peerConnection, isConnected }: UseConnectionQualityOptions) => {
   const [quality, setQuality] = useState<ConnectionQuality>(initialConnectionQuality);
   const statsIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const previousStatsRef = useRef<{
-    packetsLost: number;
-    packetsReceived: number;
-    timestamp: number;
-  } | null>(null);
-
-  const calculateQualityLevel = useCallback((packetLoss: number, rtt: number, jitter: number): ConnectionQuality['level'] => {
-    // Quality thresholds based on WebRTC standards
-    if (packetLoss < 1 && rtt < 100 && jitter < 30) return 'excellent';
-    if (packetLoss < 3 && rtt < 200 && jitter < 50) return 'good';
-    if (packetLoss < 8 && rtt < 400 && jitter < 100) return 'fair';
-    return 'poor';
-  }, []);
+  const previousStatsRef = useRef<QualitySample | null>(null);
 
   const collectStats = useCallback(async () => {
     if (!peerConnection) return;
 
     try {
-      const stats = await peerConnection.getStats();
-      let totalPacketsLost = 0;
-      let totalPacketsReceived = 0;
-      let roundTripTime = 0;
-      let jitter = 0;
-      let hasInboundRtp = false;
-
-      stats.forEach((report) => {
-        if (report.type === 'inbound-rtp' && (report.kind === 'audio' || report.kind === 'video')) {
-          hasInboundRtp = true;
-          totalPacketsLost += report.packetsLost || 0;
-          totalPacketsReceived += report.packetsReceived || 0;
-          if (report.jitter) {
-            jitter = Math.max(jitter, report.jitter * 1000); // Convert to ms
-          }
-        }
-        
-        if (report.type === 'candidate-pair' && report.state === 'succeeded') {
-          if (report.currentRoundTripTime) {
-            roundTripTime = report.currentRoundTripTime * 1000; // Convert to ms
-          }
-        }
-      });
-
-      if (!hasInboundRtp) return;
-
-      // Calculate packet loss percentage over time
-      let packetLoss = 0;
-      if (previousStatsRef.current) {
-        const lostDiff = totalPacketsLost - previousStatsRef.current.packetsLost;
-        const receivedDiff = totalPacketsReceived - previousStatsRef.current.packetsReceived;
-        if (receivedDiff > 0) {
-          packetLoss = (lostDiff / (receivedDiff + lostDiff)) * 100;
-        }
-      }
-
-      previousStatsRef.current = {
-        packetsLost: totalPacketsLost,
-        packetsReceived: totalPacketsReceived,
-        timestamp: Date.now(),
-      };
-
-      const level = calculateQualityLevel(packetLoss, roundTripTime, jitter);
+      const result = await measureConnectionQuality(peerConnection, previousStatsRef.current);
+      if (!result) return;
 
-      setQuality({
-        level,
-        packetLoss: Math.round(packetLoss * 100) / 100,
-        roundTripTime: Math.round(roundTripTime),
-        jitter: Math.round(jitter),
-      });
+      previousStatsRef.current = result.sample;
+      setQuality(result.quality);
     } catch (error) {
       console.error('[Quality] Error collecting stats:', error);
     }
-  }, [peerConnection, calculateQualityLevel]);
+  }, [peerConnection]);
 
   useEffect(() => {
     if (isConnected && peerConnection) {
@@ -0,0 +1,660 @@
+import { useCallback, useRef, useEffect } from 'react';
+import { WebRTCService, CallSignal, CallSignalParticipant, CallType, getCallMediaStream } from '@/services/webrtc';
+import { useToast } from '@/hooks/use-toast';
+import { ActiveSpeakerDetector, MAX_GROUP_CALL_PARTICIPANTS, shouldInitiateOffer } from '@/lib/groupCall';
+import {
+  CallState,
+  CallParticipant,
+  CallStatusDb,
+  ConnectionQuality,
+  GroupCallParticipant,
+  GroupParticipantState,
+  initialConnectionQuality,
+} from './types';
+import { QualitySample, getWeakestQuality, measureConnectionQuality } from './useConnectionQuality';
+
+interface UseGroupCallOptions {
+  userId: string | undefined;
+  selfInfo: CallParticipant | null;
+  isActive: boolean; // connected group call - enables speaker and quality monitoring
+  callStateRef: React.MutableRefObject<CallState>;
+  setCallState: React.Dispatch<React.SetStateAction<CallState>>;
+  sendSignal: (signal: CallSignal) => Promise<void>;
+  resetCallState: () => void;
+  logCallToDb: (callerId: string, receiverId: string, callType: CallType, status: CallStatusDb, durationSeconds?: number) => Promise<void>;
+  fetchConversationMembers: (conversationId: string) => Promise<CallParticipant[]>;
+}
+
+interface GroupCallSession {
+  callId: string;
+  conversationId: string | null;
+  callType: CallType;
+  initiatorId: string;
+}
+
+const NO_ANSWER_TIMEOUT_MS = 30000;
+const RING_TIMEOUT_MS = 45000;
+const JOIN_TIMEOUT_MS = 20000;
+const SPEAKER_INTERVAL_MS = 500;
+const QUALITY_EVERY_TICKS = 4; // quality stats every 2 seconds
+
+const toGroupParticipant = (info: CallSignalParticipant, state: GroupParticipantState): GroupCallParticipant => ({
+  ...info,
+  state,
+  stream: null,
+  connectionQuality: initialConnectionQuality,
+  isScreenSharing: false,
+});
+
+/**
+ * Group calls as a mesh: one WebRTCService per remote participant, all sharing one local capture
+ * Everyone in the call learns about a newcomer through group-join/group-present, and
+ * shouldInitiateOffer decides which side of each pair sends the offer
+ */
+export const useGroupCall = ({
+  userId,
+  selfInfo,
+  isActive,
+  callStateRef,
+  setCallState,
+  sendSignal,
+  resetCallState,
+  logCallToDb,
+  fetchConversationMembers,
+}: UseGroupCallOptions) => {
+  const { toast } = useToast();
+
+  const sessionRef = useRef<GroupCallSession | null>(null);
+  const peersRef = useRef<Map<string, WebRTCService>>(new Map());
+  const iceQueuesRef = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
+  // Mirrors participant states synchronously - React state lags behind incoming signals
+  const participantStatesRef = useRef<Map<string, GroupParticipantState>>(new Map());
+  const joinedIdsRef = useRef<Set<string>>(new Set());
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const pendingInviteRef = useRef<CallSignal | null>(null);
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const speakerDetectorRef = useRef(new ActiveSpeakerDetector());
+
+  const clearGroupTimeout = useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  }, []);
+
+  const buildSignal = useCallback((type: CallSignal['type'], to: string, extra: Partial<CallSignal> = {}): CallSignal | null => {
+    const session = sessionRef.current;
+    if (!session || !userId) return null;
+    return {
+      type,
+      from: userId,
+      to,
+      callType: session.callType,
+      callId: session.callId,
+      conversationId: session.conversationId ?? undefined,
+      callerInfo: selfInfo ?? undefined,
+      ...extra,
+    };
+  }, [userId, selfInfo]);
+
+  const send = useCallback((type: CallSignal['type'], to: string, extra: Partial<CallSignal> = {}) => {
+    const signal = buildSignal(type, to, extra);
+    return signal ? sendSignal(signal) : Promise.resolve();
+  }, [buildSignal, sendSignal]);
+
+  const updateParticipant = useCallback((id: string, patch: Partial<GroupCallParticipant>) => {
+    if (patch.state) participantStatesRef.current.set(id, patch.state);
+    setCallState(prev => ({
+      ...prev,
+      participants: prev.participants.map(p => (p.id === id ? { ...p, ...patch } : p)),
+    }));
+  }, [setCallState]);
+
+  // Add someone we just heard from, or bring back someone who left and rejoined
+  const upsertParticipant = useCallback((info: CallSignalParticipant | undefined, id: string, state: GroupParticipantState) => {
+    participantStatesRef.current.set(id, state);
+    setCallState(prev => {
+      if (prev.participants.some(p => p.id === id)) {
+        return { ...prev, participants: prev.participants.map(p => (p.id === id ? { ...p, state } : p)) };
+      }
+      const fallback: CallSignalParticipant = { id, username: '', displayName: 'Participant' };
+      return { ...prev, participants: [...prev.participants, toGroupParticipant(info ?? fallback, state)] };
+    });
+  }, [setCallState]);
+
+  const closePeer = useCallback((remoteId: string) => {
+    peersRef.current.get(remoteId)?.close();
+    peersRef.current.delete(remoteId);
+    iceQueuesRef.current.delete(remoteId);
+    speakerDetectorRef.current.remove(remoteId);
+  }, []);
+
+  const teardown = useCallback(() => {
+    console.log('[GroupCall] Tearing down');
+    clearGroupTimeout();
+    peersRef.current.forEach(peer => peer.close());
+    peersRef.current.clear();
+    iceQueuesRef.current.clear();
+    participantStatesRef.current.clear();
+    joinedIdsRef.current.clear();
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    localStreamRef.current = null;
+    pendingInviteRef.current = null;
+    sessionRef.current = null;
+    speakerDetectorRef.current.reset();
+    resetCallState();
+  }, [clearGroupTimeout, resetCallState]);
+
+  // Close everything if the provider unmounts mid-call
+  useEffect(() => () => {
+    peersRef.current.forEach(peer => peer.close());
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  // The initiator records one history entry per invitee
+  const logGroupCall = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || !userId || session.initiatorId !== userId) return;
+    const duration = callStateRef.current.callDuration;
+    participantStatesRef.current.forEach((_, id) => {
+      const joined = joinedIdsRef.current.has(id);
+      logCallToDb(userId, id, session.callType, joined ? 'completed' : 'missed', joined ? duration : 0);
+    });
+  }, [userId, callStateRef, logCallToDb]);
+
+  // Leave the call; everyone else keeps talking
+  const leaveGroupCall = useCallback(() => {
+    if (!sessionRef.current) return;
+    console.log('[GroupCall] Leaving call', sessionRef.current.callId);
+
+    const states = participantStatesRef.current;
+    const present = [...states].filter(([, state]) => state === 'connecting' || state === 'connected');
+    present.forEach(([id]) => send('group-leave', id));
+
+    // Nobody left to keep the call going - stop the phones that are still ringing
+    if (present.length === 0) {
+      [...states].filter(([, state]) => state === 'invited').forEach(([id]) => send('call-ended', id));
+    }
+
+    logGroupCall();
+    teardown();
+  }, [send, logGroupCall, teardown]);
+
+  const endIfAlone = useCallback(() => {
+    const status = callStateRef.current.status;
+    if (!sessionRef.current || status === 'ringing' || status === 'idle') return;
+
+    const states = [...participantStatesRef.current.values()];
+    const anyonePresent = states.some(s => s === 'connecting' || s === 'connected');
+    const everyoneGone = states.every(s => s === 'left');
+
+    if (everyoneGone || (joinedIdsRef.current.size > 0 && !anyonePresent)) {
+      toast({
+        title: 'Call Ended',
+        description: joinedIdsRef.current.size > 0 ? 'Everyone else has left the call.' : 'Nobody joined the call.',
+      });
+      leaveGroupCall();
+    }
+  }, [callStateRef, toast, leaveGroupCall]);
+
+  const markConnected = useCallback((remoteId: string) => {
+    clearGroupTimeout();
+    joinedIdsRef.current.add(remoteId);
+    updateParticipant(remoteId, { state: 'connected' });
+    setCallState(prev => (prev.status === 'connected' ? prev : { ...prev, status: 'connected' }));
+  }, [clearGroupTimeout, updateParticipant, setCallState]);
+
+  const createPeer = useCallback((remoteId: string) => {
+    const existing = peersRef.current.get(remoteId);
+    if (existing) return existing;
+
+    console.log('[GroupCall] Creating peer for', remoteId);
+    const peer = new WebRTCService();
+    if (localStreamRef.current) {
+      peer.addLocalStream(localStreamRef.current);
+    }
+
+    peer.setOnRemoteStream((stream) => {
+      updateParticipant(remoteId, { stream });
+    });
+
+    peer.setOnIceCandidate((candidate) => {
+      send('ice-candidate', remoteId, { payload: candidate });
+    });
+
+    peer.setOnConnectionStateChange((state) => {
+      console.log('[GroupCall] Peer', remoteId, 'connection state:', state);
+      if (state === 'connected') {
+        markConnected(remoteId);
+      } else if (state === 'disconnected') {
+        // Often recovers by itself; show it as reconnecting meanwhile
+        updateParticipant(remoteId, { state: 'connecting' });
+      } else if (state === 'failed') {
+        closePeer(remoteId);
+        updateParticipant(remoteId, { state: 'left', stream: null });
+        endIfAlone();
+      }
+    });
+
+    peersRef.current.set(remoteId, peer);
+    return peer;
+  }, [send, updateParticipant, markConnected, closePeer, endIfAlone]);
+
+  const flushIceQueue = useCallback(async (remoteId: string) => {
+    const peer = peersRef.current.get(remoteId);
+    const queue = iceQueuesRef.current.get(remoteId) ?? [];
+    iceQueuesRef.current.delete(remoteId);
+    if (!peer) return;
+
+    for (const candidate of queue) {
+      try {
+        await peer.addIceCandidate(candidate);
+      } catch (error) {
+        console.error('[GroupCall] Error adding queued ICE candidate:', error);
+      }
+    }
+  }, []);
+
+  // We know remoteId is in the call - connect unless the other side is the one that offers
+  const connectToPeer = useCallback(async (remoteId: string) => {
+    if (!userId || peersRef.current.has(remoteId)) return;
+    if (!shouldInitiateOffer(userId, remoteId)) return;
+
+    try {
+      const offer = await createPeer(remoteId).createOffer();
+      await send('offer', remoteId, { payload: offer });
+    } catch (error) {
+      console.error('[GroupCall] Error creating offer for', remoteId, error);
+      closePeer(remoteId);
+      updateParticipant(remoteId, { state: 'left' });
+    }
+  }, [userId, createPeer, send, closePeer, updateParticipant]);
+
+  const handleGroupSignal = useCallback(async (signal: CallSignal) => {
+    if (!userId || signal.to !== userId || !signal.callId) return;
+
+    const current = callStateRef.current;
+    const inThisCall = sessionRef.current?.callId === signal.callId;
+    const isPresent = inThisCall && ['calling', 'connecting', 'connected'].includes(current.status);
+    console.log('[GroupCall] Received signal:', signal.type, 'from:', signal.from);
+
+    switch (signal.type) {
+      case 'group-call-request': {
+        if (inThisCall) return;
+        if (current.status !== 'idle' || sessionRef.current) {
+          sendSignal({ type: 'call-busy', from: userId, to: signal.from, callType: signal.callType, callId: signal.callId });
+          return;
+        }
+
+        pendingInviteRef.current = signal;
+        sessionRef.current = {
+          callId: signal.callId,
+          conversationId: signal.conversationId ?? null,
+          callType: signal.callType,
+          initiatorId: signal.from,
+        };
+
+        const others = (signal.participants ?? []).filter(p => p.id !== userId);
+        others.forEach(p => participantStatesRef.current.set(p.id, p.id === signal.from ? 'connecting' : 'invited'));
+
+        setCallState(prev => ({
+          ...prev,
+          status: 'ringing',
+          callType: signal.callType,
+          isOutgoing: false,
+          isGroupCall: true,
+          groupCallId: signal.callId!,
+          conversationId: signal.conversationId ?? null,
+          remoteUser: signal.callerInfo || null,
+          participants: others.map(p => toGroupParticipant(p, p.id === signal.from ? 'connecting' : 'invited')),
+        }));
+
+        clearGroupTimeout();
+        timeoutRef.current = setTimeout(() => {
+          if (sessionRef.current?.callId === signal.callId && callStateRef.current.status === 'ringing') {
+            console.log('[GroupCall] Invite not answered');
+            logCallToDb(signal.from, userId, signal.callType, 'missed', 0);
+            teardown();
+          }
+        }, RING_TIMEOUT_MS);
+        break;
+      }
+
+      case 'group-join':
+        if (!isPresent) return;
+        upsertParticipant(signal.callerInfo, signal.from, 'connecting');
+        await send('group-present', signal.from);
+        // The newcomer missed our screen-share-started signal
+        if (current.isScreenSharing) {
+          await send('screen-share-started', signal.from);
+        }
+        await connectToPeer(signal.from);
+        break;
+
+      case 'group-present':
+        if (!isPresent) return;
+        upsertParticipant(signal.callerInfo, signal.from, 'connecting');
+        await connectToPeer(signal.from);
+        break;
+
+      case 'offer':
+        if (!isPresent || !signal.payload) return;
+        try {
+          upsertParticipant(signal.callerInfo, signal.from, 'connecting');
+          const peer = createPeer(signal.from);
+          await peer.setRemoteDescription(signal.payload as RTCSessionDescriptionInit);
+          await flushIceQueue(signal.from);
+          const answer = await peer.createAnswer();
+          await send('answer', signal.from, { payload: answer });
+        } catch (error) {
+          console.error('[GroupCall] Error handling offer:', error);
+        }
+        break;
+
+      case 'answer': {
+        const peer = peersRef.current.get(signal.from);
+        if (!isPresent || !peer || !signal.payload) return;
+        try {
+          await peer.setRemoteDescription(signal.payload as RTCSessionDescriptionInit);
+          await flushIceQueue(signal.from);
+        } catch (error) {
+          console.error('[GroupCall] Error setting remote description:', error);
+        }
+        break;
+      }
+
+      case 'ice-candidate': {
+        if (!inThisCall || !signal.payload) return;
+        const peer = peersRef.current.get(signal.from);
+        if (!peer || !peer.hasRemoteDescription()) {
+          const queue = iceQueuesRef.current.get(signal.from) ?? [];
+          queue.push(signal.payload as RTCIceCandidateInit);
+          iceQueuesRef.current.set(signal.from, queue);
+        } else {
+          try {
+            await peer.addIceCandidate(signal.payload as RTCIceCandidateInit);
+          } catch (error) {
+            console.error('[GroupCall] Error adding ICE candidate:', error);
+          }
+        }
+        break;
+      }
+
+      case 'screen-share-started':
+      case 'screen-share-stopped':
+        if (!inThisCall) return;
+        updateParticipant(signal.from, { isScreenSharing: signal.type === 'screen-share-started' });
+        break;
+
+      case 'group-leave':
+      case 'call-rejected':
+      case 'call-busy':
+        if (!inThisCall) return;
+        closePeer(signal.from);
+        updateParticipant(signal.from, { state: 'left', stream: null, isScreenSharing: false });
+        endIfAlone();
+        break;
+
+      case 'call-ended':
+        // The call is over before we answered
+        if (inThisCall && current.status === 'ringing') {
+          logCallToDb(signal.from, userId, signal.callType, 'missed', 0);
+          teardown();
+        }
+        break;
+    }
+  }, [
+    userId,
+    callStateRef,
+    sendSignal,
+    setCallState,
+    clearGroupTimeout,
+    logCallToDb,
+    teardown,
+    upsertParticipant,
+    send,
+    connectToPeer,
+    createPeer,
+    flushIceQueue,
+    closePeer,
+    updateParticipant,
+    endIfAlone,
+  ]);
+
+  // Start a call with the members of a group conversation
+  const initiateGroupCall = useCallback(async (conversationId: string, callType: CallType) => {
+    if (!userId || !selfInfo) {
+      console.error('[GroupCall] Cannot initiate call: missing user or profile');
+      return;
+    }
+
+    const members = await fetchConversationMembers(conversationId);
+    const invitees = members.filter(m => m.id !== userId);
+    if (invitees.length === 0) return;
+    if (invitees.length + 1 > MAX_GROUP_CALL_PARTICIPANTS) {
+      toast({
+        title: 'Group Too Large',
+        description: `Group calls support up to ${MAX_GROUP_CALL_PARTICIPANTS} people.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    console.log('[GroupCall] Initiating', callType, 'call with', invitees.length, 'members');
+
+    try {
+      localStreamRef.current = await getCallMediaStream(callType);
+      sessionRef.current = { callId: crypto.randomUUID(), conversationId, callType, initiatorId: userId };
+      invitees.forEach(m => participantStatesRef.current.set(m.id, 'invited'));
+
+      setCallState(prev => ({
+        ...prev,
+        status: 'calling',
+        callType,
+        isOutgoing: true,
+        isGroupCall: true,
+        groupCallId: sessionRef.current!.callId,
+        conversationId,
+        remoteUser: null,
+        localStream: localStreamRef.current,
+        isVideoOff: callType === 'voice',
+        participants: invitees.map(m => toGroupParticipant(m, 'invited')),
+      }));
+
+      await Promise.all(invitees.map(m => send('group-call-request', m.id, { participants: [selfInfo, ...invitees] })));
+
+      timeoutRef.current = setTimeout(() => {
+        if (joinedIdsRef.current.size === 0 && callStateRef.current.isGroupCall) {
+          console.log('[GroupCall] No answer timeout');
+          toast({
+            title: 'No Answer',
+            description: 'Nobody answered your call.',
+            variant: 'destructive',
+          });
+          leaveGroupCall();
+        }
+      }, NO_ANSWER_TIMEOUT_MS);
+    } catch (error) {
+      console.error('[GroupCall] Error initiating call:', error);
+      toast({
+        title: 'Call Failed',
+        description: 'Could not access camera/microphone. Please check permissions.',
+        variant: 'destructive',
+      });
+      teardown();
+    }
+  }, [userId, selfInfo, fetchConversationMembers, toast, setCallState, send, callStateRef, leaveGroupCall, teardown]);
+
+  const getInvitableMembers = useCallback(async (): Promise<CallParticipant[]> => {
+    const conversationId = sessionRef.current?.conversationId;
+    if (!conversationId) return [];
+    const members = await fetchConversationMembers(conversationId);
+    return members.filter(m => {
+      const state = participantStatesRef.current.get(m.id);
+      return m.id !== userId && (!state || state === 'left');
+    });
+  }, [userId, fetchConversationMembers]);
+
+  // Ring someone else into the running call
+  const inviteToGroupCall = useCallback(async (member: CallParticipant) => {
+    if (!selfInfo || !sessionRef.current) return;
+
+    const state = participantStatesRef.current.get(member.id);
+    if (state && state !== 'left') return;
+    const inCall = [...participantStatesRef.current].filter(([, s]) => s !== 'left').length + 1;
+    if (inCall >= MAX_GROUP_CALL_PARTICIPANTS) {
+      toast({
+        title: 'Call Is Full',
+        description: `Group calls support up to ${MAX_GROUP_CALL_PARTICIPANTS} people.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    console.log('[GroupCall] Inviting', member.id);
+    upsertParticipant(member, member.id, 'invited');
+    const roster = callStateRef.current.participants
+      .filter(p => p.state !== 'left' && p.id !== member.id)
+      .map(({ id, username, displayName, profilePic }) => ({ id, username, displayName, profilePic }));
+    await send('group-call-request', member.id, { participants: [selfInfo, ...roster, member] });
+  }, [selfInfo, toast, upsertParticipant, callStateRef, send]);
+
+  const rejectGroupCall = useCallback(() => {
+    const invite = pendingInviteRef.current;
+    if (!invite) {
+      teardown();
+      return;
+    }
+    console.log('[GroupCall] Declining call', invite.callId);
+    // Tell everyone on the invite so nobody keeps showing us as ringing
+    (invite.participants ?? [])
+      .filter(p => p.id !== userId)
+      .forEach(p => send('call-rejected', p.id));
+    teardown();
+  }, [userId, send, teardown]);
+
+  const acceptGroupCall = useCallback(async () => {
+    const invite = pendingInviteRef.current;
+    if (!userId || !invite) return;
+    console.log('[GroupCall] Joining call', invite.callId);
+    clearGroupTimeout();
+
+    try {
+      localStreamRef.current = await getCallMediaStream(invite.callType);
+      pendingInviteRef.current = null;
+
+      setCallState(prev => ({
+        ...prev,
+        status: 'connecting',
+        localStream: localStreamRef.current,
+        isVideoOff: invite.callType === 'voice',
+      }));
+
+      // Announce ourselves; whoever is already in the call answers with group-present
+      const others = (invite.participants ?? []).filter(p => p.id !== userId);
+      await Promise.all(others.map(p => send('group-join', p.id)));
+
+      timeoutRef.current = setTimeout(() => {
+        if (joinedIdsRef.current.size === 0 && callStateRef.current.isGroupCall) {
+          toast({
+            title: 'Connection Failed',
+            description: 'Could not join the call. It may have ended.',
+            variant: 'destructive',
+          });
+          leaveGroupCall();
+        }
+      }, JOIN_TIMEOUT_MS);
+    } catch (error) {
+      console.error('[GroupCall] Error joining call:', error);
+      toast({
+        title: 'Call Failed',
+        description: 'Could not access camera/microphone.',
+        variant: 'destructive',
+      });
+      rejectGroupCall();
+    }
+  }, [userId, clearGroupTimeout, setCallState, send, callStateRef, toast, leaveGroupCall, rejectGroupCall]);
+
+  // Peer connections currently carrying our media
+  const getPeers = useCallback(() => [...peersRef.current.values()], []);
+
+  // Tell everyone in the call about a change in what we send
+  const broadcast = useCallback((type: CallSignal['type']) => {
+    participantStatesRef.current.forEach((state, id) => {
+      if (state === 'connecting' || state === 'connected') send(type, id);
+    });
+  }, [send]);
+
+  const setMuted = useCallback((muted: boolean) => {
+    localStreamRef.current?.getAudioTracks().forEach(track => {
+      track.enabled = !muted;
+    });
+  }, []);
+
+  const setVideoOff = useCallback((videoOff: boolean) => {
+    localStreamRef.current?.getVideoTracks().forEach(track => {
+      track.enabled = !videoOff;
+    });
+  }, []);
+
+  // Active speaker (every 500ms) and per-participant connection quality (every 2s)
+  useEffect(() => {
+    if (!isActive) return;
+
+    const previousSamples = new Map<string, QualitySample>();
+    let tick = 0;
+
+    const interval = setInterval(async () => {
+      const peers = [...peersRef.current];
+
+      const levels: Record<string, number> = {};
+      peers.forEach(([id, peer]) => {
+        levels[id] = peer.getRemoteAudioLevel();
+      });
+      const speaker = speakerDetectorRef.current.update(levels, Date.now());
+      setCallState(prev => (prev.activeSpeakerId === speaker ? prev : { ...prev, activeSpeakerId: speaker }));
+
+      if (tick++ % QUALITY_EVERY_TICKS !== 0) return;
+
+      const qualities = new Map<string, ConnectionQuality>();
+      await Promise.all(peers.map(async ([id, peer]) => {
+        const pc = peer.getPeerConnection();
+        if (!pc) return;
+        try {
+          const result = await measureConnectionQuality(pc, previousSamples.get(id) ?? null);
+          if (!result) return;
+          previousSamples.set(id, result.sample);
+          qualities.set(id, result.quality);
+        } catch (error) {
+          console.error('[GroupCall] Error collecting stats:', error);
+        }
+      }));
+      if (qualities.size === 0) return;
+
+      setCallState(prev => {
+        const participants = prev.participants.map(p => {
+          const quality = qualities.get(p.id);
+          return quality ? { ...p, connectionQuality: quality } : p;
+        });
+        const connected = participants.filter(p => p.state === 'connected').map(p => p.connectionQuality);
+        return { ...prev, participants, connectionQuality: getWeakestQuality(connected) };
+      });
+    }, SPEAKER_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isActive, setCallState]);
+
+  return {
+    handleGroupSignal,
+    initiateGroupCall,
+    getInvitableMembers,
+    inviteToGroupCall,
+    acceptGroupCall,
+    rejectGroupCall,
+    leaveGroupCall,
+    setMuted,
+    setVideoOff,
+    getPeers,
+    broadcast,
+  };
+};
@@ -0,0 +1,70 @@
+// useActiveLives - Lives that are on air right now, for the live badges on Stories and profiles
+// Refetches on lives changes and re-checks heartbeats so abandoned lives drop off
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { isLiveActive, LIVE_HEARTBEAT_MS, LIVE_STALE_AFTER_MS } from '@/lib/liveStream';
+import type { LiveWithBroadcaster } from '@/hooks/useLiveViewer';
+
+export const useActiveLives = (userId?: string) => {
+  const [lives, setLives] = useState<LiveWithBroadcaster[]>([]);
+
+  const fetchLives = useCallback(async () => {
+    let query = supabase
+      .from('lives')
+      .select('*, broadcaster:profiles!lives_user_id_fkey(username, display_name, profile_pic)')
+      .is('ended_at', null)
+      .gte('heartbeat_at', new Date(Date.now() - LIVE_STALE_AFTER_MS).toISOString())
+      .order('started_at', { ascending: false })
+      .limit(20);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[ActiveLives] Error fetching lives:', error);
+      return;
+    }
+    setLives((data || []) as LiveWithBroadcaster[]);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchLives();
+
+    const channel = supabase
+      .channel(`lives-changes-${userId || 'all'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'lives',
+          ...(userId && { filter: `user_id=eq.${userId}` }),
+        },
+        (payload) => {
+          // Heartbeats arrive as updates - patch them in rather than refetching every few seconds
+          const row = payload.new as Partial<LiveWithBroadcaster>;
+          if (payload.eventType === 'UPDATE' && !row.ended_at && row.id) {
+            setLives(prev => prev.map(live => live.id === row.id ? { ...live, heartbeat_at: row.heartbeat_at ?? live.heartbeat_at } : live));
+            return;
+          }
+          fetchLives();
+        }
+      )
+      .subscribe();
+
+    // Drop lives whose broadcaster vanished without ending
+    const sweep = setInterval(() => {
+      setLives(prev => {
+        const active = prev.filter(live => isLiveActive(live));
+        return active.length === prev.length ? prev : active;
+      });
+    }, LIVE_HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(sweep);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchLives]);
+
+  return { lives, refetch: fetchLives };
+};
@@ -0,0 +1,56 @@
+// useActivityStatus - Online dot and "Active 5m ago" text for a set of users
+// Both come from get_last_active(), which returns nothing while either side hides their activity status
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { usePresence } from '@/hooks/usePresence';
+import { formatLastActive, isRecentlyActive, LAST_ACTIVE_REFRESH_MS } from '@/lib/presence';
+
+export interface ActivityStatus {
+  online: boolean;
+  text: string | null; // "Active now", "Active 5m ago", or null when unknown or hidden
+}
+
+export const useActivityStatus = (userIds: (string | null | undefined)[]) => {
+  const { showActivityStatus } = usePresence();
+  const [lastActive, setLastActive] = useState<Record<string, string>>({});
+  // Stable across renders for the same set of users
+  const userIdsKey = [...new Set(userIds.filter((id): id is string => !!id))].sort().join(',');
+
+  useEffect(() => {
+    if (!userIdsKey || !showActivityStatus) {
+      setLastActive({});
+      return;
+    }
+    let cancelled = false;
+
+    const fetchLastActive = async () => {
+      const { data, error } = await supabase.rpc('get_last_active', {
+        p_user_ids: userIdsKey.split(','),
+      });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('[ActivityStatus] Error fetching last active:', error);
+        return;
+      }
+      setLastActive(Object.fromEntries((data || []).map(row => [row.user_id, row.last_active_at])));
+    };
+    fetchLastActive();
+
+    // Also re-renders the relative times
+    const interval = setInterval(fetchLastActive, LAST_ACTIVE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [userIdsKey, showActivityStatus]);
+
+  const getActivityStatus = useCallback((userId?: string | null): ActivityStatus => {
+    if (!userId || !showActivityStatus) return { online: false, text: null };
+    if (isRecentlyActive(lastActive[userId])) return { online: true, text: 'Active now' };
+    return { online: false, text: formatLastActive(lastActive[userId]) };
+  }, [showActivityStatus, lastActive]);
+
+  return { getActivityStatus };
+};
@@ -0,0 +1,73 @@
+// useAudioAnalysis - Waveform peaks and beats for the editor's audio tracks
+// Reads the analysis stored on music_library first; decodes in the browser and stores it back when missing
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AudioAnalysis, AudioTrack } from '@/types/editor';
+import { getAudioAnalysis } from '@/lib/waveform';
+
+// Streaming links only play through their embeds - there is no file to decode
+const UNDECODABLE_SOURCES: AudioTrack['sourceType'][] = ['youtube', 'soundcloud', 'spotify'];
+
+async function loadStoredAnalysis(url: string): Promise<AudioAnalysis | null> {
+  const { data, error } = await supabase
+    .from('music_library')
+    .select('waveform_peaks, waveform_rate, beat_times, bpm')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !Array.isArray(data.waveform_peaks) || !data.waveform_rate) return null;
+
+  const peaks = data.waveform_peaks as number[];
+  return {
+    duration: peaks.length / data.waveform_rate,
+    peakRate: data.waveform_rate,
+    peaks,
+    beats: Array.isArray(data.beat_times) ? (data.beat_times as number[]) : [],
+    bpm: data.bpm,
+  };
+}
+
+async function saveAnalysis(url: string, analysis: AudioAnalysis): Promise<void> {
+  const { error } = await supabase.rpc('save_music_analysis', {
+    p_url: url,
+    p_peaks: analysis.peaks,
+    p_rate: analysis.peakRate,
+    p_beats: analysis.beats,
+    p_bpm: analysis.bpm ?? undefined,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Analyses keyed by track id; tracks still decoding (or that can't be decoded) are absent
+ */
+export function useAudioAnalysis(tracks: AudioTrack[]): Record<string, AudioAnalysis> {
+  const [analyses, setAnalyses] = useState<Record<string, AudioAnalysis>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    for (const track of tracks) {
+      if (!track.url || UNDECODABLE_SOURCES.includes(track.sourceType)) continue;
+
+      // Library tracks are shared rows; recordings live at blob or private URLs no row points to
+      const persisted = track.url.startsWith('http') && track.sourceType !== 'recorded';
+      getAudioAnalysis(
+        track.url,
+        persisted ? () => loadStoredAnalysis(track.url) : undefined,
+        persisted ? (analysis) => saveAnalysis(track.url, analysis) : undefined
+      ).then(analysis => {
+        if (cancelled || !analysis) return;
+        setAnalyses(prev => prev[track.id] === analysis ? prev : { ...prev, [track.id]: analysis });
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tracks]);
+
+  return analyses;
+}
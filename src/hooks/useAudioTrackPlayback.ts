@@ -0,0 +1,117 @@
+// useAudioTrackPlayback - Plays the editor's audio tracks in step with the video player
+// One hidden audio element per track, attached to AudioEngine so fades, envelopes and ducking drive its gain node
+
+import { useEffect, useRef } from 'react';
+import { AudioDucking, AudioTrack } from '@/types/editor';
+import { getAudioEngine } from '@/lib/audioEngine';
+import { getDuckingRanges, getTrackEnd, getTrackGainAt } from '@/lib/audioMix';
+
+// Re-seek a playing track only when it drifts further than this from the playhead
+const DRIFT_TOLERANCE = 0.25;
+
+interface UseAudioTrackPlaybackOptions {
+  tracks: AudioTrack[];
+  currentTime: number;
+  isPlaying: boolean;
+  busVolume: number; // 0-100, level for all audio tracks
+  busMuted: boolean;
+  ducking: AudioDucking;
+}
+
+export function useAudioTrackPlayback({
+  tracks,
+  currentTime,
+  isPlaying,
+  busVolume,
+  busMuted,
+  ducking,
+}: UseAudioTrackPlaybackOptions) {
+  const elementsRef = useRef<Map<string, HTMLAudioElement>>(new Map());
+
+  // Create an element for each new track and release the ones whose track is gone
+  useEffect(() => {
+    const engine = getAudioEngine();
+    const elements = elementsRef.current;
+
+    for (const track of tracks) {
+      const existing = elements.get(track.id);
+      if (existing) {
+        if (existing.getAttribute('src') !== track.url) existing.src = track.url;
+        continue;
+      }
+
+      const audio = new Audio();
+      audio.preload = 'auto';
+      if (track.url.startsWith('http')) audio.crossOrigin = 'anonymous';
+      audio.src = track.url;
+      elements.set(track.id, audio);
+      // Starts silent - the sync effect below sets the real gain straight away
+      engine.attachTrack(track.id, audio, 0);
+      console.log(`[AUDIO] track element created -> trackId=${track.id}`);
+    }
+
+    for (const [id, audio] of elements) {
+      if (tracks.some(track => track.id === id)) continue;
+      audio.pause();
+      engine.detachTrack(id);
+      audio.removeAttribute('src');
+      elements.delete(id);
+      console.log(`[AUDIO] track element released -> trackId=${id}`);
+    }
+  }, [tracks]);
+
+  useEffect(() => {
+    const elements = elementsRef.current;
+    return () => {
+      const engine = getAudioEngine();
+      for (const [id, audio] of elements) {
+        audio.pause();
+        engine.detachTrack(id);
+      }
+      elements.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (isPlaying) getAudioEngine().resume();
+  }, [isPlaying]);
+
+  // Follow the playhead: gain every update, play/pause when entering or leaving a track, re-seek on drift
+  useEffect(() => {
+    const engine = getAudioEngine();
+    const ranges = getDuckingRanges(tracks);
+    const bus = busMuted ? 0 : busVolume / 100;
+
+    for (const track of tracks) {
+      const audio = elementsRef.current.get(track.id);
+      if (!audio) continue;
+
+      const effectsVolume = (track.effects?.volume ?? 100) / 100;
+      const gain = track.muted ? 0 : (track.volume / 100) * effectsVolume * bus * getTrackGainAt(track, currentTime, ranges, ducking);
+      if (engine.hasTrack(track.id)) {
+        engine.setTrackGain(track.id, gain);
+      } else {
+        audio.volume = Math.min(1, gain);
+      }
+
+      const speed = track.effects?.speed ?? 1;
+      const inside = currentTime >= track.startAt && currentTime < getTrackEnd(track);
+      const target = (currentTime - track.startAt) * speed;
+
+      if (!isPlaying || !inside) {
+        if (!audio.paused) audio.pause();
+        // Keep paused tracks parked at the playhead so playback starts in sync
+        if (inside && Math.abs(audio.currentTime - target) > 0.05) audio.currentTime = target;
+        continue;
+      }
+
+      audio.playbackRate = speed;
+      if (Math.abs(audio.currentTime - target) > DRIFT_TOLERANCE) {
+        audio.currentTime = target;
+      }
+      if (audio.paused) {
+        audio.play().catch(error => console.warn(`[AUDIO] track play failed -> trackId=${track.id}`, error));
+      }
+    }
+  }, [tracks, currentTime, isPlaying, busVolume, busMuted, ducking]);
+}
@@ -13,8 +13,12 @@ export interface CallHistoryItem {
   is_outgoing: boolean;
   started_at: string;
   duration_seconds: number;
+  recording_path: string | null;
+  recording_url: string | null; // signed link to recording_path
 }
 
+const RECORDING_URL_SECONDS = 60 * 60;
+
 export const useCallHistory = () => {
   const { user } = useAuth();
   const [callHistory, setCallHistory] = useState<CallHistoryItem[]>([]);
@@ -29,12 +33,28 @@ export const useCallHistory = () => {
 
     try {
       const { data, error: fetchError } = await supabase.rpc('get_call_history', {
-        p_user_id: user.id,
         p_limit: 50
       });
 
       if (fetchError) throw fetchError;
-      setCallHistory((data as CallHistoryItem[]) || []);
+
+      // Recordings are private, so link each one through a signed URL
+      const recordingPaths = (data || []).map(item => item.recording_path).filter(Boolean);
+      const signedUrls = new Map<string, string>();
+      if (recordingPaths.length > 0) {
+        const { data: signed, error: signError } = await supabase.storage
+          .from('call_recordings')
+          .createSignedUrls(recordingPaths, RECORDING_URL_SECONDS);
+        if (signError) console.error('[CallHistory] Error signing recording links:', signError);
+        signed?.forEach(entry => {
+          if (entry.path && entry.signedUrl) signedUrls.set(entry.path, entry.signedUrl);
+        });
+      }
+
+      setCallHistory(((data || []) as Omit<CallHistoryItem, 'recording_url'>[]).map(item => ({
+        ...item,
+        recording_url: item.recording_path ? signedUrls.get(item.recording_path) || null : null,
+      })));
     } catch (err) {
       console.error('[CallHistory] Error fetching:', err);
       setError('Failed to load call history');
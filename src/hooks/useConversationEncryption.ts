@@ -0,0 +1,150 @@
+// useConversationEncryption - device keys, fingerprints and safety number for "Check encryption"
+// A stored verification no longer matches once any participant adds or removes a device
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { computeSafetyNumber, getKeyFingerprint, isE2ESupported } from '@/lib/e2ee';
+import { getDeviceIdentity, removeDeviceKey } from '@/lib/messageEncryption';
+
+export interface EncryptionDevice {
+  device_id: string;
+  device_name: string;
+  hex_key: string;
+  last_seen_at: string;
+  created_at: string;
+  key_fingerprint: string;
+  is_current: boolean;
+}
+
+export interface EncryptionParticipant {
+  user_id: string;
+  display_name: string;
+  profile_pic?: string | null;
+  is_self: boolean;
+  devices: EncryptionDevice[];
+}
+
+export interface EncryptionVerification {
+  verified_at: string;
+  status: string;
+  safety_number: string | null;
+}
+
+interface EncryptionDetailsResponse {
+  participants: (Omit<EncryptionParticipant, 'devices'> & {
+    devices: Omit<EncryptionDevice, 'key_fingerprint' | 'is_current'>[];
+  })[];
+  last_verification: EncryptionVerification | null;
+}
+
+export const useConversationEncryption = (conversationId?: string, currentUserId?: string) => {
+  const [participants, setParticipants] = useState<EncryptionParticipant[]>([]);
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [lastVerification, setLastVerification] = useState<EncryptionVerification | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!conversationId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Registers this device first so it shows up in the key list
+      const identity = currentUserId ? await getDeviceIdentity(currentUserId) : null;
+
+      const { data, error: rpcError } = await supabase.rpc('get_encryption_details', {
+        p_conversation_id: conversationId
+      });
+
+      if (rpcError) throw rpcError;
+
+      const details = data as unknown as EncryptionDetailsResponse;
+      const withFingerprints = await Promise.all(
+        (details.participants || []).map(async (participant) => ({
+          ...participant,
+          devices: await Promise.all(
+            participant.devices.map(async (device) => ({
+              ...device,
+              key_fingerprint: await getKeyFingerprint(device.hex_key),
+              is_current: device.device_id === identity?.deviceId,
+            }))
+          ),
+        }))
+      );
+
+      setParticipants(withFingerprints);
+      setSafetyNumber(
+        withFingerprints.length > 0
+          ? await computeSafetyNumber(withFingerprints.map(p => ({
+              userId: p.user_id,
+              publicKeysHex: p.devices.map(d => d.hex_key),
+            })))
+          : null
+      );
+      setLastVerification(details.last_verification);
+    } catch (err) {
+      console.error('[useConversationEncryption] Error fetching encryption details:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load encryption details');
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, currentUserId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Record that the safety number was compared
+  const verify = async () => {
+    if (!conversationId || !safetyNumber) return false;
+
+    const { data, error: rpcError } = await supabase.rpc('verify_conversation_encryption', {
+      p_conversation_id: conversationId,
+      p_safety_number: safetyNumber
+    });
+
+    if (rpcError) {
+      console.error('[useConversationEncryption] Error verifying encryption:', rpcError);
+      return false;
+    }
+
+    setLastVerification(data as unknown as EncryptionVerification);
+    return true;
+  };
+
+  // Revoke one of the current user's devices; it stops receiving new messages
+  const removeDevice = async (deviceId: string) => {
+    if (!currentUserId) return false;
+
+    try {
+      await removeDeviceKey(currentUserId, deviceId);
+      await refresh();
+      return true;
+    } catch (err) {
+      console.error('[useConversationEncryption] Error removing device:', err);
+      return false;
+    }
+  };
+
+  const isEncrypted = isE2ESupported() &&
+    participants.length > 0 &&
+    participants.every(p => p.devices.length > 0);
+
+  const keysChanged = !!lastVerification?.safety_number &&
+    !!safetyNumber &&
+    lastVerification.safety_number !== safetyNumber;
+
+  return {
+    participants,
+    safetyNumber,
+    lastVerification,
+    isEncrypted,
+    keysChanged,
+    loading,
+    error,
+    refresh,
+    verify,
+    removeDevice,
+  };
+};
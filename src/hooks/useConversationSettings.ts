@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_VANISHING_DURATION, formatVanishingDuration } from '@/lib/vanishing';
 
 export interface ConversationSettings {
   id: string;
@@ -44,6 +45,32 @@ export const useConversationSettings = (conversationId?: string) => {
     fetchSettings();
   }, [fetchSettings]);
 
+  // Vanishing mode is switched for everyone at once, so follow changes made by the other side
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(`conversation-user-settings-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_settings',
+          filter: `conversation_id=eq.${conversationId}`
+        },
+        (payload) => {
+          const updated = payload.new as ConversationSettings;
+          setSettings(prev => (prev && prev.id === updated.id ? { ...prev, ...updated } : prev));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId]);
+
   const toggleMute = async () => {
     if (!conversationId || !settings) return;
 
@@ -71,22 +98,24 @@ export const useConversationSettings = (conversationId?: string) => {
     }
   };
 
-  const toggleVanishingMessages = async () => {
+  // Turns vanishing mode on (for `duration` seconds after a message is seen) or off for every participant
+  const setVanishingMessages = async (enabled: boolean, duration?: number) => {
     if (!conversationId || !settings) return;
 
     try {
-      const { data, error } = await supabase.rpc('update_conversation_settings', {
+      const { data, error } = await supabase.rpc('set_vanishing_messages', {
         p_conversation_id: conversationId,
-        p_vanishing_messages_enabled: !settings.vanishing_messages_enabled
+        p_enabled: enabled,
+        p_duration: duration ?? settings.vanishing_messages_duration ?? DEFAULT_VANISHING_DURATION
       });
 
       if (error) throw error;
       setSettings(data as ConversationSettings);
-      
+
       toast({
         title: data.vanishing_messages_enabled ? "Vanishing messages enabled" : "Vanishing messages disabled",
-        description: data.vanishing_messages_enabled 
-          ? "Messages will disappear after 24 hours" 
+        description: data.vanishing_messages_enabled
+          ? `New messages will disappear ${formatVanishingDuration(data.vanishing_messages_duration ?? DEFAULT_VANISHING_DURATION)} after they're seen`
           : "Messages will be kept permanently"
       });
     } catch (error: any) {
@@ -98,6 +127,8 @@ export const useConversationSettings = (conversationId?: string) => {
     }
   };
 
+  const toggleVanishingMessages = () => setVanishingMessages(!settings?.vanishing_messages_enabled);
+
   const toggleReadReceipts = async () => {
     if (!conversationId || !settings) return;
 
@@ -197,6 +228,7 @@ export const useConversationSettings = (conversationId?: string) => {
     loading,
     toggleMute,
     toggleVanishingMessages,
+    setVanishingMessages,
     toggleReadReceipts,
     updateChatTheme,
     updateQuickEmoji,
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { encryptMessageContent, primeDecryptedMessage } from '@/lib/messageEncryption';
+
+// Columns of a replied-to message needed for its quoted preview
+const REPLY_PREVIEW_FIELDS = ['content', 'is_encrypted', 'e2e_envelope', 'image_url', 'media_url', 'attachment_url', 'is_image', 'is_system', 'edited_at', 'unsent_at'];
+const REPLY_PREVIEW_COLUMNS = 'id, sender_id, content, is_encrypted, e2e_envelope, image_url, media_url, attachment_url, is_image, is_system, edited_at, unsent_at, sender_profile:profiles!messages_sender_id_fkey(display_name)';
 
 type Conversation = {
   conversation_id: string;
@@ -25,7 +30,10 @@ type Message = {
   conversation_id: string;
   sender_id: string;
   content?: string;
+  is_encrypted?: boolean;
+  e2e_envelope?: unknown;
   attachment_url?: string;
+  attachment_name?: string | null;
   image_url?: string;
   media_url?: string;
   is_image?: boolean;
@@ -40,18 +48,32 @@ type Message = {
   audio_mime?: string;
   audio_size?: number;
   audio_path?: string;
+  recording_path?: string | null;
   message_type?: 'text' | 'image' | 'gif' | 'sticker' | 'audio' | 'video' | 'file';
   is_system?: boolean;
   read?: boolean;
+  expires_in?: number | null; // set on messages sent in vanishing mode
+  expires_at?: string | null; // set once the message has been seen
+  edited_at?: string | null;
+  unsent_at?: string | null; // unsent for everyone; the content is a system notice
+  thread_id?: string | null; // replies in a group thread are kept out of the main list
+  thread_reply_count?: number;
+  thread_last_reply_at?: string | null;
   created_at: string;
   reply_to_id?: string;
   reply_to?: {
     id: string;
+    sender_id?: string;
     content?: string;
+    is_encrypted?: boolean | null;
+    e2e_envelope?: unknown;
     image_url?: string | null;
     media_url?: string | null;
     attachment_url?: string | null;
     is_image?: boolean | null;
+    is_system?: boolean | null;
+    edited_at?: string | null;
+    unsent_at?: string | null;
     sender_profile?: {
       display_name: string;
     };
@@ -130,7 +152,10 @@ export const useConversations = (currentUserId?: string) => {
           conversation_id,
           sender_id,
           content,
+          is_encrypted,
+          e2e_envelope,
           attachment_url,
+          attachment_name,
           image_url,
           media_url,
           is_image,
@@ -145,14 +170,22 @@ export const useConversations = (currentUserId?: string) => {
           audio_mime,
           audio_size,
           audio_path,
+          recording_path,
           reply_to_id,
           created_at,
           read,
           message_type,
           is_system,
+          expires_in,
+          expires_at,
+          edited_at,
+          unsent_at,
+          thread_reply_count,
+          thread_last_reply_at,
           sender_profile:profiles!messages_sender_id_fkey(username, display_name, profile_pic)
         `)
         .eq('conversation_id', conversationId)
+        .is('thread_id', null)
         .order('created_at', { ascending: false })
         .range(page * limit, (page + 1) * limit - 1);
 
@@ -181,7 +214,7 @@ export const useConversations = (currentUserId?: string) => {
       if (replyIds.length > 0) {
         const { data: replyData, error: replyError } = await supabase
           .from('messages')
-          .select('id, content, image_url, media_url, attachment_url, is_image, sender_profile:profiles!messages_sender_id_fkey(display_name)')
+          .select(REPLY_PREVIEW_COLUMNS)
           .in('id', replyIds);
 
         if (!replyError && replyData) {
@@ -213,8 +246,45 @@ export const useConversations = (currentUserId?: string) => {
     }
   };
 
+  // Load from the newest message back past the page holding a search result, so the list stays contiguous.
+  // Returns the last page loaded, for callers that page further with fetchMessages
+  const fetchMessagesAround = async (conversationId: string, createdAt: string, limit = 50) => {
+    const { count, error } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('conversation_id', conversationId)
+      .is('thread_id', null)
+      .gt('created_at', createdAt);
+
+    if (error) {
+      console.error('[useConversations] Error locating message page:', error);
+      return 0;
+    }
+
+    // One page older than the target, so the message isn't the first thing on screen
+    const lastPage = Math.floor((count ?? 0) / limit) + 1;
+    await fetchMessages(conversationId, 0, (lastPage + 1) * limit);
+    return lastPage;
+  };
+
+  // The list may not have loaded (or include) the conversation yet; the database has the final word,
+  // and nothing is sent while the type is unknown, so a direct message never goes out unencrypted
+  const getConversationType = async (conversationId: string): Promise<string> => {
+    const listed = conversations.find(c => c.conversation_id === conversationId)?.type;
+    if (listed) return listed;
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('type')
+      .eq('id', conversationId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data?.type) throw new Error('This conversation is not available');
+    return data.type;
+  };
+
   // Send a new message
-  const sendMessage = async (conversationId: string, content?: string, attachmentUrl?: string, replyToId?: string) => {
+  const sendMessage = async (conversationId: string, content?: string, attachmentUrl?: string, replyToId?: string, attachmentName?: string) => {
     if (!currentUserId || (!content && !attachmentUrl)) return false;
 
     // Determine if the attachment is an image or video by file extension only
@@ -223,15 +293,22 @@ export const useConversations = (currentUserId?: string) => {
     const isImage = !isVideo && attachmentUrl && /\.(jpg|jpeg|png|gif|webp|heic|heif|bmp|svg)$/i.test(urlPath);
 
     try {
-      console.log('[useConversations] Sending message:', { conversationId, content, attachmentUrl, replyToId, isImage, isVideo });
-      
+      console.log('[useConversations] Sending message:', { conversationId, hasText: Boolean(content), attachmentUrl, replyToId, isImage, isVideo });
+
+      // Direct message text is end-to-end encrypted; attachments and group messages are not
+      const isDirect = content ? (await getConversationType(conversationId)) === 'dm' : false;
+      const textFields = content && isDirect
+        ? await encryptMessageContent(conversationId, currentUserId, content)
+        : { content: (isImage || isVideo) ? (content || null) : content };
+
       const { data, error } = await supabase
         .from('messages')
         .insert({
           conversation_id: conversationId,
           sender_id: currentUserId,
-          content: (isImage || isVideo) ? (content || null) : content,
+          ...textFields,
           attachment_url: attachmentUrl,
+          attachment_name: attachmentUrl ? attachmentName ?? null : null,
           image_url: isImage ? attachmentUrl : null,
           media_url: isVideo ? attachmentUrl : null,
           is_image: Boolean(isImage),
@@ -243,13 +320,20 @@ export const useConversations = (currentUserId?: string) => {
           conversation_id,
           sender_id,
           content,
+          is_encrypted,
+          e2e_envelope,
           attachment_url,
+          attachment_name,
           image_url,
           media_url,
           is_image,
           message_type,
           reply_to_id,
           created_at,
+          expires_in,
+          expires_at,
+          edited_at,
+          unsent_at,
           sender_profile:profiles!messages_sender_id_fkey(username, display_name, profile_pic)
         `)
         .single();
@@ -273,11 +357,15 @@ export const useConversations = (currentUserId?: string) => {
 
       console.log('[useConversations] Message sent successfully:', data?.id);
 
+      if (data?.is_encrypted && content) {
+        primeDecryptedMessage(data.id, content);
+      }
+
       // If reply_to_id exists, fetch the reply_to message data and add to messages state immediately
       if (data && replyToId) {
         const { data: replyData } = await supabase
           .from('messages')
-          .select('id, content, image_url, media_url, attachment_url, is_image, sender_profile:profiles!messages_sender_id_fkey(display_name)')
+          .select(REPLY_PREVIEW_COLUMNS)
           .eq('id', replyToId)
           .single();
 
@@ -360,6 +448,9 @@ export const useConversations = (currentUserId?: string) => {
         },
         async (payload) => {
           console.log('[useConversations] New message received via realtime:', payload);
+          // Thread replies show up in their thread panel; the root's reply count arrives as an UPDATE
+          if (payload.new.thread_id) return;
+
           // Refresh conversations to update last message and unread counts
           fetchConversations();
           
@@ -367,8 +458,8 @@ export const useConversations = (currentUserId?: string) => {
           if (activeConversationId && payload.new.conversation_id === activeConversationId) {
             const newMsg = payload.new as any;
             
-            // Skip if message was sent by current user (already added optimistically)
-            if (newMsg.sender_id === currentUserId) {
+            // Skip if message was sent by current user (already added optimistically); system notices aren't
+            if (newMsg.sender_id === currentUserId && !newMsg.is_system) {
               console.log('[useConversations] Skipping own message (already in state)');
               return;
             }
@@ -377,10 +468,11 @@ export const useConversations = (currentUserId?: string) => {
             const { data: msgData } = await supabase
               .from('messages')
               .select(`
-                id, conversation_id, sender_id, content, attachment_url, image_url, media_url, is_image,
+                id, conversation_id, sender_id, content, is_encrypted, e2e_envelope, attachment_url, attachment_name, image_url, media_url, is_image,
                 is_gif, gif_url, is_sticker, sticker_url, sticker_id, sticker_set,
-                audio_url, audio_duration, audio_mime, audio_size, audio_path,
-                reply_to_id, created_at, read, message_type, is_system,
+                audio_url, audio_duration, audio_mime, audio_size, audio_path, recording_path,
+                reply_to_id, created_at, read, message_type, is_system, expires_in, expires_at, edited_at, unsent_at,
+                thread_reply_count, thread_last_reply_at,
                 sender_profile:profiles!messages_sender_id_fkey(username, display_name, profile_pic)
               `)
               .eq('id', newMsg.id)
@@ -392,7 +484,7 @@ export const useConversations = (currentUserId?: string) => {
               if (msgData.reply_to_id) {
                 const { data: replyResult } = await supabase
                   .from('messages')
-                  .select('id, content, image_url, media_url, attachment_url, is_image, sender_profile:profiles!messages_sender_id_fkey(display_name)')
+                  .select(REPLY_PREVIEW_COLUMNS)
                   .eq('id', msgData.reply_to_id)
                   .single();
                 replyData = replyResult;
@@ -410,10 +502,56 @@ export const useConversations = (currentUserId?: string) => {
                 }
                 return [...prev, fullMessage];
               });
+
+              // It's on screen, so a vanishing message counts as seen and its clock starts now
+              if (fullMessage.expires_in && !fullMessage.is_system) {
+                markMessagesAsRead(activeConversationId);
+              }
             }
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+        },
+        (payload) => {
+          // Edits, unsends and vanishing clocks starting; joined profile and reply data are kept
+          // Columns left out of the payload (unchanged large values) keep their current value
+          const changes = payload.new as Partial<Message> & { id: string };
+          const replyChanges = Object.fromEntries(
+            Object.entries(changes).filter(([key]) => REPLY_PREVIEW_FIELDS.includes(key))
+          ) as Partial<NonNullable<Message['reply_to']>>;
+
+          setMessages(prev => prev.map(m => {
+            if (m.id === changes.id) {
+              return { ...m, ...changes, sender_profile: m.sender_profile, reply_to: m.reply_to };
+            }
+            if (m.reply_to?.id === changes.id) {
+              return {
+                ...m,
+                reply_to: { ...m.reply_to, ...replyChanges },
+              };
+            }
+            return m;
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+        },
+        (payload) => {
+          const deletedId = (payload.old as { id?: string }).id;
+          if (deletedId) setMessages(prev => prev.filter(m => m.id !== deletedId));
+        }
+      )
       .on(
         'postgres_changes',
         {
@@ -447,6 +585,7 @@ export const useConversations = (currentUserId?: string) => {
     activeConversationId,
     setActiveConversationId,
     fetchMessages,
+    fetchMessagesAround,
     sendMessage,
     markMessagesAsRead,
     getOrCreateDM,
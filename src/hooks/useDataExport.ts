@@ -0,0 +1,186 @@
+// useDataExport - Starts, tracks and downloads "Download your data" exports
+// The archive is built by the export-user-data function; progress is read from data_export_jobs
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+
+export type DataExportJob = Tables<'data_export_jobs'>;
+
+// Mirrors EXPORT_CATEGORIES in supabase/functions/export-user-data/archive.ts
+export const DATA_EXPORT_CATEGORIES = [
+  { id: 'profile', label: 'Profile information' },
+  { id: 'posts', label: 'Posts' },
+  { id: 'comments', label: 'Comments' },
+  { id: 'reactions', label: 'Reactions' },
+  { id: 'messages', label: 'Messages' },
+  { id: 'stories', label: 'Stories' },
+  { id: 'saved_posts', label: 'Saved posts' },
+  { id: 'ad_preferences', label: 'Ad preferences' },
+  { id: 'life_events', label: 'Life events' },
+  { id: 'editor_projects', label: 'Editor projects' },
+] as const;
+
+export type DataExportCategory = typeof DATA_EXPORT_CATEGORIES[number]['id'];
+
+export interface DataExportRequest {
+  categories: DataExportCategory[];
+  dateFrom?: string | null; // ISO timestamp
+  dateTo?: string | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const isRunning = (job: DataExportJob) => job.status === 'queued' || job.status === 'processing';
+
+export function useDataExport(userId?: string) {
+  const [jobs, setJobs] = useState<DataExportJob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopPolling = useCallback(() => {
+    if (pollTimerRef.current) {
+      clearTimeout(pollTimerRef.current);
+      pollTimerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => stopPolling, [stopPolling]);
+
+  const upsertJob = useCallback((job: DataExportJob) => {
+    setJobs(prev => {
+      const exists = prev.some(j => j.id === job.id);
+      return exists ? prev.map(j => (j.id === job.id ? job : j)) : [job, ...prev];
+    });
+  }, []);
+
+  const poll = useCallback((jobId: string) => {
+    stopPolling();
+    pollTimerRef.current = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('data_export_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) {
+        // Network blips should not stop tracking a job that is still running server-side
+        console.error('[useDataExport] Polling error:', error);
+        poll(jobId);
+        return;
+      }
+      if (!data) return;
+
+      upsertJob(data);
+      if (isRunning(data)) {
+        poll(jobId);
+      } else if (data.status === 'completed') {
+        toast({ title: 'Your export is ready', description: 'Download it from Previous exports.' });
+      } else {
+        toast({ title: 'Export failed', description: data.error || 'Please try again', variant: 'destructive' });
+      }
+    }, POLL_INTERVAL_MS);
+  }, [stopPolling, upsertJob]);
+
+  const fetchJobs = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('data_export_jobs')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      setJobs(data || []);
+
+      // Resume tracking an export started in another tab or before a reload
+      const running = (data || []).find(isRunning);
+      if (running) poll(running.id);
+    } catch (err) {
+      console.error('[useDataExport] Error fetching exports:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, poll]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const start = useCallback(async (request: DataExportRequest): Promise<boolean> => {
+    setStarting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('export-user-data', { body: request });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      console.log('[useDataExport] Export started:', data.job.id);
+      upsertJob(data.job);
+      poll(data.job.id);
+      return true;
+    } catch (err) {
+      console.error('[useDataExport] ❌ Failed to start export:', err);
+      toast({
+        title: 'Could not start export',
+        description: (err as Error).message || 'Please try again',
+        variant: 'destructive',
+      });
+      // An export may already be running - pick it up
+      fetchJobs();
+      return false;
+    } finally {
+      setStarting(false);
+    }
+  }, [fetchJobs, poll, upsertJob]);
+
+  const download = useCallback(async (job: DataExportJob) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('export-user-data', { body: { jobId: job.id } });
+      if (error) throw error;
+      if (!data?.downloadUrl) throw new Error(data?.error || 'This export is no longer available');
+
+      const link = document.createElement('a');
+      link.href = data.downloadUrl;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err) {
+      console.error('[useDataExport] Download failed:', err);
+      toast({ title: 'Download failed', description: (err as Error).message, variant: 'destructive' });
+    }
+  }, []);
+
+  const remove = useCallback(async (job: DataExportJob) => {
+    try {
+      if (job.file_path) {
+        const { error: storageError } = await supabase.storage.from('data_exports').remove([job.file_path]);
+        if (storageError) throw storageError;
+      }
+      const { error } = await supabase.from('data_export_jobs').delete().eq('id', job.id);
+      if (error) throw error;
+      setJobs(prev => prev.filter(j => j.id !== job.id));
+    } catch (err) {
+      console.error('[useDataExport] Delete failed:', err);
+      toast({ title: 'Could not delete export', description: (err as Error).message, variant: 'destructive' });
+    }
+  }, []);
+
+  const activeJob = jobs.find(isRunning) || null;
+
+  return {
+    jobs,
+    activeJob,
+    previousJobs: jobs.filter(job => !isRunning(job)),
+    loading,
+    starting,
+    start,
+    download,
+    remove,
+    refresh: fetchJobs,
+  };
+}
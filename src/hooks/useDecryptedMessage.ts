@@ -0,0 +1,62 @@
+// useDecryptedMessage - plaintext view of an end-to-end encrypted message and its reply preview
+// Unencrypted messages are returned unchanged
+
+import { useEffect, useMemo, useState } from 'react';
+import { DecryptionResult, EncryptableMessage, decryptMessage } from '@/lib/messageEncryption';
+
+export type DecryptionStatus = 'plain' | 'decrypting' | 'decrypted' | 'failed';
+
+interface DecryptableMessage extends EncryptableMessage {
+  content?: string;
+  reply_to?: (EncryptableMessage & { content?: string }) | null;
+}
+
+export function useDecryptedMessage<T extends DecryptableMessage>(message: T, currentUserId?: string) {
+  const [results, setResults] = useState<Record<string, DecryptionResult>>({});
+
+  const replyTo = message.reply_to;
+
+  useEffect(() => {
+    if (!currentUserId) return;
+    let cancelled = false;
+
+    [message, replyTo].forEach((item) => {
+      if (!item?.is_encrypted) return;
+      decryptMessage(item, currentUserId).then((result) => {
+        if (!cancelled) setResults((prev) => ({ ...prev, [item.id]: result }));
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message, replyTo, currentUserId]);
+
+  const result = message.is_encrypted ? results[message.id] : undefined;
+  const replyResult = replyTo?.is_encrypted ? results[replyTo.id] : undefined;
+
+  const decryptedMessage = useMemo(() => {
+    if (!message.is_encrypted && !replyTo?.is_encrypted) return message;
+    return {
+      ...message,
+      content: message.is_encrypted ? result?.text ?? undefined : message.content,
+      reply_to: replyTo
+        ? { ...replyTo, content: replyTo.is_encrypted ? replyResult?.text ?? '🔒 Encrypted message' : replyTo.content }
+        : replyTo,
+    };
+  }, [message, replyTo, result, replyResult]);
+
+  const status: DecryptionStatus = !message.is_encrypted
+    ? 'plain'
+    : !result
+      ? 'decrypting'
+      : result.text === null
+        ? 'failed'
+        : 'decrypted';
+
+  return {
+    message: decryptedMessage,
+    status,
+    error: result?.error,
+  };
+}
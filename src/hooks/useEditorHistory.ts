@@ -2,16 +2,17 @@
 // Stores snapshots of editor state for transaction-safe undo/redo
 
 import { useState, useCallback, useRef } from 'react';
-import { VideoLayer, AudioTrack, EmojiLayer, TextLayer, ImageLayer, VideoFilter, Transcript } from '@/types/editor';
+import { VideoLayer, AudioTrack, EmojiLayer, TextLayer, ImageLayer, OverlayVideoLayer, VideoFilter, Transcript } from '@/types/editor';
 
 export interface EditorSnapshot {
   timestamp: number;
   action: string;
   videoLayers: VideoLayer[];
-  audioTrack: AudioTrack | null;
+  audioTracks: AudioTrack[];
   emojiLayers: EmojiLayer[];
   textLayers: TextLayer[];
   imageLayers: ImageLayer[];
+  overlayLayers: OverlayVideoLayer[];
   globalFilter: VideoFilter;
   duration: number;
   clipStart: number;
@@ -19,6 +20,19 @@ export interface EditorSnapshot {
   transcript: Transcript | null;
 }
 
+// Fields that make two snapshots different actions - keyframes included so keyframe edits are undoable
+function hashSnapshot(snapshot: Omit<EditorSnapshot, 'timestamp'>): string {
+  return JSON.stringify({
+    videoLayers: snapshot.videoLayers.map(v => ({ id: v.id, start: v.start, end: v.end })),
+    audioTracks: snapshot.audioTracks.map(a => ({ id: a.id, startAt: a.startAt, endAt: a.endAt, fadeIn: a.fadeIn, fadeOut: a.fadeOut, volumeEnvelope: a.volumeEnvelope })),
+    emojiLayers: snapshot.emojiLayers.map(e => ({ id: e.id, position: e.position, keyframes: e.keyframes })),
+    textLayers: snapshot.textLayers.map(t => ({ id: t.id, content: t.content, position: t.position, keyframes: t.keyframes })),
+    imageLayers: snapshot.imageLayers.map(i => ({ id: i.id, position: i.position, keyframes: i.keyframes })),
+    overlayLayers: snapshot.overlayLayers.map(o => ({ id: o.id, start: o.start, end: o.end, position: o.position, scale: o.scale, opacity: o.opacity, blendMode: o.blendMode, chromaKey: o.chromaKey, keyframes: o.keyframes })),
+    duration: snapshot.duration,
+  });
+}
+
 interface UseEditorHistoryOptions {
   maxHistory?: number;
 }
@@ -33,14 +47,7 @@ export function useEditorHistory(options: UseEditorHistoryOptions = {}) {
   // Push a new snapshot to history
   const pushSnapshot = useCallback((snapshot: Omit<EditorSnapshot, 'timestamp'>) => {
     // Create hash of snapshot to avoid duplicates
-    const hash = JSON.stringify({
-      videoLayers: snapshot.videoLayers.map(v => ({ id: v.id, start: v.start, end: v.end })),
-      audioTrack: snapshot.audioTrack?.id,
-      emojiLayers: snapshot.emojiLayers.map(e => ({ id: e.id, position: e.position })),
-      textLayers: snapshot.textLayers.map(t => ({ id: t.id, content: t.content, position: t.position })),
-      imageLayers: snapshot.imageLayers.map(i => ({ id: i.id, position: i.position })),
-      duration: snapshot.duration,
-    });
+    const hash = hashSnapshot(snapshot);
 
     if (hash === lastSnapshotRef.current) {
       console.log('[History] Skipping duplicate snapshot');
@@ -86,14 +93,7 @@ export function useEditorHistory(options: UseEditorHistoryOptions = {}) {
     console.log(`[History] Undo: "${current.action}" → restored previous state`);
     
     // Update last snapshot ref to avoid re-pushing
-    lastSnapshotRef.current = JSON.stringify({
-      videoLayers: previous.videoLayers.map(v => ({ id: v.id, start: v.start, end: v.end })),
-      audioTrack: previous.audioTrack?.id,
-      emojiLayers: previous.emojiLayers.map(e => ({ id: e.id, position: e.position })),
-      textLayers: previous.textLayers.map(t => ({ id: t.id, content: t.content, position: t.position })),
-      imageLayers: previous.imageLayers.map(i => ({ id: i.id, position: i.position })),
-      duration: previous.duration,
-    });
+    lastSnapshotRef.current = hashSnapshot(previous);
 
     return previous;
   }, [undoStack]);
@@ -113,14 +113,7 @@ export function useEditorHistory(options: UseEditorHistoryOptions = {}) {
     console.log(`[History] Redo: "${toRedo.action}"`);
     
     // Update last snapshot ref
-    lastSnapshotRef.current = JSON.stringify({
-      videoLayers: toRedo.videoLayers.map(v => ({ id: v.id, start: v.start, end: v.end })),
-      audioTrack: toRedo.audioTrack?.id,
-      emojiLayers: toRedo.emojiLayers.map(e => ({ id: e.id, position: e.position })),
-      textLayers: toRedo.textLayers.map(t => ({ id: t.id, content: t.content, position: t.position })),
-      imageLayers: toRedo.imageLayers.map(i => ({ id: i.id, position: i.position })),
-      duration: toRedo.duration,
-    });
+    lastSnapshotRef.current = hashSnapshot(toRedo);
 
     return toRedo;
   }, [redoStack]);
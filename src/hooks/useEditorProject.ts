@@ -7,6 +7,7 @@ import {
   EmojiLayer,
   TextLayer,
   ImageLayer,
+  OverlayVideoLayer,
   VideoFilter,
   Transcript,
   defaultVideoFilter,
@@ -31,10 +32,11 @@ export interface EditorProject {
 
 export interface ParsedProjectData {
   videoLayers: VideoLayer[];
-  audioTrack: AudioTrack | null;
+  audioTracks: AudioTrack[];
   emojiLayers: EmojiLayer[];
   textLayers: TextLayer[];
   imageLayers: ImageLayer[];
+  overlayLayers: OverlayVideoLayer[];
   globalFilter: VideoFilter;
   duration: number;
   clipStart: number;
@@ -200,10 +202,11 @@ export const useEditorProject = (projectId?: string) => {
   const parseProjectData = useCallback((proj: EditorProject): ParsedProjectData => {
     const data: ParsedProjectData = {
       videoLayers: [],
-      audioTrack: null,
+      audioTracks: [],
       emojiLayers: [],
       textLayers: [],
       imageLayers: [],
+      overlayLayers: [],
       globalFilter: defaultVideoFilter,
       duration: 30,
       clipStart: 0,
@@ -231,6 +234,10 @@ export const useEditorProject = (projectId?: string) => {
         scale: clip.scale || 1,
         rotation: clip.rotation || 0,
         filter: clip.filter || defaultVideoFilter,
+        transition: clip.transition,
+        sourceStart: clip.sourceStart,
+        speed: clip.speed,
+        speedCurve: clip.speedCurve,
       }));
 
       if (data.videoLayers.length > 0) {
@@ -242,9 +249,8 @@ export const useEditorProject = (projectId?: string) => {
     }
 
     const audioTrackData = tracks.find((t: any) => t.type === 'audio');
-    if (audioTrackData?.clips?.[0]) {
-      const clip = audioTrackData.clips[0];
-      data.audioTrack = {
+    if (audioTrackData?.clips) {
+      data.audioTracks = audioTrackData.clips.map((clip) => ({
         id: clip.id,
         type: 'audio',
         url: clip.src,
@@ -254,10 +260,14 @@ export const useEditorProject = (projectId?: string) => {
         startAt: clip.start || 0,
         endAt: clip.end || clip.duration,
         duration: clip.duration,
-        volume: (clip.volume || 1) * 100,
-        muted: false,
+        volume: (clip.volume ?? 1) * 100,
+        muted: clip.muted ?? false,
         effects: clip.effects,
-      };
+        role: clip.role,
+        fadeIn: clip.fadeIn,
+        fadeOut: clip.fadeOut,
+        volumeEnvelope: clip.volumeEnvelope,
+      }));
     }
 
     const overlayTrack = tracks.find((t: any) => t.type === 'overlay');
@@ -271,6 +281,7 @@ export const useEditorProject = (projectId?: string) => {
         position: clip.position || { x: 50, y: 50 },
         scale: clip.scale || 1,
         rotation: clip.rotation || 0,
+        keyframes: clip.keyframes,
       }));
     }
 
@@ -294,6 +305,7 @@ export const useEditorProject = (projectId?: string) => {
           textAlign: 'center',
         },
         animation: clip.animation,
+        keyframes: clip.keyframes,
       }));
     }
 
@@ -309,6 +321,30 @@ export const useEditorProject = (projectId?: string) => {
         position: clip.position || { x: 50, y: 50 },
         scale: clip.scale || 1,
         rotation: clip.rotation || 0,
+        keyframes: clip.keyframes,
+      }));
+    }
+
+    const overlayVideoTrack = tracks.find((t) => t.type === 'overlay-video');
+    if (overlayVideoTrack?.clips) {
+      data.overlayLayers = overlayVideoTrack.clips.map((clip) => ({
+        id: clip.id,
+        type: 'overlay-video',
+        src: clip.src,
+        fileName: clip.fileName || 'Video',
+        start: clip.start || 0,
+        end: clip.end || clip.duration,
+        duration: clip.duration,
+        sourceStart: clip.sourceStart,
+        volume: clip.volume ?? 1,
+        muted: clip.muted ?? false,
+        position: clip.position || { x: 50, y: 50 },
+        scale: clip.scale || 1,
+        rotation: clip.rotation || 0,
+        opacity: clip.opacity ?? 1,
+        blendMode: clip.blendMode || 'normal',
+        chromaKey: clip.chromaKey,
+        keyframes: clip.keyframes,
       }));
     }
 
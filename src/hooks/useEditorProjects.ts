@@ -0,0 +1,134 @@
+// useEditorProjects - The signed-in user's editor projects for the projects page
+// Lists drafts newest-edited first and handles rename, duplicate and delete
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { getCopyTitle } from '@/lib/projectVersions';
+
+const THUMBNAIL_BUCKET = 'editor_thumbnails';
+
+export interface EditorProjectSummary {
+  id: string;
+  title: string;
+  status: string;
+  thumbnail_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const SUMMARY_COLUMNS = 'id, title, status, thumbnail_url, created_at, updated_at';
+
+const getThumbnailPath = (userId: string, projectId: string) => `${userId}/${projectId}.jpg`;
+
+async function copyThumbnail(userId: string, fromId: string, toId: string): Promise<string | null> {
+  const to = getThumbnailPath(userId, toId);
+  const { error } = await supabase.storage.from(THUMBNAIL_BUCKET).copy(getThumbnailPath(userId, fromId), to);
+  if (error) {
+    console.warn('[useEditorProjects] Thumbnail not copied:', error);
+    return null;
+  }
+  const thumbnailUrl = `${supabase.storage.from(THUMBNAIL_BUCKET).getPublicUrl(to).data.publicUrl}?v=${Date.now()}`;
+  await supabase.from('editor_projects').update({ thumbnail_url: thumbnailUrl }).eq('id', toId);
+  return thumbnailUrl;
+}
+
+export function useEditorProjects() {
+  const { user } = useAuth();
+  const [projects, setProjects] = useState<EditorProjectSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProjects = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('editor_projects')
+        .select(SUMMARY_COLUMNS)
+        .eq('owner_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setProjects(data || []);
+    } catch (err) {
+      console.error('[useEditorProjects] Error fetching projects:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  const renameProject = useCallback(async (projectId: string, title: string): Promise<boolean> => {
+    const trimmed = title.trim();
+    if (!trimmed) return false;
+    const { error } = await supabase.from('editor_projects').update({ title: trimmed }).eq('id', projectId);
+    if (error) {
+      console.error('[useEditorProjects] ❌ Rename failed:', error);
+      toast({ title: 'Could not rename project', variant: 'destructive' });
+      return false;
+    }
+    setProjects(prev => prev.map(p => (p.id === projectId ? { ...p, title: trimmed } : p)));
+    return true;
+  }, []);
+
+  // Copies the current state only - versions stay with the original
+  const duplicateProject = useCallback(async (projectId: string): Promise<EditorProjectSummary | null> => {
+    if (!user) return null;
+    try {
+      const { data: original, error: fetchError } = await supabase
+        .from('editor_projects')
+        .select('title, project_json, thumbnail_url')
+        .eq('id', projectId)
+        .single();
+      if (fetchError) throw fetchError;
+
+      const { data, error } = await supabase
+        .from('editor_projects')
+        .insert({
+          owner_id: user.id,
+          title: getCopyTitle(original.title),
+          project_json: original.project_json,
+          status: 'draft',
+        })
+        .select(SUMMARY_COLUMNS)
+        .single();
+      if (error) throw error;
+
+      // The copy gets its own thumbnail file so deleting either project leaves the other's intact
+      const copy = { ...data, thumbnail_url: original.thumbnail_url ? await copyThumbnail(user.id, projectId, data.id) : null };
+      setProjects(prev => [copy, ...prev]);
+      toast({ title: 'Project duplicated', description: `"${copy.title}" was created` });
+      return copy;
+    } catch (err) {
+      console.error('[useEditorProjects] ❌ Duplicate failed:', err);
+      toast({ title: 'Could not duplicate project', variant: 'destructive' });
+      return null;
+    }
+  }, [user]);
+
+  // Versions go with the project (ON DELETE CASCADE); the thumbnail is removed separately
+  const deleteProject = useCallback(async (projectId: string): Promise<boolean> => {
+    const { error } = await supabase.from('editor_projects').delete().eq('id', projectId);
+    if (error) {
+      console.error('[useEditorProjects] ❌ Delete failed:', error);
+      toast({ title: 'Could not delete project', variant: 'destructive' });
+      return false;
+    }
+
+    if (user) {
+      const { error: storageError } = await supabase.storage
+        .from(THUMBNAIL_BUCKET)
+        .remove([getThumbnailPath(user.id, projectId)]);
+      if (storageError) console.warn('[useEditorProjects] Thumbnail not removed:', storageError);
+    }
+
+    setProjects(prev => prev.filter(p => p.id !== projectId));
+    return true;
+  }, [user]);
+
+  return { projects, loading, renameProject, duplicateProject, deleteProject, refetch: fetchProjects };
+}
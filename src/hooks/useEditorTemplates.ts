@@ -0,0 +1,139 @@
+// useEditorTemplates - Templates saved from projects: the user's own plus ones shared publicly
+// Layers and placeholder slots live in editor_templates.template_data; thumbnails in the editor_templates bucket
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { EditorTemplate } from '@/types/editor';
+
+const BUCKET = 'editor_templates';
+const FETCH_LIMIT = 100;
+
+export interface SaveTemplateRequest {
+  template: Omit<EditorTemplate, 'id'>;
+  thumbnail?: Blob | null;
+  isPublic: boolean;
+}
+
+function rowToTemplate(row: Tables<'editor_templates'>): EditorTemplate {
+  const content = (row.template_data ?? {}) as unknown as Partial<EditorTemplate>;
+  return {
+    ...content,
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    thumbnailUrl: row.thumbnail_url ?? undefined,
+    duration: row.duration,
+    userId: row.user_id,
+    isPublic: row.is_public,
+  };
+}
+
+// Storage path of a thumbnail from its public URL
+const getThumbnailPath = (url: string) => url.split(`/${BUCKET}/`)[1] ?? null;
+
+export function useEditorTemplates(userId?: string) {
+  const [templates, setTemplates] = useState<EditorTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('editor_templates')
+        .select('*')
+        .or(`user_id.eq.${userId},is_public.eq.true`)
+        .order('created_at', { ascending: false })
+        .limit(FETCH_LIMIT);
+
+      if (error) throw error;
+      setTemplates((data || []).map(rowToTemplate));
+    } catch (err) {
+      console.error('[useEditorTemplates] Error fetching templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const saveTemplate = useCallback(async ({ template, thumbnail, isPublic }: SaveTemplateRequest): Promise<EditorTemplate | null> => {
+    if (!userId) return null;
+    setSaving(true);
+    let thumbnailPath: string | null = null;
+    try {
+      let thumbnailUrl: string | null = null;
+      if (thumbnail) {
+        thumbnailPath = `${userId}/${Date.now()}-${Math.random().toString(36).substring(2, 9)}.jpg`;
+        const { error: uploadError } = await supabase.storage
+          .from(BUCKET)
+          .upload(thumbnailPath, thumbnail, { contentType: 'image/jpeg', upsert: false });
+        if (uploadError) throw uploadError;
+        thumbnailUrl = supabase.storage.from(BUCKET).getPublicUrl(thumbnailPath).data.publicUrl;
+      }
+
+      // Identity columns are stored on the row, not duplicated in template_data
+      const { name, description, duration, ...content } = template;
+      const { data, error } = await supabase
+        .from('editor_templates')
+        .insert({
+          user_id: userId,
+          name,
+          description: description ?? null,
+          thumbnail_url: thumbnailUrl,
+          duration,
+          template_data: content as unknown as Json,
+          placeholder_count: template.placeholders?.length ?? 0,
+          is_public: isPublic,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const saved = rowToTemplate(data);
+      console.log(`[useEditorTemplates] ✅ Saved "${saved.name}" with ${saved.placeholders?.length ?? 0} slots`);
+      setTemplates(prev => [saved, ...prev]);
+      toast({ title: 'Template saved', description: `"${saved.name}" is now in your templates` });
+      return saved;
+    } catch (err) {
+      console.error('[useEditorTemplates] ❌ Save failed:', err);
+      if (thumbnailPath) await supabase.storage.from(BUCKET).remove([thumbnailPath]);
+      toast({
+        title: 'Could not save template',
+        description: (err as Error).message || 'Please try again',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [userId]);
+
+  const deleteTemplate = useCallback(async (template: EditorTemplate): Promise<boolean> => {
+    try {
+      const { error } = await supabase.from('editor_templates').delete().eq('id', template.id);
+      if (error) throw error;
+
+      const thumbnailPath = template.thumbnailUrl ? getThumbnailPath(template.thumbnailUrl) : null;
+      if (thumbnailPath) {
+        const { error: storageError } = await supabase.storage.from(BUCKET).remove([thumbnailPath]);
+        if (storageError) console.warn('[useEditorTemplates] Thumbnail not removed:', storageError);
+      }
+
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      return true;
+    } catch (err) {
+      console.error('[useEditorTemplates] ❌ Delete failed:', err);
+      toast({ title: 'Could not delete template', variant: 'destructive' });
+      return false;
+    }
+  }, []);
+
+  return { templates, loading, saving, saveTemplate, deleteTemplate, refetch: fetchTemplates };
+}
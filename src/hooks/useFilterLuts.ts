@@ -0,0 +1,109 @@
+// useFilterLuts - The user's library of .cube LUTs for the editor filters panel
+// Files are validated before upload and stored in the filter_luts bucket; rows in filter_luts name them
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { parseCubeLut } from '@/lib/lut';
+
+export type FilterLutRecord = Tables<'filter_luts'>;
+
+const BUCKET = 'filter_luts';
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // a 64³ table is ~7MB of text
+
+export function useFilterLuts(userId?: string) {
+  const [luts, setLuts] = useState<FilterLutRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const fetchLuts = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('filter_luts')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setLuts(data || []);
+    } catch (err) {
+      console.error('[useFilterLuts] Error fetching LUTs:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchLuts();
+  }, [fetchLuts]);
+
+  /**
+   * Validate, upload and save a .cube file; returns the saved row or null on failure
+   */
+  const importLut = useCallback(async (file: File): Promise<FilterLutRecord | null> => {
+    if (!userId) return null;
+    setImporting(true);
+    try {
+      if (file.size > MAX_FILE_SIZE) {
+        throw new Error('LUT files must be under 10MB');
+      }
+      // Parse first so a broken file never reaches storage
+      const lut = parseCubeLut(await file.text());
+      const name = (lut.title || file.name.replace(/\.cube$/i, '')).slice(0, 100) || 'Untitled LUT';
+      const filePath = `${userId}/${Date.now()}-${Math.random().toString(36).substring(2, 9)}.cube`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(filePath, file, { contentType: 'text/plain', upsert: false });
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = supabase.storage.from(BUCKET).getPublicUrl(filePath);
+      const { data, error } = await supabase
+        .from('filter_luts')
+        .insert({ user_id: userId, name, url: publicUrl, file_path: filePath, size: lut.size })
+        .select()
+        .single();
+
+      if (error) {
+        await supabase.storage.from(BUCKET).remove([filePath]);
+        throw error;
+      }
+
+      console.log(`[useFilterLuts] ✅ Imported ${name} (${lut.size}³)`);
+      setLuts(prev => [data, ...prev]);
+      return data;
+    } catch (err) {
+      console.error('[useFilterLuts] ❌ Import failed:', err);
+      toast({
+        title: 'Could not import LUT',
+        description: (err as Error).message || 'Please try again',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setImporting(false);
+    }
+  }, [userId]);
+
+  const deleteLut = useCallback(async (lut: FilterLutRecord): Promise<boolean> => {
+    try {
+      const { error } = await supabase.from('filter_luts').delete().eq('id', lut.id);
+      if (error) throw error;
+      // The row is the source of truth - a leftover file is harmless
+      const { error: storageError } = await supabase.storage.from(BUCKET).remove([lut.file_path]);
+      if (storageError) console.warn('[useFilterLuts] LUT file not removed:', storageError);
+
+      setLuts(prev => prev.filter(l => l.id !== lut.id));
+      return true;
+    } catch (err) {
+      console.error('[useFilterLuts] ❌ Delete failed:', err);
+      toast({ title: 'Could not delete LUT', variant: 'destructive' });
+      return false;
+    }
+  }, []);
+
+  return { luts, loading, importing, importLut, deleteLut, refetch: fetchLuts };
+}
@@ -0,0 +1,334 @@
+// useLiveBroadcast - "Go Live": camera preview, one WebRTC upload per viewer, replay recording
+// The lives row is the public record; heartbeat_at keeps it marked active while we are on air
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveChannel } from '@/hooks/useLiveChannel';
+import { WebRTCService, getCallMediaStream } from '@/services/webrtc';
+import { LIVE_HEARTBEAT_MS, LiveSignal, LivePresence, MAX_LIVE_VIEWERS } from '@/lib/liveStream';
+import { pickRecordingMimeType } from '@/lib/callRecording';
+import { uploadVideo } from '@/lib/storage';
+
+export type Live = Tables<'lives'>;
+export type BroadcastStatus = 'idle' | 'preview' | 'starting' | 'live' | 'ended';
+
+export interface LiveReplay {
+  blob: Blob;
+  mimeType: string;
+  durationSeconds: number;
+}
+
+export const useLiveBroadcast = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<BroadcastStatus>('idle');
+  const [live, setLive] = useState<Live | null>(null);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [replay, setReplay] = useState<LiveReplay | null>(null);
+  const [savingReplay, setSavingReplay] = useState(false);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const peersRef = useRef<Map<string, WebRTCService>>(new Map());
+  const iceQueuesRef = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
+  const heartbeatRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const peakViewersRef = useRef(0);
+  const liveRef = useRef<Live | null>(null);
+  liveRef.current = live;
+
+  const closePeer = useCallback((viewerId: string) => {
+    peersRef.current.get(viewerId)?.close();
+    peersRef.current.delete(viewerId);
+    iceQueuesRef.current.delete(viewerId);
+  }, []);
+
+  // Signal handling needs `send`, which needs the handler - bridge through a ref
+  const signalHandlerRef = useRef<(signal: LiveSignal) => void>(() => {});
+
+  const { send, viewerCount, connected } = useLiveChannel({
+    liveId: status === 'live' ? live?.id : null,
+    userId: user?.id,
+    role: 'broadcaster',
+    onSignal: (signal) => signalHandlerRef.current(signal),
+    onPresenceLeave: (presence: LivePresence) => {
+      if (presence.role === 'viewer') closePeer(presence.userId);
+    },
+  });
+
+  useEffect(() => {
+    peakViewersRef.current = Math.max(peakViewersRef.current, viewerCount);
+  }, [viewerCount]);
+
+  const connectViewer = useCallback(async (viewerId: string) => {
+    const stream = streamRef.current;
+    if (!user?.id || !stream) return;
+
+    if (!peersRef.current.has(viewerId) && peersRef.current.size >= MAX_LIVE_VIEWERS) {
+      console.log('[LiveBroadcast] Audience full, turning away', viewerId);
+      send({ type: 'live-full', from: user.id, to: viewerId });
+      return;
+    }
+
+    // A viewer that rejoins (refresh, network change) gets a fresh connection
+    closePeer(viewerId);
+
+    const peer = new WebRTCService();
+    peersRef.current.set(viewerId, peer);
+    peer.addLocalStream(stream);
+    peer.setOnIceCandidate((candidate) => {
+      send({ type: 'ice-candidate', from: user.id, to: viewerId, payload: candidate });
+    });
+    peer.setOnConnectionStateChange((state) => {
+      if (state === 'failed' || state === 'closed') closePeer(viewerId);
+    });
+
+    try {
+      const offer = await peer.createOffer();
+      await send({ type: 'offer', from: user.id, to: viewerId, payload: offer });
+      console.log('[LiveBroadcast] Sent offer to viewer', viewerId);
+    } catch (error) {
+      console.error('[LiveBroadcast] Error creating offer:', error);
+      closePeer(viewerId);
+    }
+  }, [user?.id, send, closePeer]);
+
+  signalHandlerRef.current = async (signal: LiveSignal) => {
+    switch (signal.type) {
+      case 'viewer-join':
+        connectViewer(signal.from);
+        break;
+
+      case 'answer': {
+        const peer = peersRef.current.get(signal.from);
+        if (!peer) break;
+        try {
+          await peer.setRemoteDescription(signal.payload as RTCSessionDescriptionInit);
+          const queued = iceQueuesRef.current.get(signal.from) || [];
+          iceQueuesRef.current.delete(signal.from);
+          for (const candidate of queued) {
+            await peer.addIceCandidate(candidate).catch(() => {});
+          }
+        } catch (error) {
+          console.error('[LiveBroadcast] Error applying answer:', error);
+        }
+        break;
+      }
+
+      case 'ice-candidate': {
+        const peer = peersRef.current.get(signal.from);
+        if (!peer || !signal.payload) break;
+        if (peer.hasRemoteDescription()) {
+          peer.addIceCandidate(signal.payload as RTCIceCandidateInit).catch(() => {});
+        } else {
+          const queue = iceQueuesRef.current.get(signal.from) || [];
+          queue.push(signal.payload as RTCIceCandidateInit);
+          iceQueuesRef.current.set(signal.from, queue);
+        }
+        break;
+      }
+    }
+  };
+
+  const stopTracks = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setLocalStream(null);
+  }, []);
+
+  const startPreview = useCallback(async () => {
+    try {
+      const stream = await getCallMediaStream('video');
+      streamRef.current = stream;
+      setLocalStream(stream);
+      setStatus('preview');
+      return true;
+    } catch (error) {
+      console.error('[LiveBroadcast] Error accessing camera:', error);
+      toast({
+        title: 'Camera unavailable',
+        description: 'Allow camera and microphone access to go live.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  }, [toast]);
+
+  // Record what we send so it can be posted as a replay afterwards
+  const startReplayRecorder = useCallback((stream: MediaStream) => {
+    const mimeType = pickRecordingMimeType(true, type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      console.warn('[LiveBroadcast] Replay recording not supported in this browser');
+      return;
+    }
+    chunksRef.current = [];
+    const recorder = new MediaRecorder(stream, { mimeType });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.start(1000);
+    recorderRef.current = recorder;
+  }, []);
+
+  const stopReplayRecorder = useCallback((durationSeconds: number) => new Promise<LiveReplay | null>((resolve) => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (!recorder || recorder.state === 'inactive') {
+      resolve(null);
+      return;
+    }
+    recorder.onstop = () => {
+      const blob = new Blob(chunksRef.current, { type: recorder.mimeType });
+      chunksRef.current = [];
+      resolve(blob.size > 0 ? { blob, mimeType: recorder.mimeType, durationSeconds } : null);
+    };
+    recorder.stop();
+  }), []);
+
+  const goLive = useCallback(async (title: string) => {
+    if (!user?.id || !streamRef.current) return false;
+    setStatus('starting');
+
+    const { data, error } = await supabase
+      .from('lives')
+      .insert({ user_id: user.id, title: title.trim() || 'Live video' })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[LiveBroadcast] Error creating live:', error);
+      toast({ title: 'Could not go live', description: error?.message, variant: 'destructive' });
+      setStatus('preview');
+      return false;
+    }
+
+    console.log('[LiveBroadcast] On air:', data.id);
+    peakViewersRef.current = 0;
+    setLive(data);
+    setStatus('live');
+    startReplayRecorder(streamRef.current);
+
+    heartbeatRef.current = setInterval(async () => {
+      const { error: heartbeatError } = await supabase
+        .from('lives')
+        .update({ heartbeat_at: new Date().toISOString(), peak_viewers: peakViewersRef.current })
+        .eq('id', data.id);
+      if (heartbeatError) console.error('[LiveBroadcast] Heartbeat failed:', heartbeatError);
+    }, LIVE_HEARTBEAT_MS);
+
+    return true;
+  }, [user?.id, toast, startReplayRecorder]);
+
+  const endLive = useCallback(async () => {
+    const current = liveRef.current;
+    if (!current || !user?.id) return;
+
+    if (heartbeatRef.current) {
+      clearInterval(heartbeatRef.current);
+      heartbeatRef.current = null;
+    }
+
+    await send({ type: 'live-ended', from: user.id });
+    [...peersRef.current.keys()].forEach(closePeer);
+
+    const endedAt = new Date();
+    const { error } = await supabase
+      .from('lives')
+      .update({ ended_at: endedAt.toISOString(), peak_viewers: peakViewersRef.current })
+      .eq('id', current.id);
+    if (error) console.error('[LiveBroadcast] Error ending live:', error);
+
+    const durationSeconds = Math.round((endedAt.getTime() - new Date(current.started_at).getTime()) / 1000);
+    setReplay(await stopReplayRecorder(durationSeconds));
+    stopTracks();
+    setLive({ ...current, ended_at: endedAt.toISOString() });
+    setStatus('ended');
+    console.log('[LiveBroadcast] Ended live:', current.id);
+  }, [user?.id, send, closePeer, stopReplayRecorder, stopTracks]);
+
+  const saveReplay = useCallback(async () => {
+    const current = liveRef.current;
+    if (!user?.id || !current || !replay) return null;
+
+    setSavingReplay(true);
+    try {
+      const extension = replay.mimeType.includes('mp4') ? 'mp4' : 'webm';
+      const file = new File([replay.blob], `live-${current.id}.${extension}`, { type: replay.mimeType });
+      const { publicUrl } = await uploadVideo(file, user.id, { folder: 'lives' });
+
+      const { data: post, error: postError } = await supabase
+        .from('posts')
+        .insert({
+          user_id: user.id,
+          type: 'normal_post',
+          content: current.title,
+          media_url: publicUrl,
+          media_type: 'video',
+          duration: replay.durationSeconds,
+          status: 'published',
+        })
+        .select('id')
+        .single();
+      if (postError) throw postError;
+
+      const { error: linkError } = await supabase
+        .from('lives')
+        .update({ replay_post_id: post.id, stream_url: publicUrl })
+        .eq('id', current.id);
+      if (linkError) console.error('[LiveBroadcast] Error linking replay:', linkError);
+
+      setReplay(null);
+      toast({ title: 'Replay posted', description: 'Your live video is now on your profile.' });
+      return post.id;
+    } catch (error) {
+      console.error('[LiveBroadcast] Error saving replay:', error);
+      toast({
+        title: 'Could not save replay',
+        description: (error as Error).message || 'Please try again',
+        variant: 'destructive',
+      });
+      return null;
+    } finally {
+      setSavingReplay(false);
+    }
+  }, [user?.id, replay, toast]);
+
+  const discardReplay = useCallback(() => {
+    setReplay(null);
+  }, []);
+
+  // Leaving the page ends the live; the heartbeat covers tabs that are closed outright
+  useEffect(() => {
+    const peers = peersRef.current;
+    return () => {
+      if (heartbeatRef.current) clearInterval(heartbeatRef.current);
+      peers.forEach(peer => peer.close());
+      peers.clear();
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+      streamRef.current?.getTracks().forEach(track => track.stop());
+
+      const current = liveRef.current;
+      if (current && !current.ended_at) {
+        supabase.from('lives').update({ ended_at: new Date().toISOString() }).eq('id', current.id).then();
+      }
+    };
+  }, []);
+
+  return {
+    status,
+    live,
+    localStream,
+    viewerCount,
+    connected,
+    replay,
+    savingReplay,
+    startPreview,
+    goLive,
+    endLive,
+    saveReplay,
+    discardReplay,
+  };
+};
@@ -0,0 +1,95 @@
+// useLiveChannel - Realtime channel for one live: WebRTC signaling plus presence
+// Presence is keyed by user id, so the viewer count survives reconnects and duplicate tabs
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { countLiveViewers, LivePresence, LivePresenceRole, LiveSignal } from '@/lib/liveStream';
+
+interface UseLiveChannelOptions {
+  liveId: string | null | undefined;
+  userId: string | undefined;
+  role: LivePresenceRole;
+  onSignal: (signal: LiveSignal) => void;
+  onPresenceJoin?: (presence: LivePresence) => void;
+  onPresenceLeave?: (presence: LivePresence) => void;
+}
+
+export const useLiveChannel = ({
+  liveId,
+  userId,
+  role,
+  onSignal,
+  onPresenceJoin,
+  onPresenceLeave,
+}: UseLiveChannelOptions) => {
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const [viewerCount, setViewerCount] = useState(0);
+  const [broadcasterPresent, setBroadcasterPresent] = useState(false);
+  const [connected, setConnected] = useState(false);
+
+  // Callbacks change every render; the channel is only rebuilt for a new live
+  const handlersRef = useRef({ onSignal, onPresenceJoin, onPresenceLeave });
+  handlersRef.current = { onSignal, onPresenceJoin, onPresenceLeave };
+
+  const send = useCallback(async (signal: LiveSignal) => {
+    if (!channelRef.current) return;
+    try {
+      await channelRef.current.send({
+        type: 'broadcast',
+        event: 'live-signal',
+        payload: signal,
+      });
+    } catch (error) {
+      console.error('[LiveChannel] Error sending signal:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!liveId || !userId) return;
+
+    const channel = supabase.channel(`live:${liveId}`, {
+      config: {
+        broadcast: { self: false },
+        presence: { key: userId },
+      },
+    });
+    channelRef.current = channel;
+
+    channel
+      .on('broadcast', { event: 'live-signal' }, ({ payload }) => {
+        const signal = payload as LiveSignal;
+        // Targeted signals are for one participant only
+        if (signal.to && signal.to !== userId) return;
+        handlersRef.current.onSignal(signal);
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<LivePresence>();
+        setViewerCount(countLiveViewers(state));
+        setBroadcasterPresent(Object.values(state).some(entries => entries.some(e => e.role === 'broadcaster')));
+      })
+      .on('presence', { event: 'join' }, ({ newPresences }) => {
+        (newPresences as unknown as LivePresence[]).forEach(p => handlersRef.current.onPresenceJoin?.(p));
+      })
+      .on('presence', { event: 'leave' }, ({ leftPresences }) => {
+        (leftPresences as unknown as LivePresence[]).forEach(p => handlersRef.current.onPresenceLeave?.(p));
+      })
+      .subscribe(async (status) => {
+        console.log('[LiveChannel] Subscription status:', status);
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ userId, role } satisfies LivePresence);
+          setConnected(true);
+        }
+      });
+
+    return () => {
+      setConnected(false);
+      setViewerCount(0);
+      setBroadcasterPresent(false);
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [liveId, userId, role]);
+
+  return { send, connected, viewerCount, broadcasterPresent };
+};
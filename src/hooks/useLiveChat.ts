@@ -0,0 +1,149 @@
+// useLiveChat - Comments and reactions on a live
+// Comments are stored in live_comments and arrive over postgres_changes; reactions are broadcast only
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { appendLiveComment, LiveReaction, MAX_LIVE_COMMENTS } from '@/lib/liveStream';
+
+export interface LiveComment {
+  id: string;
+  live_id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+  profile: {
+    username: string;
+    display_name: string;
+    profile_pic: string | null;
+  } | null;
+}
+
+export interface FloatingReaction {
+  id: string;
+  emoji: LiveReaction;
+}
+
+const COMMENT_SELECT = 'id, live_id, user_id, content, created_at, profile:profiles!live_comments_user_id_fkey(username, display_name, profile_pic)';
+const REACTION_LIFETIME_MS = 2500;
+
+export const useLiveChat = (liveId: string | undefined) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [comments, setComments] = useState<LiveComment[]>([]);
+  const [reactions, setReactions] = useState<FloatingReaction[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const showReaction = useCallback((emoji: LiveReaction) => {
+    const id = `${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+    setReactions(prev => [...prev, { id, emoji }]);
+    setTimeout(() => {
+      setReactions(prev => prev.filter(r => r.id !== id));
+    }, REACTION_LIFETIME_MS);
+  }, []);
+
+  useEffect(() => {
+    if (!liveId) return;
+
+    const fetchComments = async () => {
+      const { data, error } = await supabase
+        .from('live_comments')
+        .select(COMMENT_SELECT)
+        .eq('live_id', liveId)
+        .order('created_at', { ascending: false })
+        .limit(MAX_LIVE_COMMENTS);
+
+      if (error) {
+        console.error('[LiveChat] Error loading comments:', error);
+        return;
+      }
+      setComments(((data || []) as LiveComment[]).reverse());
+    };
+    fetchComments();
+
+    const channel = supabase
+      .channel(`live-chat:${liveId}`, { config: { broadcast: { self: false } } })
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'live_comments',
+          filter: `live_id=eq.${liveId}`,
+        },
+        async (payload) => {
+          // The realtime row has no profile join
+          const { data } = await supabase
+            .from('live_comments')
+            .select(COMMENT_SELECT)
+            .eq('id', payload.new.id)
+            .maybeSingle();
+          if (data) setComments(prev => appendLiveComment(prev, data as LiveComment));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'live_comments',
+          filter: `live_id=eq.${liveId}`,
+        },
+        (payload) => {
+          setComments(prev => prev.filter(c => c.id !== payload.old.id));
+        }
+      )
+      .on('broadcast', { event: 'reaction' }, ({ payload }) => {
+        showReaction(payload.emoji as LiveReaction);
+      })
+      .subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [liveId, showReaction]);
+
+  const sendComment = useCallback(async (content: string) => {
+    const text = content.trim();
+    if (!user?.id || !liveId || !text) return false;
+
+    const { data, error } = await supabase
+      .from('live_comments')
+      .insert({ live_id: liveId, user_id: user.id, content: text.slice(0, 500) })
+      .select(COMMENT_SELECT)
+      .single();
+
+    if (error) {
+      console.error('[LiveChat] Error sending comment:', error);
+      toast({ title: 'Comment not sent', description: 'This live may have ended.', variant: 'destructive' });
+      return false;
+    }
+
+    setComments(prev => appendLiveComment(prev, data as LiveComment));
+    return true;
+  }, [user?.id, liveId, toast]);
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    const { error } = await supabase.from('live_comments').delete().eq('id', commentId);
+    if (error) {
+      console.error('[LiveChat] Error deleting comment:', error);
+      return;
+    }
+    setComments(prev => prev.filter(c => c.id !== commentId));
+  }, []);
+
+  const sendReaction = useCallback((emoji: LiveReaction) => {
+    showReaction(emoji);
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: 'reaction',
+      payload: { emoji },
+    });
+  }, [showReaction]);
+
+  return { comments, reactions, sendComment, deleteComment, sendReaction };
+};
@@ -0,0 +1,145 @@
+// useLiveViewer - Watches a live: loads the lives row and receives the broadcaster's stream
+// Asks for a connection with viewer-join whenever the broadcaster is (re)present on the channel
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useLiveChannel } from '@/hooks/useLiveChannel';
+import { WebRTCService } from '@/services/webrtc';
+import { isLiveActive, LiveSignal, LivePresence } from '@/lib/liveStream';
+import type { Live } from '@/hooks/useLiveBroadcast';
+
+export interface LiveWithBroadcaster extends Live {
+  broadcaster: {
+    username: string;
+    display_name: string;
+    profile_pic: string | null;
+  } | null;
+}
+
+export type LiveViewerStatus = 'loading' | 'connecting' | 'watching' | 'full' | 'ended' | 'not-found';
+
+export const useLiveViewer = (liveId: string | undefined) => {
+  const { user } = useAuth();
+  const [live, setLive] = useState<LiveWithBroadcaster | null>(null);
+  const [status, setStatus] = useState<LiveViewerStatus>('loading');
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+
+  const peerRef = useRef<WebRTCService | null>(null);
+  const iceQueueRef = useRef<RTCIceCandidateInit[]>([]);
+  const signalHandlerRef = useRef<(signal: LiveSignal) => void>(() => {});
+  const requestStreamRef = useRef<() => void>(() => {});
+
+  const closePeer = useCallback(() => {
+    peerRef.current?.close();
+    peerRef.current = null;
+    iceQueueRef.current = [];
+    setRemoteStream(null);
+  }, []);
+
+  const fetchLive = useCallback(async () => {
+    if (!liveId) return;
+
+    const { data, error } = await supabase
+      .from('lives')
+      .select('*, broadcaster:profiles!lives_user_id_fkey(username, display_name, profile_pic)')
+      .eq('id', liveId)
+      .maybeSingle();
+
+    if (error || !data) {
+      console.error('[LiveViewer] Error loading live:', error);
+      setStatus('not-found');
+      return;
+    }
+
+    setLive(data as LiveWithBroadcaster);
+    setStatus(isLiveActive(data) ? 'connecting' : 'ended');
+  }, [liveId]);
+
+  useEffect(() => {
+    fetchLive();
+  }, [fetchLive]);
+
+  const isOnAir = status === 'connecting' || status === 'watching';
+
+  const { send, viewerCount, broadcasterPresent } = useLiveChannel({
+    liveId: isOnAir && user?.id !== live?.user_id ? liveId : null,
+    userId: user?.id,
+    role: 'viewer',
+    onSignal: (signal) => signalHandlerRef.current(signal),
+    onPresenceJoin: (presence: LivePresence) => {
+      if (presence.role === 'broadcaster') requestStreamRef.current();
+    },
+  });
+
+  requestStreamRef.current = () => {
+    if (!user?.id) return;
+    console.log('[LiveViewer] Requesting stream');
+    send({ type: 'viewer-join', from: user.id });
+  };
+
+  // The broadcaster left without a live-ended (closed tab) - confirm from the row
+  useEffect(() => {
+    if (status !== 'watching' || broadcasterPresent) return;
+    const timer = setTimeout(fetchLive, 5000);
+    return () => clearTimeout(timer);
+  }, [status, broadcasterPresent, fetchLive]);
+
+  signalHandlerRef.current = async (signal: LiveSignal) => {
+    if (!user?.id || signal.from !== live?.user_id) return;
+
+    switch (signal.type) {
+      case 'offer': {
+        closePeer();
+        const peer = new WebRTCService();
+        peerRef.current = peer;
+        peer.setOnRemoteStream((stream) => {
+          setRemoteStream(stream);
+          setStatus('watching');
+        });
+        peer.setOnIceCandidate((candidate) => {
+          send({ type: 'ice-candidate', from: user.id, to: signal.from, payload: candidate });
+        });
+
+        try {
+          await peer.setRemoteDescription(signal.payload as RTCSessionDescriptionInit);
+          for (const candidate of iceQueueRef.current) {
+            await peer.addIceCandidate(candidate).catch(() => {});
+          }
+          iceQueueRef.current = [];
+          const answer = await peer.createAnswer();
+          await send({ type: 'answer', from: user.id, to: signal.from, payload: answer });
+        } catch (error) {
+          console.error('[LiveViewer] Error answering offer:', error);
+          closePeer();
+        }
+        break;
+      }
+
+      case 'ice-candidate':
+        if (!signal.payload) break;
+        if (peerRef.current?.hasRemoteDescription()) {
+          peerRef.current.addIceCandidate(signal.payload as RTCIceCandidateInit).catch(() => {});
+        } else {
+          iceQueueRef.current.push(signal.payload as RTCIceCandidateInit);
+        }
+        break;
+
+      case 'live-full':
+        closePeer();
+        setStatus('full');
+        break;
+
+      case 'live-ended':
+        closePeer();
+        setStatus('ended');
+        setLive(prev => prev ? { ...prev, ended_at: new Date().toISOString() } : prev);
+        break;
+    }
+  };
+
+  // Release the connection when leaving the page
+  useEffect(() => closePeer, [closePeer]);
+
+  return { live, status, remoteStream, viewerCount, retry: fetchLive };
+};
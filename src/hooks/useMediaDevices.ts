@@ -0,0 +1,78 @@
+// useMediaDevices - Lists microphones, cameras and speakers for the in-call device picker
+// Refreshes when devices are plugged in or removed; labels are only filled once media permission is granted
+
+import { useState, useEffect, useCallback } from 'react';
+
+export interface MediaDeviceOption {
+  deviceId: string;
+  label: string;
+}
+
+interface MediaDeviceLists {
+  audioInputs: MediaDeviceOption[];
+  videoInputs: MediaDeviceOption[];
+  audioOutputs: MediaDeviceOption[];
+}
+
+const EMPTY_LISTS: MediaDeviceLists = { audioInputs: [], videoInputs: [], audioOutputs: [] };
+
+const FALLBACK_LABELS: Record<MediaDeviceKind, string> = {
+  audioinput: 'Microphone',
+  videoinput: 'Camera',
+  audiooutput: 'Speaker',
+};
+
+// Speaker selection needs HTMLMediaElement.setSinkId (not available in Firefox or Safari)
+export const supportsAudioOutputSelection = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+export const useMediaDevices = (enabled = true) => {
+  const [devices, setDevices] = useState<MediaDeviceLists>(EMPTY_LISTS);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const byKind = (kind: MediaDeviceKind) =>
+        all
+          .filter(d => d.kind === kind && d.deviceId)
+          .map((d, index) => ({
+            deviceId: d.deviceId,
+            label: d.label || `${FALLBACK_LABELS[kind]} ${index + 1}`,
+          }));
+
+      setDevices({
+        audioInputs: byKind('audioinput'),
+        videoInputs: byKind('videoinput'),
+        audioOutputs: byKind('audiooutput'),
+      });
+    } catch (error) {
+      console.error('[MediaDevices] Error listing devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !navigator.mediaDevices) return;
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [enabled, refresh]);
+
+  return { ...devices, refresh };
+};
+
+// Route an element's playback to the chosen speaker; null keeps the system default
+export const applyAudioOutput = async (element: HTMLMediaElement | null, deviceId: string | null) => {
+  if (!element || !deviceId || !supportsAudioOutputSelection()) return;
+  if (element.sinkId === deviceId) return;
+
+  try {
+    await element.setSinkId(deviceId);
+  } catch (error) {
+    console.error('[MediaDevices] Error setting audio output:', error);
+  }
+};
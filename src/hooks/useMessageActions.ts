@@ -1,6 +1,10 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
+import { encryptMessageContent, primeDecryptedMessage } from '@/lib/messageEncryption';
+
+export type MessageEdit = Database['public']['Tables']['message_edits']['Row'];
 
 export const useMessageActions = (conversationId?: string, currentUserId?: string) => {
   const [loading, setLoading] = useState(false);
@@ -45,6 +49,104 @@ export const useMessageActions = (conversationId?: string, currentUserId?: strin
     }
   };
 
+  // Edit the text of an own message; encrypted messages are re-encrypted for the conversation's devices
+  const editMessage = async (
+    message: { id: string; is_encrypted?: boolean | null },
+    text: string
+  ): Promise<string | null> => {
+    const trimmed = text.trim();
+    if (!conversationId || !currentUserId || !trimmed) return null;
+
+    setLoading(true);
+    try {
+      const fields = message.is_encrypted
+        ? await encryptMessageContent(conversationId, currentUserId, trimmed)
+        : { content: trimmed, is_encrypted: false, e2e_envelope: null };
+
+      const { data: editedAt, error } = await supabase.rpc('edit_message', {
+        p_message_id: message.id,
+        p_content: fields.content ?? '',
+        p_is_encrypted: fields.is_encrypted,
+        p_e2e_envelope: fields.e2e_envelope ?? undefined
+      });
+
+      if (error) throw error;
+
+      if (fields.is_encrypted) {
+        primeDecryptedMessage(message.id, trimmed, editedAt);
+      }
+      return editedAt;
+    } catch (error) {
+      console.error('Error editing message:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to edit message",
+        variant: "destructive"
+      });
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Unsend an own message for everyone; it stays in the chat as a notice
+  const unsendMessage = async (messageId: string): Promise<boolean> => {
+    if (!currentUserId) return false;
+
+    setLoading(true);
+    try {
+      const { data: objects, error } = await supabase.rpc('unsend_message', { p_message_id: messageId });
+
+      if (error) throw error;
+
+      // The files the message carried; the message is already gone, so a failure here is only logged
+      const pathsByBucket = new Map<string, string[]>();
+      (objects || []).forEach(({ bucket, path }) => {
+        pathsByBucket.set(bucket, [...(pathsByBucket.get(bucket) || []), path]);
+      });
+      await Promise.all([...pathsByBucket].map(async ([bucket, paths]) => {
+        const { error: storageError } = await supabase.storage.from(bucket).remove(paths);
+        if (storageError) {
+          console.error(`Error removing unsent message files from ${bucket}:`, storageError);
+        }
+      }));
+
+      toast({
+        title: "Message unsent",
+        description: "The message was removed for everyone"
+      });
+      return true;
+    } catch (error) {
+      console.error('Error unsending message:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to unsend message",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Earlier revisions of an edited message, oldest first
+  const getEditHistory = async (messageId: string): Promise<MessageEdit[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('message_edits')
+        .select('*')
+        .eq('message_id', messageId)
+        .order('replaced_at', { ascending: true });
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching edit history:', error);
+      return [];
+    }
+  };
+
   // Pin a message
   const pinMessage = async (messageId: string): Promise<boolean> => {
     if (!conversationId || !currentUserId) {
@@ -172,11 +274,28 @@ export const useMessageActions = (conversationId?: string, currentUserId?: strin
     }
   };
 
+  // Tell the conversation someone copied or tried to forward a vanishing message
+  const reportVanishingAction = async (messageId: string, action: 'copy' | 'forward'): Promise<void> => {
+    try {
+      const { error } = await supabase.rpc('report_vanishing_message_action', {
+        p_message_id: messageId,
+        p_action: action
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error reporting vanishing message action:', error);
+    }
+  };
+
   return {
     loading,
     deleteMessage,
+    editMessage,
+    unsendMessage,
+    getEditHistory,
     pinMessage,
     reportMessage,
-    getPinnedMessages
+    getPinnedMessages,
+    reportVanishingAction
   };
 };
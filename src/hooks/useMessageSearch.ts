@@ -0,0 +1,171 @@
+// useMessageSearch - Debounced, paginated message search within one conversation or across all of them
+// The server searches plain text and file names; encrypted messages already loaded are decrypted and matched here
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { decryptMessage, EncryptableMessage } from '@/lib/messageEncryption';
+import { getSearchTerms, matchesSearchTerms } from '@/lib/messageSearch';
+
+export const MESSAGE_SEARCH_PAGE_SIZE = 20;
+
+export interface MessageSearchResult {
+  id: string;
+  conversation_id: string;
+  conversation_type: string;
+  sender_id: string;
+  sender_username: string | null;
+  sender_display_name: string | null;
+  sender_profile_pic: string | null;
+  content: string | null;
+  is_encrypted: boolean;
+  attachment_url: string | null;
+  attachment_name: string | null;
+  created_at: string;
+}
+
+interface LoadedMessage extends EncryptableMessage {
+  sender_id: string;
+  content?: string;
+  created_at: string;
+  is_system?: boolean;
+  attachment_url?: string;
+  sender_profile?: {
+    username: string;
+    display_name: string;
+    profile_pic?: string;
+  };
+}
+
+interface UseMessageSearchOptions {
+  currentUserId?: string;
+  conversationId?: string; // search a single conversation; omit to search all of them
+  loadedMessages?: LoadedMessage[]; // messages on screen, so encrypted ones can be searched after decryption
+  debounceMs?: number;
+}
+
+const byNewest = (a: MessageSearchResult, b: MessageSearchResult) => b.created_at.localeCompare(a.created_at);
+
+export const useMessageSearch = ({
+  currentUserId,
+  conversationId,
+  loadedMessages = [],
+  debounceMs = 300,
+}: UseMessageSearchOptions) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const serverCountRef = useRef(0);
+  const requestRef = useRef(0);
+  const loadedMessagesRef = useRef(loadedMessages);
+  loadedMessagesRef.current = loadedMessages;
+
+  const fetchPage = useCallback(async (searchQuery: string, offset: number) => {
+    const { data, error } = await supabase.rpc('search_messages', {
+      p_query: searchQuery,
+      p_conversation_id: conversationId,
+      p_limit: MESSAGE_SEARCH_PAGE_SIZE,
+      p_offset: offset,
+    });
+    if (error) throw error;
+    return (data || []) as MessageSearchResult[];
+  }, [conversationId]);
+
+  // Encrypted messages never reach the server index, so match the decrypted copies we have
+  const searchEncrypted = useCallback(async (searchQuery: string): Promise<MessageSearchResult[]> => {
+    if (!currentUserId || !conversationId) return [];
+    const terms = getSearchTerms(searchQuery);
+    const encrypted = loadedMessagesRef.current.filter(m => m.is_encrypted && !m.is_system);
+
+    const matches = await Promise.all(encrypted.map(async (message) => {
+      const { text } = await decryptMessage(message, currentUserId);
+      if (!matchesSearchTerms(text, terms)) return null;
+      return {
+        id: message.id,
+        conversation_id: conversationId,
+        conversation_type: 'dm',
+        sender_id: message.sender_id,
+        sender_username: message.sender_profile?.username ?? null,
+        sender_display_name: message.sender_profile?.display_name ?? null,
+        sender_profile_pic: message.sender_profile?.profile_pic ?? null,
+        content: text,
+        is_encrypted: true,
+        attachment_url: message.attachment_url ?? null,
+        attachment_name: null,
+        created_at: message.created_at,
+      };
+    }));
+    return matches.filter((match): match is MessageSearchResult => match !== null);
+  }, [currentUserId, conversationId]);
+
+  useEffect(() => {
+    const requestId = ++requestRef.current;
+    const trimmed = query.trim();
+
+    if (!currentUserId || getSearchTerms(trimmed).length === 0) {
+      setResults([]);
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const [serverResults, localResults] = await Promise.all([
+          fetchPage(trimmed, 0),
+          searchEncrypted(trimmed),
+        ]);
+        if (requestId !== requestRef.current) return;
+
+        // An encrypted message matched by file name on the server is also matched locally by its text
+        const serverIds = new Set(serverResults.map(r => r.id));
+        serverCountRef.current = serverResults.length;
+        setResults([...serverResults, ...localResults.filter(r => !serverIds.has(r.id))].sort(byNewest));
+        setHasMore(serverResults.length === MESSAGE_SEARCH_PAGE_SIZE);
+      } catch (error) {
+        console.error('[useMessageSearch] Search failed:', error);
+        if (requestId === requestRef.current) setResults([]);
+      } finally {
+        if (requestId === requestRef.current) setLoading(false);
+      }
+    }, debounceMs);
+
+    return () => clearTimeout(timer);
+  }, [query, currentUserId, debounceMs, fetchPage, searchEncrypted]);
+
+  const loadMore = useCallback(async () => {
+    const trimmed = query.trim();
+    if (!hasMore || loadingMore || !trimmed) return;
+
+    const requestId = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(trimmed, serverCountRef.current);
+      if (requestId !== requestRef.current) return;
+
+      serverCountRef.current += page.length;
+      setResults(prev => {
+        const seen = new Set(prev.map(r => r.id));
+        return [...prev, ...page.filter(r => !seen.has(r.id))].sort(byNewest);
+      });
+      setHasMore(page.length === MESSAGE_SEARCH_PAGE_SIZE);
+    } catch (error) {
+      console.error('[useMessageSearch] Loading more results failed:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [query, hasMore, loadingMore, fetchPage]);
+
+  return {
+    query,
+    setQuery,
+    terms: getSearchTerms(query),
+    results,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+  };
+};
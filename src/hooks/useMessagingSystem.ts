@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { EncryptionUnavailableError, encryptMessageContent } from '@/lib/messageEncryption';
 
 export type MessageSystemError = {
   code: string;
@@ -93,13 +94,18 @@ export const useMessagingSystem = (currentUserId?: string) => {
           };
         }
 
+        const text = content?.trim();
+        const textFields = text
+          ? await encryptMessageContent(conversationId, currentUserId, text)
+          : { content: null };
+
         const { data, error } = await supabase
           .from('messages')
           .insert({
             conversation_id: conversationId,
             sender_id: currentUserId,
             receiver_id: receiverId,
-            content: content?.trim() || null,
+            ...textFields,
             attachment_url: mediaUrl || null
           })
           .select()
@@ -158,6 +164,12 @@ export const useMessagingSystem = (currentUserId?: string) => {
         return { success: true };
       }
     } catch (error: any) {
+      if (error instanceof EncryptionUnavailableError) {
+        return {
+          success: false,
+          error: { code: 'ENCRYPTION_UNAVAILABLE', message: error.message }
+        };
+      }
       console.error('Unexpected messaging error:', error);
       return {
         success: false,
@@ -7,9 +7,11 @@ export interface Notification {
   id: string;
   user_id: string;
   actor_id: string;
-  type: 'like' | 'comment' | 'mention' | 'follow' | 'tag' | 'share';
+  type: 'like' | 'comment' | 'mention' | 'follow' | 'tag' | 'share' | 'thread_reply';
   post_id?: string;
   comment_id?: string;
+  conversation_id?: string; // thread replies
+  message_id?: string; // the thread's root message
   message: string;
   is_read: boolean;
   created_at: string;
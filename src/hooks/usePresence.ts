@@ -0,0 +1,18 @@
+// usePresence - The current user's activity status setting, provided by PresenceProvider
+
+import { createContext, useContext } from 'react';
+
+export interface PresenceContextType {
+  showActivityStatus: boolean;
+  setShowActivityStatus: (visible: boolean) => Promise<void>;
+}
+
+export const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
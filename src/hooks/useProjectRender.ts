@@ -0,0 +1,140 @@
+// useProjectRender - Drives the offline ProjectRenderer from React
+// Tracks progress, supports cancel, and can upload the finished file as the project's output
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { uploadVideo } from '@/lib/storage';
+import { ProjectRenderer, RenderOptions, RenderProgress, RenderResult, createRenderer } from '@/lib/renderer';
+import { EditorProjectData } from '@/types/editor';
+
+const initialProgress: RenderProgress = {
+  status: 'idle',
+  frame: 0,
+  totalFrames: 0,
+  progress: 0,
+};
+
+export function useProjectRender(projectId: string | undefined) {
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<RenderProgress>(initialProgress);
+  const [result, setResult] = useState<RenderResult | null>(null);
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [outputUrl, setOutputUrl] = useState<string | null>(null);
+  const rendererRef = useRef<ProjectRenderer | null>(null);
+
+  // Revoke the object URL when it is replaced or the hook unmounts
+  useEffect(() => {
+    return () => {
+      if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    };
+  }, [downloadUrl]);
+
+  useEffect(() => {
+    return () => {
+      rendererRef.current?.cancel();
+    };
+  }, []);
+
+  const startRender = useCallback(async (
+    project: EditorProjectData,
+    options: Omit<RenderOptions, 'onProgress'> = {}
+  ): Promise<RenderResult | null> => {
+    if (rendererRef.current) {
+      console.warn('[useProjectRender] Render already in progress');
+      return null;
+    }
+
+    setError(null);
+    setResult(null);
+    setOutputUrl(null);
+    setDownloadUrl(null);
+
+    const renderer = createRenderer(project, { ...options, onProgress: setProgress });
+    rendererRef.current = renderer;
+
+    if (projectId) {
+      await supabase.from('editor_projects').update({ status: 'rendering' }).eq('id', projectId);
+    }
+
+    try {
+      const rendered = await renderer.render();
+      setResult(rendered);
+      setDownloadUrl(URL.createObjectURL(rendered.blob));
+      return rendered;
+    } catch (err) {
+      const renderError = err as Error;
+      if (renderer.getStatus() !== 'cancelled') {
+        setError(renderError);
+        if (projectId) {
+          await supabase.from('editor_projects').update({ status: 'failed' }).eq('id', projectId);
+        }
+      } else if (projectId) {
+        await supabase.from('editor_projects').update({ status: 'draft' }).eq('id', projectId);
+      }
+      return null;
+    } finally {
+      rendererRef.current = null;
+    }
+  }, [projectId]);
+
+  const cancelRender = useCallback(() => {
+    rendererRef.current?.cancel();
+  }, []);
+
+  /**
+   * Upload the rendered file and store it as the project's output_url
+   */
+  const uploadResult = useCallback(async (): Promise<string | null> => {
+    if (!result || !user || !projectId) return null;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const file = new File([result.blob], `render-${projectId}.${result.fileExtension}`, {
+        type: result.blob.type,
+      });
+      const { publicUrl } = await uploadVideo(file, user.id, { folder: 'renders' });
+
+      const { error: updateError } = await supabase
+        .from('editor_projects')
+        .update({ output_url: publicUrl, status: 'done', updated_at: new Date().toISOString() })
+        .eq('id', projectId);
+      if (updateError) throw updateError;
+
+      console.log('[useProjectRender] ✅ Render uploaded:', publicUrl);
+      setOutputUrl(publicUrl);
+      return publicUrl;
+    } catch (err) {
+      console.error('[useProjectRender] ❌ Upload failed:', err);
+      setError(err as Error);
+      return null;
+    } finally {
+      setIsUploading(false);
+    }
+  }, [result, user, projectId]);
+
+  const reset = useCallback(() => {
+    setProgress(initialProgress);
+    setResult(null);
+    setDownloadUrl(null);
+    setError(null);
+    setOutputUrl(null);
+  }, []);
+
+  return {
+    progress,
+    result,
+    downloadUrl,
+    error,
+    isRendering: !!rendererRef.current || ['preparing', 'mixing', 'rendering', 'finalizing'].includes(progress.status),
+    isUploading,
+    outputUrl,
+    startRender,
+    cancelRender,
+    uploadResult,
+    reset,
+  };
+}
@@ -0,0 +1,131 @@
+// useProjectVersions - Server-side versions of an editor project
+// Named versions are kept until deleted; automatic checkpoints are pruned to the newest few. Also refreshes the project thumbnail
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import {
+  SavedProjectJson,
+  describeDiff,
+  diffProjects,
+  getPrunableCheckpoints,
+} from '@/lib/projectVersions';
+
+const THUMBNAIL_BUCKET = 'editor_thumbnails';
+const FETCH_LIMIT = 50;
+
+export type ProjectVersion = Tables<'editor_project_versions'>;
+
+interface CreateVersionOptions {
+  name?: string;
+  auto?: boolean;
+}
+
+export function useProjectVersions(projectId?: string) {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<ProjectVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    if (!projectId) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('editor_project_versions')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(FETCH_LIMIT);
+
+      if (error) throw error;
+      setVersions(data || []);
+    } catch (err) {
+      console.error('[useProjectVersions] Error fetching versions:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const createVersion = useCallback(async (
+    projectJson: SavedProjectJson,
+    { name, auto = false }: CreateVersionOptions = {}
+  ): Promise<ProjectVersion | null> => {
+    if (!projectId || !user) return null;
+    try {
+      // Each version records what changed since the one before it
+      const previous = versions[0];
+      const summary = previous
+        ? describeDiff(diffProjects(previous.project_json as SavedProjectJson, projectJson))
+        : 'First version';
+      if (auto && summary === 'No changes') return null;
+
+      const { data, error } = await supabase
+        .from('editor_project_versions')
+        .insert({
+          project_id: projectId,
+          owner_id: user.id,
+          name: name?.trim() || null,
+          is_auto: auto,
+          summary,
+          project_json: projectJson as unknown as Json,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      console.log(`[useProjectVersions] ✅ ${auto ? 'Checkpoint' : 'Version'} saved: ${summary}`);
+
+      const next = [data, ...versions];
+      const prunable = getPrunableCheckpoints(next);
+      if (prunable.length) {
+        const { error: pruneError } = await supabase.from('editor_project_versions').delete().in('id', prunable);
+        if (pruneError) console.warn('[useProjectVersions] Old checkpoints not pruned:', pruneError);
+      }
+      setVersions(next.filter(version => !prunable.includes(version.id)));
+      return data;
+    } catch (err) {
+      console.error('[useProjectVersions] ❌ Version save failed:', err);
+      if (!auto) toast({ title: 'Could not save version', variant: 'destructive' });
+      return null;
+    }
+  }, [projectId, user, versions]);
+
+  const deleteVersion = useCallback(async (versionId: string) => {
+    const { error } = await supabase.from('editor_project_versions').delete().eq('id', versionId);
+    if (error) {
+      console.error('[useProjectVersions] ❌ Delete failed:', error);
+      toast({ title: 'Could not delete version', variant: 'destructive' });
+      return;
+    }
+    setVersions(prev => prev.filter(version => version.id !== versionId));
+  }, []);
+
+  // One thumbnail per project, overwritten in place; the query string busts cached copies
+  const updateThumbnail = useCallback(async (thumbnail: Blob) => {
+    if (!projectId || !user) return;
+    try {
+      const path = `${user.id}/${projectId}.jpg`;
+      const { error: uploadError } = await supabase.storage
+        .from(THUMBNAIL_BUCKET)
+        .upload(path, thumbnail, { contentType: 'image/jpeg', upsert: true });
+      if (uploadError) throw uploadError;
+
+      const { publicUrl } = supabase.storage.from(THUMBNAIL_BUCKET).getPublicUrl(path).data;
+      const { error } = await supabase
+        .from('editor_projects')
+        .update({ thumbnail_url: `${publicUrl}?v=${Date.now()}` })
+        .eq('id', projectId);
+      if (error) throw error;
+    } catch (err) {
+      console.warn('[useProjectVersions] Thumbnail not updated:', err);
+    }
+  }, [projectId, user]);
+
+  return { versions, loading, createVersion, deleteVersion, updateThumbnail, refetch: fetchVersions };
+}
@@ -0,0 +1,168 @@
+// useThreads - Group chat threads: one open thread with live replies, and unread counts per thread
+// Replies are marked read while their thread is open; the main chat never marks them read
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Message } from '@/components/messages/MessageBubble';
+import { mergeThreadReply } from '@/lib/threads';
+
+const THREAD_MESSAGE_COLUMNS = 'id, conversation_id, sender_id, content, created_at, is_system, edited_at, unsent_at, thread_id, thread_reply_count, thread_last_reply_at, attachment_url, attachment_name, image_url, media_url, is_image, message_type, sender_profile:profiles!messages_sender_id_fkey(username, display_name, profile_pic)';
+
+export type ThreadMessage = Message & { conversation_id: string };
+
+export const useThread = (threadId: string | null | undefined, currentUserId: string | undefined, onRead?: () => void) => {
+  const [root, setRoot] = useState<ThreadMessage | null>(null);
+  const [replies, setReplies] = useState<ThreadMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const { toast } = useToast();
+  const onReadRef = useRef(onRead);
+  onReadRef.current = onRead;
+
+  const markRead = useCallback(async () => {
+    if (!threadId) return;
+    const { error } = await supabase.rpc('mark_thread_read', { p_thread_id: threadId });
+    if (error) {
+      console.error('[Thread] Error marking thread read:', error);
+      return;
+    }
+    onReadRef.current?.();
+  }, [threadId]);
+
+  useEffect(() => {
+    if (!threadId) return;
+    let cancelled = false;
+
+    const loadThread = async () => {
+      setLoading(true);
+      const [rootResult, repliesResult] = await Promise.all([
+        supabase.from('messages').select(THREAD_MESSAGE_COLUMNS).eq('id', threadId).maybeSingle(),
+        supabase.from('messages').select(THREAD_MESSAGE_COLUMNS).eq('thread_id', threadId).order('created_at', { ascending: true }),
+      ]);
+      if (cancelled) return;
+
+      if (rootResult.error || repliesResult.error) {
+        console.error('[Thread] Error loading thread:', rootResult.error || repliesResult.error);
+      }
+      setRoot(rootResult.data as ThreadMessage | null);
+      setReplies((repliesResult.data || []) as ThreadMessage[]);
+      setLoading(false);
+      markRead();
+    };
+    loadThread();
+
+    const channel = supabase
+      .channel(`thread-${threadId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `thread_id=eq.${threadId}` },
+        async (payload) => {
+          // Fetch again for the sender's profile
+          const { data } = await supabase
+            .from('messages')
+            .select(THREAD_MESSAGE_COLUMNS)
+            .eq('id', payload.new.id)
+            .single();
+          if (!data || cancelled) return;
+
+          setReplies(prev => mergeThreadReply(prev, data as ThreadMessage));
+          if (data.sender_id !== currentUserId) markRead();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `thread_id=eq.${threadId}` },
+        (payload) => {
+          const changes = payload.new as ThreadMessage;
+          setReplies(prev => prev.some(r => r.id === changes.id) ? mergeThreadReply(prev, changes) : prev);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `id=eq.${threadId}` },
+        (payload) => {
+          setRoot(prev => prev ? { ...prev, ...(payload.new as ThreadMessage), sender_profile: prev.sender_profile } : prev);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload) => {
+          setReplies(prev => prev.filter(r => r.id !== payload.old.id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      setRoot(null);
+      setReplies([]);
+      supabase.removeChannel(channel);
+    };
+  }, [threadId, currentUserId, markRead]);
+
+  const sendReply = async (text: string) => {
+    if (!threadId || !root || !currentUserId || !text.trim()) return false;
+
+    setSending(true);
+    const { data, error } = await supabase
+      .from('messages')
+      .insert({
+        conversation_id: root.conversation_id,
+        sender_id: currentUserId,
+        content: text.trim(),
+        message_type: 'text',
+        thread_id: threadId,
+      })
+      .select(THREAD_MESSAGE_COLUMNS)
+      .single();
+    setSending(false);
+
+    if (error) {
+      console.error('[Thread] Error sending reply:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to send reply',
+        variant: 'destructive'
+      });
+      return false;
+    }
+
+    setReplies(prev => mergeThreadReply(prev, data as ThreadMessage));
+    return true;
+  };
+
+  return { root, replies, loading, sending, sendReply };
+};
+
+/**
+ * Unread replies per thread root, for the threads the current user takes part in.
+ * Refetches whenever `activityKey` changes, e.g. the latest thread reply time in the chat
+ */
+export const useThreadUnreadCounts = (conversationId: string | undefined, enabled: boolean, activityKey?: string) => {
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  const refresh = useCallback(async () => {
+    if (!conversationId || !enabled) {
+      setUnreadCounts({});
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_thread_unread_counts', {
+      p_conversation_id: conversationId,
+    });
+
+    if (error) {
+      console.error('[Thread] Error fetching thread unread counts:', error);
+      return;
+    }
+    setUnreadCounts(Object.fromEntries((data || []).map(row => [row.thread_id, Number(row.unread_count)])));
+  }, [conversationId, enabled]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, activityKey]);
+
+  return { unreadCounts, refresh };
+};
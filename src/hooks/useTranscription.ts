@@ -0,0 +1,125 @@
+// useTranscription - Starts and polls transcribe-audio jobs
+// Jobs are persisted server-side, so a failed job can be retried by id without re-uploading
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Transcript } from '@/types/editor';
+
+export type TranscriptionStatus = 'idle' | 'processing' | 'completed' | 'failed';
+
+interface TranscriptionRequest {
+  audioUrl: string;
+  audioTrackId?: string;
+  projectId?: string;
+  language?: string;
+}
+
+interface TranscriptionJobResponse {
+  jobId: string;
+  status: 'processing' | 'completed' | 'failed';
+  attempts?: number;
+  transcript?: Transcript | null;
+  error?: string | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLLS = 150; // ~5 minutes; long audio with retries can take a while
+
+export function useTranscription(onCompleted: (transcript: Transcript) => void) {
+  const [status, setStatus] = useState<TranscriptionStatus>('idle');
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onCompletedRef = useRef(onCompleted);
+  onCompletedRef.current = onCompleted;
+
+  const stopPolling = useCallback(() => {
+    if (pollTimerRef.current) {
+      clearTimeout(pollTimerRef.current);
+      pollTimerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => stopPolling, [stopPolling]);
+
+  const handleJobResponse = useCallback((data: TranscriptionJobResponse): boolean => {
+    if (data.status === 'completed' && data.transcript) {
+      setStatus('completed');
+      onCompletedRef.current(data.transcript);
+      return true;
+    }
+    if (data.status === 'failed') {
+      setStatus('failed');
+      setError(data.error || 'Transcription failed');
+      return true;
+    }
+    return false;
+  }, []);
+
+  const poll = useCallback((id: string, attempt = 1) => {
+    pollTimerRef.current = setTimeout(async () => {
+      if (attempt > MAX_POLLS) {
+        setStatus('failed');
+        setError('Transcription is taking too long. Please try again.');
+        return;
+      }
+
+      try {
+        const { data, error: invokeError } = await supabase.functions.invoke('transcribe-audio', {
+          body: { jobId: id },
+        });
+        if (invokeError) throw invokeError;
+        if (handleJobResponse(data)) return;
+      } catch (err) {
+        // Network blips should not kill a job that is still running server-side
+        console.error('[useTranscription] Polling error:', err);
+      }
+      poll(id, attempt + 1);
+    }, POLL_INTERVAL_MS);
+  }, [handleJobResponse]);
+
+  const invoke = useCallback(async (body: Record<string, unknown>): Promise<boolean> => {
+    stopPolling();
+    setStatus('processing');
+    setError(null);
+
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('transcribe-audio', { body });
+      if (invokeError) throw invokeError;
+      if (data?.error) throw new Error(data.error);
+
+      setJobId(data.jobId);
+      if (!handleJobResponse(data)) {
+        poll(data.jobId);
+      }
+      return true;
+    } catch (err) {
+      console.error('[useTranscription] ❌ Request failed:', err);
+      setStatus('failed');
+      setError((err as Error).message || 'Transcription failed');
+      return false;
+    }
+  }, [handleJobResponse, poll, stopPolling]);
+
+  const start = useCallback((request: TranscriptionRequest) => {
+    console.log('[useTranscription] Starting transcription for:', request.audioUrl);
+    return invoke({ ...request });
+  }, [invoke]);
+
+  /**
+   * Re-queue the last failed job on the server
+   */
+  const retry = useCallback(() => {
+    if (!jobId) return Promise.resolve(false);
+    return invoke({ jobId, retry: true });
+  }, [invoke, jobId]);
+
+  return {
+    status,
+    jobId,
+    error,
+    isProcessing: status === 'processing',
+    start,
+    retry,
+  };
+}
@@ -0,0 +1,65 @@
+// useTypingIndicator - Per-conversation presence channel carrying who is typing
+// The channel is private; realtime policies only let the conversation's participants join it
+// Typing is cleared after a few idle seconds, on send, and when the channel closes, so it never sticks
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { getTypingUserIds, PresenceEntry, TYPING_IDLE_MS } from '@/lib/presence';
+
+export const useTypingIndicator = (conversationId: string | undefined, userId: string | undefined) => {
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingRef = useRef(false);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+
+  const track = useCallback(async (typing: boolean) => {
+    if (typingRef.current === typing) return;
+    typingRef.current = typing;
+    if (!channelRef.current || !userId) return;
+
+    try {
+      await channelRef.current.track({ userId, typing } satisfies PresenceEntry);
+    } catch (error) {
+      console.error('[TypingIndicator] Error updating typing state:', error);
+    }
+  }, [userId]);
+
+  // Call on every keystroke with whether the draft has text; idle drafts stop counting as typing
+  const setTyping = useCallback((typing: boolean) => {
+    clearTimeout(idleTimerRef.current);
+    if (typing) {
+      idleTimerRef.current = setTimeout(() => track(false), TYPING_IDLE_MS);
+    }
+    track(typing);
+  }, [track]);
+
+  useEffect(() => {
+    if (!conversationId || !userId) return;
+
+    const channel = supabase.channel(`conversation-presence:${conversationId}`, {
+      config: { private: true, presence: { key: userId } },
+    });
+    channelRef.current = channel;
+    typingRef.current = false;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setTypingUserIds(getTypingUserIds(channel.presenceState<PresenceEntry>(), userId));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ userId, typing: false } satisfies PresenceEntry);
+        }
+      });
+
+    return () => {
+      clearTimeout(idleTimerRef.current);
+      channelRef.current = null;
+      setTypingUserIds([]);
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, userId]);
+
+  return { typingUserIds, setTyping };
+};
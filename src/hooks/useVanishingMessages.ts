@@ -0,0 +1,21 @@
+// useVanishingMessages - Hides vanishing messages the moment their clock runs out
+// The purge job deletes them server-side within a minute; this keeps them off screen until then
+
+import { useEffect, useMemo, useState } from 'react';
+import { filterExpiredMessages, getNextExpiry } from '@/lib/vanishing';
+
+const MAX_TIMER_MS = 2 ** 31 - 1; // setTimeout's limit
+
+export function useVanishingMessages<T extends { expires_at?: string | null }>(messages: T[]): T[] {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-render at the next expiry rather than ticking
+  useEffect(() => {
+    const next = getNextExpiry(messages, now);
+    if (next === null) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_MS));
+    return () => clearTimeout(timer);
+  }, [messages, now]);
+
+  return useMemo(() => filterExpiredMessages(messages, Math.max(now, Date.now())), [messages, now]);
+}
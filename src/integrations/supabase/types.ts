@@ -346,6 +346,8 @@ export type Database = {
           ended_at: string | null
           id: string
           receiver_id: string
+          recording_message_id: string | null
+          recording_path: string | null
           started_at: string
           status: string
         }
@@ -357,6 +359,8 @@ export type Database = {
           ended_at?: string | null
           id?: string
           receiver_id: string
+          recording_message_id?: string | null
+          recording_path?: string | null
           started_at?: string
           status: string
         }
@@ -368,6 +372,8 @@ export type Database = {
           ended_at?: string | null
           id?: string
           receiver_id?: string
+          recording_message_id?: string | null
+          recording_path?: string | null
           started_at?: string
           status?: string
         }
@@ -386,6 +392,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "call_history_recording_message_id_fkey"
+            columns: ["recording_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       colleges: {
@@ -760,6 +773,119 @@ export type Database = {
           },
         ]
       }
+      data_export_jobs: {
+        Row: {
+          categories: string[]
+          completed_at: string | null
+          created_at: string
+          current_step: string | null
+          date_from: string | null
+          date_to: string | null
+          error: string | null
+          expires_at: string | null
+          file_path: string | null
+          file_size: number | null
+          id: string
+          progress: number
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          categories?: string[]
+          completed_at?: string | null
+          created_at?: string
+          current_step?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          error?: string | null
+          expires_at?: string | null
+          file_path?: string | null
+          file_size?: number | null
+          id?: string
+          progress?: number
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          categories?: string[]
+          completed_at?: string | null
+          created_at?: string
+          current_step?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          error?: string | null
+          expires_at?: string | null
+          file_path?: string | null
+          file_size?: number | null
+          id?: string
+          progress?: number
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_export_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      editor_project_versions: {
+        Row: {
+          created_at: string
+          id: string
+          is_auto: boolean
+          name: string | null
+          owner_id: string
+          project_id: string
+          project_json: Json
+          summary: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_auto?: boolean
+          name?: string | null
+          owner_id: string
+          project_id: string
+          project_json?: Json
+          summary?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_auto?: boolean
+          name?: string | null
+          owner_id?: string
+          project_id?: string
+          project_json?: Json
+          summary?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "editor_project_versions_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "editor_project_versions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "editor_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       editor_projects: {
         Row: {
           created_at: string
@@ -768,6 +894,7 @@ export type Database = {
           owner_id: string
           project_json: Json
           status: string
+          thumbnail_url: string | null
           title: string
           updated_at: string
         }
@@ -778,6 +905,7 @@ export type Database = {
           owner_id: string
           project_json?: Json
           status?: string
+          thumbnail_url?: string | null
           title?: string
           updated_at?: string
         }
@@ -788,6 +916,7 @@ export type Database = {
           owner_id?: string
           project_json?: Json
           status?: string
+          thumbnail_url?: string | null
           title?: string
           updated_at?: string
         }
@@ -801,11 +930,62 @@ export type Database = {
           },
         ]
       }
+      editor_templates: {
+        Row: {
+          created_at: string
+          description: string | null
+          duration: number
+          id: string
+          is_public: boolean
+          name: string
+          placeholder_count: number
+          template_data: Json
+          thumbnail_url: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          duration?: number
+          id?: string
+          is_public?: boolean
+          name: string
+          placeholder_count?: number
+          template_data?: Json
+          thumbnail_url?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          duration?: number
+          id?: string
+          is_public?: boolean
+          name?: string
+          placeholder_count?: number
+          template_data?: Json
+          thumbnail_url?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "editor_templates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       encryption_verifications: {
         Row: {
           conversation_id: string
           created_at: string
           id: string
+          safety_number: string | null
           status: string
           verified_at: string
           verified_by: string
@@ -814,6 +994,7 @@ export type Database = {
           conversation_id: string
           created_at?: string
           id?: string
+          safety_number?: string | null
           status?: string
           verified_at?: string
           verified_by: string
@@ -822,6 +1003,7 @@ export type Database = {
           conversation_id?: string
           created_at?: string
           id?: string
+          safety_number?: string | null
           status?: string
           verified_at?: string
           verified_by?: string
@@ -888,6 +1070,44 @@ export type Database = {
           },
         ]
       }
+      filter_luts: {
+        Row: {
+          created_at: string
+          file_path: string
+          id: string
+          name: string
+          size: number
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_path: string
+          id?: string
+          name: string
+          size: number
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          file_path?: string
+          id?: string
+          name?: string
+          size?: number
+          url?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "filter_luts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       followers: {
         Row: {
           created_at: string | null
@@ -1366,10 +1586,52 @@ export type Database = {
           },
         ]
       }
+      live_comments: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          live_id: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          live_id: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          live_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "live_comments_live_id_fkey"
+            columns: ["live_id"]
+            isOneToOne: false
+            referencedRelation: "lives"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "live_comments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lives: {
         Row: {
           ended_at: string | null
+          heartbeat_at: string
           id: string
+          peak_viewers: number
+          replay_post_id: string | null
           started_at: string
           stream_url: string | null
           title: string
@@ -1377,7 +1639,10 @@ export type Database = {
         }
         Insert: {
           ended_at?: string | null
+          heartbeat_at?: string
           id?: string
+          peak_viewers?: number
+          replay_post_id?: string | null
           started_at?: string
           stream_url?: string | null
           title: string
@@ -1385,13 +1650,23 @@ export type Database = {
         }
         Update: {
           ended_at?: string | null
+          heartbeat_at?: string
           id?: string
+          peak_viewers?: number
+          replay_post_id?: string | null
           started_at?: string
           stream_url?: string | null
           title?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "lives_replay_post_id_fkey"
+            columns: ["replay_post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "lives_user_id_fkey"
             columns: ["user_id"]
@@ -1508,6 +1783,64 @@ export type Database = {
           },
         ]
       }
+      message_edits: {
+        Row: {
+          content: string | null
+          conversation_id: string
+          created_at: string
+          e2e_envelope: Json | null
+          id: string
+          is_encrypted: boolean
+          message_id: string
+          replaced_at: string
+          sender_id: string
+        }
+        Insert: {
+          content?: string | null
+          conversation_id: string
+          created_at: string
+          e2e_envelope?: Json | null
+          id?: string
+          is_encrypted?: boolean
+          message_id: string
+          replaced_at?: string
+          sender_id: string
+        }
+        Update: {
+          content?: string | null
+          conversation_id?: string
+          created_at?: string
+          e2e_envelope?: Json | null
+          id?: string
+          is_encrypted?: boolean
+          message_id?: string
+          replaced_at?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_edits_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_reactions: {
         Row: {
           created_at: string
@@ -1681,6 +2014,7 @@ export type Database = {
       }
       messages: {
         Row: {
+          attachment_name: string | null
           attachment_url: string | null
           audio_duration: number | null
           audio_mime: string | null
@@ -1690,10 +2024,15 @@ export type Database = {
           content: string | null
           conversation_id: string | null
           created_at: string
+          e2e_envelope: Json | null
+          edited_at: string | null
+          expires_at: string | null
+          expires_in: number | null
           gif_id: string | null
           gif_url: string | null
           id: string
           image_url: string | null
+          is_encrypted: boolean
           is_gif: boolean | null
           is_image: boolean | null
           is_sticker: boolean | null
@@ -1702,13 +2041,20 @@ export type Database = {
           message_type: Database["public"]["Enums"]["message_type_enum"] | null
           read: boolean
           receiver_id: string | null
+          recording_path: string | null
           reply_to_id: string | null
+          search_vector: unknown
           sender_id: string
           sticker_id: string | null
           sticker_set: string | null
           sticker_url: string | null
+          thread_id: string | null
+          thread_last_reply_at: string | null
+          thread_reply_count: number
+          unsent_at: string | null
         }
         Insert: {
+          attachment_name?: string | null
           attachment_url?: string | null
           audio_duration?: number | null
           audio_mime?: string | null
@@ -1718,10 +2064,15 @@ export type Database = {
           content?: string | null
           conversation_id?: string | null
           created_at?: string
+          e2e_envelope?: Json | null
+          edited_at?: string | null
+          expires_at?: string | null
+          expires_in?: number | null
           gif_id?: string | null
           gif_url?: string | null
           id?: string
           image_url?: string | null
+          is_encrypted?: boolean
           is_gif?: boolean | null
           is_image?: boolean | null
           is_sticker?: boolean | null
@@ -1730,13 +2081,20 @@ export type Database = {
           message_type?: Database["public"]["Enums"]["message_type_enum"] | null
           read?: boolean
           receiver_id?: string | null
+          recording_path?: string | null
           reply_to_id?: string | null
+          search_vector?: unknown
           sender_id: string
           sticker_id?: string | null
           sticker_set?: string | null
           sticker_url?: string | null
+          thread_id?: string | null
+          thread_last_reply_at?: string | null
+          thread_reply_count?: number
+          unsent_at?: string | null
         }
         Update: {
+          attachment_name?: string | null
           attachment_url?: string | null
           audio_duration?: number | null
           audio_mime?: string | null
@@ -1746,10 +2104,15 @@ export type Database = {
           content?: string | null
           conversation_id?: string | null
           created_at?: string
+          e2e_envelope?: Json | null
+          edited_at?: string | null
+          expires_at?: string | null
+          expires_in?: number | null
           gif_id?: string | null
           gif_url?: string | null
           id?: string
           image_url?: string | null
+          is_encrypted?: boolean
           is_gif?: boolean | null
           is_image?: boolean | null
           is_sticker?: boolean | null
@@ -1758,11 +2121,17 @@ export type Database = {
           message_type?: Database["public"]["Enums"]["message_type_enum"] | null
           read?: boolean
           receiver_id?: string | null
+          recording_path?: string | null
           reply_to_id?: string | null
+          search_vector?: unknown
           sender_id?: string
           sticker_id?: string | null
           sticker_set?: string | null
           sticker_url?: string | null
+          thread_id?: string | null
+          thread_last_reply_at?: string | null
+          thread_reply_count?: number
+          unsent_at?: string | null
         }
         Relationships: [
           {
@@ -1798,6 +2167,8 @@ export type Database = {
       music_library: {
         Row: {
           artist: string | null
+          beat_times: Json | null
+          bpm: number | null
           created_at: string
           created_by: string | null
           duration: number | null
@@ -1811,9 +2182,13 @@ export type Database = {
           url: string
           usage_count: number
           video_id: string | null
+          waveform_peaks: Json | null
+          waveform_rate: number | null
         }
         Insert: {
           artist?: string | null
+          beat_times?: Json | null
+          bpm?: number | null
           created_at?: string
           created_by?: string | null
           duration?: number | null
@@ -1827,9 +2202,13 @@ export type Database = {
           url: string
           usage_count?: number
           video_id?: string | null
+          waveform_peaks?: Json | null
+          waveform_rate?: number | null
         }
         Update: {
           artist?: string | null
+          beat_times?: Json | null
+          bpm?: number | null
           created_at?: string
           created_by?: string | null
           duration?: number | null
@@ -1843,6 +2222,8 @@ export type Database = {
           url?: string
           usage_count?: number
           video_id?: string | null
+          waveform_peaks?: Json | null
+          waveform_rate?: number | null
         }
         Relationships: []
       }
@@ -1873,6 +2254,13 @@ export type Database = {
             referencedRelation: "music_library"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       muted_users: {
@@ -1900,10 +2288,12 @@ export type Database = {
         Row: {
           actor_id: string
           comment_id: string | null
+          conversation_id: string | null
           created_at: string
           id: string
           is_read: boolean
           message: string
+          message_id: string | null
           post_id: string | null
           type: string
           user_id: string
@@ -1911,10 +2301,12 @@ export type Database = {
         Insert: {
           actor_id: string
           comment_id?: string | null
+          conversation_id?: string | null
           created_at?: string
           id?: string
           is_read?: boolean
           message: string
+          message_id?: string | null
           post_id?: string | null
           type: string
           user_id: string
@@ -1922,10 +2314,12 @@ export type Database = {
         Update: {
           actor_id?: string
           comment_id?: string | null
+          conversation_id?: string | null
           created_at?: string
           id?: string
           is_read?: boolean
           message?: string
+          message_id?: string | null
           post_id?: string | null
           type?: string
           user_id?: string
@@ -1938,6 +2332,20 @@ export type Database = {
             referencedRelation: "comments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notifications_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notifications_post_id_fkey"
             columns: ["post_id"]
@@ -3728,6 +4136,84 @@ export type Database = {
         }
         Relationships: []
       }
+      transcription_jobs: {
+        Row: {
+          attempts: number
+          audio_track_id: string
+          audio_url: string
+          backend: string | null
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          language: string | null
+          max_attempts: number
+          next_attempt_at: string | null
+          owner_id: string
+          project_id: string | null
+          requested_language: string | null
+          result: Json | null
+          started_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          audio_track_id: string
+          audio_url: string
+          backend?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          language?: string | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          owner_id: string
+          project_id?: string | null
+          requested_language?: string | null
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          audio_track_id?: string
+          audio_url?: string
+          backend?: string | null
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          language?: string | null
+          max_attempts?: number
+          next_attempt_at?: string | null
+          owner_id?: string
+          project_id?: string | null
+          requested_language?: string | null
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_jobs_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transcription_jobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "editor_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_activity: {
         Row: {
           created_at: string
@@ -3759,6 +4245,7 @@ export type Database = {
           hex_key: string
           id: string
           last_seen_at: string
+          revoked_at: string | null
           updated_at: string
           user_id: string
         }
@@ -3768,6 +4255,7 @@ export type Database = {
           hex_key: string
           id?: string
           last_seen_at?: string
+          revoked_at?: string | null
           updated_at?: string
           user_id: string
         }
@@ -3777,6 +4265,7 @@ export type Database = {
           hex_key?: string
           id?: string
           last_seen_at?: string
+          revoked_at?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -3817,6 +4306,29 @@ export type Database = {
         }
         Relationships: []
       }
+      user_presence: {
+        Row: {
+          last_active_at: string
+          user_id: string
+        }
+        Insert: {
+          last_active_at?: string
+          user_id: string
+        }
+        Update: {
+          last_active_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_presence_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       hashtag_analytics: {
@@ -3867,6 +4379,14 @@ export type Database = {
             }
             Returns: undefined
           }
+      attach_call_recording: {
+        Args: {
+          p_message_id: string
+          p_other_user_id: string
+          p_recording_started_at: string
+        }
+        Returns: string
+      }
       can_see_content: {
         Args: {
           p_content_id: string
@@ -3910,9 +4430,22 @@ export type Database = {
         Args: { receiver_id: string; sender_id: string }
         Returns: Database["public"]["Enums"]["message_request_category"]
       }
+      edit_message: {
+        Args: {
+          p_content: string
+          p_e2e_envelope?: Json
+          p_is_encrypted?: boolean
+          p_message_id: string
+        }
+        Returns: string
+      }
+      format_vanishing_duration: {
+        Args: { p_seconds: number }
+        Returns: string
+      }
       get_blocked_user_ids: { Args: { p_user_id: string }; Returns: string[] }
       get_call_history: {
-        Args: { p_limit?: number; p_user_id: string }
+        Args: { p_limit?: number }
         Returns: {
           call_type: string
           duration_seconds: number
@@ -3922,6 +4455,7 @@ export type Database = {
           other_user_id: string
           other_user_profile_pic: string
           other_user_username: string
+          recording_path: string
           started_at: string
           status: string
         }[]
@@ -3948,6 +4482,13 @@ export type Database = {
       }
       get_hidden_content_ids: { Args: { p_user_id: string }; Returns: string[] }
       get_hidden_profile_ids: { Args: { p_user_id: string }; Returns: string[] }
+      get_last_active: {
+        Args: { p_user_ids: string[] }
+        Returns: {
+          last_active_at: string
+          user_id: string
+        }[]
+      }
       get_music_library_with_stats: {
         Args: { p_limit?: number; p_offset?: number }
         Returns: Json
@@ -3993,6 +4534,13 @@ export type Database = {
           username: string
         }[]
       }
+      get_thread_unread_counts: {
+        Args: { p_conversation_id: string }
+        Returns: {
+          thread_id: string
+          unread_count: number
+        }[]
+      }
       get_trending_music: { Args: { p_limit?: number }; Returns: Json }
       get_unread_count: {
         Args: { p_conversation_id: string; p_user_id?: string }
@@ -4036,10 +4584,97 @@ export type Database = {
         Args: { p_conversation_id: string }
         Returns: undefined
       }
+      mark_thread_read: { Args: { p_thread_id: string }; Returns: undefined }
+      message_attachment_name: {
+        Args: { p_name: string; p_url: string }
+        Returns: string
+      }
+      message_search_query: { Args: { p_query: string }; Returns: unknown }
+      message_search_text: { Args: { p_text: string }; Returns: string }
+      refresh_thread_counters: {
+        Args: { p_thread_id: string }
+        Returns: undefined
+      }
+      report_vanishing_message_action: {
+        Args: { p_action: string; p_message_id: string }
+        Returns: undefined
+      }
+      save_music_analysis: {
+        Args: {
+          p_beats: Json
+          p_bpm?: number
+          p_peaks: Json
+          p_rate: number
+          p_url: string
+        }
+        Returns: boolean
+      }
+      search_messages: {
+        Args: {
+          p_conversation_id?: string
+          p_limit?: number
+          p_offset?: number
+          p_query: string
+        }
+        Returns: {
+          attachment_name: string
+          attachment_url: string
+          content: string
+          conversation_id: string
+          conversation_type: string
+          created_at: string
+          id: string
+          is_encrypted: boolean
+          sender_display_name: string
+          sender_id: string
+          sender_profile_pic: string
+          sender_username: string
+        }[]
+      }
+      set_vanishing_messages: {
+        Args: {
+          p_conversation_id: string
+          p_duration?: number
+          p_enabled: boolean
+        }
+        Returns: {
+          chat_theme: string
+          conversation_id: string
+          created_at: string
+          id: string
+          is_muted: boolean
+          messaging_controls: Json | null
+          quick_emoji: string | null
+          read_receipts_enabled: boolean
+          updated_at: string
+          user_id: string
+          vanishing_messages_duration: number | null
+          vanishing_messages_enabled: boolean
+        }
+        SetofOptions: {
+          from: "*"
+          to: "conversation_settings"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      shows_activity_status: { Args: { p_user_id: string }; Returns: boolean }
+      thread_participant_ids: {
+        Args: { p_thread_id: string }
+        Returns: string[]
+      }
       toggle_reel_like: {
         Args: { p_reel_id: string; p_user_id: string }
         Returns: Json
       }
+      touch_last_active: { Args: never; Returns: undefined }
+      unsend_message: {
+        Args: { p_message_id: string }
+        Returns: {
+          bucket: string
+          path: string
+        }[]
+      }
       update_conversation_quick_emoji: {
         Args: { p_conversation_id: string; p_quick_emoji: string }
         Returns: Json
@@ -4107,7 +4742,7 @@ export type Database = {
       }
       update_music_trending_status: { Args: never; Returns: undefined }
       verify_conversation_encryption: {
-        Args: { p_conversation_id: string }
+        Args: { p_conversation_id: string; p_safety_number?: string }
         Returns: Json
       }
     }
@@ -344,6 +344,23 @@ export class AudioEngine {
     return track ? Math.round(track.volume * 100) : 100;
   }
 
+  hasTrack(trackId: string): boolean {
+    return this.tracks.has(trackId);
+  }
+
+  /**
+   * Drive a track's gain (0-1.5) from the mix - called every frame during playback,
+   * so it glides to the new value instead of stepping and doesn't log
+   */
+  setTrackGain(trackId: string, gain: number): void {
+    const track = this.tracks.get(trackId);
+    if (!track || !this.audioContext) return;
+
+    const gainValue = Math.max(0, Math.min(1.5, gain));
+    track.gainNode.gain.setTargetAtTime(gainValue, this.audioContext.currentTime, 0.02);
+    track.volume = gainValue;
+  }
+
   /**
    * Update effect for a track (legacy API, maps to setTrackVolume for 'volume' effect)
    */
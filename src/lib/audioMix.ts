@@ -0,0 +1,151 @@
+// Audio mix - per-track gain over time for multi-track audio
+// Fades, volume envelopes and ducking of music under voiceover; shared by preview playback and the renderer
+
+import { AudioDucking, AudioTrack, AudioTrackRole, VolumePoint, defaultAudioDucking } from '@/types/editor';
+
+export const AUDIO_TRACK_ROLES: { id: AudioTrackRole; label: string }[] = [
+  { id: 'music', label: 'Music' },
+  { id: 'voiceover', label: 'Voice' },
+  { id: 'sfx', label: 'SFX' },
+];
+
+// Envelope points closer than this are treated as the same point
+export const ENVELOPE_TIME_EPSILON = 0.05;
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function getAudioTrackRole(track: Pick<AudioTrack, 'role' | 'sourceType'>): AudioTrackRole {
+  return track.role ?? (track.sourceType === 'recorded' ? 'voiceover' : 'music');
+}
+
+export function getTrackEnd(track: Pick<AudioTrack, 'startAt' | 'endAt' | 'duration'>): number {
+  return track.endAt || track.startAt + track.duration;
+}
+
+/**
+ * Fade multiplier (0-1) at a timeline time; 0 outside the track
+ */
+export function getFadeGainAt(track: AudioTrack, time: number): number {
+  const end = getTrackEnd(track);
+  if (time < track.startAt || time > end) return 0;
+
+  let gain = 1;
+  if (track.fadeIn && track.fadeIn > 0) gain = Math.min(gain, (time - track.startAt) / track.fadeIn);
+  if (track.fadeOut && track.fadeOut > 0) gain = Math.min(gain, (end - time) / track.fadeOut);
+  return clamp(gain, 0, 1);
+}
+
+/**
+ * Envelope multiplier at a time relative to the track start
+ * Linear between points, held flat before the first and after the last; 1 with no envelope
+ */
+export function getEnvelopeGainAt(points: VolumePoint[] | undefined, localTime: number): number {
+  if (!points?.length) return 1;
+  const sorted = [...points].sort((a, b) => a.time - b.time);
+  if (localTime <= sorted[0].time) return sorted[0].gain;
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const a = sorted[i];
+    const b = sorted[i + 1];
+    if (localTime <= b.time) {
+      const span = b.time - a.time;
+      return span > 0 ? a.gain + (b.gain - a.gain) * (localTime - a.time) / span : b.gain;
+    }
+  }
+  return sorted[sorted.length - 1].gain;
+}
+
+/**
+ * Add a point, replacing one already at (nearly) the same time
+ */
+export function upsertEnvelopePoint(points: VolumePoint[] | undefined, point: VolumePoint): VolumePoint[] {
+  const next = { time: Math.max(0, point.time), gain: clamp(point.gain, 0, 1) };
+  return [...(points ?? []).filter(p => Math.abs(p.time - next.time) > ENVELOPE_TIME_EPSILON), next]
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Merged time ranges where an unmuted voiceover track is playing
+ */
+export function getDuckingRanges(tracks: AudioTrack[]): TimeRange[] {
+  const ranges = tracks
+    .filter(track => !track.muted && track.volume > 0 && getAudioTrackRole(track) === 'voiceover')
+    .map(track => ({ start: track.startAt, end: getTrackEnd(track) }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Multiplier for a ducked track - ramps down over `attack` before each range and back up over `release` after it
+ */
+export function getDuckGainAt(ranges: TimeRange[], time: number, ducking: AudioDucking = defaultAudioDucking): number {
+  if (!ducking.enabled || ducking.amount <= 0) return 1;
+
+  let depth = 0;
+  for (const range of ranges) {
+    if (time >= range.start && time <= range.end) {
+      depth = 1;
+      break;
+    }
+    if (time < range.start && ducking.attack > 0) {
+      depth = Math.max(depth, 1 - (range.start - time) / ducking.attack);
+    } else if (time > range.end && ducking.release > 0) {
+      depth = Math.max(depth, 1 - (time - range.end) / ducking.release);
+    }
+  }
+  return 1 - clamp(ducking.amount, 0, 1) * clamp(depth, 0, 1);
+}
+
+/**
+ * Everything that shapes a track's level at a timeline time, excluding its volume
+ * Only music tracks duck; pass the ranges from getDuckingRanges for the whole mix
+ */
+export function getTrackGainAt(
+  track: AudioTrack,
+  time: number,
+  duckingRanges: TimeRange[] = [],
+  ducking?: AudioDucking
+): number {
+  const fade = getFadeGainAt(track, time);
+  if (fade === 0) return 0;
+
+  const envelope = getEnvelopeGainAt(track.volumeEnvelope, time - track.startAt);
+  const duck = getAudioTrackRole(track) === 'music' ? getDuckGainAt(duckingRanges, time, ducking) : 1;
+  return fade * envelope * duck;
+}
+
+/**
+ * Track gain sampled at a fixed rate between two timeline times, for AudioParam.setValueCurveAtTime
+ */
+export function sampleTrackGain(
+  track: AudioTrack,
+  from: number,
+  to: number,
+  sampleRate: number,
+  duckingRanges: TimeRange[] = [],
+  ducking?: AudioDucking
+): Float32Array {
+  const count = Math.max(2, Math.ceil((to - from) * sampleRate) + 1);
+  const curve = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const time = from + (to - from) * i / (count - 1);
+    // Hold the edge value at the track bounds so the curve doesn't click to zero on the first/last sample
+    curve[i] = getTrackGainAt(track, clamp(time, track.startAt + 1e-3, getTrackEnd(track) - 1e-3), duckingRanges, ducking);
+  }
+  return curve;
+}
@@ -0,0 +1,210 @@
+// Beats - Onset and beat detection for audio tracks
+// Energy flux: onsets are flux peaks, tempo comes from the flux autocorrelation, beats are a phase-fitted grid
+
+import { AudioAnalysis, AudioTrack } from '@/types/editor';
+
+// Analysis frame step and window in samples (~23ms / ~46ms at 22050Hz)
+const HOP_SIZE = 512;
+const WINDOW_SIZE = 1024;
+
+// Onset picking: a flux peak must clear the local mean by this factor, and onsets sit at least this far apart
+const ONSET_THRESHOLD = 1.5;
+const ONSET_MIN_GAP = 0.1; // seconds
+const ONSET_MEAN_WINDOW = 0.5; // seconds either side
+
+// Tempo search range; the prior gently favours tempos near 120 BPM to settle half/double ambiguity
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+const PRIOR_BPM = 120;
+
+// Grid beats move onto an onset this close to them
+const BEAT_ONSET_TOLERANCE = 0.06; // seconds
+
+// Clip cuts land on a beat this close to the playhead
+export const BEAT_SNAP_TOLERANCE = 0.15; // seconds
+
+export interface OnsetEnvelope {
+  flux: number[];
+  frameRate: number; // frames per second
+}
+
+export interface BeatDetection {
+  beats: number[]; // seconds from the start of the audio
+  bpm: number | null;
+}
+
+/**
+ * Half-wave rectified change in log energy per frame
+ */
+export function computeOnsetEnvelope(samples: Float32Array, sampleRate: number): OnsetEnvelope {
+  const frameCount = Math.max(0, Math.floor((samples.length - WINDOW_SIZE) / HOP_SIZE) + 1);
+  const energy = new Array<number>(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const from = frame * HOP_SIZE;
+    let sum = 0;
+    for (let i = from; i < from + WINDOW_SIZE; i++) {
+      sum += samples[i] * samples[i];
+    }
+    energy[frame] = Math.log1p(100 * Math.sqrt(sum / WINDOW_SIZE));
+  }
+
+  const flux = energy.map((value, frame) => frame === 0 ? 0 : Math.max(0, value - energy[frame - 1]));
+  return { flux, frameRate: sampleRate / HOP_SIZE };
+}
+
+/**
+ * Local flux maxima that clear an adaptive threshold, in seconds
+ */
+export function detectOnsets({ flux, frameRate }: OnsetEnvelope): number[] {
+  const meanRadius = Math.max(1, Math.round(ONSET_MEAN_WINDOW * frameRate));
+  const minGap = ONSET_MIN_GAP * frameRate;
+  const onsets: number[] = [];
+  let lastFrame = -Infinity;
+
+  for (let frame = 1; frame < flux.length - 1; frame++) {
+    const value = flux[frame];
+    if (value <= 0 || value < flux[frame - 1] || value < flux[frame + 1]) continue;
+
+    const from = Math.max(0, frame - meanRadius);
+    const to = Math.min(flux.length, frame + meanRadius + 1);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += flux[i];
+    const mean = sum / (to - from);
+
+    if (value > mean * ONSET_THRESHOLD && frame - lastFrame >= minGap) {
+      onsets.push(frame / frameRate);
+      lastFrame = frame;
+    }
+  }
+
+  return onsets;
+}
+
+/**
+ * Beat period in frames from the flux autocorrelation, or null when nothing repeats
+ */
+export function estimateBeatPeriod({ flux, frameRate }: OnsetEnvelope): number | null {
+  const minLag = Math.floor((60 / MAX_BPM) * frameRate);
+  const maxLag = Math.ceil((60 / MIN_BPM) * frameRate);
+  // Need a couple of periods to call it a tempo
+  if (flux.length < maxLag * 2) return null;
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < flux.length; i++) {
+      sum += flux[i] * flux[i - lag];
+    }
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * Math.log2(bpm / PRIOR_BPM) ** 2);
+    const score = (sum / (flux.length - lag)) * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag === 0) return null;
+
+  // Parabolic interpolation around the best lag for a sub-frame period
+  const scoreAt = (lag: number) => {
+    let sum = 0;
+    for (let i = lag; i < flux.length; i++) sum += flux[i] * flux[i - lag];
+    return sum / (flux.length - lag);
+  };
+  const left = scoreAt(bestLag - 1);
+  const center = scoreAt(bestLag);
+  const right = scoreAt(bestLag + 1);
+  const denominator = left - 2 * center + right;
+  const offset = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denominator)) : 0;
+
+  return bestLag + offset;
+}
+
+/**
+ * Beat times for decoded mono audio
+ * Without a steady tempo the onsets themselves are the beats
+ */
+export function detectBeats(samples: Float32Array, sampleRate: number): BeatDetection {
+  const envelope = computeOnsetEnvelope(samples, sampleRate);
+  const onsets = detectOnsets(envelope);
+  const period = estimateBeatPeriod(envelope);
+
+  if (!period) {
+    return { beats: onsets, bpm: null };
+  }
+
+  // Grid phase that lands on the most flux
+  const { flux, frameRate } = envelope;
+  let bestPhase = 0;
+  let bestScore = -1;
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let frame = phase; frame < flux.length; frame += period) {
+      score += flux[Math.round(frame)] ?? 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  const beats: number[] = [];
+  for (let frame = bestPhase; frame < flux.length; frame += period) {
+    const time = frame / frameRate;
+    const onset = findNearest(onsets, time);
+    beats.push(onset !== null && Math.abs(onset - time) <= BEAT_ONSET_TOLERANCE ? onset : time);
+  }
+
+  return {
+    beats: beats.map(time => Math.round(time * 1000) / 1000),
+    bpm: Math.round(((60 * frameRate) / period) * 10) / 10,
+  };
+}
+
+/**
+ * Closest value in an ascending list, or null if it is empty
+ */
+function findNearest(sorted: number[], time: number): number | null {
+  if (sorted.length === 0) return null;
+  let low = 0;
+  let high = sorted.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < time) low = mid + 1;
+    else high = mid;
+  }
+  const after = sorted[low];
+  const before = sorted[low - 1];
+  return before !== undefined && time - before < after - time ? before : after;
+}
+
+/**
+ * Beat markers on the timeline for a track - source beats shifted to startAt, scaled by playback speed, trimmed to the clip
+ */
+export function getTimelineBeats(track: AudioTrack, sourceBeats: number[]): number[] {
+  const speed = track.effects?.speed ?? 1;
+  return sourceBeats
+    .map(beat => track.startAt + beat / speed)
+    .filter(time => time >= track.startAt && time <= track.endAt);
+}
+
+/**
+ * Ascending beat markers from every unmuted, analysed track
+ */
+export function collectTimelineBeats(tracks: AudioTrack[], analyses: Record<string, AudioAnalysis>): number[] {
+  return tracks
+    .filter(track => !track.muted && analyses[track.id])
+    .flatMap(track => getTimelineBeats(track, analyses[track.id].beats))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Move a time onto the nearest beat when one is within tolerance (seconds) - beats must be ascending
+ */
+export function snapToBeat(time: number, beats: number[], tolerance: number): number {
+  const nearest = findNearest(beats, time);
+  return nearest !== null && Math.abs(nearest - time) <= tolerance ? nearest : time;
+}
@@ -0,0 +1,208 @@
+// Call recording - mixes both sides of a 1:1 call into a single MediaRecorder file
+// Audio is mixed through Web Audio; video calls are composited side by side on a canvas
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+const COMPOSITE_WIDTH = 1280;
+const COMPOSITE_HEIGHT = 720;
+const COMPOSITE_FPS = 30;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VideoSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * First container the browser can record, preferring webm (Chrome/Firefox) over mp4 (Safari)
+ */
+export function pickRecordingMimeType(
+  withVideo: boolean,
+  isTypeSupported: (mimeType: string) => boolean
+): string | null {
+  const candidates = withVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES;
+  return candidates.find(type => isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Download name, e.g. call-with-alice-2026-03-24-1430.webm
+ */
+export function getRecordingFileName(otherName: string, startedAt: Date, mimeType: string): string {
+  const slug = otherName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'call';
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const stamp = `${startedAt.getFullYear()}-${pad(startedAt.getMonth() + 1)}-${pad(startedAt.getDate())}-${pad(startedAt.getHours())}${pad(startedAt.getMinutes())}`;
+  const extension = mimeType.startsWith('video/mp4') || mimeType.startsWith('audio/mp4') ? 'mp4' : 'webm';
+  return `call-with-${slug}-${stamp}.${extension}`;
+}
+
+/**
+ * Fit a video into a box without cropping, centred (letterboxed)
+ */
+export function fitContain(source: VideoSize, box: Rect): Rect {
+  if (!source.width || !source.height) return { ...box };
+
+  const scale = Math.min(box.width / source.width, box.height / source.height);
+  const width = source.width * scale;
+  const height = source.height * scale;
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Left/right halves of the composite frame, each video letterboxed into its half
+ */
+export function getSideBySideLayout(local: VideoSize, remote: VideoSize, frame: VideoSize): { local: Rect; remote: Rect } {
+  const half = frame.width / 2;
+  return {
+    local: fitContain(local, { x: 0, y: 0, width: half, height: frame.height }),
+    remote: fitContain(remote, { x: half, y: 0, width: half, height: frame.height }),
+  };
+}
+
+interface CallRecorderOptions {
+  localStream: MediaStream;
+  remoteStream: MediaStream;
+  withVideo: boolean;
+}
+
+export interface CallRecordingResult {
+  blob: Blob;
+  mimeType: string;
+  durationSeconds: number;
+}
+
+/**
+ * Records a call until stop() is called (or the call's streams end)
+ */
+export class CallRecorder {
+  private audioContext: AudioContext | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private videoElements: HTMLVideoElement[] = [];
+  private startedAt = 0;
+  private mimeType: string;
+
+  constructor(private options: CallRecorderOptions) {
+    const mimeType = pickRecordingMimeType(options.withVideo, type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      throw new Error('Recording is not supported in this browser');
+    }
+    this.mimeType = mimeType;
+  }
+
+  start() {
+    const tracks = [...this.mixAudio()];
+    if (this.options.withVideo) {
+      tracks.push(...this.compositeVideo());
+    }
+
+    this.recorder = new MediaRecorder(new MediaStream(tracks), { mimeType: this.mimeType });
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start(1000);
+    this.startedAt = Date.now();
+    console.log('[CallRecorder] Recording started:', this.mimeType);
+  }
+
+  stop(): Promise<CallRecordingResult> {
+    return new Promise((resolve, reject) => {
+      const recorder = this.recorder;
+      if (!recorder || recorder.state === 'inactive') {
+        this.release();
+        reject(new Error('Recorder is not running'));
+        return;
+      }
+
+      recorder.onstop = () => {
+        const durationSeconds = Math.round((Date.now() - this.startedAt) / 1000);
+        const blob = new Blob(this.chunks, { type: this.mimeType });
+        this.release();
+        console.log('[CallRecorder] Recording stopped:', durationSeconds, 's,', blob.size, 'bytes');
+        resolve({ blob, mimeType: this.mimeType, durationSeconds });
+      };
+      recorder.stop();
+    });
+  }
+
+  // Both voices into one track - MediaRecorder only records the first audio track it is given
+  private mixAudio(): MediaStreamTrack[] {
+    this.audioContext = new AudioContext();
+    const destination = this.audioContext.createMediaStreamDestination();
+
+    [this.options.localStream, this.options.remoteStream].forEach((stream) => {
+      const audioTracks = stream.getAudioTracks();
+      if (audioTracks.length === 0) return;
+      this.audioContext!.createMediaStreamSource(new MediaStream(audioTracks)).connect(destination);
+    });
+
+    return destination.stream.getAudioTracks();
+  }
+
+  private compositeVideo(): MediaStreamTrack[] {
+    const canvas = document.createElement('canvas');
+    canvas.width = COMPOSITE_WIDTH;
+    canvas.height = COMPOSITE_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return [];
+
+    const [localVideo, remoteVideo] = [this.options.localStream, this.options.remoteStream].map((stream) => {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = stream;
+      video.play().catch(() => {});
+      return video;
+    });
+    this.videoElements = [localVideo, remoteVideo];
+
+    const draw = () => {
+      const frame = { width: canvas.width, height: canvas.height };
+      const layout = getSideBySideLayout(
+        { width: localVideo.videoWidth, height: localVideo.videoHeight },
+        { width: remoteVideo.videoWidth, height: remoteVideo.videoHeight },
+        frame
+      );
+
+      ctx.fillStyle = '#111827';
+      ctx.fillRect(0, 0, frame.width, frame.height);
+      if (localVideo.videoWidth) {
+        ctx.drawImage(localVideo, layout.local.x, layout.local.y, layout.local.width, layout.local.height);
+      }
+      if (remoteVideo.videoWidth) {
+        ctx.drawImage(remoteVideo, layout.remote.x, layout.remote.y, layout.remote.width, layout.remote.height);
+      }
+    };
+
+    // A timer rather than requestAnimationFrame, so the recording keeps going in a background tab
+    this.drawTimer = setInterval(draw, 1000 / COMPOSITE_FPS);
+    return canvas.captureStream(COMPOSITE_FPS).getVideoTracks();
+  }
+
+  private release() {
+    if (this.drawTimer) {
+      clearInterval(this.drawTimer);
+      this.drawTimer = null;
+    }
+    this.videoElements.forEach((video) => {
+      video.srcObject = null;
+    });
+    this.videoElements = [];
+    this.audioContext?.close();
+    this.audioContext = null;
+    this.recorder = null;
+    this.chunks = [];
+  }
+}
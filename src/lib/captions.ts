@@ -0,0 +1,380 @@
+// Caption generator - turns transcript segments into timed, styled text layers
+// Splits segments into readable lines, applies a style preset, places captions inside the
+// platform safe area and keeps them linked to their segment so transcript edits flow through
+
+import {
+  CaptionLink,
+  EditorSettings,
+  TextAnimation,
+  TextLayer,
+  TextStyle,
+  Transcript,
+  TranscriptSegment,
+  TranscriptWord,
+  defaultTextStyle,
+} from '@/types/editor';
+
+export interface CaptionStylePreset {
+  id: string;
+  name: string;
+  style: TextStyle;
+  animation: TextAnimation;
+}
+
+export const CAPTION_PRESETS: CaptionStylePreset[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    style: {
+      ...defaultTextStyle,
+      fontSize: 18,
+      fontWeight: 600,
+      backgroundColor: 'rgba(0,0,0,0.75)',
+      color: '#ffffff',
+    },
+    animation: { type: 'none', duration: 0 },
+  },
+  {
+    id: 'bold',
+    name: 'Bold Pop',
+    style: {
+      ...defaultTextStyle,
+      fontSize: 22,
+      fontWeight: 800,
+      textTransform: 'uppercase',
+      color: '#ffffff',
+      outline: { color: '#000000', width: 2 },
+    },
+    animation: { type: 'pop', duration: 0.2 },
+  },
+  {
+    id: 'karaoke',
+    name: 'Karaoke',
+    style: {
+      ...defaultTextStyle,
+      fontSize: 22,
+      fontWeight: 800,
+      color: '#ffffff',
+      shadow: { color: 'rgba(0,0,0,0.8)', blur: 6, offsetX: 0, offsetY: 2 },
+    },
+    animation: { type: 'karaoke', duration: 0, highlightColor: '#facc15' },
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    style: {
+      ...defaultTextStyle,
+      fontSize: 16,
+      fontWeight: 500,
+      color: '#ffffff',
+      shadow: { color: 'rgba(0,0,0,0.6)', blur: 4, offsetX: 0, offsetY: 1 },
+    },
+    animation: { type: 'fade', duration: 0.15 },
+  },
+];
+
+/**
+ * Insets (in canvas pixels) kept clear of platform UI on a 1080x1920 canvas
+ * Bottom is the largest because of captions bars, like/comment buttons and the description
+ */
+export interface SafeArea {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export const CAPTION_SAFE_AREA: SafeArea = {
+  top: 250,
+  bottom: 480,
+  left: 60,
+  right: 120,
+};
+
+export interface CaptionOptions {
+  presetId: string;
+  maxCharsPerLine: number;
+  maxLineDuration: number; // seconds
+  safeArea: SafeArea;
+}
+
+export const defaultCaptionOptions: CaptionOptions = {
+  presetId: 'classic',
+  maxCharsPerLine: 32,
+  maxLineDuration: 3,
+  safeArea: CAPTION_SAFE_AREA,
+};
+
+export interface CaptionLine {
+  text: string;
+  start: number;
+  end: number;
+  words: TranscriptWord[];
+}
+
+export function getCaptionPreset(presetId: string): CaptionStylePreset {
+  return CAPTION_PRESETS.find(p => p.id === presetId) ?? CAPTION_PRESETS[0];
+}
+
+/**
+ * Word timings for a segment
+ * Falls back to spreading the segment duration by character count when the recognizer gave none
+ * (or when the segment text was edited and no longer matches its words)
+ */
+export function getSegmentWords(segment: TranscriptSegment): TranscriptWord[] {
+  const tokens = segment.text.split(/\s+/).filter(Boolean);
+  if (segment.words && segment.words.length === tokens.length) {
+    return segment.words;
+  }
+
+  const totalChars = tokens.reduce((sum, t) => sum + t.length, 0) || 1;
+  const duration = Math.max(0, segment.end - segment.start);
+  let cursor = segment.start;
+  return tokens.map(text => {
+    const wordDuration = duration * (text.length / totalChars);
+    const word = { text, start: cursor, end: cursor + wordDuration };
+    cursor += wordDuration;
+    return word;
+  });
+}
+
+const SENTENCE_END = /[.!?…]$/;
+
+/**
+ * Greedily pack words into lines that respect both the character and the duration limit
+ * A line also closes after sentence-ending punctuation once it is at least half full
+ */
+export function splitSegmentIntoLines(
+  segment: TranscriptSegment,
+  options: Pick<CaptionOptions, 'maxCharsPerLine' | 'maxLineDuration'>
+): CaptionLine[] {
+  const words = getSegmentWords(segment);
+  const lines: CaptionLine[] = [];
+  let current: TranscriptWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    lines.push({
+      text: current.map(w => w.text).join(' '),
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      words: current,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    if (current.length > 0) {
+      const length = current.map(w => w.text).join(' ').length + 1 + word.text.length;
+      const duration = word.end - current[0].start;
+      if (length > options.maxCharsPerLine || duration > options.maxLineDuration) {
+        flush();
+      }
+    }
+    current.push(word);
+
+    const length = current.map(w => w.text).join(' ').length;
+    if (SENTENCE_END.test(word.text) && length >= options.maxCharsPerLine / 2) {
+      flush();
+    }
+  }
+  flush();
+
+  // Close gaps between consecutive lines so captions do not flicker off between words
+  for (let i = 0; i < lines.length - 1; i++) {
+    lines[i].end = Math.max(lines[i].end, lines[i + 1].start);
+  }
+  if (lines.length > 0) {
+    lines[lines.length - 1].end = Math.max(lines[lines.length - 1].end, segment.end);
+  }
+
+  return lines;
+}
+
+/**
+ * Caption anchor in layer coordinates (percent of the canvas)
+ * Text layers are centered on their position, so the anchor sits half a line above the bottom inset
+ */
+export function getCaptionPosition(
+  resolution: EditorSettings['resolution'],
+  style: TextStyle,
+  safeArea: SafeArea = CAPTION_SAFE_AREA
+): { x: number; y: number } {
+  const centerX = safeArea.left + (resolution.width - safeArea.left - safeArea.right) / 2;
+  // fontSize is in preview pixels (PREVIEW_REFERENCE_WIDTH in the renderer), scale it to the canvas
+  const lineHeight = style.fontSize * (style.lineHeight || 1.2) * (resolution.width / 360);
+  const centerY = resolution.height - safeArea.bottom - lineHeight / 2;
+
+  return {
+    x: Math.round((centerX / resolution.width) * 1000) / 10,
+    y: Math.round((centerY / resolution.height) * 1000) / 10,
+  };
+}
+
+let captionIdCounter = 0;
+
+export function createCaptionId(): string {
+  captionIdCounter += 1;
+  return `caption-${Date.now()}-${captionIdCounter}`;
+}
+
+interface CaptionLayerTemplate {
+  position: TextLayer['position'];
+  scale: number;
+  rotation: number;
+  style: TextStyle;
+  animation: TextAnimation;
+}
+
+function buildSegmentLayers(
+  transcriptId: string,
+  segment: TranscriptSegment,
+  template: CaptionLayerTemplate,
+  options: Pick<CaptionOptions, 'maxCharsPerLine' | 'maxLineDuration'>,
+  createId: () => string
+): TextLayer[] {
+  return splitSegmentIntoLines(segment, options).map((line, lineIndex) => {
+    const caption: CaptionLink = {
+      transcriptId,
+      segmentId: segment.id,
+      lineIndex,
+      words: line.words,
+      limits: { maxCharsPerLine: options.maxCharsPerLine, maxLineDuration: options.maxLineDuration },
+    };
+    return {
+      id: createId(),
+      type: 'text',
+      content: line.text,
+      start: line.start,
+      end: line.end,
+      position: { ...template.position },
+      scale: template.scale,
+      rotation: template.rotation,
+      style: { ...template.style },
+      animation: { ...template.animation },
+      caption,
+    };
+  });
+}
+
+/**
+ * Generate one text layer per caption line for a whole transcript
+ */
+export function generateCaptionLayers(
+  transcript: Transcript,
+  settings: Pick<EditorSettings, 'resolution'>,
+  options: Partial<CaptionOptions> = {},
+  createId: () => string = createCaptionId
+): TextLayer[] {
+  const resolved = { ...defaultCaptionOptions, ...options };
+  const preset = getCaptionPreset(resolved.presetId);
+  const template: CaptionLayerTemplate = {
+    position: getCaptionPosition(settings.resolution, preset.style, resolved.safeArea),
+    scale: 1,
+    rotation: 0,
+    style: preset.style,
+    animation: preset.animation,
+  };
+
+  return [...transcript.segments]
+    .sort((a, b) => a.start - b.start)
+    .flatMap(segment => buildSegmentLayers(transcript.id, segment, template, resolved, createId));
+}
+
+export function isCaptionOf(layer: TextLayer, transcriptId: string): boolean {
+  return layer.caption?.transcriptId === transcriptId;
+}
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Re-derive linked caption layers after the transcript changed
+ * Segments whose text no longer matches their captions are re-split, keeping the look
+ * (style, animation, position) and line limits of the segment's first caption; captions of deleted
+ * segments are removed. options only applies to captions that don't carry their limits
+ * Returns the same array when nothing changed
+ */
+export function syncCaptionLayers(
+  textLayers: TextLayer[],
+  transcript: Transcript,
+  options: Pick<CaptionOptions, 'maxCharsPerLine' | 'maxLineDuration'> = defaultCaptionOptions,
+  createId: () => string = createCaptionId
+): TextLayer[] {
+  const linked = textLayers.filter(layer => isCaptionOf(layer, transcript.id));
+  if (linked.length === 0) return textLayers;
+
+  const segmentsById = new Map(transcript.segments.map(segment => [segment.id, segment]));
+  const bySegment = new Map<string, TextLayer[]>();
+  linked.forEach(layer => {
+    const list = bySegment.get(layer.caption!.segmentId) ?? [];
+    list.push(layer);
+    bySegment.set(layer.caption!.segmentId, list);
+  });
+
+  const replacements = new Map<string, TextLayer[]>();
+  let changed = false;
+
+  bySegment.forEach((layers, segmentId) => {
+    const segment = segmentsById.get(segmentId);
+    if (!segment) {
+      replacements.set(segmentId, []);
+      changed = true;
+      return;
+    }
+
+    const ordered = [...layers].sort((a, b) => a.caption!.lineIndex - b.caption!.lineIndex);
+    const captionText = normalizeText(ordered.map(l => l.content).join(' '));
+    if (captionText === normalizeText(segment.text)) return;
+
+    const first = ordered[0];
+    replacements.set(segmentId, buildSegmentLayers(transcript.id, segment, {
+      position: first.position,
+      scale: first.scale,
+      rotation: first.rotation,
+      style: first.style,
+      animation: first.animation ?? { type: 'none', duration: 0 },
+    }, first.caption!.limits ?? options, createId));
+    changed = true;
+  });
+
+  if (!changed) return textLayers;
+
+  // Put each segment's new layers where its first old layer was to keep stacking order stable
+  const result: TextLayer[] = [];
+  const emitted = new Set<string>();
+  textLayers.forEach(layer => {
+    const segmentId = isCaptionOf(layer, transcript.id) ? layer.caption!.segmentId : null;
+    if (!segmentId || !replacements.has(segmentId)) {
+      result.push(layer);
+      return;
+    }
+    if (!emitted.has(segmentId)) {
+      emitted.add(segmentId);
+      result.push(...replacements.get(segmentId)!);
+    }
+  });
+  return result;
+}
+
+/**
+ * Index of the word being spoken for a karaoke caption, -1 before the first word
+ * Words already spoken stay highlighted
+ */
+export function getKaraokeWordIndex(layer: TextLayer, time: number): number {
+  const words = layer.caption?.words;
+  if (!words || words.length === 0) return -1;
+
+  let index = -1;
+  for (let i = 0; i < words.length; i++) {
+    if (time >= words[i].start) index = i;
+  }
+  return index;
+}
+
+/**
+ * Karaoke only applies while the caption text still lines up word-for-word with its timings
+ */
+export function hasKaraokeWords(layer: TextLayer): boolean {
+  if (layer.animation?.type !== 'karaoke' || !layer.caption) return false;
+  return layer.content.split(/\s+/).filter(Boolean).length === layer.caption.words.length;
+}
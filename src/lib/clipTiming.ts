@@ -0,0 +1,203 @@
+// Clip timing - maps between timeline time and source media time for video clips
+// Accounts for the clip's in-point, constant speed and speed ramps; shared by the player, renderer and timeline
+
+import { SpeedPoint, VideoLayer } from '@/types/editor';
+
+export const MIN_CLIP_SPEED = 0.1;
+export const MAX_CLIP_SPEED = 10;
+export const CLIP_SPEED_OPTIONS = [0.25, 0.5, 1, 1.5, 2, 3, 4];
+
+// Neither half of a split can be shorter than this on the timeline
+export const MIN_SPLIT_LENGTH = 0.1;
+
+export const SPEED_CURVE_PRESETS: { id: string; label: string; points: SpeedPoint[] }[] = [
+  { id: 'montage', label: 'Montage', points: [{ position: 0, speed: 1 }, { position: 0.25, speed: 3 }, { position: 0.5, speed: 0.6 }, { position: 0.75, speed: 3 }, { position: 1, speed: 1 }] },
+  { id: 'hero', label: 'Hero', points: [{ position: 0, speed: 2 }, { position: 0.4, speed: 2 }, { position: 0.5, speed: 0.3 }, { position: 0.6, speed: 2 }, { position: 1, speed: 2 }] },
+  { id: 'bullet', label: 'Bullet', points: [{ position: 0, speed: 3 }, { position: 0.45, speed: 0.4 }, { position: 0.55, speed: 0.4 }, { position: 1, speed: 3 }] },
+  { id: 'flash-in', label: 'Flash in', points: [{ position: 0, speed: 4 }, { position: 0.3, speed: 1 }, { position: 1, speed: 1 }] },
+  { id: 'flash-out', label: 'Flash out', points: [{ position: 0, speed: 1 }, { position: 0.7, speed: 1 }, { position: 1, speed: 4 }] },
+  { id: 'ramp-up', label: 'Speed up', points: [{ position: 0, speed: 0.5 }, { position: 1, speed: 3 }] },
+];
+
+type TimedClip = Pick<VideoLayer, 'start' | 'end' | 'duration' | 'sourceStart' | 'speed' | 'speedCurve'>;
+
+const clampSpeed = (speed: number | undefined) => Math.max(MIN_CLIP_SPEED, Math.min(MAX_CLIP_SPEED, speed || 1));
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Seconds of source media the clip plays - same fallback VideoPlayer has always used
+ */
+export function getSourceDuration(clip: TimedClip): number {
+  return clip.duration || (clip.end - clip.start) || 5;
+}
+
+// Sorted ramp with points at both ends, or null for a constant-speed clip
+const getCurve = (clip: TimedClip): SpeedPoint[] | null => {
+  if (!clip.speedCurve?.length) return null;
+  const points = clip.speedCurve
+    .map(point => ({ position: clamp(point.position, 0, 1), speed: clampSpeed(point.speed) }))
+    .sort((a, b) => a.position - b.position);
+  if (points[0].position > 0) points.unshift({ position: 0, speed: points[0].speed });
+  if (points[points.length - 1].position < 1) points.push({ position: 1, speed: points[points.length - 1].speed });
+  return points;
+};
+
+const curveSpeedAt = (points: SpeedPoint[], position: number): number => {
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (position <= b.position) {
+      const span = b.position - a.position;
+      return span > 0 ? a.speed + (b.speed - a.speed) * (position - a.position) / span : b.speed;
+    }
+  }
+  return points[points.length - 1].speed;
+};
+
+// Area under the ramp from 0 to `position` - source consumed per unit of timeline length
+const curveArea = (points: SpeedPoint[], position: number): number => {
+  let area = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    if (position <= a.position) break;
+    const end = Math.min(position, points[i + 1].position);
+    area += (end - a.position) * (a.speed + curveSpeedAt(points, end)) / 2;
+  }
+  return area;
+};
+
+/**
+ * Average rate over the clip - source duration divided by this is the clip's length on the timeline
+ */
+export function getMeanSpeed(clip: TimedClip): number {
+  const curve = getCurve(clip);
+  return curve ? curveArea(curve, 1) : clampSpeed(clip.speed);
+}
+
+/**
+ * Length of the clip on the timeline
+ */
+export function getTimelineDuration(clip: TimedClip): number {
+  return getSourceDuration(clip) / getMeanSpeed(clip);
+}
+
+/**
+ * Playback rate at a time within the clip (seconds from its timeline start)
+ */
+export function getSpeedAt(clip: TimedClip, localTime: number): number {
+  const curve = getCurve(clip);
+  if (!curve) return clampSpeed(clip.speed);
+  return curveSpeedAt(curve, clamp(localTime / getTimelineDuration(clip), 0, 1));
+}
+
+/**
+ * Seconds of source played after `localTime` seconds of the clip on the timeline
+ */
+export function timelineToSourceOffset(clip: TimedClip, localTime: number): number {
+  const length = getTimelineDuration(clip);
+  const time = clamp(localTime, 0, length);
+  const curve = getCurve(clip);
+  if (!curve) return time * clampSpeed(clip.speed);
+  return curveArea(curve, time / length) * length;
+}
+
+/**
+ * Inverse of timelineToSourceOffset
+ */
+export function sourceOffsetToTimeline(clip: TimedClip, sourceOffset: number): number {
+  const length = getTimelineDuration(clip);
+  const offset = clamp(sourceOffset, 0, getSourceDuration(clip));
+  const curve = getCurve(clip);
+  if (!curve) return offset / clampSpeed(clip.speed);
+
+  // Walk the ramp segment by segment, then solve v0·x + k·x²/2 = remaining inside the segment
+  let remaining = offset / length;
+  for (let i = 0; i < curve.length - 1; i++) {
+    const a = curve[i];
+    const b = curve[i + 1];
+    const span = b.position - a.position;
+    const area = span * (a.speed + b.speed) / 2;
+    if (remaining > area && i < curve.length - 2) {
+      remaining -= area;
+      continue;
+    }
+    const k = span > 0 ? (b.speed - a.speed) / span : 0;
+    const x = Math.abs(k) < 1e-9
+      ? remaining / a.speed
+      : (-a.speed + Math.sqrt(Math.max(0, a.speed * a.speed + 2 * k * remaining))) / k;
+    return (a.position + clamp(x, 0, span)) * length;
+  }
+  return length;
+}
+
+/**
+ * Source media time to show `localTime` seconds into the clip
+ */
+export function getSourceTime(clip: TimedClip, localTime: number): number {
+  return (clip.sourceStart || 0) + timelineToSourceOffset(clip, localTime);
+}
+
+/**
+ * Time within the clip on the timeline for a source media time
+ */
+export function getClipLocalTime(clip: TimedClip, sourceTime: number): number {
+  return sourceOffsetToTimeline(clip, sourceTime - (clip.sourceStart || 0));
+}
+
+/**
+ * Source time at which the clip's last frame plays
+ */
+export function getSourceEnd(clip: TimedClip): number {
+  return (clip.sourceStart || 0) + getSourceDuration(clip);
+}
+
+/**
+ * Short badge for the timeline, null at normal speed
+ */
+export function getClipSpeedLabel(clip: TimedClip): string | null {
+  if (clip.speedCurve?.length) return 'Curve';
+  const speed = clampSpeed(clip.speed);
+  return speed === 1 ? null : `${Number(speed.toFixed(2))}x`;
+}
+
+// Part of a ramp between two positions, stretched back over 0-1
+const sliceCurve = (points: SpeedPoint[], from: number, to: number): SpeedPoint[] => {
+  const inner = points.filter(point => point.position > from && point.position < to);
+  return [
+    { position: from, speed: curveSpeedAt(points, from) },
+    ...inner,
+    { position: to, speed: curveSpeedAt(points, to) },
+  ].map(point => ({ position: (point.position - from) / (to - from), speed: point.speed }));
+};
+
+/**
+ * Cut a clip in two at `localTime` seconds into it
+ * The second half continues the source where the first stops and keeps the clip's outgoing transition
+ */
+export function splitVideoClip(clip: VideoLayer, localTime: number, newId: string): [VideoLayer, VideoLayer] | null {
+  const length = getTimelineDuration(clip);
+  if (localTime < MIN_SPLIT_LENGTH || localTime > length - MIN_SPLIT_LENGTH) return null;
+
+  const sourceOffset = timelineToSourceOffset(clip, localTime);
+  const curve = getCurve(clip);
+  const position = localTime / length;
+
+  const first: VideoLayer = {
+    ...clip,
+    end: clip.start + localTime,
+    duration: sourceOffset,
+    transition: undefined,
+    speedCurve: curve ? sliceCurve(curve, 0, position) : clip.speedCurve,
+  };
+  const second: VideoLayer = {
+    ...clip,
+    id: newId,
+    fileName: clip.fileName.endsWith(' (split)') ? clip.fileName : `${clip.fileName} (split)`,
+    start: clip.start + localTime,
+    duration: getSourceDuration(clip) - sourceOffset,
+    sourceStart: (clip.sourceStart || 0) + sourceOffset,
+    speedCurve: curve ? sliceCurve(curve, position, 1) : clip.speedCurve,
+  };
+  return [first, second];
+}
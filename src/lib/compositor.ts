@@ -0,0 +1,329 @@
+// Compositor - Picture-in-picture geometry, blend modes and chroma keying for overlay videos
+// Keying runs in a WebGL fragment shader (2D canvas fallback); EditorCanvas and the renderer share it
+
+import { BlendMode, ChromaKey, OverlayVideoLayer, Position } from '@/types/editor';
+
+export const BLEND_MODES: { mode: BlendMode; label: string }[] = [
+  { mode: 'normal', label: 'Normal' },
+  { mode: 'multiply', label: 'Multiply' },
+  { mode: 'screen', label: 'Screen' },
+  { mode: 'overlay', label: 'Overlay' },
+  { mode: 'darken', label: 'Darken' },
+  { mode: 'lighten', label: 'Lighten' },
+  { mode: 'difference', label: 'Difference' },
+];
+
+// New overlays start as a corner PiP
+export const DEFAULT_OVERLAY_SCALE = 0.4;
+export const DEFAULT_OVERLAY_POSITION: Position = { x: 72, y: 22 };
+
+// Softness and spill divide by their range - keep it above zero
+const MIN_RANGE = 0.001;
+
+/**
+ * Canvas 2D equivalent of a blend mode - CSS mix-blend-mode takes the mode name as is
+ */
+export function getCompositeOperation(mode: BlendMode | undefined): GlobalCompositeOperation {
+  return !mode || mode === 'normal' ? 'source-over' : mode;
+}
+
+/**
+ * #rrggbb (or #rgb) to 0-1 channels; anything unparseable is treated as pure green
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  let value = hex.trim().replace(/^#/, '');
+  if (value.length === 3) {
+    value = value.split('').map(c => c + c).join('');
+  }
+  if (!/^[0-9a-f]{6}$/i.test(value)) return [0, 1, 0];
+  return [0, 2, 4].map(i => parseInt(value.slice(i, i + 2), 16) / 255) as [number, number, number];
+}
+
+/**
+ * Chroma (Cb, Cr) of an RGB colour - keying on chroma alone tolerates uneven lighting on the screen
+ */
+export function rgbToCbCr(r: number, g: number, b: number): [number, number] {
+  return [
+    -0.100644 * r - 0.338572 * g + 0.439216 * b + 0.501961,
+    0.439216 * r - 0.398942 * g - 0.040274 * b + 0.501961,
+  ];
+}
+
+export interface ChromaKeyParams {
+  keyCbCr: [number, number];
+  similarity: number;
+  smoothness: number;
+  spill: number;
+}
+
+/**
+ * Shader uniforms for a key - the 0-1 controls are distances in CbCr space
+ */
+export function getChromaKeyParams(key: ChromaKey): ChromaKeyParams {
+  const [r, g, b] = hexToRgb(key.color);
+  return {
+    keyCbCr: rgbToCbCr(r, g, b),
+    similarity: clamp01(key.tolerance),
+    smoothness: Math.max(MIN_RANGE, clamp01(key.softness)),
+    spill: Math.max(MIN_RANGE, clamp01(key.spill)),
+  };
+}
+
+/**
+ * Key one pixel (0-1 channels) - the same maths as the fragment shader, straight alpha
+ */
+export function keyPixel(r: number, g: number, b: number, params: ChromaKeyParams): [number, number, number, number] {
+  const [cb, cr] = rgbToCbCr(r, g, b);
+  const base = Math.hypot(cb - params.keyCbCr[0], cr - params.keyCbCr[1]) - params.similarity;
+  const alpha = Math.pow(clamp01(base / params.smoothness), 1.5);
+  // Fringes close to the key colour are pulled towards grey so no green halo is left
+  const keep = Math.pow(clamp01(base / params.spill), 1.5);
+  const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return [
+    luma + (r - luma) * keep,
+    luma + (g - luma) * keep,
+    luma + (b - luma) * keep,
+    alpha,
+  ];
+}
+
+/**
+ * Where an overlay sits on the canvas, in the canvas's units - x/y is the center
+ * The video is contained in the canvas, then scaled, like the main track at scale 1
+ */
+export function getOverlayRect(
+  layer: Pick<OverlayVideoLayer, 'position' | 'scale'>,
+  sourceWidth: number,
+  sourceHeight: number,
+  canvasWidth: number,
+  canvasHeight: number
+): { x: number; y: number; width: number; height: number } {
+  const fit = sourceWidth && sourceHeight ? Math.min(canvasWidth / sourceWidth, canvasHeight / sourceHeight) : 0;
+  return {
+    x: (layer.position.x / 100) * canvasWidth,
+    y: (layer.position.y / 100) * canvasHeight,
+    width: sourceWidth * fit * layer.scale,
+    height: sourceHeight * fit * layer.scale,
+  };
+}
+
+/**
+ * Source media time shown at a timeline time
+ */
+export function getOverlaySourceTime(layer: Pick<OverlayVideoLayer, 'start' | 'sourceStart'>, time: number): number {
+  return (layer.sourceStart ?? 0) + Math.max(0, time - layer.start);
+}
+
+/**
+ * Timeline edits for an overlay: trimming the left edge (start without end) moves the in-point with it,
+ * and the end never runs past the source media
+ */
+export function applyOverlayTiming(
+  layer: Pick<OverlayVideoLayer, 'start' | 'end' | 'duration' | 'sourceStart'>,
+  updates: Partial<Pick<OverlayVideoLayer, 'start' | 'end' | 'sourceStart'>>
+): Partial<OverlayVideoLayer> {
+  if (updates.start === undefined && updates.end === undefined) return updates;
+
+  const result: Partial<OverlayVideoLayer> = { ...updates };
+  let sourceStart = updates.sourceStart ?? layer.sourceStart ?? 0;
+  let start = updates.start ?? layer.start;
+  if (updates.start !== undefined && updates.end === undefined) {
+    // Can't trim back past the first frame
+    const trimmed = Math.max(-sourceStart, updates.start - layer.start);
+    start = layer.start + trimmed;
+    sourceStart += trimmed;
+    result.start = start;
+    result.sourceStart = sourceStart;
+  }
+
+  const end = updates.end ?? layer.end;
+  const latestEnd = start + Math.max(0, layer.duration - sourceStart);
+  if (layer.duration > 0 && end > latestEnd) result.end = latestEnd;
+  return result;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = vec2((a_position.x + 1.0) / 2.0, (1.0 - a_position.y) / 2.0);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_frame;
+uniform bool u_keyEnabled;
+uniform vec2 u_keyCbCr;
+uniform float u_similarity;
+uniform float u_smoothness;
+uniform float u_spill;
+varying vec2 v_uv;
+
+vec2 toCbCr(vec3 rgb) {
+  return vec2(
+    dot(rgb, vec3(-0.100644, -0.338572, 0.439216)) + 0.501961,
+    dot(rgb, vec3(0.439216, -0.398942, -0.040274)) + 0.501961
+  );
+}
+
+void main() {
+  vec4 color = texture2D(u_frame, v_uv);
+  if (!u_keyEnabled) {
+    gl_FragColor = color;
+    return;
+  }
+  float base = distance(toCbCr(color.rgb), u_keyCbCr) - u_similarity;
+  float alpha = pow(clamp(base / u_smoothness, 0.0, 1.0), 1.5);
+  float keep = pow(clamp(base / u_spill, 0.0, 1.0), 1.5);
+  float luma = dot(color.rgb, vec3(0.2126, 0.7152, 0.0722));
+  vec3 rgb = mix(vec3(luma), color.rgb, keep);
+  gl_FragColor = vec4(rgb * alpha, alpha);
+}`;
+
+/**
+ * Draws video frames onto a canvas with an optional chroma key
+ * WebGL keys on the GPU every frame; without it the 2D fallback keys on the CPU
+ */
+export class ChromaKeyRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGLRenderingContext | null = null;
+  private ctx2d: CanvasRenderingContext2D | null = null;
+  private uniforms: Record<string, WebGLUniformLocation | null> = {};
+
+  constructor(canvas: HTMLCanvasElement = document.createElement('canvas')) {
+    this.canvas = canvas;
+    // preserveDrawingBuffer so the renderer can drawImage() the result after the frame
+    const gl = canvas.getContext('webgl', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+    if (gl && this.setupWebGL(gl)) {
+      this.gl = gl;
+    } else {
+      console.warn('[COMPOSITOR] WebGL unavailable, keying on the CPU');
+      this.ctx2d = canvas.getContext('2d', { willReadFrequently: true });
+    }
+  }
+
+  get isAccelerated(): boolean {
+    return this.gl !== null;
+  }
+
+  /**
+   * Draw one frame at the source's size; throws for cross-origin media without CORS
+   */
+  draw(source: TexImageSource & CanvasImageSource, width: number, height: number, key?: ChromaKey): void {
+    if (!width || !height) return;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    const keyed = key?.enabled ? getChromaKeyParams(key) : null;
+    if (this.gl) {
+      this.drawWebGL(this.gl, source, width, height, keyed);
+    } else if (this.ctx2d) {
+      this.drawCpu(this.ctx2d, source, width, height, keyed);
+    }
+  }
+
+  dispose(): void {
+    this.gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    this.gl = null;
+    this.ctx2d = null;
+  }
+
+  private setupWebGL(gl: WebGLRenderingContext): boolean {
+    const compile = (type: number, source: string) => {
+      const shader = gl.createShader(type);
+      if (!shader) return null;
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        console.error('[COMPOSITOR] shader compile failed:', gl.getShaderInfoLog(shader));
+        return null;
+      }
+      return shader;
+    };
+
+    const vertex = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragment = compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+    const program = gl.createProgram();
+    if (!vertex || !fragment || !program) return false;
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      console.error('[COMPOSITOR] program link failed:', gl.getProgramInfoLog(program));
+      return false;
+    }
+    gl.useProgram(program);
+
+    // One quad covering the viewport
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    // Video sizes are rarely powers of two - WebGL1 needs clamped, non-mipmapped textures for those
+    gl.bindTexture(gl.TEXTURE_2D, gl.createTexture());
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+
+    for (const name of ['u_frame', 'u_keyEnabled', 'u_keyCbCr', 'u_similarity', 'u_smoothness', 'u_spill']) {
+      this.uniforms[name] = gl.getUniformLocation(program, name);
+    }
+    gl.uniform1i(this.uniforms.u_frame, 0);
+    return true;
+  }
+
+  private drawWebGL(
+    gl: WebGLRenderingContext,
+    source: TexImageSource,
+    width: number,
+    height: number,
+    keyed: ChromaKeyParams | null
+  ): void {
+    gl.viewport(0, 0, width, height);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.uniform1i(this.uniforms.u_keyEnabled, keyed ? 1 : 0);
+    if (keyed) {
+      gl.uniform2f(this.uniforms.u_keyCbCr, keyed.keyCbCr[0], keyed.keyCbCr[1]);
+      gl.uniform1f(this.uniforms.u_similarity, keyed.similarity);
+      gl.uniform1f(this.uniforms.u_smoothness, keyed.smoothness);
+      gl.uniform1f(this.uniforms.u_spill, keyed.spill);
+    }
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  private drawCpu(
+    ctx: CanvasRenderingContext2D,
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    keyed: ChromaKeyParams | null
+  ): void {
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(source, 0, 0, width, height);
+    if (!keyed) return;
+
+    const frame = ctx.getImageData(0, 0, width, height);
+    const data = frame.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const [r, g, b, a] = keyPixel(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255, keyed);
+      data[i] = r * 255;
+      data[i + 1] = g * 255;
+      data[i + 2] = b * 255;
+      data[i + 3] = a * 255;
+    }
+    ctx.putImageData(frame, 0, 0);
+  }
+}
@@ -0,0 +1,231 @@
+// End-to-end encryption primitives for direct messages (WebCrypto only)
+// Each device owns an ECDH P-256 key pair; only the public half ever leaves the device.
+// A message is encrypted once with a random AES-GCM content key, and that key is wrapped
+// separately for every recipient device with a key derived from ECDH(sender device, recipient device).
+// Using the sender's static device key (not an ephemeral one) means a successful unwrap also proves
+// which device sent the message.
+
+export const E2E_ALGORITHM = 'ECDH-P256+HKDF-SHA256+AES-GCM';
+
+export interface WrappedKey {
+  iv: string; // base64
+  key: string; // base64, AES-GCM encrypted content key
+}
+
+export interface E2EEnvelope {
+  v: 1;
+  alg: typeof E2E_ALGORITHM;
+  senderDeviceId: string;
+  senderKey: string; // hex public key of the sending device, must match its published user_device_keys row
+  salt: string; // base64, HKDF salt (fresh per message)
+  iv: string; // base64, content IV
+  ciphertext: string; // base64
+  keys: Record<string, WrappedKey>; // recipient device id -> wrapped content key
+}
+
+export interface DeviceKeyPair {
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+}
+
+export interface RecipientDevice {
+  deviceId: string;
+  publicKeyHex: string;
+}
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+export function isE2ESupported(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+/**
+ * New device key pair - the private key is non-extractable so it can be stored
+ * in IndexedDB but never exported from the browser
+ */
+export async function generateDeviceKeyPair(): Promise<DeviceKeyPair> {
+  return crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']) as Promise<DeviceKeyPair>;
+}
+
+export async function exportPublicKeyHex(publicKey: CryptoKey): Promise<string> {
+  const raw = await crypto.subtle.exportKey('raw', publicKey);
+  return bytesToHex(new Uint8Array(raw));
+}
+
+export async function importPublicKeyHex(hex: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', hexToBytes(hex), ECDH_PARAMS, true, []);
+}
+
+async function deriveWrapKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  salt: Uint8Array,
+  senderDeviceId: string,
+  recipientDeviceId: string
+): Promise<CryptoKey> {
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt,
+      // Binding both device ids stops a wrapped key from being replayed to another device
+      info: encoder.encode(`tone-e2e-v1|${senderDeviceId}|${recipientDeviceId}`),
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a message for a set of devices (recipients and the sender's own devices)
+ */
+export async function encryptForDevices(
+  plaintext: string,
+  sender: { deviceId: string; privateKey: CryptoKey; publicKeyHex: string },
+  recipients: RecipientDevice[]
+): Promise<E2EEnvelope> {
+  if (recipients.length === 0) {
+    throw new Error('No recipient devices to encrypt for');
+  }
+
+  const contentKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const rawContentKey = new Uint8Array(await crypto.subtle.exportKey('raw', contentKey));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encoder.encode(sender.deviceId) },
+    contentKey,
+    encoder.encode(plaintext)
+  );
+
+  const keys: Record<string, WrappedKey> = {};
+  for (const recipient of recipients) {
+    const publicKey = await importPublicKeyHex(recipient.publicKeyHex);
+    const wrapKey = await deriveWrapKey(sender.privateKey, publicKey, salt, sender.deviceId, recipient.deviceId);
+    const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: wrapIv }, wrapKey, rawContentKey);
+    keys[recipient.deviceId] = { iv: bytesToBase64(wrapIv), key: bytesToBase64(new Uint8Array(wrapped)) };
+  }
+
+  return {
+    v: 1,
+    alg: E2E_ALGORITHM,
+    senderDeviceId: sender.deviceId,
+    senderKey: sender.publicKeyHex,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+    keys,
+  };
+}
+
+/**
+ * Decrypt an envelope on this device
+ * Throws when the message was not encrypted for this device or was tampered with
+ */
+export async function decryptEnvelope(
+  envelope: E2EEnvelope,
+  device: { deviceId: string; privateKey: CryptoKey },
+  senderPublicKeyHex: string
+): Promise<string> {
+  if (envelope.v !== 1 || envelope.alg !== E2E_ALGORITHM) {
+    throw new Error(`Unsupported encryption format: ${envelope.alg}`);
+  }
+
+  const wrapped = envelope.keys[device.deviceId];
+  if (!wrapped) {
+    throw new Error('Message was not encrypted for this device');
+  }
+
+  const senderKey = await importPublicKeyHex(senderPublicKeyHex);
+  const wrapKey = await deriveWrapKey(
+    device.privateKey,
+    senderKey,
+    base64ToBytes(envelope.salt),
+    envelope.senderDeviceId,
+    device.deviceId
+  );
+  const rawContentKey = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(wrapped.iv) },
+    wrapKey,
+    base64ToBytes(wrapped.key)
+  );
+  const contentKey = await crypto.subtle.importKey('raw', rawContentKey, 'AES-GCM', false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(envelope.iv), additionalData: encoder.encode(envelope.senderDeviceId) },
+    contentKey,
+    base64ToBytes(envelope.ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
+
+export function isE2EEnvelope(value: unknown): value is E2EEnvelope {
+  const envelope = value as E2EEnvelope | null;
+  return !!envelope && typeof envelope === 'object' && envelope.v === 1 &&
+    typeof envelope.ciphertext === 'string' && typeof envelope.keys === 'object';
+}
+
+/**
+ * Per-device key fingerprint shown in "Compare keys": 28 bytes of SHA-256, two rows of 14
+ */
+export async function getKeyFingerprint(publicKeyHex: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', hexToBytes(publicKeyHex)));
+  const pairs = Array.from(digest.slice(0, 28), b => b.toString(16).padStart(2, '0').toUpperCase());
+  return `${pairs.slice(0, 14).join(' ')}\n${pairs.slice(14).join(' ')}`;
+}
+
+/**
+ * Conversation safety number - 60 digits in 12 groups of 5
+ * Order independent (participants and keys are sorted) so both sides compute the same number;
+ * any added or removed device changes it
+ */
+export async function computeSafetyNumber(
+  participants: { userId: string; publicKeysHex: string[] }[]
+): Promise<string> {
+  const canonical = [...participants]
+    .sort((a, b) => a.userId.localeCompare(b.userId))
+    .map(p => `${p.userId}:${[...p.publicKeysHex].map(k => k.toLowerCase()).sort().join(',')}`)
+    .join('|');
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-512', encoder.encode(canonical)));
+
+  const groups: string[] = [];
+  for (let i = 0; i < 12; i++) {
+    const chunk = digest.slice(i * 5, i * 5 + 5);
+    // 5 bytes -> 40-bit integer -> 5 decimal digits
+    const value = chunk.reduce((acc, byte) => acc * 256 + byte, 0);
+    groups.push((value % 100000).toString().padStart(5, '0'));
+  }
+  return groups.join(' ');
+}
@@ -0,0 +1,571 @@
+// Filter Pipeline - Colour grading shared by the editor preview and the exporter
+// VideoFilter runs as WebGL passes (separable blur, then one grade pass); the CPU fallback uses the same maths per pixel
+
+import { VideoFilter, normalizeVideoFilter } from '@/types/editor';
+import { CubeLut, packLutTexture, sampleLut } from '@/lib/lut';
+
+type Rgb = [number, number, number];
+
+// Rec. 709 luma weights - used by saturation, tone zones and temperature normalisation alike
+const LUMA: Rgb = [0.2126, 0.7152, 0.0722];
+const NEUTRAL_KELVIN = 6500;
+const KELVIN_PER_STEP = 35; // temperature 100 → 3000K, -100 → 10000K
+const TONE_RANGE = 0.25; // highlights/shadows at ±100 shift their zone by a quarter of full scale
+const SHARPEN_STRENGTH = 2;
+const GRAIN_STRENGTH = 0.25;
+const GRAIN_FPS = 24; // grain pattern changes at film rate whatever the export fps
+
+export interface FilterParams {
+  gains: Rgb; // white balance multipliers from temperature
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  hueMatrix: number[]; // row-major 3x3
+  highlights: number;
+  shadows: number;
+  vignette: number;
+  sharpen: number;
+  grain: number;
+  blur: number; // standard deviation in preview pixels, like CSS blur()
+  lutIntensity: number; // 0-1, 0 when no LUT is set
+}
+
+export interface FilterFrame {
+  filter: VideoFilter | undefined;
+  lut?: CubeLut | null; // the loaded table for filter.lut, skipped when null
+  unit?: number; // source pixels per preview pixel - keeps blur, sharpen and grain the same size at any resolution
+  time?: number; // timeline seconds, seeds the grain
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Colour of a blackbody at `kelvin`, 0-1 per channel (Tanner Helland's fit)
+ */
+export function kelvinToRgb(kelvin: number): Rgb {
+  const t = Math.max(1000, Math.min(40000, kelvin)) / 100;
+  const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const g = t <= 66
+    ? 99.4708025861 * Math.log(t) - 161.1195681661
+    : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  return [r, g, b].map(channel => clamp01(channel / 255)) as Rgb;
+}
+
+/**
+ * White balance multipliers for a temperature of -100 (cool) to 100 (warm)
+ * Relative to 6500K and normalised to unit luma so warming doesn't brighten the frame
+ */
+export function getTemperatureGains(temperature: number): Rgb {
+  if (!temperature) return [1, 1, 1];
+  const target = kelvinToRgb(NEUTRAL_KELVIN - temperature * KELVIN_PER_STEP);
+  const neutral = kelvinToRgb(NEUTRAL_KELVIN);
+  const gains = target.map((channel, i) => channel / neutral[i]) as Rgb;
+  const luma = gains[0] * LUMA[0] + gains[1] * LUMA[1] + gains[2] * LUMA[2];
+  return gains.map(gain => gain / luma) as Rgb;
+}
+
+/**
+ * The CSS hue-rotate() matrix, row-major
+ */
+export function getHueRotateMatrix(degrees: number): number[] {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+}
+
+/**
+ * Turn a VideoFilter's UI ranges into the values the shader works with
+ */
+export function getFilterParams(filter: VideoFilter | undefined): FilterParams {
+  const f = normalizeVideoFilter(filter);
+  return {
+    gains: getTemperatureGains(f.temperature),
+    brightness: f.brightness / 100,
+    contrast: f.contrast / 100,
+    saturation: f.saturation / 100,
+    hueMatrix: getHueRotateMatrix(f.hueRotate ?? 0),
+    highlights: ((f.highlights ?? 0) / 100) * TONE_RANGE,
+    shadows: ((f.shadows ?? 0) / 100) * TONE_RANGE,
+    vignette: clamp01((f.vignette ?? 0) / 100),
+    sharpen: clamp01((f.sharpen ?? 0) / 100) * SHARPEN_STRENGTH,
+    grain: clamp01((f.grain ?? 0) / 100) * GRAIN_STRENGTH,
+    blur: Math.max(0, f.blur),
+    lutIntensity: f.lut ? clamp01(f.lut.intensity / 100) : 0,
+  };
+}
+
+/**
+ * Grade one pixel (0-1 channels): temperature → brightness → contrast → saturation → hue → tone zones → LUT
+ * Matches the grade shader step for step
+ */
+export function gradePixel(r: number, g: number, b: number, params: FilterParams, lut?: CubeLut | null): Rgb {
+  const { gains, brightness, contrast, saturation, hueMatrix: m } = params;
+  let color: Rgb = [clamp01(r * gains[0]), clamp01(g * gains[1]), clamp01(b * gains[2])];
+  color = color.map(c => clamp01(c * brightness)) as Rgb;
+  color = color.map(c => clamp01((c - 0.5) * contrast + 0.5)) as Rgb;
+
+  let luma = color[0] * LUMA[0] + color[1] * LUMA[1] + color[2] * LUMA[2];
+  color = color.map(c => clamp01(luma + (c - luma) * saturation)) as Rgb;
+  color = [
+    clamp01(m[0] * color[0] + m[1] * color[1] + m[2] * color[2]),
+    clamp01(m[3] * color[0] + m[4] * color[1] + m[5] * color[2]),
+    clamp01(m[6] * color[0] + m[7] * color[1] + m[8] * color[2]),
+  ];
+
+  luma = color[0] * LUMA[0] + color[1] * LUMA[1] + color[2] * LUMA[2];
+  const tone = params.shadows * (1 - luma) * (1 - luma) + params.highlights * luma * luma;
+  color = color.map(c => clamp01(c + tone)) as Rgb;
+
+  if (lut && params.lutIntensity > 0) {
+    const graded = sampleLut(lut, color[0], color[1], color[2]);
+    color = color.map((c, i) => c + (graded[i] - c) * params.lutIntensity) as Rgb;
+  }
+  return color;
+}
+
+/**
+ * Vignette multiplier at (u, v) in 0-1 frame space - 1 in the middle, falling off towards the corners
+ */
+export function getVignetteFactor(u: number, v: number, aspect: number, amount: number): number {
+  if (amount <= 0) return 1;
+  const x = (u - 0.5) * aspect;
+  const y = v - 0.5;
+  const distance = Math.hypot(x, y) / Math.hypot(aspect * 0.5, 0.5);
+  const t = clamp01((distance - 0.3) / 0.7);
+  return 1 - amount * t * t * (3 - 2 * t);
+}
+
+const fract = (value: number) => value - Math.floor(value);
+
+/**
+ * Deterministic 0-1 noise for a grain cell (Dave Hoskins' hash12, same as the shader)
+ */
+export function grainNoise(x: number, y: number, seed: number): number {
+  const px = x + seed * 113;
+  const py = y + seed * 271;
+  let a = fract(px * 0.1031);
+  let b = fract(py * 0.1031);
+  let c = fract(px * 0.1031);
+  const d = a * (b + 33.33) + b * (c + 33.33) + c * (a + 33.33);
+  a += d;
+  b += d;
+  c += d;
+  return fract((a + b) * c);
+}
+
+/**
+ * Grain seed for a timeline time - the same frame always gets the same grain
+ */
+export function getGrainSeed(time: number): number {
+  return Math.floor(Math.max(0, time) * GRAIN_FPS) % 97;
+}
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+uniform float u_flipY;
+varying vec2 v_uv;
+void main() {
+  float y = (a_position.y + 1.0) / 2.0;
+  v_uv = vec2((a_position.x + 1.0) / 2.0, mix(y, 1.0 - y, u_flipY));
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// One direction of a gaussian blur - 17 taps spaced sigma / 4 apart cover ±2 sigma
+const BLUR_SHADER = `
+precision highp float;
+uniform sampler2D u_image;
+uniform vec2 u_step;
+varying vec2 v_uv;
+void main() {
+  vec4 sum = vec4(0.0);
+  float total = 0.0;
+  for (int i = -8; i <= 8; i++) {
+    float offset = float(i);
+    float weight = exp(-offset * offset / 32.0);
+    sum += texture2D(u_image, v_uv + u_step * offset) * weight;
+    total += weight;
+  }
+  gl_FragColor = sum / total;
+}`;
+
+const GRADE_SHADER = `
+precision highp float;
+uniform sampler2D u_image;
+uniform vec2 u_texel;
+uniform float u_sharpen;
+uniform vec3 u_gains;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_saturation;
+uniform mat3 u_hue;
+uniform float u_highlights;
+uniform float u_shadows;
+uniform bool u_lutEnabled;
+uniform sampler2D u_lut;
+uniform float u_lutSize;
+uniform float u_lutIntensity;
+uniform vec3 u_lutMin;
+uniform vec3 u_lutMax;
+uniform float u_vignette;
+uniform float u_aspect;
+uniform float u_grain;
+uniform float u_grainScale;
+uniform float u_seed;
+uniform vec2 u_size;
+varying vec2 v_uv;
+
+const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+
+// Blue slices sit side by side in the strip; red/green interpolate in hardware, blue between two lookups
+vec3 lookup(vec3 color) {
+  vec3 cell = clamp((color - u_lutMin) / (u_lutMax - u_lutMin), 0.0, 1.0) * (u_lutSize - 1.0);
+  float slice = floor(cell.b);
+  float next = min(slice + 1.0, u_lutSize - 1.0);
+  float width = u_lutSize * u_lutSize;
+  vec2 uv = vec2((cell.r + 0.5) / width, (cell.g + 0.5) / u_lutSize);
+  vec3 low = texture2D(u_lut, uv + vec2(slice * u_lutSize / width, 0.0)).rgb;
+  vec3 high = texture2D(u_lut, uv + vec2(next * u_lutSize / width, 0.0)).rgb;
+  return mix(low, high, cell.b - slice);
+}
+
+float hash(vec2 p) {
+  vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+  p3 += dot(p3, p3.yzx + 33.33);
+  return fract((p3.x + p3.y) * p3.z);
+}
+
+void main() {
+  vec3 color = texture2D(u_image, v_uv).rgb;
+  if (u_sharpen > 0.0) {
+    vec3 around = texture2D(u_image, v_uv + vec2(u_texel.x, 0.0)).rgb
+      + texture2D(u_image, v_uv - vec2(u_texel.x, 0.0)).rgb
+      + texture2D(u_image, v_uv + vec2(0.0, u_texel.y)).rgb
+      + texture2D(u_image, v_uv - vec2(0.0, u_texel.y)).rgb;
+    color = clamp(color + (color - around * 0.25) * u_sharpen, 0.0, 1.0);
+  }
+
+  color = clamp(color * u_gains, 0.0, 1.0);
+  color = clamp(color * u_brightness, 0.0, 1.0);
+  color = clamp((color - 0.5) * u_contrast + 0.5, 0.0, 1.0);
+  color = clamp(mix(vec3(dot(color, LUMA)), color, u_saturation), 0.0, 1.0);
+  color = clamp(u_hue * color, 0.0, 1.0);
+
+  float luma = dot(color, LUMA);
+  color = clamp(color + u_shadows * (1.0 - luma) * (1.0 - luma) + u_highlights * luma * luma, 0.0, 1.0);
+
+  if (u_lutEnabled) color = mix(color, lookup(color), u_lutIntensity);
+
+  if (u_vignette > 0.0) {
+    vec2 offset = (v_uv - 0.5) * vec2(u_aspect, 1.0);
+    float distanceToCorner = length(offset) / length(vec2(u_aspect * 0.5, 0.5));
+    color *= 1.0 - u_vignette * smoothstep(0.3, 1.0, distanceToCorner);
+  }
+  if (u_grain > 0.0) {
+    vec2 cell = floor(v_uv * u_size / u_grainScale);
+    color += (hash(cell + u_seed * vec2(113.0, 271.0)) - 0.5) * u_grain;
+  }
+  gl_FragColor = vec4(clamp(color, 0.0, 1.0), 1.0);
+}`;
+
+const GRADE_UNIFORMS = [
+  'u_flipY', 'u_image', 'u_texel', 'u_sharpen', 'u_gains', 'u_brightness', 'u_contrast', 'u_saturation', 'u_hue',
+  'u_highlights', 'u_shadows', 'u_lutEnabled', 'u_lut', 'u_lutSize', 'u_lutIntensity', 'u_lutMin', 'u_lutMax',
+  'u_vignette', 'u_aspect', 'u_grain', 'u_grainScale', 'u_seed', 'u_size',
+];
+
+interface ShaderProgram {
+  program: WebGLProgram;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+interface RenderTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+}
+
+function createProgram(gl: WebGLRenderingContext, fragmentSource: string, uniformNames: string[]): ShaderProgram | null {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.error('[FILTERS] shader compile failed:', gl.getShaderInfoLog(shader));
+      return null;
+    }
+    return shader;
+  };
+
+  const vertex = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compile(gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  // Both programs read the quad from the same attribute slot
+  gl.bindAttribLocation(program, 0, 'a_position');
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('[FILTERS] program link failed:', gl.getProgramInfoLog(program));
+    return null;
+  }
+
+  const uniforms: ShaderProgram['uniforms'] = {};
+  for (const name of uniformNames) {
+    uniforms[name] = gl.getUniformLocation(program, name);
+  }
+  return { program, uniforms };
+}
+
+// Video sizes are rarely powers of two - WebGL1 needs clamped, non-mipmapped textures for those
+function createTexture(gl: WebGLRenderingContext): WebGLTexture | null {
+  const texture = gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  return texture;
+}
+
+/**
+ * Draws frames onto a canvas with a VideoFilter applied
+ * WebGL grades on the GPU every frame; without it the 2D fallback grades on the CPU
+ */
+export class FilterPipeline {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGLRenderingContext | null = null;
+  private ctx2d: CanvasRenderingContext2D | null = null;
+  private blurProgram: ShaderProgram | null = null;
+  private gradeProgram: ShaderProgram | null = null;
+  private sourceTexture: WebGLTexture | null = null;
+  private lutTexture: WebGLTexture | null = null;
+  private uploadedLut: CubeLut | null = null;
+  private targets: RenderTarget[] = [];
+  private targetSize = { width: 0, height: 0 };
+
+  constructor(canvas: HTMLCanvasElement = document.createElement('canvas')) {
+    this.canvas = canvas;
+    // preserveDrawingBuffer so the renderer can drawImage() the result after the frame
+    const gl = canvas.getContext('webgl', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+    if (gl && this.setupWebGL(gl)) {
+      this.gl = gl;
+    } else {
+      console.warn('[FILTERS] WebGL unavailable, grading on the CPU');
+      this.ctx2d = canvas.getContext('2d', { willReadFrequently: true });
+    }
+  }
+
+  get isAccelerated(): boolean {
+    return this.gl !== null;
+  }
+
+  /**
+   * Draw one frame at the source's size; throws for cross-origin media without CORS
+   */
+  draw(source: TexImageSource & CanvasImageSource, width: number, height: number, frame: FilterFrame): void {
+    if (!width || !height) return;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    const params = getFilterParams(frame.filter);
+    const lut = params.lutIntensity > 0 ? frame.lut ?? null : null;
+    const unit = Math.max(frame.unit ?? 1, 0.01);
+    const seed = getGrainSeed(frame.time ?? 0);
+    if (this.gl) {
+      this.drawWebGL(this.gl, source, width, height, params, lut, unit, seed);
+    } else if (this.ctx2d) {
+      this.drawCpu(this.ctx2d, source, width, height, params, lut, unit, seed);
+    }
+  }
+
+  dispose(): void {
+    this.gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    this.gl = null;
+    this.ctx2d = null;
+    this.targets = [];
+    this.uploadedLut = null;
+  }
+
+  private setupWebGL(gl: WebGLRenderingContext): boolean {
+    this.blurProgram = createProgram(gl, BLUR_SHADER, ['u_flipY', 'u_image', 'u_step']);
+    this.gradeProgram = createProgram(gl, GRADE_SHADER, GRADE_UNIFORMS);
+    if (!this.blurProgram || !this.gradeProgram) return false;
+
+    // One quad covering the viewport
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(0);
+    gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+    this.sourceTexture = createTexture(gl);
+    this.lutTexture = createTexture(gl);
+    return !!this.sourceTexture && !!this.lutTexture;
+  }
+
+  // Two offscreen textures for the blur passes, resized with the frame
+  private ensureTargets(gl: WebGLRenderingContext, width: number, height: number): void {
+    if (this.targets.length && this.targetSize.width === width && this.targetSize.height === height) return;
+    this.targets.forEach(target => {
+      gl.deleteTexture(target.texture);
+      gl.deleteFramebuffer(target.framebuffer);
+    });
+    this.targets = [];
+    for (let i = 0; i < 2; i++) {
+      const texture = createTexture(gl);
+      const framebuffer = gl.createFramebuffer();
+      if (!texture || !framebuffer) throw new Error('Could not allocate filter buffers');
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+      this.targets.push({ texture, framebuffer });
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    this.targetSize = { width, height };
+  }
+
+  private drawWebGL(
+    gl: WebGLRenderingContext,
+    source: TexImageSource,
+    width: number,
+    height: number,
+    params: FilterParams,
+    lut: CubeLut | null,
+    unit: number,
+    seed: number
+  ): void {
+    const blur = this.blurProgram!;
+    const grade = this.gradeProgram!;
+    gl.viewport(0, 0, width, height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+
+    let input = this.sourceTexture;
+    const sigma = params.blur * unit;
+    if (sigma > 0) {
+      // Horizontal into the first target, vertical into the second; offscreen passes keep texture orientation
+      this.ensureTargets(gl, width, height);
+      gl.useProgram(blur.program);
+      gl.uniform1f(blur.uniforms.u_flipY, 0);
+      gl.uniform1i(blur.uniforms.u_image, 0);
+      const passes: [RenderTarget, number, number][] = [
+        [this.targets[0], sigma / 4 / width, 0],
+        [this.targets[1], 0, sigma / 4 / height],
+      ];
+      for (const [target, stepX, stepY] of passes) {
+        gl.bindTexture(gl.TEXTURE_2D, input);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+        gl.uniform2f(blur.uniforms.u_step, stepX, stepY);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        input = target.texture;
+      }
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    }
+
+    const u = grade.uniforms;
+    gl.useProgram(grade.program);
+    gl.bindTexture(gl.TEXTURE_2D, input);
+    gl.uniform1f(u.u_flipY, 1);
+    gl.uniform1i(u.u_image, 0);
+    gl.uniform2f(u.u_texel, unit / width, unit / height);
+    gl.uniform1f(u.u_sharpen, params.sharpen);
+    gl.uniform3f(u.u_gains, ...params.gains);
+    gl.uniform1f(u.u_brightness, params.brightness);
+    gl.uniform1f(u.u_contrast, params.contrast);
+    gl.uniform1f(u.u_saturation, params.saturation);
+    const m = params.hueMatrix;
+    // GLSL matrices are column-major
+    gl.uniformMatrix3fv(u.u_hue, false, [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]]);
+    gl.uniform1f(u.u_highlights, params.highlights);
+    gl.uniform1f(u.u_shadows, params.shadows);
+    gl.uniform1f(u.u_vignette, params.vignette);
+    gl.uniform1f(u.u_aspect, width / height);
+    gl.uniform1f(u.u_grain, params.grain);
+    gl.uniform1f(u.u_grainScale, unit);
+    gl.uniform1f(u.u_seed, seed);
+    gl.uniform2f(u.u_size, width, height);
+
+    gl.uniform1i(u.u_lutEnabled, lut ? 1 : 0);
+    gl.uniform1i(u.u_lut, 1);
+    if (lut) {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, this.lutTexture);
+      if (this.uploadedLut !== lut) {
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, lut.size * lut.size, lut.size, 0, gl.RGBA, gl.UNSIGNED_BYTE, packLutTexture(lut));
+        this.uploadedLut = lut;
+      }
+      gl.activeTexture(gl.TEXTURE0);
+      gl.uniform1f(u.u_lutSize, lut.size);
+      gl.uniform1f(u.u_lutIntensity, params.lutIntensity);
+      gl.uniform3f(u.u_lutMin, ...lut.domainMin);
+      gl.uniform3f(u.u_lutMax, ...lut.domainMax);
+    }
+
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  private drawCpu(
+    ctx: CanvasRenderingContext2D,
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    params: FilterParams,
+    lut: CubeLut | null,
+    unit: number,
+    seed: number
+  ): void {
+    ctx.clearRect(0, 0, width, height);
+    ctx.filter = params.blur > 0 ? `blur(${params.blur * unit}px)` : 'none';
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.filter = 'none';
+
+    const frame = ctx.getImageData(0, 0, width, height);
+    const data = frame.data;
+    const input = params.sharpen > 0 ? new Uint8ClampedArray(data) : data;
+    const radius = Math.max(1, Math.round(unit));
+    const aspect = width / height;
+    const read = (x: number, y: number, channel: number) => {
+      const cx = Math.max(0, Math.min(width - 1, x));
+      const cy = Math.max(0, Math.min(height - 1, y));
+      return input[(cy * width + cx) * 4 + channel] / 255;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const rgb = [0, 1, 2].map(channel => {
+          const center = input[i + channel] / 255;
+          if (params.sharpen <= 0) return center;
+          const around = read(x + radius, y, channel) + read(x - radius, y, channel)
+            + read(x, y + radius, channel) + read(x, y - radius, channel);
+          return clamp01(center + (center - around * 0.25) * params.sharpen);
+        });
+
+        let [r, g, b] = gradePixel(rgb[0], rgb[1], rgb[2], params, lut);
+        const vignette = getVignetteFactor((x + 0.5) / width, (y + 0.5) / height, aspect, params.vignette);
+        const noise = params.grain > 0
+          ? (grainNoise(Math.floor(x / unit), Math.floor(y / unit), seed) - 0.5) * params.grain
+          : 0;
+        r = r * vignette + noise;
+        g = g * vignette + noise;
+        b = b * vignette + noise;
+
+        data[i] = clamp01(r) * 255;
+        data[i + 1] = clamp01(g) * 255;
+        data[i + 2] = clamp01(b) * 255;
+        data[i + 3] = 255;
+      }
+    }
+    ctx.putImageData(frame, 0, 0);
+  }
+}
@@ -0,0 +1,101 @@
+// Group call helpers - mesh topology rules, grid layout and active-speaker detection
+// Pure logic used by CallContext; no WebRTC or Supabase imports
+
+// Every participant uploads one stream per peer, so a mesh stops scaling quickly
+export const MAX_GROUP_CALL_PARTICIPANTS = 8; // including yourself
+
+/**
+ * Exactly one side of each peer pair creates the offer, so two participants that learn
+ * about each other at the same time never both send offers (glare)
+ */
+export function shouldInitiateOffer(localUserId: string, remoteUserId: string): boolean {
+  return localUserId < remoteUserId;
+}
+
+/**
+ * Column count for the participant grid (tiles include the local preview)
+ */
+export function getGridColumns(tileCount: number): number {
+  if (tileCount <= 1) return 1;
+  if (tileCount <= 4) return 2;
+  return 3;
+}
+
+export interface ActiveSpeakerOptions {
+  threshold?: number; // minimum smoothed audio level (0-1) to count as speaking
+  holdMs?: number; // minimum time before the highlight may move to someone else
+  smoothing?: number; // 0 = raw samples, closer to 1 = slower to react
+  switchRatio?: number; // a challenger must be this much louder than the current speaker
+}
+
+const DEFAULT_SPEAKER_OPTIONS: Required<ActiveSpeakerOptions> = {
+  threshold: 0.04,
+  holdMs: 1500,
+  smoothing: 0.6,
+  switchRatio: 1.3,
+};
+
+/**
+ * Picks the loudest participant from periodic audio-level samples
+ * Levels are smoothed and the highlight is held for a moment so short noises
+ * and crosstalk don't make the active speaker flicker. The last speaker stays
+ * active through silence.
+ */
+export class ActiveSpeakerDetector {
+  private readonly options: Required<ActiveSpeakerOptions>;
+  private levels = new Map<string, number>();
+  private current: string | null = null;
+  private lastSwitchAt = -Infinity;
+
+  constructor(options: ActiveSpeakerOptions = {}) {
+    this.options = { ...DEFAULT_SPEAKER_OPTIONS, ...options };
+  }
+
+  update(samples: Record<string, number>, now: number): string | null {
+    const { threshold, holdMs, smoothing, switchRatio } = this.options;
+
+    Object.entries(samples).forEach(([id, level]) => {
+      const previous = this.levels.get(id) ?? 0;
+      this.levels.set(id, previous * smoothing + Math.max(0, Math.min(1, level)) * (1 - smoothing));
+    });
+
+    let loudestId: string | null = null;
+    let loudestLevel = threshold;
+    for (const [id, level] of this.levels) {
+      if (level >= loudestLevel) {
+        loudestId = id;
+        loudestLevel = level;
+      }
+    }
+
+    if (!loudestId || loudestId === this.current) return this.current;
+
+    const currentLevel = this.current ? this.levels.get(this.current) ?? 0 : 0;
+    const held = now - this.lastSwitchAt < holdMs;
+    const clearlyLouder = currentLevel < threshold || loudestLevel >= currentLevel * switchRatio;
+
+    if (!this.current || (!held && clearlyLouder)) {
+      this.current = loudestId;
+      this.lastSwitchAt = now;
+    }
+    return this.current;
+  }
+
+  remove(id: string) {
+    this.levels.delete(id);
+    if (this.current === id) {
+      this.current = null;
+      this.lastSwitchAt = -Infinity;
+    }
+  }
+
+  reset() {
+    this.levels.clear();
+    this.current = null;
+    this.lastSwitchAt = -Infinity;
+  }
+
+  getActiveSpeaker(): string | null {
+    return this.current;
+  }
+}
@@ -0,0 +1,269 @@
+// Keyframe animation - per-property keyframes with easing for text, emoji and image layers
+// Shared by the preview (EditorCanvas), the renderer and the timeline keyframe lane
+
+import { Keyframe, KeyframeEasing, KeyframeProperty, LayerKeyframes, Position, TextLayer } from '@/types/editor';
+
+export const KEYFRAME_PROPERTIES: { property: KeyframeProperty; label: string }[] = [
+  { property: 'x', label: 'Position X' },
+  { property: 'y', label: 'Position Y' },
+  { property: 'scale', label: 'Scale' },
+  { property: 'rotation', label: 'Rotation' },
+  { property: 'opacity', label: 'Opacity' },
+];
+
+export const KEYFRAME_EASINGS: { easing: KeyframeEasing; label: string }[] = [
+  { easing: 'linear', label: 'Linear' },
+  { easing: 'ease-in', label: 'Ease in' },
+  { easing: 'ease-out', label: 'Ease out' },
+  { easing: 'ease-in-out', label: 'Ease in-out' },
+  { easing: 'hold', label: 'Hold' },
+];
+
+export const DEFAULT_KEYFRAME_EASING: KeyframeEasing = 'linear';
+
+// Keyframes closer than this are treated as the same point in time
+export const KEYFRAME_TIME_EPSILON = 0.05;
+
+export type KeyframedLayer = Pick<TextLayer, 'start' | 'end' | 'position' | 'scale' | 'rotation' | 'keyframes'>;
+
+export interface LayerTransform {
+  position: Position;
+  scale: number;
+  rotation: number;
+  opacity: number;
+}
+
+const sameTime = (a: number, b: number) => Math.abs(a - b) < KEYFRAME_TIME_EPSILON;
+
+const byTime = (a: Keyframe, b: Keyframe) => a.time - b.time;
+
+/**
+ * Map linear progress (0-1) between two keyframes onto the easing curve
+ */
+export function applyEasing(easing: KeyframeEasing, t: number): number {
+  const p = Math.max(0, Math.min(1, t));
+  switch (easing) {
+    case 'ease-in':
+      return p * p;
+    case 'ease-out':
+      return 1 - (1 - p) * (1 - p);
+    case 'ease-in-out':
+      return p < 0.5 ? 2 * p * p : 1 - Math.pow(-2 * p + 2, 2) / 2;
+    case 'hold':
+      return p < 1 ? 0 : 1;
+    default:
+      return p;
+  }
+}
+
+/**
+ * Value of one property at a time relative to the layer's start
+ * Holds the first/last value outside the keyed range; null when the property has no keyframes
+ */
+export function interpolateKeyframes(frames: Keyframe[] | undefined, localTime: number): number | null {
+  if (!frames?.length) return null;
+  const sorted = [...frames].sort(byTime);
+
+  if (localTime <= sorted[0].time) return sorted[0].value;
+  const last = sorted[sorted.length - 1];
+  if (localTime >= last.time) return last.value;
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const from = sorted[i];
+    const to = sorted[i + 1];
+    if (localTime >= from.time && localTime < to.time) {
+      const progress = (localTime - from.time) / (to.time - from.time);
+      return from.value + (to.value - from.value) * applyEasing(from.easing, progress);
+    }
+  }
+  return last.value;
+}
+
+export function hasKeyframes(layer: Pick<KeyframedLayer, 'keyframes'>): boolean {
+  return KEYFRAME_PROPERTIES.some(({ property }) => (layer.keyframes?.[property]?.length ?? 0) > 0);
+}
+
+/**
+ * Position/scale/rotation/opacity of a layer at a timeline time
+ * Properties without keyframes keep the layer's static value
+ */
+export function getLayerTransform(layer: KeyframedLayer, time: number): LayerTransform {
+  const localTime = time - layer.start;
+  const keyframes = layer.keyframes;
+  const opacity = interpolateKeyframes(keyframes?.opacity, localTime) ?? 1;
+
+  return {
+    position: {
+      x: interpolateKeyframes(keyframes?.x, localTime) ?? layer.position.x,
+      y: interpolateKeyframes(keyframes?.y, localTime) ?? layer.position.y,
+    },
+    scale: interpolateKeyframes(keyframes?.scale, localTime) ?? layer.scale,
+    rotation: interpolateKeyframes(keyframes?.rotation, localTime) ?? (layer.rotation || 0),
+    opacity: Math.max(0, Math.min(1, opacity)),
+  };
+}
+
+/**
+ * The layer as it looks at `time`, with its animated opacity alongside
+ * Returns the same layer object when it has no keyframes
+ */
+export function getAnimatedLayer<T extends KeyframedLayer>(layer: T, time: number): { layer: T; opacity: number } {
+  if (!hasKeyframes(layer)) return { layer, opacity: 1 };
+  const { opacity, ...transform } = getLayerTransform(layer, time);
+  return { layer: { ...layer, ...transform }, opacity };
+}
+
+const getPropertyValue = (transform: LayerTransform, property: KeyframeProperty): number => {
+  if (property === 'x') return transform.position.x;
+  if (property === 'y') return transform.position.y;
+  return transform[property];
+};
+
+/**
+ * Add or replace the keyframe for one property at a layer-relative time
+ * A new keyframe takes the easing of the keyframe before it
+ */
+export function setKeyframe(
+  keyframes: LayerKeyframes | undefined,
+  property: KeyframeProperty,
+  time: number,
+  value: number,
+  easing?: KeyframeEasing
+): LayerKeyframes {
+  const frames = keyframes?.[property] ?? [];
+  const existing = frames.find(frame => sameTime(frame.time, time));
+
+  let next: Keyframe[];
+  if (existing) {
+    next = frames.map(frame => frame === existing ? { ...frame, value, easing: easing ?? frame.easing } : frame);
+  } else {
+    const previous = [...frames].sort(byTime).filter(frame => frame.time < time).pop();
+    next = [...frames, {
+      id: `kf-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      time: Math.max(0, time),
+      value,
+      easing: easing ?? previous?.easing ?? DEFAULT_KEYFRAME_EASING,
+    }];
+  }
+
+  return { ...keyframes, [property]: next.sort(byTime) };
+}
+
+/**
+ * Key every property at its current value - the lane's "add keyframe" action
+ */
+export function addKeyframesAt(layer: KeyframedLayer, localTime: number): LayerKeyframes {
+  const transform = getLayerTransform(layer, layer.start + localTime);
+  return KEYFRAME_PROPERTIES.reduce<LayerKeyframes>(
+    (keyframes, { property }) => setKeyframe(keyframes, property, localTime, getPropertyValue(transform, property)),
+    layer.keyframes ?? {}
+  );
+}
+
+/**
+ * Distinct keyframe times across all properties, in order
+ */
+export function getKeyframeTimes(keyframes: LayerKeyframes | undefined): number[] {
+  const times: number[] = [];
+  KEYFRAME_PROPERTIES.forEach(({ property }) => {
+    keyframes?.[property]?.forEach(frame => {
+      if (!times.some(time => sameTime(time, frame.time))) times.push(frame.time);
+    });
+  });
+  return times.sort((a, b) => a - b);
+}
+
+const mapFramesAt = (
+  keyframes: LayerKeyframes | undefined,
+  time: number,
+  update: (frame: Keyframe) => Keyframe | null
+): LayerKeyframes | undefined => {
+  const next: LayerKeyframes = {};
+  KEYFRAME_PROPERTIES.forEach(({ property }) => {
+    const frames = (keyframes?.[property] ?? [])
+      .map(frame => sameTime(frame.time, time) ? update(frame) : frame)
+      .filter((frame): frame is Keyframe => frame !== null)
+      .sort(byTime);
+    if (frames.length > 0) next[property] = frames;
+  });
+  return Object.keys(next).length > 0 ? next : undefined;
+};
+
+/**
+ * Remove every property's keyframe at a time; undefined once the layer has none left
+ */
+export function removeKeyframesAt(keyframes: LayerKeyframes | undefined, time: number): LayerKeyframes | undefined {
+  return mapFramesAt(keyframes, time, () => null);
+}
+
+/**
+ * Retime every property's keyframe at `from`, replacing any keyframe already at `to`
+ */
+export function moveKeyframesAt(keyframes: LayerKeyframes | undefined, from: number, to: number): LayerKeyframes {
+  const target = Math.max(0, to);
+  const next: LayerKeyframes = {};
+  KEYFRAME_PROPERTIES.forEach(({ property }) => {
+    const frames = keyframes?.[property] ?? [];
+    const moving = frames.filter(frame => sameTime(frame.time, from));
+    if (moving.length === 0) {
+      if (frames.length > 0) next[property] = frames;
+      return;
+    }
+    const kept = frames.filter(frame => !sameTime(frame.time, from) && !sameTime(frame.time, target));
+    next[property] = [...kept, ...moving.map(frame => ({ ...frame, time: target }))].sort(byTime);
+  });
+  return next;
+}
+
+export function getKeyframeEasingAt(keyframes: LayerKeyframes | undefined, time: number): KeyframeEasing | null {
+  for (const { property } of KEYFRAME_PROPERTIES) {
+    const frame = keyframes?.[property]?.find(f => sameTime(f.time, time));
+    if (frame) return frame.easing;
+  }
+  return null;
+}
+
+export function setKeyframeEasingAt(
+  keyframes: LayerKeyframes | undefined,
+  time: number,
+  easing: KeyframeEasing
+): LayerKeyframes | undefined {
+  return mapFramesAt(keyframes, time, frame => ({ ...frame, easing }));
+}
+
+/**
+ * Route a transform edit (canvas drag, resize, inspector) through keyframes
+ * Properties that are keyframed get a keyframe at the playhead instead of a new static value
+ */
+export function applyKeyframedUpdate(
+  layer: KeyframedLayer,
+  updates: Partial<KeyframedLayer>,
+  time: number
+): Partial<KeyframedLayer> {
+  if (!hasKeyframes(layer) || 'keyframes' in updates) return updates;
+
+  const localTime = Math.max(0, Math.min(layer.end - layer.start, time - layer.start));
+  const isKeyed = (property: KeyframeProperty) => (layer.keyframes?.[property]?.length ?? 0) > 0;
+  let keyframes = layer.keyframes;
+  const result: Partial<KeyframedLayer> = { ...updates };
+
+  if (updates.position) {
+    const position = { ...updates.position };
+    (['x', 'y'] as const).forEach(axis => {
+      if (!isKeyed(axis)) return;
+      keyframes = setKeyframe(keyframes, axis, localTime, updates.position![axis]);
+      position[axis] = layer.position[axis];
+    });
+    result.position = position;
+  }
+
+  (['scale', 'rotation'] as const).forEach(property => {
+    const value = updates[property];
+    if (value === undefined || !isKeyed(property)) return;
+    keyframes = setKeyframe(keyframes, property, localTime, value);
+    delete result[property];
+  });
+
+  if (keyframes !== layer.keyframes) result.keyframes = keyframes;
+  return result;
+}
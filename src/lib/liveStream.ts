@@ -0,0 +1,88 @@
+// Live streaming helpers - liveness rules, viewer counting and the signaling message shape
+// Pure logic shared by the broadcaster and viewer hooks; no WebRTC or Supabase imports
+
+// The broadcaster refreshes heartbeat_at on this interval while on air
+export const LIVE_HEARTBEAT_MS = 15_000;
+
+// A live whose heartbeat is older than this is treated as over (tab closed, connection lost)
+export const LIVE_STALE_AFTER_MS = 45_000;
+
+// Every viewer gets their own upload from the broadcaster, so the audience has to stay small
+export const MAX_LIVE_VIEWERS = 20;
+
+export const MAX_LIVE_COMMENTS = 200; // kept in memory per live
+
+export const LIVE_REACTIONS = ['❤️', '😂', '😮', '👏', '🔥'] as const;
+export type LiveReaction = typeof LIVE_REACTIONS[number];
+
+// Broadcast messages on the live:<id> channel; messages with a `to` are for one viewer only
+export interface LiveSignal {
+  type: 'viewer-join' | 'offer' | 'answer' | 'ice-candidate' | 'live-full' | 'live-ended';
+  from: string;
+  to?: string;
+  payload?: RTCSessionDescriptionInit | RTCIceCandidateInit | null;
+}
+
+export type LivePresenceRole = 'broadcaster' | 'viewer';
+
+export interface LivePresence {
+  userId: string;
+  role: LivePresenceRole;
+}
+
+export interface LiveStatusFields {
+  ended_at: string | null;
+  heartbeat_at: string;
+}
+
+/**
+ * Whether a live is still on air
+ */
+export function isLiveActive(live: LiveStatusFields, now: number = Date.now()): boolean {
+  if (live.ended_at) return false;
+  return now - new Date(live.heartbeat_at).getTime() <= LIVE_STALE_AFTER_MS;
+}
+
+/**
+ * Distinct viewers in a presence state - one person with several tabs counts once,
+ * and the broadcaster is not part of their own audience
+ */
+export function countLiveViewers(presenceState: Record<string, LivePresence[]>): number {
+  const viewers = new Set<string>();
+  Object.values(presenceState).forEach((entries) => {
+    entries.forEach((entry) => {
+      if (entry.role === 'viewer') viewers.add(entry.userId);
+    });
+  });
+  return viewers.size;
+}
+
+/**
+ * Compact count for the viewer badge, e.g. 950, 1.2K, 3M
+ */
+export function formatViewerCount(count: number): string {
+  if (count < 1000) return count.toString();
+  if (count < 1_000_000) return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0).replace(/\.0$/, '')}K`;
+  return `${(count / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+}
+
+/**
+ * Elapsed time on air, e.g. 4:05 or 1:02:09
+ */
+export function formatLiveDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${mins}:${pad(secs)}`;
+}
+
+/**
+ * Add a comment once (realtime can echo our own insert) and keep only the newest ones
+ */
+export function appendLiveComment<T extends { id: string }>(comments: T[], comment: T, max: number = MAX_LIVE_COMMENTS): T[] {
+  if (comments.some(c => c.id === comment.id)) return comments;
+  const next = [...comments, comment];
+  return next.length > max ? next.slice(next.length - max) : next;
+}
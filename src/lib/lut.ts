@@ -0,0 +1,162 @@
+// LUT - Parses .cube 3D lookup tables for the filter pipeline
+// Tables are cached by URL; the GPU gets them as a 2D strip of blue slices (WebGL1 has no 3D textures)
+
+// Largest table accepted - a 64³ strip is 4096 texels wide, the smallest max texture size we target
+export const MAX_LUT_SIZE = 64;
+
+export interface CubeLut {
+  title: string | null;
+  size: number; // entries per axis
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  data: Float32Array; // size³ RGB triplets, red changing fastest
+}
+
+function parseTriplet(parts: string[], line: number): [number, number, number] {
+  const values = parts.map(Number);
+  if (values.length !== 3 || values.some(value => !Number.isFinite(value))) {
+    throw new Error(`Invalid .cube value on line ${line}`);
+  }
+  return values as [number, number, number];
+}
+
+/**
+ * Parse the text of a .cube file (Adobe/Resolve format)
+ * Throws a readable Error for 1D tables, oversized tables and malformed data
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let title: string | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [keyword, ...rest] = line.split(/\s+/);
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice('TITLE'.length).trim().replace(/^"|"$/g, '') || null;
+        break;
+      case 'LUT_1D_SIZE':
+        throw new Error('Only 3D LUTs are supported');
+      case 'LUT_3D_SIZE':
+        size = Number(rest[0]);
+        if (!Number.isInteger(size) || size < 2) {
+          throw new Error(`Invalid LUT_3D_SIZE on line ${i + 1}`);
+        }
+        if (size > MAX_LUT_SIZE) {
+          throw new Error(`LUTs larger than ${MAX_LUT_SIZE}³ are not supported`);
+        }
+        break;
+      case 'DOMAIN_MIN':
+        domainMin = parseTriplet(rest, i + 1);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriplet(rest, i + 1);
+        break;
+      default:
+        // Unknown keywords (e.g. LUT_3D_INPUT_RANGE) are skipped; anything numeric is table data
+        if (/^[-+.\d]/.test(keyword)) {
+          values.push(...parseTriplet([keyword, ...rest], i + 1));
+        }
+    }
+  }
+
+  if (!size) throw new Error('Missing LUT_3D_SIZE');
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Expected ${size ** 3} entries, found ${values.length / 3}`);
+  }
+  if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+    throw new Error('DOMAIN_MIN must be below DOMAIN_MAX');
+  }
+
+  return { title, size, domainMin, domainMax, data: new Float32Array(values) };
+}
+
+/**
+ * Look up a colour (0-1 channels) with trilinear interpolation - the CPU twin of the shader lookup
+ */
+export function sampleLut(lut: CubeLut, r: number, g: number, b: number): [number, number, number] {
+  const { size, data, domainMin, domainMax } = lut;
+  const scale = size - 1;
+  const position = [r, g, b].map((value, channel) => {
+    const normalized = (value - domainMin[channel]) / (domainMax[channel] - domainMin[channel]);
+    return Math.max(0, Math.min(1, normalized)) * scale;
+  });
+  const low = position.map(Math.floor);
+  const high = low.map(value => Math.min(value + 1, scale));
+  const [fr, fg, fb] = position.map((value, channel) => value - low[channel]);
+
+  const at = (ri: number, gi: number, bi: number, channel: number) => data[(ri + gi * size + bi * size * size) * 3 + channel];
+  const result: [number, number, number] = [0, 0, 0];
+  for (let channel = 0; channel < 3; channel++) {
+    const c00 = at(low[0], low[1], low[2], channel) * (1 - fr) + at(high[0], low[1], low[2], channel) * fr;
+    const c10 = at(low[0], high[1], low[2], channel) * (1 - fr) + at(high[0], high[1], low[2], channel) * fr;
+    const c01 = at(low[0], low[1], high[2], channel) * (1 - fr) + at(high[0], low[1], high[2], channel) * fr;
+    const c11 = at(low[0], high[1], high[2], channel) * (1 - fr) + at(high[0], high[1], high[2], channel) * fr;
+    const c0 = c00 * (1 - fg) + c10 * fg;
+    const c1 = c01 * (1 - fg) + c11 * fg;
+    result[channel] = c0 * (1 - fb) + c1 * fb;
+  }
+  return result;
+}
+
+/**
+ * RGBA bytes for the GPU: blue slices side by side, size² wide and size tall
+ * Texel (r + b * size, g) holds entry (r, g, b)
+ */
+export function packLutTexture(lut: CubeLut): Uint8Array {
+  const { size, data } = lut;
+  const pixels = new Uint8Array(size * size * size * 4);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const source = (r + g * size + b * size * size) * 3;
+        const target = (g * size * size + b * size + r) * 4;
+        for (let channel = 0; channel < 3; channel++) {
+          pixels[target + channel] = Math.round(Math.max(0, Math.min(1, data[source + channel])) * 255);
+        }
+        pixels[target + 3] = 255;
+      }
+    }
+  }
+  return pixels;
+}
+
+// Parsed tables per URL for this session - the promise is cached so every clip shares one fetch
+const lutCache = new Map<string, Promise<CubeLut>>();
+const loadedLuts = new Map<string, CubeLut>();
+
+/**
+ * Fetch and parse a .cube file; failures are not cached so a later attempt can retry
+ */
+export function loadLut(url: string): Promise<CubeLut> {
+  const cached = lutCache.get(url);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch LUT (${response.status})`);
+    }
+    const lut = parseCubeLut(await response.text());
+    loadedLuts.set(url, lut);
+    console.log(`[FILTERS] LUT loaded -> ${lut.title ?? url} ${lut.size}³`);
+    return lut;
+  })();
+
+  lutCache.set(url, pending);
+  pending.catch(() => lutCache.delete(url));
+  return pending;
+}
+
+/**
+ * A LUT that has already finished loading, for drawing synchronously each frame
+ */
+export function getLoadedLut(url: string): CubeLut | null {
+  return loadedLuts.get(url) ?? null;
+}
@@ -0,0 +1,45 @@
+// Message edits - Who can edit or unsend a message, and for how long
+// The 15 minute window matches edit_message() in the database, which has the final say
+
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+interface EditableMessage {
+  sender_id: string;
+  created_at: string;
+  content?: string | null;
+  is_encrypted?: boolean | null;
+  is_system?: boolean | null;
+  unsent_at?: string | null;
+  message_type?: string | null;
+  is_sticker?: boolean | null;
+  is_gif?: boolean | null;
+}
+
+export function isUnsentMessage(message: { unsent_at?: string | null }): boolean {
+  return !!message.unsent_at;
+}
+
+/**
+ * Own text messages (plain or encrypted) can be edited until the window closes
+ */
+export function canEditMessage(message: EditableMessage, currentUserId?: string, now = Date.now()): boolean {
+  if (!currentUserId || message.sender_id !== currentUserId) return false;
+  if (message.is_system || isUnsentMessage(message)) return false;
+  if (message.is_sticker || message.is_gif || message.message_type === 'sticker' || message.message_type === 'gif') return false;
+  if (!message.content && !message.is_encrypted) return false;
+  return now - Date.parse(message.created_at) < MESSAGE_EDIT_WINDOW_MS;
+}
+
+/**
+ * Own messages can be unsent at any time
+ */
+export function canUnsendMessage(message: EditableMessage, currentUserId?: string): boolean {
+  return !!currentUserId && message.sender_id === currentUserId && !message.is_system && !isUnsentMessage(message);
+}
+
+/**
+ * Minutes left to edit, for the edit box hint; 0 once the window has closed
+ */
+export function getEditMinutesLeft(createdAt: string, now = Date.now()): number {
+  return Math.max(0, Math.ceil((Date.parse(createdAt) + MESSAGE_EDIT_WINDOW_MS - now) / 60000));
+}
@@ -0,0 +1,335 @@
+// Message encryption service - device identity, key directory and envelopes for direct messages
+// The device private key is kept in IndexedDB (non-extractable); its public key is published to user_device_keys.
+// Messages are encrypted for every device of every participant at send time, so devices added later
+// cannot read older messages and removed devices stop receiving new ones. Removed keys are only revoked,
+// so messages a removed device already sent can still be verified.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  decryptEnvelope,
+  encryptForDevices,
+  exportPublicKeyHex,
+  generateDeviceKeyPair,
+  isE2EEnvelope,
+  isE2ESupported,
+} from '@/lib/e2ee';
+
+export interface DeviceIdentity {
+  deviceId: string; // user_device_keys.id
+  userId: string;
+  publicKeyHex: string;
+  privateKey: CryptoKey;
+}
+
+export interface DeviceKeyRow {
+  id: string;
+  user_id: string;
+  device_name: string;
+  hex_key: string;
+  last_seen_at: string;
+  created_at: string;
+}
+
+export interface EncryptedContentFields {
+  content: string | null;
+  is_encrypted: boolean;
+  e2e_envelope: Json | null;
+}
+
+export interface DecryptionResult {
+  text: string | null;
+  error?: string;
+}
+
+/**
+ * A direct message could not be encrypted for everyone in the conversation, so it was not sent
+ */
+export class EncryptionUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionUnavailableError';
+  }
+}
+
+export interface EncryptableMessage {
+  id: string;
+  sender_id?: string;
+  content?: string | null;
+  is_encrypted?: boolean | null;
+  e2e_envelope?: unknown;
+  edited_at?: string | null; // an edit replaces the envelope, so it is part of the cache key
+}
+
+const DB_NAME = 'tone-e2ee';
+const STORE_NAME = 'device_identities';
+
+// ==================== Local key store ====================
+
+function openKeyStore(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'userId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runKeyStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openKeyStore();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function getDeviceName(): string {
+  if (typeof navigator === 'undefined') return 'Unknown';
+  const ua = navigator.userAgent;
+  if (/Edg\//.test(ua)) return 'Edge';
+  if (/OPR\//.test(ua)) return 'Opera';
+  if (/Firefox\//.test(ua)) return 'Firefox';
+  if (/Chrome\//.test(ua)) return 'Chrome';
+  if (/Safari\//.test(ua)) return 'Safari';
+  return 'Browser';
+}
+
+// ==================== Device identity ====================
+
+const identityPromises = new Map<string, Promise<DeviceIdentity | null>>();
+
+async function registerDevice(userId: string): Promise<DeviceIdentity> {
+  const keyPair = await generateDeviceKeyPair();
+  const publicKeyHex = await exportPublicKeyHex(keyPair.publicKey);
+
+  const { data, error } = await supabase
+    .from('user_device_keys')
+    .insert({ user_id: userId, device_name: getDeviceName(), hex_key: publicKeyHex })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  const identity: DeviceIdentity = { deviceId: data.id, userId, publicKeyHex, privateKey: keyPair.privateKey };
+  await runKeyStore('readwrite', store => store.put(identity));
+  console.log('[E2EE] Registered device key', data.id);
+  return identity;
+}
+
+async function loadDeviceIdentity(userId: string): Promise<DeviceIdentity | null> {
+  if (!isE2ESupported() || typeof indexedDB === 'undefined') {
+    console.warn('[E2EE] WebCrypto or IndexedDB unavailable, encryption disabled on this device');
+    return null;
+  }
+
+  const stored = await runKeyStore<DeviceIdentity | undefined>('readonly', store => store.get(userId));
+  if (stored) {
+    const { data, error } = await supabase
+      .from('user_device_keys')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', stored.deviceId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('hex_key')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data?.hex_key === stored.publicKeyHex) return stored;
+
+    // The key was revoked from another device - this device gets a fresh identity
+    console.log('[E2EE] Device key no longer published, registering a new one');
+  }
+
+  return registerDevice(userId);
+}
+
+/**
+ * This device's key pair for the user, created and published on first use
+ * Returns null when the browser cannot do E2EE (messages are then sent unencrypted)
+ */
+export function getDeviceIdentity(userId: string): Promise<DeviceIdentity | null> {
+  let promise = identityPromises.get(userId);
+  if (!promise) {
+    promise = loadDeviceIdentity(userId).catch((error) => {
+      console.error('[E2EE] Failed to load device identity:', error);
+      identityPromises.delete(userId); // retry on next use
+      return null;
+    });
+    identityPromises.set(userId, promise);
+  }
+  return promise;
+}
+
+/**
+ * Revoke a published device key so it gets no new messages. The row is kept because recipients
+ * still verify that device's older messages against it. Revoking this device's own key also forgets
+ * the local private key
+ */
+export async function removeDeviceKey(userId: string, deviceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_device_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', deviceId)
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+
+  const current = await identityPromises.get(userId);
+  if (current?.deviceId === deviceId) {
+    identityPromises.delete(userId);
+    await runKeyStore('readwrite', store => store.delete(userId));
+  }
+}
+
+// ==================== Key directory ====================
+
+export async function getConversationDeviceKeys(conversationId: string): Promise<{
+  userIds: string[];
+  devices: DeviceKeyRow[];
+}> {
+  const { data: participants, error } = await supabase
+    .from('conversation_participants')
+    .select('user_id')
+    .eq('conversation_id', conversationId);
+
+  if (error) throw error;
+
+  const userIds = (participants || []).map(p => p.user_id);
+  if (userIds.length === 0) return { userIds, devices: [] };
+
+  const { data: devices, error: keysError } = await supabase
+    .from('user_device_keys')
+    .select('id, user_id, device_name, hex_key, last_seen_at, created_at')
+    .in('user_id', userIds)
+    .is('revoked_at', null);
+
+  if (keysError) throw keysError;
+
+  return { userIds, devices: devices || [] };
+}
+
+// ==================== Encrypt / decrypt ====================
+
+const decryptionCache = new Map<string, Promise<DecryptionResult>>();
+const senderKeyCache = new Map<string, Promise<DeviceKeyRow | null>>();
+
+const cacheKey = (messageId: string, editedAt?: string | null) => editedAt ? `${messageId}@${editedAt}` : messageId;
+
+/**
+ * Message columns for a direct message. Never falls back to plaintext: throws
+ * EncryptionUnavailableError when this device or a participant has no key
+ */
+export async function encryptMessageContent(
+  conversationId: string,
+  senderId: string,
+  text: string
+): Promise<EncryptedContentFields> {
+  const identity = await getDeviceIdentity(senderId);
+  if (!identity) {
+    throw new EncryptionUnavailableError("This browser can't encrypt messages, so your message wasn't sent");
+  }
+
+  const { userIds, devices } = await getConversationDeviceKeys(conversationId);
+  const missing = userIds.filter(id => !devices.some(d => d.user_id === id));
+  if (missing.length > 0) {
+    console.warn('[E2EE] Participants without device keys, not sending:', missing);
+    throw new EncryptionUnavailableError(
+      "Your message wasn't sent because this chat can't be encrypted yet. Try again once the other person has opened Tone"
+    );
+  }
+
+  const envelope = await encryptForDevices(
+    text,
+    identity,
+    devices.map(d => ({ deviceId: d.id, publicKeyHex: d.hex_key }))
+  );
+  console.log('[E2EE] Encrypted message for', devices.length, 'devices');
+
+  return { content: null, is_encrypted: true, e2e_envelope: envelope as unknown as Json };
+}
+
+/**
+ * Remember the plaintext of a message this device just sent so it renders without a round trip
+ */
+export function primeDecryptedMessage(messageId: string, text: string, editedAt?: string | null): void {
+  decryptionCache.set(cacheKey(messageId, editedAt), Promise.resolve({ text }));
+}
+
+// Revoked keys are included: they still vouch for messages sent before the device was removed
+function getSenderDevice(deviceId: string): Promise<DeviceKeyRow | null> {
+  let promise = senderKeyCache.get(deviceId);
+  if (!promise) {
+    promise = Promise.resolve(
+      supabase
+        .from('user_device_keys')
+        .select('id, user_id, device_name, hex_key, last_seen_at, created_at')
+        .eq('id', deviceId)
+        .maybeSingle()
+    ).then(({ data, error }) => {
+      if (error) {
+        senderKeyCache.delete(deviceId);
+        throw error;
+      }
+      return data;
+    });
+    senderKeyCache.set(deviceId, promise);
+  }
+  return promise;
+}
+
+async function decryptUncached(message: EncryptableMessage, userId: string): Promise<DecryptionResult> {
+  const envelope = message.e2e_envelope;
+  if (!isE2EEnvelope(envelope)) {
+    return { text: null, error: 'Encrypted message is malformed' };
+  }
+
+  const identity = await getDeviceIdentity(userId);
+  if (!identity) {
+    return { text: null, error: 'Encryption is not available in this browser' };
+  }
+  if (!envelope.keys[identity.deviceId]) {
+    return { text: null, error: 'Sent before this device was set up' };
+  }
+
+  // The embedded sender key is never trusted on its own: it must match a key the sender has published
+  const senderDevice = await getSenderDevice(envelope.senderDeviceId);
+  if (!senderDevice) {
+    return { text: null, error: "The sender's device can't be verified" };
+  }
+  if (senderDevice.user_id !== message.sender_id || senderDevice.hex_key !== envelope.senderKey) {
+    return { text: null, error: 'Sender key does not match' };
+  }
+
+  try {
+    const text = await decryptEnvelope(envelope, identity, senderDevice.hex_key);
+    return { text };
+  } catch (error) {
+    console.error('[E2EE] Failed to decrypt message', message.id, error);
+    return { text: null, error: 'Unable to decrypt this message' };
+  }
+}
+
+export function decryptMessage(message: EncryptableMessage, userId: string): Promise<DecryptionResult> {
+  const key = cacheKey(message.id, message.edited_at);
+  let promise = decryptionCache.get(key);
+  if (!promise) {
+    promise = decryptUncached(message, userId).catch((error) => {
+      console.error('[E2EE] Decryption error:', error);
+      decryptionCache.delete(key); // network failures can be retried
+      return { text: null, error: 'Unable to decrypt this message' };
+    });
+    decryptionCache.set(key, promise);
+  }
+  return promise;
+}
@@ -0,0 +1,83 @@
+// Message search - Query terms, matching and highlighting for in-chat and global message search
+// Mirrors message_search_query() in the database: every query word must prefix a word of the message
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const WORD_SEPARATOR = /[^\p{L}\p{N}]+/u;
+
+/**
+ * Lowercased query words; punctuation splits words the same way the search index does
+ */
+export function getSearchTerms(query: string): string[] {
+  return query.toLowerCase().split(WORD_SEPARATOR).filter(Boolean);
+}
+
+/**
+ * Whether every term prefixes some word of the text - used for messages the server can't search
+ */
+export function matchesSearchTerms(text: string | null | undefined, terms: string[]): boolean {
+  if (!text || terms.length === 0) return false;
+  const words = getSearchTerms(text);
+  return terms.every(term => words.some(word => word.startsWith(term)));
+}
+
+/**
+ * File name to show and search for an attachment; older messages only have the URL
+ */
+export function getAttachmentName(url?: string | null, name?: string | null): string | null {
+  if (name) return name;
+  if (!url) return null;
+  const fileName = url.split('?')[0].split('/').pop();
+  if (!fileName) return null;
+  try {
+    return decodeURIComponent(fileName);
+  } catch {
+    return fileName;
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split text into plain and matching runs; a match is a term at the start of a word
+ */
+export function getHighlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (!text) return [];
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // Longest terms first so "report" wins over "re" at the same position
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})`, 'giu');
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const found of text.matchAll(pattern)) {
+    const index = found.index ?? 0;
+    if (index > lastIndex) segments.push({ text: text.slice(lastIndex, index), match: false });
+    segments.push({ text: found[0], match: true });
+    lastIndex = index + found[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false });
+  return segments;
+}
+
+/**
+ * Excerpt of a long message centred on its first match, with ellipses where it was cut
+ */
+export function getSearchSnippet(text: string, terms: string[], radius = 60): string {
+  if (text.length <= radius * 2) return text;
+
+  let matchStart = 0;
+  for (const segment of getHighlightSegments(text, terms)) {
+    if (segment.match) break;
+    matchStart += segment.text.length;
+  }
+  if (matchStart >= text.length) matchStart = 0;
+
+  const start = Math.max(0, matchStart - radius);
+  const end = Math.min(text.length, start + radius * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
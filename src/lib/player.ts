@@ -3,8 +3,10 @@
 // No blob URLs stored - uses permanent Supabase storage URLs only
 
 import { VideoLayer } from '@/types/editor';
+import { ActiveTransition, getTransitionAt, sortAndLayoutVideoClips } from '@/lib/transitions';
+import { getClipLocalTime, getSourceEnd, getSourceTime, getSpeedAt } from '@/lib/clipTiming';
 
-export type PlayerEvent = 'timeupdate' | 'clipchange' | 'cliploaded' | 'error' | 'statechange' | 'durationchange' | 'ready' | 'play' | 'pause' | 'ended';
+export type PlayerEvent = 'timeupdate' | 'clipchange' | 'cliploaded' | 'error' | 'statechange' | 'durationchange' | 'ready' | 'play' | 'pause' | 'ended' | 'transition';
 
 export interface PlayerState {
   isPlaying: boolean;
@@ -35,7 +37,12 @@ export class VideoPlayer {
   private preloadQueue: number[] = [];
   private isDestroyed = false;
   private isTransitioning = false;
-  private clipBoundaries: { start: number; end: number; duration: number }[] = [];
+  // Timeline span of each clip and the stretch of source media it plays (differs when speed != 1)
+  private clipBoundaries: { start: number; end: number; duration: number; sourceStart: number; sourceEnd: number }[] = [];
+  // Second element the canvas shows the incoming clip in while a transition plays
+  private transitionElement: HTMLVideoElement | null = null;
+  private activeTransition: ActiveTransition | null = null;
+  private isTransitionHeld = false;
 
   private boundHandlers = {
     canplaythrough: null as (() => void) | null,
@@ -49,7 +56,7 @@ export class VideoPlayer {
   };
 
   constructor() {
-    const events: PlayerEvent[] = ['timeupdate', 'clipchange', 'cliploaded', 'error', 'statechange', 'durationchange', 'ready', 'play', 'pause', 'ended'];
+    const events: PlayerEvent[] = ['timeupdate', 'clipchange', 'cliploaded', 'error', 'statechange', 'durationchange', 'ready', 'play', 'pause', 'ended', 'transition'];
     events.forEach(event => this.eventListeners.set(event, new Set()));
     console.log('[PLAYER] ✅ Created new VideoPlayer instance');
   }
@@ -88,32 +95,98 @@ export class VideoPlayer {
     }
     
     this.emit('durationchange', { duration: this.getTotalDuration() });
+    this.syncTransition();
   }
 
+  // Clips play back to back; a transition pulls the next clip in so the two overlap
+  // Speed changes how long a clip lasts on the timeline, not how much of the source it plays
   private computeClipBoundaries(clips: VideoLayer[]): VideoLayer[] {
-    clips.sort((a, b) => a.start - b.start);
-    
-    let cumulativeTime = 0;
-    this.clipBoundaries = [];
-    
-    return clips.map(clip => {
-      const duration = clip.duration || (clip.end - clip.start) || 5;
-      const boundary = {
-        start: cumulativeTime,
-        end: cumulativeTime + duration,
-        duration,
-      };
-      this.clipBoundaries.push(boundary);
-      
-      const updatedClip = {
-        ...clip,
-        start: cumulativeTime,
-        end: cumulativeTime + duration,
-        duration,
-      };
-      cumulativeTime += duration;
-      return updatedClip;
-    });
+    const laidOut = sortAndLayoutVideoClips(clips);
+    this.clipBoundaries = laidOut.map(clip => ({
+      start: clip.start,
+      end: clip.end,
+      duration: clip.end - clip.start,
+      sourceStart: clip.sourceStart || 0,
+      sourceEnd: getSourceEnd(clip),
+    }));
+    return laidOut;
+  }
+
+  // Match the element's rate to the clip's speed - a ramp changes it as the clip plays
+  private applyPlaybackRate(element: HTMLVideoElement | null, clip: VideoLayer | undefined, localTime: number): void {
+    if (!element || !clip) return;
+    const rate = getSpeedAt(clip, localTime);
+    if (Math.abs(element.playbackRate - rate) > 0.01) {
+      element.playbackRate = rate;
+    }
+  }
+
+  /**
+   * Give the player the element the incoming clip of a transition plays in
+   * It stays muted - the outgoing clip carries the sound through the overlap
+   */
+  attachTransitionElement(element: HTMLVideoElement | null): void {
+    if (this.transitionElement && this.transitionElement !== element) {
+      this.transitionElement.pause();
+    }
+    this.transitionElement = element;
+    if (element) {
+      element.muted = true;
+      element.playsInline = true;
+    }
+    this.syncTransition();
+  }
+
+  getActiveTransition(): ActiveTransition | null {
+    return this.activeTransition;
+  }
+
+  // Keep the incoming clip in step with the timeline while a transition is on screen
+  private syncTransition(): void {
+    const active = this.isTransitionHeld
+      ? this.activeTransition
+      : getTransitionAt(this.clips, this.globalTime);
+
+    if (!active) {
+      if (this.activeTransition) {
+        this.activeTransition = null;
+        this.transitionElement?.pause();
+        this.emit('transition', null);
+      }
+      return;
+    }
+
+    const element = this.transitionElement;
+    const incoming = this.clips[active.toIndex];
+    if (element && incoming) {
+      if (element.src.split('?')[0] !== incoming.src.split('?')[0]) {
+        element.src = incoming.src;
+        element.load();
+      }
+      if (!this.isTransitionHeld) {
+        const localTime = this.globalTime - incoming.start;
+        const sourceTime = getSourceTime(incoming, localTime);
+        if (Math.abs(element.currentTime - sourceTime) > 0.25) {
+          element.currentTime = sourceTime;
+        }
+        this.applyPlaybackRate(element, incoming, localTime);
+      }
+      if (this.isPlaying && !this.isScrubbing && element.paused) {
+        element.play().catch(() => {});
+      } else if ((!this.isPlaying || this.isScrubbing) && !element.paused) {
+        element.pause();
+      }
+    }
+
+    this.activeTransition = active;
+    this.emit('transition', active);
+  }
+
+  // Once the main element has caught up with the incoming clip the overlay can go
+  private releaseTransitionHold(): void {
+    if (!this.isTransitionHeld) return;
+    this.isTransitionHeld = false;
+    this.syncTransition();
   }
 
   getTotalDuration(): number {
@@ -200,7 +273,7 @@ export class VideoPlayer {
     console.log(`[PLAYER] [${timestamp}]   URL: ${clip.src?.slice(0, 60)}...`);
 
     this.isLoading = true;
-    this.pendingSeek = seekToLocalTime;
+    this.pendingSeek = getSourceTime(clip, seekToLocalTime);
     
     const previousIndex = this.currentClipIndex;
     this.currentClipIndex = index;
@@ -235,10 +308,12 @@ export class VideoPlayer {
       video.load();
     } else {
       console.log(`[PLAYER] [${timestamp}] Same src, seeking to: ${seekToLocalTime.toFixed(2)}s`);
-      video.currentTime = seekToLocalTime;
+      video.currentTime = getSourceTime(clip, seekToLocalTime);
+      this.applyPlaybackRate(video, clip, seekToLocalTime);
       this.isLoading = false;
       this.pendingSeek = null;
       this.emit('cliploaded', { index, clip });
+      this.releaseTransitionHold();
       
       if (this.isPlaying && !this.isScrubbing) {
         this.playVideoElement();
@@ -369,6 +444,7 @@ export class VideoPlayer {
     this.videoElement.pause();
     
     this.stopTimeUpdateLoop();
+    this.syncTransition();
     this.emit('pause', { time: this.globalTime, clipIndex: this.currentClipIndex });
     this.emit('statechange', this.getState());
   }
@@ -410,6 +486,7 @@ export class VideoPlayer {
     }
 
     this.globalTime = clampedTime;
+    this.isTransitionHeld = false;
     console.log(`[PLAYER] [${timestamp}]   Target clip: ${clipInfo.clipIndex}, local: ${clipInfo.localTime.toFixed(2)}s`);
 
     if (clipInfo.clipIndex !== this.currentClipIndex) {
@@ -417,15 +494,21 @@ export class VideoPlayer {
       await this.loadClip(clipInfo.clipIndex, clipInfo.localTime);
     } else if (this.videoElement) {
       console.log(`[PLAYER] [${timestamp}]   Seeking within clip to: ${clipInfo.localTime.toFixed(2)}s`);
-      this.videoElement.currentTime = clipInfo.localTime;
+      this.videoElement.currentTime = clipInfo.sourceTime;
+      this.applyPlaybackRate(this.videoElement, clipInfo.clip, clipInfo.localTime);
     }
 
     this.emit('timeupdate', { time: this.globalTime, clipIndex: this.currentClipIndex });
+    this.syncTransition();
   }
 
-  globalTimeToClipTime(globalTime: number): { clipIndex: number; clip: VideoLayer | null; localTime: number } {
+  /**
+   * Clip under a timeline time; localTime is seconds into the clip on the timeline,
+   * sourceTime is where the clip's media should be at that moment
+   */
+  globalTimeToClipTime(globalTime: number): { clipIndex: number; clip: VideoLayer | null; localTime: number; sourceTime: number } {
     if (this.clips.length === 0) {
-      return { clipIndex: -1, clip: null, localTime: 0 };
+      return { clipIndex: -1, clip: null, localTime: 0, sourceTime: 0 };
     }
 
     const clampedTime = Math.max(0, Math.min(globalTime, this.getTotalDuration()));
@@ -434,7 +517,7 @@ export class VideoPlayer {
       const clip = this.clips[i];
       if (clampedTime >= clip.start && clampedTime < clip.end) {
         const localTime = clampedTime - clip.start;
-        return { clipIndex: i, clip, localTime };
+        return { clipIndex: i, clip, localTime, sourceTime: getSourceTime(clip, localTime) };
       }
     }
 
@@ -443,11 +526,12 @@ export class VideoPlayer {
       return { 
         clipIndex: this.clips.length - 1, 
         clip: lastClip, 
-        localTime: lastClip.end - lastClip.start 
+        localTime: lastClip.end - lastClip.start,
+        sourceTime: getSourceEnd(lastClip),
       };
     }
 
-    return { clipIndex: 0, clip: this.clips[0], localTime: 0 };
+    return { clipIndex: 0, clip: this.clips[0], localTime: 0, sourceTime: getSourceTime(this.clips[0], 0) };
   }
 
   clipTimeToGlobalTime(clipIndex: number, localTime: number): number {
@@ -456,6 +540,15 @@ export class VideoPlayer {
     return clip.start + localTime;
   }
 
+  /**
+   * Timeline time for a position in a clip's source media (the video element's currentTime)
+   */
+  sourceTimeToGlobalTime(clipIndex: number, sourceTime: number): number {
+    if (clipIndex < 0 || clipIndex >= this.clips.length) return 0;
+    const clip = this.clips[clipIndex];
+    return clip.start + getClipLocalTime(clip, sourceTime);
+  }
+
   on(event: PlayerEvent, handler: EventHandler): void {
     const handlers = this.eventListeners.get(event);
     if (handlers) {
@@ -503,6 +596,12 @@ export class VideoPlayer {
     this.stopTimeUpdateLoop();
     this.detachVideoListeners();
     this.cleanupPreloadedClips();
+
+    if (this.transitionElement) {
+      this.transitionElement.pause();
+      this.transitionElement.removeAttribute('src');
+      this.transitionElement = null;
+    }
     
     if (this.videoElement) {
       this.videoElement.pause();
@@ -522,6 +621,8 @@ export class VideoPlayer {
     this.isScrubbing = false;
     this.pendingSeek = null;
     this.isTransitioning = false;
+    this.activeTransition = null;
+    this.isTransitionHeld = false;
     
     console.log('[PLAYER] 🧹 destroy() - Complete');
   }
@@ -600,14 +701,15 @@ export class VideoPlayer {
     // Skip if loading, scrubbing, or transitioning
     if (this.isLoading || this.isScrubbing || this.isTransitioning) return;
     
-    const localTime = this.videoElement.currentTime;
+    const sourceTime = this.videoElement.currentTime;
     const clip = this.clips[this.currentClipIndex];
+    const bounds = this.clipBoundaries[this.currentClipIndex];
     
-    if (clip && this.isPlaying) {
-      const clipDuration = clip.duration || (clip.end - clip.start);
-      // Check if we're near the end of the clip (within 0.15s to catch edge cases)
-      if (localTime >= clipDuration - 0.15) {
-        console.log(`[PLAYER] 📍 Near clip end: localTime=${localTime.toFixed(2)}, clipDuration=${clipDuration.toFixed(2)}`);
+    if (clip && bounds && this.isPlaying) {
+      // Check if we're near the clip's out-point (within 0.15s of timeline to catch edge cases)
+      const margin = 0.15 * this.videoElement.playbackRate;
+      if (sourceTime >= bounds.sourceEnd - margin) {
+        console.log(`[PLAYER] 📍 Near clip end: sourceTime=${sourceTime.toFixed(2)}, sourceEnd=${bounds.sourceEnd.toFixed(2)}`);
         this.handleClipEnd();
       }
     }
@@ -629,12 +731,20 @@ export class VideoPlayer {
       const nextClip = this.clips[nextIndex];
       console.log(`[PLAYER] [${timestamp}] ➡️ AUTO-ADVANCING: clip ${this.currentClipIndex} → ${nextIndex} (${nextClip.fileName})`);
       
-      // Update global time to start of next clip
-      this.globalTime = nextClip.start;
+      // Global time carries on from the end of this clip - with a transition
+      // the next clip has already been playing for the length of the overlap
+      const currentClip = this.clips[this.currentClipIndex];
+      this.globalTime = currentClip.end;
       this.emit('timeupdate', { time: this.globalTime, clipIndex: nextIndex });
+
+      // Keep the incoming clip on screen until the main element has loaded it
+      if (this.activeTransition?.toIndex === nextIndex) {
+        this.isTransitionHeld = true;
+        this.activeTransition = { ...this.activeTransition, progress: 1 };
+        this.emit('transition', this.activeTransition);
+      }
       
-      // Load next clip at time 0
-      this.loadClip(nextIndex, 0).then(() => {
+      this.loadClip(nextIndex, this.globalTime - nextClip.start).then(() => {
         console.log(`[PLAYER] [${new Date().toISOString().slice(11, 23)}] ✅ Clip ${nextIndex} loaded, starting playback`);
         this.isTransitioning = false;
         
@@ -673,9 +783,14 @@ export class VideoPlayer {
       this.videoElement.currentTime = this.pendingSeek;
       this.pendingSeek = null;
     }
+    // A new src resets the element's rate
+    if (clip && this.videoElement) {
+      this.applyPlaybackRate(this.videoElement, clip, getClipLocalTime(clip, this.videoElement.currentTime));
+    }
 
     this.emit('cliploaded', { index: this.currentClipIndex, clip });
     this.emit('statechange', this.getState());
+    this.releaseTransitionHold();
 
     // Auto-play if we're supposed to be playing (including after transition)
     if (this.isPlaying && !this.isScrubbing && this.videoElement) {
@@ -741,9 +856,12 @@ export class VideoPlayer {
       if (this.isPlaying && this.videoElement && !this.isLoading && !this.isScrubbing) {
         const now = performance.now();
         if (now - this.lastTimeUpdate >= 16) {
-          const localTime = this.videoElement.currentTime;
-          this.globalTime = this.clipTimeToGlobalTime(this.currentClipIndex, localTime);
+          const sourceTime = this.videoElement.currentTime;
+          this.globalTime = this.sourceTimeToGlobalTime(this.currentClipIndex, sourceTime);
+          const clip = this.clips[this.currentClipIndex];
+          this.applyPlaybackRate(this.videoElement, clip, this.globalTime - (clip?.start ?? 0));
           this.emit('timeupdate', { time: this.globalTime, clipIndex: this.currentClipIndex });
+          this.syncTransition();
           this.lastTimeUpdate = now;
         }
       }
@@ -0,0 +1,62 @@
+// Presence - Online, typing and "last active" helpers for messaging
+// Typing comes from per-conversation realtime presence. Online and last-active both come from
+// get_last_active() in the database, which only answers for people the caller shares a conversation with
+
+export const TYPING_IDLE_MS = 5000; // stop showing "typing" after this long without a keystroke
+export const LAST_ACTIVE_HEARTBEAT_MS = 30 * 1000;
+export const LAST_ACTIVE_REFRESH_MS = 30 * 1000;
+const ONLINE_WINDOW_MS = 75 * 1000; // a missed heartbeat plus a refresh interval of slack
+const LAST_ACTIVE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // older than this isn't worth showing
+
+export interface PresenceEntry {
+  userId: string;
+  typing?: boolean;
+}
+
+/**
+ * Online means the app sent a heartbeat recently, so it is open and in front of the user
+ */
+export function isRecentlyActive(lastActiveAt: string | null | undefined, now = Date.now()): boolean {
+  if (!lastActiveAt) return false;
+  const elapsed = now - Date.parse(lastActiveAt);
+  return !Number.isNaN(elapsed) && elapsed < ONLINE_WINDOW_MS;
+}
+
+/**
+ * Other users typing in any of their tabs
+ */
+export function getTypingUserIds(presenceState: Record<string, PresenceEntry[]>, currentUserId?: string): string[] {
+  const userIds = new Set<string>();
+  Object.values(presenceState).forEach((entries) => {
+    entries.forEach((entry) => {
+      if (entry.typing && entry.userId !== currentUserId) userIds.add(entry.userId);
+    });
+  });
+  return [...userIds];
+}
+
+/**
+ * "Active now", "Active 5m ago", "Active 3h ago", "Active 2d ago"; null when unknown or too old
+ */
+export function formatLastActive(lastActiveAt: string | null | undefined, now = Date.now()): string | null {
+  if (!lastActiveAt) return null;
+  const elapsed = Math.max(0, now - Date.parse(lastActiveAt));
+  if (Number.isNaN(elapsed) || elapsed >= LAST_ACTIVE_MAX_AGE_MS) return null;
+
+  const minutes = Math.floor(elapsed / 60000);
+  if (minutes < 1) return 'Active now';
+  if (minutes < 60) return `Active ${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours}h ago`;
+  return `Active ${Math.floor(hours / 24)}d ago`;
+}
+
+/**
+ * "Ana is typing…", "Ana and Ben are typing…", "Ana and 2 others are typing…"
+ */
+export function formatTypingText(names: string[]): string | null {
+  if (names.length === 0) return null;
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names[0]} and ${names.length - 1} others are typing…`;
+}
@@ -0,0 +1,153 @@
+// Project versions - Checkpoints of a saved project and what changed between them
+// Works on the saved project_json (tracks of clips), so versions diff the same data autosave writes
+
+export const AUTO_CHECKPOINT_INTERVAL = 10; // autosaves between automatic checkpoints
+export const MAX_AUTO_CHECKPOINTS = 20; // older automatic checkpoints are pruned; named versions are kept
+
+interface SavedClip {
+  id: string;
+  [key: string]: unknown;
+}
+
+interface SavedTrack {
+  type: string;
+  clips?: SavedClip[];
+}
+
+export interface SavedProjectJson {
+  tracks?: SavedTrack[];
+  settings?: { duration?: number; [key: string]: unknown };
+  transcripts?: unknown[];
+  audio?: unknown;
+}
+
+export interface TrackDiff {
+  type: string;
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface ProjectDiff {
+  tracks: TrackDiff[]; // only tracks with changes
+  durationChange: number; // seconds, positive when the newer project is longer
+  otherChanges: string[]; // project-wide parts that changed, e.g. 'audio mix'
+}
+
+const TRACK_LABELS: Record<string, [string, string]> = {
+  video: ['clip', 'clips'],
+  audio: ['audio track', 'audio tracks'],
+  overlay: ['sticker', 'stickers'],
+  text: ['text', 'texts'],
+  image: ['image', 'images'],
+  'overlay-video': ['overlay', 'overlays'],
+};
+
+// Keys sorted so a project read back from jsonb compares equal to the one that was saved
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function clipsByType(project: SavedProjectJson): Map<string, Map<string, string>> {
+  const byType = new Map<string, Map<string, string>>();
+  for (const track of project.tracks ?? []) {
+    const clips = byType.get(track.type) ?? new Map<string, string>();
+    for (const clip of track.clips ?? []) clips.set(clip.id, stableStringify(clip));
+    byType.set(track.type, clips);
+  }
+  return byType;
+}
+
+/**
+ * What changed going from `before` to `after`: clips added/removed/edited per track, plus duration and mix
+ */
+export function diffProjects(before: SavedProjectJson, after: SavedProjectJson): ProjectDiff {
+  const beforeClips = clipsByType(before);
+  const afterClips = clipsByType(after);
+  const types = [...new Set([...beforeClips.keys(), ...afterClips.keys()])];
+
+  const tracks = types
+    .map((type): TrackDiff => {
+      const from = beforeClips.get(type) ?? new Map<string, string>();
+      const to = afterClips.get(type) ?? new Map<string, string>();
+      let added = 0;
+      let changed = 0;
+      for (const [id, clip] of to) {
+        if (!from.has(id)) added++;
+        else if (from.get(id) !== clip) changed++;
+      }
+      const removed = [...from.keys()].filter(id => !to.has(id)).length;
+      return { type, added, removed, changed };
+    })
+    .filter(track => track.added || track.removed || track.changed);
+
+  const { duration: beforeDuration = 0, ...beforeSettings } = before.settings ?? {};
+  const { duration: afterDuration = 0, ...afterSettings } = after.settings ?? {};
+  const otherChanges = [
+    stableStringify(before.audio) !== stableStringify(after.audio) && 'audio mix',
+    stableStringify(before.transcripts ?? []) !== stableStringify(after.transcripts ?? []) && 'transcript',
+    stableStringify(beforeSettings) !== stableStringify(afterSettings) && 'trim',
+  ].filter((part): part is string => !!part);
+
+  return { tracks, durationChange: afterDuration - beforeDuration, otherChanges };
+}
+
+const countLabel = (count: number, type: string) => {
+  const [singular, plural] = TRACK_LABELS[type] ?? ['item', 'items'];
+  return `${count} ${count === 1 ? singular : plural}`;
+};
+
+/**
+ * One-line description of a diff, e.g. "2 clips added, 1 text edited, 4.0s longer"
+ */
+export function describeDiff(diff: ProjectDiff): string {
+  const parts: string[] = [];
+  for (const track of diff.tracks) {
+    if (track.added) parts.push(`${countLabel(track.added, track.type)} added`);
+    if (track.removed) parts.push(`${countLabel(track.removed, track.type)} removed`);
+    if (track.changed) parts.push(`${countLabel(track.changed, track.type)} edited`);
+  }
+  if (Math.abs(diff.durationChange) >= 0.05) {
+    parts.push(`${Math.abs(diff.durationChange).toFixed(1)}s ${diff.durationChange > 0 ? 'longer' : 'shorter'}`);
+  }
+  if (diff.otherChanges.length) parts.push(`${diff.otherChanges.join(', ')} changed`);
+  return parts.length ? parts.join(', ') : 'No changes';
+}
+
+/**
+ * Whether this autosave should also store a checkpoint
+ */
+export function shouldAutoCheckpoint(saveCount: number, interval = AUTO_CHECKPOINT_INTERVAL): boolean {
+  return saveCount > 0 && saveCount % interval === 0;
+}
+
+/**
+ * Ids of automatic checkpoints past the newest `keep` - named versions are never pruned
+ */
+export function getPrunableCheckpoints<T extends { id: string; is_auto: boolean; created_at: string }>(
+  versions: T[],
+  keep = MAX_AUTO_CHECKPOINTS
+): string[] {
+  return versions
+    .filter(version => version.is_auto)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(keep)
+    .map(version => version.id);
+}
+
+/**
+ * Title for a duplicated project: "Trip" -> "Trip (copy)" -> "Trip (copy 2)"
+ */
+export function getCopyTitle(title: string): string {
+  const match = title.match(/^(.*) \(copy(?: (\d+))?\)$/);
+  if (!match) return `${title} (copy)`;
+  const next = match[2] ? Number(match[2]) + 1 : 2;
+  return `${match[1]} (copy ${next})`;
+}
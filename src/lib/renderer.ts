@@ -0,0 +1,976 @@
+// Offline Project Renderer - bakes an EditorProjectData into a real video file
+// Walks the timeline frame by frame at settings.fps / settings.resolution
+// Video, image, text and emoji layers are composited onto a canvas; video is graded by the shared FilterPipeline
+// Overlay videos are chroma-keyed through the shared WebGL keyer and blended with globalCompositeOperation
+// Audio tracks are mixed offline (OfflineAudioContext) with the same effect chain as AudioEngine, plus fades and ducking
+// Encoding uses MediaRecorder in real time; the mixed audio clock is the master clock for frame timing,
+// and frames that cannot be drawn before their slot are dropped so video never falls behind audio
+
+import {
+  EditorProjectData,
+  VideoLayer,
+  ImageLayer,
+  OverlayVideoLayer,
+  TextLayer,
+  EmojiLayer,
+  AudioTrack,
+  VideoFilter,
+  defaultAudioEffects,
+  normalizeVideoFilter,
+} from '@/types/editor';
+import { getKaraokeWordIndex, hasKaraokeWords } from '@/lib/captions';
+import { getTransitionAt, getTransitionFrame, sortAndLayoutVideoClips, TransitionLayerState } from '@/lib/transitions';
+import { getAnimatedLayer } from '@/lib/keyframes';
+import { getSourceTime, getSpeedAt, timelineToSourceOffset } from '@/lib/clipTiming';
+import { getDuckingRanges, sampleTrackGain, TimeRange } from '@/lib/audioMix';
+import { ChromaKeyRenderer, getCompositeOperation, getOverlayRect, getOverlaySourceTime } from '@/lib/compositor';
+import { FilterPipeline } from '@/lib/filterPipeline';
+import { getLoadedLut, loadLut } from '@/lib/lut';
+
+export type RenderStatus = 'idle' | 'preparing' | 'mixing' | 'rendering' | 'finalizing' | 'done' | 'cancelled' | 'failed';
+
+export interface RenderProgress {
+  status: RenderStatus;
+  frame: number;
+  totalFrames: number;
+  progress: number; // 0-1
+}
+
+export interface RenderOptions {
+  // Timeline range to export (defaults to the whole project)
+  rangeStart?: number;
+  rangeEnd?: number;
+  videoBitsPerSecond?: number;
+  onProgress?: (progress: RenderProgress) => void;
+}
+
+export interface RenderResult {
+  blob: Blob;
+  mimeType: string;
+  fileExtension: 'mp4' | 'webm';
+  duration: number;
+  frames: number;
+  droppedFrames: number;
+}
+
+// The preview canvas is laid out in CSS pixels at roughly this width.
+// Font sizes and sticker sizes are authored against it, so the export scales them up.
+export const PREVIEW_REFERENCE_WIDTH = 360;
+
+const AUDIO_SAMPLE_RATE = 48000;
+const GAIN_CURVE_RATE = 100; // gain automation samples per second for fades, envelopes and ducking
+const EMOJI_FONT_SIZE = 48; // text-5xl in EmojiLayerCanvas
+const STICKER_SIZE = 64; // w-16 h-16 in EmojiLayerCanvas
+
+const PREFERRED_MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+/**
+ * Approximate a VideoFilter as a CSS/canvas filter string
+ * Only for surfaces the FilterPipeline can't read - the preview falls back to it for media without CORS
+ */
+export function buildFilterString(filter: VideoFilter | undefined): string {
+  const f = normalizeVideoFilter(filter);
+  return [
+    `brightness(${f.brightness}%)`,
+    `contrast(${f.contrast}%)`,
+    `saturate(${f.saturation}%)`,
+    f.temperature > 0 ? `sepia(${f.temperature}%)` : '',
+    f.temperature < 0 ? `hue-rotate(${f.temperature}deg)` : '',
+    `blur(${f.blur}px)`,
+    f.hueRotate ? `hue-rotate(${f.hueRotate}deg)` : '',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Total number of frames for a range at the given fps
+ */
+export function getFrameCount(rangeStart: number, rangeEnd: number, fps: number): number {
+  const length = Math.max(0, rangeEnd - rangeStart);
+  return Math.max(1, Math.ceil(length * fps - 1e-6));
+}
+
+/**
+ * Timeline time of a frame - frames are sampled at their start instant
+ */
+export function frameToTime(frame: number, fps: number, rangeStart: number = 0): number {
+  return rangeStart + frame / fps;
+}
+
+/**
+ * Next frame to draw after `frame`, given the seconds elapsed on the audio clock
+ * A frame whose slot has already started is skipped, so a slow draw costs frames rather than sync
+ */
+export function getNextFrame(frame: number, elapsed: number, fps: number): number {
+  return Math.max(frame + 1, Math.floor(elapsed * fps + 1e-6) + 1);
+}
+
+/**
+ * Find the video clip covering a timeline time (same mapping as VideoPlayer.globalTimeToClipTime)
+ */
+export function findClipAtTime(
+  videoLayers: VideoLayer[],
+  time: number
+): { clip: VideoLayer | null; localTime: number } {
+  const sorted = [...videoLayers].sort((a, b) => a.start - b.start);
+  for (const clip of sorted) {
+    if (time >= clip.start && time < clip.end) {
+      return { clip, localTime: time - clip.start };
+    }
+  }
+  return { clip: null, localTime: 0 };
+}
+
+/**
+ * Overlay visibility - matches EditorCanvas.isLayerVisible
+ */
+export function isLayerActive(layer: { start: number; end: number }, time: number): boolean {
+  return time >= layer.start && time <= layer.end;
+}
+
+export interface TextAnimationState {
+  opacity: number;
+  offsetX: number; // fraction of canvas width
+  offsetY: number; // fraction of canvas height
+  scale: number;
+  visibleChars: number | null; // null = all characters
+}
+
+/**
+ * Evaluate a text layer's in-animation at a timeline time
+ * Mirrors the CSS animation classes used by TextLayerCanvas
+ */
+export function getTextAnimationState(layer: TextLayer, time: number): TextAnimationState {
+  const state: TextAnimationState = { opacity: 1, offsetX: 0, offsetY: 0, scale: 1, visibleChars: null };
+  const animation = layer.animation;
+  if (!animation || animation.type === 'none' || animation.duration <= 0) return state;
+
+  const t = Math.max(0, Math.min(1, (time - layer.start) / animation.duration));
+  const eased = 1 - Math.pow(1 - t, 3);
+
+  switch (animation.type) {
+    case 'fade':
+      state.opacity = eased;
+      break;
+    case 'pop':
+      state.opacity = eased;
+      state.scale = 0.95 + 0.05 * eased;
+      break;
+    case 'slide-up':
+      state.opacity = eased;
+      state.offsetY = 0.05 * (1 - eased);
+      break;
+    case 'slide-down':
+      state.opacity = eased;
+      state.offsetY = -0.05 * (1 - eased);
+      break;
+    case 'slide-left':
+      state.opacity = eased;
+      state.offsetX = 0.05 * (1 - eased);
+      break;
+    case 'slide-right':
+      state.opacity = eased;
+      state.offsetX = -0.05 * (1 - eased);
+      break;
+    case 'typewriter':
+      state.visibleChars = Math.floor(layer.content.length * t);
+      break;
+  }
+  return state;
+}
+
+function applyTextTransform(content: string, transform: TextLayer['style']['textTransform']): string {
+  switch (transform) {
+    case 'uppercase':
+      return content.toUpperCase();
+    case 'lowercase':
+      return content.toLowerCase();
+    case 'capitalize':
+      return content.replace(/\b\w/g, c => c.toUpperCase());
+    default:
+      return content;
+  }
+}
+
+function isUrlContent(content: string): boolean {
+  return content.startsWith('/') || content.startsWith('http');
+}
+
+// Deterministic PRNG so the reverb impulse (and therefore the export) is reproducible
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+function pickMimeType(): { mimeType: string; fileExtension: 'mp4' | 'webm' } {
+  const supported = typeof MediaRecorder !== 'undefined'
+    ? PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    : undefined;
+  const mimeType = supported || 'video/webm';
+  return { mimeType, fileExtension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm' };
+}
+
+export class ProjectRenderer {
+  private project: EditorProjectData;
+  private videoLayers: VideoLayer[]; // laid out the way VideoPlayer plays them
+  private options: RenderOptions;
+  private cancelled = false;
+  private status: RenderStatus = 'idle';
+  private videoElements: Map<string, HTMLVideoElement> = new Map();
+  private imageElements: Map<string, HTMLImageElement> = new Map();
+  private overlayElements: Map<string, HTMLVideoElement> = new Map(); // by layer id - an overlay may reuse a main clip's source
+  private keyer: ChromaKeyRenderer | null = null;
+  private filterPipeline: FilterPipeline | null = null;
+  private audioContext: AudioContext | null = null;
+  private recorder: MediaRecorder | null = null;
+
+  constructor(project: EditorProjectData, options: RenderOptions = {}) {
+    this.project = project;
+    this.videoLayers = sortAndLayoutVideoClips(project.videoLayers);
+    this.options = options;
+    console.log('[RENDER] ✅ Created renderer', {
+      fps: project.settings.fps,
+      resolution: project.settings.resolution,
+      duration: project.settings.duration,
+    });
+  }
+
+  getStatus(): RenderStatus {
+    return this.status;
+  }
+
+  cancel(): void {
+    if (this.status === 'done' || this.status === 'failed') return;
+    console.log('[RENDER] ⏹ cancel() requested');
+    this.cancelled = true;
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    }
+  }
+
+  private getRange(): { start: number; end: number } {
+    const start = Math.max(0, this.options.rangeStart ?? 0);
+    const end = Math.min(this.project.settings.duration, this.options.rangeEnd ?? this.project.settings.duration);
+    return { start, end: Math.max(start, end) };
+  }
+
+  private setStatus(status: RenderStatus, frame: number = 0, totalFrames: number = 0): void {
+    this.status = status;
+    const progress = totalFrames > 0 ? Math.min(1, frame / totalFrames) : status === 'done' ? 1 : 0;
+    this.options.onProgress?.({ status, frame, totalFrames, progress });
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new Error('Render cancelled');
+    }
+  }
+
+  async render(): Promise<RenderResult> {
+    const { fps, resolution } = this.project.settings;
+    const range = this.getRange();
+    const totalFrames = getFrameCount(range.start, range.end, fps);
+
+    console.log('[RENDER] ========================================');
+    console.log(`[RENDER] ▶ render(): ${totalFrames} frames @ ${fps}fps, ${resolution.width}x${resolution.height}`);
+    console.log(`[RENDER]   Range: ${range.start.toFixed(2)}s - ${range.end.toFixed(2)}s`);
+    console.log('[RENDER] ========================================');
+
+    try {
+      this.setStatus('preparing', 0, totalFrames);
+      await this.loadMedia();
+      this.throwIfCancelled();
+
+      this.setStatus('mixing', 0, totalFrames);
+      const mixedAudio = await this.mixAudio(range.start, range.end);
+      this.throwIfCancelled();
+
+      const result = await this.encode(mixedAudio, range, totalFrames);
+      this.setStatus('done', totalFrames, totalFrames);
+      console.log(`[RENDER] ✅ Done: ${(result.blob.size / 1024 / 1024).toFixed(2)}MB ${result.mimeType}`);
+      return result;
+    } catch (error) {
+      if (this.cancelled) {
+        console.log('[RENDER] ⏹ Render cancelled');
+        this.setStatus('cancelled', 0, totalFrames);
+        throw new Error('Render cancelled');
+      }
+      console.error('[RENDER] ❌ Render failed:', error);
+      this.setStatus('failed', 0, totalFrames);
+      throw error;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Composite a single frame to a JPEG - used for template thumbnails
+   */
+  async renderStill(time: number, width: number = PREVIEW_REFERENCE_WIDTH): Promise<Blob> {
+    const { resolution, duration } = this.project.settings;
+    try {
+      await this.loadMedia();
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = Math.round((width * resolution.height) / resolution.width);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+      await this.drawFrame(ctx, Math.max(0, Math.min(time, duration)));
+      return await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode still'))), 'image/jpeg', 0.85);
+      });
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  private async loadMedia(): Promise<void> {
+    const videoSources = new Set(this.videoLayers.map(l => l.src).filter(Boolean));
+    const imageSources = new Set<string>([
+      ...this.project.imageLayers.map(l => l.src).filter(Boolean),
+      ...this.project.emojiLayers.map(l => l.content).filter(isUrlContent),
+    ]);
+
+    const overlays = this.project.overlayLayers ?? [];
+    const lutSources = new Set(
+      [this.project.globalFilter, ...this.videoLayers.map(l => l.filter)]
+        .map(filter => filter?.lut?.url)
+        .filter((url): url is string => !!url)
+    );
+
+    await Promise.all([
+      ...[...videoSources].map(src => this.loadVideo(src).then(video => this.videoElements.set(src, video))),
+      ...overlays.map(layer => this.loadVideo(layer.src).then(video => this.overlayElements.set(layer.id, video))),
+      ...[...imageSources].map(src => this.loadImage(src)),
+      // A missing LUT grades without it rather than failing the export
+      ...[...lutSources].map(url => loadLut(url).catch(error => {
+        console.warn('[RENDER] ⚠️ Failed to load LUT, rendering without it:', error);
+      })),
+    ]);
+
+    console.log(`[RENDER] ✅ Media loaded: ${videoSources.size} videos, ${overlays.length} overlays, ${imageSources.size} images, ${lutSources.size} LUTs`);
+  }
+
+  private loadVideo(src: string): Promise<HTMLVideoElement> {
+    return new Promise((resolve, reject) => {
+      const video = document.createElement('video');
+      video.crossOrigin = 'anonymous';
+      video.muted = true;
+      video.playsInline = true;
+      video.preload = 'auto';
+
+      video.addEventListener('loadeddata', () => resolve(video), { once: true });
+      video.addEventListener('error', () => {
+        reject(new Error(`Failed to load video: ${src.slice(0, 80)}`));
+      }, { once: true });
+
+      video.src = src;
+      video.load();
+    });
+  }
+
+  private loadImage(src: string): Promise<void> {
+    return new Promise(resolve => {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => {
+        this.imageElements.set(src, image);
+        resolve();
+      };
+      image.onerror = () => {
+        // A missing sticker should not fail the whole export
+        console.warn(`[RENDER] ⚠️ Failed to load image, skipping: ${src.slice(0, 80)}`);
+        resolve();
+      };
+      image.src = src;
+    });
+  }
+
+  private async decodeAudio(ctx: BaseAudioContext, url: string): Promise<AudioBuffer | null> {
+    try {
+      const response = await fetch(url, { mode: 'cors' });
+      if (!response.ok) {
+        console.warn(`[RENDER] ⚠️ Audio fetch failed: ${response.status}`);
+        return null;
+      }
+      const data = await response.arrayBuffer();
+      return await ctx.decodeAudioData(data);
+    } catch (error) {
+      console.warn('[RENDER] ⚠️ Could not decode audio, treating as silent:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Mix video audio and the audio tracks into one buffer covering the render range
+   */
+  private async mixAudio(rangeStart: number, rangeEnd: number): Promise<AudioBuffer> {
+    const length = Math.max(1, Math.ceil((rangeEnd - rangeStart) * AUDIO_SAMPLE_RATE));
+    const ctx = new OfflineAudioContext(2, length, AUDIO_SAMPLE_RATE);
+    const videoVolume = this.project.audio?.videoVolume ?? 1;
+
+    for (const clip of this.videoLayers) {
+      if (clip.end <= rangeStart || clip.start >= rangeEnd) continue;
+      const buffer = await this.decodeAudio(ctx, clip.src);
+      this.throwIfCancelled();
+      if (!buffer) continue;
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      const gain = ctx.createGain();
+      gain.gain.value = Math.max(0, Math.min(1.5, (clip.volume ?? 1) * videoVolume));
+      source.connect(gain);
+      gain.connect(ctx.destination);
+
+      // Offsets are in source seconds; the buffer plays at the clip's speed so it spans the clip on the timeline
+      const when = Math.max(0, clip.start - rangeStart);
+      const localStart = Math.max(0, rangeStart - clip.start);
+      const offset = getSourceTime(clip, localStart);
+      const sourceLength = timelineToSourceOffset(clip, clip.end - clip.start) - timelineToSourceOffset(clip, localStart);
+      this.scheduleClipRate(source, clip, localStart, when);
+      source.start(when, offset, Math.max(0, sourceLength));
+    }
+
+    for (const layer of this.project.overlayLayers ?? []) {
+      if (layer.muted || layer.end <= rangeStart || layer.start >= rangeEnd) continue;
+      const buffer = await this.decodeAudio(ctx, layer.src);
+      this.throwIfCancelled();
+      if (!buffer) continue;
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      const gain = ctx.createGain();
+      gain.gain.value = Math.max(0, Math.min(1.5, layer.volume * videoVolume));
+      source.connect(gain);
+      gain.connect(ctx.destination);
+
+      const when = Math.max(0, layer.start - rangeStart);
+      const offset = getOverlaySourceTime(layer, Math.max(layer.start, rangeStart));
+      source.start(when, offset, Math.max(0, Math.min(layer.end, rangeEnd) - Math.max(layer.start, rangeStart)));
+    }
+
+    const tracks = this.project.audioTracks ?? [];
+    const duckingRanges = getDuckingRanges(tracks);
+    for (const track of tracks) {
+      if (track.muted) continue;
+      await this.scheduleAudioTrack(ctx, track, rangeStart, rangeEnd, duckingRanges);
+    }
+
+    console.log('[RENDER] 🎚 Mixing audio offline...');
+    return ctx.startRendering();
+  }
+
+  // Constant speed is a fixed rate; a speed ramp becomes a series of linear ramps on playbackRate
+  private scheduleClipRate(source: AudioBufferSourceNode, clip: VideoLayer, localStart: number, when: number): void {
+    const rate = source.playbackRate;
+    rate.setValueAtTime(getSpeedAt(clip, localStart), when);
+    if (!clip.speedCurve?.length) return;
+
+    const length = clip.end - clip.start;
+    const points = [...clip.speedCurve].sort((a, b) => a.position - b.position);
+    for (const point of points) {
+      const localTime = point.position * length;
+      if (localTime <= localStart) continue;
+      rate.linearRampToValueAtTime(getSpeedAt(clip, localTime), when + localTime - localStart);
+    }
+  }
+
+  private async scheduleAudioTrack(
+    ctx: OfflineAudioContext,
+    track: AudioTrack,
+    rangeStart: number,
+    rangeEnd: number,
+    duckingRanges: TimeRange[]
+  ): Promise<void> {
+    if (track.sourceType === 'youtube' || track.sourceType === 'spotify' || track.sourceType === 'soundcloud') {
+      console.warn(`[RENDER] ⚠️ ${track.sourceType} audio cannot be baked into an export, skipping`);
+      return;
+    }
+
+    const trackEnd = track.endAt || track.startAt + track.duration;
+    if (trackEnd <= rangeStart || track.startAt >= rangeEnd) return;
+
+    const buffer = await this.decodeAudio(ctx, track.url);
+    this.throwIfCancelled();
+    if (!buffer) return;
+
+    const effects = { ...defaultAudioEffects, ...track.effects };
+    const trackVolume = (this.project.audio?.tracks?.[track.id]?.volume ?? track.volume / 100) * (this.project.audio?.tracksVolume ?? 1);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = effects.speed;
+
+    const gain = ctx.createGain();
+    const level = Math.max(0, Math.min(1.5, trackVolume * (effects.volume / 100)));
+
+    const bass = ctx.createBiquadFilter();
+    bass.type = 'lowshelf';
+    bass.frequency.value = 200;
+    bass.gain.value = (effects.bass / 100) * 24;
+
+    const treble = ctx.createBiquadFilter();
+    treble.type = 'highshelf';
+    treble.frequency.value = 3000;
+    treble.gain.value = (effects.treble / 100) * 24;
+
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = effects.pan / 100;
+
+    // Same dry/wet mapping as AudioEngine.setReverb
+    const wetLevel = effects.reverb / 100;
+    const dry = ctx.createGain();
+    dry.gain.value = 1 - wetLevel * 0.5;
+    const wet = ctx.createGain();
+    wet.gain.value = wetLevel * 0.5;
+
+    source.connect(gain);
+    gain.connect(bass);
+    bass.connect(treble);
+    treble.connect(panner);
+    panner.connect(dry);
+    dry.connect(ctx.destination);
+
+    if (wetLevel > 0) {
+      const convolver = ctx.createConvolver();
+      const impulseLength = AUDIO_SAMPLE_RATE * 2;
+      const impulse = ctx.createBuffer(2, impulseLength, AUDIO_SAMPLE_RATE);
+      const random = seededRandom(0x5eed);
+      for (let channel = 0; channel < 2; channel++) {
+        const data = impulse.getChannelData(channel);
+        for (let i = 0; i < impulseLength; i++) {
+          data[i] = (random() * 2 - 1) * Math.pow(1 - i / impulseLength, 3);
+        }
+      }
+      convolver.buffer = impulse;
+      panner.connect(convolver);
+      convolver.connect(wet);
+      wet.connect(ctx.destination);
+    }
+
+    const when = Math.max(0, track.startAt - rangeStart);
+    const timelineOffset = Math.max(0, rangeStart - track.startAt);
+    const playEnd = Math.min(trackEnd, rangeEnd);
+
+    // Fades, envelope and ducking as one gain curve over the part of the track that plays
+    const curve = sampleTrackGain(track, track.startAt + timelineOffset, playEnd, GAIN_CURVE_RATE, duckingRanges, this.project.audio?.ducking);
+    gain.gain.setValueCurveAtTime(curve.map(value => value * level), when, Math.max(0.01, playEnd - track.startAt - timelineOffset));
+
+    source.start(when, timelineOffset * effects.speed, (trackEnd - track.startAt - timelineOffset) * effects.speed);
+  }
+
+  private async encode(
+    mixedAudio: AudioBuffer,
+    range: { start: number; end: number },
+    totalFrames: number
+  ): Promise<RenderResult> {
+    const { fps, resolution } = this.project.settings;
+    const canvas = document.createElement('canvas');
+    canvas.width = resolution.width;
+    canvas.height = resolution.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+    // captureStream(0) only emits a frame when requestFrame() is called
+    const stream = canvas.captureStream(0);
+    const videoTrack = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+
+    const audioContext = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+    this.audioContext = audioContext;
+    const audioDestination = audioContext.createMediaStreamDestination();
+    const audioSource = audioContext.createBufferSource();
+    audioSource.buffer = mixedAudio;
+    audioSource.connect(audioDestination);
+    audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const { mimeType, fileExtension } = pickMimeType();
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: this.options.videoBitsPerSecond ?? 8_000_000,
+    });
+    this.recorder = recorder;
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+
+    // Draw the first frame before recording starts so the file never opens on black
+    await this.drawFrame(ctx, frameToTime(0, fps, range.start));
+    this.throwIfCancelled();
+
+    recorder.start(1000);
+    await audioContext.resume();
+    const audioStart = audioContext.currentTime;
+    audioSource.start(audioStart);
+
+    this.setStatus('rendering', 0, totalFrames);
+
+    // Audio clock is the master: each frame is drawn ahead and emitted when its slot starts
+    const waitForSlot = async (frame: number) => {
+      const waitMs = (audioStart + frame / fps - audioContext.currentTime) * 1000;
+      if (waitMs > 1) {
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+      }
+    };
+
+    let frame = 0;
+    let emittedFrames = 0;
+    let droppedFrames = 0;
+    for (;;) {
+      this.throwIfCancelled();
+      videoTrack.requestFrame();
+      emittedFrames++;
+      this.setStatus('rendering', frame + 1, totalFrames);
+
+      const next = getNextFrame(frame, audioContext.currentTime - audioStart, fps);
+      if (next >= totalFrames) break;
+
+      await this.drawFrame(ctx, frameToTime(next, fps, range.start));
+      droppedFrames += next - frame - 1;
+      frame = next;
+      await waitForSlot(frame);
+    }
+
+    // Keep the last frame on screen until the audio has finished
+    await waitForSlot(totalFrames);
+    if (droppedFrames > 0) {
+      console.warn(`[RENDER] ⚠️ Dropped ${droppedFrames} of ${totalFrames} frames to stay in sync with audio`);
+    }
+
+    this.throwIfCancelled();
+    this.setStatus('finalizing', totalFrames, totalFrames);
+    recorder.stop();
+    await stopped;
+    this.throwIfCancelled();
+
+    return {
+      blob: new Blob(chunks, { type: mimeType.split(';')[0] }),
+      mimeType,
+      fileExtension,
+      duration: range.end - range.start,
+      frames: emittedFrames,
+      droppedFrames,
+    };
+  }
+
+  private seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+    const target = Math.max(0, Math.min(time, (video.duration || time) - 0.001));
+    if (Math.abs(video.currentTime - target) < 0.0005) return Promise.resolve();
+
+    return new Promise(resolve => {
+      video.addEventListener('seeked', () => resolve(), { once: true });
+      video.currentTime = target;
+    });
+  }
+
+  /**
+   * Composite every layer visible at `time` onto the canvas
+   * Layer order matches EditorCanvas: video → overlay videos → images → emoji/stickers → text
+   */
+  async drawFrame(ctx: CanvasRenderingContext2D, time: number): Promise<void> {
+    const { width, height } = ctx.canvas;
+    const unit = width / PREVIEW_REFERENCE_WIDTH;
+
+    ctx.save();
+    ctx.filter = 'none';
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+
+    const transition = getTransitionAt(this.videoLayers, time);
+    if (transition) {
+      // Both clips of a transition share the frame; the incoming one is drawn on top
+      const frame = getTransitionFrame(transition.type, transition.progress);
+      await this.drawVideoClip(ctx, this.videoLayers[transition.fromIndex], time, frame.outgoing);
+      await this.drawVideoClip(ctx, this.videoLayers[transition.toIndex], time, frame.incoming);
+    } else {
+      const { clip } = findClipAtTime(this.videoLayers, time);
+      if (clip) await this.drawVideoClip(ctx, clip, time);
+    }
+
+    // Overlay layers are drawn with their keyframed transform at this time
+    for (const layer of this.project.overlayLayers ?? []) {
+      if (!isLayerActive(layer, time)) continue;
+      const animated = getAnimatedLayer(layer, time);
+      await this.drawOverlayVideo(ctx, animated.layer, time, animated.opacity);
+    }
+    for (const layer of this.project.imageLayers) {
+      if (!isLayerActive(layer, time)) continue;
+      const animated = getAnimatedLayer(layer, time);
+      this.drawImageLayer(ctx, animated.layer, animated.opacity);
+    }
+    for (const layer of this.project.emojiLayers) {
+      if (!isLayerActive(layer, time)) continue;
+      const animated = getAnimatedLayer(layer, time);
+      this.drawEmojiLayer(ctx, animated.layer, unit, animated.opacity);
+    }
+    for (const layer of this.project.textLayers) {
+      if (!isLayerActive(layer, time)) continue;
+      const animated = getAnimatedLayer(layer, time);
+      this.drawTextLayer(ctx, animated.layer, time, unit, animated.opacity);
+    }
+  }
+
+  private async drawVideoClip(
+    ctx: CanvasRenderingContext2D,
+    clip: VideoLayer,
+    time: number,
+    transitionState?: TransitionLayerState
+  ): Promise<void> {
+    const video = this.videoElements.get(clip.src);
+    if (!video) return;
+    const { width, height } = ctx.canvas;
+    await this.seekVideo(video, getSourceTime(clip, time - clip.start));
+    this.drawContained(ctx, video, video.videoWidth, video.videoHeight, width, height, clip.filter ?? this.project.globalFilter, time, transitionState);
+  }
+
+  private drawContained(
+    ctx: CanvasRenderingContext2D,
+    source: TexImageSource & CanvasImageSource,
+    sourceWidth: number,
+    sourceHeight: number,
+    width: number,
+    height: number,
+    filter: VideoFilter | undefined,
+    time: number,
+    transitionState?: TransitionLayerState
+  ): void {
+    if (!sourceWidth || !sourceHeight) return;
+    const fit = Math.min(width / sourceWidth, height / sourceHeight);
+    const drawWidth = sourceWidth * fit;
+    const drawHeight = sourceHeight * fit;
+
+    // Graded at source resolution; filter sizes are in preview pixels, like the editor canvas
+    this.filterPipeline ??= new FilterPipeline();
+    this.filterPipeline.draw(source, sourceWidth, sourceHeight, {
+      filter,
+      lut: filter?.lut ? getLoadedLut(filter.lut.url) : null,
+      unit: width / (fit * PREVIEW_REFERENCE_WIDTH),
+      time,
+    });
+
+    ctx.save();
+    if (transitionState) {
+      // Same order as the preview CSS: translate, scale about the center, then clip in local space
+      ctx.globalAlpha = transitionState.opacity;
+      ctx.translate(width * transitionState.offsetX + width / 2, height / 2);
+      ctx.scale(transitionState.scale, transitionState.scale);
+      ctx.translate(-width / 2, -height / 2);
+      ctx.beginPath();
+      ctx.rect(
+        width * transitionState.clipLeft,
+        0,
+        width * (1 - transitionState.clipLeft - transitionState.clipRight),
+        height
+      );
+      ctx.clip();
+    }
+    ctx.drawImage(this.filterPipeline.canvas, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    ctx.restore();
+  }
+
+  private async drawOverlayVideo(
+    ctx: CanvasRenderingContext2D,
+    layer: OverlayVideoLayer,
+    time: number,
+    opacity: number = 1
+  ): Promise<void> {
+    const video = this.overlayElements.get(layer.id);
+    if (!video?.videoWidth) return;
+    const { width, height } = ctx.canvas;
+    await this.seekVideo(video, getOverlaySourceTime(layer, time));
+
+    this.keyer ??= new ChromaKeyRenderer();
+    this.keyer.draw(video, video.videoWidth, video.videoHeight, layer.chromaKey);
+
+    const rect = getOverlayRect(layer, video.videoWidth, video.videoHeight, width, height);
+    ctx.save();
+    ctx.globalAlpha = layer.opacity * opacity;
+    ctx.globalCompositeOperation = getCompositeOperation(layer.blendMode);
+    ctx.translate(rect.x, rect.y);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    ctx.drawImage(this.keyer.canvas, -rect.width / 2, -rect.height / 2, rect.width, rect.height);
+    ctx.restore();
+  }
+
+  private drawImageLayer(ctx: CanvasRenderingContext2D, layer: ImageLayer, opacity: number = 1): void {
+    const image = this.imageElements.get(layer.src);
+    if (!image?.naturalWidth) return;
+    const { width, height } = ctx.canvas;
+
+    // Preview caps images at half the canvas in either direction
+    const fit = Math.min(1, (width * 0.5) / image.naturalWidth, (height * 0.5) / image.naturalHeight);
+    const drawWidth = image.naturalWidth * fit;
+    const drawHeight = image.naturalHeight * fit;
+
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.translate((layer.position.x / 100) * width, (layer.position.y / 100) * height);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    ctx.scale(layer.scale, layer.scale);
+    if (layer.filter) ctx.filter = buildFilterString(layer.filter);
+    ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    ctx.restore();
+  }
+
+  private drawEmojiLayer(ctx: CanvasRenderingContext2D, layer: EmojiLayer, unit: number, opacity: number = 1): void {
+    const { width, height } = ctx.canvas;
+
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.translate((layer.position.x / 100) * width, (layer.position.y / 100) * height);
+    ctx.scale(layer.scale, layer.scale);
+    ctx.rotate(((layer.rotation || 0) * Math.PI) / 180);
+
+    if (isUrlContent(layer.content)) {
+      const image = this.imageElements.get(layer.content);
+      if (image?.naturalWidth) {
+        const box = STICKER_SIZE * unit;
+        const fit = Math.min(box / image.naturalWidth, box / image.naturalHeight);
+        const drawWidth = image.naturalWidth * fit;
+        const drawHeight = image.naturalHeight * fit;
+        ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+      }
+    } else {
+      ctx.font = `${EMOJI_FONT_SIZE * unit}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(layer.content, 0, 0);
+    }
+    ctx.restore();
+  }
+
+  private drawTextLayer(ctx: CanvasRenderingContext2D, layer: TextLayer, time: number, unit: number, opacity: number = 1): void {
+    const { width, height } = ctx.canvas;
+    const style = layer.style;
+    const animation = getTextAnimationState(layer, time);
+
+    let content = applyTextTransform(layer.content, style.textTransform);
+    if (animation.visibleChars !== null) {
+      content = content.slice(0, animation.visibleChars);
+    }
+    if (!content) return;
+
+    const karaokeIndex = hasKaraokeWords(layer) ? getKaraokeWordIndex(layer, time) : null;
+    const highlightColor = layer.animation?.highlightColor || '#facc15';
+
+    const fontSize = style.fontSize * layer.scale * unit;
+    const lineHeight = fontSize * (style.lineHeight || 1.2);
+    const lines = content.split('\n');
+    const paddingX = 8 * unit;
+    const paddingY = 4 * unit;
+
+    ctx.save();
+    ctx.globalAlpha = animation.opacity * opacity;
+    ctx.translate(
+      (layer.position.x / 100 + animation.offsetX) * width,
+      (layer.position.y / 100 + animation.offsetY) * height
+    );
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    ctx.scale(animation.scale, animation.scale);
+
+    ctx.font = `${style.fontStyle} ${style.fontWeight} ${fontSize}px ${style.fontFamily}`;
+    ctx.textBaseline = 'middle';
+    if ('letterSpacing' in ctx && style.letterSpacing) {
+      (ctx as CanvasRenderingContext2D & { letterSpacing: string }).letterSpacing = `${style.letterSpacing * unit}px`;
+    }
+
+    const lineWidths = lines.map(line => ctx.measureText(line).width);
+    const blockWidth = Math.max(...lineWidths) + paddingX * 2;
+    const blockHeight = lines.length * lineHeight + paddingY * 2;
+    const left = -blockWidth / 2;
+    const top = -blockHeight / 2;
+
+    if (style.backgroundColor) {
+      ctx.fillStyle = style.backgroundColor;
+      ctx.fillRect(left, top, blockWidth, blockHeight);
+    }
+
+    lines.forEach((line, index) => {
+      const lineWidth = lineWidths[index];
+      let x = left + paddingX;
+      if (style.textAlign === 'center') x = -lineWidth / 2;
+      if (style.textAlign === 'right') x = blockWidth / 2 - paddingX - lineWidth;
+      const y = top + paddingY + lineHeight * (index + 0.5);
+
+      ctx.save();
+      if (style.shadow) {
+        ctx.shadowColor = style.shadow.color;
+        ctx.shadowBlur = style.shadow.blur * unit;
+        ctx.shadowOffsetX = style.shadow.offsetX * unit;
+        ctx.shadowOffsetY = style.shadow.offsetY * unit;
+      }
+      if (karaokeIndex !== null && lines.length === 1) {
+        // Draw word by word so spoken words can take the highlight color
+        let wordX = x;
+        line.split(' ').forEach((word, wordIndex) => {
+          ctx.fillStyle = wordIndex <= karaokeIndex ? highlightColor : style.color;
+          ctx.fillText(word, wordX, y);
+          wordX += ctx.measureText(`${word} `).width;
+        });
+      } else {
+        ctx.fillStyle = style.color;
+        ctx.fillText(line, x, y);
+      }
+      ctx.restore();
+
+      if (style.outline && style.outline.width > 0) {
+        ctx.strokeStyle = style.outline.color;
+        ctx.lineWidth = style.outline.width * unit;
+        ctx.strokeText(line, x, y);
+      }
+
+      if (style.textDecoration === 'underline') {
+        ctx.fillStyle = style.color;
+        ctx.fillRect(x, y + fontSize * 0.45, lineWidth, Math.max(1, fontSize / 16));
+      }
+    });
+
+    ctx.restore();
+  }
+
+  private cleanup(): void {
+    this.videoElements.forEach(video => {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    });
+    this.overlayElements.forEach(video => {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    });
+    this.videoElements.clear();
+    this.overlayElements.clear();
+    this.imageElements.clear();
+    this.keyer?.dispose();
+    this.keyer = null;
+    this.filterPipeline?.dispose();
+    this.filterPipeline = null;
+
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => {});
+      this.audioContext = null;
+    }
+    this.recorder = null;
+    console.log('[RENDER] 🧹 Cleaned up render resources');
+  }
+}
+
+export function createRenderer(project: EditorProjectData, options: RenderOptions = {}): ProjectRenderer {
+  return new ProjectRenderer(project, options);
+}
@@ -0,0 +1,219 @@
+// Snapping - Magnetic alignment for timeline drags and canvas layer positioning
+// Timeline edges snap to the playhead, other clips, trim markers and beats; canvas layers snap to guides and each other
+
+// Pull distance in screen pixels - converted to seconds or canvas percent by the caller's scale
+export const SNAP_THRESHOLD_PX = 8;
+
+// Safe area for 9:16 posts in canvas percent - the feed's caption and buttons cover the bottom and right
+export const CANVAS_SAFE_AREA = { top: 10, right: 88, bottom: 78, left: 8 };
+
+export type TimelineSnapKind = 'playhead' | 'clip' | 'marker' | 'beat';
+
+export interface TimelineSnapTarget {
+  time: number;
+  kind: TimelineSnapKind;
+  ownerId?: string; // clip the edge belongs to - a clip never snaps to itself
+}
+
+/**
+ * What timeline tracks need to snap a drag
+ * onGuide shows (or clears, with null) the guide line across the timeline
+ */
+export interface TimelineSnap {
+  targets: TimelineSnapTarget[];
+  pixelsPerSecond: number;
+  onGuide: (time: number | null) => void;
+}
+
+export interface TimelineSnapResult {
+  time: number;
+  target: TimelineSnapTarget | null;
+}
+
+/**
+ * Holding Ctrl (Cmd on Mac) while dragging turns snapping off
+ */
+export function isSnapBypassed(e: { ctrlKey: boolean; metaKey: boolean }): boolean {
+  return e.ctrlKey || e.metaKey;
+}
+
+/**
+ * Everything a timeline edge can snap to
+ */
+export function buildTimelineSnapTargets({
+  playhead,
+  clips = [],
+  markers = [],
+  beats = [],
+}: {
+  playhead?: number;
+  clips?: Array<{ id: string; start: number; end: number }>;
+  markers?: number[];
+  beats?: Array<{ time: number; ownerId?: string }>; // owned by their audio track, which mustn't snap to its own beats
+}): TimelineSnapTarget[] {
+  const targets: TimelineSnapTarget[] = [];
+  if (playhead !== undefined) targets.push({ time: playhead, kind: 'playhead' });
+  for (const clip of clips) {
+    targets.push({ time: clip.start, kind: 'clip', ownerId: clip.id });
+    targets.push({ time: clip.end, kind: 'clip', ownerId: clip.id });
+  }
+  for (const time of markers) targets.push({ time, kind: 'marker' });
+  for (const beat of beats) targets.push({ ...beat, kind: 'beat' });
+  return targets;
+}
+
+/**
+ * Nearest target within threshold seconds; ties go to the earlier target in the list (playhead first)
+ */
+export function snapTime(
+  time: number,
+  targets: TimelineSnapTarget[],
+  threshold: number,
+  excludeId?: string
+): TimelineSnapResult {
+  let best: TimelineSnapTarget | null = null;
+  let bestDistance = threshold;
+  for (const target of targets) {
+    if (excludeId && target.ownerId === excludeId) continue;
+    const distance = Math.abs(target.time - time);
+    if (distance <= bestDistance && (!best || distance < bestDistance)) {
+      best = target;
+      bestDistance = distance;
+    }
+  }
+  return best ? { time: best.time, target: best } : { time, target: null };
+}
+
+/**
+ * Snap a moved clip by whichever edge is closer to a target, keeping its length
+ */
+export function snapClipMove(
+  start: number,
+  end: number,
+  targets: TimelineSnapTarget[],
+  threshold: number,
+  excludeId?: string
+): { start: number; end: number; target: TimelineSnapTarget | null } {
+  const fromStart = snapTime(start, targets, threshold, excludeId);
+  const fromEnd = snapTime(end, targets, threshold, excludeId);
+  const startDistance = fromStart.target ? Math.abs(fromStart.time - start) : Infinity;
+  const endDistance = fromEnd.target ? Math.abs(fromEnd.time - end) : Infinity;
+
+  if (startDistance === Infinity && endDistance === Infinity) {
+    return { start, end, target: null };
+  }
+  const shift = startDistance <= endDistance ? fromStart.time - start : fromEnd.time - end;
+  return {
+    start: start + shift,
+    end: end + shift,
+    target: startDistance <= endDistance ? fromStart.target : fromEnd.target,
+  };
+}
+
+/**
+ * Snap one edge during a drag - the shared step for TimelineClip, TextTimelineTrack and AudioTimelineTrack
+ * Returns the time unchanged (and clears the guide) when snapping is off or bypassed
+ */
+export function applyTimelineSnap(
+  snap: TimelineSnap | undefined,
+  time: number,
+  excludeId: string,
+  bypass: boolean
+): number {
+  if (!snap || bypass) {
+    snap?.onGuide(null);
+    return time;
+  }
+  const result = snapTime(time, snap.targets, SNAP_THRESHOLD_PX / snap.pixelsPerSecond, excludeId);
+  snap.onGuide(result.target ? result.time : null);
+  return result.time;
+}
+
+/**
+ * Snap a whole clip move - see applyTimelineSnap
+ */
+export function applyTimelineMoveSnap(
+  snap: TimelineSnap | undefined,
+  start: number,
+  end: number,
+  excludeId: string,
+  bypass: boolean
+): { start: number; end: number } {
+  if (!snap || bypass) {
+    snap?.onGuide(null);
+    return { start, end };
+  }
+  const result = snapClipMove(start, end, snap.targets, SNAP_THRESHOLD_PX / snap.pixelsPerSecond, excludeId);
+  snap.onGuide(result.target ? result.target.time : null);
+  return { start: result.start, end: result.end };
+}
+
+/**
+ * A layer's box on the canvas in percent - x/y is the center, like layer.position
+ */
+export interface CanvasBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CanvasGuides {
+  vertical: number[]; // x positions in percent
+  horizontal: number[]; // y positions in percent
+}
+
+export interface CanvasSnapResult {
+  x: number;
+  y: number;
+  guides: { vertical: number | null; horizontal: number | null };
+}
+
+/**
+ * Center lines, the safe area and every other layer's edges and center
+ */
+export function buildCanvasGuides(otherBoxes: CanvasBox[]): CanvasGuides {
+  const vertical = [50, CANVAS_SAFE_AREA.left, CANVAS_SAFE_AREA.right];
+  const horizontal = [50, CANVAS_SAFE_AREA.top, CANVAS_SAFE_AREA.bottom];
+  for (const box of otherBoxes) {
+    vertical.push(box.x - box.width / 2, box.x, box.x + box.width / 2);
+    horizontal.push(box.y - box.height / 2, box.y, box.y + box.height / 2);
+  }
+  return { vertical, horizontal };
+}
+
+// Snap one axis: try the box's near edge, center and far edge against every guide
+function snapAxis(center: number, size: number, guides: number[], threshold: number): { center: number; guide: number | null } {
+  let bestShift = 0;
+  let bestGuide: number | null = null;
+  let bestDistance = threshold;
+  for (const offset of [-size / 2, 0, size / 2]) {
+    const edge = center + offset;
+    for (const guide of guides) {
+      const distance = Math.abs(guide - edge);
+      if (distance < bestDistance || (distance === bestDistance && bestGuide === null)) {
+        bestDistance = distance;
+        bestShift = guide - edge;
+        bestGuide = guide;
+      }
+    }
+  }
+  return { center: center + bestShift, guide: bestGuide };
+}
+
+/**
+ * Snap a dragged layer box to the guides; thresholds are in percent per axis
+ */
+export function snapCanvasBox(
+  box: CanvasBox,
+  guides: CanvasGuides,
+  threshold: { x: number; y: number }
+): CanvasSnapResult {
+  const x = snapAxis(box.x, box.width, guides.vertical, threshold.x);
+  const y = snapAxis(box.y, box.height, guides.horizontal, threshold.y);
+  return {
+    x: x.center,
+    y: y.center,
+    guides: { vertical: x.guide, horizontal: y.guide },
+  };
+}
@@ -0,0 +1,253 @@
+// Subtitle interchange - SRT and WebVTT import/export for transcripts and caption layers
+// Parsing never throws: problems are reported per line so the user can fix the file in their tool
+
+import { TextLayer, Transcript, TranscriptSegment } from '@/types/editor';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  id?: string;
+  start: number; // seconds
+  end: number; // seconds
+  text: string; // may contain line breaks
+  line?: number; // 1-based line of the timing line in the source file
+}
+
+export interface SubtitleIssue {
+  line: number; // 1-based
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface SubtitleParseResult {
+  format: SubtitleFormat;
+  cues: SubtitleCue[];
+  issues: SubtitleIssue[];
+}
+
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?([0-5]?\d):([0-5]\d)[,.](\d{1,3})$/;
+
+/**
+ * Parse "HH:MM:SS,mmm" (SRT) or "HH:MM:SS.mmm" / "MM:SS.mmm" (WebVTT) into seconds
+ * Returns null for anything malformed
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  const ms = parseInt(fraction.padEnd(3, '0'), 10);
+  return (parseInt(hours || '0', 10) * 3600) + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + ms / 1000;
+}
+
+export function formatTimestamp(seconds: number, format: SubtitleFormat): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const separator = format === 'srt' ? ',' : '.';
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function detectSubtitleFormat(content: string, fileName?: string): SubtitleFormat {
+  if (content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT')) return 'vtt';
+  if (fileName?.toLowerCase().endsWith('.vtt')) return 'vtt';
+  return 'srt';
+}
+
+// WebVTT blocks that are not cues
+const VTT_NON_CUE_BLOCK = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+/**
+ * Parse an SRT or WebVTT file into cues
+ * Blocks with unreadable timing are skipped and reported; overlaps are reported as warnings
+ */
+export function parseSubtitles(content: string, format?: SubtitleFormat): SubtitleParseResult {
+  const resolvedFormat = format ?? detectSubtitleFormat(content);
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const cues: SubtitleCue[] = [];
+  const issues: SubtitleIssue[] = [];
+
+  let index = 0;
+
+  if (resolvedFormat === 'vtt') {
+    if (!lines[0]?.startsWith('WEBVTT')) {
+      issues.push({ line: 1, message: 'Missing WEBVTT header', severity: 'error' });
+    } else {
+      // Header block runs until the first blank line
+      while (index < lines.length && lines[index].trim() !== '') index++;
+    }
+  }
+
+  while (index < lines.length) {
+    // Skip blank lines between blocks
+    while (index < lines.length && lines[index].trim() === '') index++;
+    if (index >= lines.length) break;
+
+    const blockStart = index;
+    const block: string[] = [];
+    while (index < lines.length && lines[index].trim() !== '') {
+      block.push(lines[index]);
+      index++;
+    }
+
+    if (resolvedFormat === 'vtt' && VTT_NON_CUE_BLOCK.test(block[0])) continue;
+
+    // Timing is on the first line, or the second when the cue has an identifier/number
+    const timingOffset = block[0].includes('-->') ? 0 : block[1]?.includes('-->') ? 1 : -1;
+    if (timingOffset === -1) {
+      issues.push({ line: blockStart + 1, message: 'Missing "-->" timing line', severity: 'error' });
+      continue;
+    }
+
+    const timingLineNumber = blockStart + timingOffset + 1;
+    const [rawStart, rawRest = ''] = block[timingOffset].split('-->');
+    // WebVTT allows cue settings after the end time ("00:01.000 --> 00:02.000 align:start")
+    const rawEnd = rawRest.trim().split(/\s+/)[0] ?? '';
+    const start = parseTimestamp(rawStart);
+    const end = parseTimestamp(rawEnd);
+
+    if (start === null) {
+      issues.push({ line: timingLineNumber, message: `Invalid start timestamp "${rawStart.trim()}"`, severity: 'error' });
+      continue;
+    }
+    if (end === null) {
+      issues.push({ line: timingLineNumber, message: `Invalid end timestamp "${rawEnd}"`, severity: 'error' });
+      continue;
+    }
+    if (end <= start) {
+      issues.push({ line: timingLineNumber, message: 'Cue ends before it starts', severity: 'error' });
+      continue;
+    }
+
+    const text = block.slice(timingOffset + 1).join('\n').trim();
+    if (!text) {
+      issues.push({ line: timingLineNumber, message: 'Cue has no text', severity: 'warning' });
+      continue;
+    }
+
+    cues.push({
+      ...(timingOffset === 1 ? { id: block[0].trim() } : {}),
+      start,
+      end,
+      text,
+      line: timingLineNumber,
+    });
+  }
+
+  issues.push(...validateCues(cues));
+  issues.sort((a, b) => a.line - b.line);
+
+  return { format: resolvedFormat, cues, issues };
+}
+
+/**
+ * Report cues that start before the previous one (in file order) has ended
+ */
+export function validateCues(cues: SubtitleCue[]): SubtitleIssue[] {
+  const issues: SubtitleIssue[] = [];
+  for (let i = 1; i < cues.length; i++) {
+    const previous = cues[i - 1];
+    const cue = cues[i];
+    if (cue.start < previous.end) {
+      issues.push({
+        line: cue.line ?? i + 1,
+        message: `Cue overlaps the previous cue (${formatTimestamp(cue.start, 'srt')} < ${formatTimestamp(previous.end, 'srt')})`,
+        severity: 'warning',
+      });
+    }
+  }
+  return issues;
+}
+
+// WebVTT cue text is markup: these three would otherwise start a tag or an entity
+const escapeVttText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Write cues as an SRT or WebVTT file; cue text is plain text and is escaped for WebVTT
+ */
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  const sorted = [...cues].sort((a, b) => a.start - b.start);
+  const blocks = sorted.map((cue, i) => {
+    const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(cue.end, format)}`;
+    // SRT numbers cues from 1; WebVTT identifiers are optional so only keep real ones
+    const id = format === 'srt' ? String(i + 1) : cue.id;
+    // A blank line would end the cue early in both formats
+    const lines = cue.text.replace(/\n\s*\n/g, '\n');
+    const text = format === 'vtt' ? escapeVttText(lines) : lines;
+    return [id, timing, text].filter(Boolean).join('\n');
+  });
+
+  const body = blocks.join('\n\n');
+  return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+}
+
+// WebVTT inline markup (<b>, <i>, <c.yellow>, <v Speaker>, karaoke timestamps)
+const stripMarkup = (text: string) => text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+  lrm: '\u200E',
+  rlm: '\u200F',
+};
+
+// Character references in cue text (&amp;, &#39;, &#x2014;); unknown ones are left as written
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] !== '#') return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+
+export function cuesToTranscript(
+  cues: SubtitleCue[],
+  options: { audioTrackId: string; id?: string; language?: string }
+): Transcript {
+  const segments: TranscriptSegment[] = [...cues]
+    .sort((a, b) => a.start - b.start)
+    .map((cue, i) => ({
+      id: `seg-${i + 1}`,
+      // Entities are decoded after the markup is gone so an escaped "&lt;b&gt;" stays text
+      text: decodeEntities(stripMarkup(cue.text)),
+      start: cue.start,
+      end: cue.end,
+    }))
+    .filter(segment => segment.text.length > 0);
+
+  return {
+    id: options.id ?? `transcript-${Date.now()}`,
+    audioTrackId: options.audioTrackId,
+    segments,
+    status: 'completed',
+    ...(options.language ? { language: options.language } : {}),
+  };
+}
+
+export function transcriptToCues(transcript: Transcript): SubtitleCue[] {
+  return transcript.segments.map(segment => ({
+    start: segment.start,
+    end: segment.end,
+    text: segment.text,
+  }));
+}
+
+/**
+ * Cues from text layers - caption layers when a transcript id is given, otherwise every text layer
+ */
+export function textLayersToCues(textLayers: TextLayer[], transcriptId?: string): SubtitleCue[] {
+  return textLayers
+    .filter(layer => !transcriptId || layer.caption?.transcriptId === transcriptId)
+    .filter(layer => layer.content.trim().length > 0)
+    .map(layer => ({ start: layer.start, end: layer.end, text: layer.content.trim() }));
+}
+
+export function getSubtitleMimeType(format: SubtitleFormat): string {
+  return format === 'vtt' ? 'text/vtt' : 'application/x-subrip';
+}
@@ -0,0 +1,152 @@
+// Templates - Turn a project into a reusable template and fill its placeholder slots
+// A slot points at a template layer; applying swaps in the user's media or text and fits clips to the slot's timing
+
+import {
+  EditorProjectData,
+  EditorTemplate,
+  TemplatePlaceholder,
+  VideoLayer,
+} from '@/types/editor';
+import { MIN_CLIP_SPEED, getSourceDuration, getTimelineDuration } from '@/lib/clipTiming';
+
+export type TemplateFill =
+  | { kind: 'media'; src: string; fileName: string; duration?: number } // duration of the media, for video slots
+  | { kind: 'text'; content: string };
+
+export type TemplateFills = Record<string, TemplateFill>; // by placeholder id
+
+const LABEL_LENGTH = 24;
+
+const truncate = (text: string) => (text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1)}…` : text);
+
+/**
+ * Every layer that could become a slot, in timeline order - the save dialog lets the creator pick from these
+ * Captions are left out; they belong to a transcript the template doesn't carry
+ */
+export function getPlaceholderCandidates(
+  project: Pick<EditorProjectData, 'videoLayers' | 'imageLayers' | 'textLayers'>
+): TemplatePlaceholder[] {
+  const clips = [...project.videoLayers].sort((a, b) => a.start - b.start);
+  const images = [...project.imageLayers].sort((a, b) => a.start - b.start);
+  const texts = project.textLayers.filter(layer => !layer.caption).sort((a, b) => a.start - b.start);
+
+  return [
+    ...clips.map((clip, index): TemplatePlaceholder => ({
+      id: `slot-${clip.id}`,
+      kind: 'media',
+      label: `Clip ${index + 1}`,
+      layerId: clip.id,
+      layerType: 'video',
+    })),
+    ...images.map((image, index): TemplatePlaceholder => ({
+      id: `slot-${image.id}`,
+      kind: 'media',
+      label: `Image ${index + 1}`,
+      layerId: image.id,
+      layerType: 'image',
+    })),
+    ...texts.map((text): TemplatePlaceholder => ({
+      id: `slot-${text.id}`,
+      kind: 'text',
+      label: truncate(text.content.trim() || 'Text'),
+      layerId: text.id,
+      layerType: 'text',
+    })),
+  ];
+}
+
+/**
+ * Snapshot a project as template content (everything but the id, which the database assigns)
+ * Slots whose layer no longer exists are dropped
+ */
+export function createTemplateFromProject(
+  project: EditorProjectData,
+  details: { name: string; description?: string },
+  placeholders: TemplatePlaceholder[]
+): Omit<EditorTemplate, 'id'> {
+  const textLayers = project.textLayers.filter(layer => !layer.caption);
+  const layerIds = new Set([
+    ...project.videoLayers.map(layer => layer.id),
+    ...project.imageLayers.map(layer => layer.id),
+    ...textLayers.map(layer => layer.id),
+  ]);
+
+  return {
+    name: details.name.trim(),
+    description: details.description?.trim() || undefined,
+    duration: project.settings.duration,
+    videoLayers: project.videoLayers,
+    imageLayers: project.imageLayers,
+    textLayers,
+    emojiLayers: project.emojiLayers,
+    overlayLayers: project.overlayLayers ?? [],
+    audioTracks: project.audioTracks,
+    globalFilter: project.globalFilter,
+    settings: project.settings,
+    placeholders: placeholders.filter(slot => layerIds.has(slot.layerId)),
+  };
+}
+
+/**
+ * Timing for new media in a clip slot so it fills the slot's length on the timeline
+ * Longer media is trimmed; shorter media is slowed down (keeping any speed ramp's shape) as far as MIN_CLIP_SPEED allows
+ */
+export function fitClipToSlot(
+  slot: VideoLayer,
+  mediaDuration: number
+): Pick<VideoLayer, 'duration' | 'sourceStart' | 'speed' | 'speedCurve'> {
+  const needed = getSourceDuration(slot);
+  if (!(mediaDuration > 0) || mediaDuration >= needed) {
+    return { duration: needed, sourceStart: 0, speed: slot.speed, speedCurve: slot.speedCurve };
+  }
+
+  const factor = mediaDuration / needed;
+  const slowDown = (speed: number) => Math.max(MIN_CLIP_SPEED, speed * factor);
+  return {
+    duration: mediaDuration,
+    sourceStart: 0,
+    speed: slowDown(slot.speed || 1),
+    speedCurve: slot.speedCurve?.map(point => ({ ...point, speed: slowDown(point.speed) })),
+  };
+}
+
+/**
+ * The template with its slots filled - unfilled slots keep the creator's sample media/text
+ */
+export function fillTemplate(template: EditorTemplate, fills: TemplateFills): EditorTemplate {
+  const slotsByLayer = new Map<string, TemplateFill>();
+  for (const slot of template.placeholders ?? []) {
+    const fill = fills[slot.id];
+    if (fill && fill.kind === slot.kind) slotsByLayer.set(slot.layerId, fill);
+  }
+
+  return {
+    ...template,
+    videoLayers: template.videoLayers?.map(clip => {
+      const fill = slotsByLayer.get(clip.id);
+      if (fill?.kind !== 'media') return clip;
+      const fitted = { ...clip, src: fill.src, fileName: fill.fileName, ...fitClipToSlot(clip, fill.duration ?? 0) };
+      return { ...fitted, end: fitted.start + getTimelineDuration(fitted) };
+    }),
+    imageLayers: template.imageLayers?.map(image => {
+      const fill = slotsByLayer.get(image.id);
+      return fill?.kind === 'media' ? { ...image, src: fill.src, fileName: fill.fileName } : image;
+    }),
+    textLayers: template.textLayers?.map(text => {
+      const fill = slotsByLayer.get(text.id);
+      return fill?.kind === 'text' ? { ...text, content: fill.content } : text;
+    }),
+  };
+}
+
+/**
+ * Templates whose name or description contain every word of the query
+ */
+export function searchTemplates<T extends Pick<EditorTemplate, 'name' | 'description'>>(templates: T[], query: string): T[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return templates;
+  return templates.filter(template => {
+    const haystack = `${template.name} ${template.description ?? ''}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+}
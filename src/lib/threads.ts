@@ -0,0 +1,49 @@
+// Threads - Reply threads on group chat messages
+// Replies carry thread_id = the root message; the database keeps the root's reply count and notifies participants
+
+interface ThreadableMessage {
+  id: string;
+  sender_id: string;
+  created_at: string;
+  is_system?: boolean | null;
+  unsent_at?: string | null;
+  thread_id?: string | null;
+}
+
+/**
+ * Threads are for group chats, rooted on a regular message that isn't itself a thread reply
+ */
+export function canStartThread(message: ThreadableMessage, conversationType?: string): boolean {
+  return conversationType === 'group' && !message.is_system && !message.unsent_at && !message.thread_id;
+}
+
+/**
+ * "1 reply", "4 replies · 2 new"
+ */
+export function formatThreadSummary(replyCount: number, unreadCount = 0): string {
+  const replies = `${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`;
+  return unreadCount > 0 ? `${replies} · ${unreadCount} new` : replies;
+}
+
+/**
+ * Who is in a thread - the root's sender and everyone who replied, matching who gets notified
+ */
+export function getThreadParticipantIds(root: ThreadableMessage | null, replies: ThreadableMessage[]): string[] {
+  const ids = new Set<string>();
+  if (root) ids.add(root.sender_id);
+  replies.forEach((reply) => {
+    if (!reply.is_system) ids.add(reply.sender_id);
+  });
+  return [...ids];
+}
+
+/**
+ * Add or replace a reply, keeping the list oldest first
+ */
+export function mergeThreadReply<T extends ThreadableMessage>(replies: T[], reply: T): T[] {
+  const existing = replies.findIndex(r => r.id === reply.id);
+  if (existing !== -1) {
+    return replies.map((r, i) => (i === existing ? { ...r, ...reply } : r));
+  }
+  return [...replies, reply].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+}
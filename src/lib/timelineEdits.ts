@@ -0,0 +1,68 @@
+// Timeline edits on the video track - split at a time and ripple delete
+// Work on the laid-out track so clip positions match what VideoPlayer plays
+
+import { VideoLayer } from '@/types/editor';
+import { splitVideoClip } from '@/lib/clipTiming';
+import { layoutVideoClips, sortAndLayoutVideoClips } from '@/lib/transitions';
+
+/**
+ * Where the laid-out video track ends - the project duration follows it
+ */
+export function getVideoTrackEnd(clips: VideoLayer[]): number {
+  return clips.reduce((max, clip) => Math.max(max, clip.end), 0);
+}
+
+/**
+ * Trim end after the track changed length: an end trimmed short of the old track end stays
+ * where it was, but never past the new end; an untrimmed end follows the track
+ */
+export function getClipEndAfterRelayout(clipEnd: number, previousTrackEnd: number, trackEnd: number): number {
+  if (clipEnd >= previousTrackEnd) return trackEnd;
+  return Math.min(clipEnd, trackEnd);
+}
+
+/**
+ * Split the clip under a timeline time; null when there is no clip there
+ * or the time is too close to one of its edges
+ */
+export function splitVideoClipsAt(clips: VideoLayer[], time: number, newId: string): VideoLayer[] | null {
+  const laidOut = sortAndLayoutVideoClips(clips);
+  // During a transition overlap the outgoing clip is the one that gets cut
+  const index = laidOut.findIndex(clip => time > clip.start && time < clip.end);
+  if (index === -1) return null;
+
+  const halves = splitVideoClip(laidOut[index], time - laidOut[index].start, newId);
+  if (!halves) return null;
+
+  return layoutVideoClips([...laidOut.slice(0, index), ...halves, ...laidOut.slice(index + 1)]);
+}
+
+/**
+ * Remove a clip and close the gap it leaves
+ * `from`/`shift` say which overlay layers should follow the track and by how much
+ */
+export function rippleDeleteVideoClip(
+  clips: VideoLayer[],
+  id: string
+): { clips: VideoLayer[]; from: number; shift: number } | null {
+  const laidOut = sortAndLayoutVideoClips(clips);
+  const removed = laidOut.find(clip => clip.id === id);
+  if (!removed) return null;
+
+  const remaining = layoutVideoClips(laidOut.filter(clip => clip.id !== id));
+  return {
+    clips: remaining,
+    from: removed.end,
+    shift: getVideoTrackEnd(laidOut) - getVideoTrackEnd(remaining),
+  };
+}
+
+/**
+ * Pull layers that start at or after `from` earlier by `shift` seconds
+ */
+export function shiftLayersAfter<T extends { start: number; end: number }>(layers: T[], from: number, shift: number): T[] {
+  if (shift <= 0) return layers;
+  return layers.map(layer => layer.start >= from - 1e-6
+    ? { ...layer, start: Math.max(0, layer.start - shift), end: Math.max(0, layer.end - shift) }
+    : layer);
+}
@@ -0,0 +1,150 @@
+// Clip transitions - timeline overlap and the per-frame look of a transition between two video clips
+// Shared by the player, the preview (EditorCanvas) and the renderer so both look identical
+
+import { TransitionType, VideoLayer } from '@/types/editor';
+import { getSourceDuration, getTimelineDuration } from '@/lib/clipTiming';
+
+export const TRANSITION_TYPES: { type: TransitionType; label: string }[] = [
+  { type: 'crossfade', label: 'Crossfade' },
+  { type: 'dip-to-black', label: 'Dip to black' },
+  { type: 'slide', label: 'Slide' },
+  { type: 'wipe', label: 'Wipe' },
+  { type: 'zoom', label: 'Zoom' },
+];
+
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+export const MIN_TRANSITION_DURATION = 0.1;
+export const MAX_TRANSITION_DURATION = 2;
+
+export interface ActiveTransition {
+  type: TransitionType;
+  fromIndex: number;
+  toIndex: number;
+  progress: number; // 0-1
+}
+
+/**
+ * How one side of a transition is drawn
+ * offsetX is a fraction of the canvas width; clipLeft/clipRight hide that fraction of each edge
+ */
+export interface TransitionLayerState {
+  opacity: number;
+  offsetX: number;
+  scale: number;
+  clipLeft: number;
+  clipRight: number;
+}
+
+export interface TransitionFrame {
+  outgoing: TransitionLayerState; // drawn first
+  incoming: TransitionLayerState; // drawn on top
+}
+
+/**
+ * Length of a clip on the timeline, after speed changes
+ */
+export function getClipDuration(clip: Pick<VideoLayer, 'start' | 'end' | 'duration' | 'sourceStart' | 'speed' | 'speedCurve'>): number {
+  return getTimelineDuration(clip);
+}
+
+/**
+ * Effective overlap between a clip and the next one
+ * A transition can use at most half of either clip so a clip never overlaps two transitions at once
+ */
+export function getTransitionDuration(outgoing: VideoLayer, incoming: VideoLayer | undefined): number {
+  const transition = outgoing.transition;
+  if (!transition || !incoming) return 0;
+  const limit = Math.min(getClipDuration(outgoing), getClipDuration(incoming)) / 2;
+  return Math.min(Math.max(transition.duration, MIN_TRANSITION_DURATION), MAX_TRANSITION_DURATION, limit);
+}
+
+/**
+ * Lay clips out back to back in the given order, pulling each clip in by the
+ * transition that leads into it
+ */
+export function layoutVideoClips(clips: VideoLayer[]): VideoLayer[] {
+  let cursor = 0;
+
+  return clips.map((clip, index) => {
+    const length = getClipDuration(clip);
+    const laidOut = { ...clip, start: cursor, end: cursor + length, duration: getSourceDuration(clip) };
+    cursor += length - getTransitionDuration(clip, clips[index + 1]);
+    return laidOut;
+  });
+}
+
+/**
+ * Layout in timeline order - how VideoPlayer sequences clips
+ */
+export function sortAndLayoutVideoClips(clips: VideoLayer[]): VideoLayer[] {
+  return layoutVideoClips([...clips].sort((a, b) => a.start - b.start));
+}
+
+/**
+ * The transition playing at a timeline time, if any
+ * Expects clips laid out by layoutVideoClips
+ */
+export function getTransitionAt(clips: VideoLayer[], time: number): ActiveTransition | null {
+  for (let i = 0; i < clips.length - 1; i++) {
+    const outgoing = clips[i];
+    const incoming = clips[i + 1];
+    if (!outgoing.transition || getTransitionDuration(outgoing, incoming) <= 0) continue;
+    if (time >= incoming.start && time < outgoing.end) {
+      return {
+        type: outgoing.transition.type,
+        fromIndex: i,
+        toIndex: i + 1,
+        progress: (time - incoming.start) / (outgoing.end - incoming.start),
+      };
+    }
+  }
+  return null;
+}
+
+const identityLayer = (): TransitionLayerState => ({ opacity: 1, offsetX: 0, scale: 1, clipLeft: 0, clipRight: 0 });
+
+/**
+ * Evaluate a transition at a progress between 0 (all outgoing) and 1 (all incoming)
+ */
+export function getTransitionFrame(type: TransitionType, progress: number): TransitionFrame {
+  const t = Math.max(0, Math.min(1, progress));
+  const eased = t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+  const outgoing = identityLayer();
+  const incoming = identityLayer();
+
+  switch (type) {
+    case 'crossfade':
+      incoming.opacity = eased;
+      break;
+    case 'dip-to-black':
+      // Fade out to black over the first half, in from black over the second
+      outgoing.opacity = Math.max(0, 1 - 2 * t);
+      incoming.opacity = Math.max(0, 2 * t - 1);
+      break;
+    case 'slide':
+      outgoing.offsetX = -eased;
+      incoming.offsetX = 1 - eased;
+      break;
+    case 'wipe':
+      incoming.clipRight = 1 - eased;
+      break;
+    case 'zoom':
+      outgoing.scale = 1 + 0.5 * eased;
+      outgoing.opacity = 1 - eased;
+      incoming.scale = 1.2 - 0.2 * eased;
+      incoming.opacity = eased;
+      break;
+  }
+  return { outgoing, incoming };
+}
+
+/**
+ * CSS for one side of a transition in the preview
+ */
+export function getTransitionLayerCss(state: TransitionLayerState): { opacity: number; transform: string; clipPath: string } {
+  return {
+    opacity: state.opacity,
+    transform: `translateX(${state.offsetX * 100}%) scale(${state.scale})`,
+    clipPath: `inset(0 ${state.clipRight * 100}% 0 ${state.clipLeft * 100}%)`,
+  };
+}
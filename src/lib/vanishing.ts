@@ -0,0 +1,70 @@
+// Vanishing messages - Durations and expiry checks for messages sent in vanishing mode
+// The server stamps expires_in on send and expires_at on first read; clients hide a message once expires_at passes
+
+export const DEFAULT_VANISHING_DURATION = 86400; // 24 hours, matches conversation_settings' default
+
+export const VANISHING_DURATIONS = [
+  { seconds: 300, label: '5 minutes' },
+  { seconds: 3600, label: '1 hour' },
+  { seconds: 86400, label: '24 hours' },
+  { seconds: 604800, label: '7 days' },
+];
+
+interface ExpiringMessage {
+  expires_in?: number | null;
+  expires_at?: string | null;
+}
+
+/**
+ * Human-readable duration, matching format_vanishing_duration() in the database
+ */
+export function formatVanishingDuration(seconds: number): string {
+  if (seconds >= 172800 && seconds % 86400 === 0) return `${seconds / 86400} days`;
+  if (seconds % 3600 === 0) return `${seconds / 3600} ${seconds === 3600 ? 'hour' : 'hours'}`;
+  const minutes = Math.max(Math.floor(seconds / 60), 1);
+  return `${minutes} ${seconds < 120 ? 'minute' : 'minutes'}`;
+}
+
+/**
+ * Whether the message was sent in vanishing mode (whether or not its clock has started)
+ */
+export function isVanishingMessage(message: ExpiringMessage): boolean {
+  return message.expires_in != null;
+}
+
+export function isMessageExpired(message: ExpiringMessage, now = Date.now()): boolean {
+  return !!message.expires_at && Date.parse(message.expires_at) <= now;
+}
+
+/**
+ * The messages still visible at `now` - expired ones are hidden before the purge job deletes them
+ */
+export function filterExpiredMessages<T extends ExpiringMessage>(messages: T[], now = Date.now()): T[] {
+  return messages.some(message => isMessageExpired(message, now))
+    ? messages.filter(message => !isMessageExpired(message, now))
+    : messages;
+}
+
+/**
+ * Time of the next expiry after `now`, or null when nothing is counting down
+ */
+export function getNextExpiry(messages: ExpiringMessage[], now = Date.now()): number | null {
+  let next: number | null = null;
+  for (const message of messages) {
+    if (!message.expires_at) continue;
+    const expiry = Date.parse(message.expires_at);
+    if (expiry > now && (next === null || expiry < next)) next = expiry;
+  }
+  return next;
+}
+
+/**
+ * Short countdown label for a message bubble, e.g. "4m", "23h", "6d"
+ */
+export function formatTimeLeft(expiresAt: string, now = Date.now()): string {
+  const seconds = Math.max(0, Math.round((Date.parse(expiresAt) - now) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
@@ -0,0 +1,184 @@
+// Waveform - Decodes audio tracks into peak arrays for the timeline
+// Decoding renders through an OfflineAudioContext (mono, low rate); peaks are kept per zoom level and cached by URL
+
+import { AudioAnalysis } from '@/types/editor';
+import { detectBeats } from '@/lib/beats';
+
+// Mono rate the OfflineAudioContext renders at - plenty for peaks and onsets
+export const ANALYSIS_SAMPLE_RATE = 22050;
+
+// Finest peak resolution, the one persisted to music_library - 4px per bar at the timeline's max 200px/s
+export const WAVEFORM_BASE_RATE = 50;
+
+// Coarsest level kept - below this a whole zoomed-out track is only a handful of bars
+const MIN_LEVEL_RATE = 1;
+
+// Aim for a bar roughly every this many pixels
+const PIXELS_PER_BAR = 4;
+
+export interface PeakLevel {
+  rate: number; // peaks per second of source audio
+  peaks: number[]; // 0-1
+}
+
+/**
+ * Decode an audio URL to mono samples at ANALYSIS_SAMPLE_RATE
+ * Rendering through an OfflineAudioContext mixes channels down and resamples in one pass
+ */
+export async function decodeAudioSamples(url: string): Promise<{ samples: Float32Array; sampleRate: number }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio (${response.status})`);
+  }
+  const encoded = await response.arrayBuffer();
+
+  // decodeAudioData needs a context; a one-frame offline context is the cheapest one
+  const decoder = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const decoded = await decoder.decodeAudioData(encoded);
+
+  const length = Math.max(1, Math.ceil(decoded.duration * ANALYSIS_SAMPLE_RATE));
+  const context = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE);
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+  source.connect(context.destination);
+  source.start(0);
+
+  const rendered = await context.startRendering();
+  return { samples: rendered.getChannelData(0), sampleRate: ANALYSIS_SAMPLE_RATE };
+}
+
+/**
+ * Absolute peak per bucket, normalized so the loudest bucket is 1
+ * Values are rounded to 2 decimals to keep the persisted array small
+ */
+export function computePeaks(samples: Float32Array, sampleRate: number, rate = WAVEFORM_BASE_RATE): number[] {
+  const bucketSize = sampleRate / rate;
+  const count = Math.ceil(samples.length / bucketSize);
+  const peaks = new Array<number>(count);
+  let loudest = 0;
+
+  for (let i = 0; i < count; i++) {
+    const from = Math.floor(i * bucketSize);
+    const to = Math.min(samples.length, Math.floor((i + 1) * bucketSize));
+    let peak = 0;
+    for (let j = from; j < to; j++) {
+      const value = Math.abs(samples[j]);
+      if (value > peak) peak = value;
+    }
+    peaks[i] = peak;
+    if (peak > loudest) loudest = peak;
+  }
+
+  const scale = loudest > 0 ? 1 / loudest : 0;
+  return peaks.map(peak => Math.round(peak * scale * 100) / 100);
+}
+
+/**
+ * Halve the base peaks until MIN_LEVEL_RATE - finest level first
+ * Each coarser peak is the max of the two it replaces, so transients survive zooming out
+ */
+export function buildPeakLevels(peaks: number[], rate = WAVEFORM_BASE_RATE): PeakLevel[] {
+  const levels: PeakLevel[] = [{ rate, peaks }];
+  let current = levels[0];
+
+  while (current.rate / 2 >= MIN_LEVEL_RATE && current.peaks.length > 1) {
+    const next: number[] = [];
+    for (let i = 0; i < current.peaks.length; i += 2) {
+      next.push(Math.max(current.peaks[i], current.peaks[i + 1] ?? 0));
+    }
+    current = { rate: current.rate / 2, peaks: next };
+    levels.push(current);
+  }
+
+  return levels;
+}
+
+// Levels per analysis - built once, shared by every track and zoom change
+const levelCache = new WeakMap<AudioAnalysis, PeakLevel[]>();
+
+export function getPeakLevels(analysis: AudioAnalysis): PeakLevel[] {
+  let levels = levelCache.get(analysis);
+  if (!levels) {
+    levels = buildPeakLevels(analysis.peaks, analysis.peakRate);
+    levelCache.set(analysis, levels);
+  }
+  return levels;
+}
+
+/**
+ * Coarsest level that still gives a bar every PIXELS_PER_BAR at this zoom
+ * Falls back to the finest level when zoomed in past it
+ */
+export function pickPeakLevel(levels: PeakLevel[], pixelsPerSecond: number): PeakLevel | null {
+  if (levels.length === 0) return null;
+  const wanted = pixelsPerSecond / PIXELS_PER_BAR;
+  let picked = levels[0];
+  for (const level of levels) {
+    if (level.rate >= wanted) picked = level;
+  }
+  return picked;
+}
+
+/**
+ * Peaks covering source seconds [from, to) of a level
+ */
+export function slicePeaks(level: PeakLevel, from: number, to: number): number[] {
+  const start = Math.max(0, Math.floor(from * level.rate));
+  const end = Math.min(level.peaks.length, Math.ceil(to * level.rate));
+  return start < end ? level.peaks.slice(start, end) : [];
+}
+
+/**
+ * Decode a URL and compute its peaks and beats
+ */
+export async function analyzeAudio(url: string): Promise<AudioAnalysis> {
+  const { samples, sampleRate } = await decodeAudioSamples(url);
+  const { beats, bpm } = detectBeats(samples, sampleRate);
+
+  return {
+    duration: samples.length / sampleRate,
+    peakRate: WAVEFORM_BASE_RATE,
+    peaks: computePeaks(samples, sampleRate),
+    beats,
+    bpm,
+  };
+}
+
+// Analyses per URL for this session - the promise is cached so concurrent tracks share one decode
+const analysisCache = new Map<string, Promise<AudioAnalysis | null>>();
+
+/**
+ * Cached analysis for a URL; `load` supplies a persisted copy before falling back to decoding
+ * Failed decodes (e.g. streaming links) resolve to null and are not retried this session
+ */
+export function getAudioAnalysis(
+  url: string,
+  load?: () => Promise<AudioAnalysis | null>,
+  save?: (analysis: AudioAnalysis) => Promise<void>
+): Promise<AudioAnalysis | null> {
+  const cached = analysisCache.get(url);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const stored = load ? await load().catch(() => null) : null;
+    if (stored) {
+      console.log(`[AUDIO] waveform loaded -> url=${url} beats=${stored.beats.length}`);
+      return stored;
+    }
+
+    try {
+      const analysis = await analyzeAudio(url);
+      console.log(`[AUDIO] waveform decoded -> url=${url} peaks=${analysis.peaks.length} bpm=${analysis.bpm ?? '-'}`);
+      if (save) {
+        save(analysis).catch(error => console.warn('[AUDIO] waveform save failed', error));
+      }
+      return analysis;
+    } catch (error) {
+      console.warn(`[AUDIO] waveform decode failed -> url=${url}`, error);
+      return null;
+    }
+  })();
+
+  analysisCache.set(url, pending);
+  return pending;
+}
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useConversations } from '@/hooks/useConversations';
 import { ChatWindow } from '@/components/messages/ChatWindow';
@@ -9,6 +9,7 @@ import { useToast } from '@/hooks/use-toast';
 
 const ConversationPage = () => {
   const { conversationId } = useParams<{ conversationId: string }>();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
@@ -19,6 +20,7 @@ const ConversationPage = () => {
   const {
     messages,
     fetchMessages,
+    fetchMessagesAround,
     sendMessage,
     markMessagesAsRead,
     conversations
@@ -51,10 +53,10 @@ const ConversationPage = () => {
     setLoading(false);
   }, [conversationId, user, conversations]);
 
-  const handleSendMessage = async (content?: string, mediaUrl?: string, replyToId?: string) => {
+  const handleSendMessage = async (content?: string, mediaUrl?: string, replyToId?: string, attachmentName?: string) => {
     if (!conversationId || !user) return;
 
-    const success = await sendMessage(conversationId, content, mediaUrl, replyToId);
+    const success = await sendMessage(conversationId, content, mediaUrl, replyToId, attachmentName);
     if (success) {
       // Message will be added via real-time subscription
       // The specific error is already shown by the sendMessage function
@@ -138,6 +140,7 @@ const ConversationPage = () => {
           messages={messages}
           currentUserId={user.id}
           conversationId={conversationId}
+          conversationType={conversations.find(c => c.conversation_id === conversationId)?.type}
           onSendMessage={handleSendMessage}
           onSendAudioMessage={handleSendAudioMessage}
           onLoadMore={() => {
@@ -148,6 +151,10 @@ const ConversationPage = () => {
               return next;
             });
           }}
+          onJumpToMessage={async (_messageId, createdAt) => {
+            setPage(await fetchMessagesAround(conversationId, createdAt));
+          }}
+          openThreadId={searchParams.get('thread')}
           loading={loading}
         />
       </div>
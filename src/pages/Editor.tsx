@@ -3,27 +3,46 @@
 // Features: Autosave (debounced), Undo/Redo stack, Audio effects engine, Performance monitoring
 // NEW: Resizable, collapsible sidebar with internal scrolling and layer list
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { 
-  ArrowLeft, Save, Undo, Redo, Clock, Loader2, ChevronRight
+  ArrowLeft, Save, Undo, Redo, Clock, Loader2, ChevronRight, Film, History
 } from 'lucide-react';
 import { EditorCanvas, EditorCanvasRef } from '@/components/editor/EditorCanvas';
 import { EditorSidebar } from '@/components/editor/EditorSidebar';
 import { VideoTimeline } from '@/components/editor/timeline/VideoTimeline';
 import { PlaybackControls } from '@/components/editor/panels/PlaybackControls';
+import { ExportDialog } from '@/components/editor/export/ExportDialog';
+import { VersionHistorySheet } from '@/components/editor/versions/VersionHistorySheet';
 import { useEditorProject, EditorProject } from '@/hooks/useEditorProject';
 import { useEditorHistory, EditorSnapshot } from '@/hooks/useEditorHistory';
 import { useAutosave } from '@/hooks/useAutosave';
+import { ProjectVersion, useProjectVersions } from '@/hooks/useProjectVersions';
+import { useAudioTrackPlayback } from '@/hooks/useAudioTrackPlayback';
+import { useAudioAnalysis } from '@/hooks/useAudioAnalysis';
 import { usePerformanceMonitor } from '@/hooks/usePerformanceMonitor';
 import { toast } from '@/hooks/use-toast';
 import { VideoPlayer, createPlayer } from '@/lib/player';
+import { CaptionOptions, generateCaptionLayers, isCaptionOf, syncCaptionLayers } from '@/lib/captions';
+import { layoutVideoClips, sortAndLayoutVideoClips } from '@/lib/transitions';
+import { applyKeyframedUpdate } from '@/lib/keyframes';
 import {
-  VideoLayer, ImageLayer, TextLayer, EmojiLayer, AudioTrack,
+  getClipEndAfterRelayout,
+  getVideoTrackEnd,
+  rippleDeleteVideoClip,
+  shiftLayersAfter,
+  splitVideoClipsAt,
+} from '@/lib/timelineEdits';
+import { applyOverlayTiming } from '@/lib/compositor';
+import { BEAT_SNAP_TOLERANCE, collectTimelineBeats, snapToBeat } from '@/lib/beats';
+import { SavedProjectJson, shouldAutoCheckpoint } from '@/lib/projectVersions';
+import { ProjectRenderer } from '@/lib/renderer';
+import {
+  VideoLayer, ImageLayer, OverlayVideoLayer, TextLayer, EmojiLayer, AudioTrack, AudioDucking, defaultAudioDucking,
   VideoFilter, defaultVideoFilter, defaultTextStyle, normalizeVideoFilter,
-  Transcript, EditorTemplate
+  Transcript, EditorTemplate, EditorProjectData, EditorSettings, defaultEditorSettings
 } from '@/types/editor';
 
 // Sidebar width constants
@@ -40,7 +59,6 @@ export default function Editor() {
   const { project, saveProject, isLoading, updateProjectData } = useEditorProject(projectId);
   const canvasRef = useRef<EditorCanvasRef>(null);
   const playerRef = useRef<VideoPlayer | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioEngineRef = useRef<import('@/lib/audioEngine').AudioEngine | null>(null);
   
   // History for undo/redo
@@ -61,7 +79,8 @@ export default function Editor() {
     saveNow, 
     isSaving, 
     lastSaveTime, 
-    pendingChanges 
+    pendingChanges,
+    saveCount,
   } = useAutosave(project?.id, {
     debounceMs: 1000,
     onSaveSuccess: (timestamp) => {
@@ -73,6 +92,16 @@ export default function Editor() {
     },
   });
   
+  // Server-side versions - survive reloads, unlike the undo stack
+  const {
+    versions,
+    loading: versionsLoading,
+    createVersion,
+    deleteVersion,
+    updateThumbnail,
+  } = useProjectVersions(project?.id);
+  const handledSaveCountRef = useRef(0);
+
   // Performance monitoring
   const { recordFrame, markEvent, metrics } = usePerformanceMonitor({ 
     enabled: process.env.NODE_ENV === 'development',
@@ -101,17 +130,31 @@ export default function Editor() {
   // Editor state - Single source of truth for layers
   const [videoLayers, setVideoLayers] = useState<VideoLayer[]>([]);
   const [imageLayers, setImageLayers] = useState<ImageLayer[]>([]);
+  const [overlayLayers, setOverlayLayers] = useState<OverlayVideoLayer[]>([]);
   const [textLayers, setTextLayers] = useState<TextLayer[]>([]);
   const [emojiLayers, setEmojiLayers] = useState<EmojiLayer[]>([]);
-  const [audioTrack, setAudioTrack] = useState<AudioTrack | null>(null);
+  const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
+  const [audioDucking, setAudioDucking] = useState<AudioDucking>(defaultAudioDucking);
   const [globalFilter, setGlobalFilter] = useState<VideoFilter>(defaultVideoFilter);
   const [duration, setDuration] = useState(30);
+  // Output format saved with the project; the editor only changes the duration
+  const [outputSettings, setOutputSettings] = useState<Pick<EditorSettings, 'fps' | 'resolution'>>({
+    fps: defaultEditorSettings.fps,
+    resolution: defaultEditorSettings.resolution,
+  });
   const [transcript, setTranscript] = useState<Transcript | null>(null);
 
   // UI state
   const [activePanel, setActivePanel] = useState<string>('media');
   const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
   const [selectedLayerType, setSelectedLayerType] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [snapCutsToBeats, setSnapCutsToBeats] = useState(true);
+
+  // Waveforms and beats for the audio tracks - splits snap to beatMarkers
+  const audioAnalyses = useAudioAnalysis(audioTracks);
+  const beatMarkers = useMemo(() => collectTimelineBeats(audioTracks, audioAnalyses), [audioTracks, audioAnalyses]);
 
   const projectLoadedRef = useRef<string | null>(null);
 
@@ -183,25 +226,27 @@ export default function Editor() {
   const createSnapshot = useCallback((action: string): Omit<EditorSnapshot, 'timestamp'> => ({
     action,
     videoLayers: [...videoLayers],
-    audioTrack: audioTrack ? { ...audioTrack } : null,
+    audioTracks: [...audioTracks],
     emojiLayers: [...emojiLayers],
     textLayers: [...textLayers],
     imageLayers: [...imageLayers],
+    overlayLayers: [...overlayLayers],
     globalFilter: { ...globalFilter },
     duration,
     clipStart,
     clipEnd,
     transcript,
-  }), [videoLayers, audioTrack, emojiLayers, textLayers, imageLayers, globalFilter, duration, clipStart, clipEnd, transcript]);
+  }), [videoLayers, audioTracks, emojiLayers, textLayers, imageLayers, overlayLayers, globalFilter, duration, clipStart, clipEnd, transcript]);
 
   // Apply snapshot from history
   const applySnapshot = useCallback((snapshot: EditorSnapshot) => {
     console.log('[Editor] Applying snapshot:', snapshot.action);
     setVideoLayers(snapshot.videoLayers);
-    setAudioTrack(snapshot.audioTrack);
+    setAudioTracks(snapshot.audioTracks);
     setEmojiLayers(snapshot.emojiLayers);
     setTextLayers(snapshot.textLayers);
     setImageLayers(snapshot.imageLayers);
+    setOverlayLayers(snapshot.overlayLayers);
     setGlobalFilter(snapshot.globalFilter);
     setDuration(snapshot.duration);
     setClipStart(snapshot.clipStart);
@@ -310,6 +355,10 @@ export default function Editor() {
           scale: 1,
           rotation: 0,
           filter: normalizeVideoFilter(clip.filter),
+          transition: clip.transition,
+          sourceStart: clip.sourceStart,
+          speed: clip.speed,
+          speedCurve: clip.speedCurve,
         };
       });
       
@@ -326,26 +375,6 @@ export default function Editor() {
       console.log('[EDITOR] player.init delayed: waiting for clips');
     }
 
-    // Load audio track
-    const audioTrackData = tracks.find((t: any) => t.type === 'audio');
-    if (audioTrackData?.clips?.[0]) {
-      const clip = audioTrackData.clips[0];
-      setAudioTrack({
-        id: clip.id,
-        type: 'audio',
-        url: clip.src,
-        sourceType: clip.sourceType || 'direct',
-        title: clip.title || 'Music',
-        artist: clip.artist,
-        startAt: clip.start || 0,
-        endAt: clip.end || clip.duration,
-        duration: clip.duration,
-        volume: (clip.volume || 1) * 100,
-        muted: false,
-        effects: clip.effects,
-      });
-    }
-
     // Load overlay layers
     const overlayTrack = tracks.find((t: any) => t.type === 'overlay');
     if (overlayTrack?.clips) {
@@ -358,6 +387,7 @@ export default function Editor() {
         position: clip.position || { x: 50, y: 50 },
         scale: clip.scale || 1,
         rotation: clip.rotation || 0,
+        keyframes: clip.keyframes,
       }));
       setEmojiLayers(eLayers);
     }
@@ -391,6 +421,7 @@ export default function Editor() {
           rotation: clip.rotation || 0,
           style: normalizeStyle(clip.style),
           animation: clip.animation,
+          keyframes: clip.keyframes,
         };
       });
       setTextLayers(tLayers);
@@ -409,10 +440,36 @@ export default function Editor() {
         position: clip.position || { x: 50, y: 50 },
         scale: clip.scale || 1,
         rotation: clip.rotation || 0,
+        keyframes: clip.keyframes,
       }));
       setImageLayers(iLayers);
     }
 
+    // Load overlay videos (picture-in-picture)
+    const overlayVideoTrack = tracks.find((t) => t.type === 'overlay-video');
+    if (overlayVideoTrack?.clips) {
+      const oLayers: OverlayVideoLayer[] = overlayVideoTrack.clips.map((clip) => ({
+        id: clip.id,
+        type: 'overlay-video',
+        src: clip.src,
+        fileName: clip.fileName || 'Video',
+        start: clip.start || 0,
+        end: clip.end || clip.duration,
+        duration: clip.duration,
+        sourceStart: clip.sourceStart,
+        volume: clip.volume ?? 1,
+        muted: clip.muted ?? false,
+        position: clip.position || { x: 50, y: 50 },
+        scale: clip.scale || 1,
+        rotation: clip.rotation || 0,
+        opacity: clip.opacity ?? 1,
+        blendMode: clip.blendMode || 'normal',
+        chromaKey: clip.chromaKey,
+        keyframes: clip.keyframes,
+      }));
+      setOverlayLayers(oLayers);
+    }
+
     // Load transcript if exists
     if (proj.project_json.transcripts?.[0]) {
       setTranscript(proj.project_json.transcripts[0]);
@@ -422,6 +479,10 @@ export default function Editor() {
       setDuration(settings.duration);
       setClipEnd(settings.duration);
     }
+    setOutputSettings({
+      fps: settings?.fps ?? defaultEditorSettings.fps,
+      resolution: settings?.resolution ?? defaultEditorSettings.resolution,
+    });
     
     if (settings?.clipStart !== undefined) {
       setClipStart(settings.clipStart);
@@ -432,7 +493,7 @@ export default function Editor() {
 
     // Restore volumes from settings (legacy) or audio block (new schema)
     const audioState = (proj.project_json as any).audio as
-      | { videoVolume?: number; tracks?: Record<string, { volume?: number }> }
+      | { videoVolume?: number; tracksVolume?: number; tracks?: Record<string, { volume?: number }>; ducking?: Partial<AudioDucking> }
       | undefined;
 
     let restoredVideoVolume = settings?.videoVolume;
@@ -443,35 +504,43 @@ export default function Editor() {
       setVideoVolume(restoredVideoVolume);
     }
 
-    if (audioTrackData?.clips?.[0]) {
-      const clip = audioTrackData.clips[0];
-      const trackVolumeFromAudio = audioState?.tracks?.[clip.id]?.volume;
-      const resolvedVolume =
-        typeof trackVolumeFromAudio === 'number'
-          ? Math.round(trackVolumeFromAudio * 100)
-          : (clip.volume || 1) * 100;
-
-      setAudioTrack({
-        id: clip.id,
-        type: 'audio',
-        url: clip.src,
-        sourceType: clip.sourceType || 'direct',
-        title: clip.title || 'Music',
-        artist: clip.artist,
-        startAt: clip.start || 0,
-        endAt: clip.end || clip.duration,
-        duration: clip.duration,
-        volume: resolvedVolume,
-        muted: false,
-        effects: clip.effects,
+    // Every clip on the audio track is its own track; per-track volumes in the audio block win over the clip's
+    const audioTrackData = tracks.find((t: any) => t.type === 'audio');
+    if (audioTrackData?.clips) {
+      const loadedTracks: AudioTrack[] = audioTrackData.clips.map((clip) => {
+        const trackVolumeFromAudio = audioState?.tracks?.[clip.id]?.volume;
+        return {
+          id: clip.id,
+          type: 'audio',
+          url: clip.src,
+          sourceType: clip.sourceType || 'direct',
+          title: clip.title || 'Music',
+          artist: clip.artist,
+          startAt: clip.start || 0,
+          endAt: clip.end || clip.duration,
+          duration: clip.duration,
+          volume: typeof trackVolumeFromAudio === 'number'
+            ? Math.round(trackVolumeFromAudio * 100)
+            : (clip.volume ?? 1) * 100,
+          muted: clip.muted ?? false,
+          effects: clip.effects,
+          role: clip.role,
+          fadeIn: clip.fadeIn,
+          fadeOut: clip.fadeOut,
+          volumeEnvelope: clip.volumeEnvelope,
+        };
       });
-      setAudioTrackVolume(resolvedVolume);
-      console.log('[AUDIO] restored volumes from project', {
+      setAudioTracks(loadedTracks);
+      console.log('[AUDIO] restored audio tracks from project', {
         videoVolume: restoredVideoVolume,
-        audioTrackId: clip.id,
-        audioTrackVolume: resolvedVolume,
+        tracks: loadedTracks.map(t => ({ id: t.id, volume: t.volume })),
       });
     }
+
+    if (audioState?.tracksVolume !== undefined) {
+      setAudioTrackVolume(Math.round(audioState.tracksVolume * 100));
+    }
+    setAudioDucking({ ...defaultAudioDucking, ...audioState?.ducking });
   };
 
   // Push initial snapshot after loading
@@ -497,7 +566,7 @@ export default function Editor() {
     
     // Record performance frame
     recordFrame();
-  }, [videoLayers, audioTrack, audioTrackVolume, videoVolume, emojiLayers, textLayers, imageLayers, duration, clipStart, clipEnd, transcript]);
+  }, [videoLayers, audioTracks, audioTrackVolume, audioDucking, videoVolume, emojiLayers, textLayers, imageLayers, overlayLayers, duration, clipStart, clipEnd, transcript]);
 
   // Build project JSON for saving (no blob/objectURL)
   const buildProjectJson = useCallback(() => {
@@ -517,27 +586,36 @@ export default function Editor() {
           duration: layer.duration,
           volume: layer.volume,
           filter: layer.filter,
+          transition: layer.transition,
+          sourceStart: layer.sourceStart,
+          speed: layer.speed,
+          speedCurve: layer.speedCurve,
         })),
       });
     }
 
-    if (audioTrack) {
+    if (audioTracks.length > 0) {
       tracks.push({
         id: 'track-audio',
         type: 'audio',
-        clips: [{
-          id: audioTrack.id,
+        clips: audioTracks.map(track => ({
+          id: track.id,
           type: 'audio',
-          src: audioTrack.url,
-          sourceType: audioTrack.sourceType,
-          start: audioTrack.startAt,
-          end: audioTrack.endAt,
-          duration: audioTrack.duration,
-          volume: audioTrack.volume / 100,
-          title: audioTrack.title,
-          artist: audioTrack.artist,
-          effects: audioTrack.effects,
-        }],
+          src: track.url,
+          sourceType: track.sourceType,
+          start: track.startAt,
+          end: track.endAt,
+          duration: track.duration,
+          volume: track.volume / 100,
+          muted: track.muted,
+          title: track.title,
+          artist: track.artist,
+          effects: track.effects,
+          role: track.role,
+          fadeIn: track.fadeIn,
+          fadeOut: track.fadeOut,
+          volumeEnvelope: track.volumeEnvelope,
+        })),
       });
     }
 
@@ -554,6 +632,7 @@ export default function Editor() {
           position: layer.position,
           scale: layer.scale,
           rotation: layer.rotation,
+          keyframes: layer.keyframes,
         })),
       });
     }
@@ -573,6 +652,7 @@ export default function Editor() {
           rotation: layer.rotation,
           style: layer.style,
           animation: layer.animation,
+          keyframes: layer.keyframes,
         })),
       });
     }
@@ -591,20 +671,42 @@ export default function Editor() {
           position: layer.position,
           scale: layer.scale,
           rotation: layer.rotation,
+          keyframes: layer.keyframes,
         })),
       });
     }
 
-    const audioState = audioTrack ? {
-      videoVolume: videoVolume / 100,
-      tracks: {
-        [audioTrack.id]: {
-          volume: audioTrackVolume / 100,
-        },
-      },
-    } : {
+    if (overlayLayers.length > 0) {
+      tracks.push({
+        id: 'track-overlay-video',
+        type: 'overlay-video',
+        clips: overlayLayers.map(layer => ({
+          id: layer.id,
+          type: 'overlay-video',
+          src: layer.src,
+          fileName: layer.fileName,
+          start: layer.start,
+          end: layer.end,
+          duration: layer.duration,
+          sourceStart: layer.sourceStart,
+          volume: layer.volume,
+          muted: layer.muted,
+          position: layer.position,
+          scale: layer.scale,
+          rotation: layer.rotation,
+          opacity: layer.opacity,
+          blendMode: layer.blendMode,
+          chromaKey: layer.chromaKey,
+          keyframes: layer.keyframes,
+        })),
+      });
+    }
+
+    const audioState = {
       videoVolume: videoVolume / 100,
-      tracks: {},
+      tracksVolume: audioTrackVolume / 100,
+      tracks: Object.fromEntries(audioTracks.map(track => [track.id, { volume: track.volume / 100 }])),
+      ducking: audioDucking,
     };
 
     return {
@@ -613,14 +715,35 @@ export default function Editor() {
         duration,
         clipStart,
         clipEnd,
-        fps: 30,
-        resolution: { width: 1080, height: 1920 },
+        ...outputSettings,
         videoVolume,
       },
       transcripts: transcript ? [transcript] : [],
       audio: audioState,
     };
-  }, [videoLayers, audioTrack, audioTrackVolume, emojiLayers, textLayers, imageLayers, duration, clipStart, clipEnd, transcript, videoVolume]);
+  }, [videoLayers, audioTracks, audioTrackVolume, audioDucking, emojiLayers, textLayers, imageLayers, overlayLayers, duration, clipStart, clipEnd, outputSettings, transcript, videoVolume]);
+
+  // Build the typed project snapshot consumed by the offline renderer
+  const buildRenderProject = useCallback((): EditorProjectData => ({
+    videoLayers,
+    imageLayers,
+    overlayLayers,
+    textLayers,
+    emojiLayers,
+    audioTracks,
+    globalFilter,
+    settings: {
+      ...outputSettings,
+      duration,
+    },
+    transcripts: transcript ? [transcript] : [],
+    audio: {
+      videoVolume: isVideoMuted ? 0 : videoVolume / 100,
+      tracksVolume: isAudioMuted ? 0 : audioTrackVolume / 100,
+      tracks: Object.fromEntries(audioTracks.map(track => [track.id, { volume: track.muted ? 0 : track.volume / 100 }])),
+      ducking: audioDucking,
+    },
+  }), [videoLayers, imageLayers, overlayLayers, textLayers, emojiLayers, audioTracks, audioTrackVolume, isAudioMuted, audioDucking, globalFilter, duration, outputSettings, transcript, isVideoMuted, videoVolume]);
 
   // Save draft on page leave/refresh - triggers saveNow synchronously
   useEffect(() => {
@@ -639,6 +762,75 @@ export default function Editor() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [pendingChanges, buildProjectJson, saveNow]);
 
+  // Refresh the projects-page thumbnail from the frame at the trim start
+  const refreshThumbnail = useCallback(async () => {
+    try {
+      const thumbnail = await new ProjectRenderer(buildRenderProject()).renderStill(clipStart);
+      await updateThumbnail(thumbnail);
+    } catch (error) {
+      console.warn('[Editor] Thumbnail capture failed:', error);
+    }
+  }, [buildRenderProject, clipStart, updateThumbnail]);
+
+  // The first save of a session refreshes the thumbnail; every few saves also store a checkpoint
+  useEffect(() => {
+    if (saveCount === handledSaveCountRef.current) return;
+    handledSaveCountRef.current = saveCount;
+    if (saveCount === 1) {
+      refreshThumbnail();
+    } else if (shouldAutoCheckpoint(saveCount)) {
+      console.log('[Editor] Autosave checkpoint after', saveCount, 'saves');
+      createVersion(buildProjectJson(), { auto: true });
+      refreshThumbnail();
+    }
+  }, [saveCount, createVersion, buildProjectJson, refreshThumbnail]);
+
+  // Snapshot for the history sheet's "since then" summaries, taken when it opens
+  const historyProject = useMemo<SavedProjectJson | null>(
+    () => (historyOpen ? buildProjectJson() : null),
+    [historyOpen, buildProjectJson]
+  );
+
+  const handleSaveVersion = useCallback(async (name: string) => {
+    const projectData = buildProjectJson();
+    await saveNow(projectData);
+    const version = await createVersion(projectData, { name });
+    if (version) {
+      toast({ title: 'Version saved', description: version.name ?? undefined });
+      refreshThumbnail();
+    }
+  }, [buildProjectJson, saveNow, createVersion, refreshThumbnail]);
+
+  // Restoring saves the current edit as a named version first, so a restore can itself be undone
+  // from the history; named versions are never pruned like checkpoints, and without one there is no restore
+  const handleRestoreVersion = async (version: ProjectVersion) => {
+    if (!project) return;
+    const label = version.name || 'checkpoint';
+    try {
+      const backup = await createVersion(buildProjectJson(), { name: 'Before restore' });
+      if (!backup) return;
+      pushWithAction(`Restore ${label}`);
+
+      const projectJson = version.project_json as unknown as EditorProject['project_json'];
+      setVideoLayers([]);
+      setAudioTracks([]);
+      setEmojiLayers([]);
+      setTextLayers([]);
+      setImageLayers([]);
+      setOverlayLayers([]);
+      setTranscript(null);
+      loadProjectIntoState({ ...project, project_json: projectJson });
+      updateProjectData({ project_json: projectJson });
+      await saveNow(projectJson);
+
+      toast({ title: 'Version restored', description: `Restored ${label} from ${new Date(version.created_at).toLocaleString()}` });
+      setHistoryOpen(false);
+    } catch (error) {
+      console.error('[Editor] ❌ Restore failed:', error);
+      toast({ title: 'Failed to restore version', variant: 'destructive' });
+    }
+  };
+
   // Handlers
   const handleSave = async () => {
     try {
@@ -717,12 +909,27 @@ export default function Editor() {
     // Push snapshot before change for undo
     pushWithAction(`Update ${type} layer`);
     
+    // Text/emoji/image edits to keyframed properties are keyed at the playhead instead of changing the static value
     switch (type) {
-      case 'video':
-        setVideoLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
+      case 'video': {
+        // Transitions and speed change how long clips last, so the clips after move
+        const needsLayout = 'transition' in updates || 'speed' in updates || 'speedCurve' in updates;
+        if (!needsLayout) {
+          setVideoLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
+          break;
+        }
+
+        // ...and the project ends where the track now ends, or exports cut it off or pad it with black
+        const laidOut = sortAndLayoutVideoClips(videoLayers.map(l => l.id === id ? { ...l, ...updates } : l));
+        const previousEnd = getVideoTrackEnd(videoLayers);
+        const trackEnd = getVideoTrackEnd(laidOut);
+        setVideoLayers(laidOut);
+        setDuration(trackEnd);
+        setClipEnd(end => getClipEndAfterRelayout(end, previousEnd, trackEnd));
         break;
+      }
       case 'audio':
-        setAudioTrack(prev => prev ? { ...prev, ...updates } : null);
+        setAudioTracks(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
         break;
       case 'emoji':
         if (updates.scale !== undefined) {
@@ -731,16 +938,21 @@ export default function Editor() {
         if (updates.position !== undefined) {
           console.log('[EMOJI] updated position=', updates.position, 'id=', id);
         }
-        setEmojiLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
+        setEmojiLayers(prev => prev.map(l => l.id === id ? { ...l, ...applyKeyframedUpdate(l, updates, currentTime) } : l));
         break;
       case 'text':
-        setTextLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
+        setTextLayers(prev => prev.map(l => l.id === id ? { ...l, ...applyKeyframedUpdate(l, updates, currentTime) } : l));
         break;
       case 'image':
-        setImageLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
+        setImageLayers(prev => prev.map(l => l.id === id ? { ...l, ...applyKeyframedUpdate(l, updates, currentTime) } : l));
+        break;
+      case 'overlay-video':
+        setOverlayLayers(prev => prev.map(l => l.id === id
+          ? { ...l, ...applyKeyframedUpdate(l, applyOverlayTiming(l, updates), currentTime) }
+          : l));
         break;
     }
-  }, [pushWithAction]);
+  }, [pushWithAction, currentTime, videoLayers]);
 
   const handleLayerDelete = useCallback((type: string, id: string) => {
     // Push snapshot before delete for undo
@@ -751,7 +963,7 @@ export default function Editor() {
         setVideoLayers(prev => prev.filter(l => l.id !== id));
         break;
       case 'audio':
-        setAudioTrack(null);
+        setAudioTracks(prev => prev.filter(t => t.id !== id));
         break;
       case 'emoji':
         console.log('[EMOJI] removed id=', id);
@@ -763,6 +975,9 @@ export default function Editor() {
       case 'image':
         setImageLayers(prev => prev.filter(l => l.id !== id));
         break;
+      case 'overlay-video':
+        setOverlayLayers(prev => prev.filter(l => l.id !== id));
+        break;
     }
     if (selectedLayerId === id) {
       setSelectedLayerId(null);
@@ -770,6 +985,69 @@ export default function Editor() {
     }
   }, [selectedLayerId, pushWithAction]);
 
+  // Split the video clip under the playhead into two clips that play seamlessly
+  // With beat snapping on, a cut within BEAT_SNAP_TOLERANCE of a beat lands on it
+  const handleSplitVideo = useCallback((playheadTime: number) => {
+    const time = snapCutsToBeats ? snapToBeat(playheadTime, beatMarkers, BEAT_SNAP_TOLERANCE) : playheadTime;
+    const split = splitVideoClipsAt(videoLayers, time, `video-${Date.now()}`);
+    if (!split) {
+      toast({
+        title: 'No clip at playhead',
+        description: 'Position the playhead within a clip to split it.',
+      });
+      return;
+    }
+
+    pushWithAction('Split clip');
+    setVideoLayers(split);
+    console.log('[Editor] ✂️ Split clip at:', time.toFixed(2), time !== playheadTime ? '(snapped to beat)' : '');
+  }, [videoLayers, pushWithAction, snapCutsToBeats, beatMarkers]);
+
+  // Delete a video clip and close the gap - overlays after it move up with the track
+  const handleRippleDelete = useCallback((id: string) => {
+    const result = rippleDeleteVideoClip(videoLayers, id);
+    if (!result) return;
+
+    pushWithAction('Ripple delete');
+    setVideoLayers(result.clips);
+    const trackEnd = getVideoTrackEnd(result.clips);
+    if (trackEnd > 0) {
+      setDuration(trackEnd);
+      setClipEnd(end => getClipEndAfterRelayout(end, getVideoTrackEnd(videoLayers), trackEnd));
+    }
+    setTextLayers(prev => shiftLayersAfter(prev, result.from, result.shift));
+    setEmojiLayers(prev => shiftLayersAfter(prev, result.from, result.shift));
+    setImageLayers(prev => shiftLayersAfter(prev, result.from, result.shift));
+    setOverlayLayers(prev => shiftLayersAfter(prev, result.from, result.shift));
+    if (selectedLayerId === id) {
+      setSelectedLayerId(null);
+      setSelectedLayerType(null);
+    }
+    console.log('[Editor] Ripple deleted clip:', id, 'closed', result.shift.toFixed(2), 's');
+  }, [videoLayers, selectedLayerId, pushWithAction]);
+
+  // Timeline shortcuts: S splits at the playhead, Shift+Delete ripple-deletes the selected clip
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target?.isContentEditable) {
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (e.key === 's' || e.key === 'S') {
+        e.preventDefault();
+        handleSplitVideo(currentTime);
+      } else if (e.shiftKey && (e.key === 'Delete' || e.key === 'Backspace') && selectedLayerType === 'video' && selectedLayerId) {
+        e.preventDefault();
+        handleRippleDelete(selectedLayerId);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleSplitVideo, handleRippleDelete, currentTime, selectedLayerId, selectedLayerType]);
+
   const handleLayerSelect = useCallback((type: string | null, id: string | null) => {
     setSelectedLayerId(id);
     setSelectedLayerType(type);
@@ -778,6 +1056,10 @@ export default function Editor() {
       setActivePanel('text');
       console.log('[Editor] 📝 Selected text layer:', id, '→ switching to text panel');
     }
+    // Overlay video settings live in the media panel
+    if (type === 'overlay-video' && id) {
+      setActivePanel('media');
+    }
   }, []);
 
   const handleAddEmoji = useCallback((emoji: Omit<EmojiLayer, 'id' | 'start' | 'end'>) => {
@@ -838,32 +1120,77 @@ export default function Editor() {
     }
   }, [duration]);
 
-  const handleAudioChange = useCallback((audio: AudioTrack | null) => {
-    console.log('[Editor] Audio track changed:', audio?.id);
-    setAudioTrack(audio);
-    if (audio) {
-      setAudioTrackVolume(audio.volume ?? 100);
-    }
-    // Apply current volume to new audio track element
-    if (audioRef.current && audio) {
-      audioRef.current.volume = 1;
-      audioRef.current.src = audio.url;
-    }
+  // Overlay videos stack on the main track from the playhead instead of joining its sequence
+  const handleAddOverlayVideo = useCallback((overlay: Omit<OverlayVideoLayer, 'id' | 'start' | 'end'>) => {
+    pushWithAction('Add overlay video');
+
+    // A playhead parked at the very end would leave no room, so start from the top then
+    const start = currentTime < duration ? currentTime : 0;
+    const newOverlay: OverlayVideoLayer = {
+      id: `overlay-${Date.now()}`,
+      ...overlay,
+      start,
+      end: Math.min(start + overlay.duration, duration),
+    };
+    console.log('[Editor] ➕ Added overlay video:', newOverlay.fileName, newOverlay.start.toFixed(2), '-', newOverlay.end.toFixed(2));
+    setOverlayLayers(prev => [...prev, newOverlay]);
+    setSelectedLayerId(newOverlay.id);
+    setSelectedLayerType('overlay-video');
+  }, [currentTime, duration, pushWithAction]);
+
+  const handleAddAudioTrack = useCallback((track: AudioTrack) => {
+    pushWithAction('Add audio track');
+    console.log('[Editor] Audio track added:', track.id, 'role=', track.role);
+    setAudioTracks(prev => [...prev, track]);
+  }, [pushWithAction]);
+
+  const handleDuckingChange = useCallback((updates: Partial<AudioDucking>) => {
+    setAudioDucking(prev => ({ ...prev, ...updates }));
+    console.log('[AUDIO] ducking updated', updates);
   }, []);
 
   const handleTranscriptUpdate = useCallback((newTranscript: Transcript) => {
     console.log('[Editor] Transcript updated:', newTranscript.id);
     setTranscript(newTranscript);
+    // Linked captions follow transcript text edits
+    setTextLayers(prev => syncCaptionLayers(prev, newTranscript));
   }, []);
 
+  // Replace this transcript's captions with freshly generated ones
+  // source is passed when the transcript was just replaced (e.g. subtitle import) and state has not caught up
+  const handleGenerateCaptions = useCallback((options: CaptionOptions, source?: Transcript) => {
+    const target = source ?? transcript;
+    if (!target) return;
+    pushWithAction('Generate captions');
+
+    const captions = generateCaptionLayers(target, { resolution: outputSettings.resolution }, options);
+    console.log('[Editor] Generated captions:', captions.length, 'preset:', options.presetId);
+    setTextLayers(prev => [...prev.filter(layer => !isCaptionOf(layer, target.id)), ...captions]);
+    toast({
+      title: 'Captions generated',
+      description: `Added ${captions.length} caption layers`,
+    });
+  }, [transcript, outputSettings, pushWithAction]);
+
   const handleApplyTemplate = useCallback((template: EditorTemplate) => {
     console.log('[Editor] Applying template:', template.name);
-    
+    pushWithAction(`Apply template "${template.name}"`);
+    const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    // User templates carry their clip sequence (slots already filled) - it replaces the main track
+    if (template.videoLayers?.length) {
+      const clips = layoutVideoClips(template.videoLayers.map(clip => ({ ...clip, id: newId('video') })));
+      const totalDur = Math.max(...clips.map(clip => clip.end));
+      setVideoLayers(clips);
+      setDuration(totalDur);
+      setClipEnd(totalDur);
+    }
+
     // Apply text layers from template
     if (template.textLayers) {
       const newTextLayers = template.textLayers.map(layer => ({
         ...layer,
-        id: `text-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: newId('text'),
       }));
       setTextLayers(prev => [...prev, ...newTextLayers]);
     }
@@ -878,11 +1205,24 @@ export default function Editor() {
     if (template.emojiLayers) {
       const newEmojiLayers = template.emojiLayers.map(layer => ({
         ...layer,
-        id: `emoji-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: newId('emoji'),
       }));
       setEmojiLayers(prev => [...prev, ...newEmojiLayers]);
     }
-  }, []);
+
+    if (template.imageLayers?.length) {
+      const newImageLayers = template.imageLayers.map(layer => ({ ...layer, id: newId('image') }));
+      setImageLayers(prev => [...prev, ...newImageLayers]);
+    }
+    if (template.overlayLayers?.length) {
+      const newOverlayLayers = template.overlayLayers.map(layer => ({ ...layer, id: newId('overlay') }));
+      setOverlayLayers(prev => [...prev, ...newOverlayLayers]);
+    }
+    if (template.audioTracks?.length) {
+      const newAudioTracks = template.audioTracks.map(track => ({ ...track, id: newId('audio') }));
+      setAudioTracks(prev => [...prev, ...newAudioTracks]);
+    }
+  }, [pushWithAction]);
 
   // CRITICAL: Add video clip handler - recomputes all clip boundaries
   const handleAddVideo = useCallback((video: Omit<VideoLayer, 'id'>) => {
@@ -894,21 +1234,9 @@ export default function Editor() {
     setVideoLayers(prev => {
       const updated = [...prev, newVideo];
       
-      // Recompute clip.start for all clips
-      let cumulativeTime = 0;
-      const recomputed = updated.map(clip => {
-        const clipDuration = clip.duration || (clip.end - clip.start) || 5;
-        const newClip = {
-          ...clip,
-          start: cumulativeTime,
-          end: cumulativeTime + clipDuration,
-          duration: clipDuration,
-        };
-        cumulativeTime += clipDuration;
-        return newClip;
-      });
-      
-      const totalDur = cumulativeTime;
+      // Recompute clip.start for all clips (transitions overlap neighbours)
+      const recomputed = layoutVideoClips(updated);
+      const totalDur = Math.max(...recomputed.map(clip => clip.end));
       
       console.log('[Editor] ➕ Added video clip:', newVideo.fileName);
       console.log('[Editor] 📊 Total clips:', recomputed.length, 'Duration:', totalDur, 's');
@@ -933,56 +1261,39 @@ export default function Editor() {
     }
   }, [duration, clipEnd]);
 
-  // Playback controls - use player and sync audio track
+  // Audio tracks follow the player's clock - see useAudioTrackPlayback
+  useAudioTrackPlayback({
+    tracks: audioTracks,
+    currentTime,
+    isPlaying,
+    busVolume: audioTrackVolume,
+    busMuted: isAudioMuted,
+    ducking: audioDucking,
+  });
+
+  // Playback controls - use player; audio tracks follow via useAudioTrackPlayback
   const togglePlayPause = useCallback(() => {
     if (!playerRef.current) return;
     
     if (isPlaying) {
       playerRef.current.pause();
-      // Pause audio track
-      if (audioRef.current) {
-        audioRef.current.pause();
-      }
     } else {
       playerRef.current.play();
-      // Play audio track
-      if (audioRef.current && audioTrack) {
-        audioRef.current.currentTime = currentTime - (audioTrack.startAt || 0);
-        audioRef.current.play().catch(e => console.warn('[Editor] Audio play failed:', e));
-      }
     }
-  }, [isPlaying, audioTrack, currentTime]);
+  }, [isPlaying]);
 
   const toggleVideoMute = () => setIsVideoMuted(prev => !prev);
   const toggleAudioMute = () => {
     setIsAudioMuted(prev => {
       const newMuted = !prev;
-      console.log(`[AUDIO] track volume set -> trackId=${audioTrack?.id ?? 'none'} value=${newMuted ? 0 : audioTrackVolume / 100}`);
-      if (audioEngineRef.current && audioTrack) {
-        audioEngineRef.current.updateEffect(audioTrack.id, 'volume', newMuted ? 0 : audioTrackVolume);
-      }
-      if (audioRef.current) {
-        audioRef.current.volume = 1;
-      }
+      console.log(`[AUDIO] audio tracks ${newMuted ? 'muted' : 'unmuted'} -> count=${audioTracks.length}`);
       return newMuted;
     });
   };
   const toggleLoop = () => setIsLooping(prev => !prev);
   const toggleSidebar = () => setSidebarCollapsed(prev => !prev);
 
-  // Sync audio track volume with audio element + AudioEngine
-  useEffect(() => {
-    if (audioRef.current && audioTrack) {
-      audioRef.current.volume = 1;
-    }
-    if (audioEngineRef.current && audioTrack) {
-      const effectiveVolume = isAudioMuted ? 0 : audioTrackVolume;
-      audioEngineRef.current.updateEffect(audioTrack.id, 'volume', effectiveVolume);
-      console.log(`[AUDIO] track volume set -> trackId=${audioTrack.id} value=${(effectiveVolume / 100).toFixed(2)}`);
-    }
-  }, [audioTrackVolume, isAudioMuted, audioTrack]);
-
-  // Seek handler - uses player and syncs audio track
+  // Seek handler - uses player; audio tracks re-sync from currentTime
   const handleSeek = useCallback((time: number) => {
     const clampedTime = Math.max(0, Math.min(time, duration));
     console.log('[Editor] 🎯 handleSeek:', clampedTime.toFixed(2), 's');
@@ -994,14 +1305,7 @@ export default function Editor() {
     if (canvasRef.current) {
       canvasRef.current.seekTo(clampedTime);
     }
-    // Sync audio track seek
-    if (audioRef.current && audioTrack) {
-      const audioTime = clampedTime - (audioTrack.startAt || 0);
-      if (audioTime >= 0 && audioTime <= (audioTrack.duration || Infinity)) {
-        audioRef.current.currentTime = audioTime;
-      }
-    }
-  }, [duration, audioTrack]);
+  }, [duration]);
 
   // Scrub handlers - uses player
   const handleScrubStart = useCallback(() => {
@@ -1077,6 +1381,15 @@ export default function Editor() {
           ) : null}
         </div>
         <div className="flex items-center gap-2">
+          {/* Version history */}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setHistoryOpen(true)}
+            title="Version history"
+          >
+            <History className="h-5 w-5" />
+          </Button>
           {/* Undo button */}
           <Button 
             variant="ghost" 
@@ -1097,6 +1410,14 @@ export default function Editor() {
           >
             <Redo className="h-5 w-5" />
           </Button>
+          <Button
+            variant="outline"
+            onClick={() => setExportOpen(true)}
+            disabled={videoLayers.length === 0}
+          >
+            <Film className="h-4 w-4 mr-2" />
+            Export
+          </Button>
           <Button variant="outline" onClick={handleSaveDraft} disabled={isSaving}>
             {isSaving ? (
               <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -1122,13 +1443,16 @@ export default function Editor() {
           textLayers={textLayers}
           emojiLayers={emojiLayers}
           imageLayers={imageLayers}
+          overlayLayers={overlayLayers}
           videoLayers={videoLayers}
-          audioTrack={audioTrack}
+          audioTracks={audioTracks}
+          audioDucking={audioDucking}
           selectedLayerId={selectedLayerId}
           selectedLayerType={selectedLayerType}
           duration={duration}
           globalFilter={globalFilter}
           transcript={transcript}
+          projectId={project?.id}
           onToggleCollapse={toggleSidebar}
           onWidthChange={setSidebarWidth}
           onPanelChange={setActivePanel}
@@ -1138,11 +1462,18 @@ export default function Editor() {
           onAddEmoji={handleAddEmoji}
           onAddImage={handleAddImage}
           onAddVideo={handleAddVideo}
-          onAudioChange={handleAudioChange}
+          onAddOverlayVideo={handleAddOverlayVideo}
+          onOverlayUpdate={(id, updates) => handleLayerUpdate('overlay-video', id, updates)}
+          onAddAudioTrack={handleAddAudioTrack}
+          onAudioTrackUpdate={(id, updates) => handleLayerUpdate('audio', id, updates)}
+          onDuckingChange={handleDuckingChange}
           onFilterChange={handleFilterChange}
           onTranscriptUpdate={handleTranscriptUpdate}
           onAddTextFromTranscript={handleAddTextFromTranscript}
+          onGenerateCaptions={handleGenerateCaptions}
           onApplyTemplate={handleApplyTemplate}
+          buildProject={buildRenderProject}
+          currentTime={currentTime}
           onSeek={handleSeek}
           onTextUpdate={(id, updates) => handleLayerUpdate('text', id, updates)}
           onTextDelete={(id) => handleLayerDelete('text', id)}
@@ -1166,6 +1497,7 @@ export default function Editor() {
               emojiLayers={emojiLayers}
               textLayers={textLayers}
               imageLayers={imageLayers}
+              overlayLayers={overlayLayers}
               onLayerUpdate={handleLayerUpdate}
               onLayerSelect={handleLayerSelect}
               onLayerDelete={handleLayerDelete}
@@ -1197,19 +1529,10 @@ export default function Editor() {
             isAudioMuted={isAudioMuted}
             onAudioVolumeChange={setAudioTrackVolume}
             onAudioMuteToggle={toggleAudioMute}
-            hasAudioTrack={!!audioTrack}
+            hasAudioTrack={audioTracks.length > 0}
           />
         </div>
 
-        {/* Hidden audio element for audio track playback */}
-        {audioTrack && (
-          <audio
-            ref={audioRef}
-            src={audioTrack.url}
-            loop={isLooping}
-            style={{ display: 'none' }}
-          />
-        )}
       </div>
 
       {/* Bottom - Timeline */}
@@ -1221,10 +1544,16 @@ export default function Editor() {
           clipStart={clipStart}
           clipEnd={clipEnd}
           videoLayers={videoLayers}
-          audioTrack={audioTrack}
+          audioTracks={audioTracks}
+          audioDucking={audioDucking}
+          audioAnalyses={audioAnalyses}
+          beatMarkers={beatMarkers}
+          snapCutsToBeats={snapCutsToBeats}
+          onSnapCutsToBeatsChange={setSnapCutsToBeats}
           emojiLayers={emojiLayers}
           textLayers={textLayers}
           imageLayers={imageLayers}
+          overlayLayers={overlayLayers}
           selectedLayerId={selectedLayerId}
           onSeek={handleSeek}
           onScrubStart={handleScrubStart}
@@ -1236,6 +1565,8 @@ export default function Editor() {
           onLayerDelete={handleLayerDelete}
           onAddVideo={handleAddVideo}
           onAddImage={handleAddImage}
+          onSplitVideo={handleSplitVideo}
+          onRippleDelete={handleRippleDelete}
           player={playerRef.current}
           videoVolume={videoVolume}
           isVideoMuted={isVideoMuted}
@@ -1243,6 +1574,28 @@ export default function Editor() {
           onVideoMutedChange={setIsVideoMuted}
         />
       </div>
+
+      <VersionHistorySheet
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        versions={versions}
+        loading={versionsLoading}
+        currentProject={historyProject}
+        onSaveVersion={handleSaveVersion}
+        onRestore={handleRestoreVersion}
+        onDelete={deleteVersion}
+      />
+
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        projectId={project?.id}
+        projectTitle={project?.title}
+        buildProject={buildRenderProject}
+        rangeStart={clipStart}
+        rangeEnd={clipEnd}
+        onUploaded={(outputUrl) => updateProjectData({ output_url: outputUrl, status: 'done' })}
+      />
     </div>
   );
 }
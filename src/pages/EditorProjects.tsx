@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Clapperboard, Copy, Loader2, MoreVertical, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { EditorProjectSummary, useEditorProjects } from '@/hooks/useEditorProjects';
+
+const EditorProjects = () => {
+  const navigate = useNavigate();
+  const { projects, loading, renameProject, duplicateProject, deleteProject } = useEditorProjects();
+  const [renaming, setRenaming] = useState<EditorProjectSummary | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [deleting, setDeleting] = useState<EditorProjectSummary | null>(null);
+
+  useEffect(() => {
+    document.title = 'Projects';
+  }, []);
+
+  const openProject = (projectId: string) => navigate(`/editor?projectId=${projectId}`);
+
+  const startRename = (project: EditorProjectSummary) => {
+    setRenaming(project);
+    setNewTitle(project.title);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    if (await renameProject(renaming.id, newTitle)) setRenaming(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await deleteProject(deleting.id);
+    setDeleting(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto p-4">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Clapperboard className="h-6 w-6" />
+            Projects
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Your editor drafts, most recently edited first
+          </p>
+        </div>
+        <Button onClick={() => navigate('/editor')}>
+          <Plus className="h-4 w-4 mr-2" />
+          New project
+        </Button>
+      </div>
+
+      {projects.length === 0 ? (
+        <div className="text-center py-12">
+          <Clapperboard className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+          <h2 className="text-xl font-semibold text-foreground mb-2">
+            No projects yet
+          </h2>
+          <p className="text-muted-foreground">
+            Projects you start in the editor will appear here.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {projects.map((project) => (
+            <div
+              key={project.id}
+              className="group relative rounded-lg border bg-card overflow-hidden cursor-pointer hover:border-primary/50 transition-colors"
+              onClick={() => openProject(project.id)}
+            >
+              <div className="aspect-[9/16] bg-muted flex items-center justify-center">
+                {project.thumbnail_url ? (
+                  <img src={project.thumbnail_url} alt="" className="w-full h-full object-cover" loading="lazy" />
+                ) : (
+                  <Clapperboard className="h-10 w-10 text-muted-foreground/50" />
+                )}
+              </div>
+
+              <div className="p-3">
+                <p className="text-sm font-medium truncate">{project.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  Edited {formatDistanceToNow(new Date(project.updated_at), { addSuffix: true })}
+                </p>
+              </div>
+
+              {project.status !== 'draft' && (
+                <Badge variant="secondary" className="absolute top-2 left-2 capitalize">
+                  {project.status}
+                </Badge>
+              )}
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-2 right-2 h-7 w-7 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                  >
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                  <DropdownMenuItem onClick={() => startRename(project)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => duplicateProject(project.id)}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Duplicate
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem className="text-destructive" onClick={() => setDeleting(project)}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Rename project</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={newTitle}
+            maxLength={100}
+            autoFocus
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+            <Button onClick={handleRename} disabled={!newTitle.trim()}>Rename</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The project and all of its saved versions will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EditorProjects;
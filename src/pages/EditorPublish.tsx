@@ -31,6 +31,7 @@ import { LocationSelector } from '@/components/LocationSelector';
 import { LocationData } from '@/hooks/useLocation';
 import { format, isBefore, startOfDay } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { getAudioTrackRole } from '@/lib/audioMix';
 
 type SupabaseErrorLike = {
   message?: unknown;
@@ -390,7 +391,8 @@ export default function EditorPublish() {
         user_id: user.id,
         type: 'reel' as const,
         content: settings.caption || null,
-        media_url: videoClip.src,
+        // Prefer the rendered export so text, filters and mixed audio are baked in
+        media_url: project.output_url || videoClip.src,
         media_type: 'video',
         duration: Math.round(videoClip.duration || project.project_json.settings?.duration || 30),
         aspect_ratio: '9:16',
@@ -462,7 +464,7 @@ export default function EditorPublish() {
         await supabase.from('stories').insert([
           {
             user_id: user.id,
-            media_url: videoClip.src,
+            media_url: project.output_url || videoClip.src,
             media_type: 'video',
             caption: settings.caption,
             duration: storyDuration,
@@ -503,23 +505,27 @@ export default function EditorPublish() {
 
   // Helper functions
   const getVideoUrl = (): string | null => {
+    if (project?.output_url) return project.output_url;
     const videoTrack = project?.project_json.tracks?.find((t: any) => t.type === 'video');
     return videoTrack?.clips?.[0]?.src || null;
   };
 
+  // The post's sound is the first music track - voiceovers and SFX aren't credited
+  const getMusicClip = () => {
+    const clips = project?.project_json.tracks?.find((t: any) => t.type === 'audio')?.clips || [];
+    return clips.find((clip: any) => getAudioTrackRole(clip) === 'music') ?? null;
+  };
+
   const getAudioUrl = (): string | null => {
-    const audioTrack = project?.project_json.tracks?.find((t: any) => t.type === 'audio');
-    return audioTrack?.clips?.[0]?.src || null;
+    return getMusicClip()?.src || null;
   };
 
   const getAudioTitle = (): string | null => {
-    const audioTrack = project?.project_json.tracks?.find((t: any) => t.type === 'audio');
-    return audioTrack?.clips?.[0]?.title || null;
+    return getMusicClip()?.title || null;
   };
 
   const getAudioArtist = (): string | null => {
-    const audioTrack = project?.project_json.tracks?.find((t: any) => t.type === 'audio');
-    return audioTrack?.clips?.[0]?.artist || null;
+    return getMusicClip()?.artist || null;
   };
 
   const getProjectStats = () => {
@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Eye, Loader2, Radio, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import LiveBadge from '@/components/live/LiveBadge';
+import LiveChatPanel, { LiveReactionsOverlay } from '@/components/live/LiveChatPanel';
+import { useLiveBroadcast } from '@/hooks/useLiveBroadcast';
+import { useLiveChat } from '@/hooks/useLiveChat';
+import { formatLiveDuration, formatViewerCount, MAX_LIVE_VIEWERS } from '@/lib/liveStream';
+
+const GoLive = () => {
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [title, setTitle] = useState('');
+  const [elapsed, setElapsed] = useState(0);
+  const {
+    status,
+    live,
+    localStream,
+    viewerCount,
+    replay,
+    savingReplay,
+    startPreview,
+    goLive,
+    endLive,
+    saveReplay,
+    discardReplay,
+  } = useLiveBroadcast();
+  const { comments, reactions, sendComment, deleteComment } = useLiveChat(live?.id);
+
+  // Camera preview as soon as the page opens
+  useEffect(() => {
+    startPreview();
+  }, [startPreview]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = localStream;
+  }, [localStream]);
+
+  useEffect(() => {
+    if (status !== 'live' || !live) return;
+    const tick = () => setElapsed((Date.now() - new Date(live.started_at).getTime()) / 1000);
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [status, live]);
+
+  const handleClose = async () => {
+    if (status === 'live') await endLive();
+    else navigate(-1);
+  };
+
+  const handleSaveReplay = async () => {
+    const postId = await saveReplay();
+    if (postId) navigate(`/post/${postId}`);
+  };
+
+  return (
+    <div className="h-screen bg-black flex flex-col md:flex-row">
+      <div className="relative flex-1 flex items-center justify-center min-h-0">
+        {localStream ? (
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            className="w-full h-full object-contain"
+            style={{ transform: 'scaleX(-1)' }}
+          />
+        ) : status === 'ended' ? (
+          <div className="text-center text-white space-y-2">
+            <p className="text-xl font-semibold">Your live video has ended</p>
+            <p className="text-sm text-white/60">
+              {formatLiveDuration(elapsed)} on air · {live?.peak_viewers ?? 0} peak viewers
+            </p>
+            <Button variant="secondary" className="mt-4" onClick={() => navigate('/')}>
+              Back to home
+            </Button>
+          </div>
+        ) : (
+          <Loader2 className="h-8 w-8 text-white animate-spin" />
+        )}
+
+        {/* Top bar */}
+        <div className="absolute top-4 left-4 right-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {status === 'live' && (
+              <>
+                <LiveBadge />
+                <span className="text-white text-sm bg-black/50 rounded-md px-2 py-0.5">
+                  {formatLiveDuration(elapsed)}
+                </span>
+                <span className="flex items-center gap-1 text-white text-sm bg-black/50 rounded-md px-2 py-0.5">
+                  <Eye className="h-3.5 w-3.5" />
+                  {formatViewerCount(viewerCount)}
+                </span>
+              </>
+            )}
+          </div>
+          {status !== 'ended' && (
+            <Button variant="ghost" size="icon" className="text-white hover:bg-white/20" onClick={handleClose}>
+              <X className="h-5 w-5" />
+            </Button>
+          )}
+        </div>
+
+        {status === 'live' && <LiveReactionsOverlay reactions={reactions} />}
+
+        {/* Go live / end controls */}
+        {(status === 'preview' || status === 'starting') && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-[min(90%,420px)] space-y-3">
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Describe your live video..."
+              maxLength={120}
+              className="bg-black/60 text-white border-white/20 placeholder:text-white/50"
+            />
+            <Button
+              className="w-full bg-red-600 hover:bg-red-700"
+              onClick={() => goLive(title)}
+              disabled={status === 'starting'}
+            >
+              {status === 'starting' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Radio className="h-4 w-4 mr-2" />}
+              Go Live
+            </Button>
+            <p className="text-xs text-center text-white/60">
+              Up to {MAX_LIVE_VIEWERS} people can watch at once.
+            </p>
+          </div>
+        )}
+        {status === 'live' && (
+          <Button
+            variant="destructive"
+            className="absolute bottom-6 left-1/2 -translate-x-1/2"
+            onClick={endLive}
+          >
+            End live video
+          </Button>
+        )}
+      </div>
+
+      {live && (
+        <div className="md:w-[360px] h-72 md:h-full bg-background flex flex-col">
+          <div className="p-4 border-b border-border">
+            <p className="font-semibold truncate">{live.title}</p>
+            <p className="text-xs text-muted-foreground">Live comments</p>
+          </div>
+          <LiveChatPanel
+            comments={comments}
+            onSendComment={sendComment}
+            onDeleteComment={deleteComment}
+            isBroadcaster
+            disabled={status !== 'live'}
+          />
+        </div>
+      )}
+
+      <Dialog open={!!replay} onOpenChange={(open) => !open && !savingReplay && discardReplay()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save your live video?</DialogTitle>
+            <DialogDescription>
+              Post the replay to your profile so people who missed it can watch it later.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="ghost" onClick={discardReplay} disabled={savingReplay}>
+              Discard
+            </Button>
+            <Button onClick={handleSaveReplay} disabled={savingReplay}>
+              {savingReplay && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Post replay
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default GoLive;
@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Eye, Loader2, Volume2, VolumeX, X } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import LiveBadge from '@/components/live/LiveBadge';
+import LiveChatPanel, { LiveReactionsOverlay } from '@/components/live/LiveChatPanel';
+import { useAuth } from '@/hooks/useAuth';
+import { useLiveViewer } from '@/hooks/useLiveViewer';
+import { useLiveChat } from '@/hooks/useLiveChat';
+import { formatViewerCount } from '@/lib/liveStream';
+
+const STATUS_TEXT = {
+  loading: 'Loading...',
+  connecting: 'Waiting for the video...',
+  full: 'This live video has reached its viewer limit. Try again in a little while.',
+  'not-found': 'This live video could not be found.',
+} as const;
+
+const LiveViewer = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Browsers block unmuted autoplay until the viewer interacts
+  const [isMuted, setIsMuted] = useState(true);
+  const { live, status, remoteStream, viewerCount, retry } = useLiveViewer(id);
+  const { comments, reactions, sendComment, deleteComment, sendReaction } = useLiveChat(id);
+
+  const isBroadcaster = !!user && live?.user_id === user.id;
+  const isOnAir = status === 'connecting' || status === 'watching';
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = remoteStream;
+  }, [remoteStream]);
+
+  const broadcasterName = live?.broadcaster?.display_name || 'Someone';
+
+  return (
+    <div className="h-screen bg-black flex flex-col md:flex-row">
+      <div className="relative flex-1 flex items-center justify-center min-h-0">
+        {status === 'watching' && remoteStream ? (
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted={isMuted}
+            className="w-full h-full object-contain"
+          />
+        ) : status === 'ended' ? (
+          <div className="text-center text-white space-y-3 px-6">
+            <p className="text-xl font-semibold">{broadcasterName}'s live video has ended</p>
+            {live?.replay_post_id ? (
+              <Button variant="secondary" asChild>
+                <Link to={`/post/${live.replay_post_id}`}>Watch the replay</Link>
+              </Button>
+            ) : (
+              <Button variant="secondary" onClick={() => navigate('/')}>Back to home</Button>
+            )}
+          </div>
+        ) : (
+          <div className="text-center text-white space-y-3 px-6">
+            {(status === 'loading' || status === 'connecting') && (
+              <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            )}
+            <p className="text-sm text-white/80">
+              {isBroadcaster ? 'You are watching your own live video.' : STATUS_TEXT[status]}
+            </p>
+            {status === 'full' && (
+              <Button variant="secondary" onClick={retry}>Try again</Button>
+            )}
+          </div>
+        )}
+
+        {/* Broadcaster header */}
+        <div className="absolute top-4 left-4 right-4 flex items-center justify-between">
+          {live && (
+            <Link to={`/profile/${live.broadcaster?.username}`} className="flex items-center gap-2 bg-black/50 rounded-full pr-3">
+              <Avatar className="h-9 w-9">
+                <AvatarImage src={live.broadcaster?.profile_pic || undefined} />
+                <AvatarFallback>{broadcasterName.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="text-white text-sm font-semibold">{broadcasterName}</span>
+            </Link>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            {isOnAir && (
+              <>
+                <LiveBadge />
+                <span className="flex items-center gap-1 text-white text-sm bg-black/50 rounded-md px-2 py-0.5">
+                  <Eye className="h-3.5 w-3.5" />
+                  {formatViewerCount(viewerCount)}
+                </span>
+              </>
+            )}
+            <Button variant="ghost" size="icon" className="text-white hover:bg-white/20" onClick={() => navigate(-1)}>
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+
+        {status === 'watching' && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute bottom-4 left-4 text-white bg-black/50 hover:bg-black/70 rounded-full"
+            onClick={() => setIsMuted(prev => !prev)}
+          >
+            {isMuted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+          </Button>
+        )}
+
+        {isOnAir && <LiveReactionsOverlay reactions={reactions} />}
+      </div>
+
+      {live && (
+        <div className="md:w-[360px] h-72 md:h-full bg-background flex flex-col">
+          <div className="p-4 border-b border-border">
+            <p className="font-semibold truncate">{live.title}</p>
+            <p className="text-xs text-muted-foreground">Live comments</p>
+          </div>
+          <LiveChatPanel
+            comments={comments}
+            onSendComment={sendComment}
+            onDeleteComment={deleteComment}
+            onReact={sendReaction}
+            isBroadcaster={isBroadcaster}
+            disabled={!isOnAir}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveViewer;
@@ -2,14 +2,19 @@ import React, { useState } from 'react';
 import { ConversationList } from '@/components/messages/ConversationList';
 import { ChatWindow } from '@/components/messages/ChatWindow';
 import { NewConversationDialog } from '@/components/messages/NewConversationDialog';
+import { MessageSearchResults } from '@/components/messages/MessageSearchResults';
 import { useConversations } from '@/hooks/useConversations';
+import { MessageSearchResult, useMessageSearch } from '@/hooks/useMessageSearch';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import { useAuth } from '@/hooks/useAuth';
-import { Edit, MessageCircle } from 'lucide-react';
+import { Edit, MessageCircle, Search, X } from 'lucide-react';
 
 const Messages = () => {
   const [showNewConversation, setShowNewConversation] = useState(false);
   const [activePage, setActivePage] = useState(0);
+  const [scrollToMessageId, setScrollToMessageId] = useState<string | null>(null);
   const { user, loading: authLoading } = useAuth();
   const currentUserId = user?.id || null;
   
@@ -20,21 +25,38 @@ const Messages = () => {
     activeConversationId,
     setActiveConversationId,
     fetchMessages,
+    fetchMessagesAround,
     sendMessage,
     getOrCreateDM,
     refetchConversations
   } = useConversations(currentUserId || undefined);
 
+  const search = useMessageSearch({ currentUserId: currentUserId || undefined });
+
   const handleSelectConversation = (conversationId: string) => {
     setActiveConversationId(conversationId);
     setActivePage(0);
+    setScrollToMessageId(null);
     fetchMessages(conversationId, 0);
   };
 
-  const handleSendMessage = async (content?: string, mediaUrl?: string, replyToId?: string) => {
+  // Load the page holding the message, then let the chat window scroll to it
+  const handleJumpToMessage = async (conversationId: string, createdAt: string) => {
+    const page = await fetchMessagesAround(conversationId, createdAt);
+    setActivePage(page);
+  };
+
+  const handleSelectSearchResult = async (result: MessageSearchResult) => {
+    setScrollToMessageId(null);
+    setActiveConversationId(result.conversation_id);
+    await handleJumpToMessage(result.conversation_id, result.created_at);
+    setScrollToMessageId(result.id);
+  };
+
+  const handleSendMessage = async (content?: string, mediaUrl?: string, replyToId?: string, attachmentName?: string) => {
     if (!activeConversationId || !currentUserId) return;
 
-    const success = await sendMessage(activeConversationId, content, mediaUrl, replyToId);
+    const success = await sendMessage(activeConversationId, content, mediaUrl, replyToId, attachmentName);
     if (success) {
       // Message will be added via real-time subscription
     }
@@ -103,16 +125,56 @@ const Messages = () => {
               <Edit className="h-4 w-4" />
             </Button>
           </div>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search.query}
+              onChange={(e) => search.setQuery(e.target.value)}
+              placeholder="Search messages"
+              className="pl-9 pr-9 rounded-full bg-muted border-none"
+            />
+            {search.query && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => search.setQuery('')}
+                className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 p-0 rounded-full"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
         </div>
 
-        {/* Conversation List */}
-        <ConversationList
-          conversations={conversations}
-          activeConversationId={activeConversationId}
-          onSelectConversation={handleSelectConversation}
-          loading={loading}
-          currentUserId={currentUserId}
-        />
+        {search.terms.length > 0 ? (
+          /* Search results across all conversations */
+          <ScrollArea className="flex-1">
+            <div className="p-2">
+              <MessageSearchResults
+                results={search.results}
+                terms={search.terms}
+                loading={search.loading}
+                loadingMore={search.loadingMore}
+                hasMore={search.hasMore}
+                onLoadMore={search.loadMore}
+                onSelectResult={handleSelectSearchResult}
+                getConversationName={(conversationId) =>
+                  conversations.find(conv => conv.conversation_id === conversationId)?.other_user.display_name
+                }
+              />
+            </div>
+          </ScrollArea>
+        ) : (
+          /* Conversation List */
+          <ConversationList
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            onSelectConversation={handleSelectConversation}
+            loading={loading}
+            currentUserId={currentUserId}
+          />
+        )}
       </div>
 
       {/* Chat Window */}
@@ -122,6 +184,7 @@ const Messages = () => {
           messages={messages}
           currentUserId={currentUserId}
           conversationId={activeConversationId || undefined}
+          conversationType={activeConversation?.type}
           onSendMessage={handleSendMessage}
           onLoadMore={() => {
             if (!activeConversationId) return;
@@ -131,6 +194,10 @@ const Messages = () => {
               return next;
             });
           }}
+          onJumpToMessage={async (_messageId, createdAt) => {
+            if (activeConversationId) await handleJumpToMessage(activeConversationId, createdAt);
+          }}
+          scrollToMessageId={scrollToMessageId}
           loading={loading}
         />
       </div>
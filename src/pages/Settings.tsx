@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -84,11 +85,12 @@ type PasswordVisibility = {
 const Settings = () => {
   const { toast } = useToast();
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
   const { uploadPhoto, uploading } = usePhotoUpload();
   const { enabled: hashtagNotificationsEnabled, loading: hashtagNotifLoading, toggleNotifications: toggleHashtagNotifications } = useHashtagNotificationSettings();
   
   // State for active sidebar option
-  const [activeSection, setActiveSection] = useState('personal');
+  const [activeSection, setActiveSection] = useState(searchParams.get('section') || 'personal');
   
   // Check if user is admin (simple check - you can enhance this with proper role system)
   const [isAdmin, setIsAdmin] = useState(false);
@@ -14,24 +14,95 @@ export const ICE_SERVERS: RTCConfiguration = {
 
 export type CallType = 'voice' | 'video';
 
+export interface CallSignalParticipant {
+  id: string;
+  username: string;
+  displayName: string;
+  profilePic?: string;
+}
+
 export interface CallSignal {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'call-request' | 'call-accepted' | 'call-rejected' | 'call-ended' | 'call-busy';
+  type:
+    | 'offer'
+    | 'answer'
+    | 'ice-candidate'
+    | 'call-request'
+    | 'call-accepted'
+    | 'call-rejected'
+    | 'call-ended'
+    | 'call-busy'
+    | 'group-call-request' // invite to a group call
+    | 'group-join' // sender joined the group call
+    | 'group-present' // reply to group-join: sender is already in the call
+    | 'group-leave' // sender left; the call continues for everyone else
+    | 'screen-share-started'
+    | 'screen-share-stopped'
+    | 'recording-request' // sender asks for consent to record the call
+    | 'recording-accepted'
+    | 'recording-declined'
+    | 'recording-stopped'; // sent by either side - the other party can withdraw consent
   from: string;
   to: string;
   callType: CallType;
   payload?: RTCSessionDescriptionInit | RTCIceCandidateInit | null;
-  callerInfo?: {
-    id: string;
-    username: string;
-    displayName: string;
-    profilePic?: string;
+  callerInfo?: CallSignalParticipant;
+  // Group calls only - signals without a callId belong to the 1:1 call
+  callId?: string;
+  conversationId?: string;
+  participants?: CallSignalParticipant[];
+}
+
+const AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+const VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 1280, max: 1920 }, 
+  height: { ideal: 720, max: 1080 }, 
+  facingMode: 'user',
+  frameRate: { ideal: 30, max: 60 },
+};
+
+export async function getCallMediaStream(callType: CallType): Promise<MediaStream> {
+  const constraints: MediaStreamConstraints = {
+    audio: AUDIO_CONSTRAINTS,
+    video: callType === 'video' ? VIDEO_CONSTRAINTS : false,
   };
+
+  console.log('[WebRTC] Requesting media with constraints:', constraints);
+  const stream = await navigator.mediaDevices.getUserMedia(constraints);
+  console.log('[WebRTC] Got local stream with tracks:', stream.getTracks().map(t => t.kind));
+  return stream;
+}
+
+// Capture from a specific microphone or camera - used to switch devices mid-call
+export async function getDeviceTrack(kind: 'audio' | 'video', deviceId: string): Promise<MediaStreamTrack> {
+  const base = kind === 'audio' ? AUDIO_CONSTRAINTS : { ...VIDEO_CONSTRAINTS, facingMode: undefined };
+  const stream = await navigator.mediaDevices.getUserMedia({ [kind]: { ...base, deviceId: { exact: deviceId } } });
+  const [track] = kind === 'audio' ? stream.getAudioTracks() : stream.getVideoTracks();
+  if (!track) throw new Error(`No ${kind} track from device`);
+  return track;
+}
+
+export async function getScreenTrack(): Promise<MediaStreamTrack> {
+  const stream = await navigator.mediaDevices.getDisplayMedia({
+    video: { frameRate: { ideal: 15, max: 30 } },
+    audio: false,
+  });
+  const [track] = stream.getVideoTracks();
+  if (!track) throw new Error('No screen track');
+  // Hint the encoder to keep text sharp rather than motion smooth
+  if ('contentHint' in track) track.contentHint = 'detail';
+  return track;
 }
 
 export class WebRTCService {
   private peerConnection: RTCPeerConnection | null = null;
   private localStream: MediaStream | null = null;
   private remoteStream: MediaStream | null = null;
+  private ownsLocalStream = false; // false when the stream is shared between mesh peers
   
   private onRemoteStream: ((stream: MediaStream) => void) | null = null;
   private onIceCandidate: ((candidate: RTCIceCandidateInit) => void) | null = null;
@@ -76,11 +147,15 @@ export class WebRTCService {
 
     this.peerConnection.ontrack = (event) => {
       console.log('[WebRTC] Track received:', event.track.kind);
-      if (event.streams[0]) {
-        this.remoteStream = event.streams[0];
-        if (this.onRemoteStream) {
-          this.onRemoteStream(event.streams[0]);
-        }
+      // The voice-call video slot arrives without a stream, so gather every track into one
+      if (!this.remoteStream) {
+        this.remoteStream = event.streams[0] ?? new MediaStream();
+      }
+      if (!this.remoteStream.getTracks().includes(event.track)) {
+        this.remoteStream.addTrack(event.track);
+      }
+      if (this.onRemoteStream) {
+        this.onRemoteStream(this.remoteStream);
       }
     };
 
@@ -110,40 +185,56 @@ export class WebRTCService {
   }
 
   async getLocalStream(callType: CallType): Promise<MediaStream> {
-    const constraints: MediaStreamConstraints = {
-      audio: {
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true,
-      },
-      video: callType === 'video' ? { 
-        width: { ideal: 1280, max: 1920 }, 
-        height: { ideal: 720, max: 1080 }, 
-        facingMode: 'user',
-        frameRate: { ideal: 30, max: 60 },
-      } : false,
-    };
-
     try {
-      console.log('[WebRTC] Requesting media with constraints:', constraints);
-      this.localStream = await navigator.mediaDevices.getUserMedia(constraints);
-      console.log('[WebRTC] Got local stream with tracks:', this.localStream.getTracks().map(t => t.kind));
-      
-      // Add tracks to peer connection
-      this.localStream.getTracks().forEach((track) => {
-        if (this.peerConnection && this.localStream) {
-          console.log('[WebRTC] Adding track to peer connection:', track.kind);
-          this.peerConnection.addTrack(track, this.localStream);
-        }
-      });
-
-      return this.localStream;
+      const stream = await getCallMediaStream(callType);
+      this.addLocalStream(stream);
+      this.ownsLocalStream = true;
+      return stream;
     } catch (error) {
       console.error('[WebRTC] Error accessing media devices:', error);
       throw error;
     }
   }
 
+  // Send an already captured stream - used by group calls, where every peer shares one capture
+  addLocalStream(stream: MediaStream) {
+    this.localStream = stream;
+    this.ownsLocalStream = false;
+    stream.getTracks().forEach((track) => {
+      if (this.peerConnection) {
+        console.log('[WebRTC] Adding track to peer connection:', track.kind);
+        this.peerConnection.addTrack(track, stream);
+      }
+    });
+
+    // Voice calls still negotiate a video slot so a screen can be shared later without renegotiating
+    if (this.peerConnection && stream.getVideoTracks().length === 0) {
+      this.peerConnection.addTransceiver('video', { direction: 'sendrecv' });
+    }
+  }
+
+  /**
+   * Swap the outgoing audio or video track in place (device switch, screen share)
+   * replaceTrack keeps the negotiated session, so the other side sees no glitch
+   */
+  async replaceTrack(kind: 'audio' | 'video', track: MediaStreamTrack | null): Promise<boolean> {
+    if (!this.peerConnection) return false;
+
+    const transceivers = this.peerConnection.getTransceivers().filter(t => t.receiver.track.kind === kind);
+    const transceiver =
+      transceivers.find(t => t.sender.track?.kind === kind) ??
+      transceivers.find(t => t.mid !== null && (t.direction === 'sendrecv' || t.direction === 'sendonly')) ??
+      transceivers[0];
+    if (!transceiver) {
+      console.warn('[WebRTC] No', kind, 'sender to replace');
+      return false;
+    }
+
+    await transceiver.sender.replaceTrack(track);
+    console.log('[WebRTC] Replaced', kind, 'track');
+    return true;
+  }
+
   async createOffer(): Promise<RTCSessionDescriptionInit> {
     if (!this.peerConnection) {
       throw new Error('Peer connection not initialized');
@@ -165,6 +256,13 @@ export class WebRTCService {
       throw new Error('Peer connection not initialized');
     }
 
+    // Answer the caller's video slot as sendrecv so screen sharing works in both directions
+    this.peerConnection.getTransceivers().forEach((transceiver) => {
+      if (transceiver.mid !== null && transceiver.receiver.track.kind === 'video' && transceiver.direction === 'recvonly') {
+        transceiver.direction = 'sendrecv';
+      }
+    });
+
     console.log('[WebRTC] Creating answer');
     const answer = await this.peerConnection.createAnswer();
     console.log('[WebRTC] Setting local description (answer)');
@@ -270,16 +368,27 @@ export class WebRTCService {
     return this.peerConnection?.remoteDescription !== null && this.peerConnection?.remoteDescription !== undefined;
   }
 
-  cleanup() {
-    console.log('[WebRTC] Cleaning up');
-    
-    // Stop all local tracks
+  // Current level (0-1) of the incoming audio, as reported by the receiver
+  getRemoteAudioLevel(): number {
+    const receiver = this.peerConnection?.getReceivers().find((r) => r.track?.kind === 'audio');
+    const sources = receiver?.getSynchronizationSources?.() ?? [];
+    return sources[0]?.audioLevel ?? 0;
+  }
+
+  // Tear down without preparing a new connection - for mesh peers that are discarded
+  close() {
+    console.log('[WebRTC] Closing');
+
+    // Stop local tracks unless they are shared with other peers
     if (this.localStream) {
-      this.localStream.getTracks().forEach((track) => {
-        track.stop();
-        console.log('[WebRTC] Stopped track:', track.kind);
-      });
+      if (this.ownsLocalStream) {
+        this.localStream.getTracks().forEach((track) => {
+          track.stop();
+          console.log('[WebRTC] Stopped track:', track.kind);
+        });
+      }
       this.localStream = null;
+      this.ownsLocalStream = false;
     }
 
     // Close peer connection
@@ -295,7 +404,12 @@ export class WebRTCService {
     this.onRemoteStream = null;
     this.onIceCandidate = null;
     this.onConnectionStateChange = null;
-    
+  }
+
+  cleanup() {
+    console.log('[WebRTC] Cleaning up');
+    this.close();
+
     // Recreate peer connection for next call
     this.createPeerConnection();
   }
@@ -18,8 +18,49 @@ export interface VideoLayer {
   scale: number;
   rotation: number;
   filter?: VideoFilter;
+  transition?: ClipTransition; // into the clip that follows this one
+  sourceStart?: number; // in-point in the source media; `duration` seconds of source play from here
+  speed?: number; // constant playback rate, 1 = normal
+  speedCurve?: SpeedPoint[]; // speed ramp - overrides `speed` when set
 }
 
+/**
+ * One point of a speed ramp
+ * Speed is interpolated linearly between points along the clip's length on the timeline
+ */
+export interface SpeedPoint {
+  position: number; // 0-1 across the clip on the timeline
+  speed: number;
+}
+
+export type TransitionType = 'crossfade' | 'dip-to-black' | 'slide' | 'wipe' | 'zoom';
+
+/**
+ * Transition between a video clip and the next one
+ * The two clips overlap on the timeline for `duration` seconds
+ */
+export interface ClipTransition {
+  type: TransitionType;
+  duration: number; // seconds
+}
+
+export type KeyframeProperty = 'x' | 'y' | 'scale' | 'rotation' | 'opacity';
+
+export type KeyframeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+/**
+ * A value pinned at a point in a layer's life
+ * `easing` shapes the curve from this keyframe to the next one
+ */
+export interface Keyframe {
+  id: string;
+  time: number; // seconds from the layer's start, so keyframes move with the layer
+  value: number; // x/y in %, scale as a factor, rotation in degrees, opacity 0-1
+  easing: KeyframeEasing;
+}
+
+export type LayerKeyframes = Partial<Record<KeyframeProperty, Keyframe[]>>;
+
 export interface ImageLayer {
   id: string;
   type: 'image';
@@ -31,6 +72,45 @@ export interface ImageLayer {
   scale: number;
   rotation: number;
   filter?: VideoFilter;
+  keyframes?: LayerKeyframes;
+}
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'difference';
+
+/**
+ * Green-screen keying for an overlay video
+ * Pixels whose chroma is within `tolerance` of `color` turn transparent; `softness` feathers the edge
+ */
+export interface ChromaKey {
+  enabled: boolean;
+  color: string; // hex, e.g. #00ff00
+  tolerance: number; // 0-1
+  softness: number; // 0-1
+  spill: number; // 0-1, how strongly key-coloured fringes are desaturated
+}
+
+/**
+ * A video stacked on top of the main track (picture-in-picture)
+ * Plays on its own clock from `start`; the main track's clips are unaffected
+ */
+export interface OverlayVideoLayer {
+  id: string;
+  type: 'overlay-video';
+  src: string;
+  fileName: string;
+  start: number;
+  end: number;
+  duration: number; // length of the source media
+  sourceStart?: number; // in-point in the source media
+  volume: number; // 0-1
+  muted?: boolean;
+  position: Position; // center, in canvas percent
+  scale: number; // 1 = contained in the full canvas
+  rotation: number;
+  opacity: number; // 0-1
+  blendMode: BlendMode;
+  chromaKey?: ChromaKey;
+  keyframes?: LayerKeyframes;
 }
 
 export interface TextLayer {
@@ -44,6 +124,20 @@ export interface TextLayer {
   rotation: number;
   style: TextStyle;
   animation?: TextAnimation;
+  caption?: CaptionLink; // set when the layer was generated from a transcript
+  keyframes?: LayerKeyframes;
+}
+
+/**
+ * Link from a caption text layer back to the transcript segment it came from
+ * Words carry timeline timing for the karaoke highlight
+ */
+export interface CaptionLink {
+  transcriptId: string;
+  segmentId: string;
+  lineIndex: number;
+  words: TranscriptWord[];
+  limits?: { maxCharsPerLine: number; maxLineDuration: number }; // how the segment was split into lines
 }
 
 export interface TextStyle {
@@ -71,8 +165,9 @@ export interface TextStyle {
 }
 
 export interface TextAnimation {
-  type: 'none' | 'fade' | 'pop' | 'slide-left' | 'slide-right' | 'slide-up' | 'slide-down' | 'typewriter';
+  type: 'none' | 'fade' | 'pop' | 'slide-left' | 'slide-right' | 'slide-up' | 'slide-down' | 'typewriter' | 'karaoke';
   duration: number;
+  highlightColor?: string; // karaoke: color of words already spoken
 }
 
 export interface EmojiLayer {
@@ -84,6 +179,7 @@ export interface EmojiLayer {
   position: Position;
   scale: number;
   rotation: number;
+  keyframes?: LayerKeyframes;
 }
 
 export interface AudioTrack {
@@ -101,6 +197,27 @@ export interface AudioTrack {
   volume: number;
   muted: boolean;
   effects?: AudioEffects;
+  role?: AudioTrackRole; // Defaults from sourceType - recordings are voiceover, everything else music
+  fadeIn?: number; // seconds
+  fadeOut?: number; // seconds
+  volumeEnvelope?: VolumePoint[];
+}
+
+export type AudioTrackRole = 'music' | 'voiceover' | 'sfx';
+
+export interface VolumePoint {
+  time: number; // seconds from the track's startAt
+  gain: number; // 0-1, multiplies the track volume
+}
+
+/**
+ * Music tracks drop under voiceover automatically
+ */
+export interface AudioDucking {
+  enabled: boolean;
+  amount: number; // 0-1, how much of the music level is taken away under voice
+  attack: number; // seconds to duck before voice starts
+  release: number; // seconds to come back up after voice ends
 }
 
 export interface AudioEffects {
@@ -120,6 +237,20 @@ export interface VideoFilter {
   warmth?: number; // Alias for temperature for backward compatibility
   blur: number; // 0-20, default 0
   hueRotate?: number; // 0-360, default 0
+  highlights?: number; // -100 to 100, default 0
+  shadows?: number; // -100 to 100, default 0
+  vignette?: number; // 0-100, default 0
+  sharpen?: number; // 0-100, default 0
+  grain?: number; // 0-100, default 0
+  lut?: FilterLut; // 3D LUT applied after the adjustments
+}
+
+// A .cube LUT picked from the user's library
+export interface FilterLut {
+  id?: string;
+  name: string;
+  url: string;
+  intensity: number; // 0-100, default 100
 }
 
 export interface EditorSettings {
@@ -131,12 +262,20 @@ export interface EditorSettings {
   };
 }
 
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number; // 0-1
+}
+
 export interface TranscriptSegment {
   id: string;
   text: string;
   start: number;
   end: number;
   confidence?: number;
+  words?: TranscriptWord[];
 }
 
 export interface Transcript {
@@ -145,6 +284,8 @@ export interface Transcript {
   segments: TranscriptSegment[];
   status: 'pending' | 'processing' | 'completed' | 'failed';
   language?: string;
+  languageConfidence?: number; // 0-1, how sure language detection was
+  jobId?: string; // transcription_jobs row that produced this transcript
 }
 
 export interface EditorTemplate {
@@ -157,9 +298,26 @@ export interface EditorTemplate {
   imageLayers?: ImageLayer[];
   textLayers?: TextLayer[];
   emojiLayers?: EmojiLayer[];
+  overlayLayers?: OverlayVideoLayer[];
   audioTrack?: AudioTrack | null;
+  audioTracks?: AudioTrack[];
   globalFilter?: VideoFilter;
   settings?: EditorSettings;
+  placeholders?: TemplatePlaceholder[]; // slots filled in when the template is applied
+  userId?: string; // creator - unset for built-in templates
+  isPublic?: boolean;
+}
+
+/**
+ * A slot in a user template: a media drop zone (video clip or image) or an editable text field
+ * Points at the template layer it replaces, so the slot keeps that layer's timing and styling
+ */
+export interface TemplatePlaceholder {
+  id: string;
+  kind: 'media' | 'text';
+  label: string;
+  layerId: string;
+  layerType: 'video' | 'image' | 'text';
 }
 
 export interface AudioLibraryItem {
@@ -170,7 +328,21 @@ export interface AudioLibraryItem {
   duration: number;
   thumbnailUrl?: string;
   category?: string;
-  waveformData?: number[];
+  waveformData?: number[]; // peaks (0-1) at WAVEFORM_BASE_RATE per second
+  beats?: number[]; // seconds from the start of the track
+  bpm?: number;
+}
+
+/**
+ * Decoded waveform and beats for one audio URL
+ * Persisted on music_library rows so each track is only decoded once
+ */
+export interface AudioAnalysis {
+  duration: number; // seconds of decoded audio
+  peakRate: number; // peaks per second
+  peaks: number[]; // 0-1, loudest is 1
+  beats: number[]; // seconds from the start of the audio
+  bpm: number | null;
 }
 
 /**
@@ -179,17 +351,20 @@ export interface AudioLibraryItem {
  */
 export interface EditorAudioState {
   videoVolume: number; // 0-1
+  tracksVolume?: number; // 0-1, level for all audio tracks together
   tracks: Record<string, {
     volume: number; // 0-1
   }>;
+  ducking?: AudioDucking;
 }
 
 export interface EditorProjectData {
   videoLayers: VideoLayer[];
   imageLayers: ImageLayer[];
+  overlayLayers?: OverlayVideoLayer[];
   textLayers: TextLayer[];
   emojiLayers: EmojiLayer[];
-  audioTrack: AudioTrack | null;
+  audioTracks: AudioTrack[];
   globalFilter: VideoFilter;
   settings: EditorSettings;
   transcripts?: Transcript[];
@@ -204,6 +379,11 @@ export const defaultVideoFilter: VideoFilter = {
   temperature: 0,
   blur: 0,
   hueRotate: 0,
+  highlights: 0,
+  shadows: 0,
+  vignette: 0,
+  sharpen: 0,
+  grain: 0,
 };
 
 export const defaultAudioEffects: AudioEffects = {
@@ -215,6 +395,21 @@ export const defaultAudioEffects: AudioEffects = {
   speed: 1.0,
 };
 
+export const defaultAudioDucking: AudioDucking = {
+  enabled: true,
+  amount: 0.6,
+  attack: 0.3,
+  release: 0.6,
+};
+
+export const defaultChromaKey: ChromaKey = {
+  enabled: false,
+  color: '#00ff00',
+  tolerance: 0.4,
+  softness: 0.08,
+  spill: 0.1,
+};
+
 // Helper to normalize filter from either format (must be after defaultVideoFilter)
 export function normalizeVideoFilter(filter: any): VideoFilter {
   if (!filter) return defaultVideoFilter;
@@ -226,6 +421,12 @@ export function normalizeVideoFilter(filter: any): VideoFilter {
     temperature: filter.temperature ?? filter.warmth ?? 0,
     blur: filter.blur ?? 0,
     hueRotate: filter.hueRotate ?? 0,
+    highlights: filter.highlights ?? 0,
+    shadows: filter.shadows ?? 0,
+    vignette: filter.vignette ?? 0,
+    sharpen: filter.sharpen ?? 0,
+    grain: filter.grain ?? 0,
+    ...(filter.lut?.url ? { lut: { intensity: 100, ...filter.lut } } : {}),
   };
 }
 
@@ -253,15 +454,18 @@ export const defaultEditorSettings: EditorSettings = {
 export const createDefaultProjectData = (): EditorProjectData => ({
   videoLayers: [],
   imageLayers: [],
+  overlayLayers: [],
   textLayers: [],
   emojiLayers: [],
-  audioTrack: null,
+  audioTracks: [],
   globalFilter: defaultVideoFilter,
   settings: defaultEditorSettings,
   transcripts: [],
   audio: {
     videoVolume: 1,
+    tracksVolume: 1,
     tracks: {},
+    ducking: defaultAudioDucking,
   },
   publishSettings: defaultPublishSettings,
 });
@@ -0,0 +1,19 @@
+// Scheduled invocations - pg_cron calls these functions with a shared secret instead of a user JWT
+
+export const CRON_SECRET_HEADER = 'x-cron-secret';
+
+/**
+ * Whether the request carries the secret the pg_cron jobs read from Vault.
+ * Fails closed when the function has no secret configured
+ */
+export function isCronRequest(req: Request, secret: string | undefined): boolean {
+  const provided = req.headers.get(CRON_SECRET_HEADER);
+  if (!secret || !provided || provided.length !== secret.length) return false;
+
+  // Compare every character so the time taken does not reveal how much of the secret matched
+  let difference = 0;
+  for (let i = 0; i < secret.length; i++) {
+    difference |= secret.charCodeAt(i) ^ provided.charCodeAt(i);
+  }
+  return difference === 0;
+}
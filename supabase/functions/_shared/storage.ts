@@ -0,0 +1,30 @@
+// Storage object URLs - runtime-agnostic helpers shared by the edge functions
+
+/**
+ * Bucket and object path of a public object in this project's storage. Anything else
+ * (other hosts, signed or private object URLs) is not treated as a storage object
+ */
+export function parseStorageObjectUrl(url: string, projectUrl: string): { bucket: string; path: string } | null {
+  let parsed: URL;
+  let project: URL;
+  try {
+    parsed = new URL(url);
+    project = new URL(projectUrl);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== project.origin) return null;
+
+  const match = parsed.pathname.match(/^\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/);
+  if (!match) return null;
+
+  const [bucket, path] = [match[1], match[2]].map(part => {
+    try {
+      return decodeURIComponent(part);
+    } catch {
+      return '';
+    }
+  });
+  if (!bucket || !path || path.split('/').some(segment => segment === '..' || segment === '.')) return null;
+  return { bucket, path };
+}
@@ -0,0 +1,487 @@
+// Data export pipeline - runtime-agnostic (no Deno or Supabase imports)
+// Category definitions, JSON/HTML renderings, media collection, a store-only ZIP writer and the job runner
+// The edge function wires this to the data_export_jobs table, the database and the data_exports bucket
+
+export type ExportJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export type ExportCategory =
+  | 'profile'
+  | 'posts'
+  | 'comments'
+  | 'reactions'
+  | 'messages'
+  | 'stories'
+  | 'saved_posts'
+  | 'ad_preferences'
+  | 'life_events'
+  | 'editor_projects';
+
+export interface ExportCategoryDefinition {
+  id: ExportCategory;
+  label: string;
+  mediaFields: string[]; // record fields that hold media URLs to download into the archive
+  dated: boolean; // false = date range does not apply (settings-like data)
+}
+
+export const EXPORT_CATEGORIES: ExportCategoryDefinition[] = [
+  { id: 'profile', label: 'Profile information', mediaFields: ['profile_pic', 'cover_pic'], dated: false },
+  { id: 'posts', label: 'Posts', mediaFields: ['media_url', 'thumbnail'], dated: true },
+  { id: 'comments', label: 'Comments', mediaFields: [], dated: true },
+  { id: 'reactions', label: 'Reactions', mediaFields: [], dated: true },
+  { id: 'messages', label: 'Messages', mediaFields: ['image_url', 'media_url', 'attachment_url'], dated: true },
+  { id: 'stories', label: 'Stories', mediaFields: ['media_url'], dated: true },
+  { id: 'saved_posts', label: 'Saved posts', mediaFields: [], dated: true },
+  { id: 'ad_preferences', label: 'Ad preferences', mediaFields: [], dated: false },
+  { id: 'life_events', label: 'Life events', mediaFields: [], dated: true },
+  { id: 'editor_projects', label: 'Editor projects', mediaFields: ['output_url'], dated: true },
+];
+
+export function isExportCategory(value: string): value is ExportCategory {
+  return EXPORT_CATEGORIES.some(c => c.id === value);
+}
+
+export type ExportRecord = Record<string, unknown>;
+
+export interface DateRange {
+  from: string | null; // ISO timestamp, inclusive
+  to: string | null; // ISO timestamp, inclusive
+}
+
+export interface ExportJob {
+  id: string;
+  user_id: string;
+  status: ExportJobStatus;
+  categories: string[];
+  date_from: string | null;
+  date_to: string | null;
+  progress: number; // 0-100
+  current_step: string | null;
+  file_path: string | null;
+  file_size: number | null;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface ExportJobStore {
+  get(id: string): Promise<ExportJob | null>;
+  update(id: string, patch: Partial<ExportJob>): Promise<ExportJob>;
+  // Applies the patch only while the job is still in `from`; null when another writer moved it first
+  transition(id: string, from: ExportJobStatus, patch: Partial<ExportJob>): Promise<ExportJob | null>;
+}
+
+export interface ExportDataSource {
+  fetchCategory(category: ExportCategory, userId: string, range: DateRange): Promise<ExportRecord[]>;
+  fetchMedia(url: string, maxBytes: number): Promise<Uint8Array | null>; // null = unavailable or larger than maxBytes
+  saveArchive(path: string, data: Uint8Array): Promise<void>;
+  removeArchive(path: string): Promise<void>;
+  notify(userId: string, message: string): Promise<void>;
+}
+
+const ALLOWED_TRANSITIONS: Record<ExportJobStatus, ExportJobStatus[]> = {
+  queued: ['processing', 'failed'],
+  processing: ['completed', 'failed'],
+  completed: [],
+  failed: ['queued'],
+};
+
+export function canTransition(from: ExportJobStatus, to: ExportJobStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+export const STALE_JOB_MS = 15 * 60 * 1000;
+
+/**
+ * A queued or processing job that has not moved in STALE_JOB_MS was lost with its function
+ * instance - it is failed so it no longer blocks new exports
+ */
+export function isStaleJob(job: Pick<ExportJob, 'status' | 'created_at' | 'updated_at'>, now: Date): boolean {
+  if (job.status !== 'queued' && job.status !== 'processing') return false;
+  const lastUpdate = Date.parse(job.updated_at ?? job.created_at);
+  return now.getTime() - lastUpdate > STALE_JOB_MS;
+}
+
+// ==================== Records ====================
+
+/**
+ * Encrypted message bodies cannot be read on the server - replace the envelope with a note
+ */
+export function prepareRecords(category: ExportCategory, records: ExportRecord[]): ExportRecord[] {
+  if (category !== 'messages') return records;
+  return records.map(({ e2e_envelope: _envelope, ...record }) =>
+    record.is_encrypted
+      ? { ...record, content: '[End-to-end encrypted - readable only on your devices]' }
+      : record
+  );
+}
+
+function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\//i.test(value);
+}
+
+export function collectMediaUrls(category: ExportCategory, records: ExportRecord[]): string[] {
+  const definition = EXPORT_CATEGORIES.find(c => c.id === category);
+  if (!definition) return [];
+
+  const urls = new Set<string>();
+  records.forEach(record => {
+    definition.mediaFields.forEach(field => {
+      if (isHttpUrl(record[field])) urls.add(record[field] as string);
+    });
+  });
+  return [...urls];
+}
+
+/**
+ * Archive path for a downloaded media file - numbered so different URLs never collide
+ */
+export function getMediaPath(url: string, index: number): string {
+  let name = 'file';
+  try {
+    name = decodeURIComponent(new URL(url).pathname.split('/').pop() || 'file');
+  } catch {
+    // keep the default name
+  }
+  const safeName = name.replace(/[^\w.-]+/g, '_').slice(-80) || 'file';
+  return `media/${String(index + 1).padStart(4, '0')}-${safeName}`;
+}
+
+// ==================== HTML ====================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const IMAGE_PATH = /\.(jpg|jpeg|png|gif|webp|heic|heif|bmp|svg)$/i;
+const VIDEO_PATH = /\.(mp4|webm|ogg|mov|m4v)$/i;
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;max-width:900px;margin:2rem auto;padding:0 1rem;color:#222}
+section{border:1px solid #ddd;border-radius:8px;padding:1rem;margin:1rem 0}
+dt{font-weight:600;margin-top:.5rem}dd{margin:0 0 0 1rem;white-space:pre-wrap;word-break:break-word}
+img,video{max-width:320px;border-radius:6px}pre{background:#f5f5f5;padding:.5rem;overflow:auto}`;
+
+function renderValue(value: unknown, media: Map<string, string>): string {
+  if (value === null || value === undefined || value === '') return '<em>—</em>';
+  if (isHttpUrl(value)) {
+    const local = media.get(value);
+    const href = escapeHtml(local ?? value);
+    if (local && IMAGE_PATH.test(local)) return `<a href="${href}"><img src="${href}" alt=""></a>`;
+    if (local && VIDEO_PATH.test(local)) return `<video src="${href}" controls></video>`;
+    return `<a href="${href}">${escapeHtml(local ?? value)}</a>`;
+  }
+  if (typeof value === 'object') return `<pre>${escapeHtml(JSON.stringify(value, null, 2))}</pre>`;
+  return escapeHtml(String(value));
+}
+
+function renderPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * One page per category; media links point at the copies inside the archive (pages live in html/)
+ */
+export function renderCategoryHtml(
+  category: ExportCategoryDefinition,
+  records: ExportRecord[],
+  media: Map<string, string>
+): string {
+  const relativeMedia = new Map([...media].map(([url, path]) => [url, `../${path}`]));
+  const sections = records.map(record => {
+    const rows = Object.entries(record)
+      .map(([key, value]) => `<dt>${escapeHtml(key)}</dt><dd>${renderValue(value, relativeMedia)}</dd>`)
+      .join('');
+    return `<section><dl>${rows}</dl></section>`;
+  });
+
+  return renderPage(
+    category.label,
+    `<p><a href="../index.html">← All categories</a></p>
+<h1>${escapeHtml(category.label)}</h1>
+<p>${records.length} ${records.length === 1 ? 'item' : 'items'}</p>
+${sections.join('\n') || '<p>Nothing to show.</p>'}`
+  );
+}
+
+export function renderIndexHtml(
+  summary: { category: ExportCategoryDefinition; count: number }[],
+  info: { generatedAt: string; range: DateRange; skippedMedia: number }
+): string {
+  const rangeText = info.range.from || info.range.to
+    ? `${info.range.from ? info.range.from.slice(0, 10) : 'the beginning'} to ${info.range.to ? info.range.to.slice(0, 10) : 'today'}`
+    : 'All time';
+  const items = summary
+    .map(({ category, count }) =>
+      `<li><a href="html/${category.id}.html">${escapeHtml(category.label)}</a> (${count}) · <a href="json/${category.id}.json">JSON</a></li>`)
+    .join('\n');
+
+  return renderPage(
+    'Your information',
+    `<h1>Your information</h1>
+<p>Generated ${escapeHtml(info.generatedAt)} · ${escapeHtml(rangeText)}</p>
+<ul>
+${items}
+</ul>
+${info.skippedMedia > 0 ? `<p>${info.skippedMedia} media files could not be included; see skipped_media.json for their original links.</p>` : ''}`
+  );
+}
+
+// ==================== ZIP ====================
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getUTCFullYear());
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive with stored (uncompressed) entries
+ * Media is already compressed, so deflating would cost CPU for little gain
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  if (entries.length > 0xffff) throw new Error('Too many files for a ZIP archive');
+
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const { time, date } = toDosDateTime(entry.modified ?? new Date());
+    const size = entry.data.length;
+    if (offset + 30 + name.length + size > 0xffffffff) throw new Error('Archive is larger than 4 GB');
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, entry.data);
+    centrals.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+}
+
+// ==================== Job runner ====================
+
+export interface RunExportOptions {
+  now?: () => Date;
+  maxMediaBytes?: number; // total budget for downloaded media
+  retentionDays?: number;
+}
+
+const DEFAULT_MAX_MEDIA_BYTES = 25 * 1024 * 1024; // the archive is built in memory
+const DEFAULT_RETENTION_DAYS = 7;
+
+/**
+ * Run one export job: gather categories (0-60%), download media (60-90%), zip and upload (90-100%)
+ * Failures mark the job failed; a missing media file only lands in skipped_media.json
+ */
+export async function runExportJob(
+  store: ExportJobStore,
+  source: ExportDataSource,
+  jobId: string,
+  options: RunExportOptions = {}
+): Promise<ExportJob> {
+  const now = options.now ?? (() => new Date());
+  const maxMediaBytes = options.maxMediaBytes ?? DEFAULT_MAX_MEDIA_BYTES;
+
+  const current = await store.get(jobId);
+  if (!current) throw new Error(`Export job ${jobId} not found`);
+  if (!canTransition(current.status, 'processing')) return current;
+
+  const started = await store.transition(jobId, current.status, {
+    status: 'processing',
+    progress: 0,
+    current_step: 'Gathering your information',
+    started_at: now().toISOString(),
+    error: null,
+  });
+  if (!started) return (await store.get(jobId)) ?? current;
+  let job: ExportJob = started;
+
+  try {
+    const range: DateRange = { from: job.date_from, to: job.date_to };
+    const categories = EXPORT_CATEGORIES.filter(c => job.categories.includes(c.id));
+    if (categories.length === 0) throw new Error('No categories selected');
+
+    const gathered: { category: ExportCategoryDefinition; records: ExportRecord[] }[] = [];
+    for (const [i, category] of categories.entries()) {
+      await store.update(jobId, {
+        current_step: `Gathering ${category.label.toLowerCase()}`,
+        progress: Math.round((i / categories.length) * 60),
+      });
+      const records = await source.fetchCategory(category.id, job.user_id, category.dated ? range : { from: null, to: null });
+      gathered.push({ category, records: prepareRecords(category.id, records) });
+    }
+
+    const urls = [...new Set(gathered.flatMap(({ category, records }) => collectMediaUrls(category.id, records)))];
+    const media = new Map<string, string>();
+    const mediaEntries: ZipEntry[] = [];
+    const skipped: { url: string; reason: string }[] = [];
+    let mediaBytes = 0;
+
+    for (const [i, url] of urls.entries()) {
+      if (i % 10 === 0) {
+        await store.update(jobId, {
+          current_step: `Downloading media (${i}/${urls.length})`,
+          progress: 60 + Math.round((i / urls.length) * 30),
+        });
+      }
+      const data = await source.fetchMedia(url, maxMediaBytes - mediaBytes).catch(() => null);
+      if (!data) {
+        skipped.push({ url, reason: 'unavailable' });
+        continue;
+      }
+      if (mediaBytes + data.length > maxMediaBytes) {
+        skipped.push({ url, reason: 'size limit reached' });
+        continue;
+      }
+      mediaBytes += data.length;
+      const path = getMediaPath(url, mediaEntries.length);
+      media.set(url, path);
+      mediaEntries.push({ path, data });
+    }
+
+    await store.update(jobId, { current_step: 'Creating archive', progress: 90 });
+
+    const encoder = new TextEncoder();
+    const generatedAt = now();
+    const entries: ZipEntry[] = [
+      {
+        path: 'index.html',
+        data: encoder.encode(renderIndexHtml(
+          gathered.map(({ category, records }) => ({ category, count: records.length })),
+          { generatedAt: generatedAt.toISOString(), range, skippedMedia: skipped.length }
+        )),
+      },
+      ...gathered.flatMap(({ category, records }) => [
+        { path: `json/${category.id}.json`, data: encoder.encode(JSON.stringify(records, null, 2)) },
+        { path: `html/${category.id}.html`, data: encoder.encode(renderCategoryHtml(category, records, media)) },
+      ]),
+      ...mediaEntries,
+      ...(skipped.length > 0
+        ? [{ path: 'skipped_media.json', data: encoder.encode(JSON.stringify(skipped, null, 2)) }]
+        : []),
+    ].map(entry => ({ ...entry, modified: generatedAt }));
+
+    const zip = createZip(entries);
+    const filePath = `${job.user_id}/${job.id}.zip`;
+    await source.saveArchive(filePath, zip);
+
+    // A job failed as stale while this run was still going keeps its failed status
+    const retentionMs = (options.retentionDays ?? DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+    const completed = await store.transition(jobId, 'processing', {
+      status: 'completed',
+      progress: 100,
+      current_step: null,
+      file_path: filePath,
+      file_size: zip.length,
+      completed_at: generatedAt.toISOString(),
+      expires_at: new Date(generatedAt.getTime() + retentionMs).toISOString(),
+    });
+    if (!completed) {
+      console.warn(`[export] job ${jobId} was no longer processing, discarding its archive`);
+      await source.removeArchive(filePath);
+      return (await store.get(jobId)) ?? job;
+    }
+    job = completed;
+
+    await source.notify(job.user_id, 'Your information export is ready to download').catch((error) => {
+      console.error(`[export] notification for ${jobId} failed:`, error);
+    });
+    return job;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[export] job ${jobId} failed:`, message);
+    const failed = await store.transition(jobId, 'processing', { status: 'failed', error: message, current_step: null });
+    return failed ?? (await store.get(jobId)) ?? job;
+  }
+}
@@ -0,0 +1,348 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import {
+  DateRange,
+  ExportCategory,
+  ExportDataSource,
+  ExportJob,
+  ExportJobStore,
+  ExportRecord,
+  isExportCategory,
+  STALE_JOB_MS,
+  isStaleJob,
+  runExportJob,
+} from './archive.ts';
+import { parseStorageObjectUrl } from '../_shared/storage.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const BUCKET = 'data_exports';
+const MAX_MEDIA_FILE_BYTES = 10 * 1024 * 1024;
+const SIGNED_URL_SECONDS = 60 * 60;
+const STALE_JOB_ERROR = 'The export stopped responding. Please try again';
+
+// The part of the query builder the date range filter uses
+interface RangeFilterable<Q> {
+  gte(column: string, value: string): Q;
+  lte(column: string, value: string): Q;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const projectUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const supabaseClient = createClient(
+    projectUrl,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const store: ExportJobStore = {
+    async get(id) {
+      const { data, error } = await supabaseClient
+        .from('data_export_jobs')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data as ExportJob | null;
+    },
+    async update(id, patch) {
+      const { data, error } = await supabaseClient
+        .from('data_export_jobs')
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('*')
+        .single();
+      if (error) throw error;
+      return data as ExportJob;
+    },
+    async transition(id, from, patch) {
+      const { data, error } = await supabaseClient
+        .from('data_export_jobs')
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', from)
+        .select('*')
+        .maybeSingle();
+      if (error) throw error;
+      return data as ExportJob | null;
+    },
+  };
+
+  // Fail jobs that are still unfinished and still untouched for STALE_JOB_MS when the update runs,
+  // so a job the runner moved on in the meantime is left alone
+  const failStaleJobs = async (ids: string[], now: Date): Promise<string[]> => {
+    const { data, error } = await supabaseClient
+      .from('data_export_jobs')
+      .update({ status: 'failed', error: STALE_JOB_ERROR, current_step: null, updated_at: now.toISOString() })
+      .in('id', ids)
+      .in('status', ['queued', 'processing'])
+      .lt('updated_at', new Date(now.getTime() - STALE_JOB_MS).toISOString())
+      .select('id');
+    if (error) throw error;
+    return (data ?? []).map(job => job.id);
+  };
+
+  // Apply the optional date range to a created_at column
+  const inRange = <Q extends RangeFilterable<Q>>(query: Q, range: DateRange, column = 'created_at'): Q => {
+    let filtered = query;
+    if (range.from) filtered = filtered.gte(column, range.from);
+    if (range.to) filtered = filtered.lte(column, range.to);
+    return filtered;
+  };
+
+  const rows = async (query: PromiseLike<{ data: unknown; error: unknown }>): Promise<ExportRecord[]> => {
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data ?? []) as ExportRecord[];
+  };
+
+  const fetchCategory = async (category: ExportCategory, userId: string, range: DateRange): Promise<ExportRecord[]> => {
+    switch (category) {
+      case 'profile':
+        return rows(supabaseClient.from('profiles').select('*').eq('id', userId));
+      case 'posts':
+        return rows(inRange(supabaseClient.from('posts').select('*').eq('user_id', userId), range).order('created_at'));
+      case 'comments':
+        return rows(inRange(supabaseClient.from('comments').select('*').eq('user_id', userId), range).order('created_at'));
+      case 'reactions': {
+        const [posts, comments, messages] = await Promise.all([
+          rows(inRange(supabaseClient.from('reactions').select('*').eq('user_id', userId), range)),
+          rows(inRange(supabaseClient.from('comment_reactions').select('*').eq('user_id', userId), range)),
+          rows(inRange(supabaseClient.from('message_reactions').select('*').eq('user_id', userId), range)),
+        ]);
+        return [
+          ...posts.map(r => ({ kind: 'post', ...r })),
+          ...comments.map(r => ({ kind: 'comment', ...r })),
+          ...messages.map(r => ({ kind: 'message', ...r })),
+        ];
+      }
+      case 'messages': {
+        // Everything in the user's conversations, sent and received
+        const participations = await rows(
+          supabaseClient.from('conversation_participants').select('conversation_id').eq('user_id', userId)
+        );
+        const conversationIds = participations.map(p => p.conversation_id as string);
+        if (conversationIds.length === 0) return [];
+        return rows(
+          inRange(
+            supabaseClient
+              .from('messages')
+              .select('id, conversation_id, sender_id, content, is_encrypted, image_url, media_url, attachment_url, gif_url, sticker_url, audio_path, message_type, reply_to_id, created_at')
+              .in('conversation_id', conversationIds),
+            range
+          ).order('created_at')
+        );
+      }
+      case 'stories':
+        return rows(inRange(supabaseClient.from('stories').select('*').eq('user_id', userId), range).order('created_at'));
+      case 'saved_posts':
+        return rows(
+          inRange(
+            supabaseClient
+              .from('saved_posts')
+              .select('id, post_id, created_at, post:posts(id, user_id, content, media_url, created_at)')
+              .eq('user_id', userId),
+            range
+          ).order('created_at')
+        );
+      case 'ad_preferences': {
+        const tables = [
+          'ad_settings',
+          'ad_topics',
+          'ad_advertisers',
+          'ad_profile_categories',
+          'ad_associated_categories',
+          'ad_activity',
+          'saved_ads',
+        ];
+        const results = await Promise.all(
+          tables.map(table => rows(supabaseClient.from(table).select('*').eq('user_id', userId)))
+        );
+        return results.flatMap((records, i) => records.map(r => ({ section: tables[i], ...r })));
+      }
+      case 'life_events':
+        return rows(inRange(supabaseClient.from('life_events').select('*').eq('user_id', userId), range).order('created_at'));
+      case 'editor_projects':
+        return rows(inRange(supabaseClient.from('editor_projects').select('*').eq('owner_id', userId), range).order('created_at'));
+    }
+  };
+
+  // Public buckets only: the service role could otherwise read private objects a row points at
+  const publicBuckets = new Map<string, Promise<boolean>>();
+  const isPublicBucket = (bucket: string) => {
+    let promise = publicBuckets.get(bucket);
+    if (!promise) {
+      promise = supabaseClient.storage.getBucket(bucket).then(({ data }) => data?.public === true);
+      publicBuckets.set(bucket, promise);
+    }
+    return promise;
+  };
+
+  const source: ExportDataSource = {
+    fetchCategory,
+    // Only objects in this project's storage are downloaded, from a URL built by the storage client;
+    // links to anywhere else stay links in the archive
+    async fetchMedia(url, maxBytes) {
+      const object = parseStorageObjectUrl(url, projectUrl);
+      if (!object || !(await isPublicBucket(object.bucket))) return null;
+
+      const limit = Math.min(MAX_MEDIA_FILE_BYTES, maxBytes);
+      const { data: { publicUrl } } = supabaseClient.storage.from(object.bucket).getPublicUrl(object.path);
+      const response = await fetch(publicUrl, { redirect: 'error' });
+      if (!response.ok) return null;
+      const length = Number(response.headers.get('content-length') ?? 0);
+      if (length > limit || !response.body) {
+        await response.body?.cancel();
+        return null;
+      }
+
+      // Stop reading as soon as the file goes over the limit, whatever the header said
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      const reader = response.body.getReader();
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.length;
+        if (size > limit) {
+          await reader.cancel();
+          return null;
+        }
+        chunks.push(chunk.value);
+      }
+      const data = new Uint8Array(size);
+      let offset = 0;
+      chunks.forEach(chunk => {
+        data.set(chunk, offset);
+        offset += chunk.length;
+      });
+      return data;
+    },
+    async saveArchive(path, data) {
+      const { error } = await supabaseClient.storage
+        .from(BUCKET)
+        .upload(path, data, { contentType: 'application/zip', upsert: true });
+      if (error) throw error;
+    },
+    async removeArchive(path) {
+      const { error } = await supabaseClient.storage.from(BUCKET).remove([path]);
+      if (error) throw error;
+    },
+    async notify(userId, message) {
+      const { error } = await supabaseClient.from('notifications').insert({
+        user_id: userId,
+        actor_id: userId,
+        type: 'data_export',
+        message,
+      });
+      if (error) throw error;
+    },
+  };
+
+  // Process in the background so the client gets a jobId immediately
+  const processJob = (jobId: string) => {
+    const work = runExportJob(store, source, jobId).catch((error) => {
+      console.error(`[export] job ${jobId} crashed:`, error);
+    });
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(work);
+    }
+  };
+
+  try {
+    // Resolve the caller from their JWT - exports are always scoped to an owner
+    const authHeader = req.headers.get('Authorization') ?? '';
+    const { data: { user } } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { jobId, categories, dateFrom, dateTo } = await req.json();
+
+    // Poll an existing job; completed jobs get a short-lived download link
+    if (jobId) {
+      let job = await store.get(jobId);
+      if (!job || job.user_id !== user.id) {
+        return jsonResponse({ error: 'Export job not found' }, 404);
+      }
+      if (isStaleJob(job, new Date())) {
+        await failStaleJobs([job.id], new Date());
+        job = (await store.get(job.id)) ?? job;
+      }
+
+      let downloadUrl: string | null = null;
+      if (job.status === 'completed' && job.file_path) {
+        const { data } = await supabaseClient.storage
+          .from(BUCKET)
+          .createSignedUrl(job.file_path, SIGNED_URL_SECONDS, { download: `your-information-${job.created_at.slice(0, 10)}.zip` });
+        downloadUrl = data?.signedUrl ?? null;
+      }
+
+      return jsonResponse({ job, downloadUrl });
+    }
+
+    // Start a new export
+    const selected = Array.isArray(categories) ? categories.filter((c: string) => isExportCategory(c)) : [];
+    if (selected.length === 0) {
+      return jsonResponse({ error: 'Select at least one category' }, 400);
+    }
+    if (dateFrom && dateTo && new Date(dateFrom) > new Date(dateTo)) {
+      return jsonResponse({ error: 'Start date must be before end date' }, 400);
+    }
+
+    const { data: active } = await supabaseClient
+      .from('data_export_jobs')
+      .select('id, status, created_at, updated_at')
+      .eq('user_id', user.id)
+      .in('status', ['queued', 'processing']);
+
+    const now = new Date();
+    const stale = (active ?? []).filter(job => isStaleJob(job, now));
+    const failed = stale.length > 0 ? await failStaleJobs(stale.map(job => job.id), now) : [];
+    if (failed.length > 0) {
+      console.warn('[export] Failed stale jobs', failed);
+    }
+
+    const running = (active ?? []).filter(job => !failed.includes(job.id));
+    if (running.length > 0) {
+      return jsonResponse({ error: 'An export is already in progress', jobId: running[0].id }, 409);
+    }
+
+    console.log('[export] Starting export for', user.id, selected);
+
+    const { data: job, error: insertError } = await supabaseClient
+      .from('data_export_jobs')
+      .insert({
+        user_id: user.id,
+        categories: selected,
+        date_from: dateFrom ?? null,
+        date_to: dateTo ?? null,
+        status: 'queued',
+      })
+      .select('*')
+      .single();
+
+    if (insertError) throw insertError;
+
+    processJob(job.id);
+
+    return jsonResponse({ job });
+
+  } catch (error) {
+    console.error('Export error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Export failed';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,73 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { isCronRequest } from '../_shared/cron.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BUCKET = 'data_exports';
+const BATCH_SIZE = 100;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Data export archives are only kept until expires_at: the ZIP and its job row are removed together
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the pg_cron job may trigger a purge
+  if (!isCronRequest(req, Deno.env.get('CRON_SECRET'))) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  try {
+    const { data: expiredJobs, error: fetchError } = await supabaseClient
+      .from('data_export_jobs')
+      .select('id, file_path')
+      .lte('expires_at', new Date().toISOString())
+      .limit(BATCH_SIZE);
+
+    if (fetchError) throw fetchError;
+
+    if (!expiredJobs || expiredJobs.length === 0) {
+      return jsonResponse({ success: true, purgedCount: 0 });
+    }
+
+    // Rows stay until their archives are gone, so a failed removal is retried on the next run
+    const paths = expiredJobs
+      .map(job => job.file_path)
+      .filter((path): path is string => !!path);
+    if (paths.length > 0) {
+      const { error: storageError } = await supabaseClient.storage.from(BUCKET).remove(paths);
+      if (storageError) throw storageError;
+    }
+
+    const jobIds = expiredJobs.map(job => job.id);
+    const { error: deleteError } = await supabaseClient
+      .from('data_export_jobs')
+      .delete()
+      .in('id', jobIds);
+
+    if (deleteError) throw deleteError;
+
+    console.log(`[purge-exports] Removed ${jobIds.length} expired exports`);
+    return jsonResponse({ success: true, purgedCount: jobIds.length });
+
+  } catch (error) {
+    console.error('[purge-exports] Purge failed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Purge failed';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,159 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { parseStorageObjectUrl } from '../_shared/storage.ts';
+import { isCronRequest } from '../_shared/cron.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const BATCH_SIZE = 500;
+const MEDIA_URL_FIELDS = ['image_url', 'media_url', 'attachment_url'] as const;
+const URL_LOOKUP_CHUNK = 50; // keeps the reference lookups' query strings short
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Only the pg_cron job may trigger a purge
+  if (!isCronRequest(req, Deno.env.get('CRON_SECRET'))) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const projectUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const supabaseClient = createClient(
+    projectUrl,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  try {
+    console.log('Starting vanished messages purge...');
+
+    // Messages whose vanishing clock has run out
+    const now = new Date().toISOString();
+    const { data: expiredMessages, error: fetchError } = await supabaseClient
+      .from('messages')
+      .select('id, audio_path, image_url, media_url, attachment_url, recording_path')
+      .lte('expires_at', now)
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('Error fetching expired messages:', fetchError);
+      return new Response(JSON.stringify({ error: fetchError.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`Found ${expiredMessages?.length || 0} expired messages`);
+
+    if (!expiredMessages || expiredMessages.length === 0) {
+      return new Response(JSON.stringify({
+        success: true,
+        message: 'No messages to purge',
+        purgedCount: 0
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const messageIds = expiredMessages.map(message => message.id);
+
+    // Voice notes live in storage, so they go too
+    const audioPaths = expiredMessages
+      .map(message => message.audio_path)
+      .filter((path): path is string => !!path);
+    if (audioPaths.length > 0) {
+      const { error: storageError } = await supabaseClient.storage.from('message_audios').remove(audioPaths);
+      if (storageError) {
+        console.error('Error removing voice notes:', storageError);
+      }
+    }
+
+    const recordingPaths = expiredMessages
+      .map(message => message.recording_path)
+      .filter((path): path is string => !!path);
+    if (recordingPaths.length > 0) {
+      const { error: storageError } = await supabaseClient.storage.from('call_recordings').remove(recordingPaths);
+      if (storageError) {
+        console.error('Error removing call recordings:', storageError);
+      }
+    }
+
+    // Photos, videos and files are public chat_media objects, reachable by URL until removed.
+    // A forwarded copy reuses the URL, so objects other messages still point at are kept
+    const mediaUrls = [...new Set(expiredMessages.flatMap(message =>
+      MEDIA_URL_FIELDS.map(field => message[field]).filter((url): url is string => !!url)
+    ))];
+    if (mediaUrls.length > 0) {
+      const purging = new Set(messageIds);
+      const referenced = new Set<string>();
+      for (let i = 0; i < mediaUrls.length; i += URL_LOOKUP_CHUNK) {
+        const chunk = mediaUrls.slice(i, i + URL_LOOKUP_CHUNK);
+        for (const field of MEDIA_URL_FIELDS) {
+          const { data: others, error: referenceError } = await supabaseClient
+            .from('messages')
+            .select(`id, ${field}`)
+            .in(field, chunk);
+          if (referenceError) throw referenceError;
+          (others ?? [])
+            .filter(other => !purging.has(other.id))
+            .forEach(other => referenced.add(other[field]));
+        }
+      }
+
+      const mediaPaths = mediaUrls
+        .filter(url => !referenced.has(url))
+        .map(url => parseStorageObjectUrl(url, projectUrl))
+        .filter(object => object?.bucket === 'chat_media')
+        .map(object => object!.path);
+      if (mediaPaths.length > 0) {
+        const { error: storageError } = await supabaseClient.storage.from('chat_media').remove(mediaPaths);
+        if (storageError) {
+          console.error('Error removing chat media:', storageError);
+        }
+      }
+    }
+
+    // Reads, reactions and pins cascade with the message
+    const { error: deleteError } = await supabaseClient
+      .from('messages')
+      .delete()
+      .in('id', messageIds);
+
+    if (deleteError) {
+      console.error('Error deleting messages:', deleteError);
+      return new Response(JSON.stringify({ error: deleteError.message }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    console.log(`Successfully purged ${messageIds.length} messages`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Purged ${messageIds.length} messages`,
+      purgedCount: messageIds.length
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
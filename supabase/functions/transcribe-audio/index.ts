@@ -1,74 +1,177 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { JobStore, TranscriptionJob, runTranscriptionJob } from './pipeline.ts';
+import { createRecognizer } from './recognizers.ts';
+import { parseStorageObjectUrl } from '../_shared/storage.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req) => {
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const projectUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const supabaseClient = createClient(
+    projectUrl,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const store: JobStore = {
+    async get(id) {
+      const { data, error } = await supabaseClient
+        .from('transcription_jobs')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      if (error) throw error;
+      return data as TranscriptionJob | null;
+    },
+    async update(id, patch) {
+      const { data, error } = await supabaseClient
+        .from('transcription_jobs')
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('*')
+        .single();
+      if (error) throw error;
+      return data as TranscriptionJob;
+    },
+  };
+
+  // TRANSCRIBE_LOCAL_RECOGNIZER=true is for local dev; deployed functions need OPENAI_API_KEY
+  const recognizer = createRecognizer({
+    openaiKey: Deno.env.get('OPENAI_API_KEY'),
+    allowLocal: Deno.env.get('TRANSCRIBE_LOCAL_RECOGNIZER') === 'true',
+  });
+
+  // The recognizer downloads the audio server-side, so only public objects in this project's
+  // storage are accepted, re-addressed through the storage client rather than the caller's URL
+  const resolveAudioUrl = async (url: unknown): Promise<string | null> => {
+    if (typeof url !== 'string') return null;
+    const object = parseStorageObjectUrl(url, projectUrl);
+    if (!object) return null;
+    const { data: bucket } = await supabaseClient.storage.getBucket(object.bucket);
+    if (bucket?.public !== true) return null;
+    return supabaseClient.storage.from(object.bucket).getPublicUrl(object.path).data.publicUrl;
+  };
+
+  // Process in the background so the client gets a jobId immediately
+  const processJob = (jobId: string) => {
+    const work = runTranscriptionJob(store, recognizer, jobId).catch((error) => {
+      console.error(`[transcribe] job ${jobId} crashed:`, error);
+    });
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(work);
+    }
+  };
+
   try {
-    const { audioUrl, jobId } = await req.json();
+    // Resolve the caller from their JWT - jobs are always scoped to an owner
+    const authHeader = req.headers.get('Authorization') ?? '';
+    const { data: { user } } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
 
-    // If jobId is provided, check status (polling)
+    const { audioUrl, audioTrackId, projectId, language, jobId, retry } = await req.json();
+
+    // Poll or retry an existing job
     if (jobId) {
-      // In production, check job status from database/queue
-      // For demo, return completed with mock data
-      return new Response(
-        JSON.stringify({
-          status: 'completed',
-          transcript: {
-            id: jobId,
-            audioTrackId: 'audio-1',
-            status: 'completed',
-            language: 'en',
-            segments: [
-              { id: '1', text: 'Hello and welcome.', start: 0, end: 2, confidence: 0.95 },
-              { id: '2', text: 'This is a sample transcription.', start: 2, end: 5, confidence: 0.92 },
-            ],
-          },
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      const job = await store.get(jobId);
+      if (!job || job.owner_id !== user.id) {
+        return jsonResponse({ error: 'Transcription job not found' }, 404);
+      }
+
+      // Only a failed job can be retried; processing -> queued is the pipeline's own backoff
+      if (retry) {
+        if (job.status !== 'failed') {
+          return jsonResponse({ error: `Cannot retry a ${job.status} job` }, 409);
+        }
+        if (!(await resolveAudioUrl(job.audio_url))) {
+          return jsonResponse({ error: 'This audio cannot be transcribed' }, 400);
+        }
+        // Conditional on the status so two retries of the same job cannot both start a run
+        const { data: requeued, error: requeueError } = await supabaseClient
+          .from('transcription_jobs')
+          .update({
+            status: 'queued',
+            attempts: 0,
+            error: null,
+            result: null,
+            completed_at: null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', job.id)
+          .eq('status', 'failed')
+          .select('id')
+          .maybeSingle();
+        if (requeueError) throw requeueError;
+        if (!requeued) {
+          return jsonResponse({ error: 'This job is already being retried' }, 409);
+        }
+        processJob(job.id);
+        return jsonResponse({ jobId: job.id, status: 'processing' });
+      }
+
+      return jsonResponse({
+        jobId: job.id,
+        // queued counts as processing for the client; it only cares about finished vs not
+        status: job.status === 'queued' ? 'processing' : job.status,
+        attempts: job.attempts,
+        transcript: job.result,
+        error: job.error,
+      });
     }
 
     // Start new transcription job
     if (!audioUrl) {
-      return new Response(
-        JSON.stringify({ error: 'audioUrl is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'audioUrl is required' }, 400);
+    }
+    const storageAudioUrl = await resolveAudioUrl(audioUrl);
+    if (!storageAudioUrl) {
+      return jsonResponse({ error: 'Only uploaded audio can be transcribed' }, 400);
     }
 
-    console.log('Starting transcription for:', audioUrl);
+    console.log('[transcribe] Starting transcription for:', storageAudioUrl);
+
+    const { data: job, error: insertError } = await supabaseClient
+      .from('transcription_jobs')
+      .insert({
+        owner_id: user.id,
+        project_id: projectId ?? null,
+        audio_track_id: audioTrackId ?? 'audio-1',
+        audio_url: storageAudioUrl,
+        requested_language: language ?? null,
+        status: 'queued',
+      })
+      .select('*')
+      .single();
 
-    // In production, you would:
-    // 1. Queue the transcription job (using Whisper API, AssemblyAI, etc.)
-    // 2. Store job in database
-    // 3. Return jobId for polling
+    if (insertError) throw insertError;
 
-    const newJobId = `job_${Date.now()}`;
+    processJob(job.id);
 
-    // For demo, return mock processing status
-    return new Response(
-      JSON.stringify({
-        jobId: newJobId,
-        status: 'processing',
-        message: 'Transcription started. Poll with jobId to get results.',
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({
+      jobId: job.id,
+      status: 'processing',
+      message: 'Transcription started. Poll with jobId to get results.',
+    });
 
   } catch (error) {
     console.error('Transcription error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Transcription failed';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: errorMessage }, 500);
   }
 });
@@ -0,0 +1,286 @@
+// Transcription job pipeline - runtime-agnostic (no Deno or Supabase imports)
+// Job status transitions, retry policy, transcript assembly and language detection
+// The edge function wires this to the transcription_jobs table and a real recognizer
+
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface RecognizedWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface RecognizedSegment {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  words?: RecognizedWord[];
+}
+
+export interface RecognitionResult {
+  language?: string;
+  languageConfidence?: number;
+  segments: RecognizedSegment[];
+}
+
+export interface RecognitionRequest {
+  audioUrl: string;
+  language?: string; // hint; undefined = auto-detect
+}
+
+export interface Recognizer {
+  name: string;
+  transcribe(request: RecognitionRequest): Promise<RecognitionResult>;
+}
+
+// Recognizers mark errors that should not be retried (bad input, unsupported format...)
+export function permanentError(message: string): Error {
+  return Object.assign(new Error(message), { permanent: true });
+}
+
+export interface TranscriptWordOut {
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface TranscriptSegmentOut {
+  id: string;
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  words?: TranscriptWordOut[];
+}
+
+// Mirrors the Transcript type in src/types/editor.ts
+export interface TranscriptOut {
+  id: string;
+  audioTrackId: string;
+  segments: TranscriptSegmentOut[];
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  language?: string;
+  languageConfidence?: number;
+  jobId?: string;
+}
+
+export interface TranscriptionJob {
+  id: string;
+  owner_id: string;
+  audio_url: string;
+  audio_track_id: string;
+  requested_language: string | null;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  backend: string | null;
+  language: string | null;
+  error: string | null;
+  result: TranscriptOut | null;
+  next_attempt_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface JobStore {
+  get(id: string): Promise<TranscriptionJob | null>;
+  update(id: string, patch: Partial<TranscriptionJob>): Promise<TranscriptionJob>;
+}
+
+const ALLOWED_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  queued: ['processing', 'failed'],
+  processing: ['completed', 'queued', 'failed'],
+  completed: [],
+  failed: ['queued'], // manual retry
+};
+
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Exponential backoff between attempts: 2s, 4s, 8s... capped at 60s
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(60_000, 1000 * Math.pow(2, Math.max(1, attempt)));
+}
+
+export function isRetryable(error: unknown): boolean {
+  return !(error instanceof Error && (error as Error & { permanent?: boolean }).permanent);
+}
+
+// Small stopword lists - enough to tell common languages apart when the backend does not say
+const LANGUAGE_STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'to', 'of', 'you', 'this', 'that', 'it', 'in', 'for', 'with'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'es', 'por', 'con', 'para', 'una'],
+  fr: ['le', 'la', 'les', 'de', 'et', 'est', 'que', 'un', 'une', 'pour', 'dans', 'vous'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'du', 'mit', 'ein', 'eine', 'zu'],
+  pt: ['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'com', 'não'],
+  it: ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'non', 'sono', 'con', 'una', 'del'],
+};
+
+/**
+ * Guess the language of a text from stopword frequency
+ * Returns confidence as the winner's share of all stopword hits
+ */
+export function detectLanguage(text: string): { language: string; confidence: number } | null {
+  const tokens = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  if (tokens.length === 0) return null;
+
+  const scores: Record<string, number> = {};
+  let total = 0;
+  for (const [language, words] of Object.entries(LANGUAGE_STOPWORDS)) {
+    const set = new Set(words);
+    scores[language] = tokens.filter(t => set.has(t)).length;
+    total += scores[language];
+  }
+  if (total === 0) return null;
+
+  const [language, hits] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0];
+  return { language, confidence: Math.round((hits / total) * 100) / 100 };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function averageConfidence(words: RecognizedWord[]): number | undefined {
+  const values = words.map(w => w.confidence).filter((c): c is number => typeof c === 'number');
+  if (values.length === 0) return undefined;
+  return round(values.reduce((sum, c) => sum + c, 0) / values.length);
+}
+
+/**
+ * Turn a recognizer result into the editor's Transcript shape
+ * Segment timing is tightened to its words and segment confidence is derived from them when missing
+ */
+export function buildTranscript(
+  result: RecognitionResult,
+  options: { jobId: string; audioTrackId: string; requestedLanguage?: string | null }
+): TranscriptOut {
+  const segments: TranscriptSegmentOut[] = result.segments
+    .filter(segment => segment.text.trim().length > 0)
+    .sort((a, b) => a.start - b.start)
+    .map((segment, index) => {
+      const words = (segment.words || [])
+        .filter(word => word.text.trim().length > 0)
+        .map(word => ({
+          text: word.text.trim(),
+          start: round(word.start),
+          end: round(Math.max(word.start, word.end)),
+          ...(typeof word.confidence === 'number' ? { confidence: round(word.confidence) } : {}),
+        }));
+
+      const start = words.length > 0 ? Math.min(segment.start, words[0].start) : segment.start;
+      const end = words.length > 0 ? Math.max(segment.end, words[words.length - 1].end) : segment.end;
+      const confidence = typeof segment.confidence === 'number'
+        ? round(segment.confidence)
+        : averageConfidence(words);
+
+      return {
+        id: `seg-${index + 1}`,
+        text: segment.text.trim(),
+        start: round(start),
+        end: round(Math.max(start, end)),
+        ...(confidence !== undefined ? { confidence } : {}),
+        ...(words.length > 0 ? { words } : {}),
+      };
+    });
+
+  let language = result.language || options.requestedLanguage || undefined;
+  let languageConfidence = result.languageConfidence;
+  if (!language) {
+    const detected = detectLanguage(segments.map(s => s.text).join(' '));
+    language = detected?.language;
+    languageConfidence = detected?.confidence;
+  }
+
+  return {
+    id: `transcript-${options.jobId}`,
+    audioTrackId: options.audioTrackId,
+    segments,
+    status: 'completed',
+    language,
+    ...(languageConfidence !== undefined ? { languageConfidence } : {}),
+    jobId: options.jobId,
+  };
+}
+
+async function transition(
+  store: JobStore,
+  job: TranscriptionJob,
+  to: JobStatus,
+  patch: Partial<TranscriptionJob> = {}
+): Promise<TranscriptionJob> {
+  if (!canTransition(job.status, to)) {
+    throw new Error(`Invalid job transition ${job.status} → ${to}`);
+  }
+  return store.update(job.id, { ...patch, status: to });
+}
+
+/**
+ * Run one job to completion, retrying transient recognizer failures with backoff
+ * Resolves with the final job row (completed or failed)
+ */
+export async function runTranscriptionJob(
+  store: JobStore,
+  recognizer: Recognizer,
+  jobId: string,
+  options: { sleep?: (ms: number) => Promise<void>; now?: () => Date } = {}
+): Promise<TranscriptionJob> {
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const now = options.now ?? (() => new Date());
+
+  let job = await store.get(jobId);
+  if (!job) throw new Error(`Transcription job ${jobId} not found`);
+
+  while (job.status === 'queued') {
+    job = await transition(store, job, 'processing', {
+      attempts: job.attempts + 1,
+      backend: recognizer.name,
+      started_at: job.started_at ?? now().toISOString(),
+      next_attempt_at: null,
+      error: null,
+    });
+    console.log(`[transcribe] job ${job.id} attempt ${job.attempts}/${job.max_attempts} via ${recognizer.name}`);
+
+    try {
+      const result = await recognizer.transcribe({
+        audioUrl: job.audio_url,
+        language: job.requested_language ?? undefined,
+      });
+      const transcript = buildTranscript(result, {
+        jobId: job.id,
+        audioTrackId: job.audio_track_id,
+        requestedLanguage: job.requested_language,
+      });
+      return await transition(store, job, 'completed', {
+        result: transcript,
+        language: transcript.language ?? null,
+        completed_at: now().toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[transcribe] job ${job.id} attempt ${job.attempts} failed:`, message);
+
+      if (!isRetryable(error) || job.attempts >= job.max_attempts) {
+        return await transition(store, job, 'failed', {
+          error: message,
+          completed_at: now().toISOString(),
+        });
+      }
+
+      const delay = getRetryDelayMs(job.attempts);
+      job = await transition(store, job, 'queued', {
+        error: message,
+        next_attempt_at: new Date(now().getTime() + delay).toISOString(),
+      });
+      await sleep(delay);
+    }
+  }
+
+  return job;
+}
@@ -0,0 +1,196 @@
+// Speech recognizer backends for the transcription pipeline
+// WhisperRecognizer calls the OpenAI transcription API; LocalRecognizer is a deterministic stand-in for tests and local dev
+// Without an API key jobs fail with a clear error instead of getting placeholder text
+
+import {
+  RecognitionRequest,
+  RecognitionResult,
+  RecognizedSegment,
+  Recognizer,
+  permanentError,
+} from './pipeline.ts';
+
+// Whisper returns ISO-639 language names in verbose_json ("english"); map the common ones to codes
+const WHISPER_LANGUAGE_CODES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  portuguese: 'pt',
+  italian: 'it',
+  dutch: 'nl',
+  arabic: 'ar',
+  hindi: 'hi',
+  urdu: 'ur',
+  japanese: 'ja',
+  korean: 'ko',
+  chinese: 'zh',
+  russian: 'ru',
+  turkish: 'tr',
+};
+
+interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+interface WhisperSegment {
+  text: string;
+  start: number;
+  end: number;
+  avg_logprob?: number;
+}
+
+interface WhisperResponse {
+  language?: string;
+  segments?: WhisperSegment[];
+  words?: WhisperWord[];
+}
+
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024; // Whisper upload limit
+
+export class WhisperRecognizer implements Recognizer {
+  name = 'openai-whisper';
+
+  constructor(
+    private apiKey: string,
+    private model: string = 'whisper-1',
+    private fetchImpl: typeof fetch = fetch
+  ) {}
+
+  async transcribe(request: RecognitionRequest): Promise<RecognitionResult> {
+    const audioResponse = await this.fetchImpl(request.audioUrl, { redirect: 'error' });
+    if (!audioResponse.ok) {
+      // 4xx means the URL itself is bad - retrying will not help
+      const message = `Could not download audio: ${audioResponse.status} ${audioResponse.statusText}`;
+      throw audioResponse.status >= 400 && audioResponse.status < 500 ? permanentError(message) : new Error(message);
+    }
+
+    const audio = await audioResponse.blob();
+    if (audio.size > MAX_AUDIO_BYTES) {
+      throw permanentError(`Audio file is too large (${(audio.size / 1024 / 1024).toFixed(1)} MB, max 25 MB)`);
+    }
+
+    const form = new FormData();
+    const fileName = request.audioUrl.split('?')[0].split('/').pop() || 'audio.mp3';
+    form.append('file', audio, fileName);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'word');
+    form.append('timestamp_granularities[]', 'segment');
+    if (request.language) {
+      form.append('language', request.language);
+    }
+
+    const response = await this.fetchImpl('https://api.openai.com/v1/audio/transcriptions', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text();
+      const message = `Whisper API error: ${response.status} ${detail.slice(0, 200)}`;
+      // Rate limits and server errors are transient; anything else is a bad request
+      throw response.status === 429 || response.status >= 500 ? new Error(message) : permanentError(message);
+    }
+
+    return mapWhisperResponse(await response.json());
+  }
+}
+
+/**
+ * Attach word-level timestamps to their segments
+ * Whisper reports words and segments as separate flat lists
+ */
+export function mapWhisperResponse(data: WhisperResponse): RecognitionResult {
+  const words = data.words || [];
+  const segments: RecognizedSegment[] = (data.segments || []).map(segment => {
+    const segmentWords = words
+      .filter(word => word.start >= segment.start - 0.01 && word.end <= segment.end + 0.01)
+      .map(word => ({
+        text: word.word,
+        start: word.start,
+        end: word.end,
+        ...(typeof word.probability === 'number' ? { confidence: word.probability } : {}),
+      }));
+
+    return {
+      text: segment.text,
+      start: segment.start,
+      end: segment.end,
+      // avg_logprob is a log probability; exp() turns it back into a 0-1 confidence
+      ...(typeof segment.avg_logprob === 'number'
+        ? { confidence: Math.min(1, Math.exp(segment.avg_logprob)) }
+        : {}),
+      words: segmentWords,
+    };
+  });
+
+  const language = data.language
+    ? WHISPER_LANGUAGE_CODES[data.language.toLowerCase()] ?? data.language.toLowerCase()
+    : undefined;
+
+  return { language, segments };
+}
+
+/**
+ * Deterministic recognizer - spreads a fixed script over evenly timed words
+ * Used by tests, and in local dev when it is switched on explicitly
+ */
+export class LocalRecognizer implements Recognizer {
+  name = 'local';
+
+  constructor(
+    private script: string[] = ['Hello and welcome.', 'This transcript was generated locally.'],
+    private wordDuration: number = 0.4,
+    private language?: string
+  ) {}
+
+  async transcribe(request: RecognitionRequest): Promise<RecognitionResult> {
+    let cursor = 0;
+    const segments: RecognizedSegment[] = this.script.map(line => {
+      const start = cursor;
+      const words = line.split(/\s+/).filter(Boolean).map(text => {
+        const word = { text, start: cursor, end: cursor + this.wordDuration, confidence: 0.9 };
+        cursor += this.wordDuration;
+        return word;
+      });
+      cursor += this.wordDuration; // pause between lines
+      return { text: line, start, end: start + words.length * this.wordDuration, words };
+    });
+
+    return { language: request.language ?? this.language, segments };
+  }
+}
+
+export const MISSING_API_KEY_ERROR = 'Transcription is not configured: OPENAI_API_KEY is missing';
+
+/**
+ * Fails every job with a permanent error - there is no backend to retry against
+ */
+export class UnconfiguredRecognizer implements Recognizer {
+  name = 'unconfigured';
+
+  constructor(private reason: string = MISSING_API_KEY_ERROR) {}
+
+  async transcribe(): Promise<RecognitionResult> {
+    throw permanentError(this.reason);
+  }
+}
+
+export interface RecognizerConfig {
+  openaiKey?: string;
+  allowLocal?: boolean; // local dev only: fake transcripts instead of failing without a key
+}
+
+/**
+ * Pick the backend for this deployment; the local recognizer is never a silent fallback
+ */
+export function createRecognizer({ openaiKey, allowLocal = false }: RecognizerConfig): Recognizer {
+  if (openaiKey) return new WhisperRecognizer(openaiKey);
+  if (allowLocal) return new LocalRecognizer();
+  return new UnconfiguredRecognizer();
+}
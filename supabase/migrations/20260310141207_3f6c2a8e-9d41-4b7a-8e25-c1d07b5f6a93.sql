@@ -0,0 +1,41 @@
+-- Create transcription_jobs table for speech-to-text jobs run by the transcribe-audio function
+CREATE TABLE IF NOT EXISTS public.transcription_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.editor_projects(id) ON DELETE CASCADE,
+  audio_track_id TEXT NOT NULL,
+  audio_url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+  requested_language TEXT,
+  language TEXT,
+  backend TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  error TEXT,
+  result JSONB,
+  next_attempt_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcription_jobs_owner_id ON public.transcription_jobs(owner_id);
+CREATE INDEX IF NOT EXISTS idx_transcription_jobs_project_id ON public.transcription_jobs(project_id);
+CREATE INDEX IF NOT EXISTS idx_transcription_jobs_status ON public.transcription_jobs(status);
+
+-- Enable RLS
+ALTER TABLE public.transcription_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own jobs; the edge function writes with the service role
+CREATE POLICY "Users can view their own transcription jobs"
+  ON public.transcription_jobs
+  FOR SELECT
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete their own transcription jobs"
+  ON public.transcription_jobs
+  FOR DELETE
+  USING (auth.uid() = owner_id);
+
+COMMENT ON TABLE public.transcription_jobs IS 'Speech-to-text jobs with status, retry attempts and the resulting word-timed transcript';
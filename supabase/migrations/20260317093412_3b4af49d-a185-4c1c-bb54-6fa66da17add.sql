@@ -0,0 +1,192 @@
+-- End-to-end encrypted direct messages
+-- Message text is encrypted on the client for every participant device; the server only stores the envelope
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS is_encrypted BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS e2e_envelope JSONB;
+
+COMMENT ON COLUMN public.messages.e2e_envelope IS 'Encrypted message body with the content key wrapped per recipient device (content is NULL when set)';
+
+-- Device public keys: readable by any signed-in user, managed only by the owner
+CREATE INDEX IF NOT EXISTS idx_user_device_keys_user_id ON public.user_device_keys(user_id);
+
+ALTER TABLE public.user_device_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view device keys" ON public.user_device_keys;
+CREATE POLICY "Authenticated users can view device keys"
+  ON public.user_device_keys
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can register their own device keys" ON public.user_device_keys;
+CREATE POLICY "Users can register their own device keys"
+  ON public.user_device_keys
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own device keys" ON public.user_device_keys;
+CREATE POLICY "Users can update their own device keys"
+  ON public.user_device_keys
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can remove their own device keys" ON public.user_device_keys;
+CREATE POLICY "Users can remove their own device keys"
+  ON public.user_device_keys
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.user_device_keys IS 'Public ECDH P-256 keys (hex, raw format) of each user device used for end-to-end encryption';
+
+-- Verifications remember the safety number that was compared so key changes can be detected
+ALTER TABLE public.encryption_verifications
+ADD COLUMN IF NOT EXISTS safety_number TEXT;
+
+-- Participants with their device keys and the caller's latest verification
+DROP FUNCTION IF EXISTS public.get_encryption_details(uuid);
+CREATE OR REPLACE FUNCTION public.get_encryption_details(p_conversation_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_participants json;
+  v_verification json;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'user_id', p.id,
+    'display_name', p.display_name,
+    'profile_pic', p.profile_pic,
+    'is_self', p.id = auth.uid(),
+    'devices', COALESCE((
+      SELECT json_agg(json_build_object(
+        'device_id', k.id,
+        'device_name', k.device_name,
+        'hex_key', k.hex_key,
+        'last_seen_at', k.last_seen_at,
+        'created_at', k.created_at
+      ) ORDER BY k.created_at)
+      FROM user_device_keys k
+      WHERE k.user_id = p.id
+    ), '[]'::json)
+  ) ORDER BY p.id), '[]'::json)
+  INTO v_participants
+  FROM conversation_participants cp
+  JOIN profiles p ON p.id = cp.user_id
+  WHERE cp.conversation_id = p_conversation_id;
+
+  SELECT json_build_object(
+    'verified_at', ev.verified_at,
+    'status', ev.status,
+    'safety_number', ev.safety_number
+  )
+  INTO v_verification
+  FROM encryption_verifications ev
+  WHERE ev.conversation_id = p_conversation_id AND ev.verified_by = auth.uid()
+  ORDER BY ev.verified_at DESC
+  LIMIT 1;
+
+  RETURN json_build_object(
+    'conversation_id', p_conversation_id,
+    'participants', v_participants,
+    'last_verification', v_verification
+  );
+END;
+$function$;
+
+-- Record that the caller compared keys; the safety number is computed on the client
+DROP FUNCTION IF EXISTS public.verify_conversation_encryption(uuid);
+CREATE OR REPLACE FUNCTION public.verify_conversation_encryption(p_conversation_id uuid, p_safety_number text DEFAULT NULL)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_result json;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  INSERT INTO encryption_verifications (conversation_id, verified_by, status, safety_number, verified_at)
+  VALUES (p_conversation_id, auth.uid(), 'verified', p_safety_number, now())
+  RETURNING json_build_object(
+    'verified_at', verified_at,
+    'status', status,
+    'safety_number', safety_number
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$function$;
+
+-- Conversation list previews cannot show encrypted text
+CREATE OR REPLACE FUNCTION get_conversations_with_info(p_user_id uuid DEFAULT auth.uid())
+RETURNS TABLE (
+  conversation_id uuid,
+  type text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  other_user_id uuid,
+  other_user_username text,
+  other_user_display_name text,
+  other_user_profile_pic text,
+  last_message_content text,
+  last_message_created_at timestamptz,
+  unread_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id as conversation_id,
+    c.type,
+    c.created_at,
+    c.updated_at,
+    other_participant.user_id as other_user_id,
+    p.username as other_user_username,
+    p.display_name as other_user_display_name,
+    p.profile_pic as other_user_profile_pic,
+    last_msg.content as last_message_content,
+    last_msg.created_at as last_message_created_at,
+    COALESCE(unread.count, 0) as unread_count
+  FROM conversations c
+  JOIN conversation_participants my_participation ON my_participation.conversation_id = c.id AND my_participation.user_id = p_user_id
+  JOIN conversation_participants other_participant ON other_participant.conversation_id = c.id AND other_participant.user_id != p_user_id
+  JOIN profiles p ON p.id = other_participant.user_id
+  LEFT JOIN LATERAL (
+    SELECT CASE WHEN m.is_encrypted THEN '🔒 Encrypted message' ELSE m.content END as content, m.created_at
+    FROM messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_msg ON true
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) as count
+    FROM messages m
+    WHERE m.conversation_id = c.id
+      AND m.sender_id != p_user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM message_reads mr
+        WHERE mr.message_id = m.id AND mr.user_id = p_user_id
+      )
+  ) unread ON true
+  ORDER BY GREATEST(c.updated_at, last_msg.created_at) DESC NULLS LAST;
+END;
+$$;
@@ -0,0 +1,58 @@
+-- Create data_export_jobs table for "Download your data" exports built by the export-user-data function
+CREATE TABLE IF NOT EXISTS public.data_export_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed')),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  date_from TIMESTAMPTZ,
+  date_to TIMESTAMPTZ,
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  current_step TEXT,
+  file_path TEXT,
+  file_size BIGINT,
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_export_jobs_user_id ON public.data_export_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_data_export_jobs_status ON public.data_export_jobs(status);
+
+-- Enable RLS
+ALTER TABLE public.data_export_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can read and delete their own exports; the edge function writes with the service role
+CREATE POLICY "Users can view their own data exports"
+  ON public.data_export_jobs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own data exports"
+  ON public.data_export_jobs
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.data_export_jobs IS 'Personal data export jobs with progress and the resulting ZIP archive in the data_exports bucket';
+
+-- Private bucket for the archives, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('data_exports', 'data_exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read own data exports"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (bucket_id = 'data_exports' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete own data exports"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'data_exports' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Allow the "export ready" notification
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'comment', 'mention', 'follow', 'tag', 'share', 'data_export'));
@@ -0,0 +1,101 @@
+-- Call recordings
+-- A recording is posted into the direct conversation as a message; the call_history row links to it
+
+ALTER TABLE public.call_history
+ADD COLUMN IF NOT EXISTS recording_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS recording_url TEXT;
+
+COMMENT ON COLUMN public.call_history.recording_message_id IS 'Message in the direct conversation that carries the recording (NULL if never shared or deleted)';
+COMMENT ON COLUMN public.call_history.recording_url IS 'Public chat_media URL of the recording file';
+
+-- Link a shared recording to the call it was made in
+-- The call is logged when it ends, so it is the newest row between the pair created after recording began
+CREATE OR REPLACE FUNCTION public.attach_call_recording(
+  p_other_user_id UUID,
+  p_recording_started_at TIMESTAMPTZ,
+  p_message_id UUID,
+  p_recording_url TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_call_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = p_message_id AND sender_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Recording message not found';
+  END IF;
+
+  SELECT ch.id INTO v_call_id
+  FROM public.call_history ch
+  WHERE ((ch.caller_id = auth.uid() AND ch.receiver_id = p_other_user_id)
+      OR (ch.caller_id = p_other_user_id AND ch.receiver_id = auth.uid()))
+    AND ch.created_at >= p_recording_started_at
+    AND ch.recording_message_id IS NULL
+  ORDER BY ch.created_at ASC
+  LIMIT 1;
+
+  IF v_call_id IS NOT NULL THEN
+    UPDATE public.call_history
+    SET recording_message_id = p_message_id,
+        recording_url = p_recording_url
+    WHERE id = v_call_id;
+  END IF;
+
+  RETURN v_call_id;
+END;
+$$;
+
+-- Call history now includes the recording link
+DROP FUNCTION IF EXISTS public.get_call_history(uuid, integer);
+CREATE OR REPLACE FUNCTION public.get_call_history(
+  p_user_id UUID,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  other_user_id UUID,
+  other_user_username TEXT,
+  other_user_display_name TEXT,
+  other_user_profile_pic TEXT,
+  call_type TEXT,
+  status TEXT,
+  is_outgoing BOOLEAN,
+  started_at TIMESTAMPTZ,
+  duration_seconds INTEGER,
+  recording_url TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    ch.id,
+    CASE WHEN ch.caller_id = p_user_id THEN ch.receiver_id ELSE ch.caller_id END as other_user_id,
+    p.username as other_user_username,
+    p.display_name as other_user_display_name,
+    p.profile_pic as other_user_profile_pic,
+    ch.call_type,
+    ch.status,
+    (ch.caller_id = p_user_id) as is_outgoing,
+    ch.started_at,
+    ch.duration_seconds,
+    ch.recording_url
+  FROM public.call_history ch
+  JOIN public.profiles p ON p.id = CASE 
+    WHEN ch.caller_id = p_user_id THEN ch.receiver_id 
+    ELSE ch.caller_id 
+  END
+  WHERE ch.caller_id = p_user_id OR ch.receiver_id = p_user_id
+  ORDER BY ch.started_at DESC
+  LIMIT p_limit;
+END;
+$$;
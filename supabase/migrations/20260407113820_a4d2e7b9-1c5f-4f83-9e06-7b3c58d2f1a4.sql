@@ -0,0 +1,58 @@
+-- Live streaming on the lives table
+-- A live is active while ended_at is NULL and the broadcaster keeps heartbeat_at fresh
+-- (a closed tab never sets ended_at, so viewers rely on the heartbeat)
+
+ALTER TABLE public.lives
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+ADD COLUMN IF NOT EXISTS peak_viewers INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS replay_post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.lives.heartbeat_at IS 'Refreshed by the broadcaster every few seconds while streaming';
+COMMENT ON COLUMN public.lives.replay_post_id IS 'Post holding the saved replay, if the broadcaster kept one';
+
+CREATE INDEX IF NOT EXISTS idx_lives_active ON public.lives(heartbeat_at DESC) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_lives_user_id ON public.lives(user_id);
+
+-- Comments posted while a live is on air
+CREATE TABLE IF NOT EXISTS public.live_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  live_id UUID NOT NULL REFERENCES public.lives(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_live_comments_live_id ON public.live_comments(live_id, created_at);
+
+ALTER TABLE public.live_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Live comments are viewable by everyone" ON public.live_comments;
+CREATE POLICY "Live comments are viewable by everyone"
+  ON public.live_comments
+  FOR SELECT
+  USING (true);
+
+-- Only while the live is still on air
+DROP POLICY IF EXISTS "Users can comment on active lives" ON public.live_comments;
+CREATE POLICY "Users can comment on active lives"
+  ON public.live_comments
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.lives l WHERE l.id = live_id AND l.ended_at IS NULL)
+  );
+
+-- Authors and the broadcaster can remove comments
+DROP POLICY IF EXISTS "Authors and broadcasters can delete live comments" ON public.live_comments;
+CREATE POLICY "Authors and broadcasters can delete live comments"
+  ON public.live_comments
+  FOR DELETE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.lives l WHERE l.id = live_id AND l.user_id = auth.uid())
+  );
+
+COMMENT ON TABLE public.live_comments IS 'Chat messages sent during a live stream; reactions are broadcast only and not stored';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lives;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.live_comments;
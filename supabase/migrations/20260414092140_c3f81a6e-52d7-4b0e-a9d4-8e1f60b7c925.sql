@@ -0,0 +1,47 @@
+-- Decoded waveform peaks and beats on music_library
+-- Filled by the first editor that decodes a track, so later editors skip the decode
+
+ALTER TABLE public.music_library
+ADD COLUMN IF NOT EXISTS waveform_peaks JSONB,
+ADD COLUMN IF NOT EXISTS waveform_rate INTEGER,
+ADD COLUMN IF NOT EXISTS beat_times JSONB,
+ADD COLUMN IF NOT EXISTS bpm REAL;
+
+COMMENT ON COLUMN public.music_library.waveform_peaks IS 'Peaks (0-1) at waveform_rate per second, loudest is 1';
+COMMENT ON COLUMN public.music_library.beat_times IS 'Beat positions in seconds from the start of the track';
+
+-- Any signed-in editor may store an analysis, but only once per track
+-- (the update policy is creator-only, so this goes through a definer function)
+CREATE OR REPLACE FUNCTION public.save_music_analysis(
+  p_url TEXT,
+  p_peaks JSONB,
+  p_rate INTEGER,
+  p_beats JSONB,
+  p_bpm REAL DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_typeof(p_peaks) <> 'array' OR jsonb_typeof(p_beats) <> 'array' OR p_rate <= 0 THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.music_library
+  SET waveform_peaks = p_peaks,
+      waveform_rate = p_rate,
+      beat_times = p_beats,
+      bpm = p_bpm,
+      updated_at = now()
+  WHERE url = p_url
+    AND waveform_peaks IS NULL;
+
+  RETURN FOUND;
+END;
+$$;
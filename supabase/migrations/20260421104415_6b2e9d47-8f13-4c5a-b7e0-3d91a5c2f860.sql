@@ -0,0 +1,52 @@
+-- Create filter_luts table for .cube colour LUTs imported into the video editor filters panel
+CREATE TABLE IF NOT EXISTS public.filter_luts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  url TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  size INTEGER NOT NULL CHECK (size BETWEEN 2 AND 64),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_filter_luts_user_id ON public.filter_luts(user_id);
+
+-- Enable RLS
+ALTER TABLE public.filter_luts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own LUTs"
+  ON public.filter_luts
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own LUTs"
+  ON public.filter_luts
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own LUTs"
+  ON public.filter_luts
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.filter_luts IS 'Named 3D LUT presets; the .cube file lives in the filter_luts bucket';
+COMMENT ON COLUMN public.filter_luts.size IS 'Entries per axis (LUT_3D_SIZE)';
+
+-- Public bucket so projects and exports can fetch a LUT by URL, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('filter_luts', 'filter_luts', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can read filter LUTs"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'filter_luts');
+
+CREATE POLICY "Users can upload own filter LUTs"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'filter_luts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete own filter LUTs"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'filter_luts' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,67 @@
+-- Create editor_templates table for templates creators save from their own projects
+CREATE TABLE IF NOT EXISTS public.editor_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description TEXT CHECK (char_length(description) <= 300),
+  thumbnail_url TEXT,
+  duration REAL NOT NULL DEFAULT 0,
+  template_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  placeholder_count INTEGER NOT NULL DEFAULT 0,
+  is_public BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_editor_templates_user_id ON public.editor_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_editor_templates_public ON public.editor_templates(created_at DESC) WHERE is_public;
+
+-- Enable RLS
+ALTER TABLE public.editor_templates ENABLE ROW LEVEL SECURITY;
+
+-- Creators see their own templates; shared ones are visible to everyone signed in
+CREATE POLICY "Users can view own and public templates"
+  ON public.editor_templates
+  FOR SELECT
+  USING (auth.uid() = user_id OR is_public);
+
+CREATE POLICY "Users can create their own templates"
+  ON public.editor_templates
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own templates"
+  ON public.editor_templates
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates"
+  ON public.editor_templates
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_editor_templates_updated_at
+  BEFORE UPDATE ON public.editor_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.editor_templates IS 'User-made editor templates; template_data holds the layers and placeholder slots';
+
+-- Public bucket for template thumbnails, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('editor_templates', 'editor_templates', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view template thumbnails"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'editor_templates');
+
+CREATE POLICY "Users can upload own template thumbnails"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'editor_templates' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete own template thumbnails"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'editor_templates' AND auth.uid()::text = (storage.foldername(name))[1]);
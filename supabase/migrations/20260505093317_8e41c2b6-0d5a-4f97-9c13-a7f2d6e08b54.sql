@@ -0,0 +1,74 @@
+-- Project thumbnails for the projects page
+ALTER TABLE public.editor_projects
+  ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_editor_projects_owner_updated ON public.editor_projects(owner_id, updated_at DESC);
+
+-- Create editor_project_versions table for named and automatic checkpoints of a project
+CREATE TABLE IF NOT EXISTS public.editor_project_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.editor_projects(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT CHECK (char_length(name) <= 80),
+  is_auto BOOLEAN NOT NULL DEFAULT false,
+  summary TEXT,
+  project_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_editor_project_versions_project ON public.editor_project_versions(project_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.editor_project_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of their own projects"
+  ON public.editor_project_versions
+  FOR SELECT
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can create versions of their own projects"
+  ON public.editor_project_versions
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND EXISTS (
+      SELECT 1 FROM public.editor_projects p
+      WHERE p.id = project_id AND p.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can rename versions of their own projects"
+  ON public.editor_project_versions
+  FOR UPDATE
+  USING (auth.uid() = owner_id);
+
+CREATE POLICY "Users can delete versions of their own projects"
+  ON public.editor_project_versions
+  FOR DELETE
+  USING (auth.uid() = owner_id);
+
+COMMENT ON TABLE public.editor_project_versions IS 'Saved states of an editor project; is_auto marks checkpoints taken every few autosaves';
+
+-- Public bucket for project thumbnails, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('editor_thumbnails', 'editor_thumbnails', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view project thumbnails"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'editor_thumbnails');
+
+CREATE POLICY "Users can upload own project thumbnails"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'editor_thumbnails' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can replace own project thumbnails"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (bucket_id = 'editor_thumbnails' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete own project thumbnails"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'editor_thumbnails' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,177 @@
+-- Vanishing messages: messages sent while the mode is on carry an expiry that starts once they are seen
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS expires_in INTEGER,
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_messages_expires_at ON public.messages(expires_at) WHERE expires_at IS NOT NULL;
+
+COMMENT ON COLUMN public.messages.expires_in IS 'Seconds the message lives after it is first seen; set when sent in vanishing mode';
+COMMENT ON COLUMN public.messages.expires_at IS 'When the message is purged; set when a recipient first reads it';
+
+-- Stamp new messages with the conversation's vanishing duration
+CREATE OR REPLACE FUNCTION public.set_message_vanishing_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.is_system, false) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT cs.vanishing_messages_duration INTO NEW.expires_in
+  FROM conversation_settings cs
+  WHERE cs.conversation_id = NEW.conversation_id
+    AND cs.user_id = NEW.sender_id
+    AND cs.vanishing_messages_enabled;
+
+  NEW.expires_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_message_vanishing_expiry
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_message_vanishing_expiry();
+
+-- The clock starts at the first read by anyone other than the sender
+CREATE OR REPLACE FUNCTION public.start_message_vanishing_clock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE messages
+  SET expires_at = NEW.read_at + make_interval(secs => expires_in)
+  WHERE id = NEW.message_id
+    AND expires_in IS NOT NULL
+    AND expires_at IS NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER start_message_vanishing_clock
+  AFTER INSERT ON public.message_reads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.start_message_vanishing_clock();
+
+-- Human-readable duration for system messages, e.g. '5 minutes', '24 hours', '7 days'
+CREATE OR REPLACE FUNCTION public.format_vanishing_duration(p_seconds INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_seconds >= 172800 AND p_seconds % 86400 = 0 THEN (p_seconds / 86400) || ' days'
+    WHEN p_seconds % 3600 = 0 THEN (p_seconds / 3600) || CASE WHEN p_seconds = 3600 THEN ' hour' ELSE ' hours' END
+    ELSE GREATEST(p_seconds / 60, 1) || CASE WHEN p_seconds < 120 THEN ' minute' ELSE ' minutes' END
+  END;
+$$;
+
+-- Vanishing mode is shared: switching it sets every participant's settings and tells the conversation
+CREATE OR REPLACE FUNCTION public.set_vanishing_messages(
+  p_conversation_id UUID,
+  p_enabled BOOLEAN,
+  p_duration INTEGER DEFAULT 86400
+)
+RETURNS public.conversation_settings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_name TEXT;
+  v_result public.conversation_settings;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  IF p_duration IS NULL OR p_duration < 60 OR p_duration > 604800 THEN
+    RAISE EXCEPTION 'Vanishing duration must be between 1 minute and 7 days';
+  END IF;
+
+  INSERT INTO conversation_settings (conversation_id, user_id, vanishing_messages_enabled, vanishing_messages_duration)
+  SELECT p_conversation_id, cp.user_id, p_enabled, p_duration
+  FROM conversation_participants cp
+  WHERE cp.conversation_id = p_conversation_id
+  ON CONFLICT (conversation_id, user_id) DO UPDATE
+  SET vanishing_messages_enabled = EXCLUDED.vanishing_messages_enabled,
+      vanishing_messages_duration = EXCLUDED.vanishing_messages_duration,
+      updated_at = now();
+
+  SELECT COALESCE(display_name, username, 'Someone') INTO v_name FROM profiles WHERE id = v_user_id;
+
+  INSERT INTO messages (conversation_id, sender_id, content, is_system, message_type)
+  VALUES (
+    p_conversation_id,
+    v_user_id,
+    CASE WHEN p_enabled
+      THEN v_name || ' turned on vanishing messages. New messages will disappear ' || format_vanishing_duration(p_duration) || ' after they''re seen.'
+      ELSE v_name || ' turned off vanishing messages.'
+    END,
+    true,
+    'text'
+  );
+
+  SELECT * INTO v_result FROM conversation_settings
+  WHERE conversation_id = p_conversation_id AND user_id = v_user_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Copying or forwarding a vanishing message is announced to the conversation
+CREATE OR REPLACE FUNCTION public.report_vanishing_message_action(
+  p_message_id UUID,
+  p_action TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_conversation_id UUID;
+  v_name TEXT;
+BEGIN
+  IF p_action NOT IN ('copy', 'forward') THEN
+    RAISE EXCEPTION 'Unknown action %', p_action;
+  END IF;
+
+  SELECT m.conversation_id INTO v_conversation_id
+  FROM messages m
+  JOIN conversation_participants cp ON cp.conversation_id = m.conversation_id AND cp.user_id = v_user_id
+  WHERE m.id = p_message_id
+    AND m.expires_in IS NOT NULL;
+
+  IF v_conversation_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(display_name, username, 'Someone') INTO v_name FROM profiles WHERE id = v_user_id;
+
+  INSERT INTO messages (conversation_id, sender_id, content, is_system, message_type)
+  VALUES (
+    v_conversation_id,
+    v_user_id,
+    CASE p_action
+      WHEN 'copy' THEN v_name || ' copied a vanishing message.'
+      ELSE v_name || ' tried to forward a vanishing message.'
+    END,
+    true,
+    'text'
+  );
+END;
+$$;
+
+-- Settings changes reach the other participants' open chats
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_settings;
@@ -0,0 +1,105 @@
+-- Message search: full-text index over message text and attachment file names
+-- Encrypted direct messages have no server-side content, so only their file names are indexed
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS attachment_name TEXT;
+
+COMMENT ON COLUMN public.messages.attachment_name IS 'Original file name of the attachment, as picked by the sender';
+
+-- Punctuation splits words on both sides of the match, so "example.com" or "q3-report.pdf"
+-- are indexed and queried as separate words
+CREATE OR REPLACE FUNCTION public.message_search_text(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(COALESCE(p_text, ''), '[^[:alnum:]]+', ' ', 'g'));
+$$;
+
+-- Older messages have no attachment_name; fall back to the last segment of the URL
+CREATE OR REPLACE FUNCTION public.message_attachment_name(p_url TEXT, p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_name, NULLIF(regexp_replace(split_part(COALESCE(p_url, ''), '?', 1), '^.*/', ''), ''));
+$$;
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', public.message_search_text(content)), 'A') ||
+    setweight(to_tsvector('simple', public.message_search_text(public.message_attachment_name(attachment_url, attachment_name))), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON public.messages USING GIN (search_vector);
+
+-- Every word of the query must prefix a word of the message, so results update as the user types
+CREATE OR REPLACE FUNCTION public.message_search_query(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+  FROM regexp_split_to_table(trim(public.message_search_text(p_query)), '\s+') AS term
+  WHERE term <> '';
+$$;
+
+-- Newest matches first, across every conversation the caller is in or within one of them
+CREATE OR REPLACE FUNCTION public.search_messages(
+  p_query TEXT,
+  p_conversation_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  conversation_id UUID,
+  conversation_type TEXT,
+  sender_id UUID,
+  sender_username TEXT,
+  sender_display_name TEXT,
+  sender_profile_pic TEXT,
+  content TEXT,
+  is_encrypted BOOLEAN,
+  attachment_url TEXT,
+  attachment_name TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query tsquery := message_search_query(p_query);
+BEGIN
+  IF v_query IS NULL OR auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.type::TEXT,
+    m.sender_id,
+    p.username::TEXT,
+    p.display_name::TEXT,
+    p.profile_pic::TEXT,
+    CASE WHEN m.is_encrypted THEN NULL ELSE m.content END::TEXT,
+    COALESCE(m.is_encrypted, false),
+    m.attachment_url::TEXT,
+    message_attachment_name(m.attachment_url, m.attachment_name),
+    m.created_at
+  FROM messages m
+  JOIN conversation_participants cp ON cp.conversation_id = m.conversation_id AND cp.user_id = auth.uid()
+  JOIN conversations c ON c.id = m.conversation_id
+  LEFT JOIN profiles p ON p.id = m.sender_id
+  WHERE m.search_vector @@ v_query
+    AND (p_conversation_id IS NULL OR m.conversation_id = p_conversation_id)
+    AND NOT COALESCE(m.is_system, false)
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+  ORDER BY m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
@@ -0,0 +1,152 @@
+-- Message editing and unsend: senders can fix text for a short while and take messages back for everyone
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS unsent_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.messages.edited_at IS 'When the text was last edited; earlier revisions are in message_edits';
+COMMENT ON COLUMN public.messages.unsent_at IS 'When the sender unsent the message; its content is replaced by a system notice';
+
+-- Previous revisions of edited messages, newest last. Encrypted revisions keep their envelope
+CREATE TABLE public.message_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  content TEXT,
+  is_encrypted BOOLEAN NOT NULL DEFAULT false,
+  e2e_envelope JSONB,
+  created_at TIMESTAMPTZ NOT NULL, -- when this revision was written
+  replaced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_edits_message ON public.message_edits(message_id, replaced_at);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by edit_message() only
+CREATE POLICY "Users can view edit history in their conversations"
+  ON public.message_edits FOR SELECT
+  USING (public.is_conversation_participant(conversation_id));
+
+-- Replace the text of one of the caller's messages within 15 minutes of sending it.
+-- Direct messages arrive re-encrypted by the client, so the envelope is stored as given
+CREATE OR REPLACE FUNCTION public.edit_message(
+  p_message_id UUID,
+  p_content TEXT,
+  p_is_encrypted BOOLEAN DEFAULT false,
+  p_e2e_envelope JSONB DEFAULT NULL
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_edited_at TIMESTAMPTZ := now();
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND OR v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only edit your own messages';
+  END IF;
+
+  IF COALESCE(v_message.is_system, false) OR v_message.unsent_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This message can no longer be edited';
+  END IF;
+
+  IF v_message.created_at < now() - INTERVAL '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending';
+  END IF;
+
+  IF v_message.content IS NULL AND NOT v_message.is_encrypted THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF p_is_encrypted AND p_e2e_envelope IS NULL THEN
+    RAISE EXCEPTION 'Encrypted edits need an envelope';
+  END IF;
+
+  IF NOT p_is_encrypted AND (p_content IS NULL OR length(trim(p_content)) = 0) THEN
+    RAISE EXCEPTION 'Message text cannot be empty';
+  END IF;
+
+  INSERT INTO message_edits (message_id, conversation_id, sender_id, content, is_encrypted, e2e_envelope, created_at, replaced_at)
+  VALUES (
+    v_message.id,
+    v_message.conversation_id,
+    v_message.sender_id,
+    v_message.content,
+    v_message.is_encrypted,
+    v_message.e2e_envelope,
+    COALESCE(v_message.edited_at, v_message.created_at),
+    v_edited_at
+  );
+
+  UPDATE messages
+  SET content = CASE WHEN p_is_encrypted THEN NULL ELSE p_content END,
+      is_encrypted = p_is_encrypted,
+      e2e_envelope = CASE WHEN p_is_encrypted THEN p_e2e_envelope ELSE NULL END,
+      edited_at = v_edited_at
+  WHERE id = p_message_id;
+
+  RETURN v_edited_at;
+END;
+$$;
+
+-- Take one of the caller's messages back for everyone: the content, attachments, edit history
+-- and pins go, and the row stays behind as a system notice so replies still point somewhere.
+-- With audio_path cleared, the message_audios policy no longer serves the voice note to the other side
+CREATE OR REPLACE FUNCTION public.unsend_message(p_message_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_name TEXT;
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND OR v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only unsend your own messages';
+  END IF;
+
+  IF COALESCE(v_message.is_system, false) THEN
+    RAISE EXCEPTION 'This message can''t be unsent';
+  END IF;
+
+  SELECT COALESCE(display_name, username, 'Someone') INTO v_name FROM profiles WHERE id = v_message.sender_id;
+
+  DELETE FROM message_edits WHERE message_id = p_message_id;
+  DELETE FROM pinned_messages WHERE message_id = p_message_id;
+
+  UPDATE messages
+  SET content = v_name || ' unsent a message.',
+      is_system = true,
+      is_encrypted = false,
+      e2e_envelope = NULL,
+      attachment_url = NULL,
+      attachment_name = NULL,
+      image_url = NULL,
+      media_url = NULL,
+      is_image = false,
+      gif_id = NULL,
+      gif_url = NULL,
+      is_gif = false,
+      sticker_id = NULL,
+      sticker_url = NULL,
+      sticker_set = NULL,
+      is_sticker = false,
+      audio_url = NULL,
+      audio_path = NULL,
+      audio_duration = NULL,
+      audio_mime = NULL,
+      audio_size = NULL,
+      message_type = 'text',
+      edited_at = NULL,
+      unsent_at = now()
+  WHERE id = p_message_id;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Activity status for messaging: when people were last active, behind a privacy setting.
+-- Live "online" and "typing" state travels over realtime presence; only the last-active time is stored
+CREATE TABLE public.user_presence (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_active_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_presence ENABLE ROW LEVEL SECURITY;
+
+-- Others read last-active times through get_last_active(), which applies the privacy setting
+CREATE POLICY "Users can view their own presence"
+  ON public.user_presence FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Activity status is on unless privacy_settings has activity_status = 'false'
+CREATE OR REPLACE FUNCTION public.shows_activity_status(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM privacy_settings
+    WHERE user_id = p_user_id
+      AND setting_name = 'activity_status'
+      AND setting_value = 'false'
+  );
+$$;
+
+-- Heartbeat from the app while the caller has it open
+CREATE OR REPLACE FUNCTION public.touch_last_active()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO user_presence (user_id, last_active_at)
+  VALUES (auth.uid(), now())
+  ON CONFLICT (user_id) DO UPDATE SET last_active_at = EXCLUDED.last_active_at;
+END;
+$$;
+
+-- Anything logged to user_activity (posts, comments, follows...) counts as being active too
+CREATE OR REPLACE FUNCTION public.user_activity_touch_presence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO user_presence (user_id, last_active_at)
+  VALUES (NEW.user_id, NEW.created_at)
+  ON CONFLICT (user_id) DO UPDATE
+    SET last_active_at = GREATEST(user_presence.last_active_at, EXCLUDED.last_active_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER user_activity_touch_presence
+  AFTER INSERT ON public.user_activity
+  FOR EACH ROW EXECUTE FUNCTION public.user_activity_touch_presence();
+
+-- Last-active times of people the caller shares a conversation with. Like the online dot it is
+-- reciprocal: nothing comes back for people who hide their status, or at all if the caller hides theirs
+CREATE OR REPLACE FUNCTION public.get_last_active(p_user_ids UUID[])
+RETURNS TABLE (user_id UUID, last_active_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT up.user_id, up.last_active_at
+  FROM user_presence up
+  WHERE up.user_id = ANY(p_user_ids)
+    AND up.user_id <> auth.uid()
+    AND public.shows_activity_status(auth.uid())
+    AND public.shows_activity_status(up.user_id)
+    AND EXISTS (
+      SELECT 1
+      FROM conversation_participants mine
+      JOIN conversation_participants theirs ON theirs.conversation_id = mine.conversation_id
+      WHERE mine.user_id = auth.uid()
+        AND theirs.user_id = up.user_id
+    );
+$$;
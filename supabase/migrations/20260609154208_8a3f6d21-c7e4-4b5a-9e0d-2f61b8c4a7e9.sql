@@ -0,0 +1,290 @@
+-- Threaded replies in group chats: replies hang off a root message and are read in a side panel,
+-- with per-thread unread counts from message_reads and notifications for thread participants only
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS thread_reply_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS thread_last_reply_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.messages.thread_id IS 'Root message of the thread this reply belongs to; thread replies stay out of the main chat';
+COMMENT ON COLUMN public.messages.thread_reply_count IS 'Replies in the thread rooted on this message, kept by refresh_thread_counters()';
+
+CREATE INDEX IF NOT EXISTS idx_messages_thread ON public.messages(thread_id, created_at) WHERE thread_id IS NOT NULL;
+
+-- Thread notifications link back to the conversation and the thread's root message
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'comment', 'mention', 'follow', 'tag', 'share', 'data_export', 'thread_reply'));
+
+-- The root's sender and everyone who replied (unsent replies don't count)
+CREATE OR REPLACE FUNCTION public.thread_participant_ids(p_thread_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT sender_id FROM messages WHERE id = p_thread_id
+  UNION
+  SELECT sender_id FROM messages WHERE thread_id = p_thread_id AND NOT COALESCE(is_system, false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_thread_counters(p_thread_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE messages
+  SET thread_reply_count = (SELECT COUNT(*) FROM messages r WHERE r.thread_id = p_thread_id),
+      thread_last_reply_at = (SELECT MAX(r.created_at) FROM messages r WHERE r.thread_id = p_thread_id)
+  WHERE id = p_thread_id;
+$$;
+
+-- Threads live in group chats, one level deep, on a regular message of the same conversation
+CREATE OR REPLACE FUNCTION public.messages_validate_thread_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_root messages%ROWTYPE;
+BEGIN
+  IF NEW.thread_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_root FROM messages WHERE id = NEW.thread_id;
+
+  IF NOT FOUND OR v_root.conversation_id <> NEW.conversation_id THEN
+    RAISE EXCEPTION 'Thread not found in this conversation';
+  END IF;
+
+  IF v_root.thread_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Threads can''t be nested';
+  END IF;
+
+  IF COALESCE(v_root.is_system, false) THEN
+    RAISE EXCEPTION 'This message can''t have a thread';
+  END IF;
+
+  IF (SELECT type FROM conversations WHERE id = NEW.conversation_id) <> 'group' THEN
+    RAISE EXCEPTION 'Threads are only available in group chats';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_validate_thread_reply
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.messages_validate_thread_reply();
+
+-- Keep the root's counters current and tell the other thread participants. Nobody else in the
+-- group is notified, and people who have left the conversation are skipped
+CREATE OR REPLACE FUNCTION public.messages_after_thread_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.thread_id IS NOT NULL THEN
+      PERFORM refresh_thread_counters(OLD.thread_id);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.thread_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM refresh_thread_counters(NEW.thread_id);
+
+  SELECT COALESCE(display_name, username, 'Someone') INTO v_name FROM profiles WHERE id = NEW.sender_id;
+
+  INSERT INTO notifications (user_id, actor_id, type, message, conversation_id, message_id)
+  SELECT tp.user_id, NEW.sender_id, 'thread_reply', v_name || ' replied to a thread you''re in', NEW.conversation_id, NEW.thread_id
+  FROM thread_participant_ids(NEW.thread_id) AS tp(user_id)
+  WHERE tp.user_id <> NEW.sender_id
+    AND is_conversation_participant(NEW.conversation_id, tp.user_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_after_thread_reply
+  AFTER INSERT OR DELETE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.messages_after_thread_reply();
+
+-- Unread replies per thread, for threads the caller takes part in
+CREATE OR REPLACE FUNCTION public.get_thread_unread_counts(p_conversation_id UUID)
+RETURNS TABLE (thread_id UUID, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.thread_id, COUNT(*)
+  FROM messages m
+  WHERE m.conversation_id = p_conversation_id
+    AND public.is_conversation_participant(p_conversation_id)
+    AND m.thread_id IS NOT NULL
+    AND m.sender_id <> auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM message_reads mr
+      WHERE mr.message_id = m.id AND mr.user_id = auth.uid()
+    )
+    AND auth.uid() IN (SELECT public.thread_participant_ids(m.thread_id))
+  GROUP BY m.thread_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_thread_read(p_thread_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  SELECT conversation_id INTO v_conversation_id FROM messages WHERE id = p_thread_id;
+
+  IF NOT FOUND OR NOT is_conversation_participant(v_conversation_id) THEN
+    RAISE EXCEPTION 'Unauthorized: You are not a participant in this conversation';
+  END IF;
+
+  INSERT INTO message_reads (message_id, user_id)
+  SELECT m.id, auth.uid()
+  FROM messages m
+  WHERE m.thread_id = p_thread_id
+    AND m.sender_id <> auth.uid()
+  ON CONFLICT (message_id, user_id) DO NOTHING;
+END;
+$$;
+
+-- Thread replies are read in their thread, so opening the chat leaves them unread
+CREATE OR REPLACE FUNCTION mark_messages_read(p_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_user uuid;
+BEGIN
+  v_current_user := auth.uid();
+
+  -- Verify user is participant in conversation
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants cp
+    WHERE cp.conversation_id = p_conversation_id
+      AND cp.user_id = v_current_user
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized: You are not a participant in this conversation';
+  END IF;
+
+  -- Insert read records for all unread messages in this conversation
+  INSERT INTO message_reads (message_id, user_id)
+  SELECT m.id, v_current_user
+  FROM messages m
+  WHERE m.conversation_id = p_conversation_id
+    AND m.thread_id IS NULL
+    AND m.sender_id != v_current_user -- Don't mark own messages as read
+    AND NOT EXISTS (
+      SELECT 1 FROM message_reads mr
+      WHERE mr.message_id = m.id AND mr.user_id = v_current_user
+    )
+  ON CONFLICT (message_id, user_id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_unread_count(p_conversation_id uuid, p_user_id uuid DEFAULT auth.uid())
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  SELECT COUNT(*)::integer INTO v_count
+  FROM messages m
+  WHERE m.conversation_id = p_conversation_id
+    AND m.thread_id IS NULL
+    AND m.sender_id != p_user_id -- Don't count own messages
+    AND NOT EXISTS (
+      SELECT 1 FROM message_reads mr
+      WHERE mr.message_id = m.id AND mr.user_id = p_user_id
+    );
+
+  RETURN COALESCE(v_count, 0);
+END;
+$$;
+
+-- The conversation list previews and counts the main chat only
+CREATE OR REPLACE FUNCTION get_conversations_with_info(p_user_id uuid DEFAULT auth.uid())
+RETURNS TABLE (
+  conversation_id uuid,
+  type text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  other_user_id uuid,
+  other_user_username text,
+  other_user_display_name text,
+  other_user_profile_pic text,
+  last_message_content text,
+  last_message_created_at timestamptz,
+  unread_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id as conversation_id,
+    c.type,
+    c.created_at,
+    c.updated_at,
+    other_participant.user_id as other_user_id,
+    p.username as other_user_username,
+    p.display_name as other_user_display_name,
+    p.profile_pic as other_user_profile_pic,
+    last_msg.content as last_message_content,
+    last_msg.created_at as last_message_created_at,
+    COALESCE(unread.count, 0) as unread_count
+  FROM conversations c
+  JOIN conversation_participants my_participation ON my_participation.conversation_id = c.id AND my_participation.user_id = p_user_id
+  JOIN conversation_participants other_participant ON other_participant.conversation_id = c.id AND other_participant.user_id != p_user_id
+  JOIN profiles p ON p.id = other_participant.user_id
+  LEFT JOIN LATERAL (
+    SELECT CASE WHEN m.is_encrypted THEN '🔒 Encrypted message' ELSE m.content END as content, m.created_at
+    FROM messages m
+    WHERE m.conversation_id = c.id
+      AND m.thread_id IS NULL
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_msg ON true
+  LEFT JOIN LATERAL (
+    SELECT COUNT(*) as count
+    FROM messages m
+    WHERE m.conversation_id = c.id
+      AND m.thread_id IS NULL
+      AND m.sender_id != p_user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM message_reads mr
+        WHERE mr.message_id = m.id AND mr.user_id = p_user_id
+      )
+  ) unread ON true
+  ORDER BY GREATEST(c.updated_at, last_msg.created_at) DESC NULLS LAST;
+END;
+$$;
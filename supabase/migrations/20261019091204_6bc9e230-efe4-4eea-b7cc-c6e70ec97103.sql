@@ -0,0 +1,139 @@
+-- Call recordings move to a private bucket and are served through signed URLs.
+-- The message and the call_history row keep the storage path, not a public link,
+-- and call history is only ever listed for the signed-in user
+
+ALTER TABLE public.messages
+ADD COLUMN IF NOT EXISTS recording_path TEXT;
+
+COMMENT ON COLUMN public.messages.recording_path IS 'Object in the private call_recordings bucket, played through a signed URL';
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('call_recordings', 'call_recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own call recordings"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'call_recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- The recorder, and the participants of a conversation the recording was shared into
+CREATE POLICY "Users can read call recordings from their conversations"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'call_recordings'
+  AND (
+    auth.uid()::text = (storage.foldername(name))[1]
+    OR EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.conversation_participants cp ON cp.conversation_id = m.conversation_id
+      WHERE m.recording_path = name
+        AND cp.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can delete own call recordings"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (bucket_id = 'call_recordings' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+ALTER TABLE public.call_history
+DROP COLUMN IF EXISTS recording_url,
+ADD COLUMN IF NOT EXISTS recording_path TEXT;
+
+COMMENT ON COLUMN public.call_history.recording_path IS 'Object in the private call_recordings bucket';
+
+-- The path is taken from the caller's own recording message
+DROP FUNCTION IF EXISTS public.attach_call_recording(uuid, timestamptz, uuid, text);
+CREATE OR REPLACE FUNCTION public.attach_call_recording(
+  p_other_user_id UUID,
+  p_recording_started_at TIMESTAMPTZ,
+  p_message_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_call_id UUID;
+  v_recording_path TEXT;
+BEGIN
+  SELECT recording_path INTO v_recording_path
+  FROM public.messages
+  WHERE id = p_message_id AND sender_id = auth.uid() AND recording_path IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recording message not found';
+  END IF;
+
+  SELECT ch.id INTO v_call_id
+  FROM public.call_history ch
+  WHERE ((ch.caller_id = auth.uid() AND ch.receiver_id = p_other_user_id)
+      OR (ch.caller_id = p_other_user_id AND ch.receiver_id = auth.uid()))
+    AND ch.created_at >= p_recording_started_at
+    AND ch.recording_message_id IS NULL
+  ORDER BY ch.created_at ASC
+  LIMIT 1;
+
+  IF v_call_id IS NOT NULL THEN
+    UPDATE public.call_history
+    SET recording_message_id = p_message_id,
+        recording_path = v_recording_path
+    WHERE id = v_call_id;
+  END IF;
+
+  RETURN v_call_id;
+END;
+$$;
+
+-- No user parameter: the caller's own history only
+DROP FUNCTION IF EXISTS public.get_call_history(uuid, integer);
+CREATE OR REPLACE FUNCTION public.get_call_history(
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  other_user_id UUID,
+  other_user_username TEXT,
+  other_user_display_name TEXT,
+  other_user_profile_pic TEXT,
+  call_type TEXT,
+  status TEXT,
+  is_outgoing BOOLEAN,
+  started_at TIMESTAMPTZ,
+  duration_seconds INTEGER,
+  recording_path TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  RETURN QUERY
+  SELECT
+    ch.id,
+    CASE WHEN ch.caller_id = v_user_id THEN ch.receiver_id ELSE ch.caller_id END as other_user_id,
+    p.username as other_user_username,
+    p.display_name as other_user_display_name,
+    p.profile_pic as other_user_profile_pic,
+    ch.call_type,
+    ch.status,
+    (ch.caller_id = v_user_id) as is_outgoing,
+    ch.started_at,
+    ch.duration_seconds,
+    ch.recording_path
+  FROM public.call_history ch
+  JOIN public.profiles p ON p.id = CASE
+    WHEN ch.caller_id = v_user_id THEN ch.receiver_id
+    ELSE ch.caller_id
+  END
+  WHERE ch.caller_id = v_user_id OR ch.receiver_id = v_user_id
+  ORDER BY ch.started_at DESC
+  LIMIT p_limit;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Online status comes from get_last_active() alone, so it is scoped to shared conversations and the
+-- privacy setting is applied on the server. The remaining realtime presence - the per-conversation
+-- typing channel - is private: only participants of the conversation can join it or read it
+CREATE POLICY "Participants can read conversation presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND realtime.topic() LIKE 'conversation-presence:%'
+    AND public.is_conversation_participant(split_part(realtime.topic(), ':', 2)::uuid)
+  );
+
+CREATE POLICY "Participants can track conversation presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND realtime.topic() LIKE 'conversation-presence:%'
+    AND public.is_conversation_participant(split_part(realtime.topic(), ':', 2)::uuid)
+  );
@@ -0,0 +1,27 @@
+-- A rendered export only matches the project it was rendered from. Saving different content
+-- clears output_url so publishing falls back to the source clip instead of posting a stale render.
+-- Publish settings and the draft post id live in project_json too but don't change the render
+
+CREATE OR REPLACE FUNCTION public.editor_projects_clear_stale_output()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.output_url IS NOT NULL
+    AND NEW.output_url IS NOT DISTINCT FROM OLD.output_url
+    AND (NEW.project_json - 'publishSettings' - 'draftPostId')
+      IS DISTINCT FROM (OLD.project_json - 'publishSettings' - 'draftPostId')
+  THEN
+    NEW.output_url := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS editor_projects_clear_stale_output ON public.editor_projects;
+CREATE TRIGGER editor_projects_clear_stale_output
+  BEFORE UPDATE OF project_json ON public.editor_projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.editor_projects_clear_stale_output();
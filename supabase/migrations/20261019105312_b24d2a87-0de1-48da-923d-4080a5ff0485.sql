@@ -0,0 +1,194 @@
+-- Unsending also removes the files the message carried. The database can't delete storage objects
+-- itself, so unsend_message() returns the sender's objects no other message still points at
+-- (a forwarded copy reuses the URL) and the client removes them through the storage API.
+-- Edits can't switch a message between encrypted and plain text
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'objects'
+      AND schemaname = 'storage'
+      AND policyname = 'Users can delete own chat media'
+  ) THEN
+    CREATE POLICY "Users can delete own chat media"
+    ON storage.objects FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'chat_media' AND auth.uid()::text = (storage.foldername(name))[1]);
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'objects'
+      AND schemaname = 'storage'
+      AND policyname = 'Users can delete own audio files'
+  ) THEN
+    CREATE POLICY "Users can delete own audio files"
+    ON storage.objects FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'message_audios' AND auth.uid()::text = (storage.foldername(name))[1]);
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.edit_message(
+  p_message_id UUID,
+  p_content TEXT,
+  p_is_encrypted BOOLEAN DEFAULT false,
+  p_e2e_envelope JSONB DEFAULT NULL
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_edited_at TIMESTAMPTZ := now();
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND OR v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only edit your own messages';
+  END IF;
+
+  IF COALESCE(v_message.is_system, false) OR v_message.unsent_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This message can no longer be edited';
+  END IF;
+
+  IF v_message.created_at < now() - INTERVAL '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending';
+  END IF;
+
+  IF v_message.content IS NULL AND NOT v_message.is_encrypted THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  -- An encrypted message edited into plain text would leave its new text readable on the server
+  IF COALESCE(p_is_encrypted, false) <> COALESCE(v_message.is_encrypted, false) THEN
+    RAISE EXCEPTION 'An edit can''t change whether a message is encrypted';
+  END IF;
+
+  IF p_is_encrypted AND p_e2e_envelope IS NULL THEN
+    RAISE EXCEPTION 'Encrypted edits need an envelope';
+  END IF;
+
+  IF NOT p_is_encrypted AND (p_content IS NULL OR length(trim(p_content)) = 0) THEN
+    RAISE EXCEPTION 'Message text cannot be empty';
+  END IF;
+
+  INSERT INTO message_edits (message_id, conversation_id, sender_id, content, is_encrypted, e2e_envelope, created_at, replaced_at)
+  VALUES (
+    v_message.id,
+    v_message.conversation_id,
+    v_message.sender_id,
+    v_message.content,
+    v_message.is_encrypted,
+    v_message.e2e_envelope,
+    COALESCE(v_message.edited_at, v_message.created_at),
+    v_edited_at
+  );
+
+  UPDATE messages
+  SET content = CASE WHEN p_is_encrypted THEN NULL ELSE p_content END,
+      is_encrypted = p_is_encrypted,
+      e2e_envelope = CASE WHEN p_is_encrypted THEN p_e2e_envelope ELSE NULL END,
+      edited_at = v_edited_at
+  WHERE id = p_message_id;
+
+  RETURN v_edited_at;
+END;
+$$;
+
+-- Returns the storage objects to remove now that nothing points at them
+DROP FUNCTION IF EXISTS public.unsend_message(uuid);
+CREATE OR REPLACE FUNCTION public.unsend_message(p_message_id UUID)
+RETURNS TABLE(bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_name TEXT;
+  v_media_urls TEXT[];
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND OR v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only unsend your own messages';
+  END IF;
+
+  IF COALESCE(v_message.is_system, false) THEN
+    RAISE EXCEPTION 'This message can''t be unsent';
+  END IF;
+
+  SELECT COALESCE(display_name, username, 'Someone') INTO v_name FROM profiles WHERE id = v_message.sender_id;
+
+  DELETE FROM message_edits WHERE message_id = p_message_id;
+  DELETE FROM pinned_messages WHERE message_id = p_message_id;
+
+  UPDATE call_history
+  SET recording_path = NULL
+  WHERE recording_message_id = p_message_id;
+
+  UPDATE messages
+  SET content = v_name || ' unsent a message.',
+      is_system = true,
+      is_encrypted = false,
+      e2e_envelope = NULL,
+      attachment_url = NULL,
+      attachment_name = NULL,
+      image_url = NULL,
+      media_url = NULL,
+      is_image = false,
+      gif_id = NULL,
+      gif_url = NULL,
+      is_gif = false,
+      sticker_id = NULL,
+      sticker_url = NULL,
+      sticker_set = NULL,
+      is_sticker = false,
+      audio_url = NULL,
+      audio_path = NULL,
+      audio_duration = NULL,
+      audio_mime = NULL,
+      audio_size = NULL,
+      recording_path = NULL,
+      message_type = 'text',
+      edited_at = NULL,
+      unsent_at = now()
+  WHERE id = p_message_id;
+
+  v_media_urls := ARRAY(
+    SELECT DISTINCT url
+    FROM unnest(ARRAY[v_message.image_url, v_message.media_url, v_message.attachment_url]) AS url
+    WHERE url IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.image_url = url OR m.media_url = url OR m.attachment_url = url
+      )
+  );
+
+  -- Only the sender's own uploads: a forwarded file belongs to whoever sent it first
+  RETURN QUERY
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE (storage.foldername(o.name))[1] = v_message.sender_id::text
+    AND (
+      (o.bucket_id = 'chat_media'
+        AND o.name IN (
+          SELECT substring(url FROM '/storage/v1/object/public/chat_media/([^?#]+)')
+          FROM unnest(v_media_urls) AS url
+        ))
+      OR (o.bucket_id = 'message_audios'
+        AND o.name = v_message.audio_path
+        AND NOT EXISTS (SELECT 1 FROM messages m WHERE m.audio_path = o.name))
+      OR (o.bucket_id = 'call_recordings'
+        AND o.name = v_message.recording_path
+        AND NOT EXISTS (SELECT 1 FROM messages m WHERE m.recording_path = o.name))
+    );
+END;
+$$;
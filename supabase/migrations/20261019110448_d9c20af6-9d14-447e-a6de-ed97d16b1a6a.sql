@@ -0,0 +1,86 @@
+-- Stored music analyses are shared by every editor using the track, so save_music_analysis()
+-- checks what it stores: peaks are 0-1 and cover the track's duration at the given rate, and beats
+-- fall inside the track. Anyone may fill a missing analysis; only the track's creator or an admin
+-- (the service role) may replace one
+
+CREATE OR REPLACE FUNCTION public.save_music_analysis(
+  p_url TEXT,
+  p_peaks JSONB,
+  p_rate INTEGER,
+  p_beats JSONB,
+  p_bpm REAL DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_track music_library%ROWTYPE;
+  v_peak_count INTEGER;
+  v_seconds NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() <> 'service_role' THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_typeof(p_peaks) <> 'array' OR jsonb_typeof(p_beats) <> 'array' THEN
+    RETURN false;
+  END IF;
+
+  IF p_rate IS NULL OR p_rate NOT BETWEEN 1 AND 200 THEN
+    RETURN false;
+  END IF;
+
+  IF p_bpm IS NOT NULL AND p_bpm NOT BETWEEN 20 AND 400 THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_track FROM music_library WHERE url = p_url FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF v_track.waveform_peaks IS NOT NULL
+    AND auth.role() <> 'service_role'
+    AND v_track.created_by IS DISTINCT FROM auth.uid()
+  THEN
+    RETURN false;
+  END IF;
+
+  -- At most an hour of audio; a track with a known duration must match it to within two seconds
+  v_peak_count := jsonb_array_length(p_peaks);
+  v_seconds := v_peak_count::NUMERIC / p_rate;
+  IF v_peak_count = 0 OR v_seconds > 3600 THEN
+    RETURN false;
+  END IF;
+  IF COALESCE(v_track.duration, 0) > 0 AND abs(v_seconds - v_track.duration) > 2 THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_peaks) AS peak
+    WHERE jsonb_typeof(peak) <> 'number' OR (peak #>> '{}')::NUMERIC NOT BETWEEN 0 AND 1
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- No faster than 10 beats a second
+  IF jsonb_array_length(p_beats) > v_seconds * 10 OR EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_beats) AS beat
+    WHERE jsonb_typeof(beat) <> 'number' OR (beat #>> '{}')::NUMERIC NOT BETWEEN 0 AND v_seconds
+  ) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.music_library
+  SET waveform_peaks = p_peaks,
+      waveform_rate = p_rate,
+      beat_times = p_beats,
+      bpm = p_bpm,
+      updated_at = now()
+  WHERE id = v_track.id;
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,40 @@
+-- recording_path decides who can read a call recording (participants of the message's conversation),
+-- so a message may only point at a recording its sender uploaded: one in the sender's own folder
+-- of the call_recordings bucket that exists. Anything else would share another user's recording
+
+CREATE OR REPLACE FUNCTION public.messages_check_recording_path()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.recording_path IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.recording_path IS NOT DISTINCT FROM OLD.recording_path
+    AND NEW.sender_id = OLD.sender_id
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF (storage.foldername(NEW.recording_path))[1] IS DISTINCT FROM NEW.sender_id::text
+    OR NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'call_recordings' AND o.name = NEW.recording_path
+    )
+  THEN
+    RAISE EXCEPTION 'Recording not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_check_recording_path ON public.messages;
+CREATE TRIGGER messages_check_recording_path
+  BEFORE INSERT OR UPDATE OF recording_path, sender_id ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.messages_check_recording_path();
@@ -0,0 +1,32 @@
+-- Direct messages are end-to-end encrypted, so the server refuses plaintext text in a dm conversation
+-- whichever client sent it. System notices (unsent, vanishing mode...) are written by the server
+-- and stay readable; existing plaintext rows are left alone unless their text changes
+
+CREATE OR REPLACE FUNCTION public.messages_require_dm_encryption()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NULL OR COALESCE(NEW.is_encrypted, false) OR COALESCE(NEW.is_system, false) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM conversations WHERE id = NEW.conversation_id AND type = 'dm') THEN
+    RAISE EXCEPTION 'Direct messages must be encrypted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_require_dm_encryption ON public.messages;
+CREATE TRIGGER messages_require_dm_encryption
+  BEFORE INSERT OR UPDATE OF content, is_encrypted, is_system ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.messages_require_dm_encryption();
@@ -0,0 +1,97 @@
+-- Revoke device keys instead of deleting them
+-- Envelopes name the sending device, and the recipient checks the embedded key against its published row.
+-- Deleting that row made every message the device had sent unverifiable, so removal now only sets
+-- revoked_at: revoked keys get no new messages but stay readable for verifying older ones.
+
+ALTER TABLE public.user_device_keys
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.user_device_keys.revoked_at IS 'When the owner removed this device; revoked keys are kept for verifying messages it already sent';
+
+-- Rows must outlive the device, so owners revoke rather than delete
+DROP POLICY IF EXISTS "Users can remove their own device keys" ON public.user_device_keys;
+
+-- A published key cannot be swapped out or brought back once revoked
+CREATE OR REPLACE FUNCTION public.user_device_keys_guard_revocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.hex_key IS DISTINCT FROM OLD.hex_key OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Device keys cannot be changed';
+  END IF;
+
+  IF OLD.revoked_at IS NOT NULL AND NEW.revoked_at IS DISTINCT FROM OLD.revoked_at THEN
+    RAISE EXCEPTION 'This device key has been revoked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_device_keys_guard_revocation ON public.user_device_keys;
+CREATE TRIGGER user_device_keys_guard_revocation
+  BEFORE UPDATE ON public.user_device_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.user_device_keys_guard_revocation();
+
+-- Only active devices are listed for encryption and safety numbers
+CREATE OR REPLACE FUNCTION public.get_encryption_details(p_conversation_id uuid)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_participants json;
+  v_verification json;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = p_conversation_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not a participant of this conversation';
+  END IF;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'user_id', p.id,
+    'display_name', p.display_name,
+    'profile_pic', p.profile_pic,
+    'is_self', p.id = auth.uid(),
+    'devices', COALESCE((
+      SELECT json_agg(json_build_object(
+        'device_id', k.id,
+        'device_name', k.device_name,
+        'hex_key', k.hex_key,
+        'last_seen_at', k.last_seen_at,
+        'created_at', k.created_at
+      ) ORDER BY k.created_at)
+      FROM user_device_keys k
+      WHERE k.user_id = p.id AND k.revoked_at IS NULL
+    ), '[]'::json)
+  ) ORDER BY p.id), '[]'::json)
+  INTO v_participants
+  FROM conversation_participants cp
+  JOIN profiles p ON p.id = cp.user_id
+  WHERE cp.conversation_id = p_conversation_id;
+
+  SELECT json_build_object(
+    'verified_at', ev.verified_at,
+    'status', ev.status,
+    'safety_number', ev.safety_number
+  )
+  INTO v_verification
+  FROM encryption_verifications ev
+  WHERE ev.conversation_id = p_conversation_id AND ev.verified_by = auth.uid()
+  ORDER BY ev.verified_at DESC
+  LIMIT 1;
+
+  RETURN json_build_object(
+    'conversation_id', p_conversation_id,
+    'participants', v_participants,
+    'last_verification', v_verification
+  );
+END;
+$function$;
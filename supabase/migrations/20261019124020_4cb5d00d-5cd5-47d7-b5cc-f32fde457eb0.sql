@@ -0,0 +1,24 @@
+-- Purge vanished messages every minute without a key in the migration
+-- The job reads the project URL and a dedicated cron secret from Vault; the purge function rejects
+-- any request without that secret, so it cannot be triggered with the public anon key.
+-- Before this runs, store both secrets and give the function the same value as CRON_SECRET:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<random secret>', 'cron_secret');
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-vanished-messages',
+  '* * * * *', -- every minute
+  $$
+  SELECT
+    net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-vanished-messages',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+      ),
+      body := jsonb_build_object('triggered_at', now())
+    ) as request_id;
+  $$
+);
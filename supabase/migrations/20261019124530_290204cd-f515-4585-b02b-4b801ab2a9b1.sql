@@ -0,0 +1,22 @@
+-- Remove data export archives once they expire
+-- Completed exports stay downloadable until expires_at; the purge-expired-exports function then deletes
+-- the ZIP from the data_exports bucket and the job row. It is triggered like purge-vanished-messages,
+-- with the project_url and cron_secret Vault secrets.
+
+CREATE INDEX IF NOT EXISTS idx_data_export_jobs_expires_at ON public.data_export_jobs(expires_at) WHERE expires_at IS NOT NULL;
+
+SELECT cron.schedule(
+  'purge-expired-exports',
+  '17 * * * *', -- hourly
+  $$
+  SELECT
+    net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-expired-exports',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+      ),
+      body := jsonb_build_object('triggered_at', now())
+    ) as request_id;
+  $$
+);
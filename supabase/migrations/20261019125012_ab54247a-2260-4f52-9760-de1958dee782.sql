@@ -0,0 +1,124 @@
+-- unsend_message() matched chat_media objects against the still percent-encoded path in the public URL,
+-- so files with spaces or non-ASCII names were never returned for removal. The path is now decoded
+-- before it is compared with storage.objects.name
+
+-- Percent-decoding of a URL path (UTF-8); NULL when the result is not valid UTF-8
+CREATE OR REPLACE FUNCTION public.url_decode(p_value TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+STRICT
+SET search_path = public
+AS $$
+DECLARE
+  v_bytes BYTEA := ''::bytea;
+  v_char TEXT;
+  i INTEGER := 1;
+BEGIN
+  WHILE i <= length(p_value) LOOP
+    v_char := substr(p_value, i, 1);
+    IF v_char = '%' AND substr(p_value, i + 1, 2) ~ '^[0-9A-Fa-f]{2}$' THEN
+      v_bytes := v_bytes || decode(substr(p_value, i + 1, 2), 'hex');
+      i := i + 3;
+    ELSE
+      v_bytes := v_bytes || convert_to(v_char, 'UTF8');
+      i := i + 1;
+    END IF;
+  END LOOP;
+
+  RETURN convert_from(v_bytes, 'UTF8');
+EXCEPTION
+  WHEN character_not_in_repertoire OR untranslatable_character THEN
+    RETURN NULL;
+END;
+$$;
+
+-- Returns the storage objects to remove now that nothing points at them
+CREATE OR REPLACE FUNCTION public.unsend_message(p_message_id UUID)
+RETURNS TABLE(bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages%ROWTYPE;
+  v_name TEXT;
+  v_media_urls TEXT[];
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF NOT FOUND OR v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only unsend your own messages';
+  END IF;
+
+  IF COALESCE(v_message.is_system, false) THEN
+    RAISE EXCEPTION 'This message can''t be unsent';
+  END IF;
+
+  SELECT COALESCE(display_name, username, 'Someone') INTO v_name FROM profiles WHERE id = v_message.sender_id;
+
+  DELETE FROM message_edits WHERE message_id = p_message_id;
+  DELETE FROM pinned_messages WHERE message_id = p_message_id;
+
+  UPDATE call_history
+  SET recording_path = NULL
+  WHERE recording_message_id = p_message_id;
+
+  UPDATE messages
+  SET content = v_name || ' unsent a message.',
+      is_system = true,
+      is_encrypted = false,
+      e2e_envelope = NULL,
+      attachment_url = NULL,
+      attachment_name = NULL,
+      image_url = NULL,
+      media_url = NULL,
+      is_image = false,
+      gif_id = NULL,
+      gif_url = NULL,
+      is_gif = false,
+      sticker_id = NULL,
+      sticker_url = NULL,
+      sticker_set = NULL,
+      is_sticker = false,
+      audio_url = NULL,
+      audio_path = NULL,
+      audio_duration = NULL,
+      audio_mime = NULL,
+      audio_size = NULL,
+      recording_path = NULL,
+      message_type = 'text',
+      edited_at = NULL,
+      unsent_at = now()
+  WHERE id = p_message_id;
+
+  v_media_urls := ARRAY(
+    SELECT DISTINCT url
+    FROM unnest(ARRAY[v_message.image_url, v_message.media_url, v_message.attachment_url]) AS url
+    WHERE url IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.image_url = url OR m.media_url = url OR m.attachment_url = url
+      )
+  );
+
+  -- Only the sender's own uploads: a forwarded file belongs to whoever sent it first
+  RETURN QUERY
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE (storage.foldername(o.name))[1] = v_message.sender_id::text
+    AND (
+      (o.bucket_id = 'chat_media'
+        AND o.name IN (
+          SELECT public.url_decode(substring(url FROM '/storage/v1/object/public/chat_media/([^?#]+)'))
+          FROM unnest(v_media_urls) AS url
+        ))
+      OR (o.bucket_id = 'message_audios'
+        AND o.name = v_message.audio_path
+        AND NOT EXISTS (SELECT 1 FROM messages m WHERE m.audio_path = o.name))
+      OR (o.bucket_id = 'call_recordings'
+        AND o.name = v_message.recording_path
+        AND NOT EXISTS (SELECT 1 FROM messages m WHERE m.recording_path = o.name))
+    );
+END;
+$$;